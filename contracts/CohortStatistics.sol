@@ -0,0 +1,271 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FHE, ebool, euint8, euint32, euint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { PatientDAOFHE } from "./Patient_DAO_DeSci.sol";
+import { PatientRecordVault } from "./PatientRecordVault.sol";
+import { RecordCriteria } from "./RecordCriteria.sol";
+
+// Counts and sums a record field over a trial's patients who match encrypted filters, without
+// disclosing any patient's values. Only the trial's proposer queries it, and the cohort is the
+// patients sharing their record with the trial who also allowed this contract as an evaluator in
+// the vault and whose record a current DAO provider verified; a patient whose consent to the trial
+// no longer counts in the ConsentRegistry is left out. Results are only decrypted when the
+// encrypted cohort size reaches the k-anonymity threshold; smaller cohorts decrypt to zeros and
+// only reveal that they were too small. Verification keeps the proposer from padding a cohort with
+// records of their own, but the threshold cannot stop differencing: two queries whose cohorts
+// differ by one patient, through their filters or through a patient joining or leaving in between,
+// disclose that patient's value. The threshold bounds what one query reveals, not a series of them.
+contract CohortStatistics is SepoliaConfig {
+    using RecordCriteria for RecordCriteria.Criterion[];
+
+    struct Query {
+        address researcher;
+        uint256 trialId;
+        uint8 field; // aggregated record field, see RecordCriteria
+        uint256 createdAt;
+        uint256 processed; // patients aggregated so far, by index in the vault's trial patients
+        uint256 patientCount; // patients sharing with the trial when the query was created
+        euint32 cohortSize;
+        euint64 sum;
+    }
+
+    // Ciphertexts submitted for decryption, zero unless the cohort met the threshold at request time.
+    struct Disclosure {
+        ebool released;
+        euint32 cohortSize;
+        euint64 sum;
+    }
+
+    struct QueryResult {
+        bool revealed;
+        bool released; // false when the cohort was below the threshold
+        uint32 cohortSize;
+        uint64 sum;
+    }
+
+    struct DecryptionContext {
+        uint256 queryId;
+        bytes32 stateHash;
+        bool processed;
+    }
+
+    PatientDAOFHE public immutable dao;
+    PatientRecordVault public immutable vault;
+    uint32 public minCohortSize;
+    uint256 public queryCount;
+    mapping(uint256 => Query) internal queries;
+    mapping(uint256 => RecordCriteria.Criterion[]) internal filters; // queryId => filters, all must hold
+    mapping(uint256 => mapping(address => bool)) internal aggregated; // queryId => patient => counted
+    mapping(uint256 => Disclosure) internal disclosures;
+    mapping(uint256 => QueryResult) public queryResults;
+    mapping(uint256 => DecryptionContext) public decryptionContexts;
+
+    error NotOwner();
+    error NotProposer();
+    error InvalidThreshold();
+    error InvalidField();
+    error InvalidQuery();
+    error QueryIncomplete();
+    error ReplayDetected();
+    error StateMismatch();
+
+    event MinCohortSizeUpdated(uint32 previousSize, uint32 newSize);
+    event QueryCreated(
+        uint256 indexed queryId,
+        address indexed researcher,
+        uint256 indexed trialId,
+        uint8 field,
+        uint256 patientCount
+    );
+    event QueryProcessed(uint256 indexed queryId, uint256 processed, uint256 patientCount);
+    event QueryDecryptionRequested(uint256 indexed requestId, uint256 indexed queryId, bytes32 stateHash);
+    event QueryResultRevealed(
+        uint256 indexed requestId,
+        uint256 indexed queryId,
+        bool released,
+        uint32 cohortSize,
+        uint64 sum
+    );
+
+    modifier onlyDaoOwner() {
+        if (msg.sender != dao.owner()) revert NotOwner();
+        _;
+    }
+
+    constructor(PatientDAOFHE dao_, PatientRecordVault vault_, uint32 minCohortSize_) {
+        if (minCohortSize_ == 0) revert InvalidThreshold();
+        dao = dao_;
+        vault = vault_;
+        minCohortSize = minCohortSize_;
+    }
+
+    // Applies to decryptions requested from now on.
+    function setMinCohortSize(uint32 newSize) external onlyDaoOwner {
+        if (newSize == 0) revert InvalidThreshold();
+        uint32 previousSize = minCohortSize;
+        minCohortSize = newSize;
+        emit MinCohortSizeUpdated(previousSize, newSize);
+    }
+
+    // Aggregates `field` over the trial's patients matching every filter. Patients lacking the field are left out.
+    function createQuery(
+        uint256 trialId,
+        uint8 field,
+        RecordCriteria.CriterionInput[] calldata inputs,
+        bytes calldata inputProof
+    ) external returns (uint256 queryId) {
+        if (dao.getProposal(trialId).proposer != msg.sender) revert NotProposer();
+        if (field >= RecordCriteria.FIELD_BIOMARKER + vault.MAX_BIOMARKERS()) revert InvalidField();
+
+        queryId = ++queryCount;
+        filters[queryId].store(inputs, inputProof, vault.MAX_BIOMARKERS(), msg.sender);
+
+        Query storage query = queries[queryId];
+        query.researcher = msg.sender;
+        query.trialId = trialId;
+        query.field = field;
+        query.createdAt = block.timestamp;
+        query.patientCount = vault.trialPatientCount(trialId);
+        query.cohortSize = FHE.asEuint32(0);
+        query.sum = FHE.asEuint64(0);
+        FHE.allowThis(query.cohortSize);
+        FHE.allowThis(query.sum);
+        emit QueryCreated(queryId, msg.sender, trialId, field, query.patientCount);
+    }
+
+    // Aggregates up to `maxPatients` more patients, reading the vault's trial patients by index so that
+    // no call copies the whole cohort; anyone may pay for it. Patients who have since revoked the
+    // trial, lost its consent, removed this contract as an evaluator or replaced their verified
+    // record are skipped. Revocations move other patients between indexes, so a patient may be
+    // missed but is never counted twice.
+    function processQuery(uint256 queryId, uint256 maxPatients) external {
+        Query storage query = queries[queryId];
+        if (query.createdAt == 0) revert InvalidQuery();
+        RecordCriteria.Criterion[] storage queryFilters = filters[queryId];
+
+        uint256 end = query.patientCount;
+        if (maxPatients < end - query.processed) end = query.processed + maxPatients;
+        uint256 sharing = vault.trialPatientCount(query.trialId);
+        euint32 cohortSize = query.cohortSize;
+        euint64 sum = query.sum;
+        for (uint256 i = query.processed; i < end && i < sharing; i++) {
+            address patient = vault.trialPatientAt(query.trialId, i);
+            if (aggregated[queryId][patient] || !_inCohort(patient, query.trialId)) continue;
+            aggregated[queryId][patient] = true;
+            (euint8 ageBracket, euint32 diagnosisCode, euint32[] memory biomarkers, ) = vault.getRecord(patient);
+            if (
+                query.field >= RecordCriteria.FIELD_BIOMARKER &&
+                query.field - RecordCriteria.FIELD_BIOMARKER >= biomarkers.length
+            ) continue;
+
+            ebool matched = queryFilters.matches(ageBracket, diagnosisCode, biomarkers);
+            euint32 value = RecordCriteria.fieldValue(query.field, ageBracket, diagnosisCode, biomarkers);
+            cohortSize = FHE.add(cohortSize, FHE.select(matched, FHE.asEuint32(1), FHE.asEuint32(0)));
+            sum = FHE.add(sum, FHE.select(matched, FHE.asEuint64(value), FHE.asEuint64(0)));
+        }
+
+        FHE.allowThis(cohortSize);
+        FHE.allowThis(sum);
+        query.cohortSize = cohortSize;
+        query.sum = sum;
+        query.processed = end;
+        emit QueryProcessed(queryId, end, query.patientCount);
+    }
+
+    // Submits the aggregates for decryption, guarded by the threshold in force now. Requesting
+    // again replaces the disclosed ciphertexts, which voids earlier unanswered requests.
+    function requestQueryDecryption(uint256 queryId) external {
+        Query storage query = queries[queryId];
+        if (query.createdAt == 0) revert InvalidQuery();
+        if (query.processed < query.patientCount) revert QueryIncomplete();
+
+        Disclosure storage disclosure = disclosures[queryId];
+        disclosure.released = FHE.ge(query.cohortSize, minCohortSize);
+        disclosure.cohortSize = FHE.select(disclosure.released, query.cohortSize, FHE.asEuint32(0));
+        disclosure.sum = FHE.select(disclosure.released, query.sum, FHE.asEuint64(0));
+        FHE.allowThis(disclosure.released);
+        FHE.allowThis(disclosure.cohortSize);
+        FHE.allowThis(disclosure.sum);
+
+        bytes32[] memory cts = queryResultCiphertexts(queryId);
+        bytes32 stateHash = _hashCiphertexts(cts);
+        uint256 requestId = FHE.requestDecryption(cts, this.queryResultCallback.selector);
+
+        decryptionContexts[requestId] = DecryptionContext({ queryId: queryId, stateHash: stateHash, processed: false });
+        emit QueryDecryptionRequested(requestId, queryId, stateHash);
+    }
+
+    function queryResultCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        DecryptionContext storage ctx = decryptionContexts[requestId];
+        if (ctx.processed) revert ReplayDetected();
+        if (_hashCiphertexts(queryResultCiphertexts(ctx.queryId)) != ctx.stateHash) revert StateMismatch();
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        (bool released, uint32 cohortSize, uint64 sum) = abi.decode(cleartexts, (bool, uint32, uint64));
+        ctx.processed = true;
+
+        queryResults[ctx.queryId] = QueryResult({
+            revealed: true,
+            released: released,
+            cohortSize: cohortSize,
+            sum: sum
+        });
+        emit QueryResultRevealed(requestId, ctx.queryId, released, cohortSize, sum);
+    }
+
+    function getQuery(
+        uint256 queryId
+    )
+        external
+        view
+        returns (
+            address researcher,
+            uint256 trialId,
+            uint8 field,
+            uint256 createdAt,
+            uint256 processed,
+            uint256 patientCount
+        )
+    {
+        Query storage query = queries[queryId];
+        return (
+            query.researcher,
+            query.trialId,
+            query.field,
+            query.createdAt,
+            query.processed,
+            query.patientCount
+        );
+    }
+
+    function getFilters(uint256 queryId) external view returns (RecordCriteria.Criterion[] memory) {
+        return filters[queryId];
+    }
+
+    // Handles decrypted for a query result: released flag, cohort size, sum.
+    function queryResultCiphertexts(uint256 queryId) public view returns (bytes32[] memory cts) {
+        Disclosure storage disclosure = disclosures[queryId];
+        cts = new bytes32[](3);
+        cts[0] = FHE.toBytes32(disclosure.released);
+        cts[1] = FHE.toBytes32(disclosure.cohortSize);
+        cts[2] = FHE.toBytes32(disclosure.sum);
+    }
+
+    // The patient consents to the trial, lets this contract compute on their record, and a provider
+    // still in the DAO verified it.
+    function _inCohort(address patient, uint256 trialId) internal view returns (bool) {
+        address verifier = vault.verifierOf(patient);
+        return
+            verifier != address(0) &&
+            dao.isProvider(verifier) &&
+            vault.isEvaluator(patient, address(this)) &&
+            vault.consentRegistry().hasActiveConsent(patient, trialId);
+    }
+
+    function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
+        return keccak256(abi.encode(cts, address(this)));
+    }
+}
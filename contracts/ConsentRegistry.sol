@@ -0,0 +1,156 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { EIP712 } from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import { SignatureChecker } from "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+import { Nonces } from "@openzeppelin/contracts/utils/Nonces.sol";
+import { EnumerableSet } from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import { PatientDAOFHE } from "./Patient_DAO_DeSci.sol";
+import { PatientRecordVault } from "./PatientRecordVault.sol";
+
+// Informed consent per trial. A trial's proposer publishes versions of its consent document by
+// hash, and patients consent to one version by signing it as EIP-712 typed data, which anyone
+// may submit for them. Consent lasts until the patient withdraws it or the trial publishes a
+// version that requires consenting again. Withdrawing also revokes the trial's vault access, and
+// a version requiring consent again stops the vault sharing new records until patients consent to
+// it. Moving the current ones away is paged through the vault, so publishing costs the same
+// however many patients the trial has. Every path disclosing record data to someone other than
+// the patient checks consent here: vault access and CohortStatistics queries on the trial.
+contract ConsentRegistry is EIP712, Nonces {
+    using EnumerableSet for EnumerableSet.UintSet;
+
+    struct ConsentDocument {
+        bytes32 documentHash;
+        string uri;
+        bool reconsentRequired; // consents to earlier versions stop counting
+        uint256 publishedAt;
+    }
+
+    struct Consent {
+        uint256 version; // zero if the patient never consented
+        uint256 givenAt;
+        uint256 withdrawnAt; // zero while the consent stands
+    }
+
+    bytes32 public constant CONSENT_TYPEHASH =
+        keccak256(
+            "Consent(address patient,uint256 trialId,uint256 version,bytes32 documentHash,uint256 nonce,uint256 deadline)"
+        );
+
+    PatientDAOFHE public immutable dao;
+    PatientRecordVault public recordVault; // follows withdrawals and renewed consents once set
+    mapping(uint256 => ConsentDocument[]) internal documents; // trialId => documents, version i + 1 at index i
+    mapping(uint256 => uint256) public minimumVersion; // trialId => oldest version consents still count for
+    mapping(uint256 => mapping(address => Consent)) public consents; // trialId => patient => latest consent
+    mapping(address => EnumerableSet.UintSet) internal patientTrials; // patient => trials ever consented to
+
+    error NotOwner();
+    error NotProposer();
+    error VaultAlreadySet();
+    error InvalidVersion();
+    error ExpiredSignature();
+    error InvalidSignature();
+    error NoActiveConsent();
+
+    event RecordVaultSet(address indexed vault);
+    event ConsentDocumentPublished(
+        uint256 indexed trialId,
+        uint256 indexed version,
+        bytes32 documentHash,
+        string uri,
+        bool reconsentRequired
+    );
+    event ConsentGiven(uint256 indexed trialId, address indexed patient, uint256 indexed version, bytes32 documentHash);
+    event ConsentWithdrawn(uint256 indexed trialId, address indexed patient, uint256 version);
+
+    constructor(PatientDAOFHE dao_) EIP712("PatientDAO Consent", "1") {
+        dao = dao_;
+    }
+
+    // The vault is deployed after the registry it checks, so the DAO owner links it once.
+    function setRecordVault(PatientRecordVault vault) external {
+        if (msg.sender != dao.owner()) revert NotOwner();
+        if (address(recordVault) != address(0)) revert VaultAlreadySet();
+        recordVault = vault;
+        emit RecordVaultSet(address(vault));
+    }
+
+    function publishDocument(
+        uint256 trialId,
+        bytes32 documentHash,
+        string calldata uri,
+        bool reconsentRequired
+    ) external returns (uint256 version) {
+        if (dao.getProposal(trialId).proposer != msg.sender) revert NotProposer();
+        documents[trialId].push(
+            ConsentDocument({
+                documentHash: documentHash,
+                uri: uri,
+                reconsentRequired: reconsentRequired,
+                publishedAt: block.timestamp
+            })
+        );
+        version = documents[trialId].length;
+        if (reconsentRequired || version == 1) minimumVersion[trialId] = version;
+        emit ConsentDocumentPublished(trialId, version, documentHash, uri, reconsentRequired);
+    }
+
+    // Records the patient's signed consent to `version` of the trial's document, replacing any earlier one.
+    function giveConsent(
+        address patient,
+        uint256 trialId,
+        uint256 version,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        if (block.timestamp > deadline) revert ExpiredSignature();
+        if (version == 0 || version > documents[trialId].length || version < minimumVersion[trialId]) {
+            revert InvalidVersion();
+        }
+        bytes32 documentHash = documents[trialId][version - 1].documentHash;
+        bytes32 digest = _hashTypedDataV4(
+            keccak256(
+                abi.encode(CONSENT_TYPEHASH, patient, trialId, version, documentHash, _useNonce(patient), deadline)
+            )
+        );
+        if (!SignatureChecker.isValidSignatureNow(patient, digest, signature)) revert InvalidSignature();
+
+        consents[trialId][patient] = Consent({ version: version, givenAt: block.timestamp, withdrawnAt: 0 });
+        patientTrials[patient].add(trialId);
+        emit ConsentGiven(trialId, patient, version, documentHash);
+
+        if (address(recordVault) != address(0)) recordVault.restoreRenewedConsent(patient, trialId);
+    }
+
+    function withdrawConsent(uint256 trialId) external {
+        Consent storage consent = consents[trialId][msg.sender];
+        if (consent.version == 0 || consent.withdrawnAt != 0) revert NoActiveConsent();
+        consent.withdrawnAt = block.timestamp;
+        emit ConsentWithdrawn(trialId, msg.sender, consent.version);
+
+        if (address(recordVault) != address(0)) recordVault.revokeWithdrawnConsent(msg.sender, trialId);
+    }
+
+    function hasActiveConsent(address patient, uint256 trialId) external view returns (bool) {
+        Consent storage consent = consents[trialId][patient];
+        return consent.version != 0 && consent.withdrawnAt == 0 && consent.version >= minimumVersion[trialId];
+    }
+
+    function latestVersion(uint256 trialId) external view returns (uint256) {
+        return documents[trialId].length;
+    }
+
+    function getDocument(uint256 trialId, uint256 version) external view returns (ConsentDocument memory) {
+        if (version == 0 || version > documents[trialId].length) revert InvalidVersion();
+        return documents[trialId][version - 1];
+    }
+
+    function getDocuments(uint256 trialId) external view returns (ConsentDocument[] memory) {
+        return documents[trialId];
+    }
+
+    // Every trial the patient consented to, including withdrawn and superseded consents.
+    function getConsentedTrials(address patient) external view returns (uint256[] memory) {
+        return patientTrials[patient].values();
+    }
+}
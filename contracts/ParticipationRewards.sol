@@ -0,0 +1,181 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FHE, ebool, euint64, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { PatientDAOFHE } from "./Patient_DAO_DeSci.sol";
+import { PatientRecordVault } from "./PatientRecordVault.sol";
+
+// Rewards patients for contributing their record to approved trials, as a confidential token:
+// balances and amounts are encrypted, and transfers only reveal who sent tokens to whom. The DAO
+// owner mints rewards to researchers, who move them into their trials' pools and set an encrypted
+// reward per patient. The trial's proposer enrolls the patients who take part, since anyone can
+// share a record from any number of addresses; an enrolled patient still sharing their record with
+// the trial through the vault, with current consent, accrues the reward once on their first claim. Amounts that exceed the sender's balance
+// move nothing instead of reverting, so a failed transfer does not reveal a balance either; a pool
+// too small to pay what a patient is owed pays nothing, and the patient claims again once refilled.
+contract ParticipationRewards is SepoliaConfig {
+    string public constant name = "Patient DAO Reward";
+    string public constant symbol = "PDR";
+    uint8 public constant decimals = 6;
+
+    PatientDAOFHE public immutable dao;
+    PatientRecordVault public immutable vault;
+
+    euint64 internal _totalSupply; // uninitialized until the first mint
+    mapping(address => euint64) internal _balances;
+    mapping(uint256 => euint64) internal _pools; // trialId => unclaimed rewards
+    mapping(uint256 => euint64) internal _rewardPerPatient; // trialId => reward per claim
+    mapping(uint256 => mapping(address => bool)) public isEnrolled; // trialId => patient => confirmed by the proposer
+    mapping(uint256 => mapping(address => bool)) public hasClaimed; // trialId => patient => reward accrued
+    mapping(uint256 => mapping(address => euint64)) internal _owed; // trialId => patient => accrued but unpaid
+
+    error NotOwner();
+    error NotProposer();
+    error TrialNotApproved();
+    error NotParticipant();
+    error NotEnrolled();
+    error NoReward();
+    error ConsentRequired();
+    error InvalidReceiver();
+
+    event Transfer(address indexed from, address indexed to);
+    event PoolFunded(uint256 indexed trialId, address indexed funder);
+    event RewardPerPatientSet(uint256 indexed trialId);
+    event ParticipantEnrolled(uint256 indexed trialId, address indexed patient);
+    event RewardClaimed(uint256 indexed trialId, address indexed patient);
+
+    constructor(PatientDAOFHE dao_, PatientRecordVault vault_) {
+        dao = dao_;
+        vault = vault_;
+    }
+
+    function mint(address to, externalEuint64 encryptedAmount, bytes calldata inputProof) external {
+        if (msg.sender != dao.owner()) revert NotOwner();
+        if (to == address(0)) revert InvalidReceiver();
+        euint64 amount = FHE.fromExternal(encryptedAmount, inputProof);
+        // Never the minted handle itself, which the receiver is allowed
+        _totalSupply = FHE.add(FHE.isInitialized(_totalSupply) ? _totalSupply : FHE.asEuint64(0), amount);
+        FHE.allowThis(_totalSupply);
+        _credit(to, amount);
+        emit Transfer(address(0), to);
+    }
+
+    function confidentialTransfer(address to, externalEuint64 encryptedAmount, bytes calldata inputProof) external {
+        if (to == address(0)) revert InvalidReceiver();
+        _credit(to, _debit(msg.sender, FHE.fromExternal(encryptedAmount, inputProof)));
+        emit Transfer(msg.sender, to);
+    }
+
+    // Moves up to `encryptedAmount` of the caller's balance into an approved trial's pool.
+    function fundPool(uint256 trialId, externalEuint64 encryptedAmount, bytes calldata inputProof) external {
+        PatientDAOFHE.Proposal memory trial = _approvedTrial(trialId);
+        euint64 moved = _debit(msg.sender, FHE.fromExternal(encryptedAmount, inputProof));
+        euint64 pool = FHE.isInitialized(_pools[trialId]) ? FHE.add(_pools[trialId], moved) : moved;
+        _pools[trialId] = pool;
+        FHE.allowThis(pool);
+        FHE.allow(pool, trial.proposer);
+        emit PoolFunded(trialId, msg.sender);
+    }
+
+    function setRewardPerPatient(
+        uint256 trialId,
+        externalEuint64 encryptedReward,
+        bytes calldata inputProof
+    ) external {
+        PatientDAOFHE.Proposal memory trial = _approvedTrial(trialId);
+        if (trial.proposer != msg.sender) revert NotProposer();
+        euint64 reward = FHE.fromExternal(encryptedReward, inputProof);
+        _rewardPerPatient[trialId] = reward;
+        FHE.allowThis(reward);
+        FHE.allow(reward, msg.sender);
+        emit RewardPerPatientSet(trialId);
+    }
+
+    // Confirms that the patients, all sharing their record with the trial, take part in it.
+    function enrollParticipants(uint256 trialId, address[] calldata patients) external {
+        PatientDAOFHE.Proposal memory trial = _approvedTrial(trialId);
+        if (trial.proposer != msg.sender) revert NotProposer();
+        for (uint256 i = 0; i < patients.length; i++) {
+            if (!vault.hasAccess(patients[i], trialId)) revert NotParticipant();
+            isEnrolled[trialId][patients[i]] = true;
+            emit ParticipantEnrolled(trialId, patients[i]);
+        }
+    }
+
+    // Accrues the trial's reward on a patient's first claim, and pays what they are owed if the pool
+    // covers it. Later claims pay what is still owed, nothing once it is paid.
+    function claimReward(uint256 trialId) external {
+        if (!vault.hasAccess(msg.sender, trialId)) revert NotParticipant();
+        if (!isEnrolled[trialId][msg.sender]) revert NotEnrolled();
+        if (!vault.consentRegistry().hasActiveConsent(msg.sender, trialId)) revert ConsentRequired();
+        euint64 owed;
+        if (hasClaimed[trialId][msg.sender]) {
+            owed = _owed[trialId][msg.sender];
+        } else {
+            owed = _rewardPerPatient[trialId];
+            if (!FHE.isInitialized(owed) || !FHE.isInitialized(_pools[trialId])) revert NoReward();
+            hasClaimed[trialId][msg.sender] = true;
+        }
+
+        euint64 pool = _pools[trialId];
+        euint64 paid = FHE.select(FHE.le(owed, pool), owed, FHE.asEuint64(0));
+        pool = FHE.sub(pool, paid);
+        _pools[trialId] = pool;
+        FHE.allowThis(pool);
+        FHE.allow(pool, dao.getProposal(trialId).proposer);
+        owed = FHE.sub(owed, paid);
+        _owed[trialId][msg.sender] = owed;
+        FHE.allowThis(owed);
+        FHE.allow(owed, msg.sender);
+        _credit(msg.sender, paid);
+        emit RewardClaimed(trialId, msg.sender);
+    }
+
+    function confidentialBalanceOf(address account) external view returns (euint64) {
+        return _balances[account];
+    }
+
+    function confidentialTotalSupply() external view returns (euint64) {
+        return _totalSupply;
+    }
+
+    // Unclaimed rewards; only the trial's proposer can decrypt it.
+    function poolOf(uint256 trialId) external view returns (euint64) {
+        return _pools[trialId];
+    }
+
+    function rewardPerPatient(uint256 trialId) external view returns (euint64) {
+        return _rewardPerPatient[trialId];
+    }
+
+    // Accrued reward the pool could not pay yet; only the patient can decrypt it.
+    function owedOf(uint256 trialId, address patient) external view returns (euint64) {
+        return _owed[trialId][patient];
+    }
+
+    function _approvedTrial(uint256 trialId) internal view returns (PatientDAOFHE.Proposal memory trial) {
+        trial = dao.getProposal(trialId);
+        if (trial.status != PatientDAOFHE.ProposalStatus.Approved) revert TrialNotApproved();
+    }
+
+    // Takes `amount` from the account, or nothing if its balance is short; returns what was taken.
+    function _debit(address account, euint64 amount) internal returns (euint64 moved) {
+        euint64 balance = _balances[account];
+        if (!FHE.isInitialized(balance)) balance = FHE.asEuint64(0);
+        ebool enough = FHE.le(amount, balance);
+        moved = FHE.select(enough, amount, FHE.asEuint64(0));
+        balance = FHE.sub(balance, moved);
+        _balances[account] = balance;
+        FHE.allowThis(balance);
+        FHE.allow(balance, account);
+    }
+
+    function _credit(address account, euint64 amount) internal {
+        euint64 balance = _balances[account];
+        balance = FHE.isInitialized(balance) ? FHE.add(balance, amount) : amount;
+        _balances[account] = balance;
+        FHE.allowThis(balance);
+        FHE.allow(balance, account);
+    }
+}
@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { TimelockController } from "@openzeppelin/contracts/governance/TimelockController.sol";
+
+// Delays the sensitive PatientDAOFHE admin calls (ownership, timelock, pause and
+// batch decryption) once it is set with PatientDAOFHE.setTimelock. Proposers are
+// usually a multisig; an executor of address(0) lets anyone execute ready calls.
+contract PatientDAOTimelock is TimelockController {
+    constructor(
+        uint256 minDelay,
+        address[] memory proposers,
+        address[] memory executors,
+        address admin
+    ) TimelockController(minDelay, proposers, executors, admin) {}
+}
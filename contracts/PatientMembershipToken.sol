@@ -0,0 +1,184 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+
+// Soulbound membership token with encrypted balances. Who holds a membership is
+// public, how much of it is not. Holders delegate their voting power (to
+// themselves on first mint) and PatientDAOFHE weighs ballots by the encrypted
+// votes delegated to the voter, read at the timestamp the vote started.
+contract PatientMembershipToken is SepoliaConfig {
+    struct Checkpoint {
+        uint48 timepoint;
+        euint32 votes;
+    }
+
+    string public constant name = "Patient DAO Membership";
+    string public constant symbol = "PDM";
+    uint8 public constant decimals = 0;
+
+    address public owner;
+    address public pendingOwner;
+    address public immutable dao; // may use voting power handles to weigh ballots
+    mapping(address => bool) public isHolder;
+    mapping(address => address) public delegates;
+
+    euint32 internal _totalSupply; // uninitialized until the first mint
+    mapping(address => euint32) internal _balances;
+    mapping(address => Checkpoint[]) internal _checkpoints;
+
+    error NotOwner();
+    error NotPendingOwner();
+    error NotHolder();
+    error FutureLookup(uint256 timepoint, uint48 clock);
+
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event Minted(address indexed to);
+    event Burned(address indexed from);
+    event DelegateChanged(address indexed delegator, address indexed fromDelegate, address indexed toDelegate);
+    event DelegateVotesChanged(address indexed delegate);
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+
+    constructor(address dao_) {
+        owner = msg.sender;
+        dao = dao_;
+    }
+
+    function transferOwnership(address newOwner) external onlyOwner {
+        pendingOwner = newOwner;
+        emit OwnershipTransferStarted(owner, newOwner);
+    }
+
+    function acceptOwnership() external {
+        if (msg.sender != pendingOwner) revert NotPendingOwner();
+        address previousOwner = owner;
+        owner = msg.sender;
+        delete pendingOwner;
+        emit OwnershipTransferred(previousOwner, msg.sender);
+    }
+
+    function mint(address to, externalEuint32 encryptedAmount, bytes calldata inputProof) external onlyOwner {
+        euint32 amount = FHE.fromExternal(encryptedAmount, inputProof);
+        // Mints nothing rather than wrap the supply, so no tally of voting power can overflow.
+        euint32 newSupply = FHE.add(_totalSupply, amount);
+        euint32 minted = FHE.select(FHE.ge(newSupply, _totalSupply), amount, FHE.asEuint32(0));
+        _setTotalSupply(FHE.add(_totalSupply, minted));
+
+        if (!isHolder[to]) {
+            isHolder[to] = true;
+            delegates[to] = to;
+            emit DelegateChanged(to, address(0), to);
+        }
+        _setBalance(to, FHE.add(_balances[to], minted));
+        _moveVotes(address(0), delegates[to], minted);
+        emit Minted(to);
+    }
+
+    function burn(address from, externalEuint32 encryptedAmount, bytes calldata inputProof) external onlyOwner {
+        if (!isHolder[from]) revert NotHolder();
+        euint32 amount = FHE.fromExternal(encryptedAmount, inputProof);
+        euint32 balance = _balances[from];
+        euint32 burned = FHE.select(FHE.le(amount, balance), amount, FHE.asEuint32(0));
+        _setTotalSupply(FHE.sub(_totalSupply, burned));
+        _setBalance(from, FHE.sub(balance, burned));
+        _moveVotes(delegates[from], address(0), burned);
+        emit Burned(from);
+    }
+
+    // Both sides must hold a membership, so delegated votes can always be cast.
+    function delegate(address delegatee) external {
+        if (!isHolder[msg.sender] || !isHolder[delegatee]) revert NotHolder();
+        address previousDelegate = delegates[msg.sender];
+        delegates[msg.sender] = delegatee;
+        emit DelegateChanged(msg.sender, previousDelegate, delegatee);
+        _moveVotes(previousDelegate, delegatee, _balances[msg.sender]);
+    }
+
+    function confidentialBalanceOf(address account) external view returns (euint32) {
+        return _balances[account];
+    }
+
+    function confidentialTotalSupply() external view returns (euint32) {
+        return _totalSupply;
+    }
+
+    function clock() public view returns (uint48) {
+        return uint48(block.timestamp);
+    }
+
+    // solhint-disable-next-line func-name-mixedcase
+    function CLOCK_MODE() external pure returns (string memory) {
+        return "mode=timestamp";
+    }
+
+    function numCheckpoints(address account) external view returns (uint256) {
+        return _checkpoints[account].length;
+    }
+
+    function getVotes(address account) public view returns (euint32) {
+        Checkpoint[] storage checkpoints = _checkpoints[account];
+        return checkpoints.length == 0 ? euint32.wrap(0) : checkpoints[checkpoints.length - 1].votes;
+    }
+
+    // Votes delegated to `account` at the end of `timepoint`; uninitialized when there were none.
+    function getPastVotes(address account, uint256 timepoint) external view returns (euint32) {
+        uint48 currentTimepoint = clock();
+        if (timepoint >= currentTimepoint) revert FutureLookup(timepoint, currentTimepoint);
+
+        Checkpoint[] storage checkpoints = _checkpoints[account];
+        uint256 low = 0;
+        uint256 high = checkpoints.length;
+        while (low < high) {
+            uint256 mid = (low + high) / 2;
+            if (checkpoints[mid].timepoint > timepoint) {
+                high = mid;
+            } else {
+                low = mid + 1;
+            }
+        }
+        return high == 0 ? euint32.wrap(0) : checkpoints[high - 1].votes;
+    }
+
+    function _setTotalSupply(euint32 totalSupply) internal {
+        _totalSupply = totalSupply;
+        FHE.allowThis(totalSupply);
+        FHE.allow(totalSupply, owner);
+    }
+
+    function _setBalance(address account, euint32 balance) internal {
+        _balances[account] = balance;
+        FHE.allowThis(balance);
+        FHE.allow(balance, account);
+    }
+
+    function _moveVotes(address from, address to, euint32 amount) internal {
+        if (from == to) return;
+        if (from != address(0)) {
+            _writeCheckpoint(from, FHE.sub(getVotes(from), amount));
+        }
+        if (to != address(0)) {
+            _writeCheckpoint(to, FHE.add(getVotes(to), amount));
+        }
+    }
+
+    function _writeCheckpoint(address account, euint32 votes) internal {
+        FHE.allowThis(votes);
+        FHE.allow(votes, account);
+        if (dao != address(0)) FHE.allow(votes, dao);
+
+        Checkpoint[] storage checkpoints = _checkpoints[account];
+        uint48 timepoint = clock();
+        if (checkpoints.length > 0 && checkpoints[checkpoints.length - 1].timepoint == timepoint) {
+            checkpoints[checkpoints.length - 1].votes = votes;
+        } else {
+            checkpoints.push(Checkpoint({ timepoint: timepoint, votes: votes }));
+        }
+        emit DelegateVotesChanged(account);
+    }
+}
@@ -0,0 +1,256 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FHE, euint8, euint32, externalEuint8, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { EnumerableSet } from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import { PatientDAOFHE } from "./Patient_DAO_DeSci.sol";
+import { ConsentRegistry } from "./ConsentRegistry.sol";
+
+// Patients keep their clinical fields here as ciphertexts and decide which approved trials they
+// consented to may read them. Access goes to the trial's proposer through the FHE ACL. ACL grants
+// cannot be taken back, so revoking a trial re-encrypts the record under new handles that it was
+// never allowed to read; values the researcher already decrypted stay with them. Withdrawing
+// consent in the ConsentRegistry revokes the trial the same way, and a document version requiring
+// consent again stops sharing new records until the patient consents to it, while anyone may move
+// the current ones away with rotateSupersededConsents. Patients may also let contracts
+// such as TrialEligibility compute on their record, which is revoked the same way. Allowing an
+// evaluator is a consent of its own, given and withdrawn here rather than in the registry: the
+// evaluator's code decides what it discloses, and eligibility is checked before any trial consent.
+// A DAO provider may vouch that a record belongs to a real patient in their care, so that contracts
+// counting patients, such as CohortStatistics, can leave out records anyone could have made up.
+contract PatientRecordVault is SepoliaConfig {
+    using EnumerableSet for EnumerableSet.UintSet;
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    struct Record {
+        euint8 ageBracket;
+        euint32 diagnosisCode;
+        euint32[] biomarkers;
+        uint256 updatedAt; // zero while the patient has no record
+        address verifiedBy; // provider who vouched for the current record, zero if none
+    }
+
+    uint8 public constant MAX_BIOMARKERS = 8;
+
+    PatientDAOFHE public immutable dao;
+    ConsentRegistry public immutable consentRegistry;
+    mapping(address => Record) internal records;
+    mapping(address => EnumerableSet.UintSet) internal grantedTrials; // patient => trial ids
+    mapping(uint256 => EnumerableSet.AddressSet) internal trialPatients; // trial id => patients
+    mapping(address => EnumerableSet.AddressSet) internal evaluators; // patient => contracts computing on the record
+    mapping(address => EnumerableSet.AddressSet) internal evaluatorPatients; // evaluator => patients
+
+    error NoRecord();
+    error TooManyBiomarkers();
+    error TrialNotApproved();
+    error AlreadyGranted();
+    error NotGranted();
+    error ConsentRequired();
+    error NotConsentRegistry();
+    error NotProvider();
+
+    event RecordSubmitted(address indexed patient, uint256 biomarkerCount);
+    event RecordVerified(address indexed patient, address indexed provider);
+    event AccessGranted(address indexed patient, uint256 indexed trialId, address indexed researcher);
+    event AccessRevoked(address indexed patient, uint256 indexed trialId);
+    event EvaluatorAllowed(address indexed patient, address indexed evaluator);
+    event EvaluatorRemoved(address indexed patient, address indexed evaluator);
+
+    constructor(PatientDAOFHE dao_, ConsentRegistry consentRegistry_) {
+        dao = dao_;
+        consentRegistry = consentRegistry_;
+    }
+
+    // Replaces the caller's record; trials the patient granted can read the new values too. A new
+    // record needs verifying again.
+    function submitRecord(
+        externalEuint8 ageBracket,
+        externalEuint32 diagnosisCode,
+        externalEuint32[] calldata biomarkers,
+        bytes calldata inputProof
+    ) external {
+        if (biomarkers.length > MAX_BIOMARKERS) revert TooManyBiomarkers();
+        Record storage record = records[msg.sender];
+        record.ageBracket = FHE.fromExternal(ageBracket, inputProof);
+        record.diagnosisCode = FHE.fromExternal(diagnosisCode, inputProof);
+        delete record.biomarkers;
+        for (uint256 i = 0; i < biomarkers.length; i++) {
+            record.biomarkers.push(FHE.fromExternal(biomarkers[i], inputProof));
+        }
+        record.updatedAt = block.timestamp;
+        record.verifiedBy = address(0);
+
+        _allowRecord(msg.sender);
+        emit RecordSubmitted(msg.sender, biomarkers.length);
+    }
+
+    // A DAO provider vouches that the patient's current record belongs to a real patient in their care.
+    function verifyRecord(address patient) external {
+        if (!dao.isProvider(msg.sender)) revert NotProvider();
+        Record storage record = records[patient];
+        if (record.updatedAt == 0) revert NoRecord();
+        record.verifiedBy = msg.sender;
+        emit RecordVerified(patient, msg.sender);
+    }
+
+    function grantAccess(uint256 trialId) external {
+        if (records[msg.sender].updatedAt == 0) revert NoRecord();
+        PatientDAOFHE.Proposal memory trial = dao.getProposal(trialId);
+        if (trial.status != PatientDAOFHE.ProposalStatus.Approved) revert TrialNotApproved();
+        if (!consentRegistry.hasActiveConsent(msg.sender, trialId)) revert ConsentRequired();
+        if (!grantedTrials[msg.sender].add(trialId)) revert AlreadyGranted();
+        trialPatients[trialId].add(msg.sender);
+
+        _allowRecordTo(records[msg.sender], trial.proposer);
+        emit AccessGranted(msg.sender, trialId, trial.proposer);
+    }
+
+    function revokeAccess(uint256 trialId) external {
+        if (!grantedTrials[msg.sender].remove(trialId)) revert NotGranted();
+        _revoke(msg.sender, trialId);
+    }
+
+    // Called when the patient withdraws consent to the trial; a no-op if it had no access.
+    function revokeWithdrawnConsent(address patient, uint256 trialId) external {
+        if (msg.sender != address(consentRegistry)) revert NotConsentRegistry();
+        if (grantedTrials[patient].remove(trialId)) _revoke(patient, trialId);
+    }
+
+    // After the trial publishes a version requiring consent again, moves the records of up to
+    // `maxPatients` patients sharing with it, from index `start` of getTrialPatients, to handles its
+    // proposer cannot read. Patients who consented again are skipped; the grants stay, and sharing
+    // resumes as patients consent again. Anyone may pay for it, a page at a time.
+    function rotateSupersededConsents(uint256 trialId, uint256 start, uint256 maxPatients) external {
+        EnumerableSet.AddressSet storage patients = trialPatients[trialId];
+        uint256 end = patients.length();
+        if (start > end) start = end;
+        if (maxPatients < end - start) end = start + maxPatients;
+        for (uint256 i = start; i < end; i++) {
+            address patient = patients.at(i);
+            if (!consentRegistry.hasActiveConsent(patient, trialId)) _rotateRecord(patient);
+        }
+    }
+
+    // Called when the patient consents to the trial again; shares the current record if still granted.
+    function restoreRenewedConsent(address patient, uint256 trialId) external {
+        if (msg.sender != address(consentRegistry)) revert NotConsentRegistry();
+        if (grantedTrials[patient].contains(trialId)) {
+            _allowRecordTo(records[patient], dao.getProposal(trialId).proposer);
+        }
+    }
+
+    // The evaluator contract may compute on the record; only what its code decrypts is disclosed.
+    function allowEvaluator(address evaluator) external {
+        if (records[msg.sender].updatedAt == 0) revert NoRecord();
+        if (!evaluators[msg.sender].add(evaluator)) revert AlreadyGranted();
+        evaluatorPatients[evaluator].add(msg.sender);
+        _allowRecordTo(records[msg.sender], evaluator);
+        emit EvaluatorAllowed(msg.sender, evaluator);
+    }
+
+    function removeEvaluator(address evaluator) external {
+        if (!evaluators[msg.sender].remove(evaluator)) revert NotGranted();
+        evaluatorPatients[evaluator].remove(msg.sender);
+        _rotateRecord(msg.sender);
+        emit EvaluatorRemoved(msg.sender, evaluator);
+    }
+
+    function hasRecord(address patient) external view returns (bool) {
+        return records[patient].updatedAt != 0;
+    }
+
+    // The provider who vouched for the current record, zero if none; they may have left the DAO since.
+    function verifierOf(address patient) external view returns (address) {
+        return records[patient].verifiedBy;
+    }
+
+    function getRecord(
+        address patient
+    ) external view returns (euint8 ageBracket, euint32 diagnosisCode, euint32[] memory biomarkers, uint256 updatedAt) {
+        Record storage record = records[patient];
+        return (record.ageBracket, record.diagnosisCode, record.biomarkers, record.updatedAt);
+    }
+
+    function hasAccess(address patient, uint256 trialId) external view returns (bool) {
+        return grantedTrials[patient].contains(trialId);
+    }
+
+    function getGrantedTrials(address patient) external view returns (uint256[] memory) {
+        return grantedTrials[patient].values();
+    }
+
+    function getTrialPatients(uint256 trialId) external view returns (address[] memory) {
+        return trialPatients[trialId].values();
+    }
+
+    function trialPatientCount(uint256 trialId) external view returns (uint256) {
+        return trialPatients[trialId].length();
+    }
+
+    // Indexes shift as patients revoke the trial.
+    function trialPatientAt(uint256 trialId, uint256 index) external view returns (address) {
+        return trialPatients[trialId].at(index);
+    }
+
+    function isEvaluator(address patient, address evaluator) external view returns (bool) {
+        return evaluators[patient].contains(evaluator);
+    }
+
+    function getEvaluatorPatients(address evaluator) external view returns (address[] memory) {
+        return evaluatorPatients[evaluator].values();
+    }
+
+    function _revoke(address patient, uint256 trialId) internal {
+        trialPatients[trialId].remove(patient);
+        _rotateRecord(patient);
+        emit AccessRevoked(patient, trialId);
+    }
+
+    // New handles for the same values, allowed to everyone the patient still grants. Handles are
+    // derived from the operation and its operands, so adding a plain zero would give handles anyone
+    // allowed on the old ones could compute and allow to themselves; the zero is drawn from fresh
+    // randomness only this contract is allowed on instead.
+    function _rotateRecord(address patient) internal {
+        Record storage record = records[patient];
+        euint32 zero = FHE.mul(FHE.randEuint32(), uint32(0));
+        record.ageBracket = FHE.add(record.ageBracket, FHE.asEuint8(zero));
+        record.diagnosisCode = FHE.add(record.diagnosisCode, zero);
+        for (uint256 i = 0; i < record.biomarkers.length; i++) {
+            record.biomarkers[i] = FHE.add(record.biomarkers[i], zero);
+        }
+        _allowRecord(patient);
+    }
+
+    // Allows the record to the vault, the patient, its evaluators and the proposer of every trial
+    // still granted whose consent still counts.
+    function _allowRecord(address patient) internal {
+        Record storage record = records[patient];
+        FHE.allowThis(record.ageBracket);
+        FHE.allowThis(record.diagnosisCode);
+        for (uint256 i = 0; i < record.biomarkers.length; i++) {
+            FHE.allowThis(record.biomarkers[i]);
+        }
+        _allowRecordTo(record, patient);
+
+        address[] memory allowed = evaluators[patient].values();
+        for (uint256 i = 0; i < allowed.length; i++) {
+            _allowRecordTo(record, allowed[i]);
+        }
+
+        uint256[] memory trials = grantedTrials[patient].values();
+        for (uint256 i = 0; i < trials.length; i++) {
+            if (consentRegistry.hasActiveConsent(patient, trials[i])) {
+                _allowRecordTo(record, dao.getProposal(trials[i]).proposer);
+            }
+        }
+    }
+
+    function _allowRecordTo(Record storage record, address account) internal {
+        FHE.allow(record.ageBracket, account);
+        FHE.allow(record.diagnosisCode, account);
+        for (uint256 i = 0; i < record.biomarkers.length; i++) {
+            FHE.allow(record.biomarkers[i], account);
+        }
+    }
+}
@@ -1,16 +1,27 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, euint64, externalEuint32, externalEuint64, ebool, externalEbool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { MerkleProof } from "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import { PatientMembershipToken } from "./PatientMembershipToken.sol";
 
 contract PatientDAOFHE is SepoliaConfig {
     using FHE for euint32;
     using FHE for ebool;
 
     address public owner;
+    address public pendingOwner; // set by transferOwnership until the new owner accepts
+    address public timelock; // once set, sensitive admin calls must come through it
     mapping(address => bool) public isProvider;
+    bytes32 public providerMerkleRoot; // roster of providers allowed to claim their role
+    mapping(address => bytes32) public providerClaimRoot; // root each provider last claimed under
+    mapping(address => bool) public isMember;
+    mapping(address => bool) public isReviewer;
+    PatientMembershipToken public membershipToken; // once set, votes weigh by delegated membership tokens
     bool public paused;
     uint256 public cooldownSeconds;
+    uint256 public constant MAX_COOLDOWN_SECONDS = 30 days;
     mapping(address => uint256) public lastSubmissionTime;
     mapping(address => uint256) public lastDecryptionRequestTime;
 
@@ -19,10 +30,13 @@ contract PatientDAOFHE is SepoliaConfig {
         bool isOpen;
         uint256 createdAt;
         uint256 closedAt;
+        uint8 optionCount; // ballots pick an option index below this, 2 for approve/reject
     }
+    uint8 public constant MAX_BATCH_OPTIONS = 16;
     uint256 public currentBatchId;
     mapping(uint256 => Batch) public batches;
     mapping(uint256 => uint256) public batchSubmissionCount;
+    mapping(uint256 => mapping(address => bool)) public hasSubmitted; // batchId => provider => submitted
 
     struct DecryptionContext {
         uint256 batchId;
@@ -31,46 +45,146 @@ contract PatientDAOFHE is SepoliaConfig {
     }
     mapping(uint256 => DecryptionContext) public decryptionContexts;
 
+    // Draft -> UnderReview -> Voting -> Approved | Rejected; reviewers may also reject during review,
+    // and proposers may withdraw until voting starts.
+    enum ProposalStatus {
+        Draft,
+        UnderReview,
+        Voting,
+        Approved,
+        Rejected,
+        Withdrawn
+    }
+
+    struct Proposal {
+        uint256 id;
+        address proposer;
+        string category;
+        string metadataURI; // Off-chain title and description
+        euint64 encryptedBudget;
+        ProposalStatus status;
+        uint256 createdAt;
+        uint256 votingEndsAt; // Zero until voting starts
+    }
+    uint256 public proposalCount;
+    mapping(uint256 => Proposal) internal proposals;
+    uint256 public votingPeriod;
+
+    struct ProposalTally {
+        euint32 encryptedYesVotes;
+        euint32 encryptedNoVotes;
+        uint256 voterCount;
+        bool revealed;
+        uint32 yesVotes;
+        uint32 noVotes;
+    }
+    mapping(uint256 => ProposalTally) public proposalTallies;
+    mapping(uint256 => mapping(address => bool)) public hasVoted; // proposalId => member => voted
+    mapping(uint256 => DecryptionContext) public proposalDecryptionContexts; // batchId holds the proposal id
+    mapping(uint256 => uint256) public proposalSnapshot; // proposalId => timepoint voting power is read at
+
     // Encrypted data storage
     mapping(uint256 => mapping(uint256 => euint32)) public encryptedVoteData; // batchId => index => encryptedVote
+    // Running tallies, updated by every submitVote
     mapping(uint256 => euint32) public encryptedTotalVotes; // batchId => encryptedTotalVotes
     mapping(uint256 => euint32) public encryptedApprovalCount; // batchId => encryptedApprovalCount
+    mapping(uint256 => mapping(uint256 => euint32)) public encryptedOptionCounts; // batchId => option => count
+    mapping(uint256 => uint32[]) internal batchOptionResults; // batchId => decrypted count per option
 
     // Custom Errors
     error NotOwner();
     error NotProvider();
     error Paused();
     error CooldownActive();
-    error BatchClosed();
+    error BatchNotOpen();
     error BatchOpen();
     error InvalidBatch();
     error ReplayDetected();
     error StateMismatch();
-    error InvalidProof();
+    error InvalidProposal();
+    error InvalidStatus();
+    error NotReviewer();
+    error NotProposer();
+    error TallyNotRevealed();
+    error NotMember();
+    error AlreadyVoted();
+    error VotingClosed();
+    error VotingActive();
+    error TallyRevealed();
+    error AlreadyProvider();
+    error AlreadyClaimed();
+    error InvalidMerkleProof();
+    error NotPendingOwner();
+    error NotTimelock();
+    error InvalidOptionCount();
+    error InvalidCooldown();
 
     // Events
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
     event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event TimelockUpdated(address indexed previousTimelock, address indexed newTimelock);
+    event MembershipTokenUpdated(address indexed previousToken, address indexed newToken);
     event ProviderAdded(address indexed provider);
     event ProviderRemoved(address indexed provider);
+    event ProviderMerkleRootUpdated(bytes32 previousRoot, bytes32 newRoot);
+    event ProviderClaimed(address indexed provider, bytes32 indexed root);
+    event MemberAdded(address indexed member);
+    event MemberRemoved(address indexed member);
+    event ReviewerAdded(address indexed reviewer);
+    event ReviewerRemoved(address indexed reviewer);
     event ContractPaused(address indexed account);
     event ContractUnpaused(address indexed account);
     event CooldownSecondsUpdated(uint256 indexed previousCooldown, uint256 indexed newCooldown);
+    event VotingPeriodUpdated(uint256 previousPeriod, uint256 newPeriod);
     event BatchOpened(uint256 indexed batchId, uint256 timestamp);
     event BatchClosed(uint256 indexed batchId, uint256 timestamp);
     event VoteSubmitted(address indexed provider, uint256 indexed batchId, uint256 encryptedVoteIndex, uint256 timestamp);
     event DecryptionRequested(uint256 indexed requestId, uint256 indexed batchId, bytes32 stateHash);
     event DecryptionCompleted(uint256 indexed requestId, uint256 indexed batchId, uint256 totalVotes, uint256 approvalCount);
+    event ProposalSubmitted(uint256 indexed proposalId, address indexed proposer, string category, string metadataURI);
+    event ProposalStatusChanged(
+        uint256 indexed proposalId,
+        ProposalStatus previousStatus,
+        ProposalStatus newStatus,
+        address indexed actor
+    );
+    event ProposalVoteCast(uint256 indexed proposalId, address indexed voter);
+    event ProposalTallyRequested(uint256 indexed requestId, uint256 indexed proposalId, bytes32 stateHash);
+    event ProposalTallyRevealed(uint256 indexed requestId, uint256 indexed proposalId, uint32 yesVotes, uint32 noVotes);
 
     modifier onlyOwner() {
         if (msg.sender != owner) revert NotOwner();
         _;
     }
 
+    // Sensitive admin calls: the owner until a timelock is set, then only the timelock.
+    modifier onlyTimelocked() {
+        if (timelock == address(0)) {
+            if (msg.sender != owner) revert NotOwner();
+        } else if (msg.sender != timelock) {
+            revert NotTimelock();
+        }
+        _;
+    }
+
     modifier onlyProvider() {
         if (!isProvider[msg.sender]) revert NotProvider();
         _;
     }
 
+    // Members are added by the owner or hold the membership token.
+    modifier onlyMember() {
+        if (!isMember[msg.sender] && !(address(membershipToken) != address(0) && membershipToken.isHolder(msg.sender))) {
+            revert NotMember();
+        }
+        _;
+    }
+
+    modifier onlyReviewer() {
+        if (!isReviewer[msg.sender]) revert NotReviewer();
+        _;
+    }
+
     modifier whenNotPaused() {
         if (paused) revert Paused();
         _;
@@ -93,14 +207,37 @@ contract PatientDAOFHE is SepoliaConfig {
     constructor() {
         owner = msg.sender;
         isProvider[owner] = true;
+        isMember[owner] = true;
+        isReviewer[owner] = true;
         cooldownSeconds = 60; // Default cooldown
-        _initIfNeeded();
+        votingPeriod = 3 days;
+    }
+
+    function transferOwnership(address newOwner) external onlyTimelocked {
+        pendingOwner = newOwner;
+        emit OwnershipTransferStarted(owner, newOwner);
     }
 
-    function transferOwnership(address newOwner) external onlyOwner {
+    function acceptOwnership() external {
+        if (msg.sender != pendingOwner) revert NotPendingOwner();
         address previousOwner = owner;
-        owner = newOwner;
-        emit OwnershipTransferred(previousOwner, newOwner);
+        owner = msg.sender;
+        delete pendingOwner;
+        emit OwnershipTransferred(previousOwner, msg.sender);
+    }
+
+    // The owner can hand admin calls over to a timelock once; after that only the
+    // timelock itself can replace or remove it.
+    function setTimelock(address newTimelock) external onlyTimelocked {
+        address previousTimelock = timelock;
+        timelock = newTimelock;
+        emit TimelockUpdated(previousTimelock, newTimelock);
+    }
+
+    function setMembershipToken(address newToken) external onlyTimelocked {
+        address previousToken = address(membershipToken);
+        membershipToken = PatientMembershipToken(newToken);
+        emit MembershipTokenUpdated(previousToken, newToken);
     }
 
     function addProvider(address provider) external onlyOwner {
@@ -113,39 +250,109 @@ contract PatientDAOFHE is SepoliaConfig {
         emit ProviderRemoved(provider);
     }
 
-    function pause() external onlyOwner whenNotPaused {
+    function setProviderMerkleRoot(bytes32 newRoot) external onlyOwner {
+        bytes32 previousRoot = providerMerkleRoot;
+        providerMerkleRoot = newRoot;
+        emit ProviderMerkleRootUpdated(previousRoot, newRoot);
+    }
+
+    // A provider removed by the owner can only claim again once a new roster is published.
+    function claimProvider(bytes32[] calldata proof) external whenNotPaused {
+        if (isProvider[msg.sender]) revert AlreadyProvider();
+        bytes32 root = providerMerkleRoot;
+
+        // Leaf encoding of OpenZeppelin's StandardMerkleTree over ["address"]
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(msg.sender))));
+        if (!MerkleProof.verifyCalldata(proof, root, leaf)) revert InvalidMerkleProof();
+        if (providerClaimRoot[msg.sender] == root) revert AlreadyClaimed();
+
+        isProvider[msg.sender] = true;
+        providerClaimRoot[msg.sender] = root;
+        emit ProviderAdded(msg.sender);
+        emit ProviderClaimed(msg.sender, root);
+    }
+
+    function addMember(address member) external onlyOwner {
+        isMember[member] = true;
+        emit MemberAdded(member);
+    }
+
+    function removeMember(address member) external onlyOwner {
+        delete isMember[member];
+        emit MemberRemoved(member);
+    }
+
+    function addReviewer(address reviewer) external onlyOwner {
+        isReviewer[reviewer] = true;
+        emit ReviewerAdded(reviewer);
+    }
+
+    function removeReviewer(address reviewer) external onlyOwner {
+        delete isReviewer[reviewer];
+        emit ReviewerRemoved(reviewer);
+    }
+
+    function pause() external onlyTimelocked whenNotPaused {
         paused = true;
         emit ContractPaused(msg.sender);
     }
 
-    function unpause() external onlyOwner {
+    function unpause() external onlyTimelocked {
         paused = false;
         emit ContractUnpaused(msg.sender);
     }
 
-    function setCooldownSeconds(uint256 newCooldownSeconds) external onlyOwner {
+    // Capped so that adding it to a submission time cannot overflow and lock providers out.
+    function setCooldownSeconds(uint256 newCooldownSeconds) external onlyTimelocked {
+        if (newCooldownSeconds > MAX_COOLDOWN_SECONDS) revert InvalidCooldown();
         uint256 previousCooldown = cooldownSeconds;
         cooldownSeconds = newCooldownSeconds;
         emit CooldownSecondsUpdated(previousCooldown, newCooldownSeconds);
     }
 
+    function setVotingPeriod(uint256 newVotingPeriod) external onlyOwner {
+        uint256 previousPeriod = votingPeriod;
+        votingPeriod = newVotingPeriod;
+        emit VotingPeriodUpdated(previousPeriod, newVotingPeriod);
+    }
+
     function openBatch() external onlyOwner whenNotPaused {
+        _openBatch(2);
+    }
+
+    // Ballots in the batch pick one of `optionCount` options, e.g. study arms, by index.
+    function openMultiOptionBatch(uint8 optionCount) external onlyOwner whenNotPaused {
+        if (optionCount < 2 || optionCount > MAX_BATCH_OPTIONS) revert InvalidOptionCount();
+        _openBatch(optionCount);
+    }
+
+    function _openBatch(uint8 optionCount) internal {
         if (batches[currentBatchId].isOpen) revert BatchOpen();
         currentBatchId++;
         batches[currentBatchId] = Batch({
             id: currentBatchId,
             isOpen: true,
             createdAt: block.timestamp,
-            closedAt: 0
+            closedAt: 0,
+            optionCount: optionCount
         });
         batchSubmissionCount[currentBatchId] = 0;
+
+        // Tallies start at zero, so a batch without ballots still decrypts
+        euint32 zero = FHE.asEuint32(0);
+        FHE.allowThis(zero);
+        encryptedTotalVotes[currentBatchId] = zero;
+        encryptedApprovalCount[currentBatchId] = zero;
+        for (uint8 option = 0; option < optionCount; option++) {
+            encryptedOptionCounts[currentBatchId][option] = zero;
+        }
         emit BatchOpened(currentBatchId, block.timestamp);
     }
 
     function closeBatch(uint256 batchId) external onlyOwner whenNotPaused {
         if (batchId != currentBatchId) revert InvalidBatch();
         Batch storage batch = batches[batchId];
-        if (!batch.isOpen) revert BatchClosed();
+        if (!batch.isOpen) revert BatchNotOpen();
         batch.isOpen = false;
         batch.closedAt = block.timestamp;
         emit BatchClosed(batchId, block.timestamp);
@@ -153,35 +360,192 @@ contract PatientDAOFHE is SepoliaConfig {
 
     function submitVote(
         uint256 batchId,
-        euint32 encryptedVote
+        externalEuint32 encryptedVote,
+        bytes calldata inputProof
     ) external onlyProvider whenNotPaused checkSubmissionCooldown {
         if (batchId != currentBatchId) revert InvalidBatch();
-        if (!batches[batchId].isOpen) revert BatchClosed();
+        if (!batches[batchId].isOpen) revert BatchNotOpen();
+        if (hasSubmitted[batchId][msg.sender]) revert AlreadyVoted();
 
-        _initIfNeeded();
+        euint32 vote = FHE.fromExternal(encryptedVote, inputProof);
+        FHE.allowThis(vote);
+        _tallyVote(batchId, vote, _voteWeight(msg.sender, batches[batchId].createdAt - 1));
 
         uint256 index = batchSubmissionCount[batchId]++;
-        encryptedVoteData[batchId][index] = encryptedVote;
+        encryptedVoteData[batchId][index] = vote;
+        hasSubmitted[batchId][msg.sender] = true;
 
         lastSubmissionTime[msg.sender] = block.timestamp;
         emit VoteSubmitted(msg.sender, batchId, index, block.timestamp);
     }
 
+    function submitProposal(
+        string calldata category,
+        string calldata metadataURI,
+        externalEuint64 encryptedBudget,
+        bytes calldata inputProof
+    ) external whenNotPaused checkSubmissionCooldown returns (uint256 proposalId) {
+        euint64 budget = FHE.fromExternal(encryptedBudget, inputProof);
+        FHE.allowThis(budget);
+        FHE.allow(budget, msg.sender);
+
+        proposalId = ++proposalCount;
+        proposals[proposalId] = Proposal({
+            id: proposalId,
+            proposer: msg.sender,
+            category: category,
+            metadataURI: metadataURI,
+            encryptedBudget: budget,
+            status: ProposalStatus.Draft,
+            createdAt: block.timestamp,
+            votingEndsAt: 0
+        });
+
+        // Start both tallies at an encrypted zero so they can be decrypted even without votes
+        ProposalTally storage tally = proposalTallies[proposalId];
+        tally.encryptedYesVotes = FHE.asEuint32(0);
+        tally.encryptedNoVotes = FHE.asEuint32(0);
+        FHE.allowThis(tally.encryptedYesVotes);
+        FHE.allowThis(tally.encryptedNoVotes);
+
+        lastSubmissionTime[msg.sender] = block.timestamp;
+        emit ProposalSubmitted(proposalId, msg.sender, category, metadataURI);
+    }
+
+    function submitForReview(uint256 proposalId) external whenNotPaused {
+        Proposal storage proposal = _proposalFor(proposalId, ProposalStatus.Draft);
+        if (msg.sender != proposal.proposer) revert NotProposer();
+        _setProposalStatus(proposal, ProposalStatus.UnderReview);
+    }
+
+    function withdrawProposal(uint256 proposalId) external whenNotPaused {
+        Proposal storage proposal = proposals[proposalId];
+        if (proposal.id == 0) revert InvalidProposal();
+        if (msg.sender != proposal.proposer) revert NotProposer();
+        if (proposal.status != ProposalStatus.Draft && proposal.status != ProposalStatus.UnderReview) {
+            revert InvalidStatus();
+        }
+        _setProposalStatus(proposal, ProposalStatus.Withdrawn);
+    }
+
+    function startVoting(uint256 proposalId) external onlyReviewer whenNotPaused {
+        Proposal storage proposal = _proposalFor(proposalId, ProposalStatus.UnderReview);
+        proposal.votingEndsAt = block.timestamp + votingPeriod;
+        proposalSnapshot[proposalId] = block.timestamp - 1;
+        _setProposalStatus(proposal, ProposalStatus.Voting);
+    }
+
+    function rejectProposal(uint256 proposalId) external onlyReviewer whenNotPaused {
+        Proposal storage proposal = _proposalFor(proposalId, ProposalStatus.UnderReview);
+        _setProposalStatus(proposal, ProposalStatus.Rejected);
+    }
+
+    /// @notice Closes a vote once its tally is public: approved on a strict yes majority, rejected otherwise.
+    function finalizeProposal(uint256 proposalId) external onlyReviewer whenNotPaused {
+        Proposal storage proposal = _proposalFor(proposalId, ProposalStatus.Voting);
+        ProposalTally storage tally = proposalTallies[proposalId];
+        if (!tally.revealed) revert TallyNotRevealed();
+        _setProposalStatus(
+            proposal,
+            tally.yesVotes > tally.noVotes ? ProposalStatus.Approved : ProposalStatus.Rejected
+        );
+    }
+
+    function castVote(
+        uint256 proposalId,
+        externalEbool encryptedSupport,
+        bytes calldata inputProof
+    ) external onlyMember whenNotPaused {
+        Proposal storage proposal = proposals[proposalId];
+        if (proposal.id == 0) revert InvalidProposal();
+        if (proposal.status != ProposalStatus.Voting || block.timestamp >= proposal.votingEndsAt) {
+            revert VotingClosed();
+        }
+        if (hasVoted[proposalId][msg.sender]) revert AlreadyVoted();
+
+        ebool support = FHE.fromExternal(encryptedSupport, inputProof);
+        euint32 weight = _voteWeight(msg.sender, proposalSnapshot[proposalId]);
+        euint32 zero = FHE.asEuint32(0);
+
+        ProposalTally storage tally = proposalTallies[proposalId];
+        tally.encryptedYesVotes = FHE.add(tally.encryptedYesVotes, FHE.select(support, weight, zero));
+        tally.encryptedNoVotes = FHE.add(tally.encryptedNoVotes, FHE.select(support, zero, weight));
+        FHE.allowThis(tally.encryptedYesVotes);
+        FHE.allowThis(tally.encryptedNoVotes);
+        tally.voterCount++;
+
+        hasVoted[proposalId][msg.sender] = true;
+        emit ProposalVoteCast(proposalId, msg.sender);
+    }
+
+    function requestProposalTallyDecryption(uint256 proposalId) external whenNotPaused checkDecryptionCooldown {
+        Proposal storage proposal = proposals[proposalId];
+        if (proposal.id == 0) revert InvalidProposal();
+        if (proposal.status != ProposalStatus.Voting) revert InvalidStatus();
+        if (block.timestamp < proposal.votingEndsAt) revert VotingActive();
+        if (proposalTallies[proposalId].revealed) revert TallyRevealed();
+
+        bytes32[] memory cts = _proposalTallyCiphertexts(proposalId);
+        bytes32 stateHash = _hashCiphertexts(cts);
+        uint256 requestId = FHE.requestDecryption(cts, this.proposalTallyCallback.selector);
+
+        proposalDecryptionContexts[requestId] = DecryptionContext({
+            batchId: proposalId,
+            stateHash: stateHash,
+            processed: false
+        });
+
+        lastDecryptionRequestTime[msg.sender] = block.timestamp;
+        emit ProposalTallyRequested(requestId, proposalId, stateHash);
+    }
+
+    function proposalTallyCallback(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) public {
+        DecryptionContext storage ctx = proposalDecryptionContexts[requestId];
+        if (ctx.processed) revert ReplayDetected();
+        if (_hashCiphertexts(_proposalTallyCiphertexts(ctx.batchId)) != ctx.stateHash) revert StateMismatch();
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        (uint32 yesVotes, uint32 noVotes) = abi.decode(cleartexts, (uint32, uint32));
+        ctx.processed = true;
+
+        ProposalTally storage tally = proposalTallies[ctx.batchId];
+        tally.revealed = true;
+        tally.yesVotes = yesVotes;
+        tally.noVotes = noVotes;
+        emit ProposalTallyRevealed(requestId, ctx.batchId, yesVotes, noVotes);
+    }
+
+    function getProposal(uint256 proposalId) external view returns (Proposal memory) {
+        if (proposals[proposalId].id == 0) revert InvalidProposal();
+        return proposals[proposalId];
+    }
+
+    /// @notice Returns up to `limit` proposals with ids in (offset, offset + limit], oldest first.
+    function getProposals(uint256 offset, uint256 limit) external view returns (Proposal[] memory page) {
+        if (offset >= proposalCount) return new Proposal[](0);
+        uint256 end = limit > proposalCount - offset ? proposalCount : offset + limit;
+        page = new Proposal[](end - offset);
+        for (uint256 i = 0; i < page.length; i++) {
+            page[i] = proposals[offset + i + 1];
+        }
+    }
+
     function requestBatchResultDecryption(uint256 batchId)
         external
-        onlyOwner
+        onlyTimelocked
         whenNotPaused
         checkDecryptionCooldown
     {
         if (batches[batchId].isOpen) revert BatchOpen(); // Batch must be closed
         if (batchId == 0 || batchId > currentBatchId) revert InvalidBatch();
 
-        _initIfNeeded();
-
         // 1. Prepare Ciphertexts
-        bytes32[] memory cts = new bytes32[](2);
-        cts[0] = FHE.toBytes32(encryptedTotalVotes[batchId]);
-        cts[1] = FHE.toBytes32(encryptedApprovalCount[batchId]);
+        bytes32[] memory cts = batchResultCiphertexts(batchId);
 
         // 2. Compute State Hash
         bytes32 stateHash = _hashCiphertexts(cts);
@@ -212,61 +576,102 @@ contract PatientDAOFHE is SepoliaConfig {
 
         // b. State Verification
         // Rebuild cts in the exact same order as in requestBatchResultDecryption
-        bytes32[] memory cts = new bytes32[](2);
-        cts[0] = FHE.toBytes32(encryptedTotalVotes[ctx.batchId]);
-        cts[1] = FHE.toBytes32(encryptedApprovalCount[ctx.batchId]);
+        bytes32[] memory cts = batchResultCiphertexts(ctx.batchId);
         bytes32 currentHash = _hashCiphertexts(cts);
 
         if (currentHash != ctx.stateHash) {
             revert StateMismatch();
         }
 
-        // c. Proof Verification
-        if (!FHE.checkSignatures(requestId, cleartexts, proof)) {
-            revert InvalidProof();
+        // c. Proof Verification (reverts with FHE.InvalidKMSSignatures)
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        // d. Decode & Finalize, each cleartext is one 32-byte word in cts order
+        (uint256 totalVotes, uint256 approvalCount) = abi.decode(cleartexts, (uint256, uint256));
+        delete batchOptionResults[ctx.batchId];
+        uint32[] storage optionResults = batchOptionResults[ctx.batchId];
+        for (uint256 i = 2; i < cts.length; i++) {
+            uint256 count;
+            assembly {
+                count := mload(add(cleartexts, add(32, mul(i, 32))))
+            }
+            optionResults.push(uint32(count));
         }
 
-        // d. Decode & Finalize
-        uint256 totalVotes = abi.decode(cleartexts, (uint256));
-        uint256 approvalCount = abi.decode(cleartexts[32:], (uint256));
-
         ctx.processed = true;
         emit DecryptionCompleted(requestId, ctx.batchId, totalVotes, approvalCount);
     }
 
-    function calculateBatchResults(uint256 batchId) external onlyOwner whenNotPaused {
-        if (batches[batchId].isOpen) revert BatchOpen(); // Batch must be closed
-        if (batchId == 0 || batchId > currentBatchId) revert InvalidBatch();
+    // Handles decrypted for a batch result: total, approvals, then one count per option.
+    function batchResultCiphertexts(uint256 batchId) public view returns (bytes32[] memory cts) {
+        uint8 optionCount = batches[batchId].optionCount;
+        cts = new bytes32[](2 + optionCount);
+        cts[0] = FHE.toBytes32(encryptedTotalVotes[batchId]);
+        cts[1] = FHE.toBytes32(encryptedApprovalCount[batchId]);
+        for (uint8 option = 0; option < optionCount; option++) {
+            cts[2 + option] = FHE.toBytes32(encryptedOptionCounts[batchId][option]);
+        }
+    }
 
-        _initIfNeeded();
+    // Decrypted count per option, empty until DecryptionCompleted fires for the batch.
+    function getBatchOptionResults(uint256 batchId) external view returns (uint32[] memory) {
+        return batchOptionResults[batchId];
+    }
 
-        euint32 memory totalVotesEnc = FHE.asEuint32(0);
-        euint32 memory approvalCountEnc = FHE.asEuint32(0);
+    // Adds the ballot's weight to every tally it belongs to. Each count gains the weight or
+    // zero through FHE.select, so neither the contract nor observers learn the chosen option.
+    function _tallyVote(uint256 batchId, euint32 vote, euint32 weight) internal {
+        euint32 zero = FHE.asEuint32(0);
+        euint32 total = FHE.add(encryptedTotalVotes[batchId], weight);
+        FHE.allowThis(total);
+        encryptedTotalVotes[batchId] = total;
+
+        // Any ballot above 0 approves; ballots outside 0..optionCount-1 count towards the total only
+        euint32 approvals = FHE.add(encryptedApprovalCount[batchId], FHE.select(FHE.ge(vote, 1), weight, zero));
+        FHE.allowThis(approvals);
+        encryptedApprovalCount[batchId] = approvals;
+
+        uint8 optionCount = batches[batchId].optionCount;
+        for (uint8 option = 0; option < optionCount; option++) {
+            euint32 count = FHE.add(
+                encryptedOptionCounts[batchId][option],
+                FHE.select(FHE.eq(vote, option), weight, zero)
+            );
+            FHE.allowThis(count);
+            encryptedOptionCounts[batchId][option] = count;
+        }
+    }
 
-        for (uint256 i = 0; i < batchSubmissionCount[batchId]; i++) {
-            euint32 memory vote = encryptedVoteData[batchId][i];
-            totalVotesEnc = FHE.add(totalVotesEnc, FHE.asEuint32(1));
-            if (FHE.ge(vote, FHE.asEuint32(1))) { // Assuming 1 means "approve"
-                approvalCountEnc = FHE.add(approvalCountEnc, FHE.asEuint32(1));
-            }
+    // One vote per account until a membership token is set, then the tokens delegated to it at `timepoint`.
+    function _voteWeight(address account, uint256 timepoint) internal returns (euint32 weight) {
+        if (address(membershipToken) == address(0)) {
+            return FHE.asEuint32(1);
+        }
+        weight = membershipToken.getPastVotes(account, timepoint);
+        if (!FHE.isInitialized(weight)) {
+            weight = FHE.asEuint32(0);
         }
-        encryptedTotalVotes[batchId] = totalVotesEnc;
-        encryptedApprovalCount[batchId] = approvalCountEnc;
     }
 
-    function _hashCiphertexts(bytes32[] memory cts) internal pure returns (bytes32) {
-        return keccak256(abi.encode(cts, address(this)));
+    function _proposalFor(uint256 proposalId, ProposalStatus expected) internal view returns (Proposal storage proposal) {
+        proposal = proposals[proposalId];
+        if (proposal.id == 0) revert InvalidProposal();
+        if (proposal.status != expected) revert InvalidStatus();
     }
 
-    function _initIfNeeded() internal {
-        if (!FHE.isInitialized()) {
-            FHE.initialize();
-        }
+    function _setProposalStatus(Proposal storage proposal, ProposalStatus newStatus) internal {
+        ProposalStatus previousStatus = proposal.status;
+        proposal.status = newStatus;
+        emit ProposalStatusChanged(proposal.id, previousStatus, newStatus, msg.sender);
     }
 
-    function _requireInitialized() internal view {
-        if (!FHE.isInitialized()) {
-            revert("FHE not initialized");
-        }
+    function _proposalTallyCiphertexts(uint256 proposalId) internal view returns (bytes32[] memory cts) {
+        cts = new bytes32[](2);
+        cts[0] = FHE.toBytes32(proposalTallies[proposalId].encryptedYesVotes);
+        cts[1] = FHE.toBytes32(proposalTallies[proposalId].encryptedNoVotes);
+    }
+
+    function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
+        return keccak256(abi.encode(cts, address(this)));
     }
 }
\ No newline at end of file
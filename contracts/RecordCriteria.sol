@@ -0,0 +1,87 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FHE, ebool, euint8, euint32, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+
+// Encrypted ranges on PatientRecordVault fields, shared by TrialEligibility's criteria and
+// CohortStatistics' cohort filters.
+library RecordCriteria {
+    // Record fields a criterion can test; biomarker i is FIELD_BIOMARKER + i.
+    uint8 internal constant FIELD_AGE_BRACKET = 0;
+    uint8 internal constant FIELD_DIAGNOSIS_CODE = 1;
+    uint8 internal constant FIELD_BIOMARKER = 2;
+    uint8 internal constant MAX_CRITERIA = 8;
+
+    // Inclusion criteria require the field within [min, max], exclusion criteria outside it.
+    struct Criterion {
+        uint8 field;
+        bool exclude;
+        euint32 min;
+        euint32 max;
+    }
+
+    struct CriterionInput {
+        uint8 field;
+        bool exclude;
+        externalEuint32 min;
+        externalEuint32 max;
+    }
+
+    error InvalidCriteria();
+
+    // Replaces `criteria` with `inputs`, allowed to the calling contract and to `owner`.
+    function store(
+        Criterion[] storage criteria,
+        CriterionInput[] calldata inputs,
+        bytes calldata inputProof,
+        uint8 maxBiomarkers,
+        address owner
+    ) internal {
+        if (inputs.length == 0 || inputs.length > MAX_CRITERIA) revert InvalidCriteria();
+
+        while (criteria.length > 0) criteria.pop();
+        for (uint256 i = 0; i < inputs.length; i++) {
+            if (inputs[i].field >= FIELD_BIOMARKER + maxBiomarkers) revert InvalidCriteria();
+            euint32 min = FHE.fromExternal(inputs[i].min, inputProof);
+            euint32 max = FHE.fromExternal(inputs[i].max, inputProof);
+            FHE.allowThis(min);
+            FHE.allowThis(max);
+            FHE.allow(min, owner);
+            FHE.allow(max, owner);
+            criteria.push(Criterion({ field: inputs[i].field, exclude: inputs[i].exclude, min: min, max: max }));
+        }
+    }
+
+    // Whether a record meets every criterion. A criterion on a biomarker the record lacks never holds.
+    function matches(
+        Criterion[] storage criteria,
+        euint8 ageBracket,
+        euint32 diagnosisCode,
+        euint32[] memory biomarkers
+    ) internal returns (ebool matched) {
+        matched = FHE.asEbool(true);
+        for (uint256 i = 0; i < criteria.length; i++) {
+            Criterion storage criterion = criteria[i];
+            ebool inRange;
+            if (criterion.field < FIELD_BIOMARKER || criterion.field - FIELD_BIOMARKER < biomarkers.length) {
+                euint32 value = fieldValue(criterion.field, ageBracket, diagnosisCode, biomarkers);
+                inRange = FHE.and(FHE.ge(value, criterion.min), FHE.le(value, criterion.max));
+            } else {
+                inRange = FHE.asEbool(false);
+            }
+            matched = FHE.and(matched, criterion.exclude ? FHE.not(inRange) : inRange);
+        }
+    }
+
+    // The record field as an euint32; the caller checks that a biomarker field is present.
+    function fieldValue(
+        uint8 field,
+        euint8 ageBracket,
+        euint32 diagnosisCode,
+        euint32[] memory biomarkers
+    ) internal returns (euint32) {
+        if (field == FIELD_AGE_BRACKET) return FHE.asEuint32(ageBracket);
+        if (field == FIELD_DIAGNOSIS_CODE) return diagnosisCode;
+        return biomarkers[field - FIELD_BIOMARKER];
+    }
+}
@@ -0,0 +1,80 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FHE, ebool, euint8, euint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { PatientDAOFHE } from "./Patient_DAO_DeSci.sol";
+import { PatientRecordVault } from "./PatientRecordVault.sol";
+import { RecordCriteria } from "./RecordCriteria.sol";
+
+// Matches patients to trials without anyone seeing the record or the criteria. A trial's
+// proposer publishes encrypted ranges on record fields, and a patient who allowed this contract
+// as an evaluator in the vault checks their own record against them. The encrypted result can
+// only be decrypted by the patient, so nothing reaches anyone else. Patients check before
+// consenting to a trial, so allowing the evaluator is the consent this needs, not an active
+// consent in the ConsentRegistry.
+contract TrialEligibility is SepoliaConfig {
+    using RecordCriteria for RecordCriteria.Criterion[];
+
+    uint8 public constant MAX_CRITERIA = RecordCriteria.MAX_CRITERIA;
+
+    PatientDAOFHE public immutable dao;
+    PatientRecordVault public immutable vault;
+    mapping(uint256 => RecordCriteria.Criterion[]) internal criteria; // trialId => criteria, all must hold
+    mapping(uint256 => uint256) public criteriaUpdatedAt; // trialId => zero until criteria are set
+    mapping(uint256 => mapping(address => ebool)) internal eligibility; // trialId => patient => eligible
+    mapping(uint256 => mapping(address => uint256)) public checkedAt; // trialId => patient => last check
+
+    error NotProposer();
+    error NoCriteria();
+    error NoRecord();
+    error NotEvaluator();
+
+    event CriteriaUpdated(uint256 indexed trialId, uint256 criteriaCount);
+    event EligibilityChecked(uint256 indexed trialId, address indexed patient);
+
+    constructor(PatientDAOFHE dao_, PatientRecordVault vault_) {
+        dao = dao_;
+        vault = vault_;
+    }
+
+    // Replaces the trial's criteria; earlier checks keep the result they had against the old ones.
+    function setCriteria(
+        uint256 trialId,
+        RecordCriteria.CriterionInput[] calldata inputs,
+        bytes calldata inputProof
+    ) external {
+        if (dao.getProposal(trialId).proposer != msg.sender) revert NotProposer();
+        criteria[trialId].store(inputs, inputProof, vault.MAX_BIOMARKERS(), msg.sender);
+        criteriaUpdatedAt[trialId] = block.timestamp;
+        emit CriteriaUpdated(trialId, inputs.length);
+    }
+
+    // Evaluates the caller's vault record against the trial's criteria.
+    function checkEligibility(uint256 trialId) external returns (ebool eligible) {
+        RecordCriteria.Criterion[] storage trialCriteria = criteria[trialId];
+        if (trialCriteria.length == 0) revert NoCriteria();
+        (euint8 ageBracket, euint32 diagnosisCode, euint32[] memory biomarkers, uint256 updatedAt) = vault.getRecord(
+            msg.sender
+        );
+        if (updatedAt == 0) revert NoRecord();
+        if (!vault.isEvaluator(msg.sender, address(this))) revert NotEvaluator();
+
+        eligible = trialCriteria.matches(ageBracket, diagnosisCode, biomarkers);
+
+        FHE.allowThis(eligible);
+        FHE.allow(eligible, msg.sender);
+        eligibility[trialId][msg.sender] = eligible;
+        checkedAt[trialId][msg.sender] = block.timestamp;
+        emit EligibilityChecked(trialId, msg.sender);
+    }
+
+    function getCriteria(uint256 trialId) external view returns (RecordCriteria.Criterion[] memory) {
+        return criteria[trialId];
+    }
+
+    // The patient's last result for the trial, uninitialized until they check.
+    function getEligibility(uint256 trialId, address patient) external view returns (ebool) {
+        return eligibility[trialId][patient];
+    }
+}
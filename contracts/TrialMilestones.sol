@@ -0,0 +1,162 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { PatientDAOFHE } from "./Patient_DAO_DeSci.sol";
+
+// Tracks the deliverables of approved trials. The trial's proposer, its principal investigator,
+// declares milestones with due dates and attests each one with the hash of the document that
+// shows it was met. DAO reviewers accept the attestation or dispute it, after which the
+// investigator may attest again.
+contract TrialMilestones {
+    enum MilestoneKind {
+        EnrollmentTarget,
+        InterimAnalysis,
+        FinalReport
+    }
+
+    enum MilestoneStatus {
+        Pending,
+        Attested,
+        Accepted,
+        Disputed
+    }
+
+    struct Milestone {
+        MilestoneKind kind;
+        string description;
+        uint256 dueDate;
+        MilestoneStatus status;
+        bytes32 documentHash; // of the latest attestation
+        string uri;
+        uint256 attestedAt;
+        address reviewer; // who accepted or disputed the latest attestation
+        uint256 reviewedAt;
+    }
+
+    PatientDAOFHE public immutable dao;
+    mapping(uint256 => Milestone[]) internal milestones; // trialId => milestones in declaration order
+    mapping(uint256 => uint256) public acceptedCount; // trialId => accepted milestones
+
+    error NotProposer();
+    error NotReviewer();
+    error TrialNotApproved();
+    error InvalidDueDate();
+    error InvalidMilestone();
+    error InvalidStatus();
+
+    event MilestoneDeclared(
+        uint256 indexed trialId,
+        uint256 indexed milestoneIndex,
+        MilestoneKind kind,
+        string description,
+        uint256 dueDate
+    );
+    event MilestoneAttested(
+        uint256 indexed trialId,
+        uint256 indexed milestoneIndex,
+        address indexed investigator,
+        bytes32 documentHash,
+        string uri
+    );
+    event MilestoneAccepted(uint256 indexed trialId, uint256 indexed milestoneIndex, address indexed reviewer);
+    event MilestoneDisputed(
+        uint256 indexed trialId,
+        uint256 indexed milestoneIndex,
+        address indexed reviewer,
+        string reason
+    );
+
+    modifier onlyProposer(uint256 trialId) {
+        if (dao.getProposal(trialId).proposer != msg.sender) revert NotProposer();
+        _;
+    }
+
+    modifier onlyReviewer() {
+        if (!dao.isReviewer(msg.sender)) revert NotReviewer();
+        _;
+    }
+
+    constructor(PatientDAOFHE dao_) {
+        dao = dao_;
+    }
+
+    function declareMilestone(
+        uint256 trialId,
+        MilestoneKind kind,
+        string calldata description,
+        uint256 dueDate
+    ) external onlyProposer(trialId) returns (uint256 milestoneIndex) {
+        if (dao.getProposal(trialId).status != PatientDAOFHE.ProposalStatus.Approved) revert TrialNotApproved();
+        if (dueDate <= block.timestamp) revert InvalidDueDate();
+
+        Milestone storage milestone = milestones[trialId].push();
+        milestone.kind = kind;
+        milestone.description = description;
+        milestone.dueDate = dueDate;
+        milestoneIndex = milestones[trialId].length - 1;
+        emit MilestoneDeclared(trialId, milestoneIndex, kind, description, dueDate);
+    }
+
+    // Submits the document showing the milestone was met, again after a dispute if need be.
+    function attestMilestone(
+        uint256 trialId,
+        uint256 milestoneIndex,
+        bytes32 documentHash,
+        string calldata uri
+    ) external onlyProposer(trialId) {
+        Milestone storage milestone = _milestoneFor(trialId, milestoneIndex);
+        if (milestone.status != MilestoneStatus.Pending && milestone.status != MilestoneStatus.Disputed) {
+            revert InvalidStatus();
+        }
+        milestone.status = MilestoneStatus.Attested;
+        milestone.documentHash = documentHash;
+        milestone.uri = uri;
+        milestone.attestedAt = block.timestamp;
+        emit MilestoneAttested(trialId, milestoneIndex, msg.sender, documentHash, uri);
+    }
+
+    function acceptMilestone(uint256 trialId, uint256 milestoneIndex) external onlyReviewer {
+        Milestone storage milestone = _reviewable(trialId, milestoneIndex);
+        milestone.status = MilestoneStatus.Accepted;
+        acceptedCount[trialId]++;
+        emit MilestoneAccepted(trialId, milestoneIndex, msg.sender);
+    }
+
+    function disputeMilestone(uint256 trialId, uint256 milestoneIndex, string calldata reason) external onlyReviewer {
+        Milestone storage milestone = _reviewable(trialId, milestoneIndex);
+        milestone.status = MilestoneStatus.Disputed;
+        emit MilestoneDisputed(trialId, milestoneIndex, msg.sender, reason);
+    }
+
+    function getMilestones(uint256 trialId) external view returns (Milestone[] memory) {
+        return milestones[trialId];
+    }
+
+    function milestoneCount(uint256 trialId) external view returns (uint256) {
+        return milestones[trialId].length;
+    }
+
+    // Accepted and declared milestones of each trial, for progress bars.
+    function getProgress(
+        uint256[] calldata trialIds
+    ) external view returns (uint256[] memory accepted, uint256[] memory total) {
+        accepted = new uint256[](trialIds.length);
+        total = new uint256[](trialIds.length);
+        for (uint256 i = 0; i < trialIds.length; i++) {
+            accepted[i] = acceptedCount[trialIds[i]];
+            total[i] = milestones[trialIds[i]].length;
+        }
+    }
+
+    function _milestoneFor(uint256 trialId, uint256 milestoneIndex) internal view returns (Milestone storage) {
+        if (milestoneIndex >= milestones[trialId].length) revert InvalidMilestone();
+        return milestones[trialId][milestoneIndex];
+    }
+
+    function _reviewable(uint256 trialId, uint256 milestoneIndex) internal returns (Milestone storage milestone) {
+        milestone = _milestoneFor(trialId, milestoneIndex);
+        if (milestone.status != MilestoneStatus.Attested) revert InvalidStatus();
+        milestone.reviewer = msg.sender;
+        milestone.reviewedAt = block.timestamp;
+    }
+}
@@ -0,0 +1,277 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FHE, ebool, euint64, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { EnumerableSet } from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import { PatientDAOFHE } from "./Patient_DAO_DeSci.sol";
+
+// Holds the DAO's trial funds in ETH. The treasury committee gives approved trials an encrypted
+// budget and releases encrypted payouts as milestones are met; a payout that would exceed the
+// budget releases nothing. Budgets, disbursed totals and unclaimed balances stay encrypted, and
+// only the trial's proposer and the committee can decrypt them. Amounts are in gwei. Paying out
+// ETH cannot be confidential, so the proposer's withdrawals reveal what they draw at that time.
+contract TrialTreasury is SepoliaConfig {
+    using EnumerableSet for EnumerableSet.AddressSet;
+    using EnumerableSet for EnumerableSet.UintSet;
+
+    struct Funding {
+        euint64 budget;
+        euint64 disbursed; // released to the trial so far
+        euint64 claimable; // released but not yet withdrawn
+        euint64 pendingWithdrawal; // submitted for decryption, uninitialized when none
+        uint256 fundedAt; // zero until the trial has a budget
+        uint256 committeeVersion; // committee the amounts were last allowed to, see syncCommittee
+    }
+
+    struct Payout {
+        string milestone;
+        uint256 releasedAt;
+    }
+
+    struct DecryptionContext {
+        uint256 trialId;
+        bytes32 stateHash;
+        bool processed;
+    }
+
+    uint256 public constant AMOUNT_UNIT = 1 gwei;
+
+    PatientDAOFHE public immutable dao;
+    uint256 public committeeVersion; // bumped on every committee change
+    mapping(uint256 => Funding) internal fundings;
+    mapping(uint256 => Payout[]) internal payouts; // trialId => milestone payouts, oldest first
+    mapping(address => uint256) public withdrawable; // proposer => wei decrypted and ready to withdraw
+    mapping(uint256 => DecryptionContext) public decryptionContexts;
+    EnumerableSet.AddressSet internal committee;
+    EnumerableSet.UintSet internal fundedTrials;
+
+    error NotOwner();
+    error NotCommittee();
+    error NotProposer();
+    error AlreadyCommittee();
+    error NotFunded();
+    error TrialNotApproved();
+    error NothingToWithdraw();
+    error InsufficientFunds();
+    error TransferFailed();
+    error ReplayDetected();
+    error StateMismatch();
+
+    event Deposited(address indexed from, uint256 amount);
+    event CommitteeMemberAdded(address indexed member);
+    event CommitteeMemberRemoved(address indexed member);
+    event CommitteeSynced(uint256 indexed trialId, uint256 committeeVersion);
+    event BudgetSet(uint256 indexed trialId);
+    event MilestonePayoutReleased(uint256 indexed trialId, uint256 indexed payoutIndex, string milestone);
+    event WithdrawalRequested(uint256 indexed requestId, uint256 indexed trialId, bytes32 stateHash);
+    event WithdrawalDecrypted(uint256 indexed requestId, uint256 indexed trialId, address indexed proposer, uint256 amount);
+    event Withdrawn(address indexed proposer, uint256 amount);
+
+    modifier onlyDaoOwner() {
+        if (msg.sender != dao.owner()) revert NotOwner();
+        _;
+    }
+
+    modifier onlyCommittee() {
+        if (!committee.contains(msg.sender)) revert NotCommittee();
+        _;
+    }
+
+    constructor(PatientDAOFHE dao_) {
+        dao = dao_;
+    }
+
+    receive() external payable {
+        emit Deposited(msg.sender, msg.value);
+    }
+
+    // Committee changes reach a funded trial when it is next synced, so they cost the same however
+    // many trials are funded. A new member can decrypt a trial's amounts once it is synced.
+    function addCommitteeMember(address member) external onlyDaoOwner {
+        if (!committee.add(member)) revert AlreadyCommittee();
+        committeeVersion++;
+        emit CommitteeMemberAdded(member);
+    }
+
+    // ACL grants cannot be withdrawn, so syncing a trial moves it to new handles the former member
+    // was never allowed. Until then they can decrypt the amounts they could when removed, but every
+    // change to a trial syncs it first, so they never see a later one.
+    function removeCommitteeMember(address member) external onlyDaoOwner {
+        if (!committee.remove(member)) revert NotCommittee();
+        committeeVersion++;
+        emit CommitteeMemberRemoved(member);
+    }
+
+    // Allows the trial's amounts to the committee in force; anyone may pay for it.
+    function syncCommittee(uint256 trialId) external {
+        _fundingFor(trialId);
+        _syncCommittee(trialId);
+    }
+
+    // Sets or amends an approved trial's budget. Amending it below the disbursed total stops payouts.
+    function setBudget(uint256 trialId, externalEuint64 encryptedBudget, bytes calldata inputProof) external onlyCommittee {
+        if (dao.getProposal(trialId).status != PatientDAOFHE.ProposalStatus.Approved) revert TrialNotApproved();
+        Funding storage funding = fundings[trialId];
+        if (funding.fundedAt == 0) {
+            funding.disbursed = FHE.asEuint64(0);
+            funding.claimable = FHE.asEuint64(0);
+            funding.fundedAt = block.timestamp;
+            funding.committeeVersion = committeeVersion;
+            fundedTrials.add(trialId);
+        } else {
+            _syncCommittee(trialId);
+        }
+        funding.budget = FHE.fromExternal(encryptedBudget, inputProof);
+        _allowFunding(trialId);
+        emit BudgetSet(trialId);
+    }
+
+    // Releases `amount` to the trial for `milestone` if it fits the remaining budget, and nothing otherwise.
+    function releaseMilestonePayout(
+        uint256 trialId,
+        string calldata milestone,
+        externalEuint64 amount,
+        bytes calldata inputProof
+    ) external onlyCommittee returns (uint256 payoutIndex) {
+        Funding storage funding = _fundingFor(trialId);
+        _syncCommittee(trialId);
+        euint64 requested = FHE.fromExternal(amount, inputProof);
+        ebool withinBudget = FHE.ge(funding.budget, funding.disbursed);
+        euint64 remaining = FHE.select(withinBudget, FHE.sub(funding.budget, funding.disbursed), FHE.asEuint64(0));
+        euint64 released = FHE.select(FHE.le(requested, remaining), requested, FHE.asEuint64(0));
+        funding.disbursed = FHE.add(funding.disbursed, released);
+        funding.claimable = FHE.add(funding.claimable, released);
+        _allowFunding(trialId);
+
+        payouts[trialId].push(Payout({ milestone: milestone, releasedAt: block.timestamp }));
+        payoutIndex = payouts[trialId].length - 1;
+        emit MilestonePayoutReleased(trialId, payoutIndex, milestone);
+    }
+
+    // Submits the trial's unclaimed balance for decryption so that it can be withdrawn. Requesting
+    // again folds an unanswered request back in, which voids it.
+    function requestWithdrawal(uint256 trialId) external {
+        Funding storage funding = _fundingFor(trialId);
+        if (dao.getProposal(trialId).proposer != msg.sender) revert NotProposer();
+        _syncCommittee(trialId);
+
+        euint64 amount = funding.claimable;
+        if (FHE.isInitialized(funding.pendingWithdrawal)) amount = FHE.add(amount, funding.pendingWithdrawal);
+        funding.pendingWithdrawal = amount;
+        funding.claimable = FHE.asEuint64(0);
+        _allowFunding(trialId);
+
+        bytes32[] memory cts = withdrawalCiphertexts(trialId);
+        bytes32 stateHash = _hashCiphertexts(cts);
+        uint256 requestId = FHE.requestDecryption(cts, this.withdrawalCallback.selector);
+
+        decryptionContexts[requestId] = DecryptionContext({ trialId: trialId, stateHash: stateHash, processed: false });
+        emit WithdrawalRequested(requestId, trialId, stateHash);
+    }
+
+    function withdrawalCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        DecryptionContext storage ctx = decryptionContexts[requestId];
+        if (ctx.processed) revert ReplayDetected();
+        if (_hashCiphertexts(withdrawalCiphertexts(ctx.trialId)) != ctx.stateHash) revert StateMismatch();
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        uint64 amount = abi.decode(cleartexts, (uint64));
+        ctx.processed = true;
+        fundings[ctx.trialId].pendingWithdrawal = euint64.wrap(0);
+
+        address proposer = dao.getProposal(ctx.trialId).proposer;
+        uint256 amountWei = uint256(amount) * AMOUNT_UNIT;
+        withdrawable[proposer] += amountWei;
+        emit WithdrawalDecrypted(requestId, ctx.trialId, proposer, amountWei);
+    }
+
+    // Pays out what the caller's decrypted withdrawals added up to. Fails while the treasury holds less.
+    function withdraw() external {
+        uint256 amount = withdrawable[msg.sender];
+        if (amount == 0) revert NothingToWithdraw();
+        if (address(this).balance < amount) revert InsufficientFunds();
+        withdrawable[msg.sender] = 0;
+        (bool sent, ) = msg.sender.call{ value: amount }("");
+        if (!sent) revert TransferFailed();
+        emit Withdrawn(msg.sender, amount);
+    }
+
+    function isCommitteeMember(address account) external view returns (bool) {
+        return committee.contains(account);
+    }
+
+    function getCommittee() external view returns (address[] memory) {
+        return committee.values();
+    }
+
+    function getFundedTrials() external view returns (uint256[] memory) {
+        return fundedTrials.values();
+    }
+
+    // False while committee changes have not reached the trial's amounts.
+    function isCommitteeSynced(uint256 trialId) external view returns (bool) {
+        return fundings[trialId].committeeVersion == committeeVersion;
+    }
+
+    function getFunding(
+        uint256 trialId
+    ) external view returns (euint64 budget, euint64 disbursed, euint64 claimable, uint256 fundedAt) {
+        Funding storage funding = fundings[trialId];
+        return (funding.budget, funding.disbursed, funding.claimable, funding.fundedAt);
+    }
+
+    function getPayouts(uint256 trialId) external view returns (Payout[] memory) {
+        return payouts[trialId];
+    }
+
+    // Handles decrypted for a withdrawal: the pending amount.
+    function withdrawalCiphertexts(uint256 trialId) public view returns (bytes32[] memory cts) {
+        cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(fundings[trialId].pendingWithdrawal);
+    }
+
+    function _fundingFor(uint256 trialId) internal view returns (Funding storage funding) {
+        funding = fundings[trialId];
+        if (funding.fundedAt == 0) revert NotFunded();
+    }
+
+    // Re-encrypts the trial's amounts under new handles allowed to the current committee only. The
+    // zero added comes from fresh randomness, as a plain zero would give handles a former member
+    // could compute from the old ones and allow to themselves.
+    function _syncCommittee(uint256 trialId) internal {
+        Funding storage funding = fundings[trialId];
+        if (funding.committeeVersion == committeeVersion) return;
+        funding.committeeVersion = committeeVersion;
+        euint64 zero = FHE.mul(FHE.randEuint64(), uint64(0));
+        funding.budget = FHE.add(funding.budget, zero);
+        funding.disbursed = FHE.add(funding.disbursed, zero);
+        funding.claimable = FHE.add(funding.claimable, zero);
+        _allowFunding(trialId);
+        emit CommitteeSynced(trialId, committeeVersion);
+    }
+
+    function _allowFunding(uint256 trialId) internal {
+        FHE.allowThis(fundings[trialId].budget);
+        FHE.allowThis(fundings[trialId].disbursed);
+        FHE.allowThis(fundings[trialId].claimable);
+        if (FHE.isInitialized(fundings[trialId].pendingWithdrawal)) FHE.allowThis(fundings[trialId].pendingWithdrawal);
+        _allowFunding(trialId, dao.getProposal(trialId).proposer);
+        address[] memory members = committee.values();
+        for (uint256 i = 0; i < members.length; i++) {
+            _allowFunding(trialId, members[i]);
+        }
+    }
+
+    function _allowFunding(uint256 trialId, address account) internal {
+        Funding storage funding = fundings[trialId];
+        FHE.allow(funding.budget, account);
+        FHE.allow(funding.disbursed, account);
+        FHE.allow(funding.claimable, account);
+    }
+
+    function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
+        return keccak256(abi.encode(cts, address(this)));
+    }
+}
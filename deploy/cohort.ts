@@ -0,0 +1,37 @@
+import type { DeployFunction } from "hardhat-deploy/types";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { readVar } from "../src/accounts";
+import { recordDeployment } from "../src/deployments";
+
+const DEFAULT_MIN_COHORT_SIZE = 10;
+
+/**
+ * Deploys CohortStatistics over the PatientRecordVault records. Results of
+ * cohorts smaller than COHORT_MIN_SIZE (default 10) are withheld; the DAO
+ * owner can change the threshold later with setMinCohortSize.
+ */
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, get } = hre.deployments;
+
+  const deployed = await deploy("CohortStatistics", {
+    from: deployer,
+    args: [
+      (await get("PatientDAOFHE")).address,
+      (await get("PatientRecordVault")).address,
+      Number(readVar("COHORT_MIN_SIZE", String(DEFAULT_MIN_COHORT_SIZE))),
+    ],
+    log: true,
+    waitConfirmations: hre.network.live ? 2 : 1,
+  });
+
+  if (hre.network.name !== "hardhat") {
+    await recordDeployment(hre, "CohortStatistics", deployed);
+  }
+};
+
+export default func;
+func.id = "deploy_cohortStatistics";
+func.tags = ["CohortStatistics"];
+func.dependencies = ["PatientDAOFHE", "PatientRecordVault"];
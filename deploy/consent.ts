@@ -0,0 +1,29 @@
+import type { DeployFunction } from "hardhat-deploy/types";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { recordDeployment } from "../src/deployments";
+
+/**
+ * Deploys the ConsentRegistry for PatientDAOFHE's trials. The record vault
+ * checks it before sharing records and links itself to it once deployed.
+ */
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, get } = hre.deployments;
+
+  const deployed = await deploy("ConsentRegistry", {
+    from: deployer,
+    args: [(await get("PatientDAOFHE")).address],
+    log: true,
+    waitConfirmations: hre.network.live ? 2 : 1,
+  });
+
+  if (hre.network.name !== "hardhat") {
+    await recordDeployment(hre, "ConsentRegistry", deployed);
+  }
+};
+
+export default func;
+func.id = "deploy_consentRegistry";
+func.tags = ["ConsentRegistry"];
+func.dependencies = ["PatientDAOFHE"];
@@ -0,0 +1,32 @@
+import type { DeployFunction } from "hardhat-deploy/types";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { recordDeployment } from "../src/deployments";
+
+/**
+ * Deploys TrialEligibility on top of PatientDAOFHE's trials and the
+ * PatientRecordVault records it evaluates.
+ */
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, get } = hre.deployments;
+
+  const deployed = await deploy("TrialEligibility", {
+    from: deployer,
+    args: [
+      (await get("PatientDAOFHE")).address,
+      (await get("PatientRecordVault")).address,
+    ],
+    log: true,
+    waitConfirmations: hre.network.live ? 2 : 1,
+  });
+
+  if (hre.network.name !== "hardhat") {
+    await recordDeployment(hre, "TrialEligibility", deployed);
+  }
+};
+
+export default func;
+func.id = "deploy_trialEligibility";
+func.tags = ["TrialEligibility"];
+func.dependencies = ["PatientDAOFHE", "PatientRecordVault"];
@@ -0,0 +1,51 @@
+import type { DeployFunction } from "hardhat-deploy/types";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { readVar } from "../src/accounts";
+
+/**
+ * Deploys the PatientMembershipToken and switches PatientDAOFHE to
+ * token-weighted votes. Opt-in with MEMBERSHIP_TOKEN=true: from then on a vote
+ * weighs as much as the tokens delegated to the voter, so members added with
+ * addMember vote with zero weight until they are minted tokens. Runs before
+ * the timelock takes over setMembershipToken.
+ */
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, get, log } = hre.deployments;
+
+  const daoAddress = (await get("PatientDAOFHE")).address;
+  const deployed = await deploy("PatientMembershipToken", {
+    from: deployer,
+    args: [daoAddress],
+    log: true,
+    waitConfirmations: hre.network.live ? 2 : 1,
+  });
+
+  const dao = await hre.ethers.getContractAt(
+    "PatientDAOFHE",
+    daoAddress,
+    await hre.ethers.getSigner(deployer),
+  );
+  const current = await dao.membershipToken();
+  if (current === hre.ethers.ZeroAddress) {
+    if ((await dao.timelock()) !== hre.ethers.ZeroAddress) {
+      log(
+        `PatientDAOFHE is timelocked, schedule setMembershipToken(${deployed.address}) with dao:schedule`,
+      );
+      return;
+    }
+    await (await dao.setMembershipToken(deployed.address)).wait();
+    log(`PatientDAOFHE votes now weigh by ${deployed.address} holdings`);
+  } else if (current !== deployed.address) {
+    log(
+      `PatientDAOFHE already weighs votes by ${current}, call setMembershipToken to switch`,
+    );
+  }
+};
+
+export default func;
+func.id = "deploy_patientMembershipToken";
+func.tags = ["PatientMembershipToken"];
+func.dependencies = ["PatientDAOFHE"];
+func.skip = async () => readVar("MEMBERSHIP_TOKEN") !== "true";
@@ -0,0 +1,29 @@
+import type { DeployFunction } from "hardhat-deploy/types";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { recordDeployment } from "../src/deployments";
+
+/**
+ * Deploys TrialMilestones, where the proposers of approved PatientDAOFHE
+ * trials declare and attest milestones and the DAO's reviewers judge them.
+ */
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, get } = hre.deployments;
+
+  const deployed = await deploy("TrialMilestones", {
+    from: deployer,
+    args: [(await get("PatientDAOFHE")).address],
+    log: true,
+    waitConfirmations: hre.network.live ? 2 : 1,
+  });
+
+  if (hre.network.name !== "hardhat") {
+    await recordDeployment(hre, "TrialMilestones", deployed);
+  }
+};
+
+export default func;
+func.id = "deploy_trialMilestones";
+func.tags = ["TrialMilestones"];
+func.dependencies = ["PatientDAOFHE"];
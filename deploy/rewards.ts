@@ -0,0 +1,33 @@
+import type { DeployFunction } from "hardhat-deploy/types";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { recordDeployment } from "../src/deployments";
+
+/**
+ * Deploys ParticipationRewards, which pays the patients sharing their
+ * PatientRecordVault record with an approved trial from the trial's pool.
+ * The DAO owner mints the rewards researchers fund pools with.
+ */
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, get } = hre.deployments;
+
+  const deployed = await deploy("ParticipationRewards", {
+    from: deployer,
+    args: [
+      (await get("PatientDAOFHE")).address,
+      (await get("PatientRecordVault")).address,
+    ],
+    log: true,
+    waitConfirmations: hre.network.live ? 2 : 1,
+  });
+
+  if (hre.network.name !== "hardhat") {
+    await recordDeployment(hre, "ParticipationRewards", deployed);
+  }
+};
+
+export default func;
+func.id = "deploy_participationRewards";
+func.tags = ["ParticipationRewards"];
+func.dependencies = ["PatientDAOFHE", "PatientRecordVault"];
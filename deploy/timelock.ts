@@ -0,0 +1,57 @@
+import type { DeployFunction } from "hardhat-deploy/types";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { readAddresses, readVar } from "../src/accounts";
+
+const DEFAULT_MIN_DELAY = 2 * 24 * 60 * 60;
+
+/**
+ * Puts the sensitive PatientDAOFHE admin calls behind a PatientDAOTimelock.
+ * Opt-in: it only runs when TIMELOCK_PROPOSERS (comma-separated, usually a
+ * multisig) is set. TIMELOCK_EXECUTORS defaults to anyone, TIMELOCK_MIN_DELAY
+ * to two days. The timelock administers itself, so its roles can only change
+ * through scheduled operations.
+ */
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, get, log } = hre.deployments;
+
+  const proposers = readAddresses("TIMELOCK_PROPOSERS");
+  const executors = readAddresses("TIMELOCK_EXECUTORS");
+  const minDelay = Number(
+    readVar("TIMELOCK_MIN_DELAY", String(DEFAULT_MIN_DELAY)),
+  );
+
+  const deployed = await deploy("PatientDAOTimelock", {
+    from: deployer,
+    args: [
+      minDelay,
+      proposers,
+      executors.length > 0 ? executors : [hre.ethers.ZeroAddress],
+      hre.ethers.ZeroAddress,
+    ],
+    log: true,
+    waitConfirmations: hre.network.live ? 2 : 1,
+  });
+
+  const dao = await hre.ethers.getContractAt(
+    "PatientDAOFHE",
+    (await get("PatientDAOFHE")).address,
+    await hre.ethers.getSigner(deployer),
+  );
+  const current = await dao.timelock();
+  if (current === hre.ethers.ZeroAddress) {
+    await (await dao.setTimelock(deployed.address)).wait();
+    log(`PatientDAOFHE admin calls now go through ${deployed.address}`);
+  } else if (current !== deployed.address) {
+    log(
+      `PatientDAOFHE is already timelocked by ${current}, schedule setTimelock there to switch`,
+    );
+  }
+};
+
+export default func;
+func.id = "deploy_patientDaoTimelock";
+func.tags = ["PatientDAOTimelock"];
+func.dependencies = ["PatientDAOFHE"];
+func.skip = async () => readAddresses("TIMELOCK_PROPOSERS").length === 0;
@@ -0,0 +1,48 @@
+import type { DeployFunction } from "hardhat-deploy/types";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { readAddresses } from "../src/accounts";
+import { recordDeployment } from "../src/deployments";
+import { syncCommittee } from "../src/treasury";
+
+/**
+ * Deploys the TrialTreasury for PatientDAOFHE's approved trials and seats the
+ * TREASURY_COMMITTEE members (comma-separated) who are not on it yet, syncing
+ * funded trials to them. The DAO owner, the deployer here, manages the
+ * committee afterwards.
+ */
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, get, log } = hre.deployments;
+
+  const deployed = await deploy("TrialTreasury", {
+    from: deployer,
+    args: [(await get("PatientDAOFHE")).address],
+    log: true,
+    waitConfirmations: hre.network.live ? 2 : 1,
+  });
+
+  const treasury = await hre.ethers.getContractAt(
+    "TrialTreasury",
+    deployed.address,
+    await hre.ethers.getSigner(deployer),
+  );
+  for (const member of readAddresses("TREASURY_COMMITTEE")) {
+    if (!(await treasury.isCommitteeMember(member))) {
+      await (await treasury.addCommitteeMember(member)).wait();
+      log(`${member} joined the TrialTreasury committee`);
+    }
+  }
+  for (const trialId of await syncCommittee(treasury)) {
+    log(`Synced trial ${trialId} to the TrialTreasury committee`);
+  }
+
+  if (hre.network.name !== "hardhat") {
+    await recordDeployment(hre, "TrialTreasury", deployed);
+  }
+};
+
+export default func;
+func.id = "deploy_trialTreasury";
+func.tags = ["TrialTreasury"];
+func.dependencies = ["PatientDAOFHE"];
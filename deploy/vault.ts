@@ -0,0 +1,47 @@
+import type { DeployFunction } from "hardhat-deploy/types";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { recordDeployment } from "../src/deployments";
+
+/**
+ * Deploys the PatientRecordVault next to PatientDAOFHE, whose approved
+ * proposals are the trials patients can grant access to once they consented
+ * in the ConsentRegistry, and links the registry back to the vault so that
+ * withdrawing consent revokes access.
+ */
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, get, log } = hre.deployments;
+
+  const registryAddress = (await get("ConsentRegistry")).address;
+  const deployed = await deploy("PatientRecordVault", {
+    from: deployer,
+    args: [(await get("PatientDAOFHE")).address, registryAddress],
+    log: true,
+    waitConfirmations: hre.network.live ? 2 : 1,
+  });
+
+  const registry = await hre.ethers.getContractAt(
+    "ConsentRegistry",
+    registryAddress,
+    await hre.ethers.getSigner(deployer),
+  );
+  const current = await registry.recordVault();
+  if (current === hre.ethers.ZeroAddress) {
+    await (await registry.setRecordVault(deployed.address)).wait();
+    log(`ConsentRegistry now revokes access in ${deployed.address}`);
+  } else if (current !== deployed.address) {
+    log(
+      `ConsentRegistry is already linked to the vault at ${current}, withdrawals will not revoke access in ${deployed.address}`,
+    );
+  }
+
+  if (hre.network.name !== "hardhat") {
+    await recordDeployment(hre, "PatientRecordVault", deployed);
+  }
+};
+
+export default func;
+func.id = "deploy_patientRecordVault";
+func.tags = ["PatientRecordVault"];
+func.dependencies = ["PatientDAOFHE", "ConsentRegistry"];
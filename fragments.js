@@ -1,3 +0,0 @@
-import React from 'react';
-
-export default function export-test() { return <div>Component</div>; }
@@ -3,40 +3,64 @@ import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
 import React, { useEffect, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import type { PatientDAOFHE } from "./contract";
+import { getConsentRegistryReadOnly, getContractReadOnly, getContractWithSigner, getEligibilityReadOnly, getRecordVaultReadOnly, getMilestonesReadOnly, getSigner, getTreasuryReadOnly } from "./contract";
+import { encryptBool, encryptUint32, encryptUint64, userDecryptUint } from "./fhe";
+import type { ProposalData, ProposalHistoryEntry } from "./proposals";
+import { STATUS_LABELS, isFinalStatus, loadProposalHistory, loadProposalPage, storeMetadata } from "./proposals";
+import { isContentURI, uploadFile } from "./content";
+import DocumentLink from "./components/DocumentLink";
+import { fetchIndexedEvents } from "./indexer";
+import { holdsMembership } from "./membership";
+import { grantTrialAccess, rotateSupersededConsents } from "./records";
+import type { EligibilityState } from "./eligibility";
+import { decryptEligibility, loadEligibilityState, runEligibilityCheck } from "./eligibility";
+import type { TrialConsentState } from "./consent";
+import { hashDocumentFile, loadTrialConsent, publishConsentDocument, signAndGiveConsent } from "./consent";
+import type { MilestoneData, MilestoneKind, MilestoneProgress } from "./milestones";
+import { MILESTONE_KINDS, MILESTONE_KIND_LABELS, acceptMilestone, attestMilestone, declareMilestone, disputeMilestone, isOverdue, loadMilestoneProgress, loadMilestones } from "./milestones";
+import type { CommentNode } from "./discussion";
+import { MAX_COMMENT_LENGTH, loadDiscussion, moderateComment, postComment } from "./discussion";
+import type { FundingAmounts, FundingState } from "./treasury";
+import { decryptFunding, formatTreasuryAmount, fundTreasury, loadFundingState, releaseMilestonePayout, requestWithdrawal, setTrialBudget, syncCommittee, withdrawFunds } from "./treasury";
+import type { PendingAdminAction, TimelockState } from "./timelock";
+import { cancelAdminAction, executeAdminAction, loadTimelockState } from "./timelock";
 import "./App.css";
-import { useAccount, useSignMessage } from 'wagmi';
-
-interface TrialData {
-  id: string;
-  encryptedValue: string;
-  timestamp: number;
-  owner: string;
-  category: string;
-  status: "pending" | "approved" | "rejected";
-  title: string;
-  description: string;
-  votes: number;
+import { useAccount } from 'wagmi';
+import { Link } from "react-router-dom";
+
+interface BatchInfo {
+  id: number;
+  isOpen: boolean;
+  createdAt: number;
+  closedAt: number;
+  submissions: number;
+  optionCount: number;
 }
 
-const FHEEncryptNumber = (value: number): string => {
-  return `FHE-${btoa(value.toString())}`;
-};
+interface BatchResult {
+  requestId: string;
+  batchId: number;
+  totalVotes: number;
+  approvalCount: number;
+  // Weighted count per ballot option, option 0 first.
+  optionCounts: number[];
+}
 
-const FHEDecryptNumber = (encryptedData: string): number => {
-  if (encryptedData.startsWith('FHE-')) {
-    return parseFloat(atob(encryptedData.substring(4)));
-  }
-  return parseFloat(encryptedData);
-};
+// Mirrors PatientDAOFHE.MAX_BATCH_OPTIONS.
+const MAX_BATCH_OPTIONS = 16;
 
-const generatePublicKey = () => `0x${Array(2000).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`;
+// Ballot options are only known by index on-chain.
+const optionLabel = (option: number) => `Option ${String.fromCharCode(65 + option)}`;
+
+// Budgets are encrypted in gwei so they fit an euint64.
+const BUDGET_SCALE = 1e9;
 
 const App: React.FC = () => {
-  const { address, isConnected } = useAccount();
-  const { signMessageAsync } = useSignMessage();
+  const { address, isConnected, chainId } = useAccount();
   const [loading, setLoading] = useState(true);
-  const [trials, setTrials] = useState<TrialData[]>([]);
+  const [trials, setTrials] = useState<ProposalData[]>([]);
+  const [nextCursor, setNextCursor] = useState(0);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [creating, setCreating] = useState(false);
@@ -47,117 +71,429 @@ const App: React.FC = () => {
     category: "Cancer", 
     sensitiveValue: 0 
   });
-  const [selectedTrial, setSelectedTrial] = useState<TrialData | null>(null);
+  const [protocolFile, setProtocolFile] = useState<File | null>(null);
+  const [selectedTrial, setSelectedTrial] = useState<ProposalData | null>(null);
   const [decryptedValue, setDecryptedValue] = useState<number | null>(null);
   const [isDecrypting, setIsDecrypting] = useState(false);
-  const [publicKey, setPublicKey] = useState<string>("");
   const [contractAddress, setContractAddress] = useState<string>("");
-  const [chainId, setChainId] = useState<number>(0);
-  const [startTimestamp, setStartTimestamp] = useState<number>(0);
-  const [durationDays, setDurationDays] = useState<number>(30);
+  const [daoOwner, setDaoOwner] = useState<string>("");
+  const [isProvider, setIsProvider] = useState(false);
+  const [isMember, setIsMember] = useState(false);
+  const [isReviewer, setIsReviewer] = useState(false);
+  const [history, setHistory] = useState<ProposalHistoryEntry[]>([]);
+  const [hasVotedSelected, setHasVotedSelected] = useState(false);
+  const [hasSubmittedBatch, setHasSubmittedBatch] = useState(false);
+  const [currentBatch, setCurrentBatch] = useState<BatchInfo | null>(null);
+  const [batchResults, setBatchResults] = useState<BatchResult[]>([]);
+  const [newBatchOptions, setNewBatchOptions] = useState(2);
+  const [timelockState, setTimelockState] = useState<TimelockState | null>(null);
+  const [hasVaultRecord, setHasVaultRecord] = useState(false);
+  const [sharedSelected, setSharedSelected] = useState(false);
+  const [eligibility, setEligibility] = useState<EligibilityState | null>(null);
+  const [eligible, setEligible] = useState<boolean | null>(null);
+  const [trialConsent, setTrialConsent] = useState<TrialConsentState | null>(null);
+  const [milestoneProgress, setMilestoneProgress] = useState<Record<number, MilestoneProgress>>({});
+  const [milestones, setMilestones] = useState<MilestoneData[] | null>(null);
+  const [milestoneForm, setMilestoneForm] = useState<{ kind: MilestoneKind; description: string; dueDate: string }>({ kind: "enrollment", description: "", dueDate: "" });
+  const [attestForm, setAttestForm] = useState<{ index: number | null; uri: string; file: File | null }>({ index: null, uri: "", file: null });
+  const [disputeReason, setDisputeReason] = useState("");
+  const [funding, setFunding] = useState<FundingState | null>(null);
+  const [fundingAmounts, setFundingAmounts] = useState<FundingAmounts | null>(null);
+  const [fundingForm, setFundingForm] = useState({ deposit: "", budget: "", milestone: "", payout: "" });
+  const [discussion, setDiscussion] = useState<CommentNode[] | null>(null);
+  const [commentDraft, setCommentDraft] = useState<{ parentId: string | null; body: string }>({ parentId: null, body: "" });
+  const [consentForm, setConsentForm] = useState<{ uri: string; file: File | null; reconsentRequired: boolean }>({ uri: "", file: null, reconsentRequired: false });
   const [searchTerm, setSearchTerm] = useState("");
   const [filterCategory, setFilterCategory] = useState("All");
 
   const approvedCount = trials.filter(t => t.status === "approved").length;
-  const pendingCount = trials.filter(t => t.status === "pending").length;
+  const pendingCount = trials.filter(t => !isFinalStatus(t.status)).length;
   const rejectedCount = trials.filter(t => t.status === "rejected").length;
 
   useEffect(() => {
-    loadTrials().finally(() => setLoading(false));
-    const initSignatureParams = async () => {
+    loadProposals().finally(() => setLoading(false));
+    loadDaoState();
+    const initContractAddress = async () => {
       const contract = await getContractReadOnly();
-      if (contract) setContractAddress(await contract.getAddress());
-      if (window.ethereum) {
-        const chainIdHex = await window.ethereum.request({ method: 'eth_chainId' });
-        setChainId(parseInt(chainIdHex, 16));
-      }
-      setStartTimestamp(Math.floor(Date.now() / 1000));
-      setDurationDays(30);
-      setPublicKey(generatePublicKey());
+      setContractAddress(contract ? await contract.getAddress() : "");
     };
-    initSignatureParams();
-  }, []);
+    initContractAddress();
+  }, [chainId]);
 
-  const loadTrials = async () => {
-    setIsRefreshing(true);
+  useEffect(() => {
+    setSelectedTrial(prev => prev && (trials.find(t => t.id === prev.id) ?? prev));
+  }, [trials]);
+
+  useEffect(() => {
+    const checkProvider = async () => {
+      const dao = await getContractReadOnly();
+      setIsProvider(!!dao && !!address && await dao.isProvider(address));
+      setIsMember(!!dao && !!address && (await dao.isMember(address) || await holdsMembership(dao, address)));
+      setIsReviewer(!!dao && !!address && await dao.isReviewer(address));
+    };
+    checkProvider().catch(e => console.error("Error checking provider role:", e));
+  }, [address, chainId]);
+
+  useEffect(() => {
+    const checkBallot = async () => {
+      const dao = await getContractReadOnly();
+      setHasVotedSelected(!!dao && !!address && !!selectedTrial && await dao.hasVoted(selectedTrial.id, address));
+    };
+    checkBallot().catch(e => console.error("Error checking ballot:", e));
+  }, [address, chainId, selectedTrial?.id, selectedTrial?.voterCount]);
+
+  useEffect(() => {
+    const checkBatchBallot = async () => {
+      const dao = await getContractReadOnly();
+      setHasSubmittedBatch(!!dao && !!address && !!currentBatch && await dao.hasSubmitted(currentBatch.id, address));
+    };
+    checkBatchBallot().catch(e => console.error("Error checking batch ballot:", e));
+  }, [address, chainId, currentBatch?.id, currentBatch?.submissions]);
+
+  useEffect(() => {
+    loadAdminActions();
+  }, [address, chainId]);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      const dao = await getContractReadOnly();
+      setHistory(dao && selectedTrial ? await loadProposalHistory(dao, selectedTrial.id) : []);
+    };
+    loadHistory().catch(e => console.error("Error loading proposal history:", e));
+  }, [chainId, selectedTrial?.id, selectedTrial?.status]);
+
+  useEffect(() => {
+    loadPatientState().catch(e => console.error("Error loading eligibility:", e));
+  }, [address, chainId, selectedTrial?.id]);
+
+  useEffect(() => {
+    loadProgress().catch(e => console.error("Error loading milestone progress:", e));
+  }, [chainId, trials]);
+
+  useEffect(() => {
+    loadTrialMilestones().catch(e => console.error("Error loading milestones:", e));
+  }, [chainId, selectedTrial?.id, selectedTrial?.status]);
+
+  const loadProgress = async () => {
+    const contract = await getMilestonesReadOnly();
+    const approvedIds = trials.filter(t => t.status === "approved").map(t => t.id);
+    setMilestoneProgress(contract && approvedIds.length > 0 ? await loadMilestoneProgress(contract, approvedIds) : {});
+  };
+
+  // Only approved trials have milestones; null hides the section.
+  const loadTrialMilestones = async () => {
+    const contract = await getMilestonesReadOnly();
+    setMilestones(contract && selectedTrial?.status === "approved" ? await loadMilestones(contract, selectedTrial.id) : null);
+  };
+
+  useEffect(() => {
+    setCommentDraft({ parentId: null, body: "" });
+    loadTrialDiscussion().catch(e => console.error("Error loading discussion:", e));
+  }, [chainId, selectedTrial?.id]);
+
+  // Null while the indexer, which stores the comments, is not running.
+  const loadTrialDiscussion = async () => {
+    const dao = await getContractReadOnly();
+    setDiscussion(dao && selectedTrial ? await loadDiscussion(dao, selectedTrial.id) : null);
+  };
+
+  useEffect(() => {
+    loadFunding().catch(e => console.error("Error loading funding:", e));
+  }, [address, chainId, selectedTrial?.id, selectedTrial?.status]);
+
+  // Only approved trials can be funded; null hides the panel.
+  const loadFunding = async () => {
+    const treasury = await getTreasuryReadOnly();
+    setFundingAmounts(null);
+    setFunding(treasury && selectedTrial?.status === "approved" ? await loadFundingState(treasury, selectedTrial.id, address) : null);
+  };
+
+  const decryptFundingAmounts = async () => {
+    if (!funding) return;
+    setIsDecrypting(true);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
-      
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) return;
+      setFundingAmounts(await decryptFunding(funding));
+    } catch (e) { console.error("Decryption failed:", e); }
+    finally { setIsDecrypting(false); }
+  };
+
+  // Null eligibility hides the check while the trial has no criteria or the contracts are not deployed.
+  const loadPatientState = async () => {
+    const [vault, eligibilityContract, registry] = await Promise.all([getRecordVaultReadOnly(), getEligibilityReadOnly(), getConsentRegistryReadOnly()]);
+    setEligible(null);
+    setTrialConsent(registry && selectedTrial ? await loadTrialConsent(registry, selectedTrial.id, address) : null);
+    if (!vault || !address || !selectedTrial) {
+      setHasVaultRecord(false);
+      setSharedSelected(false);
+      setEligibility(null);
+      return;
+    }
+    const [recordExists, shared] = await Promise.all([vault.hasRecord(address), vault.hasAccess(address, selectedTrial.id)]);
+    setHasVaultRecord(recordExists);
+    setSharedSelected(shared);
+    const state = eligibilityContract ? await loadEligibilityState(eligibilityContract, selectedTrial.id, address) : null;
+    setEligibility(state && state.criteriaUpdatedAt > 0 ? state : null);
+  };
+
+  const decryptEligibilityResult = async () => {
+    const eligibilityContract = await getEligibilityReadOnly();
+    if (!eligibilityContract || !eligibility) return;
+    setIsDecrypting(true);
+    try {
+      setEligible(await decryptEligibility(eligibilityContract, eligibility));
+    } catch (e) { console.error("Decryption failed:", e); }
+    finally { setIsDecrypting(false); }
+  };
+
+  const loadDaoState = async () => {
+    try {
+      const dao = await getContractReadOnly();
+      if (!dao) {
+        setDaoOwner("");
+        setCurrentBatch(null);
+        setBatchResults([]);
+        return;
+      }
       
-      const keysBytes = await contract.getData("trial_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try {
-          const keysStr = ethers.toUtf8String(keysBytes);
-          if (keysStr.trim() !== '') keys = JSON.parse(keysStr);
-        } catch (e) { console.error("Error parsing trial keys:", e); }
+      const [owner, batchId] = await Promise.all([dao.owner(), dao.currentBatchId()]);
+      setDaoOwner(owner);
+      if (batchId > 0n) {
+        const [batch, submissions] = await Promise.all([dao.batches(batchId), dao.batchSubmissionCount(batchId)]);
+        setCurrentBatch({
+          id: Number(batchId),
+          isOpen: batch.isOpen,
+          createdAt: Number(batch.createdAt),
+          closedAt: Number(batch.closedAt),
+          submissions: Number(submissions),
+          optionCount: Number(batch.optionCount)
+        });
+      } else {
+        setCurrentBatch(null);
       }
       
-      const list: TrialData[] = [];
-      for (const key of keys) {
-        try {
-          const trialBytes = await contract.getData(`trial_${key}`);
-          if (trialBytes.length > 0) {
-            try {
-              const trialData = JSON.parse(ethers.toUtf8String(trialBytes));
-              list.push({ 
-                id: key, 
-                encryptedValue: trialData.value, 
-                timestamp: trialData.timestamp, 
-                owner: trialData.owner, 
-                category: trialData.category, 
-                status: trialData.status || "pending",
-                title: trialData.title,
-                description: trialData.description,
-                votes: trialData.votes || 0
-              });
-            } catch (e) { console.error(`Error parsing trial data for ${key}:`, e); }
-          }
-        } catch (e) { console.error(`Error loading trial ${key}:`, e); }
+      const indexed = await fetchIndexedEvents(dao, "/events?name=DecryptionCompleted&limit=500");
+      const completed = indexed
+        ? indexed.map(e => e.args)
+        : (await dao.queryFilter(dao.filters.DecryptionCompleted())).map(e => e.args);
+      const optionCounts = new Map<number, number[]>();
+      await Promise.all([...new Set(completed.map(args => Number(args.batchId)))].map(async id => {
+        optionCounts.set(id, (await dao.getBatchOptionResults(id)).map(Number));
+      }));
+      setBatchResults(completed.map(args => ({
+        requestId: args.requestId.toString(),
+        batchId: Number(args.batchId),
+        totalVotes: Number(args.totalVotes),
+        approvalCount: Number(args.approvalCount),
+        optionCounts: optionCounts.get(Number(args.batchId)) ?? []
+      })).sort((a, b) => b.batchId - a.batchId));
+    } catch (e) { console.error("Error loading DAO state:", e); }
+  };
+
+  const loadAdminActions = async () => {
+    try {
+      const dao = await getContractReadOnly();
+      setTimelockState(dao ? await loadTimelockState(dao, address) : null);
+    } catch (e) { console.error("Error loading pending admin actions:", e); }
+  };
+
+  const runTransaction = async (pendingMessage: string, successMessage: string, failurePrefix: string, send: () => Promise<ethers.TransactionResponse>) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: pendingMessage });
+    try {
+      const tx = await send();
+      await tx.wait();
+    } catch (e: any) {
+      const errorMessage = e.message?.includes("user rejected transaction") ? "Transaction rejected by user" : failurePrefix + (e.shortMessage || e.message || "Unknown error");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return;
+    }
+
+    setTransactionStatus({ visible: true, status: "success", message: successMessage });
+    // The transaction is mined by now, so a loader failing is only logged.
+    const reloads = await Promise.allSettled([loadDaoState(), loadProposals(), loadAdminActions(), loadPatientState(), loadFunding(), loadTrialMilestones(), loadProgress()]);
+    reloads.forEach(result => result.status === "rejected" && console.error("Error reloading after transaction:", result.reason));
+    setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+  };
+
+  const runDaoAction = (pendingMessage: string, successMessage: string, failurePrefix: string, action: (dao: PatientDAOFHE) => Promise<ethers.ContractTransactionResponse>) =>
+    runTransaction(pendingMessage, successMessage, failurePrefix, async () => action(await getContractWithSigner()));
+
+  const executeAdmin = (action: PendingAdminAction) => runTransaction("Executing admin action...", "Admin action executed!", "Execution failed: ", () => executeAdminAction(timelockState!.address, action));
+
+  const cancelAdmin = (action: PendingAdminAction) => runTransaction("Cancelling admin action...", "Admin action cancelled", "Cancellation failed: ", () => cancelAdminAction(timelockState!.address, action.id));
+
+  const openBatch = (optionCount: number) => runDaoAction("Opening voting batch...", "Voting batch opened!", "Opening batch failed: ", dao => optionCount === 2 ? dao.openBatch() : dao.openMultiOptionBatch(optionCount));
+
+  const closeBatch = (batchId: number) => runDaoAction("Closing voting batch...", "Voting batch closed!", "Closing batch failed: ", dao => dao.closeBatch(batchId));
+
+  const requestBatchDecryption = (batchId: number) => runDaoAction("Requesting decryption of batch results...", "Decryption requested, results appear once the oracle responds", "Decryption request failed: ", dao => dao.requestBatchResultDecryption(batchId));
+
+  // Ballots carry the chosen option index, 1 approves and 0 rejects in a two-option batch.
+  const submitBatchVote = (batchId: number, option: number) => runDaoAction("Encrypting vote with Zama FHE...", "Encrypted vote submitted!", "Vote failed: ", async dao => {
+    const encrypted = await encryptUint32(await dao.getAddress(), address!, option);
+    return dao.submitVote(batchId, encrypted.handle, encrypted.inputProof);
+  });
+
+  const checkEligibility = (proposalId: number) => runTransaction("Checking your encrypted record against the criteria...", "Eligibility checked, decrypt the result to see it", "Eligibility check failed: ", () => runEligibilityCheck(proposalId, address!));
+
+  const shareRecord = (proposalId: number) => runTransaction("Sharing your encrypted record...", "Record shared with the trial!", "Sharing failed: ", () => grantTrialAccess(proposalId));
+
+  const giveConsent = (proposalId: number, version: number) => runTransaction("Signing the consent document...", "Consent recorded!", "Consenting failed: ", () => signAndGiveConsent(proposalId, version));
+
+  const publishConsent = (proposalId: number) => runTransaction("Publishing consent document...", "Consent document published!", "Publishing failed: ", async () => {
+    const uri = consentForm.uri || await uploadFile(consentForm.file!);
+    const tx = await publishConsentDocument(proposalId, await hashDocumentFile(consentForm.file!), uri, consentForm.reconsentRequired);
+    setConsentForm({ uri: "", file: null, reconsentRequired: false });
+    if (!consentForm.reconsentRequired) return tx;
+    // Records already shared stay readable until they are moved to new handles
+    await tx.wait();
+    return (await rotateSupersededConsents(proposalId)) ?? tx;
+  });
+
+  const depositFunds = () => runTransaction("Depositing into the treasury...", "Treasury funded!", "Deposit failed: ", async () => {
+    const tx = await fundTreasury(fundingForm.deposit);
+    setFundingForm({ ...fundingForm, deposit: "" });
+    return tx;
+  });
+
+  const setBudget = (proposalId: number) => runTransaction("Encrypting budget with Zama FHE...", "Budget set!", "Setting budget failed: ", () => setTrialBudget(proposalId, address!, fundingForm.budget));
+
+  const releasePayout = (proposalId: number) => runTransaction("Encrypting milestone payout...", "Payout released if within budget", "Releasing payout failed: ", async () => {
+    const tx = await releaseMilestonePayout(proposalId, address!, fundingForm.milestone, fundingForm.payout);
+    setFundingForm({ ...fundingForm, milestone: "", payout: "" });
+    return tx;
+  });
+
+  const syncFundingAccess = (proposalId: number) => runTransaction("Syncing funding to the committee...", "Committee access synced!", "Syncing failed: ", () => syncCommittee(proposalId));
+
+  const claimPayouts = (proposalId: number) => runTransaction("Requesting decryption of unclaimed payouts...", "Withdrawal requested, it becomes available once decrypted", "Withdrawal request failed: ", () => requestWithdrawal(proposalId));
+
+  const withdraw = () => runTransaction("Withdrawing funds...", "Funds withdrawn!", "Withdrawal failed: ", () => withdrawFunds());
+
+  const addMilestone = (proposalId: number) => runTransaction("Declaring milestone...", "Milestone declared!", "Declaring milestone failed: ", async () => {
+    const tx = await declareMilestone(proposalId, milestoneForm.kind, milestoneForm.description, Math.floor(new Date(milestoneForm.dueDate).getTime() / 1000));
+    setMilestoneForm({ kind: "enrollment", description: "", dueDate: "" });
+    return tx;
+  });
+
+  const attest = (proposalId: number, milestoneIndex: number) => runTransaction("Submitting attestation...", "Milestone attested!", "Attestation failed: ", async () => {
+    const uri = attestForm.uri || await uploadFile(attestForm.file!);
+    const tx = await attestMilestone(proposalId, milestoneIndex, attestForm.file!, uri);
+    setAttestForm({ index: null, uri: "", file: null });
+    return tx;
+  });
+
+  const acceptAttestation = (proposalId: number, milestoneIndex: number) => runTransaction("Accepting milestone...", "Milestone accepted!", "Accepting failed: ", () => acceptMilestone(proposalId, milestoneIndex));
+
+  const disputeAttestation = (proposalId: number, milestoneIndex: number) => runTransaction("Disputing milestone...", "Milestone disputed", "Disputing failed: ", async () => {
+    const tx = await disputeMilestone(proposalId, milestoneIndex, disputeReason);
+    setDisputeReason("");
+    return tx;
+  });
+
+  // Comments are signed, not sent as transactions, and go to the indexer.
+  const runDiscussionAction = async (pendingMessage: string, successMessage: string, failurePrefix: string, action: (dao: PatientDAOFHE) => Promise<void>) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: pendingMessage });
+    try {
+      const dao = await getContractReadOnly();
+      if (!dao) throw new Error("DAO not deployed on this network");
+      await action(dao);
+      setTransactionStatus({ visible: true, status: "success", message: successMessage });
+      await loadTrialDiscussion();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      const errorMessage = e.message?.includes("user rejected") ? "Signature rejected by user" : failurePrefix + (e.shortMessage || e.message || "Unknown error");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const submitComment = (proposalId: number) => runDiscussionAction("Signing comment...", "Comment posted!", "Posting failed: ", async dao => {
+    await postComment(dao, proposalId, commentDraft.body, commentDraft.parentId ?? undefined);
+    setCommentDraft({ parentId: null, body: "" });
+  });
+
+  const setCommentHidden = (proposalId: number, commentId: string, hide: boolean) => runDiscussionAction(hide ? "Hiding comment..." : "Restoring comment...", hide ? "Comment hidden" : "Comment restored", "Moderation failed: ", dao => moderateComment(dao, proposalId, commentId, hide));
+
+  const renderComment = (trial: ProposalData, node: CommentNode): React.ReactNode => (
+    <li key={node.id} className="comment-entry">
+      <div className="comment-header">
+        <span className="timeline-actor">{node.comment.author.substring(0, 6)}...{node.comment.author.substring(38)}</span>
+        {node.badges.map(badge => <span key={badge} className={`comment-badge ${badge}`}>{badge}</span>)}
+        <span className="timeline-date">{new Date(node.comment.createdAt * 1000).toLocaleString()}</span>
+      </div>
+      {node.hidden ? <p className="comment-hidden">Hidden by the DAO owner.</p> : <p className="comment-body">{node.comment.body}</p>}
+      <div className="comment-actions">
+        {isConnected && <button className="secondary-btn" onClick={() => setCommentDraft({ parentId: node.id, body: "" })}>Reply</button>}
+        {isDaoOwner && <button className="secondary-btn" onClick={() => setCommentHidden(trial.id, node.id, !node.hidden)}>{node.hidden ? "Restore" : "Hide"}</button>}
+      </div>
+      {commentDraft.parentId === node.id && (
+        <div className="comment-form">
+          <textarea maxLength={MAX_COMMENT_LENGTH} placeholder="Write a reply" value={commentDraft.body} onChange={e => setCommentDraft({ ...commentDraft, body: e.target.value })} />
+          <button className="primary-btn" onClick={() => submitComment(trial.id)} disabled={!commentDraft.body.trim()}>Sign &amp; Reply</button>
+          <button className="secondary-btn" onClick={() => setCommentDraft({ parentId: null, body: "" })}>Cancel</button>
+        </div>
+      )}
+      {node.replies.length > 0 && <ol className="comment-replies">{node.replies.map(reply => renderComment(trial, reply))}</ol>}
+    </li>
+  );
+
+  const votingOpen = (trial: ProposalData) => trial.status === "voting" && Date.now() / 1000 < trial.votingEndsAt;
+
+  const isProposer = (trial: ProposalData) => !!address && address.toLowerCase() === trial.proposer.toLowerCase();
+
+  const isDaoOwner = !!address && address.toLowerCase() === daoOwner.toLowerCase();
+
+  const loadProposals = async () => {
+    setIsRefreshing(true);
+    try {
+      const dao = await getContractReadOnly();
+      if (!dao) {
+        setTrials([]);
+        setNextCursor(0);
+        return;
       }
-      list.sort((a, b) => b.votes - a.votes);
-      setTrials(list);
-    } catch (e) { console.error("Error loading trials:", e); } 
+      
+      const page = await loadProposalPage(dao, null);
+      setTrials(page.proposals);
+      setNextCursor(page.nextCursor);
+    } catch (e) { console.error("Error loading proposals:", e); } 
     finally { setIsRefreshing(false); setLoading(false); }
   };
 
+  const loadMoreProposals = async () => {
+    setIsRefreshing(true);
+    try {
+      const dao = await getContractReadOnly();
+      if (!dao) return;
+      
+      const page = await loadProposalPage(dao, nextCursor);
+      setTrials(prev => [...prev, ...page.proposals]);
+      setNextCursor(page.nextCursor);
+    } catch (e) { console.error("Error loading proposals:", e); } 
+    finally { setIsRefreshing(false); }
+  };
+
   const submitTrial = async () => {
     if (!isConnected) { alert("Please connect wallet first"); return; }
     setCreating(true);
     setTransactionStatus({ visible: true, status: "pending", message: "Encrypting sensitive data with Zama FHE..." });
     try {
-      const encryptedValue = FHEEncryptNumber(newTrialData.sensitiveValue);
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
+      const dao = await getContractWithSigner();
       
-      const trialId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-      const trialData = { 
-        value: encryptedValue, 
-        timestamp: Math.floor(Date.now() / 1000), 
-        owner: address, 
-        category: newTrialData.category, 
-        status: "pending",
-        title: newTrialData.title,
-        description: newTrialData.description,
-        votes: 0
-      };
+      const budget = Math.round(newTrialData.sensitiveValue * BUDGET_SCALE);
+      const encrypted = await encryptUint64(await dao.getAddress(), address!, budget);
+      setTransactionStatus({ visible: true, status: "pending", message: "Storing the proposal in the content store..." });
+      const protocol = protocolFile ? await uploadFile(protocolFile) : undefined;
+      const metadataURI = await storeMetadata({ title: newTrialData.title, description: newTrialData.description, ...(protocol ? { protocol } : {}) });
       
-      await contract.setData(`trial_${trialId}`, ethers.toUtf8Bytes(JSON.stringify(trialData)));
-      
-      const keysBytes = await contract.getData("trial_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try { keys = JSON.parse(ethers.toUtf8String(keysBytes)); } 
-        catch (e) { console.error("Error parsing keys:", e); }
-      }
-      keys.push(trialId);
-      await contract.setData("trial_keys", ethers.toUtf8Bytes(JSON.stringify(keys)));
+      const tx = await dao.submitProposal(newTrialData.category, metadataURI, encrypted.handle, encrypted.inputProof);
+      await tx.wait();
       
       setTransactionStatus({ visible: true, status: "success", message: "Clinical trial proposal submitted securely!" });
-      await loadTrials();
+      await loadProposals();
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
         setShowCreateModal(false);
@@ -167,99 +503,42 @@ const App: React.FC = () => {
           category: "Cancer", 
           sensitiveValue: 0 
         });
+        setProtocolFile(null);
       }, 2000);
     } catch (e: any) {
-      const errorMessage = e.message.includes("user rejected transaction") ? "Transaction rejected by user" : "Submission failed: " + (e.message || "Unknown error");
+      const errorMessage = e.message.includes("user rejected transaction") ? "Transaction rejected by user" : "Submission failed: " + (e.shortMessage || e.message || "Unknown error");
       setTransactionStatus({ visible: true, status: "error", message: errorMessage });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     } finally { setCreating(false); }
   };
 
-  const decryptWithSignature = async (encryptedData: string): Promise<number | null> => {
+  const decryptWithSignature = async (handle: string): Promise<number | null> => {
     if (!isConnected) { alert("Please connect wallet first"); return null; }
     setIsDecrypting(true);
     try {
-      const message = `publickey:${publicKey}\ncontractAddresses:${contractAddress}\ncontractsChainId:${chainId}\nstartTimestamp:${startTimestamp}\ndurationDays:${durationDays}`;
-      await signMessageAsync({ message });
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      return FHEDecryptNumber(encryptedData);
+      const signer = await getSigner();
+      const value = await userDecryptUint(handle, contractAddress, signer);
+      return Number(value) / BUDGET_SCALE;
     } catch (e) { console.error("Decryption failed:", e); return null; } 
     finally { setIsDecrypting(false); }
   };
 
-  const voteForTrial = async (trialId: string) => {
-    if (!isConnected) { alert("Please connect wallet first"); return; }
-    setTransactionStatus({ visible: true, status: "pending", message: "Processing vote with FHE encryption..." });
-    try {
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
-      
-      const trialBytes = await contract.getData(`trial_${trialId}`);
-      if (trialBytes.length === 0) throw new Error("Trial not found");
-      
-      const trialData = JSON.parse(ethers.toUtf8String(trialBytes));
-      const updatedTrial = { ...trialData, votes: (trialData.votes || 0) + 1 };
-      
-      await contract.setData(`trial_${trialId}`, ethers.toUtf8Bytes(JSON.stringify(updatedTrial)));
-      
-      setTransactionStatus({ visible: true, status: "success", message: "Vote recorded successfully!" });
-      await loadTrials();
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
-    } catch (e: any) {
-      setTransactionStatus({ visible: true, status: "error", message: "Vote failed: " + (e.message || "Unknown error") });
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
-    }
-  };
+  const voteForTrial = (proposalId: number, support: boolean) => runDaoAction("Encrypting ballot with Zama FHE...", "Encrypted ballot cast!", "Vote failed: ", async dao => {
+    const encrypted = await encryptBool(await dao.getAddress(), address!, support);
+    return dao.castVote(proposalId, encrypted.handle, encrypted.inputProof);
+  });
 
-  const approveTrial = async (trialId: string) => {
-    if (!isConnected) { alert("Please connect wallet first"); return; }
-    setTransactionStatus({ visible: true, status: "pending", message: "Processing approval with FHE..." });
-    try {
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
-      
-      const trialBytes = await contract.getData(`trial_${trialId}`);
-      if (trialBytes.length === 0) throw new Error("Trial not found");
-      
-      const trialData = JSON.parse(ethers.toUtf8String(trialBytes));
-      const updatedTrial = { ...trialData, status: "approved" };
-      
-      await contract.setData(`trial_${trialId}`, ethers.toUtf8Bytes(JSON.stringify(updatedTrial)));
-      
-      setTransactionStatus({ visible: true, status: "success", message: "Trial approved successfully!" });
-      await loadTrials();
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
-    } catch (e: any) {
-      setTransactionStatus({ visible: true, status: "error", message: "Approval failed: " + (e.message || "Unknown error") });
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
-    }
-  };
+  const revealTally = (proposalId: number) => runDaoAction("Requesting tally decryption...", "Decryption requested, the tally appears once the oracle responds", "Decryption request failed: ", dao => dao.requestProposalTallyDecryption(proposalId));
 
-  const rejectTrial = async (trialId: string) => {
-    if (!isConnected) { alert("Please connect wallet first"); return; }
-    setTransactionStatus({ visible: true, status: "pending", message: "Processing rejection with FHE..." });
-    try {
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
-      
-      const trialBytes = await contract.getData(`trial_${trialId}`);
-      if (trialBytes.length === 0) throw new Error("Trial not found");
-      
-      const trialData = JSON.parse(ethers.toUtf8String(trialBytes));
-      const updatedTrial = { ...trialData, status: "rejected" };
-      
-      await contract.setData(`trial_${trialId}`, ethers.toUtf8Bytes(JSON.stringify(updatedTrial)));
-      
-      setTransactionStatus({ visible: true, status: "success", message: "Trial rejected successfully!" });
-      await loadTrials();
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
-    } catch (e: any) {
-      setTransactionStatus({ visible: true, status: "error", message: "Rejection failed: " + (e.message || "Unknown error") });
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
-    }
-  };
+  const submitForReview = (proposalId: number) => runDaoAction("Submitting proposal for review...", "Proposal submitted for review!", "Submission failed: ", dao => dao.submitForReview(proposalId));
+
+  const withdrawTrial = (proposalId: number) => runDaoAction("Withdrawing proposal...", "Proposal withdrawn", "Withdrawal failed: ", dao => dao.withdrawProposal(proposalId));
+
+  const startVoting = (proposalId: number) => runDaoAction("Opening proposal for voting...", "Voting started!", "Starting vote failed: ", dao => dao.startVoting(proposalId));
 
-  const isOwner = (trialAddress: string) => address?.toLowerCase() === trialAddress.toLowerCase();
+  const rejectTrial = (proposalId: number) => runDaoAction("Rejecting proposal...", "Trial rejected successfully!", "Rejection failed: ", dao => dao.rejectProposal(proposalId));
+
+  const finalizeTrial = (proposalId: number) => runDaoAction("Finalizing proposal from the tally...", "Proposal finalized!", "Finalization failed: ", dao => dao.finalizeProposal(proposalId));
 
   const filteredTrials = trials.filter(trial => {
     const matchesSearch = trial.title.toLowerCase().includes(searchTerm.toLowerCase()) || 
@@ -285,6 +564,11 @@ const App: React.FC = () => {
           <p>Decentralized Clinical Trials Powered by FHE</p>
         </div>
         <div className="header-actions">
+          <Link to="/records" className="nav-link">My Record</Link>
+          <Link to="/consent" className="nav-link">Consent</Link>
+          <Link to="/rewards" className="nav-link">My Rewards</Link>
+          <Link to="/membership" className="nav-link">Membership</Link>
+          <Link to="/providers/claim" className="nav-link">Provider Access</Link>
           <ConnectButton accountStatus="address" chainStatus="icon" showBalance={false} />
         </div>
       </header>
@@ -313,7 +597,7 @@ const App: React.FC = () => {
             <p className="stat-value">{approvedCount}</p>
           </div>
           <div className="stat-card">
-            <h3>Pending</h3>
+            <h3>In Progress</h3>
             <p className="stat-value">{pendingCount}</p>
           </div>
           <div className="stat-card">
@@ -322,6 +606,102 @@ const App: React.FC = () => {
           </div>
         </div>
 
+        <div className="batch-panel">
+          <div className="batch-header">
+            <h2>Provider Voting Batches</h2>
+            {isDaoOwner && (!currentBatch || !currentBatch.isOpen) && (
+              <div className="batch-open">
+                <select value={newBatchOptions} onChange={e => setNewBatchOptions(Number(e.target.value))}>
+                  <option value={2}>Approve / Reject</option>
+                  {Array.from({ length: MAX_BATCH_OPTIONS - 2 }, (_, i) => i + 3).map(n => (
+                    <option key={n} value={n}>{n} options</option>
+                  ))}
+                </select>
+                <button className="primary-btn" onClick={() => openBatch(newBatchOptions)}>Open New Batch</button>
+              </div>
+            )}
+          </div>
+          {currentBatch ? (
+            <div className="batch-current">
+              <span className={`status-badge ${currentBatch.isOpen ? "pending" : "approved"}`}>{currentBatch.isOpen ? "open" : "closed"}</span>
+              <span>Batch #{currentBatch.id}</span>
+              <span>{currentBatch.submissions} encrypted votes</span>
+              {currentBatch.optionCount > 2 && <span>{currentBatch.optionCount} options</span>}
+              <span>Opened {new Date(currentBatch.createdAt * 1000).toLocaleString()}</span>
+              {currentBatch.closedAt > 0 && <span>Closed {new Date(currentBatch.closedAt * 1000).toLocaleString()}</span>}
+              <div className="action-buttons">
+                {currentBatch.isOpen && isProvider && !hasSubmittedBatch && (currentBatch.optionCount > 2 ? (
+                  Array.from({ length: currentBatch.optionCount }, (_, option) => (
+                    <button key={option} className="approve-btn" onClick={() => submitBatchVote(currentBatch.id, option)}>Vote {optionLabel(option)}</button>
+                  ))
+                ) : (
+                  <>
+                    <button className="approve-btn" onClick={() => submitBatchVote(currentBatch.id, 1)}>Vote Approve</button>
+                    <button className="reject-btn" onClick={() => submitBatchVote(currentBatch.id, 0)}>Vote Reject</button>
+                  </>
+                ))}
+                {currentBatch.isOpen && isDaoOwner && (
+                  <button className="secondary-btn" onClick={() => closeBatch(currentBatch.id)}>Close Batch</button>
+                )}
+                {!currentBatch.isOpen && isDaoOwner && !timelockState && (
+                  <button className="decrypt-btn" onClick={() => requestBatchDecryption(currentBatch.id)}>Request Decryption</button>
+                )}
+              </div>
+            </div>
+          ) : (
+            <p className="batch-empty">No voting batch has been opened yet</p>
+          )}
+          {batchResults.length > 0 && (
+            <div className="batch-results">
+              <h3>Decrypted Results</h3>
+              {batchResults.map(result => (
+                <div key={result.requestId} className="batch-result">
+                  <span>Batch #{result.batchId}</span>
+                  {result.optionCounts.length > 2 ? (
+                    <div className="batch-option-results">
+                      {result.optionCounts.map((count, option) => (
+                        <span key={option}>{optionLabel(option)}: {count} / {result.totalVotes}</span>
+                      ))}
+                    </div>
+                  ) : (
+                    <span>{result.approvalCount} / {result.totalVotes} approved</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {timelockState && (
+          <div className="batch-panel">
+            <div className="batch-header">
+              <h2>Pending Admin Actions</h2>
+              <span className="status-badge pending">{Math.round(timelockState.minDelay / 3600)}h delay</span>
+            </div>
+            <p className="batch-empty">
+              Pausing, ownership changes and batch decryption go through the timelock at {timelockState.address.substring(0, 6)}...{timelockState.address.substring(38)}.
+              Proposers queue them with <code>npx hardhat dao:schedule</code>.
+            </p>
+            {timelockState.actions.length === 0 ? (
+              <p className="batch-empty">No admin actions are queued</p>
+            ) : timelockState.actions.map(action => (
+              <div key={action.id} className="admin-action">
+                <span className={`status-badge ${action.state === "ready" ? "approved" : "pending"}`}>{action.state}</span>
+                <span className="admin-action-calls">{action.descriptions.join(", ")}</span>
+                <span>{action.state === "ready" ? "Ready since" : "Ready at"} {new Date(action.readyAt * 1000).toLocaleString()}</span>
+                <div className="action-buttons">
+                  {action.state === "ready" && timelockState.canExecute && (
+                    <button className="primary-btn" onClick={() => executeAdmin(action)}>Execute</button>
+                  )}
+                  {timelockState.canCancel && (
+                    <button className="reject-btn" onClick={() => cancelAdmin(action)}>Cancel</button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
         <div className="search-filter-bar">
           <div className="search-box">
             <input 
@@ -343,7 +723,7 @@ const App: React.FC = () => {
           </select>
           <button 
             className="refresh-btn"
-            onClick={loadTrials}
+            onClick={() => { loadProposals(); loadDaoState(); }}
             disabled={isRefreshing}
           >
             {isRefreshing ? "Refreshing..." : "Refresh"}
@@ -369,20 +749,35 @@ const App: React.FC = () => {
                 onClick={() => setSelectedTrial(trial)}
               >
                 <div className="card-header">
-                  <span className={`status-badge ${trial.status}`}>{trial.status}</span>
-                  <span className="votes">❤️ {trial.votes}</span>
+                  <span className={`status-badge ${trial.status}`}>{STATUS_LABELS[trial.status]}</span>
+                  <span className="votes">🗳 {trial.voterCount}</span>
                 </div>
                 <h3>{trial.title}</h3>
                 <p className="category">{trial.category}</p>
                 <p className="description">{trial.description.substring(0, 100)}...</p>
+                {milestoneProgress[trial.id]?.total > 0 && (
+                  <div className="milestone-progress">
+                    <div className="milestone-progress-track">
+                      <div className="milestone-progress-bar" style={{ width: `${100 * milestoneProgress[trial.id].accepted / milestoneProgress[trial.id].total}%` }}></div>
+                    </div>
+                    <span>{milestoneProgress[trial.id].accepted}/{milestoneProgress[trial.id].total} milestones</span>
+                  </div>
+                )}
                 <div className="card-footer">
-                  <span className="owner">{trial.owner.substring(0, 6)}...{trial.owner.substring(38)}</span>
-                  <span className="date">{new Date(trial.timestamp * 1000).toLocaleDateString()}</span>
+                  <span className="owner">{trial.proposer.substring(0, 6)}...{trial.proposer.substring(38)}</span>
+                  <span className="date">{new Date(trial.createdAt * 1000).toLocaleDateString()}</span>
                 </div>
               </div>
             ))
           )}
         </div>
+        {nextCursor > 0 && (
+          <div className="load-more">
+            <button className="secondary-btn" onClick={loadMoreProposals} disabled={isRefreshing}>
+              {isRefreshing ? "Loading..." : "Load More Trials"}
+            </button>
+          </div>
+        )}
       </div>
 
       {showCreateModal && (
@@ -411,6 +806,10 @@ const App: React.FC = () => {
                   rows={4}
                 />
               </div>
+              <div className="form-group">
+                <label>Protocol (optional)</label>
+                <input type="file" accept="application/pdf" onChange={e => setProtocolFile(e.target.files?.[0] ?? null)} />
+              </div>
               <div className="form-row">
                 <div className="form-group">
                   <label>Category *</label>
@@ -467,24 +866,32 @@ const App: React.FC = () => {
             </div>
             <div className="modal-body">
               <div className="trial-meta">
-                <span className={`status-badge ${selectedTrial.status}`}>{selectedTrial.status}</span>
+                <span className={`status-badge ${selectedTrial.status}`}>{STATUS_LABELS[selectedTrial.status]}</span>
                 <span className="category">{selectedTrial.category}</span>
-                <span className="votes">❤️ {selectedTrial.votes} votes</span>
+                <span className="votes">🗳 {selectedTrial.voterCount} ballots</span>
               </div>
               
               <div className="trial-description">
                 <h3>Description</h3>
-                <p>{selectedTrial.description}</p>
+                {selectedTrial.metadataError ? (
+                  <p className="content-error">Could not load this proposal's content: {selectedTrial.metadataError}</p>
+                ) : (
+                  <p>{selectedTrial.description}</p>
+                )}
+                {selectedTrial.protocol && <p>Protocol: <DocumentLink uri={selectedTrial.protocol} /></p>}
+                {isContentURI(selectedTrial.metadataURI) && !selectedTrial.metadataError && (
+                  <p className="consent-hash">Verified against {selectedTrial.metadataURI}</p>
+                )}
               </div>
               
               <div className="trial-details">
                 <div className="detail-item">
                   <h3>Proposed By</h3>
-                  <p>{selectedTrial.owner}</p>
+                  <p>{selectedTrial.proposer}</p>
                 </div>
                 <div className="detail-item">
                   <h3>Date Proposed</h3>
-                  <p>{new Date(selectedTrial.timestamp * 1000).toLocaleString()}</p>
+                  <p>{new Date(selectedTrial.createdAt * 1000).toLocaleString()}</p>
                 </div>
                 <div className="detail-item">
                   <h3>Estimated Budget</h3>
@@ -493,10 +900,10 @@ const App: React.FC = () => {
                       <p className="decrypted-value">{decryptedValue} ETH</p>
                     ) : (
                       <div>
-                        <p className="encrypted-value">{selectedTrial.encryptedValue.substring(0, 30)}...</p>
+                        <p className="encrypted-value">{selectedTrial.encryptedBudget.substring(0, 30)}...</p>
                         <button 
                           className="decrypt-btn"
-                          onClick={() => decryptWithSignature(selectedTrial.encryptedValue).then(val => setDecryptedValue(val))}
+                          onClick={() => decryptWithSignature(selectedTrial.encryptedBudget).then(val => setDecryptedValue(val))}
                           disabled={isDecrypting}
                         >
                           {isDecrypting ? "Decrypting..." : "Decrypt with Wallet"}
@@ -507,30 +914,328 @@ const App: React.FC = () => {
                 </div>
               </div>
             </div>
-            <div className="modal-footer">
-              <div className="action-buttons">
-                <button 
-                  className="vote-btn"
-                  onClick={() => voteForTrial(selectedTrial.id)}
-                >
-                  ❤️ Vote for this Trial
-                </button>
-                {isOwner(selectedTrial.owner) && selectedTrial.status === "pending" && (
+            {selectedTrial.votingEndsAt > 0 && (
+              <div className="proposal-voting">
+                <h3>Confidential Vote</h3>
+                {selectedTrial.tally ? (
+                  <div className="tally-results">
+                    <span className="tally-yes">Yes: {selectedTrial.tally.yesVotes}</span>
+                    <span className="tally-no">No: {selectedTrial.tally.noVotes}</span>
+                  </div>
+                ) : votingOpen(selectedTrial) ? (
+                  <p>Voting closes {new Date(selectedTrial.votingEndsAt * 1000).toLocaleString()}. Ballots stay encrypted until then.</p>
+                ) : (
+                  <p>Voting closed {new Date(selectedTrial.votingEndsAt * 1000).toLocaleString()}. The encrypted tally can now be revealed.</p>
+                )}
+                {hasVotedSelected && <p className="ballot-cast">Your encrypted ballot has been recorded.</p>}
+              </div>
+            )}
+            {eligibility && (
+              <div className="proposal-eligibility">
+                <h3>Am I Eligible?</h3>
+                <p>Your encrypted record is checked against the trial's encrypted criteria; only you can decrypt the answer.</p>
+                {!hasVaultRecord ? (
+                  <p><Link to="/records">Store your record</Link> to check whether you qualify.</p>
+                ) : eligible !== null ? (
+                  <p className={eligible ? "eligibility-yes" : "eligibility-no"}>
+                    {eligible ? "You meet this trial's criteria." : "You do not meet this trial's criteria."}
+                  </p>
+                ) : eligibility.checkedAt > 0 ? (
+                  <p>
+                    Last checked {new Date(eligibility.checkedAt * 1000).toLocaleString()}
+                    {eligibility.checkedAt < eligibility.criteriaUpdatedAt && ", before the criteria last changed"}.
+                  </p>
+                ) : null}
+                {hasVaultRecord && (
+                  <div className="action-buttons">
+                    <button className="primary-btn" onClick={() => checkEligibility(selectedTrial.id)}>
+                      {eligibility.checkedAt > 0 ? "Check Again" : "Check Eligibility"}
+                    </button>
+                    {eligibility.checkedAt > 0 && eligible === null && (
+                      <button className="decrypt-btn" onClick={decryptEligibilityResult} disabled={isDecrypting}>
+                        {isDecrypting ? "Decrypting..." : "Decrypt Result"}
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+            {milestones && (milestones.length > 0 || isProposer(selectedTrial)) && (
+              <div className="proposal-milestones">
+                <h3>Milestones</h3>
+                {milestones.length === 0 ? (
+                  <p>No milestones declared yet.</p>
+                ) : (
+                  <ol className="milestone-list">
+                    {milestones.map(milestone => (
+                      <li key={milestone.index} className={`milestone-entry ${milestone.status}`}>
+                        <div className="milestone-header">
+                          <strong>{MILESTONE_KIND_LABELS[milestone.kind]}</strong>
+                          <span className={`status-badge ${milestone.status === "accepted" ? "approved" : milestone.status === "disputed" ? "rejected" : "pending"}`}>{milestone.status}</span>
+                          {isOverdue(milestone) && <span className="status-badge rejected">overdue</span>}
+                        </div>
+                        {milestone.description && <p>{milestone.description}</p>}
+                        <span className="timeline-date">Due {new Date(milestone.dueDate * 1000).toLocaleDateString()}</span>
+                        {milestone.attestedAt > 0 && (
+                          <>
+                            <p>Attested {new Date(milestone.attestedAt * 1000).toLocaleString()}: <DocumentLink uri={milestone.uri} /></p>
+                            <p className="consent-hash">{milestone.documentHash}</p>
+                          </>
+                        )}
+                        {isProposer(selectedTrial) && (milestone.status === "pending" || milestone.status === "disputed") && (
+                          attestForm.index === milestone.index ? (
+                            <div className="funding-form">
+                              <div className="form-group">
+                                <label>Deliverable URI (leave empty to upload the file)</label>
+                                <input type="text" placeholder="ipfs://..." value={attestForm.uri} onChange={e => setAttestForm({ ...attestForm, uri: e.target.value })} />
+                              </div>
+                              <div className="form-group">
+                                <label>Deliverable file (hashed in the browser)</label>
+                                <input type="file" onChange={e => setAttestForm({ ...attestForm, file: e.target.files?.[0] ?? null })} />
+                              </div>
+                              <button className="primary-btn" onClick={() => attest(selectedTrial.id, milestone.index)} disabled={!attestForm.file}>Submit Attestation</button>
+                            </div>
+                          ) : (
+                            <button className="secondary-btn" onClick={() => setAttestForm({ index: milestone.index, uri: "", file: null })}>Attest</button>
+                          )
+                        )}
+                        {isReviewer && milestone.status === "attested" && (
+                          <div className="action-buttons">
+                            <button className="approve-btn" onClick={() => acceptAttestation(selectedTrial.id, milestone.index)}>Accept</button>
+                            <input type="text" placeholder="Reason for dispute" value={disputeReason} onChange={e => setDisputeReason(e.target.value)} />
+                            <button className="reject-btn" onClick={() => disputeAttestation(selectedTrial.id, milestone.index)} disabled={!disputeReason}>Dispute</button>
+                          </div>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+                {isProposer(selectedTrial) && (
+                  <div className="funding-form">
+                    <div className="form-group">
+                      <label>Milestone</label>
+                      <select value={milestoneForm.kind} onChange={e => setMilestoneForm({ ...milestoneForm, kind: e.target.value as MilestoneKind })}>
+                        {MILESTONE_KINDS.map(kind => <option key={kind} value={kind}>{MILESTONE_KIND_LABELS[kind]}</option>)}
+                      </select>
+                    </div>
+                    <div className="form-group">
+                      <label>Description</label>
+                      <input type="text" placeholder="e.g. 200 patients enrolled" value={milestoneForm.description} onChange={e => setMilestoneForm({ ...milestoneForm, description: e.target.value })} />
+                    </div>
+                    <div className="form-group">
+                      <label>Due date</label>
+                      <input type="date" value={milestoneForm.dueDate} onChange={e => setMilestoneForm({ ...milestoneForm, dueDate: e.target.value })} />
+                    </div>
+                    <button className="secondary-btn" onClick={() => addMilestone(selectedTrial.id)} disabled={!milestoneForm.dueDate}>Declare Milestone</button>
+                  </div>
+                )}
+              </div>
+            )}
+            {funding && (
+              <div className="proposal-funding">
+                <h3>Funding</h3>
+                <p>The treasury holds {ethers.formatEther(funding.treasuryBalance)} ETH. Budgets and payouts stay encrypted; only the proposer and the treasury committee can decrypt them.</p>
+                {funding.fundedAt === 0 ? (
+                  <p>No budget set yet.</p>
+                ) : (
                   <>
-                    <button 
-                      className="approve-btn"
-                      onClick={() => approveTrial(selectedTrial.id)}
-                    >
-                      Approve
+                    {funding.isCommitteeMember && !funding.committeeSynced && !fundingAmounts ? (
+                      <button className="secondary-btn" onClick={() => syncFundingAccess(selectedTrial.id)}>Sync Committee Access</button>
+                    ) : (isProposer(selectedTrial) || funding.isCommitteeMember) && (
+                      fundingAmounts ? (
+                        <div className="membership-weights">
+                          <div className="stat-card">
+                            <h3>Budget</h3>
+                            <p className="stat-value">{formatTreasuryAmount(fundingAmounts.budget)} ETH</p>
+                          </div>
+                          <div className="stat-card">
+                            <h3>Disbursed</h3>
+                            <p className="stat-value">{formatTreasuryAmount(fundingAmounts.disbursed)} ETH</p>
+                          </div>
+                          <div className="stat-card">
+                            <h3>Unclaimed</h3>
+                            <p className="stat-value">{formatTreasuryAmount(fundingAmounts.claimable)} ETH</p>
+                          </div>
+                        </div>
+                      ) : (
+                        <button className="decrypt-btn" onClick={decryptFundingAmounts} disabled={isDecrypting}>
+                          {isDecrypting ? "Decrypting..." : "Decrypt Funding"}
+                        </button>
+                      )
+                    )}
+                    {funding.payouts.length > 0 && (
+                      <ol className="timeline">
+                        {funding.payouts.map((payout, i) => (
+                          <li key={i} className="timeline-entry approved">
+                            <span className="timeline-status">{payout.milestone}</span>
+                            <span className="timeline-date">{new Date(payout.releasedAt * 1000).toLocaleString()}</span>
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+                  </>
+                )}
+                {funding.isCommitteeMember && (
+                  <div className="funding-form">
+                    <div className="form-group">
+                      <label>Budget (ETH)</label>
+                      <input type="number" min="0" value={fundingForm.budget} onChange={e => setFundingForm({ ...fundingForm, budget: e.target.value })} />
+                    </div>
+                    <button className="secondary-btn" onClick={() => setBudget(selectedTrial.id)} disabled={!fundingForm.budget}>
+                      {funding.fundedAt === 0 ? "Set Budget" : "Amend Budget"}
                     </button>
-                    <button 
-                      className="reject-btn"
-                      onClick={() => rejectTrial(selectedTrial.id)}
-                    >
-                      Reject
+                    {funding.fundedAt > 0 && (
+                      <>
+                        <div className="form-group">
+                          <label>Milestone</label>
+                          <input type="text" placeholder="e.g. Enrollment complete" value={fundingForm.milestone} onChange={e => setFundingForm({ ...fundingForm, milestone: e.target.value })} />
+                        </div>
+                        <div className="form-group">
+                          <label>Payout (ETH)</label>
+                          <input type="number" min="0" value={fundingForm.payout} onChange={e => setFundingForm({ ...fundingForm, payout: e.target.value })} />
+                        </div>
+                        <button className="secondary-btn" onClick={() => releasePayout(selectedTrial.id)} disabled={!fundingForm.milestone || !fundingForm.payout}>
+                          Release Payout
+                        </button>
+                      </>
+                    )}
+                  </div>
+                )}
+                <div className="action-buttons">
+                  {isProposer(selectedTrial) && funding.fundedAt > 0 && (
+                    <button className="primary-btn" onClick={() => claimPayouts(selectedTrial.id)}>Claim Payouts</button>
+                  )}
+                  {funding.withdrawable > 0n && (
+                    <button className="approve-btn" onClick={withdraw}>Withdraw {ethers.formatEther(funding.withdrawable)} ETH</button>
+                  )}
+                </div>
+                {isConnected && (
+                  <div className="funding-form">
+                    <div className="form-group">
+                      <label>Deposit into the treasury (ETH)</label>
+                      <input type="number" min="0" value={fundingForm.deposit} onChange={e => setFundingForm({ ...fundingForm, deposit: e.target.value })} />
+                    </div>
+                    <button className="secondary-btn" onClick={depositFunds} disabled={!fundingForm.deposit}>Fund Treasury</button>
+                  </div>
+                )}
+              </div>
+            )}
+            {trialConsent && (trialConsent.documents.length > 0 || isProposer(selectedTrial)) && (
+              <div className="proposal-consent">
+                <h3>Informed Consent</h3>
+                {trialConsent.documents.length === 0 ? (
+                  <p>No consent document published yet.</p>
+                ) : (() => {
+                  const latest = trialConsent.documents[trialConsent.documents.length - 1];
+                  return (
+                    <>
+                      <p>
+                        Version {latest.version}: <DocumentLink uri={latest.uri} />
+                        {latest.reconsentRequired && latest.version > 1 && " (requires consenting again)"}
+                      </p>
+                      <p className="consent-hash">{latest.documentHash}</p>
+                      {trialConsent.active ? (
+                        <p className="eligibility-yes">
+                          You consented to version {trialConsent.consentedVersion}. <Link to="/consent">Manage</Link>
+                        </p>
+                      ) : (
+                        <>
+                          {trialConsent.consentedVersion > 0 && (
+                            <p className="eligibility-no">
+                              {trialConsent.withdrawnAt ? "You withdrew your consent." : "Your consent was superseded by a newer version."}
+                            </p>
+                          )}
+                          {isConnected && (
+                            <button className="primary-btn" onClick={() => giveConsent(selectedTrial.id, latest.version)}>Sign Consent</button>
+                          )}
+                        </>
+                      )}
+                    </>
+                  );
+                })()}
+                {isProposer(selectedTrial) && (
+                  <div className="consent-publish">
+                    <div className="form-group">
+                      <label>Document URI (leave empty to upload the file to the content store)</label>
+                      <input type="text" placeholder="ipfs://..." value={consentForm.uri} onChange={e => setConsentForm({ ...consentForm, uri: e.target.value })} />
+                    </div>
+                    <div className="form-group">
+                      <label>Document file (hashed in the browser)</label>
+                      <input type="file" onChange={e => setConsentForm({ ...consentForm, file: e.target.files?.[0] ?? null })} />
+                    </div>
+                    {trialConsent.documents.length > 0 && (
+                      <label>
+                        <input type="checkbox" checked={consentForm.reconsentRequired} onChange={e => setConsentForm({ ...consentForm, reconsentRequired: e.target.checked })} />
+                        {" "}Patients must consent again
+                      </label>
+                    )}
+                    <button className="secondary-btn" onClick={() => publishConsent(selectedTrial.id)} disabled={!consentForm.file}>
+                      Publish Version {trialConsent.documents.length + 1}
                     </button>
+                  </div>
+                )}
+              </div>
+            )}
+            <div className="proposal-discussion">
+              <h3>Discussion</h3>
+              {discussion === null ? (
+                <p>Start the indexer (<code>npm run indexer</code>) to read and post comments.</p>
+              ) : (
+                <>
+                  <p>Comments are signed by their author and checked in your browser. Badges come from on-chain roles.</p>
+                  {discussion.length === 0 ? <p>No comments yet.</p> : <ol className="comment-list">{discussion.map(node => renderComment(selectedTrial, node))}</ol>}
+                  {isConnected && commentDraft.parentId === null && (
+                    <div className="comment-form">
+                      <textarea maxLength={MAX_COMMENT_LENGTH} placeholder="Ask a question or share feedback" value={commentDraft.body} onChange={e => setCommentDraft({ ...commentDraft, body: e.target.value })} />
+                      <button className="primary-btn" onClick={() => submitComment(selectedTrial.id)} disabled={!commentDraft.body.trim()}>Sign &amp; Post</button>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+            {history.length > 0 && (
+              <div className="proposal-history">
+                <h3>History</h3>
+                <ol className="timeline">
+                  {history.map(entry => (
+                    <li key={`${entry.txHash}-${entry.status}`} className={`timeline-entry ${entry.status}`}>
+                      <span className="timeline-status">{STATUS_LABELS[entry.status]}</span>
+                      <span className="timeline-actor">{entry.actor.substring(0, 6)}...{entry.actor.substring(38)}</span>
+                      <span className="timeline-date">{new Date(entry.timestamp * 1000).toLocaleString()}</span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+            <div className="modal-footer">
+              <div className="action-buttons">
+                {isProposer(selectedTrial) && selectedTrial.status === "draft" && (
+                  <button className="primary-btn" onClick={() => submitForReview(selectedTrial.id)}>Submit for Review</button>
+                )}
+                {isProposer(selectedTrial) && (selectedTrial.status === "draft" || selectedTrial.status === "review") && (
+                  <button className="secondary-btn" onClick={() => withdrawTrial(selectedTrial.id)}>Withdraw</button>
+                )}
+                {isReviewer && selectedTrial.status === "review" && (
+                  <>
+                    <button className="approve-btn" onClick={() => startVoting(selectedTrial.id)}>Start Voting</button>
+                    <button className="reject-btn" onClick={() => rejectTrial(selectedTrial.id)}>Reject</button>
+                  </>
+                )}
+                {votingOpen(selectedTrial) && isMember && !hasVotedSelected && (
+                  <>
+                    <button className="vote-btn" onClick={() => voteForTrial(selectedTrial.id, true)}>Vote Yes</button>
+                    <button className="reject-btn" onClick={() => voteForTrial(selectedTrial.id, false)}>Vote No</button>
                   </>
                 )}
+                {selectedTrial.status === "voting" && !votingOpen(selectedTrial) && !selectedTrial.tally && (
+                  <button className="decrypt-btn" onClick={() => revealTally(selectedTrial.id)}>Reveal Tally</button>
+                )}
+                {hasVaultRecord && selectedTrial.status === "approved" && !sharedSelected && trialConsent?.active && (
+                  <button className="secondary-btn" onClick={() => shareRecord(selectedTrial.id)}>Share My Record</button>
+                )}
+                {isReviewer && selectedTrial.status === "voting" && selectedTrial.tally && (
+                  <button className="approve-btn" onClick={() => finalizeTrial(selectedTrial.id)}>Finalize</button>
+                )}
               </div>
             </div>
           </div>
@@ -0,0 +1,32 @@
+import React, { useState } from 'react';
+import { isContentURI, openContent } from '../content';
+
+interface DocumentLinkProps {
+  uri: string;
+}
+
+// `ipfs://` documents open from a copy checked against their CID; other URIs are plain links.
+export default function DocumentLink({ uri }: DocumentLinkProps) {
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isContentURI(uri)) {
+    return <a href={uri} target="_blank" rel="noreferrer">{uri}</a>;
+  }
+
+  const open = async (e: React.MouseEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      await openContent(uri);
+    } catch (err: any) {
+      setError(err.message ?? String(err));
+    }
+  };
+
+  return (
+    <>
+      <a href={uri} onClick={open}>{uri}</a>
+      {error && <span className="content-error"> {error}</span>}
+    </>
+  );
+}
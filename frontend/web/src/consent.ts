@@ -0,0 +1,121 @@
+// consent.ts
+import { ethers } from "ethers";
+import type { ConsentRegistry } from "./contract";
+import { getConsentRegistryWithSigner, getSigner } from "./contract";
+
+// Matches ConsentRegistry.CONSENT_TYPEHASH.
+const CONSENT_TYPES = {
+  Consent: [
+    { name: "patient", type: "address" },
+    { name: "trialId", type: "uint256" },
+    { name: "version", type: "uint256" },
+    { name: "documentHash", type: "bytes32" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+const SIGNATURE_TTL_SECONDS = 60 * 60;
+
+export interface ConsentDocument {
+  version: number;
+  documentHash: string;
+  uri: string;
+  reconsentRequired: boolean;
+  publishedAt: number;
+}
+
+export interface TrialConsentState {
+  documents: ConsentDocument[];
+  // Zero if the patient never consented.
+  consentedVersion: number;
+  withdrawnAt: number;
+  active: boolean;
+}
+
+export interface ConsentEntry {
+  trialId: number;
+  version: number;
+  latestVersion: number;
+  document: ConsentDocument;
+  givenAt: number;
+  withdrawnAt: number;
+  active: boolean;
+}
+
+const toDocument = (document: ConsentRegistry.ConsentDocumentStructOutput, index: number): ConsentDocument => ({
+  version: index + 1,
+  documentHash: document.documentHash,
+  uri: document.uri,
+  reconsentRequired: document.reconsentRequired,
+  publishedAt: Number(document.publishedAt),
+});
+
+export async function loadTrialConsent(registry: ConsentRegistry, trialId: number, patient: string | undefined): Promise<TrialConsentState> {
+  const [documents, consent, active] = await Promise.all([
+    registry.getDocuments(trialId),
+    patient ? registry.consents(trialId, patient) : null,
+    patient ? registry.hasActiveConsent(patient, trialId) : false,
+  ]);
+  return {
+    documents: documents.map(toDocument),
+    consentedVersion: consent ? Number(consent.version) : 0,
+    withdrawnAt: consent ? Number(consent.withdrawnAt) : 0,
+    active,
+  };
+}
+
+// Everything the patient has agreed to, withdrawn and superseded consents included.
+export async function loadPatientConsents(registry: ConsentRegistry, patient: string): Promise<ConsentEntry[]> {
+  const trialIds = await registry.getConsentedTrials(patient);
+  return Promise.all(trialIds.map(async trialId => {
+    const [consent, latestVersion, active] = await Promise.all([
+      registry.consents(trialId, patient),
+      registry.latestVersion(trialId),
+      registry.hasActiveConsent(patient, trialId),
+    ]);
+    const document = await registry.getDocument(trialId, consent.version);
+    return {
+      trialId: Number(trialId),
+      version: Number(consent.version),
+      latestVersion: Number(latestVersion),
+      document: toDocument(document, Number(consent.version) - 1),
+      givenAt: Number(consent.givenAt),
+      withdrawnAt: Number(consent.withdrawnAt),
+      active,
+    };
+  }));
+}
+
+// Hashes the document file exactly as the SDK does, so patients can check what they sign.
+export async function hashDocumentFile(file: File): Promise<string> {
+  return ethers.keccak256(new Uint8Array(await file.arrayBuffer()));
+}
+
+export async function publishConsentDocument(trialId: number, documentHash: string, uri: string, reconsentRequired: boolean) {
+  return (await getConsentRegistryWithSigner()).publishDocument(trialId, documentHash, uri, reconsentRequired);
+}
+
+// The wallet signs the EIP-712 consent, then submits it itself.
+export async function signAndGiveConsent(trialId: number, version: number) {
+  const [registry, signer] = await Promise.all([getConsentRegistryWithSigner(), getSigner()]);
+  const patient = await signer.getAddress();
+  const [document, nonce, domain, latest] = await Promise.all([
+    registry.getDocument(trialId, version),
+    registry.nonces(patient),
+    registry.eip712Domain(),
+    signer.provider.getBlock("latest"),
+  ]);
+  const deadline = (latest?.timestamp ?? Math.floor(Date.now() / 1000)) + SIGNATURE_TTL_SECONDS;
+  const signature = await signer.signTypedData(
+    { name: domain.name, version: domain.version, chainId: domain.chainId, verifyingContract: domain.verifyingContract },
+    CONSENT_TYPES,
+    { patient, trialId, version, documentHash: document.documentHash, nonce, deadline }
+  );
+  return registry.giveConsent(patient, trialId, version, deadline, signature);
+}
+
+// Also revokes the trial's access to the patient's record.
+export async function withdrawConsent(trialId: number) {
+  return (await getConsentRegistryWithSigner()).withdrawConsent(trialId);
+}
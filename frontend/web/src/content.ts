@@ -0,0 +1,126 @@
+// content.ts
+import { ethers } from "ethers";
+
+// Local content server started with `npm run content`, standing in for an IPFS node. Reads
+// fall back to a public gateway; either way the bytes are hashed again before use.
+export const CONTENT_URL = "http://127.0.0.1:4001";
+const IPFS_GATEWAY = "https://ipfs.io";
+export const CONTENT_URI_PREFIX = "ipfs://";
+
+const REQUEST_TIMEOUT_MS = 15000;
+
+// Match src/content/cid.ts: the layout of `ipfs add --cid-version=1`.
+const CHUNK_SIZE = 256 * 1024;
+const MAX_LINKS = 174;
+const CODEC_RAW = 0x55;
+const CODEC_DAG_PB = 0x70;
+const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+
+export class ContentIntegrityError extends Error {
+  constructor(expected: string, actual: string) {
+    super(`Content does not match its CID: expected ${expected}, got ${actual}`);
+    this.name = "ContentIntegrityError";
+  }
+}
+
+interface DagNode {
+  cid: Uint8Array;
+  fileSize: number;
+  treeSize: number;
+}
+
+const varint = (value: number): number[] => {
+  const bytes: number[] = [];
+  for (; value >= 0x80; value = Math.floor(value / 0x80)) bytes.push((value % 0x80) | 0x80);
+  bytes.push(value);
+  return bytes;
+};
+
+const lengthDelimited = (tag: number, bytes: Uint8Array | number[]) => [tag, ...varint(bytes.length), ...bytes];
+
+const cidOf = (codec: number, block: Uint8Array) => Uint8Array.from([1, codec, 0x12, 32, ...ethers.getBytes(ethers.sha256(block))]);
+
+const base32 = (bytes: Uint8Array) => {
+  let output = "", buffer = 0, bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    for (bits += 8; bits >= 5; bits -= 5) output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+    buffer &= (1 << bits) - 1;
+  }
+  return bits > 0 ? output + BASE32_ALPHABET[(buffer << (5 - bits)) & 31] : output;
+};
+
+// A dag-pb node with UnixFS file data, links first.
+const fileNode = (children: DagNode[]): DagNode => {
+  const fileSize = children.reduce((sum, child) => sum + child.fileSize, 0);
+  const data = [0x08, 2, 0x18, ...varint(fileSize), ...children.flatMap(child => [0x20, ...varint(child.fileSize)])];
+  const block = Uint8Array.from([
+    ...children.flatMap(child => lengthDelimited(0x12, [...lengthDelimited(0x0a, child.cid), 0x12, 0, 0x18, ...varint(child.treeSize)])),
+    ...lengthDelimited(0x0a, data),
+  ]);
+  return { cid: cidOf(CODEC_DAG_PB, block), fileSize, treeSize: block.length + children.reduce((sum, child) => sum + child.treeSize, 0) };
+};
+
+export function computeCid(content: Uint8Array): string {
+  let layer: DagNode[] = [];
+  for (let offset = 0; offset < Math.max(content.length, 1); offset += CHUNK_SIZE) {
+    const chunk = content.subarray(offset, offset + CHUNK_SIZE);
+    layer.push({ cid: cidOf(CODEC_RAW, chunk), fileSize: chunk.length, treeSize: chunk.length });
+  }
+  while (layer.length > 1) {
+    const parents: DagNode[] = [];
+    for (let i = 0; i < layer.length; i += MAX_LINKS) parents.push(fileNode(layer.slice(i, i + MAX_LINKS)));
+    layer = parents;
+  }
+  return "b" + base32(layer[0].cid);
+}
+
+export const isContentURI = (uri: string) => uri.startsWith(CONTENT_URI_PREFIX);
+
+const cidOfURI = (uri: string) => uri.slice(CONTENT_URI_PREFIX.length).split("/")[0];
+
+// Stores the bytes on the content server and returns the `ipfs://` URI to anchor on-chain.
+export async function uploadContent(content: Uint8Array | string): Promise<string> {
+  const bytes = typeof content === "string" ? ethers.toUtf8Bytes(content) : content;
+  const cid = computeCid(bytes);
+  const response = await fetch(`${CONTENT_URL}/content`, {
+    method: "POST",
+    headers: { "Content-Type": "application/octet-stream" },
+    body: new Uint8Array(bytes),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  if (!response.ok) throw new Error(`Content upload failed with ${response.status}, is \`npm run content\` running?`);
+  const result: { cid: string } = await response.json();
+  if (result.cid !== cid) throw new ContentIntegrityError(cid, result.cid);
+  return CONTENT_URI_PREFIX + cid;
+}
+
+export const uploadFile = async (file: File) => uploadContent(new Uint8Array(await file.arrayBuffer()));
+
+// Loads an `ipfs://` URI from the content server, or the public gateway when the server does not
+// have it, and only returns bytes that hash to the URI's CID.
+export async function fetchContent(uri: string): Promise<Uint8Array> {
+  const cid = cidOfURI(uri);
+  let lastError: unknown = new Error(`Invalid content URI ${uri}`);
+  for (const base of [CONTENT_URL, IPFS_GATEWAY]) {
+    try {
+      const response = await fetch(`${base}/ipfs/${cid}`, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+      if (!response.ok) throw new Error(`Content request failed with ${response.status}`);
+      const content = new Uint8Array(await response.arrayBuffer());
+      const actual = computeCid(content);
+      if (actual !== cid) throw new ContentIntegrityError(cid, actual);
+      return content;
+    } catch (e) {
+      // A mismatch matters more than the gateway being unreachable afterwards.
+      if (!(lastError instanceof ContentIntegrityError)) lastError = e;
+    }
+  }
+  throw lastError;
+}
+
+// Opens a verified copy of the document in a new tab.
+export async function openContent(uri: string, type = "application/pdf"): Promise<void> {
+  const url = URL.createObjectURL(new Blob([new Uint8Array(await fetchContent(uri))], { type }));
+  window.open(url, "_blank", "noopener");
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+}
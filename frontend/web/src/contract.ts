@@ -1,10 +1,52 @@
 // contract.ts
 import { ethers } from "ethers";
-import abiJson from "./abi/UniversalAdapter.json";
-import configJson from "./config.json";
+import type { ConsentRegistry, ParticipationRewards, PatientDAOFHE, PatientRecordVault, TrialEligibility, TrialMilestones, TrialTreasury } from "../../../types";
+import abiJson from "./abi/PatientDAOFHE.json";
+import vaultAbiJson from "./abi/PatientRecordVault.json";
+import eligibilityAbiJson from "./abi/TrialEligibility.json";
+import consentAbiJson from "./abi/ConsentRegistry.json";
+import treasuryAbiJson from "./abi/TrialTreasury.json";
+import milestonesAbiJson from "./abi/TrialMilestones.json";
+import rewardsAbiJson from "./abi/ParticipationRewards.json";
+import deploymentsJson from "./deployments.json";
+
+export type { ConsentRegistry, ParticipationRewards, PatientDAOFHE, PatientRecordVault, TrialEligibility, TrialMilestones, TrialTreasury };
 
 export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
+
+// Chain the app reads from when no wallet is injected.
+export const DEFAULT_CHAIN_ID = 11155111;
+
+export type ContractName = "PatientDAOFHE" | "PatientRecordVault" | "TrialEligibility" | "ConsentRegistry" | "TrialTreasury" | "TrialMilestones" | "ParticipationRewards";
+
+export interface ContractDeployment {
+  address: string;
+  abiHash: string;
+  deployBlock: number;
+  deployer: string;
+}
+
+export interface NetworkDeployments {
+  name: string;
+  rpcUrl?: string;
+  contracts: Partial<Record<ContractName, ContractDeployment>>;
+}
+
+// Written by the deploy scripts, keyed by decimal chain id.
+export const deployments = deploymentsJson as Record<string, NetworkDeployments>;
+
+const ABIS: Record<ContractName, any> = {
+  PatientDAOFHE: ABI,
+  PatientRecordVault: (vaultAbiJson as any).abi,
+  TrialEligibility: (eligibilityAbiJson as any).abi,
+  ConsentRegistry: (consentAbiJson as any).abi,
+  TrialTreasury: (treasuryAbiJson as any).abi,
+  TrialMilestones: (milestonesAbiJson as any).abi,
+  ParticipationRewards: (rewardsAbiJson as any).abi,
+};
+
+// Must match abiHash() in the deploy scripts.
+export const abiHash = (abi: any) => ethers.id(JSON.stringify(abi));
 
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
@@ -18,67 +60,124 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
-    try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      return provider;
-    } catch (error) {
-    }
+export async function getActiveChainId(): Promise<number> {
+  if (!window.ethereum) return DEFAULT_CHAIN_ID;
+  const chainIdHex = await window.ethereum.request({ method: "eth_chainId" });
+  return parseInt(chainIdHex, 16);
+}
+
+export function getDeployment(chainId: number, name: ContractName): ContractDeployment | null {
+  const deployment = deployments[String(chainId)]?.contracts[name];
+  if (!deployment) return null;
+  if (deployment.abiHash !== abiHash(ABIS[name])) {
+    console.warn(`${name} on chain ${chainId} was deployed with a different ABI than the one bundled`);
   }
-  
-  throw new Error("All RPC providers failed");
+  return deployment;
+}
+
+// Reads go through the wallet when there is one so they follow its chain;
+// otherwise the public endpoint recorded for the default chain is used.
+const getReadProvider = (chainId: number): ethers.Provider => {
+  if (window.ethereum) return new ethers.BrowserProvider(window.ethereum);
+  const rpcUrl = deployments[String(chainId)]?.rpcUrl;
+  if (!rpcUrl) throw new Error(`No RPC endpoint registered for chain ${chainId}`);
+  return new ethers.JsonRpcProvider(rpcUrl, chainId, { staticNetwork: true });
 };
 
-export async function getContractReadOnly() {
+const getReadOnly = async (name: ContractName) => {
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
-    
-    const code = await retry(() => provider.getCode(config.contractAddress));
+    const chainId = await getActiveChainId();
+    const deployment = getDeployment(chainId, name);
+    if (!deployment) return null;
+
+    const provider = getReadProvider(chainId);
+    const code = await retry(() => provider.getCode(deployment.address));
     if (code === "0x") {
       return null;
     }
-    
-    return contract;
+
+    return new ethers.Contract(deployment.address, ABIS[name], provider);
   } catch (error) {
     console.error("Failed to create read-only contract:", error);
     return null;
   }
+};
+
+export async function getContractReadOnly(): Promise<PatientDAOFHE | null> {
+  return (await getReadOnly("PatientDAOFHE")) as unknown as PatientDAOFHE | null;
 }
 
-export async function getContractWithSigner() {
-  if (!(window as any).ethereum) {
+export async function getSigner() {
+  if (!window.ethereum) {
     throw new Error("No injected wallet");
   }
+  const provider = new ethers.BrowserProvider(window.ethereum);
+  return provider.getSigner();
+}
+
+const getWithSigner = async (name: ContractName) => {
   try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
-    const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
-    return contract;
+    const signer = await getSigner();
+    const { chainId } = await signer.provider.getNetwork();
+    const deployment = getDeployment(Number(chainId), name);
+    if (!deployment) throw new Error(`${name} is not deployed on chain ${chainId}`);
+    return new ethers.Contract(deployment.address, ABIS[name], signer);
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
     throw error;
   }
+};
+
+export async function getContractWithSigner(): Promise<PatientDAOFHE> {
+  return (await getWithSigner("PatientDAOFHE")) as unknown as PatientDAOFHE;
+}
+
+export async function getRecordVaultReadOnly(): Promise<PatientRecordVault | null> {
+  return (await getReadOnly("PatientRecordVault")) as unknown as PatientRecordVault | null;
+}
+
+export async function getRecordVaultWithSigner(): Promise<PatientRecordVault> {
+  return (await getWithSigner("PatientRecordVault")) as unknown as PatientRecordVault;
+}
+
+export async function getEligibilityReadOnly(): Promise<TrialEligibility | null> {
+  return (await getReadOnly("TrialEligibility")) as unknown as TrialEligibility | null;
+}
+
+export async function getEligibilityWithSigner(): Promise<TrialEligibility> {
+  return (await getWithSigner("TrialEligibility")) as unknown as TrialEligibility;
+}
+
+export async function getConsentRegistryReadOnly(): Promise<ConsentRegistry | null> {
+  return (await getReadOnly("ConsentRegistry")) as unknown as ConsentRegistry | null;
+}
+
+export async function getConsentRegistryWithSigner(): Promise<ConsentRegistry> {
+  return (await getWithSigner("ConsentRegistry")) as unknown as ConsentRegistry;
+}
+
+export async function getTreasuryReadOnly(): Promise<TrialTreasury | null> {
+  return (await getReadOnly("TrialTreasury")) as unknown as TrialTreasury | null;
+}
+
+export async function getTreasuryWithSigner(): Promise<TrialTreasury> {
+  return (await getWithSigner("TrialTreasury")) as unknown as TrialTreasury;
+}
+
+export async function getMilestonesReadOnly(): Promise<TrialMilestones | null> {
+  return (await getReadOnly("TrialMilestones")) as unknown as TrialMilestones | null;
+}
+
+export async function getMilestonesWithSigner(): Promise<TrialMilestones> {
+  return (await getWithSigner("TrialMilestones")) as unknown as TrialMilestones;
+}
+
+export async function getRewardsReadOnly(): Promise<ParticipationRewards | null> {
+  return (await getReadOnly("ParticipationRewards")) as unknown as ParticipationRewards | null;
+}
+
+export async function getRewardsWithSigner(): Promise<ParticipationRewards> {
+  return (await getWithSigner("ParticipationRewards")) as unknown as ParticipationRewards;
 }
 
 export function normAddr(a: string) { 
@@ -0,0 +1,169 @@
+// discussion.ts
+import { ethers } from "ethers";
+import type { PatientDAOFHE } from "./contract";
+import { getSigner } from "./contract";
+import { INDEXER_URL } from "./indexer";
+
+// Match COMMENT_TYPES and MODERATION_TYPES in src/discussion.ts, which the indexer verifies with.
+const COMMENT_TYPES = {
+  Comment: [
+    { name: "proposalId", type: "uint256" },
+    { name: "parentId", type: "bytes32" },
+    { name: "author", type: "address" },
+    { name: "body", type: "string" },
+    { name: "createdAt", type: "uint256" },
+  ],
+};
+
+const MODERATION_TYPES = {
+  Moderation: [
+    { name: "proposalId", type: "uint256" },
+    { name: "commentId", type: "bytes32" },
+    { name: "hidden", type: "bool" },
+    { name: "moderator", type: "address" },
+    { name: "createdAt", type: "uint256" },
+  ],
+};
+
+export const MAX_COMMENT_LENGTH = 2000;
+
+const REQUEST_TIMEOUT_MS = 4000;
+
+export interface SignedComment {
+  proposalId: string;
+  parentId: string;
+  author: string;
+  body: string;
+  createdAt: number;
+  signature: string;
+}
+
+export interface SignedModeration {
+  proposalId: string;
+  commentId: string;
+  hidden: boolean;
+  moderator: string;
+  createdAt: number;
+  signature: string;
+}
+
+export type AuthorBadge = "proposer" | "reviewer" | "member";
+
+export interface CommentNode {
+  id: string;
+  comment: SignedComment;
+  badges: AuthorBadge[];
+  hidden: boolean;
+  replies: CommentNode[];
+}
+
+// The signed fields, without the signature itself.
+const commentMessage = (c: SignedComment) => ({ proposalId: c.proposalId, parentId: c.parentId, author: c.author, body: c.body, createdAt: c.createdAt });
+const moderationMessage = (m: SignedModeration) => ({ proposalId: m.proposalId, commentId: m.commentId, hidden: m.hidden, moderator: m.moderator, createdAt: m.createdAt });
+
+const discussionDomain = async (dao: PatientDAOFHE): Promise<ethers.TypedDataDomain> => {
+  const [network, address] = await Promise.all([dao.runner!.provider!.getNetwork(), dao.getAddress()]);
+  return { name: "PatientDAO Discussion", version: "1", chainId: network.chainId, verifyingContract: address };
+};
+
+const request = async <T>(path: string, body?: unknown): Promise<T> => {
+  const response = await fetch(INDEXER_URL + path, {
+    method: body === undefined ? "GET" : "POST",
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  const result = await response.json();
+  if (!response.ok) throw new Error(result.error ?? `Indexer request failed with ${response.status}`);
+  return result;
+};
+
+const signerMatches = (recover: () => string, claimed: string) => {
+  try {
+    return recover().toLowerCase() === claimed.toLowerCase();
+  } catch {
+    return false;
+  }
+};
+
+// The indexer stores the discussion but is not trusted with it: every signature is checked
+// again here, and moderation only counts when signed by the current DAO owner. Returns null
+// when the indexer is not running.
+export async function loadDiscussion(dao: PatientDAOFHE, proposalId: number): Promise<CommentNode[] | null> {
+  let comments: SignedComment[], moderations: SignedModeration[];
+  try {
+    [comments, moderations] = await Promise.all([
+      request<SignedComment[]>(`/proposals/${proposalId}/comments`),
+      request<SignedModeration[]>(`/proposals/${proposalId}/moderations`),
+    ]);
+  } catch (e) {
+    console.warn("Discussion unavailable:", e);
+    return null;
+  }
+  const [domain, owner, proposal] = await Promise.all([discussionDomain(dao), dao.owner(), dao.getProposal(proposalId)]);
+
+  const hidden = new Map<string, boolean>();
+  moderations
+    .filter(m => m.proposalId === String(proposalId) && m.moderator.toLowerCase() === owner.toLowerCase()
+      && signerMatches(() => ethers.verifyTypedData(domain, MODERATION_TYPES, moderationMessage(m), m.signature), m.moderator))
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .forEach(m => hidden.set(m.commentId, m.hidden));
+
+  const verified = comments
+    .filter(c => c.proposalId === String(proposalId) && c.body.length <= MAX_COMMENT_LENGTH
+      && signerMatches(() => ethers.verifyTypedData(domain, COMMENT_TYPES, commentMessage(c), c.signature), c.author))
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+  const authors = [...new Set(verified.map(c => ethers.getAddress(c.author)))];
+  const roles = await Promise.all(authors.map(author => Promise.all([dao.isReviewer(author), dao.isMember(author)])));
+  const badges = new Map(authors.map((author, i): [string, AuthorBadge[]] => {
+    const [isReviewer, isMember] = roles[i];
+    return [author, [
+      ...(author === proposal.proposer ? ["proposer" as const] : []),
+      ...(isReviewer ? ["reviewer" as const] : []),
+      ...(isMember ? ["member" as const] : []),
+    ]];
+  }));
+
+  const nodes = new Map<string, CommentNode>();
+  for (const comment of verified) {
+    const id = ethers.TypedDataEncoder.hash(domain, COMMENT_TYPES, commentMessage(comment));
+    nodes.set(id, { id, comment, badges: badges.get(ethers.getAddress(comment.author)) ?? [], hidden: hidden.get(id) ?? false, replies: [] });
+  }
+  // Replies to a comment that did not verify become threads of their own.
+  const threads: CommentNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = nodes.get(node.comment.parentId);
+    (parent && parent !== node ? parent.replies : threads).push(node);
+  }
+  return threads;
+}
+
+export async function postComment(dao: PatientDAOFHE, proposalId: number, body: string, parentId: string = ethers.ZeroHash): Promise<void> {
+  const signer = await getSigner();
+  const comment: SignedComment = {
+    proposalId: String(proposalId),
+    parentId,
+    author: await signer.getAddress(),
+    body,
+    createdAt: Math.floor(Date.now() / 1000),
+    signature: "",
+  };
+  comment.signature = await signer.signTypedData(await discussionDomain(dao), COMMENT_TYPES, commentMessage(comment));
+  await request(`/proposals/${proposalId}/comments`, comment);
+}
+
+// Signed by the connected account, which has to own the DAO for clients to apply it.
+export async function moderateComment(dao: PatientDAOFHE, proposalId: number, commentId: string, hide: boolean): Promise<void> {
+  const signer = await getSigner();
+  const moderation: SignedModeration = {
+    proposalId: String(proposalId),
+    commentId,
+    hidden: hide,
+    moderator: await signer.getAddress(),
+    createdAt: Math.floor(Date.now() / 1000),
+    signature: "",
+  };
+  moderation.signature = await signer.signTypedData(await discussionDomain(dao), MODERATION_TYPES, moderationMessage(moderation));
+  await request(`/proposals/${proposalId}/moderations`, moderation);
+}
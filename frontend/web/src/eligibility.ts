@@ -0,0 +1,39 @@
+// eligibility.ts
+import { ethers } from "ethers";
+import type { TrialEligibility } from "./contract";
+import { getEligibilityWithSigner, getRecordVaultWithSigner, getSigner } from "./contract";
+import { userDecrypt } from "./fhe";
+
+export interface EligibilityState {
+  // Zero until the trial's proposer publishes criteria.
+  criteriaUpdatedAt: number;
+  // Zero until the patient has checked; a check predating the criteria is stale.
+  checkedAt: number;
+  resultHandle: string;
+}
+
+export async function loadEligibilityState(eligibility: TrialEligibility, trialId: number, patient: string): Promise<EligibilityState> {
+  const [criteriaUpdatedAt, checkedAt, resultHandle] = await Promise.all([
+    eligibility.criteriaUpdatedAt(trialId),
+    eligibility.checkedAt(trialId, patient),
+    eligibility.getEligibility(trialId, patient),
+  ]);
+  return { criteriaUpdatedAt: Number(criteriaUpdatedAt), checkedAt: Number(checkedAt), resultHandle };
+}
+
+// Lets the eligibility contract compute on the patient's record if they have
+// not yet, then checks it against the trial's criteria.
+export async function runEligibilityCheck(trialId: number, patient: string) {
+  const [vault, eligibility] = await Promise.all([getRecordVaultWithSigner(), getEligibilityWithSigner()]);
+  const evaluator = await eligibility.getAddress();
+  if (!await vault.isEvaluator(patient, evaluator)) {
+    await (await vault.allowEvaluator(evaluator)).wait();
+  }
+  return eligibility.checkEligibility(trialId);
+}
+
+export async function decryptEligibility(eligibility: TrialEligibility, state: EligibilityState): Promise<boolean | null> {
+  if (state.resultHandle === ethers.ZeroHash) return null;
+  const values = await userDecrypt([state.resultHandle], await eligibility.getAddress(), await getSigner());
+  return values[state.resultHandle] !== 0n;
+}
@@ -0,0 +1,150 @@
+// fhe.ts
+import { ethers } from "ethers";
+import type { FhevmInstance, HandleContractPair } from "@zama-fhe/relayer-sdk/bundle";
+
+export const LOCAL_CHAIN_ID = 31337;
+export const LOCAL_RPC_URL = "http://127.0.0.1:8545";
+
+// Same values the @fhevm/hardhat-plugin mock node is started with.
+const MOCK_GATEWAY_CHAIN_ID = 55815;
+const MOCK_DECRYPTION_ADDRESS = "0x5ffdaAB0373E62E2ea2944776209aEf29E631A64";
+const MOCK_INPUT_VERIFICATION_ADDRESS = "0x812b06e1CDCE800494b79fFE4f925A504a9A9810";
+
+const USER_DECRYPT_DURATION_DAYS = 10;
+
+export interface EncryptedInput {
+  handle: string;
+  inputProof: string;
+}
+
+export interface EncryptedInputs {
+  handles: string[];
+  inputProof: string;
+}
+
+const instances = new Map<number, Promise<FhevmInstance>>();
+
+const getWalletChainId = async (): Promise<number> => {
+  if (!window.ethereum) throw new Error("No injected wallet");
+  const chainIdHex = await window.ethereum.request({ method: "eth_chainId" });
+  return parseInt(chainIdHex, 16);
+};
+
+// On a local hardhat node the plugin exposes the relayer over JSON-RPC, so the
+// mock instance encrypts and decrypts without any network access.
+const createMockInstance = async (): Promise<FhevmInstance> => {
+  const { MockFhevmInstance } = await import("@fhevm/mock-utils");
+  const provider = new ethers.JsonRpcProvider(LOCAL_RPC_URL);
+  const metadata = await provider.send("fhevm_relayer_metadata", []);
+  return MockFhevmInstance.create(provider, provider, {
+    aclContractAddress: metadata.ACLAddress,
+    chainId: LOCAL_CHAIN_ID,
+    gatewayChainId: MOCK_GATEWAY_CHAIN_ID,
+    inputVerifierContractAddress: metadata.InputVerifierAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress,
+    verifyingContractAddressDecryption: MOCK_DECRYPTION_ADDRESS,
+    verifyingContractAddressInputVerification: MOCK_INPUT_VERIFICATION_ADDRESS,
+  });
+};
+
+// The bundle entry re-exports window.relayerSDK, loaded by index.html, since the
+// wasm workers in the web entry cannot be bundled by vite. Sepolia is the only
+// network the SDK has a config for; elsewhere its contracts do not exist.
+const createRelayerInstance = async (chainId: number): Promise<FhevmInstance> => {
+  const { initSDK, createInstance, SepoliaConfig } = await import("@zama-fhe/relayer-sdk/bundle");
+  if (chainId !== SepoliaConfig.chainId) {
+    throw new Error(`FHE encryption is not available on chain ${chainId}, switch to Sepolia or a local Hardhat node`);
+  }
+  await initSDK();
+  return createInstance({ ...SepoliaConfig, network: window.ethereum });
+};
+
+export async function getFhevmInstance(chainId?: number): Promise<FhevmInstance> {
+  const id = chainId ?? await getWalletChainId();
+  let instance = instances.get(id);
+  if (!instance) {
+    instance = id === LOCAL_CHAIN_ID ? createMockInstance() : createRelayerInstance(id);
+    instance.catch(() => instances.delete(id));
+    instances.set(id, instance);
+  }
+  return instance;
+}
+
+type EncryptedInputBuilder = ReturnType<FhevmInstance["createEncryptedInput"]>;
+
+const encryptInput = async (contractAddress: string, userAddress: string, fill: (input: EncryptedInputBuilder) => void): Promise<EncryptedInputs> => {
+  const instance = await getFhevmInstance();
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  fill(input);
+  const { handles, inputProof } = await input.encrypt();
+  return { handles: handles.map(h => ethers.hexlify(h)), inputProof: ethers.hexlify(inputProof) };
+};
+
+export async function encryptUint32s(contractAddress: string, userAddress: string, values: (number | bigint)[]): Promise<EncryptedInputs> {
+  return encryptInput(contractAddress, userAddress, input => { for (const value of values) input.add32(value); });
+}
+
+export async function encryptUint32(contractAddress: string, userAddress: string, value: number | bigint): Promise<EncryptedInput> {
+  const { handles, inputProof } = await encryptUint32s(contractAddress, userAddress, [value]);
+  return { handle: handles[0], inputProof };
+}
+
+// Encrypts each value as the euint of its bit width, in order.
+export async function encryptUints(contractAddress: string, userAddress: string, values: { bits: 8 | 32 | 64; value: number | bigint }[]): Promise<EncryptedInputs> {
+  return encryptInput(contractAddress, userAddress, input => {
+    for (const { bits, value } of values) {
+      if (bits === 8) input.add8(value);
+      else if (bits === 32) input.add32(value);
+      else input.add64(value);
+    }
+  });
+}
+
+export async function encryptUint64(contractAddress: string, userAddress: string, value: number | bigint): Promise<EncryptedInput> {
+  const { handles, inputProof } = await encryptInput(contractAddress, userAddress, input => { input.add64(value); });
+  return { handle: handles[0], inputProof };
+}
+
+export async function encryptBool(contractAddress: string, userAddress: string, value: boolean): Promise<EncryptedInput> {
+  const { handles, inputProof } = await encryptInput(contractAddress, userAddress, input => { input.addBool(value); });
+  return { handle: handles[0], inputProof };
+}
+
+// Runs the EIP-712 user decryption flow: a throwaway keypair is authorised by
+// the wallet signature and the relayer re-encrypts each handle under it.
+export async function userDecrypt(handles: string[], contractAddress: string, signer: ethers.Signer): Promise<Record<string, bigint>> {
+  const instance = await getFhevmInstance();
+  const userAddress = await signer.getAddress();
+  const { publicKey, privateKey } = instance.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const contractAddresses = [contractAddress];
+
+  const eip712 = instance.createEIP712(publicKey, contractAddresses, startTimestamp, USER_DECRYPT_DURATION_DAYS);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+
+  const pairs: HandleContractPair[] = handles.map(handle => ({ handle, contractAddress }));
+  const results = await instance.userDecrypt(
+    pairs,
+    privateKey,
+    publicKey,
+    signature.replace("0x", ""),
+    contractAddresses,
+    userAddress,
+    startTimestamp,
+    USER_DECRYPT_DURATION_DAYS
+  );
+
+  const values: Record<string, bigint> = {};
+  for (const handle of handles) values[handle] = BigInt(results[handle] as bigint | string);
+  return values;
+}
+
+export async function userDecryptUint(handle: string, contractAddress: string, signer: ethers.Signer): Promise<bigint> {
+  if (handle === ethers.ZeroHash) return 0n;
+  const values = await userDecrypt([handle], contractAddress, signer);
+  return values[handle];
+}
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\frontend\web\src\global\responsive-test-dynamic\build-api-report.go
-// Generated at: 2025-10-20T08:12:54.148Z
\ No newline at end of file
@@ -1,14 +0,0 @@
-// SPDX-License-Identifier: MIT
-pragma solidity ^0.8.0;
-
-contract mutations-adapter {
-    address public owner;
-    
-    constructor() {
-        owner = msg.sender;
-    }
-    
-    function dummy() public pure returns (uint256) {
-        return 42;
-    }
-}
\ No newline at end of file
@@ -0,0 +1,55 @@
+// indexer.ts
+import type { PatientDAOFHE } from "./contract";
+
+// Local event indexer started with `npm run indexer`. When it is not running, or
+// indexes another contract, callers fall back to scanning logs over RPC.
+export const INDEXER_URL = "http://127.0.0.1:4000";
+
+const REQUEST_TIMEOUT_MS = 2000;
+
+export interface IndexedEvent {
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  contract: string;
+  name: string;
+  args: Record<string, string>;
+  timestamp: number;
+}
+
+interface IndexerHealth {
+  chainId: number;
+  address: string;
+  cursor: number | null;
+}
+
+const get = async <T>(path: string): Promise<T> => {
+  const response = await fetch(INDEXER_URL + path, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  if (!response.ok) throw new Error(`Indexer request failed with ${response.status}`);
+  return response.json();
+};
+
+const isIndexing = async (dao: PatientDAOFHE): Promise<boolean> => {
+  try {
+    const [health, address, network] = await Promise.all([
+      get<IndexerHealth>("/health"),
+      dao.getAddress(),
+      dao.runner!.provider!.getNetwork(),
+    ]);
+    return health.chainId === Number(network.chainId) && health.address.toLowerCase() === address.toLowerCase();
+  } catch {
+    return false;
+  }
+};
+
+// Returns null when the indexer cannot serve this contract.
+export async function fetchIndexedEvents(dao: PatientDAOFHE, path: string): Promise<IndexedEvent[] | null> {
+  if (!await isIndexing(dao)) return null;
+  try {
+    return await get<IndexedEvent[]>(path);
+  } catch (e) {
+    console.warn("Indexer unavailable, scanning logs instead:", e);
+    return null;
+  }
+}
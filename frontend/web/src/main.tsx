@@ -1,19 +1,24 @@
 import React, { useEffect, useState } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App';
+import ProviderClaim from './pages/ProviderClaim';
+import Membership from './pages/Membership';
+import Records from './pages/Records';
+import Consent from './pages/Consent';
+import Rewards from './pages/Rewards';
 import { getDefaultConfig, RainbowKitProvider, lightTheme } from '@rainbow-me/rainbowkit';
 import { WagmiConfig } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import '@rainbow-me/rainbowkit/styles.css';
-import { sepolia } from 'wagmi/chains';
-import { BrowserRouter } from 'react-router-dom';
+import { hardhat, sepolia } from 'wagmi/chains';
+import { BrowserRouter, Route, Routes } from 'react-router-dom';
 
 const projectId = '4eeb32175359e6b21f4e3ceae163ccea';
 
 const config = getDefaultConfig({
   appName: '',
   projectId: projectId,
-  chains: [sepolia],
+  chains: [sepolia, hardhat],
 });
 
 const queryClient = new QueryClient();
@@ -122,7 +127,14 @@ createRoot(document.getElementById('root')!).render(
       <WagmiConfig config={config}>
         <BrowserRouter>
           <AdaptiveThemeProvider>
-            <App />
+            <Routes>
+              <Route path="/" element={<App />} />
+              <Route path="/providers/claim" element={<ProviderClaim />} />
+              <Route path="/membership" element={<Membership />} />
+              <Route path="/records" element={<Records />} />
+              <Route path="/consent" element={<Consent />} />
+              <Route path="/rewards" element={<Rewards />} />
+            </Routes>
           </AdaptiveThemeProvider>
         </BrowserRouter>
       </WagmiConfig>
@@ -0,0 +1,55 @@
+// membership.ts
+import { ethers } from "ethers";
+import type { PatientMembershipToken } from "../../../types";
+import type { PatientDAOFHE } from "./contract";
+import { getSigner } from "./contract";
+
+// The parts of PatientMembershipToken the dashboard needs.
+const MEMBERSHIP_ABI = [
+  "function symbol() view returns (string)",
+  "function isHolder(address account) view returns (bool)",
+  "function delegates(address account) view returns (address)",
+  "function confidentialBalanceOf(address account) view returns (bytes32)",
+  "function getVotes(address account) view returns (bytes32)",
+  "function delegate(address delegatee)",
+];
+
+export interface MembershipState {
+  tokenAddress: string;
+  symbol: string;
+  isHolder: boolean;
+  delegate: string;
+  // Encrypted handles only the holder can decrypt.
+  balanceHandle: string;
+  votesHandle: string;
+}
+
+const getToken = (address: string, runner: ethers.ContractRunner | null) =>
+  new ethers.Contract(address, MEMBERSHIP_ABI, runner) as unknown as PatientMembershipToken;
+
+// Null while the DAO still gives every member one vote.
+export async function loadMembershipState(dao: PatientDAOFHE, account: string): Promise<MembershipState | null> {
+  const tokenAddress = await dao.membershipToken();
+  if (tokenAddress === ethers.ZeroAddress) return null;
+
+  const token = getToken(tokenAddress, dao.runner);
+  const [symbol, isHolder, delegate, balanceHandle, votesHandle] = await Promise.all([
+    token.symbol(),
+    token.isHolder(account),
+    token.delegates(account),
+    token.confidentialBalanceOf(account),
+    token.getVotes(account),
+  ]);
+  return { tokenAddress, symbol, isHolder, delegate, balanceHandle, votesHandle };
+}
+
+// Token holders may vote like members added by the owner.
+export async function holdsMembership(dao: PatientDAOFHE, account: string): Promise<boolean> {
+  const tokenAddress = await dao.membershipToken();
+  return tokenAddress !== ethers.ZeroAddress && await getToken(tokenAddress, dao.runner).isHolder(account);
+}
+
+export async function delegateVotes(tokenAddress: string, delegatee: string) {
+  const token = getToken(tokenAddress, await getSigner());
+  return token.delegate(delegatee);
+}
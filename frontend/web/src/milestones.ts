@@ -0,0 +1,73 @@
+// milestones.ts
+import { hashDocumentFile } from "./consent";
+import type { TrialMilestones } from "./contract";
+import { getMilestonesWithSigner } from "./contract";
+
+// Mirror TrialMilestones.MilestoneKind and MilestoneStatus.
+export const MILESTONE_KINDS = ["enrollment", "interim", "final"] as const;
+export type MilestoneKind = typeof MILESTONE_KINDS[number];
+export const MILESTONE_STATUSES = ["pending", "attested", "accepted", "disputed"] as const;
+export type MilestoneStatus = typeof MILESTONE_STATUSES[number];
+
+export const MILESTONE_KIND_LABELS: Record<MilestoneKind, string> = {
+  enrollment: "Enrollment Target",
+  interim: "Interim Analysis",
+  final: "Final Report",
+};
+
+export interface MilestoneData {
+  index: number;
+  kind: MilestoneKind;
+  description: string;
+  dueDate: number;
+  status: MilestoneStatus;
+  documentHash: string;
+  uri: string;
+  attestedAt: number;
+  reviewedAt: number;
+}
+
+export interface MilestoneProgress {
+  accepted: number;
+  total: number;
+}
+
+export const isOverdue = (milestone: MilestoneData) => milestone.status !== "accepted" && milestone.dueDate < Date.now() / 1000;
+
+export async function loadMilestones(milestones: TrialMilestones, trialId: number): Promise<MilestoneData[]> {
+  const entries = await milestones.getMilestones(trialId);
+  return entries.map((milestone, index) => ({
+    index,
+    kind: MILESTONE_KINDS[Number(milestone.kind)],
+    description: milestone.description,
+    dueDate: Number(milestone.dueDate),
+    status: MILESTONE_STATUSES[Number(milestone.status)],
+    documentHash: milestone.documentHash,
+    uri: milestone.uri,
+    attestedAt: Number(milestone.attestedAt),
+    reviewedAt: Number(milestone.reviewedAt),
+  }));
+}
+
+// Progress of each trial for the cards, keyed by trial id.
+export async function loadMilestoneProgress(milestones: TrialMilestones, trialIds: number[]): Promise<Record<number, MilestoneProgress>> {
+  const [accepted, total] = await milestones.getProgress(trialIds);
+  return Object.fromEntries(trialIds.map((trialId, i) => [trialId, { accepted: Number(accepted[i]), total: Number(total[i]) }]));
+}
+
+export async function declareMilestone(trialId: number, kind: MilestoneKind, description: string, dueDate: number) {
+  return (await getMilestonesWithSigner()).declareMilestone(trialId, MILESTONE_KINDS.indexOf(kind), description, dueDate);
+}
+
+// The deliverable is hashed like a consent document, so reviewers can check the file they are sent.
+export async function attestMilestone(trialId: number, milestoneIndex: number, file: File, uri: string) {
+  return (await getMilestonesWithSigner()).attestMilestone(trialId, milestoneIndex, await hashDocumentFile(file), uri);
+}
+
+export async function acceptMilestone(trialId: number, milestoneIndex: number) {
+  return (await getMilestonesWithSigner()).acceptMilestone(trialId, milestoneIndex);
+}
+
+export async function disputeMilestone(trialId: number, milestoneIndex: number, reason: string) {
+  return (await getMilestonesWithSigner()).disputeMilestone(trialId, milestoneIndex, reason);
+}
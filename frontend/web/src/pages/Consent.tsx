@@ -0,0 +1,132 @@
+// Consent.tsx
+import { ConnectButton } from '@rainbow-me/rainbowkit';
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { ethers } from "ethers";
+import { useAccount } from 'wagmi';
+import { getConsentRegistryReadOnly } from "../contract";
+import type { ConsentEntry } from "../consent";
+import { loadPatientConsents, signAndGiveConsent, withdrawConsent } from "../consent";
+import DocumentLink from "../components/DocumentLink";
+import "../App.css";
+
+const formatDate = (timestamp: number) => new Date(timestamp * 1000).toLocaleString();
+
+const Consent: React.FC = () => {
+  const { address, isConnected, chainId } = useAccount();
+  const [entries, setEntries] = useState<ConsentEntry[] | null>(null);
+  const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ visible: false, status: "pending", message: "" });
+
+  const loadConsents = async () => {
+    const registry = await getConsentRegistryReadOnly();
+    setEntries(registry && address ? await loadPatientConsents(registry, address) : null);
+  };
+
+  useEffect(() => {
+    loadConsents().catch(e => console.error("Error loading consents:", e));
+  }, [address, chainId]);
+
+  const runTransaction = async (pendingMessage: string, successMessage: string, failurePrefix: string, send: () => Promise<ethers.ContractTransactionResponse>) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: pendingMessage });
+    try {
+      const tx = await send();
+      await tx.wait();
+      setTransactionStatus({ visible: true, status: "success", message: successMessage });
+      await loadConsents();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      const errorMessage = e.message?.includes("user rejected transaction") ? "Transaction rejected by user" : failurePrefix + (e.shortMessage || e.message || "Unknown error");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const withdraw = (trialId: number) => runTransaction(
+    "Withdrawing consent and revoking record access...",
+    "Consent withdrawn!",
+    "Withdrawing failed: ",
+    () => withdrawConsent(trialId)
+  );
+
+  const reconsent = (entry: ConsentEntry) => runTransaction(
+    "Signing the latest consent document...",
+    "Consent recorded!",
+    "Consenting failed: ",
+    () => signAndGiveConsent(entry.trialId, entry.latestVersion)
+  );
+
+  return (
+    <div className="app-container">
+      <header className="app-header">
+        <div className="logo">
+          <h1>Patient<span>DAO</span> Trials</h1>
+          <p>My Consents</p>
+        </div>
+        <div className="header-actions">
+          <Link to="/" className="nav-link">Trials</Link>
+          <Link to="/records" className="nav-link">My Record</Link>
+          <ConnectButton accountStatus="address" chainStatus="icon" showBalance={false} />
+        </div>
+      </header>
+
+      <div className="main-content">
+        <div className="batch-panel claim-panel">
+          <div className="batch-header">
+            <h2>Informed Consent</h2>
+          </div>
+          <p>
+            Every trial you have signed a consent document for. Withdrawing consent also stops the trial reading your
+            record, and a trial that publishes a version requiring consent again only sees new records once you sign it.
+          </p>
+
+          {!isConnected ? (
+            <p className="batch-empty">Connect your wallet to see your consents</p>
+          ) : !entries ? (
+            <p className="batch-empty">The consent registry is not deployed on this network</p>
+          ) : entries.length === 0 ? (
+            <p className="batch-empty">You have not consented to any trial yet</p>
+          ) : (
+            <div className="batch-results">
+              {entries.map(entry => (
+                <div key={entry.trialId} className="batch-result consent-entry">
+                  <div className="claim-details">
+                    <span>
+                      <strong>Trial #{entry.trialId}</strong> · version {entry.version} of {entry.latestVersion}{" "}
+                      <span className={`status-badge ${entry.active ? "approved" : "rejected"}`}>
+                        {entry.active ? "active" : entry.withdrawnAt ? "withdrawn" : "superseded"}
+                      </span>
+                    </span>
+                    <span><DocumentLink uri={entry.document.uri} /></span>
+                    <span className="consent-hash">{entry.document.documentHash}</span>
+                    <span>Given {formatDate(entry.givenAt)}{entry.withdrawnAt > 0 && `, withdrawn ${formatDate(entry.withdrawnAt)}`}</span>
+                  </div>
+                  {entry.active ? (
+                    <button className="secondary-btn" onClick={() => withdraw(entry.trialId)}>Withdraw</button>
+                  ) : (
+                    <button className="primary-btn" onClick={() => reconsent(entry)}>Consent to v{entry.latestVersion}</button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {transactionStatus.visible && (
+        <div className="transaction-modal">
+          <div className={`transaction-content ${transactionStatus.status}`}>
+            <div className="transaction-icon">
+              {transactionStatus.status === "pending" && <div className="spinner"></div>}
+              {transactionStatus.status === "success" && "✓"}
+              {transactionStatus.status === "error" && "✗"}
+            </div>
+            <p>{transactionStatus.message}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Consent;
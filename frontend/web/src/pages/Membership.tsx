@@ -0,0 +1,143 @@
+// Membership.tsx
+import { ConnectButton } from '@rainbow-me/rainbowkit';
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { ethers } from "ethers";
+import { useAccount } from 'wagmi';
+import { getContractReadOnly, getSigner } from "../contract";
+import { userDecrypt } from "../fhe";
+import type { MembershipState } from "../membership";
+import { delegateVotes, loadMembershipState } from "../membership";
+import "../App.css";
+
+const Membership: React.FC = () => {
+  const { address, isConnected, chainId } = useAccount();
+  const [membership, setMembership] = useState<MembershipState | null>(null);
+  const [weights, setWeights] = useState<{ balance: bigint; votes: bigint } | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [delegatee, setDelegatee] = useState("");
+  const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ visible: false, status: "pending", message: "" });
+
+  const delegatedAway = !!membership && !!address && membership.delegate.toLowerCase() !== address.toLowerCase();
+
+  const loadMembership = async () => {
+    const dao = await getContractReadOnly();
+    setMembership(dao && address ? await loadMembershipState(dao, address) : null);
+    setWeights(null);
+  };
+
+  useEffect(() => {
+    loadMembership().catch(e => console.error("Error loading membership:", e));
+  }, [address, chainId]);
+
+  const decryptWeights = async () => {
+    if (!membership) return;
+    setIsDecrypting(true);
+    try {
+      const handles = [membership.balanceHandle, membership.votesHandle].filter(h => h !== ethers.ZeroHash);
+      const values = handles.length > 0 ? await userDecrypt(handles, membership.tokenAddress, await getSigner()) : {};
+      setWeights({ balance: values[membership.balanceHandle] ?? 0n, votes: values[membership.votesHandle] ?? 0n });
+    } catch (e) {
+      console.error("Decryption failed:", e);
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  const delegate = async (to: string) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    if (!membership || !ethers.isAddress(to)) return;
+    setTransactionStatus({ visible: true, status: "pending", message: "Delegating voting power..." });
+    try {
+      const tx = await delegateVotes(membership.tokenAddress, to);
+      await tx.wait();
+      setTransactionStatus({ visible: true, status: "success", message: "Voting power delegated!" });
+      setDelegatee("");
+      await loadMembership();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      const errorMessage = e.message?.includes("user rejected transaction") ? "Transaction rejected by user" : "Delegation failed: " + (e.shortMessage || e.message || "Unknown error");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  return (
+    <div className="app-container">
+      <header className="app-header">
+        <div className="logo">
+          <h1>Patient<span>DAO</span> Trials</h1>
+          <p>Membership</p>
+        </div>
+        <div className="header-actions">
+          <Link to="/" className="nav-link">Trials</Link>
+          <ConnectButton accountStatus="address" chainStatus="icon" showBalance={false} />
+        </div>
+      </header>
+
+      <div className="main-content">
+        <div className="batch-panel claim-panel">
+          <div className="batch-header">
+            <h2>Your Membership</h2>
+            {membership?.isHolder && <span className="status-badge approved">member</span>}
+          </div>
+          <p>
+            Ballots weigh by the membership tokens delegated to the voter when the vote opened. Balances stay
+            encrypted on-chain; only you can decrypt yours.
+          </p>
+
+          {!isConnected ? (
+            <p className="batch-empty">Connect your wallet to see your membership</p>
+          ) : !membership ? (
+            <p className="batch-empty">This DAO gives every member one vote, there is no membership token yet</p>
+          ) : !membership.isHolder ? (
+            <p className="batch-empty">{address} does not hold {membership.symbol} membership tokens</p>
+          ) : (
+            <div className="claim-details">
+              <div className="membership-weights">
+                <div className="stat-card">
+                  <h3>{membership.symbol} Held</h3>
+                  <p className="stat-value">{weights ? weights.balance.toString() : "🔒"}</p>
+                </div>
+                <div className="stat-card">
+                  <h3>Your Voting Weight</h3>
+                  <p className="stat-value">{weights ? weights.votes.toString() : "🔒"}</p>
+                </div>
+              </div>
+              <button className="decrypt-btn" onClick={decryptWeights} disabled={isDecrypting}>
+                {isDecrypting ? "Decrypting..." : weights ? "Refresh" : "Decrypt My Weight"}
+              </button>
+
+              <span>
+                {delegatedAway ? `Your votes are delegated to ${membership.delegate}` : "You vote with your own tokens"}
+              </span>
+              <div className="form-group">
+                <label>Delegate to another member</label>
+                <input type="text" placeholder="0x..." value={delegatee} onChange={e => setDelegatee(e.target.value)} />
+              </div>
+              <div className="action-buttons">
+                <button className="primary-btn" onClick={() => delegate(delegatee)} disabled={!ethers.isAddress(delegatee)}>Delegate</button>
+                {delegatedAway && <button className="secondary-btn" onClick={() => delegate(address!)}>Vote Myself</button>}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {transactionStatus.visible && (
+        <div className="transaction-modal">
+          <div className={`transaction-content ${transactionStatus.status}`}>
+            <div className="transaction-icon">
+              {transactionStatus.status === "pending" && <div className="spinner"></div>}
+              {transactionStatus.status === "success" && "✓"}
+              {transactionStatus.status === "error" && "✗"}
+            </div>
+            <p>{transactionStatus.message}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Membership;
@@ -0,0 +1,133 @@
+// ProviderClaim.tsx
+import { ConnectButton } from '@rainbow-me/rainbowkit';
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { ethers } from "ethers";
+import { useAccount } from 'wagmi';
+import type { ProviderAllowlist } from "../../../../src/allowlist/allowlist";
+import { getContractReadOnly, getContractWithSigner } from "../contract";
+import "../App.css";
+
+const parseAllowlist = (text: string): ProviderAllowlist => {
+  const allowlist = JSON.parse(text);
+  if (!ethers.isHexString(allowlist?.root, 32) || typeof allowlist.proofs !== "object") {
+    throw new Error("Not a provider allowlist file");
+  }
+  return allowlist;
+};
+
+const ProviderClaim: React.FC = () => {
+  const { address, isConnected, chainId } = useAccount();
+  const [onChainRoot, setOnChainRoot] = useState("");
+  const [isProvider, setIsProvider] = useState(false);
+  const [allowlist, setAllowlist] = useState<ProviderAllowlist | null>(null);
+  const [allowlistError, setAllowlistError] = useState("");
+  const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ visible: false, status: "pending", message: "" });
+
+  const proof = address && allowlist ? allowlist.proofs[ethers.getAddress(address)] : undefined;
+  const rootMatches = !!allowlist && allowlist.root.toLowerCase() === onChainRoot.toLowerCase();
+
+  const loadProviderState = async () => {
+    const dao = await getContractReadOnly();
+    setOnChainRoot(dao ? await dao.providerMerkleRoot() : "");
+    setIsProvider(!!dao && !!address && await dao.isProvider(address));
+  };
+
+  useEffect(() => {
+    loadProviderState().catch(e => console.error("Error loading provider state:", e));
+  }, [address, chainId]);
+
+  const loadAllowlist = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setAllowlist(parseAllowlist(await file.text()));
+      setAllowlistError("");
+    } catch (e: any) {
+      setAllowlist(null);
+      setAllowlistError(e.message || "Could not read the allowlist");
+    }
+  };
+
+  const claimRole = async () => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    if (!proof) return;
+    setTransactionStatus({ visible: true, status: "pending", message: "Verifying your allowlist proof..." });
+    try {
+      const dao = await getContractWithSigner();
+      const tx = await dao.claimProvider(proof);
+      await tx.wait();
+      setTransactionStatus({ visible: true, status: "success", message: "Provider role activated!" });
+      await loadProviderState();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      const errorMessage = e.message?.includes("user rejected transaction") ? "Transaction rejected by user" : "Claim failed: " + (e.shortMessage || e.message || "Unknown error");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  return (
+    <div className="app-container">
+      <header className="app-header">
+        <div className="logo">
+          <h1>Patient<span>DAO</span> Trials</h1>
+          <p>Provider Access</p>
+        </div>
+        <div className="header-actions">
+          <Link to="/" className="nav-link">Trials</Link>
+          <ConnectButton accountStatus="address" chainStatus="icon" showBalance={false} />
+        </div>
+      </header>
+
+      <div className="main-content">
+        <div className="batch-panel claim-panel">
+          <div className="batch-header">
+            <h2>Activate Your Provider Role</h2>
+            {isProvider && <span className="status-badge approved">provider</span>}
+          </div>
+          <p>
+            Clinics on the DAO roster can activate their provider role themselves. Load the allowlist file
+            published by the DAO, then submit the proof for your connected address.
+          </p>
+
+          <div className="form-group">
+            <label>Allowlist file</label>
+            <input type="file" accept="application/json,.json" onChange={e => loadAllowlist(e.target.files?.[0])} />
+          </div>
+          {allowlistError && <p className="claim-error">{allowlistError}</p>}
+
+          {allowlist && (
+            <div className="claim-details">
+              <span>{allowlist.count} providers on this roster</span>
+              {!rootMatches && <p className="claim-error">This roster is not the one published on-chain, so its proofs will be rejected.</p>}
+              {!isConnected ? (
+                <p className="batch-empty">Connect the wallet of your clinic to continue</p>
+              ) : isProvider ? (
+                <p className="batch-empty">{address} already holds the provider role</p>
+              ) : proof ? (
+                <button className="primary-btn" onClick={claimRole} disabled={!rootMatches}>Activate Provider Role</button>
+              ) : (
+                <p className="claim-error">{address} is not on this roster</p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {transactionStatus.visible && (
+        <div className="transaction-modal">
+          <div className={`transaction-content ${transactionStatus.status}`}>
+            <div className="transaction-icon">
+              {transactionStatus.status === "pending" && <div className="spinner"></div>}
+              {transactionStatus.status === "success" && "✓"}
+              {transactionStatus.status === "error" && "✗"}
+            </div>
+            <p>{transactionStatus.message}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProviderClaim;
@@ -0,0 +1,192 @@
+// Records.tsx
+import { ConnectButton } from '@rainbow-me/rainbowkit';
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { ethers } from "ethers";
+import { useAccount } from 'wagmi';
+import { getRecordVaultReadOnly } from "../contract";
+import type { ClinicalRecord, RecordState } from "../records";
+import { MAX_BIOMARKERS, decryptRecord, loadRecordState, revokeTrialAccess, submitRecord } from "../records";
+import "../App.css";
+
+// Brackets are coded by decade, e.g. 3 for 30–39.
+const AGE_BRACKETS = Array.from({ length: 10 }, (_, i) => i);
+const ageBracketLabel = (bracket: number) => bracket === 9 ? "90+" : `${bracket * 10}–${bracket * 10 + 9}`;
+
+const parseBiomarkers = (text: string) => text.split(",").map(s => s.trim()).filter(s => s !== "").map(Number);
+
+const Records: React.FC = () => {
+  const { address, isConnected, chainId } = useAccount();
+  const [record, setRecord] = useState<RecordState | null>(null);
+  const [decrypted, setDecrypted] = useState<ClinicalRecord | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [form, setForm] = useState({ ageBracket: 3, diagnosisCode: "", biomarkers: "" });
+  const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ visible: false, status: "pending", message: "" });
+
+  const biomarkers = parseBiomarkers(form.biomarkers);
+  const formValid = /^\d+$/.test(form.diagnosisCode) && biomarkers.length <= MAX_BIOMARKERS && biomarkers.every(b => Number.isInteger(b) && b >= 0);
+
+  const loadRecord = async () => {
+    const vault = await getRecordVaultReadOnly();
+    setRecord(vault && address ? await loadRecordState(vault, address) : null);
+    setDecrypted(null);
+  };
+
+  useEffect(() => {
+    loadRecord().catch(e => console.error("Error loading record:", e));
+  }, [address, chainId]);
+
+  const decrypt = async () => {
+    if (!record) return;
+    setIsDecrypting(true);
+    try {
+      setDecrypted(await decryptRecord(record));
+    } catch (e) {
+      console.error("Decryption failed:", e);
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  const runTransaction = async (pendingMessage: string, successMessage: string, failurePrefix: string, send: () => Promise<ethers.ContractTransactionResponse>) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: pendingMessage });
+    try {
+      const tx = await send();
+      await tx.wait();
+      setTransactionStatus({ visible: true, status: "success", message: successMessage });
+      await loadRecord();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      const errorMessage = e.message?.includes("user rejected transaction") ? "Transaction rejected by user" : failurePrefix + (e.shortMessage || e.message || "Unknown error");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const save = () => runTransaction(
+    "Encrypting record with Zama FHE...",
+    "Record stored encrypted!",
+    "Saving failed: ",
+    () => submitRecord(address!, { ageBracket: form.ageBracket, diagnosisCode: Number(form.diagnosisCode), biomarkers })
+  );
+
+  const revoke = (trialId: number) => runTransaction(
+    "Revoking access and re-encrypting record...",
+    "Access revoked!",
+    "Revoking failed: ",
+    () => revokeTrialAccess(trialId)
+  );
+
+  return (
+    <div className="app-container">
+      <header className="app-header">
+        <div className="logo">
+          <h1>Patient<span>DAO</span> Trials</h1>
+          <p>My Record</p>
+        </div>
+        <div className="header-actions">
+          <Link to="/" className="nav-link">Trials</Link>
+          <ConnectButton accountStatus="address" chainStatus="icon" showBalance={false} />
+        </div>
+      </header>
+
+      <div className="main-content">
+        <div className="batch-panel claim-panel">
+          <div className="batch-header">
+            <h2>Your Clinical Record</h2>
+            {!!record?.updatedAt && <span className="status-badge approved">stored</span>}
+          </div>
+          <p>
+            Your record is encrypted in the browser before it leaves it. Trials can check whether you qualify without
+            anyone seeing the values, and only the trials you share it with can read it.
+          </p>
+
+          {!isConnected ? (
+            <p className="batch-empty">Connect your wallet to manage your record</p>
+          ) : !record ? (
+            <p className="batch-empty">The record vault is not deployed on this network</p>
+          ) : (
+            <div className="claim-details">
+              {record.updatedAt > 0 && (
+                <>
+                  <span>Last updated {new Date(record.updatedAt * 1000).toLocaleString()}</span>
+                  <span>
+                    {record.verifiedBy === ethers.ZeroAddress
+                      ? "Not verified yet; cohort statistics only count records a DAO provider verified"
+                      : `Verified by provider ${record.verifiedBy}`}
+                  </span>
+                  {decrypted ? (
+                    <div className="membership-weights">
+                      <div className="stat-card">
+                        <h3>Age</h3>
+                        <p className="stat-value">{ageBracketLabel(decrypted.ageBracket)}</p>
+                      </div>
+                      <div className="stat-card">
+                        <h3>Diagnosis Code</h3>
+                        <p className="stat-value">{decrypted.diagnosisCode}</p>
+                      </div>
+                      <div className="stat-card">
+                        <h3>Biomarkers</h3>
+                        <p className="stat-value">{decrypted.biomarkers.join(", ") || "–"}</p>
+                      </div>
+                    </div>
+                  ) : (
+                    <button className="decrypt-btn" onClick={decrypt} disabled={isDecrypting}>
+                      {isDecrypting ? "Decrypting..." : "Decrypt My Record"}
+                    </button>
+                  )}
+                </>
+              )}
+
+              <div className="form-group">
+                <label>Age</label>
+                <select value={form.ageBracket} onChange={e => setForm({ ...form, ageBracket: Number(e.target.value) })}>
+                  {AGE_BRACKETS.map(bracket => <option key={bracket} value={bracket}>{ageBracketLabel(bracket)}</option>)}
+                </select>
+              </div>
+              <div className="form-group">
+                <label>Diagnosis code</label>
+                <input type="text" placeholder="e.g. 1190" value={form.diagnosisCode} onChange={e => setForm({ ...form, diagnosisCode: e.target.value })} />
+              </div>
+              <div className="form-group">
+                <label>Biomarkers, comma separated (up to {MAX_BIOMARKERS})</label>
+                <input type="text" placeholder="e.g. 72, 5" value={form.biomarkers} onChange={e => setForm({ ...form, biomarkers: e.target.value })} />
+              </div>
+              <button className="primary-btn" onClick={save} disabled={!formValid}>
+                {record.updatedAt > 0 ? "Replace Record" : "Store Record"}
+              </button>
+            </div>
+          )}
+
+          {record && record.grantedTrials.length > 0 && (
+            <div className="batch-results">
+              <h3>Shared With</h3>
+              {record.grantedTrials.map(trialId => (
+                <div key={trialId} className="batch-result">
+                  <span>Trial #{trialId}</span>
+                  <button className="secondary-btn" onClick={() => revoke(trialId)}>Revoke</button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {transactionStatus.visible && (
+        <div className="transaction-modal">
+          <div className={`transaction-content ${transactionStatus.status}`}>
+            <div className="transaction-icon">
+              {transactionStatus.status === "pending" && <div className="spinner"></div>}
+              {transactionStatus.status === "success" && "✓"}
+              {transactionStatus.status === "error" && "✗"}
+            </div>
+            <p>{transactionStatus.message}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Records;
@@ -0,0 +1,197 @@
+// Rewards.tsx
+import { ConnectButton } from '@rainbow-me/rainbowkit';
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { ethers } from "ethers";
+import { useAccount } from 'wagmi';
+import { getRecordVaultReadOnly, getRewardsReadOnly } from "../contract";
+import type { RewardEntry, RewardsState } from "../rewards";
+import { claimReward, decryptOwedReward, decryptRewardBalance, formatRewardAmount, loadRewardsState, transferRewards } from "../rewards";
+import "../App.css";
+
+const Rewards: React.FC = () => {
+  const { address, isConnected, chainId } = useAccount();
+  const [rewards, setRewards] = useState<RewardsState | null>(null);
+  const [balance, setBalance] = useState<bigint | null>(null);
+  // Decrypted unpaid rewards by trial id
+  const [owed, setOwed] = useState<Record<number, bigint>>({});
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [transferForm, setTransferForm] = useState({ to: "", amount: "" });
+  const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ visible: false, status: "pending", message: "" });
+
+  const loadRewards = async () => {
+    const [rewardsContract, vault] = await Promise.all([getRewardsReadOnly(), getRecordVaultReadOnly()]);
+    setRewards(rewardsContract && vault && address ? await loadRewardsState(rewardsContract, vault, address) : null);
+    setBalance(null);
+    setOwed({});
+  };
+
+  useEffect(() => {
+    loadRewards().catch(e => console.error("Error loading rewards:", e));
+  }, [address, chainId]);
+
+  const decrypt = async () => {
+    if (!rewards) return;
+    setIsDecrypting(true);
+    try {
+      setBalance(await decryptRewardBalance(rewards));
+    } catch (e) {
+      console.error("Decryption failed:", e);
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  const runTransaction = async (pendingMessage: string, successMessage: string, failurePrefix: string, send: () => Promise<ethers.ContractTransactionResponse>) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: pendingMessage });
+    try {
+      const tx = await send();
+      await tx.wait();
+      setTransactionStatus({ visible: true, status: "success", message: successMessage });
+      await loadRewards();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      const errorMessage = e.message?.includes("user rejected transaction") ? "Transaction rejected by user" : failurePrefix + (e.shortMessage || e.message || "Unknown error");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const decryptOwed = async (entry: RewardEntry) => {
+    if (!rewards) return;
+    setIsDecrypting(true);
+    try {
+      const amount = await decryptOwedReward(rewards, entry);
+      setOwed(prev => ({ ...prev, [entry.trialId]: amount }));
+    } catch (e) {
+      console.error("Decryption failed:", e);
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  const claim = (trialId: number) => runTransaction(
+    "Claiming reward...",
+    "Reward claimed, decrypt your balance to see it",
+    "Claiming failed: ",
+    () => claimReward(trialId)
+  );
+
+  const transfer = () => runTransaction(
+    "Encrypting transfer with Zama FHE...",
+    "Transfer sent!",
+    "Transfer failed: ",
+    async () => {
+      const tx = await transferRewards(address!, transferForm.to, transferForm.amount);
+      setTransferForm({ to: "", amount: "" });
+      return tx;
+    }
+  );
+
+  return (
+    <div className="app-container">
+      <header className="app-header">
+        <div className="logo">
+          <h1>Patient<span>DAO</span> Trials</h1>
+          <p>My Rewards</p>
+        </div>
+        <div className="header-actions">
+          <Link to="/" className="nav-link">Trials</Link>
+          <Link to="/records" className="nav-link">My Record</Link>
+          <ConnectButton accountStatus="address" chainStatus="icon" showBalance={false} />
+        </div>
+      </header>
+
+      <div className="main-content">
+        <div className="batch-panel claim-panel">
+          <div className="batch-header">
+            <h2>Participation Rewards</h2>
+          </div>
+          <p>
+            Trials you share your record with reward your participation from their pool. Your balance and every amount
+            stay encrypted; only you can decrypt them.
+          </p>
+
+          {!isConnected ? (
+            <p className="batch-empty">Connect your wallet to see your rewards</p>
+          ) : !rewards ? (
+            <p className="batch-empty">Participation rewards are not deployed on this network</p>
+          ) : (
+            <div className="claim-details">
+              {balance !== null ? (
+                <div className="membership-weights">
+                  <div className="stat-card">
+                    <h3>Balance</h3>
+                    <p className="stat-value">{formatRewardAmount(balance)} PDR</p>
+                  </div>
+                </div>
+              ) : (
+                <button className="decrypt-btn" onClick={decrypt} disabled={isDecrypting}>
+                  {isDecrypting ? "Decrypting..." : "Decrypt My Balance"}
+                </button>
+              )}
+
+              <div className="form-group">
+                <label>Send to</label>
+                <input type="text" placeholder="0x..." value={transferForm.to} onChange={e => setTransferForm({ ...transferForm, to: e.target.value })} />
+              </div>
+              <div className="form-group">
+                <label>Amount (PDR)</label>
+                <input type="number" min="0" value={transferForm.amount} onChange={e => setTransferForm({ ...transferForm, amount: e.target.value })} />
+              </div>
+              <button className="primary-btn" onClick={transfer} disabled={!ethers.isAddress(transferForm.to) || !transferForm.amount}>
+                Send Confidentially
+              </button>
+            </div>
+          )}
+
+          {rewards && (
+            <div className="batch-results">
+              <h3>Your Trials</h3>
+              {rewards.trials.length === 0 ? (
+                <p className="batch-empty">
+                  <Link to="/records">Share your record</Link> with an approved trial to earn its reward
+                </p>
+              ) : rewards.trials.map(entry => (
+                <div key={entry.trialId} className="batch-result">
+                  <span>Trial #{entry.trialId}</span>
+                  {entry.claimed ? (
+                    owed[entry.trialId] === undefined ? (
+                      <button className="decrypt-btn" onClick={() => decryptOwed(entry)} disabled={isDecrypting}>Check Unpaid Reward</button>
+                    ) : owed[entry.trialId] > 0n ? (
+                      <button className="primary-btn" onClick={() => claim(entry.trialId)}>Claim {formatRewardAmount(owed[entry.trialId])} PDR Owed</button>
+                    ) : (
+                      <span className="status-badge approved">claimed</span>
+                    )
+                  ) : entry.claimable ? (
+                    <button className="primary-btn" onClick={() => claim(entry.trialId)}>Claim Reward</button>
+                  ) : !entry.enrolled ? (
+                    <span className="status-badge pending">awaiting enrollment</span>
+                  ) : (
+                    <span className="status-badge pending">no reward yet</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {transactionStatus.visible && (
+        <div className="transaction-modal">
+          <div className={`transaction-content ${transactionStatus.status}`}>
+            <div className="transaction-icon">
+              {transactionStatus.status === "pending" && <div className="spinner"></div>}
+              {transactionStatus.status === "success" && "✓"}
+              {transactionStatus.status === "error" && "✗"}
+            </div>
+            <p>{transactionStatus.message}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Rewards;
@@ -0,0 +1,158 @@
+// proposals.ts
+import { ethers } from "ethers";
+import type { PatientDAOFHE } from "./contract";
+import { fetchContent, isContentURI, uploadContent } from "./content";
+import { fetchIndexedEvents } from "./indexer";
+
+// Mirrors PatientDAOFHE.ProposalStatus.
+export const PROPOSAL_STATUSES = ["draft", "review", "voting", "approved", "rejected", "withdrawn"] as const;
+export type ProposalStatus = typeof PROPOSAL_STATUSES[number];
+
+export const STATUS_LABELS: Record<ProposalStatus, string> = {
+  draft: "Draft",
+  review: "Under Review",
+  voting: "Voting",
+  approved: "Approved",
+  rejected: "Rejected",
+  withdrawn: "Withdrawn",
+};
+
+export const isFinalStatus = (status: ProposalStatus) => status === "approved" || status === "rejected" || status === "withdrawn";
+
+export const PROPOSAL_PAGE_SIZE = 12;
+
+// Proposals submitted before metadata moved to the content store carry it inline.
+const JSON_DATA_URI_PREFIX = "data:application/json;base64,";
+
+export interface ProposalMetadata {
+  title: string;
+  description: string;
+  // `ipfs://` URI of the trial protocol, if one was attached.
+  protocol?: string;
+}
+
+export interface ProposalTally {
+  yesVotes: number;
+  noVotes: number;
+}
+
+export interface ProposalData extends ProposalMetadata {
+  id: number;
+  proposer: string;
+  category: string;
+  metadataURI: string;
+  // Why the metadata could not be loaded, e.g. content not matching its CID.
+  metadataError: string | null;
+  encryptedBudget: string;
+  status: ProposalStatus;
+  createdAt: number;
+  votingEndsAt: number;
+  voterCount: number;
+  // Set once the tally has been decrypted after the voting window.
+  tally: ProposalTally | null;
+}
+
+export interface ProposalHistoryEntry {
+  status: ProposalStatus;
+  actor: string;
+  timestamp: number;
+  txHash: string;
+}
+
+export interface ProposalPage {
+  proposals: ProposalData[];
+  // Proposals with ids up to the cursor are still to be loaded; 0 when done.
+  nextCursor: number;
+}
+
+// Stores the metadata in the content store; only the returned `ipfs://` URI goes on-chain.
+export async function storeMetadata(metadata: ProposalMetadata): Promise<string> {
+  return uploadContent(JSON.stringify(metadata));
+}
+
+export async function fetchMetadata(uri: string): Promise<ProposalMetadata> {
+  let raw: any;
+  if (uri.startsWith(JSON_DATA_URI_PREFIX)) {
+    raw = JSON.parse(ethers.toUtf8String(ethers.decodeBase64(uri.slice(JSON_DATA_URI_PREFIX.length))));
+  } else if (isContentURI(uri)) {
+    raw = JSON.parse(ethers.toUtf8String(await fetchContent(uri)));
+  } else {
+    const response = await fetch(uri);
+    if (!response.ok) throw new Error(`Metadata request failed with ${response.status}`);
+    raw = await response.json();
+  }
+  return {
+    title: String(raw.title ?? ""),
+    description: String(raw.description ?? ""),
+    ...(typeof raw.protocol === "string" && isContentURI(raw.protocol) ? { protocol: raw.protocol } : {}),
+  };
+}
+
+type RawProposal = Awaited<ReturnType<PatientDAOFHE["getProposal"]>>;
+
+const toProposalData = async (dao: PatientDAOFHE, raw: RawProposal): Promise<ProposalData> => {
+  let metadata: ProposalMetadata = { title: `Proposal #${raw.id}`, description: "" };
+  let metadataError: string | null = null;
+  try {
+    metadata = await fetchMetadata(raw.metadataURI);
+  } catch (e: any) {
+    console.error(`Error loading metadata for proposal ${raw.id}:`, e);
+    metadataError = e.message ?? String(e);
+  }
+  const tally = await dao.proposalTallies(raw.id);
+
+  return {
+    ...metadata,
+    id: Number(raw.id),
+    proposer: raw.proposer,
+    category: raw.category,
+    metadataURI: raw.metadataURI,
+    metadataError,
+    encryptedBudget: raw.encryptedBudget,
+    status: PROPOSAL_STATUSES[Number(raw.status)],
+    createdAt: Number(raw.createdAt),
+    votingEndsAt: Number(raw.votingEndsAt),
+    voterCount: Number(tally.voterCount),
+    tally: tally.revealed ? { yesVotes: Number(tally.yesVotes), noVotes: Number(tally.noVotes) } : null,
+  };
+};
+
+// Loads the next page of proposals, newest first. Pass the previous page's
+// nextCursor to continue, or null to start from the latest proposal.
+export async function loadProposalPage(dao: PatientDAOFHE, cursor: number | null, pageSize = PROPOSAL_PAGE_SIZE): Promise<ProposalPage> {
+  const end = cursor ?? Number(await dao.proposalCount());
+  const start = Math.max(0, end - pageSize);
+  if (end === start) return { proposals: [], nextCursor: 0 };
+
+  const page = await dao.getProposals(start, end - start);
+  const proposals = await Promise.all(page.map(raw => toProposalData(dao, raw)));
+  return { proposals: proposals.reverse(), nextCursor: start };
+}
+
+// Rebuilds a proposal's timeline from its submission and status change events.
+export async function loadProposalHistory(dao: PatientDAOFHE, proposalId: number): Promise<ProposalHistoryEntry[]> {
+  const indexed = await fetchIndexedEvents(dao, `/proposals/${proposalId}/events`);
+  if (indexed) {
+    return indexed.flatMap(e => {
+      if (e.name === "ProposalSubmitted") return [{ status: "draft" as ProposalStatus, actor: e.args.proposer, timestamp: e.timestamp, txHash: e.transactionHash }];
+      if (e.name === "ProposalStatusChanged") return [{ status: PROPOSAL_STATUSES[Number(e.args.newStatus)], actor: e.args.actor, timestamp: e.timestamp, txHash: e.transactionHash }];
+      return [];
+    });
+  }
+
+  const [submitted, changes] = await Promise.all([
+    dao.queryFilter(dao.filters.ProposalSubmitted(proposalId)),
+    dao.queryFilter(dao.filters.ProposalStatusChanged(proposalId)),
+  ]);
+  const logs = [
+    ...submitted.map(log => ({ log, status: "draft" as ProposalStatus, actor: log.args.proposer })),
+    ...changes.map(log => ({ log, status: PROPOSAL_STATUSES[Number(log.args.newStatus)], actor: log.args.actor })),
+  ].sort((a, b) => a.log.blockNumber - b.log.blockNumber || a.log.index - b.log.index);
+
+  return Promise.all(logs.map(async ({ log, status, actor }) => ({
+    status,
+    actor,
+    timestamp: (await log.getBlock()).timestamp,
+    txHash: log.transactionHash,
+  })));
+}
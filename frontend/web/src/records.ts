@@ -0,0 +1,87 @@
+// records.ts
+import type { PatientRecordVault } from "./contract";
+import { getRecordVaultWithSigner, getSigner } from "./contract";
+import { encryptUints, userDecrypt } from "./fhe";
+
+// Mirrors PatientRecordVault.MAX_BIOMARKERS.
+export const MAX_BIOMARKERS = 8;
+
+export interface ClinicalRecord {
+  ageBracket: number;
+  diagnosisCode: number;
+  biomarkers: number[];
+}
+
+export interface RecordState {
+  vaultAddress: string;
+  // Zero while the patient has no record.
+  updatedAt: number;
+  // The DAO provider who vouched for the current record, the zero address if none.
+  verifiedBy: string;
+  // Encrypted handles only the patient and the trials they granted can decrypt.
+  ageBracketHandle: string;
+  diagnosisCodeHandle: string;
+  biomarkerHandles: string[];
+  grantedTrials: number[];
+}
+
+export async function loadRecordState(vault: PatientRecordVault, patient: string): Promise<RecordState> {
+  const [[ageBracketHandle, diagnosisCodeHandle, biomarkerHandles, updatedAt], verifiedBy, grantedTrials] = await Promise.all([
+    vault.getRecord(patient),
+    vault.verifierOf(patient),
+    vault.getGrantedTrials(patient),
+  ]);
+  return {
+    vaultAddress: await vault.getAddress(),
+    updatedAt: Number(updatedAt),
+    verifiedBy,
+    ageBracketHandle,
+    diagnosisCodeHandle,
+    biomarkerHandles: [...biomarkerHandles],
+    grantedTrials: grantedTrials.map(Number),
+  };
+}
+
+export async function submitRecord(patient: string, record: ClinicalRecord) {
+  const vault = await getRecordVaultWithSigner();
+  const { handles, inputProof } = await encryptUints(await vault.getAddress(), patient, [
+    { bits: 8, value: record.ageBracket },
+    { bits: 32, value: record.diagnosisCode },
+    ...record.biomarkers.map(value => ({ bits: 32 as const, value })),
+  ]);
+  return vault.submitRecord(handles[0], handles[1], handles.slice(2), inputProof);
+}
+
+export async function decryptRecord(state: RecordState): Promise<ClinicalRecord> {
+  const handles = [state.ageBracketHandle, state.diagnosisCodeHandle, ...state.biomarkerHandles];
+  const values = await userDecrypt(handles, state.vaultAddress, await getSigner());
+  return {
+    ageBracket: Number(values[state.ageBracketHandle]),
+    diagnosisCode: Number(values[state.diagnosisCodeHandle]),
+    biomarkers: state.biomarkerHandles.map(handle => Number(values[handle])),
+  };
+}
+
+export async function grantTrialAccess(trialId: number) {
+  return (await getRecordVaultWithSigner()).grantAccess(trialId);
+}
+
+export async function revokeTrialAccess(trialId: number) {
+  return (await getRecordVaultWithSigner()).revokeAccess(trialId);
+}
+
+// Patients moved per transaction after a consent version requiring consent again.
+const ROTATION_PAGE_SIZE = 10;
+
+// Moves the records shared with the trial away from its proposer for every patient who has not
+// consented to the new version, a page per transaction. Resolves to the last one, null without patients.
+export async function rotateSupersededConsents(trialId: number) {
+  const vault = await getRecordVaultWithSigner();
+  const patientCount = await vault.trialPatientCount(trialId);
+  let tx = null;
+  for (let start = 0n; start < patientCount; start += BigInt(ROTATION_PAGE_SIZE)) {
+    if (tx) await tx.wait();
+    tx = await vault.rotateSupersededConsents(trialId, start, ROTATION_PAGE_SIZE);
+  }
+  return tx;
+}
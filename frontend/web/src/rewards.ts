@@ -0,0 +1,72 @@
+// rewards.ts
+import { ethers } from "ethers";
+import type { ParticipationRewards, PatientRecordVault } from "./contract";
+import { getRewardsWithSigner, getSigner } from "./contract";
+import { encryptUint64, userDecrypt } from "./fhe";
+
+// Mirrors ParticipationRewards.decimals.
+const REWARD_DECIMALS = 6;
+
+export const parseRewardAmount = (amount: string) => ethers.parseUnits(amount, REWARD_DECIMALS);
+export const formatRewardAmount = (amount: bigint) => ethers.formatUnits(amount, REWARD_DECIMALS);
+
+export interface RewardEntry {
+  trialId: number;
+  // The trial's proposer confirmed the patient takes part; required to claim.
+  enrolled: boolean;
+  // The reward accrued on a first claim; what the pool could not pay is owed.
+  claimed: boolean;
+  // The trial has a reward and a pool to pay it from.
+  claimable: boolean;
+  // Zero until the first claim.
+  owedHandle: string;
+}
+
+export interface RewardsState {
+  rewardsAddress: string;
+  // Zero before the account ever held rewards.
+  balanceHandle: string;
+  trials: RewardEntry[];
+}
+
+const isSet = (handle: string) => BigInt(handle) !== 0n;
+
+// Rewards of every trial the patient shares their record with.
+export async function loadRewardsState(rewards: ParticipationRewards, vault: PatientRecordVault, patient: string): Promise<RewardsState> {
+  const [balanceHandle, trialIds] = await Promise.all([rewards.confidentialBalanceOf(patient), vault.getGrantedTrials(patient)]);
+  const trials = await Promise.all(trialIds.map(async trialId => {
+    const [enrolled, claimed, reward, pool, owedHandle] = await Promise.all([
+      rewards.isEnrolled(trialId, patient),
+      rewards.hasClaimed(trialId, patient),
+      rewards.rewardPerPatient(trialId),
+      rewards.poolOf(trialId),
+      rewards.owedOf(trialId, patient),
+    ]);
+    return { trialId: Number(trialId), enrolled, claimed, claimable: enrolled && !claimed && isSet(reward) && isSet(pool), owedHandle };
+  }));
+  return { rewardsAddress: await rewards.getAddress(), balanceHandle, trials };
+}
+
+export async function decryptRewardBalance(state: RewardsState): Promise<bigint> {
+  if (!isSet(state.balanceHandle)) return 0n;
+  const values = await userDecrypt([state.balanceHandle], state.rewardsAddress, await getSigner());
+  return values[state.balanceHandle];
+}
+
+// What the trial's pool still owes the patient; claiming again pays it once the pool covers it.
+export async function decryptOwedReward(state: RewardsState, entry: RewardEntry): Promise<bigint> {
+  if (!isSet(entry.owedHandle)) return 0n;
+  const values = await userDecrypt([entry.owedHandle], state.rewardsAddress, await getSigner());
+  return values[entry.owedHandle];
+}
+
+export async function claimReward(trialId: number) {
+  return (await getRewardsWithSigner()).claimReward(trialId);
+}
+
+// Nothing moves if the amount exceeds the sender's balance, without revealing which happened.
+export async function transferRewards(from: string, to: string, amount: string) {
+  const rewards = await getRewardsWithSigner();
+  const { handle, inputProof } = await encryptUint64(await rewards.getAddress(), from, parseRewardAmount(amount));
+  return rewards.confidentialTransfer(to, handle, inputProof);
+}
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\frontend\web\src\secure-factory-components.java
-// Generated at: 2025-10-20T08:12:54.149Z
\ No newline at end of file
@@ -0,0 +1,127 @@
+// timelock.ts
+import { ethers } from "ethers";
+import type { PatientDAOTimelock } from "../../../types";
+import type { PatientDAOFHE } from "./contract";
+import { getActiveChainId, getDeployment, getSigner } from "./contract";
+
+// The parts of OpenZeppelin's TimelockController the admin panel needs.
+const TIMELOCK_ABI = [
+  "function CANCELLER_ROLE() view returns (bytes32)",
+  "function EXECUTOR_ROLE() view returns (bytes32)",
+  "function hasRole(bytes32 role, address account) view returns (bool)",
+  "function getMinDelay() view returns (uint256)",
+  "function getOperationState(bytes32 id) view returns (uint8)",
+  "function getTimestamp(bytes32 id) view returns (uint256)",
+  "function execute(address target, uint256 value, bytes payload, bytes32 predecessor, bytes32 salt) payable",
+  "function executeBatch(address[] targets, uint256[] values, bytes[] payloads, bytes32 predecessor, bytes32 salt) payable",
+  "function cancel(bytes32 id)",
+  "event CallScheduled(bytes32 indexed id, uint256 indexed index, address target, uint256 value, bytes data, bytes32 predecessor, uint256 delay)",
+  "event CallSalt(bytes32 indexed id, bytes32 salt)",
+];
+
+// Mirrors TimelockController.OperationState.
+const OPERATION_STATES = ["unset", "waiting", "ready", "done"] as const;
+
+export interface AdminCall {
+  target: string;
+  value: bigint;
+  data: string;
+}
+
+export interface PendingAdminAction {
+  id: string;
+  calls: AdminCall[];
+  // Human-readable form of each call, e.g. "pause()".
+  descriptions: string[];
+  predecessor: string;
+  salt: string;
+  state: "waiting" | "ready";
+  readyAt: number;
+}
+
+export interface TimelockState {
+  address: string;
+  minDelay: number;
+  canExecute: boolean;
+  canCancel: boolean;
+  actions: PendingAdminAction[];
+}
+
+const getTimelock = (address: string, runner: ethers.ContractRunner | null) =>
+  new ethers.Contract(address, TIMELOCK_ABI, runner) as unknown as PatientDAOTimelock;
+
+const describeCall = (dao: PatientDAOFHE, call: AdminCall) => {
+  const parsed = call.target.toLowerCase() === dao.target.toString().toLowerCase()
+    ? dao.interface.parseTransaction({ data: call.data, value: call.value })
+    : null;
+  return parsed ? `${parsed.name}(${parsed.args.map(String).join(", ")})` : `${call.target} ${call.data.slice(0, 10)}`;
+};
+
+// Reads the operations still pending on the DAO's timelock, or null when the DAO
+// is administered by its owner directly.
+export async function loadTimelockState(dao: PatientDAOFHE, account?: string): Promise<TimelockState | null> {
+  const address = await dao.timelock();
+  if (address === ethers.ZeroAddress) return null;
+
+  const timelock = getTimelock(address, dao.runner);
+  const fromBlock = getDeployment(await getActiveChainId(), "PatientDAOFHE")?.deployBlock ?? 0;
+  const [minDelay, executorRole, cancellerRole, scheduled, salts] = await Promise.all([
+    timelock.getMinDelay(),
+    timelock.EXECUTOR_ROLE(),
+    timelock.CANCELLER_ROLE(),
+    timelock.queryFilter(timelock.filters.CallScheduled(), fromBlock),
+    timelock.queryFilter(timelock.filters.CallSalt(), fromBlock),
+  ]);
+  const [openExecution, canExecute, canCancel] = await Promise.all([
+    timelock.hasRole(executorRole, ethers.ZeroAddress),
+    account ? timelock.hasRole(executorRole, account) : false,
+    account ? timelock.hasRole(cancellerRole, account) : false,
+  ]);
+
+  const saltById = new Map(salts.map(e => [e.args.id, e.args.salt]));
+  const byId = new Map<string, PendingAdminAction>();
+  for (const e of scheduled) {
+    const { id, index, target, value, data, predecessor } = e.args;
+    const action = byId.get(id) ?? {
+      id, calls: [], descriptions: [], predecessor, salt: saltById.get(id) ?? ethers.ZeroHash, state: "waiting", readyAt: 0,
+    };
+    action.calls[Number(index)] = { target, value, data };
+    action.descriptions[Number(index)] = describeCall(dao, { target, value, data });
+    byId.set(id, action);
+  }
+
+  const actions: PendingAdminAction[] = [];
+  await Promise.all([...byId.values()].map(async action => {
+    const [state, timestamp] = await Promise.all([timelock.getOperationState(action.id), timelock.getTimestamp(action.id)]);
+    const label = OPERATION_STATES[Number(state)];
+    if (label === "waiting" || label === "ready") {
+      actions.push({ ...action, state: label, readyAt: Number(timestamp) });
+    }
+  }));
+
+  return {
+    address,
+    minDelay: Number(minDelay),
+    canExecute: openExecution || canExecute,
+    canCancel,
+    actions: actions.sort((a, b) => a.readyAt - b.readyAt),
+  };
+}
+
+export async function executeAdminAction(timelockAddress: string, action: PendingAdminAction) {
+  const timelock = getTimelock(timelockAddress, await getSigner());
+  const { calls, predecessor, salt } = action;
+  if (calls.length === 1) {
+    const [{ target, value, data }] = calls;
+    return timelock.execute(target, value, data, predecessor, salt, { value });
+  }
+  return timelock.executeBatch(
+    calls.map(c => c.target), calls.map(c => c.value), calls.map(c => c.data), predecessor, salt,
+    { value: calls.reduce((sum, c) => sum + c.value, 0n) }
+  );
+}
+
+export async function cancelAdminAction(timelockAddress: string, id: string) {
+  const timelock = getTimelock(timelockAddress, await getSigner());
+  return timelock.cancel(id);
+}
@@ -0,0 +1,99 @@
+// treasury.ts
+import { ethers } from "ethers";
+import type { TrialTreasury } from "./contract";
+import { getSigner, getTreasuryWithSigner } from "./contract";
+import { encryptUint64, userDecrypt } from "./fhe";
+
+// Treasury amounts are gwei, 9 decimals below ETH.
+const AMOUNT_DECIMALS = 9;
+
+export const parseTreasuryAmount = (eth: string) => ethers.parseUnits(eth, AMOUNT_DECIMALS);
+export const formatTreasuryAmount = (amount: bigint) => ethers.formatUnits(amount, AMOUNT_DECIMALS);
+
+export interface FundingState {
+  treasuryAddress: string;
+  treasuryBalance: bigint;
+  // Zero until the committee sets a budget.
+  fundedAt: number;
+  // Encrypted gwei amounts only the proposer and the committee can decrypt.
+  budgetHandle: string;
+  disbursedHandle: string;
+  claimableHandle: string;
+  payouts: { milestone: string; releasedAt: number }[];
+  isCommitteeMember: boolean;
+  // False until the trial is synced after a committee change; new members cannot decrypt it before.
+  committeeSynced: boolean;
+  // Wei the connected account can withdraw now.
+  withdrawable: bigint;
+}
+
+export interface FundingAmounts {
+  budget: bigint;
+  disbursed: bigint;
+  claimable: bigint;
+}
+
+export async function loadFundingState(treasury: TrialTreasury, trialId: number, account: string | undefined): Promise<FundingState> {
+  const treasuryAddress = await treasury.getAddress();
+  const [[budgetHandle, disbursedHandle, claimableHandle, fundedAt], payouts, treasuryBalance, isCommitteeMember, committeeSynced, withdrawable] = await Promise.all([
+    treasury.getFunding(trialId),
+    treasury.getPayouts(trialId),
+    treasury.runner!.provider!.getBalance(treasuryAddress),
+    account ? treasury.isCommitteeMember(account) : false,
+    treasury.isCommitteeSynced(trialId),
+    account ? treasury.withdrawable(account) : 0n,
+  ]);
+  return {
+    treasuryAddress,
+    treasuryBalance,
+    fundedAt: Number(fundedAt),
+    budgetHandle,
+    disbursedHandle,
+    claimableHandle,
+    payouts: payouts.map(payout => ({ milestone: payout.milestone, releasedAt: Number(payout.releasedAt) })),
+    isCommitteeMember,
+    committeeSynced,
+    withdrawable,
+  };
+}
+
+export async function decryptFunding(state: FundingState): Promise<FundingAmounts> {
+  const handles = [state.budgetHandle, state.disbursedHandle, state.claimableHandle];
+  const values = await userDecrypt(handles, state.treasuryAddress, await getSigner());
+  return {
+    budget: values[state.budgetHandle],
+    disbursed: values[state.disbursedHandle],
+    claimable: values[state.claimableHandle],
+  };
+}
+
+export async function fundTreasury(ethAmount: string) {
+  const treasury = await getTreasuryWithSigner();
+  return (await getSigner()).sendTransaction({ to: await treasury.getAddress(), value: ethers.parseEther(ethAmount) });
+}
+
+export async function setTrialBudget(trialId: number, member: string, ethAmount: string) {
+  const treasury = await getTreasuryWithSigner();
+  const { handle, inputProof } = await encryptUint64(await treasury.getAddress(), member, parseTreasuryAmount(ethAmount));
+  return treasury.setBudget(trialId, handle, inputProof);
+}
+
+// Releases nothing if the payout would exceed the trial's budget.
+export async function releaseMilestonePayout(trialId: number, member: string, milestone: string, ethAmount: string) {
+  const treasury = await getTreasuryWithSigner();
+  const { handle, inputProof } = await encryptUint64(await treasury.getAddress(), member, parseTreasuryAmount(ethAmount));
+  return treasury.releaseMilestonePayout(trialId, milestone, handle, inputProof);
+}
+
+export async function syncCommittee(trialId: number) {
+  return (await getTreasuryWithSigner()).syncCommittee(trialId);
+}
+
+// The amount becomes withdrawable once the decryption oracle answers.
+export async function requestWithdrawal(trialId: number) {
+  return (await getTreasuryWithSigner()).requestWithdrawal(trialId);
+}
+
+export async function withdrawFunds() {
+  return (await getTreasuryWithSigner()).withdraw();
+}
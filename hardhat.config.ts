@@ -2,6 +2,10 @@ import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
+import "hardhat-deploy";
+
+import { getDeployerAccounts, readVar } from "./src/accounts";
+import "./tasks/dao";
 
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
@@ -9,12 +13,19 @@ const config: HardhatUserConfig = {
     hardhat: {
       chainId: 31337,
     },
+    localhost: {
+      chainId: 31337,
+      url: readVar("LOCALHOST_RPC_URL", "http://127.0.0.1:8545"),
+    },
     sepolia: {
       chainId: 11155111,
-      url: "https://sepolia.drpc.org",
-      accounts: [],
+      url: readVar("SEPOLIA_RPC_URL", "https://sepolia.drpc.org"),
+      accounts: getDeployerAccounts(),
     },
   },
+  namedAccounts: {
+    deployer: 0,
+  },
   solidity: {
     version: "0.8.24",
     settings: {
@@ -34,6 +45,7 @@ const config: HardhatUserConfig = {
     tests: "./test",
     cache: "./cache",
     artifacts: "./artifacts",
+    deployments: "./deployments",
   },
   typechain: {
     outDir: "types",
@@ -41,7 +53,7 @@ const config: HardhatUserConfig = {
   },
   etherscan: {
     apiKey: {
-      sepolia: "",
+      sepolia: readVar("ETHERSCAN_API_KEY"),
     },
   },
   gasReporter: {
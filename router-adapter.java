@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\router-adapter.java
-// Generated at: 2025-10-20T08:12:54.135Z
\ No newline at end of file
@@ -1,3 +0,0 @@
-import { ethers } from 'ethers';
-
-export default function interface() { return <div>Component</div>; }
@@ -0,0 +1,51 @@
+import "dotenv/config";
+import { Wallet } from "ethers";
+import fs from "fs";
+import { vars } from "hardhat/config";
+import type { HttpNetworkAccountsUserConfig } from "hardhat/types";
+
+/**
+ * Reads a deployment setting from the environment (including `.env`), falling
+ * back to the Hardhat configuration variable store (`npx hardhat vars set`).
+ */
+export function readVar(name: string, defaultValue = ""): string {
+  return process.env[name] || vars.get(name, defaultValue);
+}
+
+/** Reads a comma-separated list of addresses with readVar; empty when unset. */
+export function readAddresses(name: string): string[] {
+  return readVar(name)
+    .split(",")
+    .map((address) => address.trim())
+    .filter((address) => address !== "");
+}
+
+/**
+ * Resolves the signing accounts for remote networks. Keys are taken, in order,
+ * from DEPLOYER_PRIVATE_KEY, from the encrypted JSON keystore at
+ * DEPLOYER_KEYSTORE (unlocked with DEPLOYER_KEYSTORE_PASSWORD), or from
+ * MNEMONIC. Nothing is ever read from or written to the source tree.
+ */
+export function getDeployerAccounts(): HttpNetworkAccountsUserConfig {
+  const privateKey = readVar("DEPLOYER_PRIVATE_KEY");
+  if (privateKey) {
+    return [privateKey];
+  }
+
+  const keystorePath = readVar("DEPLOYER_KEYSTORE");
+  if (keystorePath) {
+    const keystore = fs.readFileSync(keystorePath, "utf8");
+    const wallet = Wallet.fromEncryptedJsonSync(
+      keystore,
+      readVar("DEPLOYER_KEYSTORE_PASSWORD"),
+    );
+    return [wallet.privateKey];
+  }
+
+  const mnemonic = readVar("MNEMONIC");
+  if (mnemonic) {
+    return { mnemonic };
+  }
+
+  return [];
+}
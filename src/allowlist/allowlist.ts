@@ -0,0 +1,76 @@
+import { StandardMerkleTree } from "@openzeppelin/merkle-tree";
+import { getAddress, isAddress } from "ethers";
+
+/** Leaf encoding checked by PatientDAOFHE.claimProvider. */
+export const LEAF_ENCODING = ["address"];
+
+/**
+ * Published allowlist: the root to set on the contract and one proof per
+ * provider, keyed by checksummed address. This is the file the claim page
+ * loads.
+ */
+export interface ProviderAllowlist {
+  root: string;
+  count: number;
+  proofs: Record<string, string[]>;
+}
+
+export class RosterError extends Error {
+  constructor(
+    message: string,
+    readonly line: number,
+  ) {
+    super(`line ${line}: ${message}`);
+    this.name = "RosterError";
+  }
+}
+
+/**
+ * Reads provider addresses from a CSV roster. The address is taken from an
+ * "address" column when the first row is a header, otherwise from the first
+ * column. Blank lines and "#" comments are skipped; duplicates are merged.
+ */
+export function parseRoster(csv: string): string[] {
+  const rows = csv
+    .split(/\r?\n/)
+    .map((text, i) => ({
+      line: i + 1,
+      cells: text.split(",").map((cell) => cell.trim()),
+    }))
+    .filter(({ cells }) => cells.join("") !== "" && !cells[0].startsWith("#"));
+  if (rows.length === 0) {
+    return [];
+  }
+
+  let column = 0;
+  const header = rows[0].cells.map((cell) => cell.toLowerCase());
+  if (!isAddress(rows[0].cells[0]) && header.includes("address")) {
+    column = header.indexOf("address");
+    rows.shift();
+  }
+
+  const addresses = new Set<string>();
+  for (const { line, cells } of rows) {
+    const value = cells[column] ?? "";
+    if (!isAddress(value)) {
+      throw new RosterError(`"${value}" is not an address`, line);
+    }
+    addresses.add(getAddress(value));
+  }
+  return [...addresses];
+}
+
+export function buildAllowlist(addresses: string[]): ProviderAllowlist {
+  if (addresses.length === 0) {
+    throw new Error("The roster is empty");
+  }
+  const tree = StandardMerkleTree.of(
+    addresses.map((address) => [getAddress(address)]),
+    LEAF_ENCODING,
+  );
+  const proofs: Record<string, string[]> = {};
+  for (const [i, [address]] of tree.entries()) {
+    proofs[address] = tree.getProof(i);
+  }
+  return { root: tree.root, count: addresses.length, proofs };
+}
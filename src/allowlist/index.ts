@@ -0,0 +1,31 @@
+import fs from "fs";
+
+import { buildAllowlist, parseRoster } from "./allowlist";
+
+/**
+ * Builds the provider allowlist from a CSV roster:
+ *
+ *   npm run allowlist -- roster.csv [allowlist.json]
+ *
+ * Publish the output file to providers and set its root on the contract with
+ * `npx hardhat dao:set-provider-root --allowlist allowlist.json`.
+ */
+function main() {
+  const [input, output = "provider-allowlist.json"] = process.argv.slice(2);
+  if (!input) {
+    throw new Error("Usage: npm run allowlist -- <roster.csv> [output.json]");
+  }
+
+  const allowlist = buildAllowlist(parseRoster(fs.readFileSync(input, "utf8")));
+  fs.writeFileSync(output, JSON.stringify(allowlist, null, 2) + "\n");
+  console.log(
+    `Wrote ${allowlist.count} providers to ${output}, Merkle root ${allowlist.root}`,
+  );
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+}
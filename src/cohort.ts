@@ -0,0 +1,109 @@
+import type { ContractTransactionResponse } from "ethers";
+
+import type { CohortStatistics, PatientRecordVault } from "../types";
+import { encryptCriteria } from "./eligibility";
+import type { EligibilityCriterion } from "./eligibility";
+import type { CreateEncryptedInput } from "./vault";
+
+/** Patients aggregated per processQuery transaction by default. */
+export const DEFAULT_PAGE_SIZE = 10;
+
+/** A decrypted query result. */
+export interface CohortResult {
+  /** False when the cohort was below the threshold; size and sum then read zero. */
+  released: boolean;
+  cohortSize: number;
+  sum: bigint;
+  /** The sum over the cohort size, null unless released. */
+  mean: number | null;
+}
+
+/**
+ * Lets the statistics contract include `patient`, the vault's runner, in
+ * queries created from now on on the trials they share their record with,
+ * once a DAO provider verified their record with `verifyRecord`. Resolves to
+ * null if it already may.
+ */
+export async function joinCohortStatistics(
+  vault: PatientRecordVault,
+  statistics: CohortStatistics,
+  patient: string,
+): Promise<ContractTransactionResponse | null> {
+  const evaluator = await statistics.getAddress();
+  if (await vault.isEvaluator(patient, evaluator)) {
+    return null;
+  }
+  return vault.allowEvaluator(evaluator);
+}
+
+/**
+ * Creates a query aggregating `field` over the patients of `trialId` matching
+ * all `filters`, encrypted as `researcher`, the trial's proposer, and resolves
+ * to its id once mined.
+ */
+export async function createCohortQuery(
+  statistics: CohortStatistics,
+  createInput: CreateEncryptedInput,
+  researcher: string,
+  trialId: bigint,
+  field: number,
+  filters: EligibilityCriterion[],
+): Promise<bigint> {
+  const { inputs, inputProof } = await encryptCriteria(
+    createInput,
+    await statistics.getAddress(),
+    researcher,
+    filters,
+  );
+  const receipt = await (
+    await statistics.createQuery(trialId, field, inputs, inputProof)
+  ).wait();
+  for (const log of receipt?.logs ?? []) {
+    const parsed = statistics.interface.parseLog(log);
+    if (parsed?.name === "QueryCreated") {
+      return parsed.args.queryId;
+    }
+  }
+  throw new Error("createQuery emitted no QueryCreated event");
+}
+
+/**
+ * Aggregates the rest of the query's cohort, `pageSize` patients per
+ * transaction. Returns the number of transactions sent.
+ */
+export async function processCohortQuery(
+  statistics: CohortStatistics,
+  queryId: bigint,
+  pageSize = DEFAULT_PAGE_SIZE,
+): Promise<number> {
+  let sent = 0;
+  for (;;) {
+    const { processed, patientCount } = await statistics.getQuery(queryId);
+    if (processed >= patientCount) {
+      return sent;
+    }
+    await (await statistics.processQuery(queryId, pageSize)).wait();
+    sent++;
+  }
+}
+
+/** The decrypted result, null until the oracle has answered a decryption request. */
+export async function loadCohortResult(
+  statistics: CohortStatistics,
+  queryId: bigint,
+): Promise<CohortResult | null> {
+  const result = await statistics.queryResults(queryId);
+  if (!result.revealed) {
+    return null;
+  }
+  const cohortSize = Number(result.cohortSize);
+  return {
+    released: result.released,
+    cohortSize,
+    sum: result.sum,
+    mean:
+      result.released && cohortSize > 0
+        ? Number(result.sum) / cohortSize
+        : null,
+  };
+}
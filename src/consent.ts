@@ -0,0 +1,168 @@
+import { keccak256, toUtf8Bytes } from "ethers";
+import type {
+  ContractTransactionResponse,
+  Signer,
+  TypedDataDomain,
+} from "ethers";
+
+import type { ConsentRegistry } from "../types";
+
+/** The EIP-712 type patients sign, matching ConsentRegistry.CONSENT_TYPEHASH. */
+export const CONSENT_TYPES = {
+  Consent: [
+    { name: "patient", type: "address" },
+    { name: "trialId", type: "uint256" },
+    { name: "version", type: "uint256" },
+    { name: "documentHash", type: "bytes32" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+/** How long a consent signature can wait to be submitted by default. */
+export const DEFAULT_SIGNATURE_TTL_SECONDS = 24 * 60 * 60;
+
+export interface SignedConsent {
+  patient: string;
+  trialId: bigint;
+  version: bigint;
+  deadline: bigint;
+  signature: string;
+}
+
+/** A patient's consent to one trial, as listed on their consent page. */
+export interface ConsentEntry {
+  trialId: bigint;
+  version: bigint;
+  /** Newest document version the trial has published. */
+  latestVersion: bigint;
+  documentHash: string;
+  uri: string;
+  givenAt: number;
+  /** Zero while the consent stands. */
+  withdrawnAt: number;
+  /** Neither withdrawn nor superseded by a version requiring consent again. */
+  active: boolean;
+}
+
+/** Hashes a consent document's file contents, or its text as UTF-8. */
+export function hashConsentDocument(document: string | Uint8Array): string {
+  return keccak256(
+    typeof document === "string" ? toUtf8Bytes(document) : document,
+  );
+}
+
+/** The registry's EIP-712 domain, as it reports it (ERC-5267). */
+export async function loadConsentDomain(
+  registry: ConsentRegistry,
+): Promise<TypedDataDomain> {
+  const { name, version, chainId, verifyingContract } =
+    await registry.eip712Domain();
+  return { name, version, chainId, verifyingContract };
+}
+
+/** Publishes the next version of the trial's consent document as its proposer, the registry's runner. */
+export async function publishConsentDocument(
+  registry: ConsentRegistry,
+  trialId: bigint,
+  document: string | Uint8Array,
+  uri: string,
+  reconsentRequired = false,
+): Promise<ContractTransactionResponse> {
+  return registry.publishDocument(
+    trialId,
+    hashConsentDocument(document),
+    uri,
+    reconsentRequired,
+  );
+}
+
+/**
+ * Signs consent to `version` of the trial's document, the latest by default,
+ * as `patient`. Anyone can submit the result with submitConsent.
+ */
+export async function signConsent(
+  registry: ConsentRegistry,
+  patient: Signer,
+  trialId: bigint,
+  version?: bigint,
+  deadline?: bigint,
+): Promise<SignedConsent> {
+  const patientAddress = await patient.getAddress();
+  const consentVersion = version ?? (await registry.latestVersion(trialId));
+  const [document, nonce, domain] = await Promise.all([
+    registry.getDocument(trialId, consentVersion),
+    registry.nonces(patientAddress),
+    loadConsentDomain(registry),
+  ]);
+  // Chain time, which a local node may have moved ahead of the clock
+  const latest = await patient.provider?.getBlock("latest");
+  const now = latest?.timestamp ?? Math.floor(Date.now() / 1000);
+  const consentDeadline =
+    deadline ?? BigInt(now + DEFAULT_SIGNATURE_TTL_SECONDS);
+  const signature = await patient.signTypedData(domain, CONSENT_TYPES, {
+    patient: patientAddress,
+    trialId,
+    version: consentVersion,
+    documentHash: document.documentHash,
+    nonce,
+    deadline: consentDeadline,
+  });
+  return {
+    patient: patientAddress,
+    trialId,
+    version: consentVersion,
+    deadline: consentDeadline,
+    signature,
+  };
+}
+
+export async function submitConsent(
+  registry: ConsentRegistry,
+  consent: SignedConsent,
+): Promise<ContractTransactionResponse> {
+  return registry.giveConsent(
+    consent.patient,
+    consent.trialId,
+    consent.version,
+    consent.deadline,
+    consent.signature,
+  );
+}
+
+/** Signs and submits the patient's consent to the trial's latest document. */
+export async function giveConsent(
+  registry: ConsentRegistry,
+  patient: Signer,
+  trialId: bigint,
+): Promise<ContractTransactionResponse> {
+  return submitConsent(registry, await signConsent(registry, patient, trialId));
+}
+
+/** Everything `patient` has consented to, including withdrawn and superseded consents. */
+export async function loadPatientConsents(
+  registry: ConsentRegistry,
+  patient: string,
+): Promise<ConsentEntry[]> {
+  const trialIds = await registry.getConsentedTrials(patient);
+  return Promise.all(
+    trialIds.map(async (trialId) => {
+      const [consent, latestVersion, active] = await Promise.all([
+        registry.consents(trialId, patient),
+        registry.latestVersion(trialId),
+        registry.hasActiveConsent(patient, trialId),
+      ]);
+      const document = await registry.getDocument(trialId, consent.version);
+      return {
+        trialId,
+        version: consent.version,
+        latestVersion,
+        documentHash: document.documentHash,
+        uri: document.uri,
+        givenAt: Number(consent.givenAt),
+        withdrawnAt: Number(consent.withdrawnAt),
+        active,
+      };
+    }),
+  );
+}
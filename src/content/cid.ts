@@ -0,0 +1,136 @@
+import { getBytes, sha256 } from "ethers";
+
+/** Same layout as `ipfs add --cid-version=1`: 256 KiB chunks in raw leaves, 174 links per node. */
+const CHUNK_SIZE = 256 * 1024;
+const MAX_LINKS = 174;
+
+const CODEC_RAW = 0x55;
+const CODEC_DAG_PB = 0x70;
+const MULTIHASH_SHA2_256 = 0x12;
+const UNIXFS_FILE = 2;
+
+const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+
+export const CONTENT_URI_PREFIX = "ipfs://";
+
+interface DagNode {
+  cid: Uint8Array;
+  /** Bytes of the file below this node. */
+  fileSize: number;
+  /** Bytes of every block below and including this node, as IPFS counts link sizes. */
+  treeSize: number;
+}
+
+function varint(value: number): number[] {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push(value % 0x80 | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  bytes.push(value);
+  return bytes;
+}
+
+function lengthDelimited(tag: number, bytes: Uint8Array | number[]): number[] {
+  return [tag, ...varint(bytes.length), ...bytes];
+}
+
+function cidOf(codec: number, block: Uint8Array): Uint8Array {
+  return Uint8Array.from([
+    1, // CIDv1
+    codec,
+    MULTIHASH_SHA2_256,
+    32,
+    ...getBytes(sha256(block)),
+  ]);
+}
+
+function base32(bytes: Uint8Array): string {
+  let output = "";
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+    buffer &= (1 << bits) - 1;
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+// A dag-pb node with UnixFS file data linking to `children`, links first as
+// the canonical encoding requires.
+function fileNode(children: DagNode[]): DagNode {
+  const fileSize = children.reduce((sum, child) => sum + child.fileSize, 0);
+  const data = [
+    0x08, // Type
+    UNIXFS_FILE,
+    0x18, // filesize
+    ...varint(fileSize),
+    ...children.flatMap((child) => [0x20, ...varint(child.fileSize)]), // blocksizes
+  ];
+  const block = Uint8Array.from([
+    ...children.flatMap((child) =>
+      lengthDelimited(0x12, [
+        ...lengthDelimited(0x0a, child.cid), // Hash
+        0x12, // Name, always written and empty
+        0,
+        0x18, // Tsize
+        ...varint(child.treeSize),
+      ]),
+    ),
+    ...lengthDelimited(0x0a, data),
+  ]);
+  return {
+    cid: cidOf(CODEC_DAG_PB, block),
+    fileSize,
+    treeSize:
+      block.length + children.reduce((sum, child) => sum + child.treeSize, 0),
+  };
+}
+
+/**
+ * The IPFS CID of a file's contents, as `ipfs add --cid-version=1` computes
+ * it with its default chunker and balanced layout. Contents that fit one chunk
+ * get the CID of a single raw block.
+ */
+export function computeCid(content: Uint8Array): string {
+  let layer: DagNode[] = [];
+  // An empty file is one empty chunk
+  const end = Math.max(content.length, 1);
+  for (let offset = 0; offset < end; offset += CHUNK_SIZE) {
+    const chunk = content.subarray(offset, offset + CHUNK_SIZE);
+    layer.push({
+      cid: cidOf(CODEC_RAW, chunk),
+      fileSize: chunk.length,
+      treeSize: chunk.length,
+    });
+  }
+  while (layer.length > 1) {
+    const parents: DagNode[] = [];
+    for (let i = 0; i < layer.length; i += MAX_LINKS) {
+      parents.push(fileNode(layer.slice(i, i + MAX_LINKS)));
+    }
+    layer = parents;
+  }
+  return "b" + base32(layer[0].cid);
+}
+
+export function contentUri(cid: string): string {
+  return CONTENT_URI_PREFIX + cid;
+}
+
+/** The CID of an `ipfs://` URI, or undefined for any other URI. */
+export function parseContentUri(uri: string): string | undefined {
+  if (!uri.startsWith(CONTENT_URI_PREFIX)) {
+    return undefined;
+  }
+  const cid = uri.slice(CONTENT_URI_PREFIX.length).split("/")[0];
+  return cid || undefined;
+}
@@ -0,0 +1,34 @@
+import "dotenv/config";
+
+import { env, envNumber } from "../env";
+import { createContentServer } from "./server";
+import { ContentStore, FileSystemBackend, KuboBackend } from "./store";
+
+/**
+ * Serves content-addressed documents for development:
+ *
+ *   npm run content
+ *
+ * Files go to CONTENT_DIR, or to an IPFS node when CONTENT_IPFS_API points at
+ * its RPC API (e.g. http://127.0.0.1:5001).
+ */
+function main() {
+  const ipfsApi = env("CONTENT_IPFS_API");
+  const backend = ipfsApi
+    ? new KuboBackend(ipfsApi)
+    : new FileSystemBackend(env("CONTENT_DIR", "content-store"));
+  const port = envNumber("CONTENT_PORT", 4001);
+
+  const server = createContentServer(new ContentStore(backend));
+  server.listen(port, () => {
+    console.log(
+      `Storing content ${ipfsApi ? `on the IPFS node at ${ipfsApi}` : `in ${(backend as FileSystemBackend).directory}`}, serving it on http://127.0.0.1:${port}`,
+    );
+  });
+
+  const shutdown = () => server.close();
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main();
@@ -0,0 +1,91 @@
+import http from "http";
+
+import { parseContentUri } from "./cid";
+import type { ContentStore } from "./store";
+
+/** Large enough for a protocol PDF. */
+export const MAX_CONTENT_BYTES = 32 * 1024 * 1024;
+
+function readBody(req: http.IncomingMessage): Promise<Uint8Array | undefined> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_CONTENT_BYTES) {
+        resolve(undefined);
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(new Uint8Array(Buffer.concat(chunks))));
+    req.on("error", reject);
+  });
+}
+
+/**
+ * Development stand-in for an IPFS node and gateway:
+ *
+ *   POST /content      stores the request body, answers with its CID and URI
+ *   GET  /ipfs/:cid    the stored bytes, like a gateway
+ *
+ * The store checks every CID, so clients can treat this server like any
+ * untrusted gateway and hash what they get back.
+ */
+export function createContentServer(store: ContentStore) {
+  return http.createServer(async (req, res) => {
+    // The frontend dev server runs on another origin.
+    const corsHeaders = {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, POST",
+      "Access-Control-Allow-Headers": "Content-Type",
+    };
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, {
+        "Content-Type": "application/json",
+        ...corsHeaders,
+      });
+      res.end(JSON.stringify(body));
+    };
+
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const cidMatch = /^\/ipfs\/([a-z0-9]+)$/.exec(url.pathname);
+    try {
+      if (req.method === "OPTIONS") {
+        res.writeHead(204, corsHeaders);
+        res.end();
+      } else if (req.method === "POST" && url.pathname === "/content") {
+        const content = await readBody(req);
+        if (content === undefined) {
+          send(413, { error: `Content exceeds ${MAX_CONTENT_BYTES} bytes` });
+          return;
+        }
+        const uri = await store.put(content);
+        send(200, { cid: parseContentUri(uri), uri });
+      } else if (req.method === "GET" && cidMatch) {
+        const content = await store.get(cidMatch[1]);
+        res.writeHead(200, {
+          "Content-Type": "application/octet-stream",
+          // Content never changes under the same CID.
+          "Cache-Control": "public, max-age=31536000, immutable",
+          ...corsHeaders,
+        });
+        res.end(content);
+      } else if (url.pathname === "/content" || cidMatch) {
+        send(405, { error: "Method not allowed" });
+      } else {
+        send(404, { error: "Not found" });
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        send(404, { error: "Not found" });
+      } else if (error instanceof RangeError) {
+        send(400, { error: error.message });
+      } else {
+        console.error("Content server error:", error);
+        send(500, { error: "Internal error" });
+      }
+    }
+  });
+}
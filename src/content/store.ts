@@ -0,0 +1,180 @@
+import fs from "fs";
+import path from "path";
+
+import { computeCid, contentUri, parseContentUri } from "./cid";
+
+/** Where the bytes live; the store checks them against their CID either way. */
+export interface ContentBackend {
+  /** Stores `content` and returns the CID the backend filed it under. */
+  put(content: Uint8Array): Promise<string>;
+  get(cid: string): Promise<Uint8Array>;
+}
+
+/** Content whose CID does not match what a backend stored or returned. */
+export class ContentIntegrityError extends Error {
+  constructor(
+    readonly expected: string,
+    readonly actual: string,
+  ) {
+    super(
+      `Content does not match its CID: expected ${expected}, got ${actual}`,
+    );
+    this.name = "ContentIntegrityError";
+  }
+}
+
+/** Proposal title and description, stored as JSON under the proposal's metadata URI. */
+export interface ProposalMetadata {
+  title: string;
+  description: string;
+  /** `ipfs://` URI of the trial protocol, if one was attached. */
+  protocol?: string;
+}
+
+/**
+ * Content-addressed storage for proposal bodies, protocols and consent
+ * documents. Only the `ipfs://` URI goes on-chain; whatever a backend returns
+ * is hashed again, so a tampered or substituted file is rejected when loaded.
+ */
+export class ContentStore {
+  constructor(readonly backend: ContentBackend) {}
+
+  /** Stores `content` and returns its `ipfs://` URI. */
+  async put(content: Uint8Array | string): Promise<string> {
+    const bytes =
+      typeof content === "string" ? new TextEncoder().encode(content) : content;
+    const cid = computeCid(bytes);
+    const stored = await this.backend.put(bytes);
+    if (stored !== cid) {
+      throw new ContentIntegrityError(cid, stored);
+    }
+    return contentUri(cid);
+  }
+
+  /** Loads the content of an `ipfs://` URI or a bare CID. */
+  async get(uriOrCid: string): Promise<Uint8Array> {
+    const cid = parseContentUri(uriOrCid) ?? uriOrCid;
+    const content = await this.backend.get(cid);
+    const actual = computeCid(content);
+    if (actual !== cid) {
+      throw new ContentIntegrityError(cid, actual);
+    }
+    return content;
+  }
+
+  async putJson(value: unknown): Promise<string> {
+    return this.put(JSON.stringify(value));
+  }
+
+  async getJson<T>(uriOrCid: string): Promise<T> {
+    return JSON.parse(new TextDecoder().decode(await this.get(uriOrCid)));
+  }
+}
+
+/** Stores the metadata and returns the URI to pass to `submitProposal`. */
+export async function storeProposalMetadata(
+  store: ContentStore,
+  metadata: ProposalMetadata,
+): Promise<string> {
+  return store.putJson(metadata);
+}
+
+export async function loadProposalMetadata(
+  store: ContentStore,
+  uri: string,
+): Promise<ProposalMetadata> {
+  const raw = await store.getJson<Record<string, unknown>>(uri);
+  return {
+    title: String(raw.title ?? ""),
+    description: String(raw.description ?? ""),
+    ...(typeof raw.protocol === "string" ? { protocol: raw.protocol } : {}),
+  };
+}
+
+/** One file per CID in a local directory, standing in for IPFS during development. */
+export class FileSystemBackend implements ContentBackend {
+  constructor(readonly directory: string) {
+    fs.mkdirSync(directory, { recursive: true });
+  }
+
+  async put(content: Uint8Array): Promise<string> {
+    const cid = computeCid(content);
+    await fs.promises.writeFile(this.pathOf(cid), content);
+    return cid;
+  }
+
+  async get(cid: string): Promise<Uint8Array> {
+    return new Uint8Array(await fs.promises.readFile(this.pathOf(cid)));
+  }
+
+  private pathOf(cid: string): string {
+    // CIDs are base32, so anything else could escape the directory
+    if (!/^b[a-z2-7]+$/.test(cid)) {
+      throw new RangeError(`Invalid CID "${cid}"`);
+    }
+    return path.join(this.directory, cid);
+  }
+}
+
+/** An IPFS node's RPC API, Kubo's `/api/v0`, which pins what it adds. */
+export class KuboBackend implements ContentBackend {
+  constructor(readonly apiUrl: string) {}
+
+  async put(content: Uint8Array): Promise<string> {
+    const form = new FormData();
+    form.append("file", new Blob([content]));
+    const response = await this.call("add?cid-version=1&pin=true", form);
+    const { Hash } = (await response.json()) as { Hash: string };
+    return Hash;
+  }
+
+  async get(cid: string): Promise<Uint8Array> {
+    const response = await this.call(`cat?arg=${encodeURIComponent(cid)}`);
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  private async call(command: string, body?: FormData): Promise<Response> {
+    const response = await fetch(`${this.apiUrl}/api/v0/${command}`, {
+      method: "POST",
+      body,
+    });
+    if (!response.ok) {
+      throw new Error(
+        `IPFS request failed with ${response.status}: ${await response.text()}`,
+      );
+    }
+    return response;
+  }
+}
+
+/**
+ * Reads through an IPFS gateway's `/ipfs/:cid` paths and writes to
+ * `POST /content`, as the development content server (`npm run content`)
+ * serves them. Public gateways are read-only.
+ */
+export class GatewayBackend implements ContentBackend {
+  constructor(readonly url: string) {}
+
+  async put(content: Uint8Array): Promise<string> {
+    const response = await fetch(`${this.url}/content`, {
+      method: "POST",
+      headers: { "Content-Type": "application/octet-stream" },
+      body: content,
+    });
+    const result = (await response.json()) as { cid?: string; error?: string };
+    if (!response.ok || !result.cid) {
+      throw new Error(
+        `Content upload failed with ${response.status}: ${result.error}`,
+      );
+    }
+    return result.cid;
+  }
+
+  async get(cid: string): Promise<Uint8Array> {
+    const response = await fetch(`${this.url}/ipfs/${cid}`);
+    if (!response.ok) {
+      throw new Error(`Content request failed with ${response.status}`);
+    }
+    return new Uint8Array(await response.arrayBuffer());
+  }
+}
@@ -0,0 +1,99 @@
+import { id } from "ethers";
+import fs from "fs";
+import type { Deployment } from "hardhat-deploy/types";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import path from "path";
+
+import { readVar } from "./accounts";
+
+const FRONTEND_SRC = path.join(__dirname, "..", "frontend", "web", "src");
+
+export const REGISTRY_PATH = path.join(FRONTEND_SRC, "deployments.json");
+export const FRONTEND_ABI_DIR = path.join(FRONTEND_SRC, "abi");
+
+export interface ContractDeployment {
+  address: string;
+  abiHash: string;
+  deployBlock: number;
+  deployer: string;
+}
+
+export interface NetworkDeployments {
+  name: string;
+  rpcUrl?: string;
+  contracts: Record<string, ContractDeployment>;
+}
+
+/** Deployments keyed by decimal chain id, shared with the frontend. */
+export type DeploymentRegistry = Record<string, NetworkDeployments>;
+
+/**
+ * Fingerprints an ABI so the frontend can tell when the ABI it was bundled with
+ * no longer matches the deployed contract. The frontend computes the same hash.
+ */
+export function abiHash(abi: unknown): string {
+  return id(JSON.stringify(abi));
+}
+
+export function readRegistry(file = REGISTRY_PATH): DeploymentRegistry {
+  if (!fs.existsSync(file)) {
+    return {};
+  }
+  return JSON.parse(fs.readFileSync(file, "utf8")) as DeploymentRegistry;
+}
+
+/**
+ * RPC endpoint the frontend falls back to when no wallet is injected. Node URLs
+ * from the Hardhat config may embed API keys, so only localhost is published
+ * implicitly; other networks need FRONTEND_RPC_URL or keep their current entry.
+ */
+function publicRpcUrl(
+  hre: HardhatRuntimeEnvironment,
+  current?: string,
+): string | undefined {
+  const override = readVar("FRONTEND_RPC_URL");
+  if (override) {
+    return override;
+  }
+  if (hre.network.name === "localhost" && "url" in hre.network.config) {
+    return hre.network.config.url;
+  }
+  return current;
+}
+
+/**
+ * Records a deployment under the current chain id in the frontend registry and
+ * refreshes the ABI the frontend bundles for it.
+ */
+export async function recordDeployment(
+  hre: HardhatRuntimeEnvironment,
+  name: string,
+  deployment: Deployment,
+): Promise<ContractDeployment> {
+  const chainId = (await hre.getChainId()).toString();
+  const registry = readRegistry();
+  const network = registry[chainId] ?? {
+    name: hre.network.name,
+    contracts: {},
+  };
+
+  const entry: ContractDeployment = {
+    address: deployment.address,
+    abiHash: abiHash(deployment.abi),
+    deployBlock: deployment.receipt?.blockNumber ?? 0,
+    deployer: deployment.receipt?.from ?? "",
+  };
+  registry[chainId] = {
+    name: hre.network.name,
+    rpcUrl: publicRpcUrl(hre, network.rpcUrl),
+    contracts: { ...network.contracts, [name]: entry },
+  };
+  fs.writeFileSync(REGISTRY_PATH, JSON.stringify(registry, null, 2) + "\n");
+
+  const artifact = await hre.deployments.getArtifact(name);
+  fs.writeFileSync(
+    path.join(FRONTEND_ABI_DIR, `${name}.json`),
+    JSON.stringify(artifact, null, 2) + "\n",
+  );
+  return entry;
+}
@@ -0,0 +1,390 @@
+import { TypedDataEncoder, ZeroHash, verifyTypedData } from "ethers";
+import type { Signer, TypedDataDomain } from "ethers";
+
+import type { PatientDAOFHE } from "../types";
+
+/** The EIP-712 type of a comment on a proposal; its hash is the comment's id. */
+export const COMMENT_TYPES = {
+  Comment: [
+    { name: "proposalId", type: "uint256" },
+    { name: "parentId", type: "bytes32" },
+    { name: "author", type: "address" },
+    { name: "body", type: "string" },
+    { name: "createdAt", type: "uint256" },
+  ],
+};
+
+/** The EIP-712 type the DAO owner signs to hide a comment, or to show it again. */
+export const MODERATION_TYPES = {
+  Moderation: [
+    { name: "proposalId", type: "uint256" },
+    { name: "commentId", type: "bytes32" },
+    { name: "hidden", type: "bool" },
+    { name: "moderator", type: "address" },
+    { name: "createdAt", type: "uint256" },
+  ],
+};
+
+export const MAX_COMMENT_LENGTH = 2000;
+
+/** A comment as stored and served, with the author's signature over every other field. */
+export interface SignedComment {
+  proposalId: string;
+  /** Zero hash for a top-level comment. */
+  parentId: string;
+  author: string;
+  body: string;
+  /** Unix time claimed by the author. */
+  createdAt: number;
+  signature: string;
+}
+
+export interface SignedModeration {
+  proposalId: string;
+  commentId: string;
+  hidden: boolean;
+  moderator: string;
+  createdAt: number;
+  signature: string;
+}
+
+/** Off-chain storage for a proposal's comments and moderation entries. */
+export interface CommentStore {
+  listComments(proposalId: string): Promise<SignedComment[]>;
+  listModerations(proposalId: string): Promise<SignedModeration[]>;
+  addComment(comment: SignedComment): Promise<void>;
+  addModeration(moderation: SignedModeration): Promise<void>;
+}
+
+/** Role badges, read on-chain for the comment's author. */
+export type AuthorBadge = "proposer" | "reviewer" | "member";
+
+export interface CommentNode {
+  id: string;
+  comment: SignedComment;
+  badges: AuthorBadge[];
+  /** Hidden by the DAO owner; the body should not be shown, its replies still are. */
+  hidden: boolean;
+  /** Oldest first. */
+  replies: CommentNode[];
+}
+
+/**
+ * Comments are not submitted on-chain; the domain binds them to the DAO
+ * deployment so a signature cannot be replayed against another one.
+ */
+export function discussionDomain(
+  chainId: bigint | number,
+  daoAddress: string,
+): TypedDataDomain {
+  return {
+    name: "PatientDAO Discussion",
+    version: "1",
+    chainId,
+    verifyingContract: daoAddress,
+  };
+}
+
+export async function loadDiscussionDomain(
+  dao: PatientDAOFHE,
+): Promise<TypedDataDomain> {
+  const [network, address] = await Promise.all([
+    dao.runner!.provider!.getNetwork(),
+    dao.getAddress(),
+  ]);
+  return discussionDomain(network.chainId, address);
+}
+
+function commentMessage(comment: SignedComment) {
+  return {
+    proposalId: comment.proposalId,
+    parentId: comment.parentId,
+    author: comment.author,
+    body: comment.body,
+    createdAt: comment.createdAt,
+  };
+}
+
+function moderationMessage(moderation: SignedModeration) {
+  return {
+    proposalId: moderation.proposalId,
+    commentId: moderation.commentId,
+    hidden: moderation.hidden,
+    moderator: moderation.moderator,
+    createdAt: moderation.createdAt,
+  };
+}
+
+export function commentId(
+  domain: TypedDataDomain,
+  comment: SignedComment,
+): string {
+  return TypedDataEncoder.hash(domain, COMMENT_TYPES, commentMessage(comment));
+}
+
+/** Whether the comment was signed by its claimed author; malformed entries are not. */
+export function verifyComment(
+  domain: TypedDataDomain,
+  comment: SignedComment,
+): boolean {
+  try {
+    const signer = verifyTypedData(
+      domain,
+      COMMENT_TYPES,
+      commentMessage(comment),
+      comment.signature,
+    );
+    return (
+      signer.toLowerCase() === comment.author.toLowerCase() &&
+      comment.body.length <= MAX_COMMENT_LENGTH
+    );
+  } catch {
+    return false;
+  }
+}
+
+/** Whether the entry was signed by its claimed moderator, who still has to be the DAO owner. */
+export function verifyModeration(
+  domain: TypedDataDomain,
+  moderation: SignedModeration,
+): boolean {
+  try {
+    const signer = verifyTypedData(
+      domain,
+      MODERATION_TYPES,
+      moderationMessage(moderation),
+      moderation.signature,
+    );
+    return signer.toLowerCase() === moderation.moderator.toLowerCase();
+  } catch {
+    return false;
+  }
+}
+
+export async function signComment(
+  dao: PatientDAOFHE,
+  author: Signer,
+  proposalId: bigint,
+  body: string,
+  parentId = ZeroHash,
+): Promise<SignedComment> {
+  if (body.length > MAX_COMMENT_LENGTH) {
+    throw new RangeError(
+      `Comments are limited to ${MAX_COMMENT_LENGTH} characters`,
+    );
+  }
+  const comment: SignedComment = {
+    proposalId: proposalId.toString(),
+    parentId,
+    author: await author.getAddress(),
+    body,
+    createdAt: Math.floor(Date.now() / 1000),
+    signature: "",
+  };
+  comment.signature = await author.signTypedData(
+    await loadDiscussionDomain(dao),
+    COMMENT_TYPES,
+    commentMessage(comment),
+  );
+  return comment;
+}
+
+/** Signs a moderation entry as `moderator`, which only counts while they own the DAO. */
+export async function signModeration(
+  dao: PatientDAOFHE,
+  moderator: Signer,
+  proposalId: bigint,
+  commentId: string,
+  hidden: boolean,
+): Promise<SignedModeration> {
+  const moderation: SignedModeration = {
+    proposalId: proposalId.toString(),
+    commentId,
+    hidden,
+    moderator: await moderator.getAddress(),
+    createdAt: Math.floor(Date.now() / 1000),
+    signature: "",
+  };
+  moderation.signature = await moderator.signTypedData(
+    await loadDiscussionDomain(dao),
+    MODERATION_TYPES,
+    moderationMessage(moderation),
+  );
+  return moderation;
+}
+
+/** Signs a comment as `author` and stores it; returns its id. */
+export async function postComment(
+  dao: PatientDAOFHE,
+  store: CommentStore,
+  author: Signer,
+  proposalId: bigint,
+  body: string,
+  parentId = ZeroHash,
+): Promise<string> {
+  const comment = await signComment(dao, author, proposalId, body, parentId);
+  await store.addComment(comment);
+  return commentId(await loadDiscussionDomain(dao), comment);
+}
+
+export async function moderateComment(
+  dao: PatientDAOFHE,
+  store: CommentStore,
+  moderator: Signer,
+  proposalId: bigint,
+  commentId: string,
+  hidden: boolean,
+): Promise<void> {
+  await store.addModeration(
+    await signModeration(dao, moderator, proposalId, commentId, hidden),
+  );
+}
+
+/**
+ * Loads a proposal's discussion as threads, oldest first. Nothing the store
+ * returns is trusted: comments whose signature does not match their author are
+ * dropped, and only moderation signed by the current DAO owner applies, the
+ * latest entry per comment winning. Replies to a dropped or unknown comment
+ * become top-level threads.
+ */
+export async function loadDiscussion(
+  dao: PatientDAOFHE,
+  store: CommentStore,
+  proposalId: bigint,
+): Promise<CommentNode[]> {
+  const id = proposalId.toString();
+  const [domain, comments, moderations, owner, proposal] = await Promise.all([
+    loadDiscussionDomain(dao),
+    store.listComments(id),
+    store.listModerations(id),
+    dao.owner(),
+    dao.getProposal(proposalId),
+  ]);
+
+  const hidden = new Map<string, boolean>();
+  moderations
+    .filter(
+      (moderation) =>
+        moderation.proposalId === id &&
+        moderation.moderator.toLowerCase() === owner.toLowerCase() &&
+        verifyModeration(domain, moderation),
+    )
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .forEach((moderation) =>
+      hidden.set(moderation.commentId, moderation.hidden),
+    );
+
+  const verified = comments
+    .filter(
+      (comment) => comment.proposalId === id && verifyComment(domain, comment),
+    )
+    .sort((a, b) => a.createdAt - b.createdAt);
+  const badges = await loadAuthorBadges(
+    dao,
+    proposal.proposer,
+    verified.map((comment) => comment.author),
+  );
+
+  const nodes = new Map<string, CommentNode>();
+  for (const comment of verified) {
+    const nodeId = commentId(domain, comment);
+    nodes.set(nodeId, {
+      id: nodeId,
+      comment,
+      badges: badges.get(comment.author.toLowerCase()) ?? [],
+      hidden: hidden.get(nodeId) ?? false,
+      replies: [],
+    });
+  }
+  const threads: CommentNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = nodes.get(node.comment.parentId);
+    (parent && parent !== node ? parent.replies : threads).push(node);
+  }
+  return threads;
+}
+
+async function loadAuthorBadges(
+  dao: PatientDAOFHE,
+  proposer: string,
+  authors: string[],
+): Promise<Map<string, AuthorBadge[]>> {
+  const unique = [...new Set(authors.map((author) => author.toLowerCase()))];
+  const entries = await Promise.all(
+    unique.map(async (author): Promise<[string, AuthorBadge[]]> => {
+      const [isReviewer, isMember] = await Promise.all([
+        dao.isReviewer(author),
+        dao.isMember(author),
+      ]);
+      const badges: AuthorBadge[] = [];
+      if (author === proposer.toLowerCase()) badges.push("proposer");
+      if (isReviewer) badges.push("reviewer");
+      if (isMember) badges.push("member");
+      return [author, badges];
+    }),
+  );
+  return new Map(entries);
+}
+
+/** Keeps everything in memory, for scripts and tests. */
+export class MemoryCommentStore implements CommentStore {
+  private readonly comments: SignedComment[] = [];
+  private readonly moderations: SignedModeration[] = [];
+
+  async listComments(proposalId: string): Promise<SignedComment[]> {
+    return this.comments.filter((comment) => comment.proposalId === proposalId);
+  }
+
+  async listModerations(proposalId: string): Promise<SignedModeration[]> {
+    return this.moderations.filter(
+      (moderation) => moderation.proposalId === proposalId,
+    );
+  }
+
+  async addComment(comment: SignedComment): Promise<void> {
+    this.comments.push(comment);
+  }
+
+  async addModeration(moderation: SignedModeration): Promise<void> {
+    this.moderations.push(moderation);
+  }
+}
+
+/** Talks to the comment endpoints of the indexer API (`npm run indexer`). */
+export class IndexerCommentStore implements CommentStore {
+  constructor(private readonly baseUrl: string) {}
+
+  async listComments(proposalId: string): Promise<SignedComment[]> {
+    return this.request(`/proposals/${proposalId}/comments`);
+  }
+
+  async listModerations(proposalId: string): Promise<SignedModeration[]> {
+    return this.request(`/proposals/${proposalId}/moderations`);
+  }
+
+  async addComment(comment: SignedComment): Promise<void> {
+    await this.request(`/proposals/${comment.proposalId}/comments`, comment);
+  }
+
+  async addModeration(moderation: SignedModeration): Promise<void> {
+    await this.request(
+      `/proposals/${moderation.proposalId}/moderations`,
+      moderation,
+    );
+  }
+
+  private async request<T>(path: string, body?: unknown): Promise<T> {
+    const response = await fetch(this.baseUrl + path, {
+      method: body === undefined ? "GET" : "POST",
+      headers: { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const result = (await response.json()) as T & { error?: string };
+    if (!response.ok) {
+      throw new Error(
+        `Comment store request failed with ${response.status}: ${result.error}`,
+      );
+    }
+    return result;
+  }
+}
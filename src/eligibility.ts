@@ -0,0 +1,93 @@
+import { ZeroHash } from "ethers";
+import type { ContractTransactionResponse } from "ethers";
+
+import type { PatientRecordVault, TrialEligibility } from "../types";
+import type { CreateEncryptedInput, DecryptHandles } from "./vault";
+
+/** Mirrors the RecordCriteria.FIELD_* constants. */
+export const Field = {
+  AgeBracket: 0,
+  DiagnosisCode: 1,
+  biomarker: (index: number) => 2 + index,
+} as const;
+
+/** A range on one record field; kept in the clear on the researcher's side only. */
+export interface EligibilityCriterion {
+  field: number;
+  /** Exclusion criteria rule out patients within the range. */
+  exclude?: boolean;
+  min: number;
+  max: number;
+}
+
+/** Encrypts the ranges of `criteria` for `contractAddress`, as RecordCriteria.CriterionInput values. */
+export async function encryptCriteria(
+  createInput: CreateEncryptedInput,
+  contractAddress: string,
+  user: string,
+  criteria: EligibilityCriterion[],
+) {
+  const input = createInput(contractAddress, user);
+  for (const criterion of criteria) {
+    input.add32(criterion.min).add32(criterion.max);
+  }
+  const { handles, inputProof } = await input.encrypt();
+  return {
+    inputs: criteria.map((criterion, i) => ({
+      field: criterion.field,
+      exclude: criterion.exclude ?? false,
+      min: handles[2 * i],
+      max: handles[2 * i + 1],
+    })),
+    inputProof,
+  };
+}
+
+/** Encrypts `criteria` as the trial's proposer and replaces the trial's criteria with them. */
+export async function setTrialCriteria(
+  eligibility: TrialEligibility,
+  createInput: CreateEncryptedInput,
+  proposer: string,
+  trialId: bigint,
+  criteria: EligibilityCriterion[],
+): Promise<ContractTransactionResponse> {
+  const { inputs, inputProof } = await encryptCriteria(
+    createInput,
+    await eligibility.getAddress(),
+    proposer,
+    criteria,
+  );
+  return eligibility.setCriteria(trialId, inputs, inputProof);
+}
+
+/**
+ * Checks `patient`, the runner of both contracts, against a trial. Allows the
+ * eligibility contract to compute on their record first if they have not yet.
+ */
+export async function checkEligibility(
+  eligibility: TrialEligibility,
+  vault: PatientRecordVault,
+  patient: string,
+  trialId: bigint,
+): Promise<ContractTransactionResponse> {
+  const evaluator = await eligibility.getAddress();
+  if (!(await vault.isEvaluator(patient, evaluator))) {
+    await (await vault.allowEvaluator(evaluator)).wait();
+  }
+  return eligibility.checkEligibility(trialId);
+}
+
+/** The patient's last result for the trial, null until they have checked. */
+export async function decryptEligibility(
+  eligibility: TrialEligibility,
+  patient: string,
+  trialId: bigint,
+  decrypt: DecryptHandles,
+): Promise<boolean | null> {
+  const handle = await eligibility.getEligibility(trialId, patient);
+  if (handle === ZeroHash) {
+    return null;
+  }
+  const values = await decrypt([handle]);
+  return values[handle] !== 0n;
+}
@@ -0,0 +1,8 @@
+export function env(name: string, defaultValue = ""): string {
+  return process.env[name] || defaultValue;
+}
+
+export function envNumber(name: string, defaultValue: number): number {
+  const value = env(name);
+  return value === "" ? defaultValue : Number(value);
+}
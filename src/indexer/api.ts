@@ -0,0 +1,269 @@
+import { ZeroHash } from "ethers";
+import http from "http";
+
+import {
+  MAX_COMMENT_LENGTH,
+  commentId,
+  discussionDomain,
+  verifyComment,
+  verifyModeration,
+} from "../discussion";
+import type { SignedComment, SignedModeration } from "../discussion";
+import type { IndexerStore } from "./store";
+
+export interface ApiInfo {
+  chainId: number;
+  address: string;
+}
+
+type Handler = (
+  params: string[],
+  query: URLSearchParams,
+  body: unknown,
+) => unknown;
+
+/** Rejected input, answered with a 400 like a RangeError from a query parameter. */
+class BadRequestError extends Error {}
+
+const MAX_BODY_BYTES = 16 * 1024;
+
+/** How far ahead of the server's clock a signed entry may claim to be. */
+const MAX_CLOCK_SKEW_SECONDS = 5 * 60;
+
+function optionalNumber(value: string | null): number | undefined {
+  if (value === null || value === "") {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new RangeError(`Expected a non-negative integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+function readBody(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new BadRequestError("Request body too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf8")));
+      } catch {
+        reject(new BadRequestError("Request body is not valid JSON"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+function requireFields(
+  body: unknown,
+  fields: Record<string, "string" | "number" | "boolean">,
+): Record<string, unknown> {
+  if (typeof body !== "object" || body === null) {
+    throw new BadRequestError("Expected a JSON object");
+  }
+  const entry = body as Record<string, unknown>;
+  for (const [field, type] of Object.entries(fields)) {
+    if (typeof entry[field] !== type) {
+      throw new BadRequestError(`Expected "${field}" to be a ${type}`);
+    }
+  }
+  return entry;
+}
+
+function checkCreatedAt(createdAt: number) {
+  if (
+    !Number.isInteger(createdAt) ||
+    createdAt < 0 ||
+    createdAt > Date.now() / 1000 + MAX_CLOCK_SKEW_SECONDS
+  ) {
+    throw new BadRequestError("Invalid createdAt");
+  }
+}
+
+/**
+ * JSON API over the indexed events, plus the off-chain discussion of each
+ * proposal:
+ *
+ *   GET /health                         chain, contract and last indexed block
+ *   GET /events?name=&batchId=&proposalId=&fromBlock=&limit=&offset=
+ *   GET /batches                        per-batch submissions and decrypted results
+ *   GET /batches/:id/events
+ *   GET /proposals/:id/events
+ *   GET|POST /proposals/:id/comments    EIP-712 signed comments
+ *   GET|POST /proposals/:id/moderations entries hiding comments
+ *
+ * Posted entries are only stored once their signature matches their author.
+ * Whether a moderator owns the DAO is left to clients, which check every entry
+ * again rather than trust this server.
+ */
+export function createApiServer(store: IndexerStore, info: ApiInfo) {
+  const domain = discussionDomain(info.chainId, info.address);
+
+  const postComment: Handler = ([proposalId], _, body) => {
+    const entry = requireFields(body, {
+      parentId: "string",
+      author: "string",
+      body: "string",
+      createdAt: "number",
+      signature: "string",
+    });
+    const comment: SignedComment = {
+      proposalId,
+      parentId: entry.parentId as string,
+      author: entry.author as string,
+      body: entry.body as string,
+      createdAt: entry.createdAt as number,
+      signature: entry.signature as string,
+    };
+    if (comment.body.length === 0 || comment.body.length > MAX_COMMENT_LENGTH) {
+      throw new BadRequestError(
+        `Comments must have 1 to ${MAX_COMMENT_LENGTH} characters`,
+      );
+    }
+    checkCreatedAt(comment.createdAt);
+    if (!verifyComment(domain, comment)) {
+      throw new BadRequestError("Signature does not match the author");
+    }
+    if (
+      comment.parentId !== ZeroHash &&
+      !store.hasComment(proposalId, comment.parentId)
+    ) {
+      throw new BadRequestError("Unknown parent comment");
+    }
+    const id = commentId(domain, comment);
+    store.addComment(id, comment);
+    return { id };
+  };
+
+  const postModeration: Handler = ([proposalId], _, body) => {
+    const entry = requireFields(body, {
+      commentId: "string",
+      hidden: "boolean",
+      moderator: "string",
+      createdAt: "number",
+      signature: "string",
+    });
+    const moderation: SignedModeration = {
+      proposalId,
+      commentId: entry.commentId as string,
+      hidden: entry.hidden as boolean,
+      moderator: entry.moderator as string,
+      createdAt: entry.createdAt as number,
+      signature: entry.signature as string,
+    };
+    checkCreatedAt(moderation.createdAt);
+    if (!verifyModeration(domain, moderation)) {
+      throw new BadRequestError("Signature does not match the moderator");
+    }
+    if (!store.hasComment(proposalId, moderation.commentId)) {
+      throw new BadRequestError("Unknown comment");
+    }
+    store.addModeration(moderation);
+    return { commentId: moderation.commentId };
+  };
+
+  const routes: [string, RegExp, Handler][] = [
+    [
+      "GET",
+      /^\/health$/,
+      () => ({ ...info, cursor: store.getCursor() ?? null }),
+    ],
+    [
+      "GET",
+      /^\/events$/,
+      (_, query) =>
+        store.listEvents({
+          name: query.get("name") ?? undefined,
+          batchId: query.get("batchId") ?? undefined,
+          proposalId: query.get("proposalId") ?? undefined,
+          fromBlock: optionalNumber(query.get("fromBlock")),
+          limit: optionalNumber(query.get("limit")),
+          offset: optionalNumber(query.get("offset")),
+        }),
+    ],
+    ["GET", /^\/batches$/, () => store.listBatches()],
+    [
+      "GET",
+      /^\/batches\/(\d+)\/events$/,
+      ([batchId]) => store.listEvents({ batchId, limit: 500 }),
+    ],
+    [
+      "GET",
+      /^\/proposals\/(\d+)\/events$/,
+      ([proposalId]) => store.listEvents({ proposalId, limit: 500 }),
+    ],
+    [
+      "GET",
+      /^\/proposals\/(\d+)\/comments$/,
+      ([proposalId]) => store.listComments(proposalId),
+    ],
+    ["POST", /^\/proposals\/(\d+)\/comments$/, postComment],
+    [
+      "GET",
+      /^\/proposals\/(\d+)\/moderations$/,
+      ([proposalId]) => store.listModerations(proposalId),
+    ],
+    ["POST", /^\/proposals\/(\d+)\/moderations$/, postModeration],
+  ];
+
+  return http.createServer(async (req, res) => {
+    // The frontend dev server runs on another origin.
+    const corsHeaders = {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, POST",
+      "Access-Control-Allow-Headers": "Content-Type",
+    };
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, {
+        "Content-Type": "application/json",
+        ...corsHeaders,
+      });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method === "OPTIONS") {
+      res.writeHead(204, corsHeaders);
+      res.end();
+      return;
+    }
+
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const matching = routes.filter(([, pattern]) => pattern.test(url.pathname));
+    const route = matching.find(([method]) => method === req.method);
+    if (!route) {
+      if (matching.length > 0) {
+        send(405, { error: "Method not allowed" });
+      } else {
+        send(404, { error: "Not found" });
+      }
+      return;
+    }
+
+    const [method, pattern, handler] = route;
+    try {
+      const body = method === "POST" ? await readBody(req) : undefined;
+      send(
+        200,
+        handler(pattern.exec(url.pathname)!.slice(1), url.searchParams, body),
+      );
+    } catch (error) {
+      if (error instanceof RangeError || error instanceof BadRequestError) {
+        send(400, { error: error.message });
+      } else {
+        console.error("Indexer API error:", error);
+        send(500, { error: "Internal error" });
+      }
+    }
+  });
+}
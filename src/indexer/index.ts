@@ -0,0 +1,60 @@
+import "dotenv/config";
+import { JsonRpcProvider } from "ethers";
+
+import { readRegistry } from "../deployments";
+import { env, envNumber } from "../env";
+import { createApiServer } from "./api";
+import { DEFAULT_INDEXER_OPTIONS, EventIndexer } from "./indexer";
+import { IndexerStore } from "./store";
+
+async function main() {
+  const provider = new JsonRpcProvider(
+    env("INDEXER_RPC_URL", "http://127.0.0.1:8545"),
+  );
+  const chainId = Number((await provider.getNetwork()).chainId);
+
+  // Fall back to the deployments registry written by `hardhat deploy`.
+  const deployment = readRegistry()[chainId]?.contracts.PatientDAOFHE;
+  const address = env("INDEXER_CONTRACT_ADDRESS", deployment?.address);
+  if (!address) {
+    throw new Error(
+      `No PatientDAOFHE deployment registered for chain ${chainId}, set INDEXER_CONTRACT_ADDRESS`,
+    );
+  }
+
+  const store = new IndexerStore(env("INDEXER_DB", "indexer.sqlite"));
+  const indexer = new EventIndexer(provider, store, {
+    ...DEFAULT_INDEXER_OPTIONS,
+    address,
+    trialStoreAddress: env("INDEXER_TRIAL_STORE_ADDRESS") || undefined,
+    startBlock: envNumber("INDEXER_START_BLOCK", deployment?.deployBlock ?? 0),
+    confirmations: envNumber(
+      "INDEXER_CONFIRMATIONS",
+      DEFAULT_INDEXER_OPTIONS.confirmations,
+    ),
+  });
+
+  const port = envNumber("INDEXER_PORT", 4000);
+  const server = createApiServer(store, { chainId, address });
+  server.listen(port, () => {
+    console.log(
+      `Indexing PatientDAOFHE ${address} on chain ${chainId}, API on http://127.0.0.1:${port}`,
+    );
+  });
+
+  const controller = new AbortController();
+  const shutdown = () => {
+    controller.abort();
+    server.close();
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+
+  await indexer.run(envNumber("INDEXER_POLL_MS", 4000), controller.signal);
+  store.close();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
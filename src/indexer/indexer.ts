@@ -0,0 +1,197 @@
+import { Interface, Log, Provider } from "ethers";
+
+import { PatientDAOFHE__factory } from "../../types";
+import type { IndexedBlock, IndexedEvent, IndexerStore } from "./store";
+
+/** DAO events mirrored into the database; anything else the contract emits is ignored. */
+export const TRACKED_EVENTS = [
+  "VoteSubmitted",
+  "BatchOpened",
+  "BatchClosed",
+  "DecryptionRequested",
+  "DecryptionCompleted",
+  "ProposalSubmitted",
+  "ProposalStatusChanged",
+  "ProposalVoteCast",
+  "ProposalTallyRequested",
+  "ProposalTallyRevealed",
+  "DataStored",
+];
+
+/**
+ * The one event followed from the legacy trial store. No contract in this
+ * repository produces it, so it is declared here rather than generated.
+ */
+const TRIAL_STORE_INTERFACE = new Interface([
+  "event DataStored(address indexed sender, string key, bytes value)",
+]);
+
+export interface IndexerOptions {
+  /** PatientDAOFHE address. */
+  address: string;
+  /** Optional legacy key/value store whose DataStored events are also followed. */
+  trialStoreAddress?: string;
+  startBlock: number;
+  /** Blocks behind the head that are left alone until they are less likely to reorg. */
+  confirmations: number;
+  /** Maximum number of blocks requested per eth_getLogs call. */
+  batchSize: number;
+  /** Number of recent block hashes kept to find a common ancestor after a reorg. */
+  reorgDepth: number;
+}
+
+export const DEFAULT_INDEXER_OPTIONS: Omit<IndexerOptions, "address"> = {
+  startBlock: 0,
+  confirmations: 2,
+  batchSize: 2000,
+  reorgDepth: 64,
+};
+
+export class EventIndexer {
+  private readonly interfaces: Map<string, Interface>;
+
+  constructor(
+    private readonly provider: Provider,
+    private readonly store: IndexerStore,
+    private readonly options: IndexerOptions,
+  ) {
+    this.interfaces = new Map([
+      [
+        options.address.toLowerCase(),
+        PatientDAOFHE__factory.createInterface() as Interface,
+      ],
+    ]);
+    if (options.trialStoreAddress) {
+      this.interfaces.set(
+        options.trialStoreAddress.toLowerCase(),
+        TRIAL_STORE_INTERFACE,
+      );
+    }
+  }
+
+  /**
+   * Indexes the next block range up to the confirmed head. Returns the new
+   * cursor, or undefined when there was nothing to do.
+   */
+  async syncOnce(): Promise<number | undefined> {
+    await this.handleReorg();
+
+    const head =
+      (await this.provider.getBlockNumber()) - this.options.confirmations;
+    const cursor = this.store.getCursor() ?? this.options.startBlock - 1;
+    if (head <= cursor) {
+      return undefined;
+    }
+
+    const fromBlock = cursor + 1;
+    const toBlock = Math.min(head, fromBlock + this.options.batchSize - 1);
+    const logs = await this.provider.getLogs({
+      address: [...this.interfaces.keys()],
+      fromBlock,
+      toBlock,
+    });
+
+    const blockNumbers = new Set(logs.map((log) => log.blockNumber));
+    blockNumbers.add(toBlock);
+    const blocks = await Promise.all(
+      [...blockNumbers].map((n) => this.fetchBlock(n)),
+    );
+    const byNumber = new Map(blocks.map((block) => [block.number, block]));
+
+    const events: IndexedEvent[] = [];
+    for (const log of logs) {
+      const event = this.decode(log, byNumber.get(log.blockNumber)!);
+      if (event) {
+        events.push(event);
+      }
+    }
+
+    this.store.commitRange(toBlock, blocks, events);
+    this.store.pruneBlocks(this.options.reorgDepth);
+    return toBlock;
+  }
+
+  /** Syncs until the confirmed head is reached, then polls every `intervalMs`. */
+  async run(intervalMs: number, signal?: AbortSignal) {
+    while (!signal?.aborted) {
+      try {
+        const cursor = await this.syncOnce();
+        if (cursor !== undefined) {
+          console.log(`Indexed up to block ${cursor}`);
+          continue;
+        }
+      } catch (error) {
+        console.error("Indexer sync failed:", error);
+      }
+      await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    }
+  }
+
+  /**
+   * Compares the stored block hashes with the chain, newest first, and rewinds
+   * to the most recent block both agree on.
+   */
+  async handleReorg(): Promise<boolean> {
+    const stored = this.store.getRecentBlocks(this.options.reorgDepth);
+    if (stored.length === 0) {
+      return false;
+    }
+
+    for (const [i, block] of stored.entries()) {
+      const current = await this.provider.getBlock(block.number);
+      if (current?.hash === block.hash) {
+        if (i === 0) {
+          return false;
+        }
+        console.warn(`Reorg detected, rewinding to block ${block.number}`);
+        this.store.rewind(block.number);
+        return true;
+      }
+    }
+
+    // Deeper than the tracked window: start over from the oldest known block.
+    const oldest = stored[stored.length - 1].number - 1;
+    console.warn(
+      `Reorg deeper than ${stored.length} blocks, rewinding to block ${oldest}`,
+    );
+    this.store.rewind(oldest);
+    return true;
+  }
+
+  private async fetchBlock(blockNumber: number): Promise<IndexedBlock> {
+    const block = await this.provider.getBlock(blockNumber);
+    if (!block?.hash) {
+      throw new Error(`Block ${blockNumber} is not available`);
+    }
+    return {
+      number: block.number,
+      hash: block.hash,
+      timestamp: block.timestamp,
+    };
+  }
+
+  private decode(log: Log, block: IndexedBlock): IndexedEvent | undefined {
+    const parsed = this.interfaces
+      .get(log.address.toLowerCase())
+      ?.parseLog(log);
+    if (!parsed || !TRACKED_EVENTS.includes(parsed.name)) {
+      return undefined;
+    }
+
+    const args: Record<string, string> = {};
+    parsed.fragment.inputs.forEach((input, i) => {
+      args[input.name] = String(parsed.args[i]);
+    });
+
+    return {
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+      contract: log.address,
+      name: parsed.name,
+      args,
+      timestamp: block.timestamp,
+    };
+  }
+}
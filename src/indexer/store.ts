@@ -0,0 +1,352 @@
+import Database from "better-sqlite3";
+
+import type { SignedComment, SignedModeration } from "../discussion";
+
+export interface IndexedEvent {
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  contract: string;
+  name: string;
+  args: Record<string, string>;
+  timestamp: number;
+}
+
+export interface IndexedBlock {
+  number: number;
+  hash: string;
+  timestamp: number;
+}
+
+export interface EventQuery {
+  name?: string;
+  batchId?: string;
+  proposalId?: string;
+  fromBlock?: number;
+  limit?: number;
+  offset?: number;
+}
+
+export interface BatchSummary {
+  batchId: number;
+  openedAt: number | null;
+  closedAt: number | null;
+  submissions: number;
+  totalVotes: number | null;
+  approvalCount: number | null;
+}
+
+interface CommentRow {
+  proposal_id: string;
+  parent_id: string;
+  author: string;
+  body: string;
+  created_at: number;
+  signature: string;
+}
+
+interface ModerationRow {
+  proposal_id: string;
+  comment_id: string;
+  hidden: number;
+  moderator: string;
+  created_at: number;
+  signature: string;
+}
+
+interface EventRow {
+  block_number: number;
+  block_hash: string;
+  transaction_hash: string;
+  log_index: number;
+  contract: string;
+  name: string;
+  args: string;
+  timestamp: number;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    contract TEXT NOT NULL,
+    name TEXT NOT NULL,
+    args TEXT NOT NULL,
+    batch_id TEXT,
+    proposal_id TEXT,
+    timestamp INTEGER NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_name ON events (name);
+  CREATE INDEX IF NOT EXISTS events_batch ON events (batch_id);
+  CREATE INDEX IF NOT EXISTS events_proposal ON events (proposal_id);
+  CREATE TABLE IF NOT EXISTS comments (
+    id TEXT PRIMARY KEY,
+    proposal_id TEXT NOT NULL,
+    parent_id TEXT NOT NULL,
+    author TEXT NOT NULL,
+    body TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    signature TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS comments_proposal ON comments (proposal_id);
+  CREATE TABLE IF NOT EXISTS moderations (
+    signature TEXT PRIMARY KEY,
+    proposal_id TEXT NOT NULL,
+    comment_id TEXT NOT NULL,
+    hidden INTEGER NOT NULL,
+    moderator TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS moderations_proposal ON moderations (proposal_id);
+`;
+
+const MAX_PAGE_SIZE = 500;
+
+/**
+ * SQLite persistence for the event indexer. Every write for a block range goes
+ * through a single transaction so the cursor never points past stored events.
+ * It also keeps the signed proposal comments posted to the API, which are not
+ * on-chain and so survive a rewind.
+ */
+export class IndexerStore {
+  private readonly db: Database.Database;
+
+  constructor(filename: string) {
+    this.db = new Database(filename);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  getMeta(key: string): string | undefined {
+    const row = this.db
+      .prepare("SELECT value FROM meta WHERE key = ?")
+      .get(key) as { value: string } | undefined;
+    return row?.value;
+  }
+
+  setMeta(key: string, value: string) {
+    this.db
+      .prepare(
+        "INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value",
+      )
+      .run(key, value);
+  }
+
+  /** Last block whose events are fully stored, or undefined before the first sync. */
+  getCursor(): number | undefined {
+    const value = this.getMeta("cursor");
+    return value === undefined ? undefined : Number(value);
+  }
+
+  /** Stored blocks from newest to oldest, used to find a common ancestor after a reorg. */
+  getRecentBlocks(limit: number): IndexedBlock[] {
+    return this.db
+      .prepare(
+        "SELECT number, hash, timestamp FROM blocks ORDER BY number DESC LIMIT ?",
+      )
+      .all(limit) as IndexedBlock[];
+  }
+
+  /** Stores a synced range and moves the cursor to `toBlock`. */
+  commitRange(toBlock: number, blocks: IndexedBlock[], events: IndexedEvent[]) {
+    const insertBlock = this.db.prepare(
+      "INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (?, ?, ?)",
+    );
+    const insertEvent = this.db.prepare(
+      `INSERT OR REPLACE INTO events
+        (block_number, block_hash, transaction_hash, log_index, contract, name, args, batch_id, proposal_id, timestamp)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    );
+    this.db.transaction(() => {
+      for (const block of blocks) {
+        insertBlock.run(block.number, block.hash, block.timestamp);
+      }
+      for (const event of events) {
+        insertEvent.run(
+          event.blockNumber,
+          event.blockHash,
+          event.transactionHash,
+          event.logIndex,
+          event.contract,
+          event.name,
+          JSON.stringify(event.args),
+          event.args.batchId ?? null,
+          event.args.proposalId ?? null,
+          event.timestamp,
+        );
+      }
+      this.setMeta("cursor", String(toBlock));
+    })();
+  }
+
+  /** Drops everything after `block`, which becomes the new cursor. */
+  rewind(block: number) {
+    this.db.transaction(() => {
+      this.db.prepare("DELETE FROM events WHERE block_number > ?").run(block);
+      this.db.prepare("DELETE FROM blocks WHERE number > ?").run(block);
+      this.setMeta("cursor", String(block));
+    })();
+  }
+
+  /** Keeps only the newest `keep` block hashes; older ones are final for our purposes. */
+  pruneBlocks(keep: number) {
+    this.db
+      .prepare(
+        "DELETE FROM blocks WHERE number <= (SELECT MAX(number) FROM blocks) - ?",
+      )
+      .run(keep);
+  }
+
+  listEvents(query: EventQuery = {}): IndexedEvent[] {
+    const where: string[] = [];
+    const params: (string | number)[] = [];
+    if (query.name) {
+      where.push("name = ?");
+      params.push(query.name);
+    }
+    if (query.batchId) {
+      where.push("batch_id = ?");
+      params.push(query.batchId);
+    }
+    if (query.proposalId) {
+      where.push("proposal_id = ?");
+      params.push(query.proposalId);
+    }
+    if (query.fromBlock !== undefined) {
+      where.push("block_number >= ?");
+      params.push(query.fromBlock);
+    }
+    const limit = Math.min(query.limit ?? 100, MAX_PAGE_SIZE);
+    const sql = `SELECT * FROM events ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+      ORDER BY block_number, log_index LIMIT ? OFFSET ?`;
+    const rows = this.db
+      .prepare(sql)
+      .all(...params, limit, query.offset ?? 0) as EventRow[];
+    return rows.map(toIndexedEvent);
+  }
+
+  listBatches(): BatchSummary[] {
+    const rows = this.db
+      .prepare(
+        `SELECT CAST(batch_id AS INTEGER) AS batchId,
+          MAX(CASE WHEN name = 'BatchOpened' THEN timestamp END) AS openedAt,
+          MAX(CASE WHEN name = 'BatchClosed' THEN timestamp END) AS closedAt,
+          SUM(CASE WHEN name = 'VoteSubmitted' THEN 1 ELSE 0 END) AS submissions,
+          MAX(CASE WHEN name = 'DecryptionCompleted' THEN json_extract(args, '$.totalVotes') END) AS totalVotes,
+          MAX(CASE WHEN name = 'DecryptionCompleted' THEN json_extract(args, '$.approvalCount') END) AS approvalCount
+        FROM events WHERE batch_id IS NOT NULL
+        GROUP BY batch_id ORDER BY batchId DESC`,
+      )
+      .all() as BatchSummary[];
+    return rows.map((row) => ({
+      ...row,
+      totalVotes: row.totalVotes === null ? null : Number(row.totalVotes),
+      approvalCount:
+        row.approvalCount === null ? null : Number(row.approvalCount),
+    }));
+  }
+
+  /** Stores a comment under its id; storing it again is a no-op. */
+  addComment(id: string, comment: SignedComment) {
+    this.db
+      .prepare(
+        `INSERT OR IGNORE INTO comments (id, proposal_id, parent_id, author, body, created_at, signature)
+          VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        id,
+        comment.proposalId,
+        comment.parentId,
+        comment.author,
+        comment.body,
+        comment.createdAt,
+        comment.signature,
+      );
+  }
+
+  hasComment(proposalId: string, id: string): boolean {
+    return (
+      this.db
+        .prepare("SELECT 1 FROM comments WHERE proposal_id = ? AND id = ?")
+        .get(proposalId, id) !== undefined
+    );
+  }
+
+  listComments(proposalId: string): SignedComment[] {
+    const rows = this.db
+      .prepare(
+        "SELECT * FROM comments WHERE proposal_id = ? ORDER BY created_at, rowid",
+      )
+      .all(proposalId) as CommentRow[];
+    return rows.map((row) => ({
+      proposalId: row.proposal_id,
+      parentId: row.parent_id,
+      author: row.author,
+      body: row.body,
+      createdAt: row.created_at,
+      signature: row.signature,
+    }));
+  }
+
+  addModeration(moderation: SignedModeration) {
+    this.db
+      .prepare(
+        `INSERT OR IGNORE INTO moderations (signature, proposal_id, comment_id, hidden, moderator, created_at)
+          VALUES (?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        moderation.signature,
+        moderation.proposalId,
+        moderation.commentId,
+        moderation.hidden ? 1 : 0,
+        moderation.moderator,
+        moderation.createdAt,
+      );
+  }
+
+  listModerations(proposalId: string): SignedModeration[] {
+    const rows = this.db
+      .prepare(
+        "SELECT * FROM moderations WHERE proposal_id = ? ORDER BY created_at, rowid",
+      )
+      .all(proposalId) as ModerationRow[];
+    return rows.map((row) => ({
+      proposalId: row.proposal_id,
+      commentId: row.comment_id,
+      hidden: row.hidden === 1,
+      moderator: row.moderator,
+      createdAt: row.created_at,
+      signature: row.signature,
+    }));
+  }
+}
+
+function toIndexedEvent(row: EventRow): IndexedEvent {
+  return {
+    blockNumber: row.block_number,
+    blockHash: row.block_hash,
+    transactionHash: row.transaction_hash,
+    logIndex: row.log_index,
+    contract: row.contract,
+    name: row.name,
+    args: JSON.parse(row.args),
+    timestamp: row.timestamp,
+  };
+}
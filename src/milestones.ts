@@ -0,0 +1,110 @@
+import type { ContractTransactionResponse } from "ethers";
+
+import type { TrialMilestones } from "../types";
+import { hashConsentDocument } from "./consent";
+
+/** Mirrors TrialMilestones.MilestoneKind. */
+export enum MilestoneKind {
+  EnrollmentTarget,
+  InterimAnalysis,
+  FinalReport,
+}
+
+/** Mirrors TrialMilestones.MilestoneStatus. */
+export enum MilestoneStatus {
+  Pending,
+  Attested,
+  Accepted,
+  Disputed,
+}
+
+export interface MilestoneEntry {
+  index: number;
+  kind: MilestoneKind;
+  description: string;
+  dueDate: number;
+  status: MilestoneStatus;
+  /** Zero hash until the investigator attests. */
+  documentHash: string;
+  uri: string;
+  attestedAt: number;
+  reviewedAt: number;
+  /** Past its due date without being accepted. */
+  overdue: boolean;
+}
+
+/** Accepted and declared milestones of a trial. */
+export interface MilestoneProgress {
+  accepted: number;
+  total: number;
+}
+
+/** Declares a milestone as the trial's proposer, the contract's runner. */
+export async function declareMilestone(
+  milestones: TrialMilestones,
+  trialId: bigint,
+  kind: MilestoneKind,
+  description: string,
+  dueDate: number,
+): Promise<ContractTransactionResponse> {
+  return milestones.declareMilestone(trialId, kind, description, dueDate);
+}
+
+/** Attests a milestone with the hash of `document`, computed like a consent document's. */
+export async function attestMilestone(
+  milestones: TrialMilestones,
+  trialId: bigint,
+  milestoneIndex: number,
+  document: string | Uint8Array,
+  uri: string,
+): Promise<ContractTransactionResponse> {
+  return milestones.attestMilestone(
+    trialId,
+    milestoneIndex,
+    hashConsentDocument(document),
+    uri,
+  );
+}
+
+/** The trial's milestones; `now` (seconds, chain time by default) decides which are overdue. */
+export async function loadMilestones(
+  milestones: TrialMilestones,
+  trialId: bigint,
+  now?: number,
+): Promise<MilestoneEntry[]> {
+  const [entries, latest] = await Promise.all([
+    milestones.getMilestones(trialId),
+    now === undefined ? milestones.runner?.provider?.getBlock("latest") : null,
+  ]);
+  const timestamp = now ?? latest?.timestamp ?? Math.floor(Date.now() / 1000);
+  return entries.map((milestone, index) => {
+    const status = Number(milestone.status) as MilestoneStatus;
+    const dueDate = Number(milestone.dueDate);
+    return {
+      index,
+      kind: Number(milestone.kind) as MilestoneKind,
+      description: milestone.description,
+      dueDate,
+      status,
+      documentHash: milestone.documentHash,
+      uri: milestone.uri,
+      attestedAt: Number(milestone.attestedAt),
+      reviewedAt: Number(milestone.reviewedAt),
+      overdue: status !== MilestoneStatus.Accepted && dueDate < timestamp,
+    };
+  });
+}
+
+/** Progress of each trial, keyed by trial id. */
+export async function loadMilestoneProgress(
+  milestones: TrialMilestones,
+  trialIds: bigint[],
+): Promise<Map<bigint, MilestoneProgress>> {
+  const [accepted, total] = await milestones.getProgress(trialIds);
+  return new Map(
+    trialIds.map((trialId, i) => [
+      trialId,
+      { accepted: Number(accepted[i]), total: Number(total[i]) },
+    ]),
+  );
+}
@@ -0,0 +1,89 @@
+import "dotenv/config";
+import { JsonRpcProvider, Wallet } from "ethers";
+
+import {
+  CohortStatistics__factory,
+  PatientDAOFHE__factory,
+  TrialTreasury__factory,
+} from "../../types";
+import { readRegistry } from "../deployments";
+import { env, envNumber } from "../env";
+import { DEFAULT_RELAYER_OPTIONS, DecryptionRelayer } from "./relayer";
+
+async function main() {
+  const provider = new JsonRpcProvider(
+    env("RELAYER_RPC_URL", "http://127.0.0.1:8545"),
+  );
+  const chainId = Number((await provider.getNetwork()).chainId);
+
+  try {
+    await provider.send("fhevm_relayer_metadata", []);
+  } catch {
+    throw new Error(
+      "The node does not serve the fhevm mock, start it with `npm run chain`",
+    );
+  }
+
+  const deployments = readRegistry()[chainId]?.contracts;
+  const deployment = deployments?.PatientDAOFHE;
+  const address = env("RELAYER_CONTRACT_ADDRESS", deployment?.address);
+  if (!address) {
+    throw new Error(
+      `No PatientDAOFHE deployment registered for chain ${chainId}, set RELAYER_CONTRACT_ADDRESS`,
+    );
+  }
+
+  // Callbacks can be sent by anyone; default to the node's first unlocked account.
+  const privateKey = env("RELAYER_PRIVATE_KEY");
+  const signer = privateKey
+    ? new Wallet(privateKey, provider)
+    : await provider.getSigner();
+  const dao = PatientDAOFHE__factory.connect(address, signer);
+  // The treasury and cohort statistics are answered too when deployed.
+  const treasuryAddress = env(
+    "RELAYER_TREASURY_ADDRESS",
+    deployments?.TrialTreasury?.address,
+  );
+  const cohortAddress = env(
+    "RELAYER_COHORT_ADDRESS",
+    deployments?.CohortStatistics?.address,
+  );
+  const treasury = treasuryAddress
+    ? TrialTreasury__factory.connect(treasuryAddress, signer)
+    : undefined;
+  const cohortStatistics = cohortAddress
+    ? CohortStatistics__factory.connect(cohortAddress, signer)
+    : undefined;
+
+  const relayer = new DecryptionRelayer(
+    { dao, treasury, cohortStatistics },
+    provider,
+    {
+      ...DEFAULT_RELAYER_OPTIONS,
+      startBlock: envNumber(
+        "RELAYER_START_BLOCK",
+        deployment?.deployBlock ?? 0,
+      ),
+    },
+  );
+  console.log(
+    `Relaying decryption requests for PatientDAOFHE ${address} on chain ${chainId} from ${await signer.getAddress()}`,
+  );
+  if (treasury) {
+    console.log(`Relaying withdrawals for TrialTreasury ${treasuryAddress}`);
+  }
+  if (cohortStatistics) {
+    console.log(`Relaying query results for CohortStatistics ${cohortAddress}`);
+  }
+
+  const controller = new AbortController();
+  process.on("SIGINT", () => controller.abort());
+  process.on("SIGTERM", () => controller.abort());
+
+  await relayer.run(envNumber("RELAYER_POLL_MS", 2000), controller.signal);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,289 @@
+import {
+  Provider,
+  concat,
+  dataLength,
+  dataSlice,
+  solidityPacked,
+} from "ethers";
+
+import type {
+  CohortStatistics,
+  PatientDAOFHE,
+  TrialTreasury,
+} from "../../types";
+
+/** Debug RPC methods served by the fhevm mock engine of a Hardhat node. */
+const GET_CLEAR_TEXT = "fhevm_getClearText";
+const CREATE_DECRYPTION_SIGNATURES = "fhevm_createDecryptionSignatures";
+
+/** Version 0 of the extra data appended to KMS decryption proofs. */
+const EXTRA_DATA_V0 = solidityPacked(["uint8"], [0]);
+
+/** A provider that can also forward raw JSON-RPC calls, like ethers' JsonRpcProvider. */
+export interface MockNodeProvider extends Provider {
+  send(method: string, params: unknown[]): Promise<unknown>;
+}
+
+/**
+ * The contracts whose decryption requests are answered. Requests of the
+ * optional ones are only looked for when they are given.
+ */
+export interface RelayerContracts {
+  dao: PatientDAOFHE;
+  treasury?: TrialTreasury;
+  cohortStatistics?: CohortStatistics;
+}
+
+export interface RelayerOptions {
+  startBlock: number;
+  /** Maximum number of blocks scanned per eth_getLogs call. */
+  batchSize: number;
+}
+
+export const DEFAULT_RELAYER_OPTIONS: RelayerOptions = {
+  startBlock: 0,
+  batchSize: 2000,
+};
+
+type RequestKind = "batch" | "proposal" | "withdrawal" | "query";
+
+/** What the subject id of each kind of request identifies. */
+const SUBJECTS: Record<RequestKind, string> = {
+  batch: "batch",
+  proposal: "proposal",
+  withdrawal: "trial",
+  query: "query",
+};
+
+interface DecryptionRequest {
+  kind: RequestKind;
+  requestId: bigint;
+  /** Batch, proposal, trial or query id, depending on the kind. */
+  subjectId: bigint;
+}
+
+/**
+ * Local stand-in for the Zama decryption oracle. It answers the DAO's
+ * DecryptionRequested and ProposalTallyRequested events, and, when given the
+ * contracts, TrialTreasury's WithdrawalRequested and CohortStatistics'
+ * QueryDecryptionRequested, by reading the cleartexts from the node's mock
+ * coprocessor, having the mock KMS sign them and submitting the matching
+ * callback, exactly as the real oracle would.
+ */
+export class DecryptionRelayer {
+  private cursor: number;
+
+  constructor(
+    private readonly contracts: RelayerContracts,
+    private readonly provider: MockNodeProvider,
+    private readonly options: RelayerOptions,
+  ) {
+    this.cursor = options.startBlock - 1;
+  }
+
+  /**
+   * Answers every request found in the next block range up to the head.
+   * Returns the number of callbacks submitted, or undefined when there was
+   * nothing to scan.
+   */
+  async syncOnce(): Promise<number | undefined> {
+    const head = await this.provider.getBlockNumber();
+    if (head <= this.cursor) {
+      return undefined;
+    }
+
+    const fromBlock = this.cursor + 1;
+    const toBlock = Math.min(head, fromBlock + this.options.batchSize - 1);
+    const { dao, treasury, cohortStatistics } = this.contracts;
+    const [batchLogs, proposalLogs, withdrawalLogs, queryLogs] =
+      await Promise.all([
+        dao.queryFilter(dao.filters.DecryptionRequested(), fromBlock, toBlock),
+        dao.queryFilter(
+          dao.filters.ProposalTallyRequested(),
+          fromBlock,
+          toBlock,
+        ),
+        treasury
+          ? treasury.queryFilter(
+              treasury.filters.WithdrawalRequested(),
+              fromBlock,
+              toBlock,
+            )
+          : [],
+        cohortStatistics
+          ? cohortStatistics.queryFilter(
+              cohortStatistics.filters.QueryDecryptionRequested(),
+              fromBlock,
+              toBlock,
+            )
+          : [],
+      ]);
+    const requests: DecryptionRequest[] = [
+      ...batchLogs.map((log) => ({
+        kind: "batch" as const,
+        requestId: log.args.requestId,
+        subjectId: log.args.batchId,
+      })),
+      ...proposalLogs.map((log) => ({
+        kind: "proposal" as const,
+        requestId: log.args.requestId,
+        subjectId: log.args.proposalId,
+      })),
+      ...withdrawalLogs.map((log) => ({
+        kind: "withdrawal" as const,
+        requestId: log.args.requestId,
+        subjectId: log.args.trialId,
+      })),
+      ...queryLogs.map((log) => ({
+        kind: "query" as const,
+        requestId: log.args.requestId,
+        subjectId: log.args.queryId,
+      })),
+    ];
+
+    let relayed = 0;
+    for (const request of requests) {
+      try {
+        if (await this.relay(request)) {
+          relayed++;
+        }
+      } catch (error) {
+        // A request whose callback reverts, e.g. after the ciphertexts were
+        // recomputed, would otherwise block every later request.
+        console.error(
+          `Failed to answer ${request.kind} decryption request ${request.requestId}:`,
+          error,
+        );
+      }
+    }
+
+    this.cursor = toBlock;
+    return relayed;
+  }
+
+  /** Scans until the head is reached, then polls every `intervalMs`. */
+  async run(intervalMs: number, signal?: AbortSignal) {
+    while (!signal?.aborted) {
+      try {
+        const relayed = await this.syncOnce();
+        if (relayed !== undefined) {
+          if (relayed > 0) {
+            console.log(`Answered ${relayed} decryption request(s)`);
+          }
+          continue;
+        }
+      } catch (error) {
+        console.error("Relayer sync failed:", error);
+      }
+      await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    }
+  }
+
+  /** Submits the callback for one request. Returns false if it was already answered. */
+  private async relay(request: DecryptionRequest): Promise<boolean> {
+    const { kind, requestId, subjectId } = request;
+    if (await this.isAnswered(request)) {
+      return false;
+    }
+
+    const handles = await this.ciphertexts(request);
+
+    const clearTexts = (await this.provider.send(GET_CLEAR_TEXT, [
+      handles,
+    ])) as string[];
+    if (clearTexts.some((clearText) => clearText === "0x")) {
+      throw new Error(
+        "The node does not know these ciphertexts, is it running the fhevm mock?",
+      );
+    }
+
+    const { decryptedResult, signatures } = (await this.provider.send(
+      CREATE_DECRYPTION_SIGNATURES,
+      [
+        {
+          handlesBytes32Hex: handles,
+          clearTextValuesHex: clearTexts,
+          extraData: EXTRA_DATA_V0,
+        },
+      ],
+    )) as { decryptedResult: string; signatures: string[] };
+
+    // The signed result ends with the offset of the signatures array, which
+    // FHE.checkSignatures appends itself; the callback only takes the values.
+    const cleartexts = dataSlice(
+      decryptedResult,
+      0,
+      dataLength(decryptedResult) - 32,
+    );
+    // numSigners || signatures || extraData, as expected by FHE.checkSignatures.
+    const proof = concat([
+      solidityPacked(["uint8"], [signatures.length]),
+      ...signatures,
+      EXTRA_DATA_V0,
+    ]);
+
+    const tx = await this.callback(request, cleartexts, proof);
+    await tx.wait();
+    console.log(
+      `Answered ${kind} decryption request ${requestId} for ${SUBJECTS[kind]} ${subjectId} in ${tx.hash}`,
+    );
+    return true;
+  }
+
+  private async isAnswered({ kind, requestId }: DecryptionRequest) {
+    const { dao, treasury, cohortStatistics } = this.contracts;
+    switch (kind) {
+      case "batch":
+        return (await dao.decryptionContexts(requestId)).processed;
+      case "proposal":
+        return (await dao.proposalDecryptionContexts(requestId)).processed;
+      case "withdrawal":
+        return (await treasury!.decryptionContexts(requestId)).processed;
+      case "query":
+        return (await cohortStatistics!.decryptionContexts(requestId))
+          .processed;
+    }
+  }
+
+  /** Same order as the ciphertexts passed to FHE.requestDecryption. */
+  private async ciphertexts({
+    kind,
+    subjectId,
+  }: DecryptionRequest): Promise<string[]> {
+    const { dao, treasury, cohortStatistics } = this.contracts;
+    switch (kind) {
+      case "batch":
+        return [...(await dao.batchResultCiphertexts(subjectId))];
+      case "proposal": {
+        const tally = await dao.proposalTallies(subjectId);
+        return [tally.encryptedYesVotes, tally.encryptedNoVotes];
+      }
+      case "withdrawal":
+        return [...(await treasury!.withdrawalCiphertexts(subjectId))];
+      case "query":
+        return [...(await cohortStatistics!.queryResultCiphertexts(subjectId))];
+    }
+  }
+
+  private callback(
+    { kind, requestId }: DecryptionRequest,
+    cleartexts: string,
+    proof: string,
+  ) {
+    const { dao, treasury, cohortStatistics } = this.contracts;
+    switch (kind) {
+      case "batch":
+        return dao.myCallback(requestId, cleartexts, proof);
+      case "proposal":
+        return dao.proposalTallyCallback(requestId, cleartexts, proof);
+      case "withdrawal":
+        return treasury!.withdrawalCallback(requestId, cleartexts, proof);
+      case "query":
+        return cohortStatistics!.queryResultCallback(
+          requestId,
+          cleartexts,
+          proof,
+        );
+    }
+  }
+}
@@ -0,0 +1,169 @@
+import { formatUnits, parseUnits } from "ethers";
+import type { ContractTransactionResponse } from "ethers";
+
+import type { ParticipationRewards, PatientRecordVault } from "../types";
+import type { CreateEncryptedInput, DecryptHandles } from "./vault";
+
+/** Mirrors ParticipationRewards.decimals. */
+export const REWARD_DECIMALS = 6;
+
+/** A trial the patient shares their record with, and whether they took its reward. */
+export interface RewardEntry {
+  trialId: bigint;
+  /** The trial's proposer confirmed the patient takes part; required to claim. */
+  enrolled: boolean;
+  /** The reward accrued on a first claim; what the pool could not pay is owed. */
+  claimed: boolean;
+  /** Enrolled, and the trial has a reward and a pool, so a first claimReward can pay out. */
+  claimable: boolean;
+}
+
+/** Converts a token amount such as "12.5" to the token's base units. */
+export function parseRewardAmount(amount: string): bigint {
+  return parseUnits(amount, REWARD_DECIMALS);
+}
+
+export function formatRewardAmount(amount: bigint): string {
+  return formatUnits(amount, REWARD_DECIMALS);
+}
+
+async function encryptAmount(
+  rewards: ParticipationRewards,
+  createInput: CreateEncryptedInput,
+  user: string,
+  amount: bigint,
+) {
+  const { handles, inputProof } = await createInput(
+    await rewards.getAddress(),
+    user,
+  )
+    .add64(amount)
+    .encrypt();
+  return { handle: handles[0], inputProof };
+}
+
+/** Mints `amount` to `to` as the DAO owner, the contract's runner. */
+export async function mintRewards(
+  rewards: ParticipationRewards,
+  createInput: CreateEncryptedInput,
+  owner: string,
+  to: string,
+  amount: bigint,
+): Promise<ContractTransactionResponse> {
+  const { handle, inputProof } = await encryptAmount(
+    rewards,
+    createInput,
+    owner,
+    amount,
+  );
+  return rewards.mint(to, handle, inputProof);
+}
+
+/**
+ * Moves `amount` of `funder`'s balance, the contract's runner, into the
+ * trial's reward pool. Nothing moves if the balance is short.
+ */
+export async function fundRewardPool(
+  rewards: ParticipationRewards,
+  createInput: CreateEncryptedInput,
+  funder: string,
+  trialId: bigint,
+  amount: bigint,
+): Promise<ContractTransactionResponse> {
+  const { handle, inputProof } = await encryptAmount(
+    rewards,
+    createInput,
+    funder,
+    amount,
+  );
+  return rewards.fundPool(trialId, handle, inputProof);
+}
+
+/** Sets the reward each participating patient claims, as the trial's proposer. */
+export async function setRewardPerPatient(
+  rewards: ParticipationRewards,
+  createInput: CreateEncryptedInput,
+  proposer: string,
+  trialId: bigint,
+  amount: bigint,
+): Promise<ContractTransactionResponse> {
+  const { handle, inputProof } = await encryptAmount(
+    rewards,
+    createInput,
+    proposer,
+    amount,
+  );
+  return rewards.setRewardPerPatient(trialId, handle, inputProof);
+}
+
+export async function transferRewards(
+  rewards: ParticipationRewards,
+  createInput: CreateEncryptedInput,
+  from: string,
+  to: string,
+  amount: bigint,
+): Promise<ContractTransactionResponse> {
+  const { handle, inputProof } = await encryptAmount(
+    rewards,
+    createInput,
+    from,
+    amount,
+  );
+  return rewards.confidentialTransfer(to, handle, inputProof);
+}
+
+/** Every trial `patient` shares their record with, with its reward status. */
+export async function loadPatientRewards(
+  rewards: ParticipationRewards,
+  vault: PatientRecordVault,
+  patient: string,
+): Promise<RewardEntry[]> {
+  const trialIds = await vault.getGrantedTrials(patient);
+  return Promise.all(
+    trialIds.map(async (trialId) => {
+      const [enrolled, claimed, reward, pool] = await Promise.all([
+        rewards.isEnrolled(trialId, patient),
+        rewards.hasClaimed(trialId, patient),
+        rewards.rewardPerPatient(trialId),
+        rewards.poolOf(trialId),
+      ]);
+      return {
+        trialId,
+        enrolled,
+        claimed,
+        claimable:
+          enrolled && !claimed && BigInt(reward) !== 0n && BigInt(pool) !== 0n,
+      };
+    }),
+  );
+}
+
+/** The account's balance in base units; zero before it ever held any. */
+export async function decryptRewardBalance(
+  rewards: ParticipationRewards,
+  account: string,
+  decrypt: DecryptHandles,
+): Promise<bigint> {
+  const handle = await rewards.confidentialBalanceOf(account);
+  if (BigInt(handle) === 0n) {
+    return 0n;
+  }
+  return (await decrypt([handle]))[handle];
+}
+
+/**
+ * What the patient, the decrypting user, is still owed from the trial's pool;
+ * claimReward pays it once the pool covers it.
+ */
+export async function decryptOwedReward(
+  rewards: ParticipationRewards,
+  trialId: bigint,
+  patient: string,
+  decrypt: DecryptHandles,
+): Promise<bigint> {
+  const handle = await rewards.owedOf(trialId, patient);
+  if (BigInt(handle) === 0n) {
+    return 0n;
+  }
+  return (await decrypt([handle]))[handle];
+}
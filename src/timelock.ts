@@ -0,0 +1,160 @@
+import {
+  ContractTransactionResponse,
+  Interface,
+  ZeroHash,
+  hexlify,
+  randomBytes,
+} from "ethers";
+
+import type { PatientDAOFHE, PatientDAOTimelock } from "../types";
+
+/** Mirrors TimelockController.OperationState. */
+export enum OperationState {
+  Unset,
+  Waiting,
+  Ready,
+  Done,
+}
+
+export interface AdminCall {
+  target: string;
+  value: bigint;
+  data: string;
+}
+
+/** An operation scheduled on the timelock, rebuilt from its events. */
+export interface AdminOperation {
+  id: string;
+  /** One call for `schedule`, one per entry for `scheduleBatch`. */
+  calls: AdminCall[];
+  predecessor: string;
+  salt: string;
+  state: OperationState;
+  /** Unix time from which the operation can be executed, 0 once done or cancelled. */
+  readyAt: number;
+  scheduledBlock: number;
+}
+
+export interface ScheduleOptions {
+  /** Defaults to the timelock's minimum delay. */
+  delay?: bigint;
+  predecessor?: string;
+  /** Defaults to a random salt, so the same call can be scheduled again later. */
+  salt?: string;
+}
+
+export async function encodeDaoCall(
+  dao: PatientDAOFHE,
+  method: string,
+  params: unknown[],
+): Promise<AdminCall> {
+  return {
+    target: await dao.getAddress(),
+    value: 0n,
+    data: (dao.interface as Interface).encodeFunctionData(method, params),
+  };
+}
+
+/** Renders a call like `transferOwnership(0x…)`, or as raw data if `iface` lacks it. */
+export function describeCall(iface: Interface, call: AdminCall): string {
+  const parsed = iface.parseTransaction({ data: call.data, value: call.value });
+  if (!parsed) {
+    return `${call.target} ${call.data}`;
+  }
+  return `${parsed.name}(${parsed.args.map(String).join(", ")})`;
+}
+
+export async function scheduleOperation(
+  timelock: PatientDAOTimelock,
+  call: AdminCall,
+  options: ScheduleOptions = {},
+): Promise<{ id: string; tx: ContractTransactionResponse }> {
+  const predecessor = options.predecessor ?? ZeroHash;
+  const salt = options.salt ?? hexlify(randomBytes(32));
+  const delay = options.delay ?? (await timelock.getMinDelay());
+  const id = await timelock.hashOperation(
+    call.target,
+    call.value,
+    call.data,
+    predecessor,
+    salt,
+  );
+  const tx = await timelock.schedule(
+    call.target,
+    call.value,
+    call.data,
+    predecessor,
+    salt,
+    delay,
+  );
+  return { id, tx };
+}
+
+export function executeOperation(
+  timelock: PatientDAOTimelock,
+  operation: AdminOperation,
+): Promise<ContractTransactionResponse> {
+  const { calls, predecessor, salt } = operation;
+  if (calls.length === 1) {
+    const [{ target, value, data }] = calls;
+    return timelock.execute(target, value, data, predecessor, salt, { value });
+  }
+  const value = calls.reduce((sum, call) => sum + call.value, 0n);
+  return timelock.executeBatch(
+    calls.map((call) => call.target),
+    calls.map((call) => call.value),
+    calls.map((call) => call.data),
+    predecessor,
+    salt,
+    { value },
+  );
+}
+
+/**
+ * Lists the operations scheduled since `fromBlock`, by default only the ones
+ * still pending (waiting for their delay or ready to execute).
+ */
+export async function listOperations(
+  timelock: PatientDAOTimelock,
+  fromBlock = 0,
+  states: OperationState[] = [OperationState.Waiting, OperationState.Ready],
+): Promise<AdminOperation[]> {
+  const [scheduled, salts] = await Promise.all([
+    timelock.queryFilter(timelock.filters.CallScheduled(), fromBlock),
+    timelock.queryFilter(timelock.filters.CallSalt(), fromBlock),
+  ]);
+  const saltById = new Map(salts.map((log) => [log.args.id, log.args.salt]));
+
+  const byId = new Map<string, AdminOperation>();
+  for (const log of scheduled) {
+    const { id, index, target, value, data, predecessor } = log.args;
+    let operation = byId.get(id);
+    if (!operation) {
+      operation = {
+        id,
+        calls: [],
+        predecessor,
+        salt: saltById.get(id) ?? ZeroHash,
+        state: OperationState.Unset,
+        readyAt: 0,
+        scheduledBlock: log.blockNumber,
+      };
+      byId.set(id, operation);
+    }
+    operation.calls[Number(index)] = { target, value, data };
+  }
+
+  const operations = [...byId.values()];
+  await Promise.all(
+    operations.map(async (operation) => {
+      const [state, timestamp] = await Promise.all([
+        timelock.getOperationState(operation.id),
+        timelock.getTimestamp(operation.id),
+      ]);
+      operation.state = Number(state);
+      operation.readyAt =
+        operation.state === OperationState.Done ? 0 : Number(timestamp);
+    }),
+  );
+  return operations.filter((operation) => states.includes(operation.state));
+}
@@ -0,0 +1,147 @@
+import { formatUnits, parseUnits } from "ethers";
+import type {
+  ContractTransactionResponse,
+  Signer,
+  TransactionResponse,
+} from "ethers";
+
+import type { TrialTreasury } from "../types";
+import type { CreateEncryptedInput, DecryptHandles } from "./vault";
+
+/** Decimals of the treasury's gwei amounts, relative to ETH. */
+const AMOUNT_DECIMALS = 9;
+
+/** Handles of a trial's funding; zero handles until it has a budget. */
+export interface FundingHandles {
+  budget: string;
+  disbursed: string;
+  claimable: string;
+  fundedAt: number;
+  payouts: { milestone: string; releasedAt: number }[];
+}
+
+/** Decrypted funding amounts, in gwei. */
+export interface FundingAmounts {
+  budget: bigint;
+  disbursed: bigint;
+  claimable: bigint;
+}
+
+/** Converts an ETH amount such as "1.5" to the treasury's gwei units. */
+export function parseTreasuryAmount(eth: string): bigint {
+  return parseUnits(eth, AMOUNT_DECIMALS);
+}
+
+/** Formats gwei units as ETH. */
+export function formatTreasuryAmount(amount: bigint): string {
+  return formatUnits(amount, AMOUNT_DECIMALS);
+}
+
+/** Deposits `amountWei` into the treasury; anyone can fund it. */
+export async function fundTreasury(
+  treasury: TrialTreasury,
+  funder: Signer,
+  amountWei: bigint,
+): Promise<TransactionResponse> {
+  return funder.sendTransaction({
+    to: await treasury.getAddress(),
+    value: amountWei,
+  });
+}
+
+/** Encrypts `budget` (gwei) as `member`, the treasury's runner, and sets it for the approved trial. */
+export async function setTrialBudget(
+  treasury: TrialTreasury,
+  createInput: CreateEncryptedInput,
+  member: string,
+  trialId: bigint,
+  budget: bigint,
+): Promise<ContractTransactionResponse> {
+  const { handles, inputProof } = await createInput(
+    await treasury.getAddress(),
+    member,
+  )
+    .add64(budget)
+    .encrypt();
+  return treasury.setBudget(trialId, handles[0], inputProof);
+}
+
+/**
+ * Releases `amount` (gwei) for `milestone` as `member`, the treasury's runner.
+ * The treasury releases nothing if it would exceed the trial's budget.
+ */
+export async function releaseMilestonePayout(
+  treasury: TrialTreasury,
+  createInput: CreateEncryptedInput,
+  member: string,
+  trialId: bigint,
+  milestone: string,
+  amount: bigint,
+): Promise<ContractTransactionResponse> {
+  const { handles, inputProof } = await createInput(
+    await treasury.getAddress(),
+    member,
+  )
+    .add64(amount)
+    .encrypt();
+  return treasury.releaseMilestonePayout(
+    trialId,
+    milestone,
+    handles[0],
+    inputProof,
+  );
+}
+
+/**
+ * Syncs every funded trial that committee changes have not reached yet, one
+ * transaction per trial, so that new members can decrypt it and former
+ * members cannot. Resolves to the trials synced.
+ */
+export async function syncCommittee(
+  treasury: TrialTreasury,
+): Promise<bigint[]> {
+  const synced: bigint[] = [];
+  for (const trialId of await treasury.getFundedTrials()) {
+    if (!(await treasury.isCommitteeSynced(trialId))) {
+      await (await treasury.syncCommittee(trialId)).wait();
+      synced.push(trialId);
+    }
+  }
+  return synced;
+}
+
+export async function loadFundingHandles(
+  treasury: TrialTreasury,
+  trialId: bigint,
+): Promise<FundingHandles> {
+  const [[budget, disbursed, claimable, fundedAt], payouts] = await Promise.all(
+    [treasury.getFunding(trialId), treasury.getPayouts(trialId)],
+  );
+  return {
+    budget,
+    disbursed,
+    claimable,
+    fundedAt: Number(fundedAt),
+    payouts: payouts.map((payout) => ({
+      milestone: payout.milestone,
+      releasedAt: Number(payout.releasedAt),
+    })),
+  };
+}
+
+/** Decrypts a trial's funding for its proposer or a committee member. */
+export async function decryptFunding(
+  handles: FundingHandles,
+  decrypt: DecryptHandles,
+): Promise<FundingAmounts> {
+  const values = await decrypt([
+    handles.budget,
+    handles.disbursed,
+    handles.claimable,
+  ]);
+  return {
+    budget: values[handles.budget],
+    disbursed: values[handles.disbursed],
+    claimable: values[handles.claimable],
+  };
+}
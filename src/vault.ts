@@ -0,0 +1,135 @@
+import type { ContractTransactionResponse } from "ethers";
+
+import type { PatientRecordVault } from "../types";
+
+/** Clinical fields a patient keeps in the vault, in the clear on the client only. */
+export interface ClinicalRecord {
+  /** Coded age bracket, e.g. 3 for 30–39. */
+  ageBracket: number;
+  /** Numeric diagnosis code, e.g. an ICD-10 code mapped to an integer. */
+  diagnosisCode: number;
+  /** Biomarker readings in the order the trial protocol lists them. */
+  biomarkers: number[];
+}
+
+/** Handles of a stored record; zero handles while the patient has none. */
+export interface RecordHandles {
+  ageBracket: string;
+  diagnosisCode: string;
+  biomarkers: string[];
+  updatedAt: number;
+}
+
+/**
+ * The encrypted input builder of the fhevm Hardhat plugin and of the relayer
+ * SDK, so the client works from scripts and from the browser.
+ */
+export interface EncryptedInputBuilder {
+  add8(value: number | bigint): EncryptedInputBuilder;
+  add32(value: number | bigint): EncryptedInputBuilder;
+  add64(value: number | bigint): EncryptedInputBuilder;
+  encrypt(): Promise<{ handles: Uint8Array[]; inputProof: Uint8Array }>;
+}
+
+export type CreateEncryptedInput = (
+  contractAddress: string,
+  userAddress: string,
+) => EncryptedInputBuilder;
+
+/** Decrypts handles the signer was allowed, keyed by handle. */
+export type DecryptHandles = (
+  handles: string[],
+) => Promise<Record<string, bigint>>;
+
+/** Encrypts `record` as `patient`, the vault's runner, and stores it in place of any previous one. */
+export async function submitRecord(
+  vault: PatientRecordVault,
+  createInput: CreateEncryptedInput,
+  patient: string,
+  record: ClinicalRecord,
+): Promise<ContractTransactionResponse> {
+  const input = createInput(await vault.getAddress(), patient)
+    .add8(record.ageBracket)
+    .add32(record.diagnosisCode);
+  for (const biomarker of record.biomarkers) {
+    input.add32(biomarker);
+  }
+  const { handles, inputProof } = await input.encrypt();
+  return vault.submitRecord(
+    handles[0],
+    handles[1],
+    handles.slice(2),
+    inputProof,
+  );
+}
+
+export async function loadRecordHandles(
+  vault: PatientRecordVault,
+  patient: string,
+): Promise<RecordHandles> {
+  const [ageBracket, diagnosisCode, biomarkers, updatedAt] =
+    await vault.getRecord(patient);
+  return {
+    ageBracket,
+    diagnosisCode,
+    biomarkers: [...biomarkers],
+    updatedAt: Number(updatedAt),
+  };
+}
+
+/**
+ * Decrypts a record for its patient or for the proposer of a trial it was
+ * granted to. Fails for anyone else, and for a proposer once access is revoked.
+ */
+export async function decryptRecord(
+  handles: RecordHandles,
+  decrypt: DecryptHandles,
+): Promise<ClinicalRecord> {
+  const values = await decrypt([
+    handles.ageBracket,
+    handles.diagnosisCode,
+    ...handles.biomarkers,
+  ]);
+  return {
+    ageBracket: Number(values[handles.ageBracket]),
+    diagnosisCode: Number(values[handles.diagnosisCode]),
+    biomarkers: handles.biomarkers.map((handle) => Number(values[handle])),
+  };
+}
+
+/** Records of every patient who granted `trialId`, as seen by its proposer. */
+export async function loadTrialRecords(
+  vault: PatientRecordVault,
+  trialId: bigint,
+): Promise<Map<string, RecordHandles>> {
+  const patients = await vault.getTrialPatients(trialId);
+  const records = await Promise.all(
+    patients.map((patient) => loadRecordHandles(vault, patient)),
+  );
+  return new Map(patients.map((patient, i) => [patient, records[i]]));
+}
+
+/** Patients moved per rotateSupersededConsents transaction by default. */
+export const DEFAULT_ROTATION_PAGE_SIZE = 10;
+
+/**
+ * After `trialId` published a version requiring consent again, moves the
+ * records of its patients who have not consented again to handles its
+ * proposer cannot read, `pageSize` patients per transaction. Returns the
+ * number of transactions sent.
+ */
+export async function rotateSupersededConsents(
+  vault: PatientRecordVault,
+  trialId: bigint,
+  pageSize = DEFAULT_ROTATION_PAGE_SIZE,
+): Promise<number> {
+  const patientCount = await vault.trialPatientCount(trialId);
+  let sent = 0;
+  for (let start = 0n; start < patientCount; start += BigInt(pageSize)) {
+    await (
+      await vault.rotateSupersededConsents(trialId, start, pageSize)
+    ).wait();
+    sent++;
+  }
+  return sent;
+}
@@ -0,0 +1,729 @@
+import type {
+  BaseContract,
+  ContractTransactionReceipt,
+  Interface,
+} from "ethers";
+import fs from "fs";
+import { task, types } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import type { ProviderAllowlist } from "../src/allowlist/allowlist";
+import { readRegistry } from "../src/deployments";
+import {
+  AdminOperation,
+  OperationState,
+  describeCall,
+  encodeDaoCall,
+  listOperations,
+} from "../src/timelock";
+import type {
+  PatientDAOFHE,
+  PatientDAOTimelock,
+  PatientMembershipToken,
+} from "../types";
+
+/**
+ * Administration tasks for PatientDAOFHE, e.g.
+ *
+ *   npx hardhat --network localhost dao:open-batch --options 3
+ *   npx hardhat --network sepolia dao:close-batch --batch 3 --dry-run --json
+ *
+ * The contract defaults to the hardhat-deploy deployment for the network, then
+ * to the frontend registry; pass --address to target another one. Once the DAO
+ * has a timelock, its sensitive calls go through dao:schedule and
+ * dao:execute-action instead.
+ */
+
+const PLUGIN_NAME = "dao";
+const MAX_COOLDOWN_SECONDS = 30 * 24 * 60 * 60; // PatientDAOFHE.MAX_COOLDOWN_SECONDS
+
+interface CommonArgs {
+  address?: string;
+  json: boolean;
+}
+
+interface TransactionArgs extends CommonArgs {
+  dryRun: boolean;
+}
+
+interface DecodedEvent {
+  name: string;
+  args: Record<string, string>;
+}
+
+type Report = Record<string, unknown>;
+
+async function resolveDao(
+  hre: HardhatRuntimeEnvironment,
+  address: string | undefined,
+): Promise<PatientDAOFHE> {
+  if (address === undefined) {
+    const deployment = await hre.deployments.getOrNull("PatientDAOFHE");
+    if (deployment) {
+      address = deployment.address;
+    } else {
+      const chainId = Number((await hre.ethers.provider.getNetwork()).chainId);
+      address = readRegistry()[chainId]?.contracts.PatientDAOFHE?.address;
+    }
+  }
+  if (!address) {
+    throw new HardhatPluginError(
+      PLUGIN_NAME,
+      `No PatientDAOFHE deployment found on ${hre.network.name}, pass --address`,
+    );
+  }
+  if (!hre.ethers.isAddress(address)) {
+    throw new HardhatPluginError(
+      PLUGIN_NAME,
+      `Invalid contract address "${address}"`,
+    );
+  }
+
+  await hre.fhevm.initializeCLIApi();
+  const [signer] = await hre.ethers.getSigners();
+  return (await hre.ethers.getContractAt(
+    "PatientDAOFHE",
+    address,
+    signer,
+  )) as unknown as PatientDAOFHE;
+}
+
+async function resolveTimelock(
+  hre: HardhatRuntimeEnvironment,
+  dao: PatientDAOFHE,
+): Promise<PatientDAOTimelock> {
+  const address = await dao.timelock();
+  if (address === hre.ethers.ZeroAddress) {
+    throw new HardhatPluginError(
+      PLUGIN_NAME,
+      "This PatientDAOFHE has no timelock, its owner calls it directly",
+    );
+  }
+  const [signer] = await hre.ethers.getSigners();
+  return (await hre.ethers.getContractAt(
+    "PatientDAOTimelock",
+    address,
+    signer,
+  )) as unknown as PatientDAOTimelock;
+}
+
+async function resolveMembershipToken(
+  hre: HardhatRuntimeEnvironment,
+  dao: PatientDAOFHE,
+): Promise<PatientMembershipToken> {
+  const address = await dao.membershipToken();
+  if (address === hre.ethers.ZeroAddress) {
+    throw new HardhatPluginError(
+      PLUGIN_NAME,
+      "This PatientDAOFHE has no membership token, see deploy/membership.ts",
+    );
+  }
+  const [signer] = await hre.ethers.getSigners();
+  return (await hre.ethers.getContractAt(
+    "PatientMembershipToken",
+    address,
+    signer,
+  )) as unknown as PatientMembershipToken;
+}
+
+/** Block to scan timelock events from: its deployment when known, else genesis. */
+async function timelockStartBlock(hre: HardhatRuntimeEnvironment) {
+  const deployment = await hre.deployments.getOrNull("PatientDAOTimelock");
+  return deployment?.receipt?.blockNumber ?? 0;
+}
+
+function parseAddress(
+  hre: HardhatRuntimeEnvironment,
+  name: string,
+  value: string,
+) {
+  if (!hre.ethers.isAddress(value)) {
+    throw new HardhatPluginError(
+      PLUGIN_NAME,
+      `Invalid ${name} address "${value}"`,
+    );
+  }
+  return hre.ethers.getAddress(value);
+}
+
+function parseOperationId(value: string) {
+  if (!/^0x[0-9a-fA-F]{64}$/.test(value)) {
+    throw new HardhatPluginError(
+      PLUGIN_NAME,
+      `Invalid operation id "${value}"`,
+    );
+  }
+  return value.toLowerCase();
+}
+
+function decodeEvents(
+  interfaces: Interface[],
+  receipt: ContractTransactionReceipt,
+): DecodedEvent[] {
+  const events: DecodedEvent[] = [];
+  for (const log of receipt.logs) {
+    const parsed = interfaces
+      .map((iface) => iface.parseLog(log))
+      .find((event) => event !== null);
+    if (!parsed) {
+      continue;
+    }
+    const args: Record<string, string> = {};
+    parsed.fragment.inputs.forEach((input, i) => {
+      args[input.name] = String(parsed.args[i]);
+    });
+    events.push({ name: parsed.name, args });
+  }
+  return events;
+}
+
+function describeError(interfaces: Interface[], error: unknown): string {
+  const data = (error as { data?: string }).data;
+  const parsed = data
+    ? interfaces
+        .map((iface) => iface.parseError(data))
+        .find((customError) => customError !== null)
+    : null;
+  if (parsed) {
+    return parsed.name;
+  }
+  const { shortMessage, message } = error as {
+    shortMessage?: string;
+    message?: string;
+  };
+  return shortMessage ?? message ?? String(error);
+}
+
+function print(args: CommonArgs, report: Report) {
+  if (args.json) {
+    console.log(
+      JSON.stringify(
+        report,
+        (_, value) => (typeof value === "bigint" ? value.toString() : value),
+        2,
+      ),
+    );
+    return;
+  }
+  for (const [key, value] of Object.entries(report)) {
+    console.log(
+      `${key}: ${typeof value === "object" ? JSON.stringify(value) : value}`,
+    );
+  }
+}
+
+/**
+ * Simulates the call, then sends it unless --dry-run is set. Failures are
+ * printed like any other result, with reverts named after the custom error of
+ * one of `interfaces`, and then rethrown so the command exits non-zero.
+ */
+async function sendTransaction(
+  hre: HardhatRuntimeEnvironment,
+  args: TransactionArgs,
+  contract: BaseContract,
+  interfaces: Interface[],
+  method: string,
+  params: unknown[],
+  details: Report = {},
+): Promise<Report> {
+  const fn = contract.getFunction(method);
+  const report: Report = {
+    network: hre.network.name,
+    contract: await contract.getAddress(),
+    method,
+    params: params.map(String),
+    ...details,
+    dryRun: args.dryRun,
+  };
+
+  try {
+    await fn.staticCall(...params);
+    report.gasEstimate = await fn.estimateGas(...params);
+    if (!args.dryRun) {
+      const tx = await fn.send(...params);
+      const receipt = (await tx.wait())!;
+      report.transactionHash = receipt.hash;
+      report.blockNumber = receipt.blockNumber;
+      report.gasUsed = receipt.gasUsed;
+      report.events = decodeEvents(interfaces, receipt);
+    }
+    report.success = true;
+  } catch (error) {
+    report.success = false;
+    report.error = describeError(interfaces, error);
+    print(args, report);
+    throw new HardhatPluginError(
+      PLUGIN_NAME,
+      `${method} failed: ${report.error}`,
+      error as Error,
+    );
+  }
+
+  print(args, report);
+  return report;
+}
+
+async function execute(
+  hre: HardhatRuntimeEnvironment,
+  args: TransactionArgs,
+  method: string,
+  params: unknown[],
+): Promise<Report> {
+  const dao = await resolveDao(hre, args.address);
+  return sendTransaction(hre, args, dao, [dao.interface], method, params);
+}
+
+function daoTask(name: string, description: string) {
+  return task(`dao:${name}`, description)
+    .addOptionalParam(
+      "address",
+      "PatientDAOFHE address (defaults to the deployment for the network)",
+    )
+    .addFlag("json", "Print the result as JSON");
+}
+
+function daoTransactionTask(name: string, description: string) {
+  return daoTask(name, description).addFlag(
+    "dryRun",
+    "Simulate the call and estimate gas without sending it",
+  );
+}
+
+daoTask(
+  "status",
+  "Prints the DAO configuration and the current batch",
+).setAction(async (args: CommonArgs, hre) => {
+  const dao = await resolveDao(hre, args.address);
+  const [
+    owner,
+    pendingOwner,
+    timelock,
+    paused,
+    cooldownSeconds,
+    currentBatchId,
+  ] = await Promise.all([
+    dao.owner(),
+    dao.pendingOwner(),
+    dao.timelock(),
+    dao.paused(),
+    dao.cooldownSeconds(),
+    dao.currentBatchId(),
+  ]);
+  const report: Report = {
+    network: hre.network.name,
+    contract: await dao.getAddress(),
+    owner,
+    pendingOwner,
+    timelock,
+    paused,
+    cooldownSeconds,
+    currentBatchId,
+  };
+  if (currentBatchId > 0n) {
+    const [batch, submissions] = await Promise.all([
+      dao.batches(currentBatchId),
+      dao.batchSubmissionCount(currentBatchId),
+    ]);
+    report.currentBatch = {
+      isOpen: batch.isOpen,
+      createdAt: Number(batch.createdAt),
+      closedAt: Number(batch.closedAt),
+      options: Number(batch.optionCount),
+      submissions: Number(submissions),
+    };
+  }
+  print(args, report);
+  return report;
+});
+
+daoTransactionTask(
+  "add-provider",
+  "Allows an address to submit encrypted votes",
+)
+  .addParam("provider", "Provider address")
+  .setAction(async (args: TransactionArgs & { provider: string }, hre) =>
+    execute(hre, args, "addProvider", [
+      parseAddress(hre, "provider", args.provider),
+    ]),
+  );
+
+daoTransactionTask("remove-provider", "Revokes a provider")
+  .addParam("provider", "Provider address")
+  .setAction(async (args: TransactionArgs & { provider: string }, hre) =>
+    execute(hre, args, "removeProvider", [
+      parseAddress(hre, "provider", args.provider),
+    ]),
+  );
+
+daoTransactionTask(
+  "set-provider-root",
+  "Publishes the Merkle root of the provider allowlist",
+)
+  .addOptionalParam("root", "Merkle root")
+  .addOptionalParam(
+    "allowlist",
+    "Allowlist file written by `npm run allowlist`",
+  )
+  .setAction(
+    async (
+      args: TransactionArgs & { root?: string; allowlist?: string },
+      hre,
+    ) => {
+      let root = args.root;
+      if (args.allowlist) {
+        const allowlist: ProviderAllowlist = JSON.parse(
+          fs.readFileSync(args.allowlist, "utf8"),
+        );
+        root = allowlist.root;
+      }
+      if (!root || !hre.ethers.isHexString(root, 32)) {
+        throw new HardhatPluginError(
+          PLUGIN_NAME,
+          "Pass a 32-byte --root or an --allowlist file",
+        );
+      }
+      return execute(hre, args, "setProviderMerkleRoot", [root]);
+    },
+  );
+
+daoTransactionTask(
+  "pause",
+  "Pauses vote submission and batch operations",
+).setAction(async (args: TransactionArgs, hre) =>
+  execute(hre, args, "pause", []),
+);
+
+daoTransactionTask("unpause", "Resumes a paused DAO").setAction(
+  async (args: TransactionArgs, hre) => execute(hre, args, "unpause", []),
+);
+
+daoTransactionTask(
+  "set-cooldown",
+  "Sets the submission and decryption cooldown",
+)
+  .addParam("seconds", "Cooldown in seconds", undefined, types.int)
+  .setAction(async (args: TransactionArgs & { seconds: number }, hre) => {
+    if (args.seconds < 0 || args.seconds > MAX_COOLDOWN_SECONDS) {
+      throw new HardhatPluginError(
+        PLUGIN_NAME,
+        `--seconds must be between 0 and ${MAX_COOLDOWN_SECONDS}`,
+      );
+    }
+    return execute(hre, args, "setCooldownSeconds", [args.seconds]);
+  });
+
+daoTransactionTask("open-batch", "Opens the next voting batch")
+  .addOptionalParam(
+    "options",
+    "Number of ballot options, leave unset for approve/reject",
+    undefined,
+    types.int,
+  )
+  .setAction(async (args: TransactionArgs & { options?: number }, hre) =>
+    args.options === undefined
+      ? execute(hre, args, "openBatch", [])
+      : execute(hre, args, "openMultiOptionBatch", [args.options]),
+  );
+
+daoTransactionTask("close-batch", "Closes a voting batch")
+  .addParam("batch", "Batch id", undefined, types.int)
+  .setAction(async (args: TransactionArgs & { batch: number }, hre) =>
+    execute(hre, args, "closeBatch", [args.batch]),
+  );
+
+daoTransactionTask(
+  "request-decryption",
+  "Asks the decryption oracle to reveal a batch's totals",
+)
+  .addParam("batch", "Batch id", undefined, types.int)
+  .setAction(async (args: TransactionArgs & { batch: number }, hre) =>
+    execute(hre, args, "requestBatchResultDecryption", [args.batch]),
+  );
+
+daoTransactionTask(
+  "transfer-ownership",
+  "Nominates a new owner, who still has to accept",
+)
+  .addParam("owner", "New owner address")
+  .setAction(async (args: TransactionArgs & { owner: string }, hre) =>
+    execute(hre, args, "transferOwnership", [
+      parseAddress(hre, "owner", args.owner),
+    ]),
+  );
+
+daoTransactionTask(
+  "accept-ownership",
+  "Accepts a pending ownership transfer with the first signer",
+).setAction(async (args: TransactionArgs, hre) =>
+  execute(hre, args, "acceptOwnership", []),
+);
+
+function describeOperation(dao: PatientDAOFHE, operation: AdminOperation) {
+  return {
+    id: operation.id,
+    calls: operation.calls.map((call) => describeCall(dao.interface, call)),
+    state: OperationState[operation.state].toLowerCase(),
+    readyAt: new Date(operation.readyAt * 1000).toISOString(),
+  };
+}
+
+daoTransactionTask(
+  "schedule",
+  "Queues a DAO call on its timelock, e.g. --method pause",
+)
+  .addParam("method", "PatientDAOFHE function name")
+  .addOptionalParam("params", "Arguments as a JSON array", "[]")
+  .addOptionalParam(
+    "delay",
+    "Delay in seconds (defaults to the timelock's minimum delay)",
+    undefined,
+    types.int,
+  )
+  .addOptionalParam("salt", "32-byte salt (defaults to a random one)")
+  .setAction(
+    async (
+      args: TransactionArgs & {
+        method: string;
+        params: string;
+        delay?: number;
+        salt?: string;
+      },
+      hre,
+    ) => {
+      const dao = await resolveDao(hre, args.address);
+      const timelock = await resolveTimelock(hre, dao);
+      if (!(dao.interface as Interface).getFunction(args.method)) {
+        throw new HardhatPluginError(
+          PLUGIN_NAME,
+          `PatientDAOFHE has no function "${args.method}"`,
+        );
+      }
+      let params: unknown;
+      try {
+        params = JSON.parse(args.params);
+      } catch {
+        params = undefined;
+      }
+      if (!Array.isArray(params)) {
+        throw new HardhatPluginError(
+          PLUGIN_NAME,
+          "--params must be a JSON array",
+        );
+      }
+      if (args.salt !== undefined && !hre.ethers.isHexString(args.salt, 32)) {
+        throw new HardhatPluginError(PLUGIN_NAME, "--salt must be 32 bytes");
+      }
+
+      const call = await encodeDaoCall(dao, args.method, params);
+      const predecessor = hre.ethers.ZeroHash;
+      const salt = args.salt ?? hre.ethers.hexlify(hre.ethers.randomBytes(32));
+      const delay =
+        args.delay !== undefined
+          ? BigInt(args.delay)
+          : await timelock.getMinDelay();
+      const id = await timelock.hashOperation(
+        call.target,
+        call.value,
+        call.data,
+        predecessor,
+        salt,
+      );
+      return sendTransaction(
+        hre,
+        args,
+        timelock,
+        [timelock.interface, dao.interface],
+        "schedule",
+        [call.target, call.value, call.data, predecessor, salt, delay],
+        { operationId: id, call: describeCall(dao.interface, call) },
+      );
+    },
+  );
+
+daoTask(
+  "pending-actions",
+  "Lists the admin calls waiting on the DAO's timelock",
+)
+  .addOptionalParam(
+    "fromBlock",
+    "First block to scan (defaults to the timelock deployment)",
+    undefined,
+    types.int,
+  )
+  .setAction(async (args: CommonArgs & { fromBlock?: number }, hre) => {
+    const dao = await resolveDao(hre, args.address);
+    const timelock = await resolveTimelock(hre, dao);
+    const [minDelay, operations] = await Promise.all([
+      timelock.getMinDelay(),
+      listOperations(
+        timelock,
+        args.fromBlock ?? (await timelockStartBlock(hre)),
+      ),
+    ]);
+    const report: Report = {
+      network: hre.network.name,
+      timelock: await timelock.getAddress(),
+      minDelay,
+      operations: operations.map((operation) =>
+        describeOperation(dao, operation),
+      ),
+    };
+    print(args, report);
+    return report;
+  });
+
+/** Looks up a pending operation by id, with the calls needed to execute it. */
+async function findOperation(
+  hre: HardhatRuntimeEnvironment,
+  timelock: PatientDAOTimelock,
+  id: string,
+): Promise<AdminOperation> {
+  const operations = await listOperations(
+    timelock,
+    await timelockStartBlock(hre),
+  );
+  const operation = operations.find((pending) => pending.id === id);
+  if (!operation) {
+    throw new HardhatPluginError(
+      PLUGIN_NAME,
+      `No pending operation ${id} on the timelock`,
+    );
+  }
+  return operation;
+}
+
+daoTransactionTask(
+  "execute-action",
+  "Executes a timelocked admin call whose delay has passed",
+)
+  .addParam("id", "Operation id printed by dao:schedule")
+  .setAction(async (args: TransactionArgs & { id: string }, hre) => {
+    const dao = await resolveDao(hre, args.address);
+    const timelock = await resolveTimelock(hre, dao);
+    const operation = await findOperation(
+      hre,
+      timelock,
+      parseOperationId(args.id),
+    );
+    if (operation.state !== OperationState.Ready) {
+      throw new HardhatPluginError(
+        PLUGIN_NAME,
+        `Operation ${operation.id} is not ready before ${new Date(operation.readyAt * 1000).toISOString()}`,
+      );
+    }
+
+    const { calls, predecessor, salt } = operation;
+    const interfaces = [timelock.interface, dao.interface];
+    const details = describeOperation(dao, operation);
+    if (calls.length === 1) {
+      const [{ target, value, data }] = calls;
+      return sendTransaction(
+        hre,
+        args,
+        timelock,
+        interfaces,
+        "execute",
+        [target, value, data, predecessor, salt],
+        { operation: details },
+      );
+    }
+    return sendTransaction(
+      hre,
+      args,
+      timelock,
+      interfaces,
+      "executeBatch",
+      [
+        calls.map((call) => call.target),
+        calls.map((call) => call.value),
+        calls.map((call) => call.data),
+        predecessor,
+        salt,
+      ],
+      { operation: details },
+    );
+  });
+
+daoTransactionTask("cancel-action", "Cancels a pending timelocked admin call")
+  .addParam("id", "Operation id printed by dao:schedule")
+  .setAction(async (args: TransactionArgs & { id: string }, hre) => {
+    const dao = await resolveDao(hre, args.address);
+    const timelock = await resolveTimelock(hre, dao);
+    return sendTransaction(
+      hre,
+      args,
+      timelock,
+      [timelock.interface],
+      "cancel",
+      [parseOperationId(args.id)],
+    );
+  });
+
+daoTransactionTask(
+  "set-membership-token",
+  "Weighs votes by the holdings of a PatientMembershipToken",
+)
+  .addParam("token", "Token address, or the zero address for one vote each")
+  .setAction(async (args: TransactionArgs & { token: string }, hre) =>
+    execute(hre, args, "setMembershipToken", [
+      parseAddress(hre, "token", args.token),
+    ]),
+  );
+
+/** Encrypts `amount` for the membership token and sends `mint` or `burn`. */
+async function changeMembership(
+  hre: HardhatRuntimeEnvironment,
+  args: TransactionArgs & { member: string; amount: number },
+  method: "mint" | "burn",
+) {
+  if (args.amount <= 0 || args.amount > 0xffffffff) {
+    throw new HardhatPluginError(
+      PLUGIN_NAME,
+      "--amount must be a positive 32-bit integer",
+    );
+  }
+  const member = parseAddress(hre, "member", args.member);
+  const dao = await resolveDao(hre, args.address);
+  const token = await resolveMembershipToken(hre, dao);
+  const [signer] = await hre.ethers.getSigners();
+  const input = await hre.fhevm
+    .createEncryptedInput(await token.getAddress(), signer.address)
+    .add32(args.amount)
+    .encrypt();
+  return sendTransaction(
+    hre,
+    args,
+    token,
+    [token.interface],
+    method,
+    [
+      member,
+      hre.ethers.hexlify(input.handles[0]),
+      hre.ethers.hexlify(input.inputProof),
+    ],
+    { amount: args.amount },
+  );
+}
+
+daoTransactionTask(
+  "mint-membership",
+  "Mints encrypted membership tokens to a patient or clinic",
+)
+  .addParam("member", "Recipient address")
+  .addParam("amount", "Number of tokens", undefined, types.int)
+  .setAction(
+    async (args: TransactionArgs & { member: string; amount: number }, hre) =>
+      changeMembership(hre, args, "mint"),
+  );
+
+daoTransactionTask(
+  "burn-membership",
+  "Burns membership tokens, or nothing if the balance is smaller",
+)
+  .addParam("member", "Holder address")
+  .addParam("amount", "Number of tokens", undefined, types.int)
+  .setAction(
+    async (args: TransactionArgs & { member: string; amount: number }, hre) =>
+      changeMembership(hre, args, "burn"),
+  );
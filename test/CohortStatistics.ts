@@ -0,0 +1,342 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+import {
+  createCohortQuery,
+  joinCohortStatistics,
+  loadCohortResult,
+  processCohortQuery,
+} from "../src/cohort";
+import { giveConsent, publishConsentDocument } from "../src/consent";
+import { EligibilityCriterion, Field } from "../src/eligibility";
+import { ClinicalRecord, submitRecord } from "../src/vault";
+import {
+  CohortStatistics,
+  CohortStatistics__factory,
+  ConsentRegistry,
+  ConsentRegistry__factory,
+  PatientDAOFHE,
+  PatientDAOFHE__factory,
+  PatientRecordVault,
+  PatientRecordVault__factory,
+} from "../types";
+
+describe("CohortStatistics", function () {
+  let deployer: HardhatEthersSigner;
+  let researcher: HardhatEthersSigner;
+  let patients: HardhatEthersSigner[];
+  let dao: PatientDAOFHE;
+  let daoAddress: string;
+  let consents: ConsentRegistry;
+  let vault: PatientRecordVault;
+  let statistics: CohortStatistics;
+  let trialId: bigint;
+
+  // Diagnoses in 1100–1199, aggregating biomarker 0.
+  const filters: EligibilityCriterion[] = [
+    { field: Field.DiagnosisCode, min: 1100, max: 1199 },
+  ];
+  const records: ClinicalRecord[] = [
+    { ageBracket: 4, diagnosisCode: 1190, biomarkers: [70] },
+    { ageBracket: 5, diagnosisCode: 1150, biomarkers: [80, 3] },
+    { ageBracket: 6, diagnosisCode: 1120, biomarkers: [90] },
+    // Outside the filter
+    { ageBracket: 4, diagnosisCode: 2000, biomarkers: [100] },
+  ];
+
+  const createInput = (contract: string, user: string) =>
+    fhevm.createEncryptedInput(contract, user);
+
+  // Submitted by the researcher and voted through by the deployer, who is a
+  // member and reviewer of a fresh DAO.
+  async function approveTrial() {
+    const budget = await fhevm
+      .createEncryptedInput(daoAddress, researcher.address)
+      .add64(1)
+      .encrypt();
+    await dao
+      .connect(researcher)
+      .submitProposal(
+        "Diabetes",
+        "ipfs://trial",
+        budget.handles[0],
+        budget.inputProof,
+      );
+    const proposalId = await dao.proposalCount();
+    await dao.connect(researcher).submitForReview(proposalId);
+    await dao.startVoting(proposalId);
+    const ballot = await fhevm
+      .createEncryptedInput(daoAddress, deployer.address)
+      .addBool(true)
+      .encrypt();
+    await dao.castVote(proposalId, ballot.handles[0], ballot.inputProof);
+    await time.increase(3 * 24 * 60 * 60);
+    await dao.requestProposalTallyDecryption(proposalId);
+    await fhevm.awaitDecryptionOracle();
+    await dao.finalizeProposal(proposalId);
+    return proposalId;
+  }
+
+  function publish(document: string, reconsentRequired = false) {
+    return publishConsentDocument(
+      consents.connect(researcher),
+      trialId,
+      document,
+      `ipfs://${document}`,
+      reconsentRequired,
+    );
+  }
+
+  // Stores the record, which the deployer verifies as a DAO provider, consents
+  // to the trial, shares it and joins the statistics.
+  async function join(patient: HardhatEthersSigner, record: ClinicalRecord) {
+    await (
+      await submitRecord(
+        vault.connect(patient),
+        createInput,
+        patient.address,
+        record,
+      )
+    ).wait();
+    await (await vault.verifyRecord(patient.address)).wait();
+    if (!(await vault.hasAccess(patient.address, trialId))) {
+      await (await giveConsent(consents, patient, trialId)).wait();
+      await (await vault.connect(patient).grantAccess(trialId)).wait();
+    }
+    await (
+      await joinCohortStatistics(
+        vault.connect(patient),
+        statistics,
+        patient.address,
+      )
+    )?.wait();
+  }
+
+  async function runQuery() {
+    const queryId = await createCohortQuery(
+      statistics.connect(researcher),
+      createInput,
+      researcher.address,
+      trialId,
+      Field.biomarker(0),
+      filters,
+    );
+    await processCohortQuery(statistics, queryId, 2);
+    await statistics.requestQueryDecryption(queryId);
+    await fhevm.awaitDecryptionOracle();
+    return loadCohortResult(statistics, queryId);
+  }
+
+  before(async function () {
+    const signers = await ethers.getSigners();
+    deployer = signers[0];
+    researcher = signers[1];
+    patients = signers.slice(2, 2 + records.length);
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    const daoFactory = (await ethers.getContractFactory(
+      "PatientDAOFHE",
+    )) as PatientDAOFHE__factory;
+    dao = (await daoFactory.deploy()) as PatientDAOFHE;
+    daoAddress = await dao.getAddress();
+    await dao.setCooldownSeconds(0);
+
+    const consentsFactory = (await ethers.getContractFactory(
+      "ConsentRegistry",
+    )) as ConsentRegistry__factory;
+    consents = (await consentsFactory.deploy(daoAddress)) as ConsentRegistry;
+
+    const vaultFactory = (await ethers.getContractFactory(
+      "PatientRecordVault",
+    )) as PatientRecordVault__factory;
+    vault = (await vaultFactory.deploy(
+      await dao.getAddress(),
+      await consents.getAddress(),
+    )) as PatientRecordVault;
+    await consents.setRecordVault(await vault.getAddress());
+
+    const statisticsFactory = (await ethers.getContractFactory(
+      "CohortStatistics",
+    )) as CohortStatistics__factory;
+    statistics = (await statisticsFactory.deploy(
+      await dao.getAddress(),
+      await vault.getAddress(),
+      3,
+    )) as CohortStatistics;
+
+    trialId = await approveTrial();
+    await publish("v1");
+    for (let i = 0; i < records.length; i++) {
+      await join(patients[i], records[i]);
+    }
+  });
+
+  it("reveals the aggregates of a cohort at the threshold", async function () {
+    expect(await runQuery()).to.deep.eq({
+      released: true,
+      cohortSize: 3,
+      sum: 240n,
+      mean: 80,
+    });
+    expect(await statistics.queryCount()).to.eq(1);
+    const query = await statistics.getQuery(1);
+    expect(query.trialId).to.eq(trialId);
+    expect(query.patientCount).to.eq(4);
+  });
+
+  it("withholds the aggregates of a smaller cohort", async function () {
+    // Checked with eth_call, see simulateEncryptedVote.
+    await expect(
+      statistics.connect(researcher).setMinCohortSize.staticCall(4),
+    ).to.be.revertedWithCustomError(statistics, "NotOwner");
+    await expect(statistics.setMinCohortSize(0)).to.be.revertedWithCustomError(
+      statistics,
+      "InvalidThreshold",
+    );
+    await expect(statistics.setMinCohortSize(4))
+      .to.emit(statistics, "MinCohortSizeUpdated")
+      .withArgs(3, 4);
+
+    expect(await runQuery()).to.deep.eq({
+      released: false,
+      cohortSize: 0,
+      sum: 0n,
+      mean: null,
+    });
+  });
+
+  it("aggregates only patients who still consent and have the field", async function () {
+    await statistics.setMinCohortSize(1);
+    const queryId = await createCohortQuery(
+      statistics.connect(researcher),
+      createInput,
+      researcher.address,
+      trialId,
+      Field.biomarker(1),
+      [{ field: Field.AgeBracket, min: 0, max: 9 }],
+    );
+    // Checked with eth_call, see simulateEncryptedVote.
+    await expect(
+      statistics.requestQueryDecryption.staticCall(queryId),
+    ).to.be.revertedWithCustomError(statistics, "QueryIncomplete");
+
+    // Only the second patient has biomarker 1, and they withdraw.
+    await vault
+      .connect(patients[1])
+      .removeEvaluator(await statistics.getAddress());
+    expect(await processCohortQuery(statistics, queryId, 3)).to.eq(2);
+    await statistics.requestQueryDecryption(queryId);
+    await fhevm.awaitDecryptionOracle();
+    expect(await loadCohortResult(statistics, queryId)).to.deep.eq({
+      released: false,
+      cohortSize: 0,
+      sum: 0n,
+      mean: null,
+    });
+
+    // A patient who joins later is only part of later queries
+    await join(patients[1], records[1]);
+    expect(await runQuery()).to.include({ released: true, cohortSize: 3 });
+  });
+
+  it("only queries a trial's consenting patients, for its proposer", async function () {
+    // Checked with eth_call, see simulateEncryptedVote.
+    await expect(
+      createCohortQuery(
+        statistics.connect(patients[0]),
+        createInput,
+        patients[0].address,
+        trialId,
+        Field.biomarker(0),
+        filters,
+      ),
+    ).to.be.revertedWithCustomError(statistics, "NotProposer");
+
+    // Only the first two patients consent to a version requiring it again
+    await publish("v2", true);
+    await giveConsent(consents, patients[0], trialId);
+    await giveConsent(consents, patients[1], trialId);
+    await statistics.setMinCohortSize(1);
+    expect(await runQuery()).to.deep.eq({
+      released: true,
+      cohortSize: 2,
+      sum: 150n,
+      mean: 75,
+    });
+
+    // Nor a patient who withdraws, which also revokes the trial
+    await consents.connect(patients[1]).withdrawConsent(trialId);
+    expect(await runQuery()).to.include({ cohortSize: 1, sum: 70n });
+  });
+
+  it("only counts records a current DAO provider verified", async function () {
+    const [, second, third] = patients;
+    // Checked with eth_call, see simulateEncryptedVote.
+    await expect(
+      vault.connect(second).verifyRecord.staticCall(second.address),
+    ).to.be.revertedWithCustomError(vault, "NotProvider");
+    await expect(
+      vault.verifyRecord.staticCall(researcher.address),
+    ).to.be.revertedWithCustomError(vault, "NoRecord");
+    expect(await vault.verifierOf(second.address)).to.eq(deployer.address);
+
+    // A replaced record needs verifying again
+    await submitRecord(
+      vault.connect(third),
+      createInput,
+      third.address,
+      records[2],
+    );
+    expect(await vault.verifierOf(third.address)).to.eq(ethers.ZeroAddress);
+    await statistics.setMinCohortSize(1);
+    expect(await runQuery()).to.include({ cohortSize: 2, sum: 150n });
+
+    // Nor do verifications by a provider who left the DAO
+    await dao.removeProvider(deployer.address);
+    expect(await runQuery()).to.include({ released: false, cohortSize: 0 });
+  });
+
+  it("counts a patient who leaves and rejoins during a query once", async function () {
+    await statistics.setMinCohortSize(1);
+    const queryId = await createCohortQuery(
+      statistics.connect(researcher),
+      createInput,
+      researcher.address,
+      trialId,
+      Field.biomarker(0),
+      filters,
+    );
+    await statistics.processQuery(queryId, 1);
+
+    // The first patient moves from the processed index to the last one
+    await vault.connect(patients[0]).revokeAccess(trialId);
+    await vault.connect(patients[0]).grantAccess(trialId);
+    expect(await vault.trialPatientAt(trialId, 3)).to.eq(patients[0].address);
+    expect(await processCohortQuery(statistics, queryId, 2)).to.eq(2);
+    await statistics.requestQueryDecryption(queryId);
+    await fhevm.awaitDecryptionOracle();
+    expect(await loadCohortResult(statistics, queryId)).to.include({
+      cohortSize: 3,
+      sum: 240n,
+    });
+  });
+
+  it("rejects replayed callbacks", async function () {
+    await runQuery();
+    const [log] = await statistics.queryFilter(
+      statistics.filters.QueryDecryptionRequested(),
+    );
+    // Checked with eth_call, see simulateEncryptedVote.
+    await expect(
+      statistics.queryResultCallback.staticCall(log.args.requestId, "0x", "0x"),
+    ).to.be.revertedWithCustomError(statistics, "ReplayDetected");
+  });
+});
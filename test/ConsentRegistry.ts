@@ -0,0 +1,289 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+import {
+  giveConsent,
+  hashConsentDocument,
+  loadPatientConsents,
+  publishConsentDocument,
+  signConsent,
+  submitConsent,
+} from "../src/consent";
+import {
+  loadRecordHandles,
+  rotateSupersededConsents,
+  submitRecord,
+} from "../src/vault";
+import {
+  ConsentRegistry,
+  ConsentRegistry__factory,
+  PatientDAOFHE,
+  PatientDAOFHE__factory,
+  PatientRecordVault,
+  PatientRecordVault__factory,
+} from "../types";
+
+describe("ConsentRegistry", function () {
+  let deployer: HardhatEthersSigner;
+  let researcher: HardhatEthersSigner;
+  let patient: HardhatEthersSigner;
+  let stranger: HardhatEthersSigner;
+  let dao: PatientDAOFHE;
+  let daoAddress: string;
+  let consents: ConsentRegistry;
+  let vault: PatientRecordVault;
+  let trialId: bigint;
+
+  function publish(document: string, reconsentRequired = false) {
+    return publishConsentDocument(
+      consents.connect(researcher),
+      trialId,
+      document,
+      `ipfs://${document}`,
+      reconsentRequired,
+    );
+  }
+
+  // Voted through by the deployer, who is a member and reviewer of a fresh DAO.
+  async function approveTrial() {
+    await dao.connect(researcher).submitForReview(trialId);
+    await dao.startVoting(trialId);
+    const input = await fhevm
+      .createEncryptedInput(daoAddress, deployer.address)
+      .addBool(true)
+      .encrypt();
+    await dao.castVote(trialId, input.handles[0], input.inputProof);
+    await time.increase(3 * 24 * 60 * 60);
+    await dao.requestProposalTallyDecryption(trialId);
+    await fhevm.awaitDecryptionOracle();
+    await dao.finalizeProposal(trialId);
+  }
+
+  function submit(diagnosisCode: number) {
+    return submitRecord(
+      vault.connect(patient),
+      (contract, user) => fhevm.createEncryptedInput(contract, user),
+      patient.address,
+      { ageBracket: 4, diagnosisCode, biomarkers: [] },
+    );
+  }
+
+  before(async function () {
+    [deployer, researcher, patient, stranger] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    const daoFactory = (await ethers.getContractFactory(
+      "PatientDAOFHE",
+    )) as PatientDAOFHE__factory;
+    dao = (await daoFactory.deploy()) as PatientDAOFHE;
+    daoAddress = await dao.getAddress();
+    await dao.setCooldownSeconds(0);
+
+    const consentsFactory = (await ethers.getContractFactory(
+      "ConsentRegistry",
+    )) as ConsentRegistry__factory;
+    consents = (await consentsFactory.deploy(daoAddress)) as ConsentRegistry;
+
+    const vaultFactory = (await ethers.getContractFactory(
+      "PatientRecordVault",
+    )) as PatientRecordVault__factory;
+    vault = (await vaultFactory.deploy(
+      daoAddress,
+      await consents.getAddress(),
+    )) as PatientRecordVault;
+
+    const input = await fhevm
+      .createEncryptedInput(daoAddress, researcher.address)
+      .add64(1)
+      .encrypt();
+    await dao
+      .connect(researcher)
+      .submitProposal(
+        "Diabetes",
+        "ipfs://trial",
+        input.handles[0],
+        input.inputProof,
+      );
+    trialId = await dao.proposalCount();
+  });
+
+  it("links the vault once, as the DAO owner", async function () {
+    // Checked with eth_call, see simulateEncryptedVote.
+    await expect(
+      consents
+        .connect(stranger)
+        .setRecordVault.staticCall(await vault.getAddress()),
+    ).to.be.revertedWithCustomError(consents, "NotOwner");
+    await expect(consents.setRecordVault(await vault.getAddress()))
+      .to.emit(consents, "RecordVaultSet")
+      .withArgs(await vault.getAddress());
+    await expect(
+      consents.setRecordVault.staticCall(await vault.getAddress()),
+    ).to.be.revertedWithCustomError(consents, "VaultAlreadySet");
+  });
+
+  it("publishes versioned documents from the trial's proposer", async function () {
+    // Checked with eth_call, see simulateEncryptedVote.
+    await expect(
+      consents
+        .connect(stranger)
+        .publishDocument.staticCall(trialId, ethers.ZeroHash, "", false),
+    ).to.be.revertedWithCustomError(consents, "NotProposer");
+
+    await expect(publish("v1"))
+      .to.emit(consents, "ConsentDocumentPublished")
+      .withArgs(trialId, 1, hashConsentDocument("v1"), "ipfs://v1", false);
+    await publish("v2");
+    expect(await consents.latestVersion(trialId)).to.eq(2);
+    const documents = await consents.getDocuments(trialId);
+    expect(documents.map((document) => document.uri)).to.deep.eq([
+      "ipfs://v1",
+      "ipfs://v2",
+    ]);
+    await expect(
+      consents.getDocument(trialId, 3),
+    ).to.be.revertedWithCustomError(consents, "InvalidVersion");
+  });
+
+  it("records consent signed by the patient and submitted by anyone", async function () {
+    await publish("v1");
+    const signed = await signConsent(consents, patient, trialId);
+    await expect(submitConsent(consents.connect(stranger), signed))
+      .to.emit(consents, "ConsentGiven")
+      .withArgs(trialId, patient.address, 1, hashConsentDocument("v1"));
+    expect(await consents.hasActiveConsent(patient.address, trialId)).to.eq(
+      true,
+    );
+
+    // The nonce is spent, so the same signature cannot be replayed
+    await expect(submitConsent(consents, signed)).to.be.revertedWithCustomError(
+      consents,
+      "InvalidSignature",
+    );
+    const forged = await signConsent(consents, stranger, trialId);
+    await expect(
+      submitConsent(consents, { ...forged, patient: patient.address }),
+    ).to.be.revertedWithCustomError(consents, "InvalidSignature");
+    const expired = await signConsent(consents, patient, trialId, 1n, 1n);
+    await expect(
+      submitConsent(consents, expired),
+    ).to.be.revertedWithCustomError(consents, "ExpiredSignature");
+    await expect(
+      submitConsent(consents, { ...signed, version: 2n }),
+    ).to.be.revertedWithCustomError(consents, "InvalidVersion");
+  });
+
+  it("asks for consent again when a version requires it", async function () {
+    await publish("v1");
+    await giveConsent(consents, patient, trialId);
+    await publish("v2");
+    expect(await consents.hasActiveConsent(patient.address, trialId)).to.eq(
+      true,
+    );
+
+    await publish("v3", true);
+    expect(await consents.hasActiveConsent(patient.address, trialId)).to.eq(
+      false,
+    );
+    await expect(
+      submitConsent(
+        consents,
+        await signConsent(consents, patient, trialId, 2n),
+      ),
+    ).to.be.revertedWithCustomError(consents, "InvalidVersion");
+
+    await giveConsent(consents, patient, trialId);
+    const [entry] = await loadPatientConsents(consents, patient.address);
+    expect(entry).to.include({
+      trialId,
+      version: 3n,
+      latestVersion: 3n,
+      documentHash: hashConsentDocument("v3"),
+      uri: "ipfs://v3",
+      withdrawnAt: 0,
+      active: true,
+    });
+  });
+
+  it("revokes vault access when consent is withdrawn or superseded", async function () {
+    await consents.setRecordVault(await vault.getAddress());
+    const vaultAddress = await vault.getAddress();
+    const researcherCanRead = async () => {
+      const { diagnosisCode } = await loadRecordHandles(vault, patient.address);
+      return fhevm
+        .userDecryptEuint(
+          FhevmType.euint32,
+          diagnosisCode,
+          vaultAddress,
+          researcher,
+        )
+        .then(
+          () => true,
+          () => false,
+        );
+    };
+
+    await submit(1190);
+    await approveTrial();
+    await publish("v1");
+    await giveConsent(consents, patient, trialId);
+    await vault.connect(patient).grantAccess(trialId);
+    expect(await researcherCanRead()).to.eq(true);
+
+    // A version requiring consent again stops sharing, and rotating moves the
+    // current record away from the trial
+    await publish("v2", true);
+    expect(await researcherCanRead()).to.eq(true);
+    expect(await rotateSupersededConsents(vault, trialId, 1)).to.eq(1);
+    expect(await researcherCanRead()).to.eq(false);
+    await submit(1191);
+    expect(await researcherCanRead()).to.eq(false);
+
+    // Consenting again shares the current record
+    await giveConsent(consents, patient, trialId);
+    expect(await researcherCanRead()).to.eq(true);
+    await submit(1192);
+    expect(await researcherCanRead()).to.eq(true);
+    // Rotating again skips patients who consented to the new version
+    const { diagnosisCode } = await loadRecordHandles(vault, patient.address);
+    await vault.connect(stranger).rotateSupersededConsents(trialId, 0, 10);
+    expect(
+      (await loadRecordHandles(vault, patient.address)).diagnosisCode,
+    ).to.eq(diagnosisCode);
+
+    await expect(consents.connect(patient).withdrawConsent(trialId))
+      .to.emit(consents, "ConsentWithdrawn")
+      .withArgs(trialId, patient.address, 2)
+      .and.to.emit(vault, "AccessRevoked")
+      .withArgs(patient.address, trialId);
+    expect(await vault.hasAccess(patient.address, trialId)).to.eq(false);
+    expect(await researcherCanRead()).to.eq(false);
+    expect(
+      (await loadPatientConsents(consents, patient.address))[0].active,
+    ).to.eq(false);
+
+    // Checked with eth_call, see simulateEncryptedVote.
+    await expect(
+      consents.connect(patient).withdrawConsent.staticCall(trialId),
+    ).to.be.revertedWithCustomError(consents, "NoActiveConsent");
+    await expect(
+      vault
+        .connect(patient)
+        .revokeWithdrawnConsent.staticCall(patient.address, trialId),
+    ).to.be.revertedWithCustomError(vault, "NotConsentRegistry");
+    await expect(
+      vault
+        .connect(patient)
+        .restoreRenewedConsent.staticCall(patient.address, trialId),
+    ).to.be.revertedWithCustomError(vault, "NotConsentRegistry");
+  });
+});
@@ -0,0 +1,130 @@
+import { expect } from "chai";
+import fs from "fs";
+import { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { ethers, fhevm } from "hardhat";
+
+import { computeCid, parseContentUri } from "../src/content/cid";
+import { createContentServer } from "../src/content/server";
+import {
+  ContentIntegrityError,
+  ContentStore,
+  FileSystemBackend,
+  GatewayBackend,
+  loadProposalMetadata,
+  storeProposalMetadata,
+} from "../src/content/store";
+import { PatientDAOFHE, PatientDAOFHE__factory } from "../types";
+
+describe("ContentStore", function () {
+  let directory: string;
+  let store: ContentStore;
+
+  beforeEach(function () {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "content-"));
+    store = new ContentStore(new FileSystemBackend(directory));
+  });
+
+  afterEach(function () {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("computes the CIDs IPFS assigns", function () {
+    expect(computeCid(new Uint8Array())).to.eq(
+      "bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku",
+    );
+    expect(computeCid(ethers.toUtf8Bytes("hello world"))).to.eq(
+      "bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e",
+    );
+    // One chunk is a raw block, more are linked from a dag-pb node
+    expect(computeCid(new Uint8Array(256 * 1024))).to.match(/^bafkrei/);
+    const large = new Uint8Array(256 * 1024 + 1);
+    const cid = computeCid(large);
+    expect(cid).to.match(/^bafybei/);
+    large[large.length - 1] = 1;
+    expect(computeCid(large)).to.not.eq(cid);
+
+    expect(parseContentUri(`ipfs://${cid}`)).to.eq(cid);
+    expect(parseContentUri(`ipfs://${cid}/protocol.pdf`)).to.eq(cid);
+    expect(parseContentUri("https://example.org")).to.eq(undefined);
+  });
+
+  it("keeps files in a local directory and rejects tampered ones", async function () {
+    const uri = await store.put("Protocol v1");
+    const cid = parseContentUri(uri)!;
+    expect(uri).to.eq(
+      `ipfs://${computeCid(ethers.toUtf8Bytes("Protocol v1"))}`,
+    );
+    expect(ethers.toUtf8String(await store.get(uri))).to.eq("Protocol v1");
+    expect(ethers.toUtf8String(await store.get(cid))).to.eq("Protocol v1");
+
+    fs.writeFileSync(path.join(directory, cid), "Protocol v2");
+    await expect(store.get(uri)).to.be.rejectedWith(ContentIntegrityError);
+    await expect(store.get("../secrets")).to.be.rejectedWith(RangeError);
+
+    const lying = new ContentStore({
+      put: async () => cid,
+      get: async () => ethers.toUtf8Bytes("Protocol v1"),
+    });
+    await expect(lying.put("Protocol v2")).to.be.rejectedWith(
+      ContentIntegrityError,
+    );
+  });
+
+  it("serves documents through the content server", async function () {
+    const server = createContentServer(store);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    const remote = new ContentStore(
+      new GatewayBackend(`http://127.0.0.1:${port}`),
+    );
+
+    try {
+      const pdf = ethers.randomBytes(300 * 1024);
+      const uri = await remote.put(pdf);
+      expect(uri).to.eq(`ipfs://${computeCid(pdf)}`);
+      expect(await remote.get(uri)).to.deep.eq(pdf);
+      expect(await store.get(uri)).to.deep.eq(pdf);
+      await expect(
+        remote.get(computeCid(new Uint8Array(1))),
+      ).to.be.rejectedWith("Content request failed with 404");
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it("anchors proposal metadata on-chain by its CID", async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    const [, researcher] = await ethers.getSigners();
+    const factory = (await ethers.getContractFactory(
+      "PatientDAOFHE",
+    )) as PatientDAOFHE__factory;
+    const dao = (await factory.deploy()) as PatientDAOFHE;
+
+    const protocol = await store.put(ethers.toUtf8Bytes("%PDF-1.7 protocol"));
+    const metadata = {
+      title: "Metformin in early type 2 diabetes",
+      description: "A 12-month randomized trial.",
+      protocol,
+    };
+    const uri = await storeProposalMetadata(store, metadata);
+    const input = await fhevm
+      .createEncryptedInput(await dao.getAddress(), researcher.address)
+      .add64(1)
+      .encrypt();
+    await dao
+      .connect(researcher)
+      .submitProposal("Diabetes", uri, input.handles[0], input.inputProof);
+
+    const proposal = await dao.getProposal(await dao.proposalCount());
+    expect(proposal.metadataURI).to.eq(uri);
+    expect(await loadProposalMetadata(store, proposal.metadataURI)).to.deep.eq(
+      metadata,
+    );
+  });
+});
@@ -0,0 +1,144 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+import {
+  OperationState,
+  encodeDaoCall,
+  executeOperation,
+  listOperations,
+  scheduleOperation,
+} from "../src/timelock";
+import {
+  PatientDAOFHE,
+  PatientDAOFHE__factory,
+  PatientDAOTimelock,
+  PatientDAOTimelock__factory,
+} from "../types";
+
+const MIN_DELAY = 3600;
+
+describe("PatientDAOTimelock", function () {
+  let deployer: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let dao: PatientDAOFHE;
+  let timelock: PatientDAOTimelock;
+
+  before(async function () {
+    [deployer, alice] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    const daoFactory = (await ethers.getContractFactory(
+      "PatientDAOFHE",
+    )) as PatientDAOFHE__factory;
+    dao = (await daoFactory.deploy()) as PatientDAOFHE;
+
+    // The deployer proposes, anyone executes.
+    const timelockFactory = (await ethers.getContractFactory(
+      "PatientDAOTimelock",
+    )) as PatientDAOTimelock__factory;
+    timelock = (await timelockFactory.deploy(
+      MIN_DELAY,
+      [deployer.address],
+      [ethers.ZeroAddress],
+      ethers.ZeroAddress,
+    )) as PatientDAOTimelock;
+
+    await expect(dao.setTimelock(await timelock.getAddress()))
+      .to.emit(dao, "TimelockUpdated")
+      .withArgs(ethers.ZeroAddress, await timelock.getAddress());
+  });
+
+  // Checked with eth_call, see simulateEncryptedVote.
+  it("takes sensitive calls away from the owner", async function () {
+    await expect(dao.pause.staticCall()).to.be.revertedWithCustomError(
+      dao,
+      "NotTimelock",
+    );
+    await expect(
+      dao.transferOwnership.staticCall(alice.address),
+    ).to.be.revertedWithCustomError(dao, "NotTimelock");
+    await expect(
+      dao.setTimelock.staticCall(ethers.ZeroAddress),
+    ).to.be.revertedWithCustomError(dao, "NotTimelock");
+    await expect(
+      dao.setCooldownSeconds.staticCall(0),
+    ).to.be.revertedWithCustomError(dao, "NotTimelock");
+    await expect(
+      dao.requestBatchResultDecryption.staticCall(1),
+    ).to.be.revertedWithCustomError(dao, "NotTimelock");
+    // Day-to-day administration stays with the owner.
+    await expect(dao.addMember(alice.address))
+      .to.emit(dao, "MemberAdded")
+      .withArgs(alice.address);
+  });
+
+  it("executes a scheduled call once its delay has passed", async function () {
+    const call = await encodeDaoCall(dao, "pause", []);
+    const { id, tx } = await scheduleOperation(timelock, call);
+    await tx.wait();
+
+    const [pending] = await listOperations(timelock);
+    expect(pending.id).to.eq(id);
+    expect(pending.state).to.eq(OperationState.Waiting);
+    expect(pending.calls).to.deep.eq([call]);
+    await expect(
+      timelock
+        .connect(alice)
+        .execute.staticCall(
+          call.target,
+          call.value,
+          call.data,
+          pending.predecessor,
+          pending.salt,
+        ),
+    ).to.be.revertedWithCustomError(
+      timelock,
+      "TimelockUnexpectedOperationState",
+    );
+
+    await time.increaseTo(pending.readyAt);
+    const [ready] = await listOperations(timelock);
+    expect(ready.state).to.eq(OperationState.Ready);
+    await expect(executeOperation(timelock.connect(alice), ready))
+      .to.emit(dao, "ContractPaused")
+      .withArgs(await timelock.getAddress());
+    expect(await dao.paused()).to.eq(true);
+    expect(await listOperations(timelock)).to.deep.eq([]);
+  });
+
+  it("transfers ownership through the timelock", async function () {
+    const { tx } = await scheduleOperation(
+      timelock,
+      await encodeDaoCall(dao, "transferOwnership", [alice.address]),
+    );
+    await tx.wait();
+    await time.increase(MIN_DELAY);
+    const [operation] = await listOperations(timelock);
+    await expect(executeOperation(timelock, operation))
+      .to.emit(dao, "OwnershipTransferStarted")
+      .withArgs(deployer.address, alice.address);
+
+    await dao.connect(alice).acceptOwnership();
+    expect(await dao.owner()).to.eq(alice.address);
+  });
+
+  it("drops cancelled operations", async function () {
+    const { id, tx } = await scheduleOperation(
+      timelock,
+      await encodeDaoCall(dao, "unpause", []),
+    );
+    await tx.wait();
+    await expect(timelock.cancel(id))
+      .to.emit(timelock, "Cancelled")
+      .withArgs(id);
+    expect(await listOperations(timelock)).to.deep.eq([]);
+  });
+});
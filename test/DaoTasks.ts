@@ -0,0 +1,187 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import fs from "fs";
+import hre, { ethers, fhevm } from "hardhat";
+import os from "os";
+import path from "path";
+
+import { buildAllowlist } from "../src/allowlist/allowlist";
+import {
+  PatientDAOFHE,
+  PatientDAOFHE__factory,
+  PatientDAOTimelock__factory,
+  PatientMembershipToken__factory,
+} from "../types";
+
+describe("dao:* tasks", function () {
+  let dao: PatientDAOFHE;
+  let address: string;
+  let log: typeof console.log;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    const factory = (await ethers.getContractFactory(
+      "PatientDAOFHE",
+    )) as PatientDAOFHE__factory;
+    dao = (await factory.deploy()) as PatientDAOFHE;
+    address = await dao.getAddress();
+
+    // The tasks print every report; keep the test output readable.
+    log = console.log;
+    console.log = () => undefined;
+  });
+
+  afterEach(function () {
+    if (log) {
+      console.log = log;
+    }
+  });
+
+  it("runs a batch lifecycle", async function () {
+    await hre.run("dao:set-cooldown", { address, seconds: 0, json: true });
+    const opened = await hre.run("dao:open-batch", { address, json: true });
+    expect(opened.success).to.eq(true);
+    expect(opened.events[0].name).to.eq("BatchOpened");
+    expect(opened.events[0].args.batchId).to.eq("1");
+
+    await hre.run("dao:close-batch", { address, batch: 1, json: true });
+    const requested = await hre.run("dao:request-decryption", {
+      address,
+      batch: 1,
+      json: true,
+    });
+    expect(requested.events.map((e: { name: string }) => e.name)).to.include(
+      "DecryptionRequested",
+    );
+
+    const status = await hre.run("dao:status", { address, json: true });
+    expect(status.currentBatchId).to.eq(1n);
+    expect(status.currentBatch.isOpen).to.eq(false);
+  });
+
+  it("only simulates with --dry-run", async function () {
+    const report = await hre.run("dao:pause", {
+      address,
+      dryRun: true,
+      json: true,
+    });
+    expect(report.success).to.eq(true);
+    expect(report.gasEstimate).to.be.greaterThan(0n);
+    expect(report.transactionHash).to.eq(undefined);
+    expect(await dao.paused()).to.eq(false);
+  });
+
+  it("names custom errors when a call would revert", async function () {
+    await expect(
+      hre.run("dao:close-batch", { address, batch: 7, dryRun: true }),
+    ).to.be.rejectedWith("closeBatch failed: InvalidBatch");
+  });
+
+  it("validates address arguments", async function () {
+    await expect(
+      hre.run("dao:add-provider", { address, provider: "0x1234" }),
+    ).to.be.rejectedWith('Invalid provider address "0x1234"');
+  });
+
+  it("publishes the root of an allowlist file", async function () {
+    const [, alice, bob] = await ethers.getSigners();
+    const allowlist = buildAllowlist([alice.address, bob.address]);
+    const file = path.join(
+      os.tmpdir(),
+      `provider-allowlist-${Date.now()}.json`,
+    );
+    fs.writeFileSync(file, JSON.stringify(allowlist));
+    try {
+      await hre.run("dao:set-provider-root", { address, allowlist: file });
+    } finally {
+      fs.rmSync(file);
+    }
+    expect(await dao.providerMerkleRoot()).to.eq(allowlist.root);
+
+    await expect(
+      hre.run("dao:set-provider-root", { address, root: "0x1234" }),
+    ).to.be.rejectedWith("Pass a 32-byte --root or an --allowlist file");
+  });
+
+  it("routes sensitive calls through the timelock", async function () {
+    const [deployer] = await ethers.getSigners();
+    const factory = (await ethers.getContractFactory(
+      "PatientDAOTimelock",
+    )) as PatientDAOTimelock__factory;
+    const timelock = await factory.deploy(
+      60,
+      [deployer.address],
+      [ethers.ZeroAddress],
+      ethers.ZeroAddress,
+    );
+    await dao.setTimelock(await timelock.getAddress());
+
+    await expect(
+      hre.run("dao:pause", { address, dryRun: true }),
+    ).to.be.rejectedWith("pause failed: NotTimelock");
+
+    const scheduled = await hre.run("dao:schedule", {
+      address,
+      method: "pause",
+      params: "[]",
+      json: true,
+    });
+    const pending = await hre.run("dao:pending-actions", {
+      address,
+      json: true,
+    });
+    expect(pending.operations).to.have.length(1);
+    expect(pending.operations[0]).to.include({
+      id: scheduled.operationId,
+      state: "waiting",
+    });
+    expect(pending.operations[0].calls).to.deep.eq(["pause()"]);
+    await expect(
+      hre.run("dao:execute-action", { address, id: scheduled.operationId }),
+    ).to.be.rejectedWith(/is not ready before/);
+
+    await time.increase(60);
+    const executed = await hre.run("dao:execute-action", {
+      address,
+      id: scheduled.operationId,
+      json: true,
+    });
+    expect(executed.events.map((e: { name: string }) => e.name)).to.include(
+      "ContractPaused",
+    );
+    expect(await dao.paused()).to.eq(true);
+  });
+
+  it("mints encrypted membership tokens", async function () {
+    const [, alice] = await ethers.getSigners();
+    const factory = (await ethers.getContractFactory(
+      "PatientMembershipToken",
+    )) as PatientMembershipToken__factory;
+    const token = await factory.deploy(address);
+    const tokenAddress = await token.getAddress();
+    await hre.run("dao:set-membership-token", { address, token: tokenAddress });
+
+    const report = await hre.run("dao:mint-membership", {
+      address,
+      member: alice.address,
+      amount: 3,
+      json: true,
+    });
+    expect(report.contract).to.eq(tokenAddress);
+    expect(report.events.map((e: { name: string }) => e.name)).to.include(
+      "Minted",
+    );
+    expect(await token.isHolder(alice.address)).to.eq(true);
+    expect(
+      await fhevm.debugger.decryptEuint(
+        FhevmType.euint32,
+        await token.confidentialBalanceOf(alice.address),
+      ),
+    ).to.eq(3n);
+  });
+});
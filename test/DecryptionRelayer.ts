@@ -0,0 +1,230 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+import { createCohortQuery } from "../src/cohort";
+import { Field } from "../src/eligibility";
+import { DecryptionRelayer, RelayerContracts } from "../src/relayer/relayer";
+import {
+  parseTreasuryAmount,
+  releaseMilestonePayout,
+  setTrialBudget,
+} from "../src/treasury";
+import {
+  CohortStatistics,
+  CohortStatistics__factory,
+  ConsentRegistry,
+  ConsentRegistry__factory,
+  PatientDAOFHE,
+  PatientDAOFHE__factory,
+  PatientRecordVault,
+  PatientRecordVault__factory,
+  TrialTreasury,
+  TrialTreasury__factory,
+} from "../types";
+
+describe("DecryptionRelayer", function () {
+  let deployer: HardhatEthersSigner;
+  let dao: PatientDAOFHE;
+  let daoAddress: string;
+  let deployBlock: number;
+
+  async function submitVote(
+    provider: HardhatEthersSigner,
+    batchId: number,
+    vote: number,
+  ) {
+    const input = await fhevm
+      .createEncryptedInput(daoAddress, provider.address)
+      .add32(vote)
+      .encrypt();
+    await dao
+      .connect(provider)
+      .submitVote(batchId, input.handles[0], input.inputProof);
+  }
+
+  // Each provider casts one ballot per batch
+  async function requestBatchDecryption(votes: number[]) {
+    const providers = (await ethers.getSigners()).slice(0, votes.length);
+    for (const provider of providers.slice(1)) {
+      await dao.addProvider(provider.address);
+    }
+    await dao.openBatch();
+    for (const [i, vote] of votes.entries()) {
+      await submitVote(providers[i], 1, vote);
+    }
+    await dao.closeBatch(1);
+    await dao.requestBatchResultDecryption(1);
+  }
+
+  const createInput = (contract: string, user: string) =>
+    fhevm.createEncryptedInput(contract, user);
+
+  // Submitted and voted on by the deployer, who is a member and reviewer of a fresh DAO.
+  async function requestProposalTally() {
+    const budget = await fhevm
+      .createEncryptedInput(daoAddress, deployer.address)
+      .add64(1000)
+      .encrypt();
+    await dao.submitProposal(
+      "Cancer",
+      "ipfs://proposal",
+      budget.handles[0],
+      budget.inputProof,
+    );
+    await dao.submitForReview(1);
+    await dao.startVoting(1);
+    const ballot = await fhevm
+      .createEncryptedInput(daoAddress, deployer.address)
+      .addBool(true)
+      .encrypt();
+    await dao.castVote(1, ballot.handles[0], ballot.inputProof);
+    await time.increase(3 * 24 * 60 * 60);
+    await dao.requestProposalTallyDecryption(1);
+  }
+
+  async function approveProposal() {
+    await requestProposalTally();
+    await createRelayer().syncOnce();
+    await dao.finalizeProposal(1);
+  }
+
+  function createRelayer(contracts: Partial<RelayerContracts> = {}) {
+    return new DecryptionRelayer({ dao, ...contracts }, ethers.provider, {
+      startBlock: deployBlock,
+      batchSize: 2000,
+    });
+  }
+
+  before(async function () {
+    [deployer] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    const factory = (await ethers.getContractFactory(
+      "PatientDAOFHE",
+    )) as PatientDAOFHE__factory;
+    dao = (await factory.deploy()) as PatientDAOFHE;
+    daoAddress = await dao.getAddress();
+    await dao.setCooldownSeconds(0);
+
+    deployBlock = (await dao.deploymentTransaction()!.wait())!.blockNumber;
+  });
+
+  afterEach(async function () {
+    // Move the plugin's built-in oracle past the requests answered here. Its
+    // own callbacks revert with ReplayDetected, which would otherwise surface
+    // in the next suite that awaits it.
+    await fhevm.awaitDecryptionOracle().catch(() => undefined);
+  });
+
+  it("answers batch result decryption requests", async function () {
+    await requestBatchDecryption([1, 0, 2]);
+
+    expect(await createRelayer().syncOnce()).to.eq(1);
+
+    const [completed] = await dao.queryFilter(
+      dao.filters.DecryptionCompleted(),
+    );
+    expect(completed.args.batchId).to.eq(1);
+    expect(completed.args.totalVotes).to.eq(3);
+    expect(completed.args.approvalCount).to.eq(2);
+  });
+
+  it("answers proposal tally requests", async function () {
+    await requestProposalTally();
+
+    expect(await createRelayer().syncOnce()).to.eq(1);
+
+    const tally = await dao.proposalTallies(1);
+    expect(tally.revealed).to.eq(true);
+    expect(tally.yesVotes).to.eq(1);
+    expect(tally.noVotes).to.eq(0);
+  });
+
+  it("skips requests that were already answered", async function () {
+    await requestBatchDecryption([1]);
+    expect(await createRelayer().syncOnce()).to.eq(1);
+
+    // A restarted relayer rescans the same blocks.
+    expect(await createRelayer().syncOnce()).to.eq(0);
+    expect(
+      await dao.queryFilter(dao.filters.DecryptionCompleted()),
+    ).to.have.length(1);
+  });
+
+  it("answers treasury withdrawal requests", async function () {
+    await approveProposal();
+    const treasury = (await (
+      (await ethers.getContractFactory(
+        "TrialTreasury",
+      )) as TrialTreasury__factory
+    ).deploy(daoAddress)) as TrialTreasury;
+    await treasury.addCommitteeMember(deployer.address);
+    await setTrialBudget(
+      treasury,
+      createInput,
+      deployer.address,
+      1n,
+      parseTreasuryAmount("10"),
+    );
+    await releaseMilestonePayout(
+      treasury,
+      createInput,
+      deployer.address,
+      1n,
+      "Enrollment",
+      parseTreasuryAmount("2"),
+    );
+    await treasury.requestWithdrawal(1);
+
+    // The proposal tally was answered already.
+    expect(await createRelayer({ treasury }).syncOnce()).to.eq(1);
+
+    expect(await treasury.withdrawable(deployer.address)).to.eq(
+      ethers.parseEther("2"),
+    );
+  });
+
+  it("answers cohort query requests", async function () {
+    await approveProposal();
+    const consents = (await (
+      (await ethers.getContractFactory(
+        "ConsentRegistry",
+      )) as ConsentRegistry__factory
+    ).deploy(daoAddress)) as ConsentRegistry;
+    const vault = (await (
+      (await ethers.getContractFactory(
+        "PatientRecordVault",
+      )) as PatientRecordVault__factory
+    ).deploy(daoAddress, await consents.getAddress())) as PatientRecordVault;
+    const cohortStatistics = (await (
+      (await ethers.getContractFactory(
+        "CohortStatistics",
+      )) as CohortStatistics__factory
+    ).deploy(daoAddress, await vault.getAddress(), 1)) as CohortStatistics;
+    // No patient shares with the trial, so the query has nothing to process.
+    const queryId = await createCohortQuery(
+      cohortStatistics,
+      createInput,
+      deployer.address,
+      1n,
+      Field.biomarker(0),
+      [{ field: Field.DiagnosisCode, min: 1100, max: 1199 }],
+    );
+    await cohortStatistics.requestQueryDecryption(queryId);
+
+    expect(await createRelayer({ cohortStatistics }).syncOnce()).to.eq(1);
+
+    const result = await cohortStatistics.queryResults(queryId);
+    expect(result.revealed).to.eq(true);
+    expect(result.released).to.eq(false);
+    expect(result.cohortSize).to.eq(0);
+  });
+});
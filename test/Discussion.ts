@@ -0,0 +1,198 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { AddressInfo } from "net";
+import { ethers, fhevm } from "hardhat";
+
+import {
+  IndexerCommentStore,
+  MemoryCommentStore,
+  loadDiscussion,
+  moderateComment,
+  postComment,
+  signComment,
+} from "../src/discussion";
+import { createApiServer } from "../src/indexer/api";
+import { IndexerStore } from "../src/indexer/store";
+import { PatientDAOFHE, PatientDAOFHE__factory } from "../types";
+
+describe("Discussion", function () {
+  let deployer: HardhatEthersSigner;
+  let researcher: HardhatEthersSigner;
+  let stranger: HardhatEthersSigner;
+  let dao: PatientDAOFHE;
+  let store: MemoryCommentStore;
+  let proposalId: bigint;
+
+  before(async function () {
+    [deployer, researcher, stranger] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    const factory = (await ethers.getContractFactory(
+      "PatientDAOFHE",
+    )) as PatientDAOFHE__factory;
+    dao = (await factory.deploy()) as PatientDAOFHE;
+    await dao.setCooldownSeconds(0);
+    store = new MemoryCommentStore();
+
+    const input = await fhevm
+      .createEncryptedInput(await dao.getAddress(), researcher.address)
+      .add64(1)
+      .encrypt();
+    await dao
+      .connect(researcher)
+      .submitProposal(
+        "Diabetes",
+        "ipfs://trial",
+        input.handles[0],
+        input.inputProof,
+      );
+    proposalId = await dao.proposalCount();
+  });
+
+  it("threads signed comments with badges from on-chain roles", async function () {
+    const question = await postComment(
+      dao,
+      store,
+      stranger,
+      proposalId,
+      "What is the enrollment target?",
+    );
+    const answer = await postComment(
+      dao,
+      store,
+      researcher,
+      proposalId,
+      "200 patients.",
+      question,
+    );
+    await postComment(
+      dao,
+      store,
+      deployer,
+      proposalId,
+      "Looks feasible.",
+      answer,
+    );
+    await postComment(dao, store, deployer, proposalId, "Second thread.");
+
+    const threads = await loadDiscussion(dao, store, proposalId);
+    expect(threads.map((node) => node.comment.body)).to.deep.eq([
+      "What is the enrollment target?",
+      "Second thread.",
+    ]);
+    const [first] = threads;
+    expect(first.id).to.eq(question);
+    expect(first.badges).to.deep.eq([]);
+    expect(first.replies).to.have.length(1);
+    expect(first.replies[0].id).to.eq(answer);
+    expect(first.replies[0].badges).to.deep.eq(["proposer"]);
+    expect(first.replies[0].replies[0].badges).to.deep.eq([
+      "reviewer",
+      "member",
+    ]);
+  });
+
+  it("drops comments whose signature does not match the author", async function () {
+    const signed = await signComment(dao, stranger, proposalId, "Original");
+    await store.addComment({ ...signed, body: "Tampered" });
+    await store.addComment({ ...signed, author: researcher.address });
+    await store.addComment({ ...signed, proposalId: "99" });
+    await store.addComment({ ...signed, signature: "0x1234" });
+    expect(await loadDiscussion(dao, store, proposalId)).to.deep.eq([]);
+
+    await store.addComment(signed);
+    const threads = await loadDiscussion(dao, store, proposalId);
+    expect(threads.map((node) => node.comment.body)).to.deep.eq(["Original"]);
+  });
+
+  it("applies moderation signed by the DAO owner only", async function () {
+    const spam = await postComment(dao, store, stranger, proposalId, "Spam");
+    const reply = await postComment(
+      dao,
+      store,
+      researcher,
+      proposalId,
+      "Please stay on topic.",
+      spam,
+    );
+    const hidden = async () =>
+      (await loadDiscussion(dao, store, proposalId)).map((node) => [
+        node.hidden,
+        node.replies.map((child) => child.hidden),
+      ]);
+
+    await moderateComment(dao, store, researcher, proposalId, reply, true);
+    expect(await hidden()).to.deep.eq([[false, [false]]]);
+
+    await moderateComment(dao, store, deployer, proposalId, spam, true);
+    expect(await hidden()).to.deep.eq([[true, [false]]]);
+    await moderateComment(dao, store, deployer, proposalId, spam, false);
+    expect(await hidden()).to.deep.eq([[false, [false]]]);
+
+    // Entries signed by a former owner no longer count
+    await moderateComment(dao, store, deployer, proposalId, reply, true);
+    expect(await hidden()).to.deep.eq([[false, [true]]]);
+    await dao.transferOwnership(stranger.address);
+    await dao.connect(stranger).acceptOwnership();
+    expect(await hidden()).to.deep.eq([[false, [false]]]);
+  });
+
+  it("stores comments through the indexer API after checking signatures", async function () {
+    const indexerStore = new IndexerStore(":memory:");
+    const server = createApiServer(indexerStore, {
+      chainId: Number((await ethers.provider.getNetwork()).chainId),
+      address: await dao.getAddress(),
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    const remote = new IndexerCommentStore(`http://127.0.0.1:${port}`);
+
+    try {
+      const question = await postComment(
+        dao,
+        remote,
+        stranger,
+        proposalId,
+        "Who reviews the protocol?",
+      );
+      // Posting the same signed comment again keeps one copy
+      const [stored] = await remote.listComments(`${proposalId}`);
+      await remote.addComment(stored);
+      expect(await remote.listComments(`${proposalId}`)).to.deep.eq([stored]);
+      await postComment(dao, remote, deployer, proposalId, "I do.", question);
+      await moderateComment(dao, remote, deployer, proposalId, question, true);
+
+      const signed = await signComment(dao, stranger, proposalId, "Forged");
+      await expect(
+        remote.addComment({ ...signed, author: researcher.address }),
+      ).to.be.rejectedWith("Signature does not match the author");
+      await expect(
+        remote.addComment(
+          await signComment(
+            dao,
+            stranger,
+            proposalId,
+            "Orphan",
+            ethers.id("x"),
+          ),
+        ),
+      ).to.be.rejectedWith("Unknown parent comment");
+
+      const [thread, ...others] = await loadDiscussion(dao, remote, proposalId);
+      expect(others).to.deep.eq([]);
+      expect(thread).to.include({ id: question, hidden: true });
+      expect(thread.replies.map((node) => node.comment.body)).to.deep.eq([
+        "I do.",
+      ]);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+      indexerStore.close();
+    }
+  });
+});
@@ -0,0 +1,123 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { mine } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm, network } from "hardhat";
+
+import { EventIndexer } from "../src/indexer/indexer";
+import { IndexerStore } from "../src/indexer/store";
+import { PatientDAOFHE, PatientDAOFHE__factory } from "../types";
+
+describe("EventIndexer", function () {
+  let deployer: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let dao: PatientDAOFHE;
+  let daoAddress: string;
+  let store: IndexerStore;
+  let indexer: EventIndexer;
+
+  async function submitVote(
+    batchId: number,
+    vote: number,
+    provider: HardhatEthersSigner = deployer,
+  ) {
+    const input = await fhevm
+      .createEncryptedInput(daoAddress, provider.address)
+      .add32(vote)
+      .encrypt();
+    await dao
+      .connect(provider)
+      .submitVote(batchId, input.handles[0], input.inputProof);
+  }
+
+  async function syncToHead() {
+    while ((await indexer.syncOnce()) !== undefined) {
+      // keep going until the confirmed head is reached
+    }
+  }
+
+  before(async function () {
+    [deployer, alice] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    const factory = (await ethers.getContractFactory(
+      "PatientDAOFHE",
+    )) as PatientDAOFHE__factory;
+    dao = (await factory.deploy()) as PatientDAOFHE;
+    daoAddress = await dao.getAddress();
+    await dao.setCooldownSeconds(0);
+
+    const deployBlock = (await dao.deploymentTransaction()!.wait())!
+      .blockNumber;
+    store = new IndexerStore(":memory:");
+    indexer = new EventIndexer(ethers.provider, store, {
+      address: daoAddress,
+      startBlock: deployBlock,
+      confirmations: 0,
+      batchSize: 3,
+      reorgDepth: 16,
+    });
+  });
+
+  afterEach(function () {
+    store?.close();
+  });
+
+  it("indexes batch activity in block order", async function () {
+    await dao.addProvider(alice.address);
+    await dao.openBatch();
+    await submitVote(1, 1, alice);
+    await submitVote(1, 0);
+    await dao.closeBatch(1);
+    await syncToHead();
+
+    const names = store.listEvents().map((event) => event.name);
+    expect(names).to.deep.eq([
+      "BatchOpened",
+      "VoteSubmitted",
+      "VoteSubmitted",
+      "BatchClosed",
+    ]);
+    expect(store.listEvents({ name: "VoteSubmitted" })[1].args).to.include({
+      provider: deployer.address,
+      batchId: "1",
+      encryptedVoteIndex: "1",
+    });
+    expect(store.listBatches()).to.deep.eq([
+      {
+        batchId: 1,
+        openedAt: store.listEvents({ name: "BatchOpened" })[0].timestamp,
+        closedAt: store.listEvents({ name: "BatchClosed" })[0].timestamp,
+        submissions: 2,
+        totalVotes: null,
+        approvalCount: null,
+      },
+    ]);
+    expect(store.getCursor()).to.eq(await ethers.provider.getBlockNumber());
+  });
+
+  it("rewinds events from reorged blocks", async function () {
+    await dao.openBatch();
+    await syncToHead();
+    const snapshot = await network.provider.send("evm_snapshot");
+
+    await submitVote(1, 1);
+    await syncToHead();
+    expect(store.listEvents({ name: "VoteSubmitted" })).to.have.length(1);
+
+    // Replace the vote block with an empty one at the same height
+    await network.provider.send("evm_revert", [snapshot]);
+    await mine(2);
+
+    expect(await indexer.handleReorg()).to.eq(true);
+    await syncToHead();
+    expect(store.listEvents({ name: "VoteSubmitted" })).to.have.length(0);
+    expect(store.listEvents({ name: "BatchOpened" })).to.have.length(1);
+    expect(store.getCursor()).to.eq(await ethers.provider.getBlockNumber());
+  });
+});
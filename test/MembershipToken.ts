@@ -0,0 +1,220 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+import {
+  PatientDAOFHE,
+  PatientDAOFHE__factory,
+  PatientMembershipToken,
+  PatientMembershipToken__factory,
+} from "../types";
+
+describe("PatientMembershipToken", function () {
+  let deployer: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let carol: HardhatEthersSigner;
+  let dao: PatientDAOFHE;
+  let daoAddress: string;
+  let token: PatientMembershipToken;
+  let tokenAddress: string;
+
+  async function mint(to: HardhatEthersSigner, amount: number) {
+    const input = await fhevm
+      .createEncryptedInput(tokenAddress, deployer.address)
+      .add32(amount)
+      .encrypt();
+    return token.mint(to.address, input.handles[0], input.inputProof);
+  }
+
+  async function decrypt(handle: string) {
+    return fhevm.debugger.decryptEuint(FhevmType.euint32, handle);
+  }
+
+  async function castEncryptedVote(
+    member: HardhatEthersSigner,
+    proposalId: number,
+    support: boolean,
+  ) {
+    const input = await fhevm
+      .createEncryptedInput(daoAddress, member.address)
+      .addBool(support)
+      .encrypt();
+    return dao
+      .connect(member)
+      .castVote(proposalId, input.handles[0], input.inputProof);
+  }
+
+  async function startProposalVote() {
+    const input = await fhevm
+      .createEncryptedInput(daoAddress, carol.address)
+      .add64(1)
+      .encrypt();
+    await dao
+      .connect(carol)
+      .submitProposal(
+        "Cancer",
+        "ipfs://proposal",
+        input.handles[0],
+        input.inputProof,
+      );
+    const proposalId = Number(await dao.proposalCount());
+    await dao.connect(carol).submitForReview(proposalId);
+    await dao.startVoting(proposalId);
+    return proposalId;
+  }
+
+  before(async function () {
+    [deployer, alice, bob, carol] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    const daoFactory = (await ethers.getContractFactory(
+      "PatientDAOFHE",
+    )) as PatientDAOFHE__factory;
+    dao = (await daoFactory.deploy()) as PatientDAOFHE;
+    daoAddress = await dao.getAddress();
+    await dao.setCooldownSeconds(0);
+
+    const tokenFactory = (await ethers.getContractFactory(
+      "PatientMembershipToken",
+    )) as PatientMembershipToken__factory;
+    token = (await tokenFactory.deploy(daoAddress)) as PatientMembershipToken;
+    tokenAddress = await token.getAddress();
+  });
+
+  it("keeps balances encrypted and readable by their holder", async function () {
+    await expect(mint(alice, 5))
+      .to.emit(token, "DelegateChanged")
+      .withArgs(alice.address, ethers.ZeroAddress, alice.address);
+    await mint(alice, 3);
+
+    expect(await token.isHolder(alice.address)).to.eq(true);
+    expect(await token.isHolder(bob.address)).to.eq(false);
+    expect(
+      await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        await token.confidentialBalanceOf(alice.address),
+        tokenAddress,
+        alice,
+      ),
+    ).to.eq(8n);
+    expect(
+      await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        await token.getVotes(alice.address),
+        tokenAddress,
+        alice,
+      ),
+    ).to.eq(8n);
+    expect(await decrypt(await token.confidentialTotalSupply())).to.eq(8n);
+  });
+
+  it("burns no more than the balance", async function () {
+    await mint(alice, 5);
+    const input = await fhevm
+      .createEncryptedInput(tokenAddress, deployer.address)
+      .add32(9)
+      .encrypt();
+    await token.burn(alice.address, input.handles[0], input.inputProof);
+    expect(
+      await decrypt(await token.confidentialBalanceOf(alice.address)),
+    ).to.eq(5n);
+  });
+
+  it("moves voting power with delegation", async function () {
+    await mint(alice, 5);
+    await mint(bob, 2);
+    await expect(token.connect(alice).delegate(bob.address))
+      .to.emit(token, "DelegateChanged")
+      .withArgs(alice.address, alice.address, bob.address);
+
+    expect(await decrypt(await token.getVotes(alice.address))).to.eq(0n);
+    expect(await decrypt(await token.getVotes(bob.address))).to.eq(7n);
+    // Delegating moves votes, not the tokens.
+    expect(
+      await decrypt(await token.confidentialBalanceOf(alice.address)),
+    ).to.eq(5n);
+
+    // Checked with eth_call, see simulateEncryptedVote.
+    await expect(
+      token.connect(alice).delegate.staticCall(carol.address),
+    ).to.be.revertedWithCustomError(token, "NotHolder");
+  });
+
+  it("answers past voting power from checkpoints", async function () {
+    await mint(alice, 5);
+    const before = await ethers.provider.getBlock("latest");
+    await mint(alice, 4);
+
+    expect(
+      await decrypt(await token.getPastVotes(alice.address, before!.timestamp)),
+    ).to.eq(5n);
+    expect(
+      await token.getPastVotes(alice.address, before!.timestamp - 10),
+    ).to.eq(ethers.ZeroHash);
+    await expect(
+      token.getPastVotes(alice.address, before!.timestamp + 3600),
+    ).to.be.revertedWithCustomError(token, "FutureLookup");
+  });
+
+  describe("weighted votes", function () {
+    beforeEach(async function () {
+      await mint(alice, 5);
+      await mint(bob, 2);
+      await expect(dao.setMembershipToken(tokenAddress))
+        .to.emit(dao, "MembershipTokenUpdated")
+        .withArgs(ethers.ZeroAddress, tokenAddress);
+    });
+
+    it("lets token holders vote with their delegated tokens", async function () {
+      const proposalId = await startProposalVote();
+      await castEncryptedVote(alice, proposalId, true);
+      await castEncryptedVote(bob, proposalId, false);
+
+      const tally = await dao.proposalTallies(proposalId);
+      expect(await decrypt(tally.encryptedYesVotes)).to.eq(5n);
+      expect(await decrypt(tally.encryptedNoVotes)).to.eq(2n);
+    });
+
+    it("reads voting power when the vote started", async function () {
+      const proposalId = await startProposalVote();
+      await mint(bob, 10);
+      await token.connect(alice).delegate(bob.address);
+      await castEncryptedVote(bob, proposalId, false);
+      await castEncryptedVote(alice, proposalId, true);
+
+      const tally = await dao.proposalTallies(proposalId);
+      expect(await decrypt(tally.encryptedYesVotes)).to.eq(5n);
+      expect(await decrypt(tally.encryptedNoVotes)).to.eq(2n);
+    });
+
+    it("weighs provider batch votes", async function () {
+      await dao.addProvider(alice.address);
+      await dao.addProvider(bob.address);
+      await dao.openBatch();
+      for (const [provider, vote] of [
+        [alice, 1],
+        [bob, 0],
+      ] as const) {
+        const input = await fhevm
+          .createEncryptedInput(daoAddress, provider.address)
+          .add32(vote)
+          .encrypt();
+        await dao
+          .connect(provider)
+          .submitVote(1, input.handles[0], input.inputProof);
+      }
+      await dao.closeBatch(1);
+
+      expect(await decrypt(await dao.encryptedTotalVotes(1))).to.eq(7n);
+      expect(await decrypt(await dao.encryptedApprovalCount(1))).to.eq(5n);
+    });
+  });
+});
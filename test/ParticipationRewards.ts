@@ -0,0 +1,474 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+import { giveConsent, publishConsentDocument } from "../src/consent";
+import {
+  decryptOwedReward,
+  decryptRewardBalance,
+  fundRewardPool,
+  loadPatientRewards,
+  mintRewards,
+  parseRewardAmount,
+  setRewardPerPatient,
+  transferRewards,
+} from "../src/rewards";
+import { submitRecord } from "../src/vault";
+import {
+  ConsentRegistry,
+  ConsentRegistry__factory,
+  ParticipationRewards,
+  ParticipationRewards__factory,
+  PatientDAOFHE,
+  PatientDAOFHE__factory,
+  PatientRecordVault,
+  PatientRecordVault__factory,
+} from "../types";
+
+describe("ParticipationRewards", function () {
+  let deployer: HardhatEthersSigner;
+  let researcher: HardhatEthersSigner;
+  let patients: HardhatEthersSigner[];
+  let dao: PatientDAOFHE;
+  let daoAddress: string;
+  let consents: ConsentRegistry;
+  let vault: PatientRecordVault;
+  let rewards: ParticipationRewards;
+  let rewardsAddress: string;
+  let trialId: bigint;
+
+  const createInput = (contract: string, user: string) =>
+    fhevm.createEncryptedInput(contract, user);
+
+  // Voted through by the deployer, who is a member and reviewer of a fresh DAO.
+  async function approveTrial() {
+    await dao.connect(researcher).submitForReview(trialId);
+    await dao.startVoting(trialId);
+    const input = await fhevm
+      .createEncryptedInput(daoAddress, deployer.address)
+      .addBool(true)
+      .encrypt();
+    await dao.castVote(trialId, input.handles[0], input.inputProof);
+    await time.increase(3 * 24 * 60 * 60);
+    await dao.requestProposalTallyDecryption(trialId);
+    await fhevm.awaitDecryptionOracle();
+    await dao.finalizeProposal(trialId);
+  }
+
+  // Shares a record with the trial on its own, as any address can.
+  async function shareRecord(patient: HardhatEthersSigner) {
+    await submitRecord(vault.connect(patient), createInput, patient.address, {
+      ageBracket: 4,
+      diagnosisCode: 1190,
+      biomarkers: [],
+    });
+    await giveConsent(consents, patient, trialId);
+    await vault.connect(patient).grantAccess(trialId);
+  }
+
+  async function participate(patient: HardhatEthersSigner) {
+    await shareRecord(patient);
+    await rewards
+      .connect(researcher)
+      .enrollParticipants(trialId, [patient.address]);
+  }
+
+  function decryptAs(user: HardhatEthersSigner) {
+    return async (handles: string[]) => {
+      const values: Record<string, bigint> = {};
+      for (const handle of handles) {
+        values[handle] = await fhevm.userDecryptEuint(
+          FhevmType.euint64,
+          handle,
+          rewardsAddress,
+          user,
+        );
+      }
+      return values;
+    };
+  }
+
+  function balanceOf(account: HardhatEthersSigner) {
+    return decryptRewardBalance(rewards, account.address, decryptAs(account));
+  }
+
+  before(async function () {
+    const signers = await ethers.getSigners();
+    [deployer, researcher] = signers;
+    patients = signers.slice(2, 5);
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    const daoFactory = (await ethers.getContractFactory(
+      "PatientDAOFHE",
+    )) as PatientDAOFHE__factory;
+    dao = (await daoFactory.deploy()) as PatientDAOFHE;
+    daoAddress = await dao.getAddress();
+    await dao.setCooldownSeconds(0);
+
+    const consentsFactory = (await ethers.getContractFactory(
+      "ConsentRegistry",
+    )) as ConsentRegistry__factory;
+    consents = (await consentsFactory.deploy(daoAddress)) as ConsentRegistry;
+
+    const vaultFactory = (await ethers.getContractFactory(
+      "PatientRecordVault",
+    )) as PatientRecordVault__factory;
+    vault = (await vaultFactory.deploy(
+      daoAddress,
+      await consents.getAddress(),
+    )) as PatientRecordVault;
+
+    const rewardsFactory = (await ethers.getContractFactory(
+      "ParticipationRewards",
+    )) as ParticipationRewards__factory;
+    rewards = (await rewardsFactory.deploy(
+      daoAddress,
+      await vault.getAddress(),
+    )) as ParticipationRewards;
+    rewardsAddress = await rewards.getAddress();
+
+    const input = await fhevm
+      .createEncryptedInput(daoAddress, researcher.address)
+      .add64(1)
+      .encrypt();
+    await dao
+      .connect(researcher)
+      .submitProposal(
+        "Diabetes",
+        "ipfs://trial",
+        input.handles[0],
+        input.inputProof,
+      );
+    trialId = await dao.proposalCount();
+    await approveTrial();
+    await publishConsentDocument(
+      consents.connect(researcher),
+      trialId,
+      "Consent form v1",
+      "ipfs://consent",
+    );
+  });
+
+  it("mints and transfers confidential balances", async function () {
+    const [alice, bob] = patients;
+    // Checked with eth_call, see simulateEncryptedVote.
+    const input = await createInput(rewardsAddress, alice.address)
+      .add64(1)
+      .encrypt();
+    await expect(
+      rewards
+        .connect(alice)
+        .mint.staticCall(alice.address, input.handles[0], input.inputProof),
+    ).to.be.revertedWithCustomError(rewards, "NotOwner");
+
+    await expect(
+      mintRewards(
+        rewards,
+        createInput,
+        deployer.address,
+        alice.address,
+        parseRewardAmount("10"),
+      ),
+    )
+      .to.emit(rewards, "Transfer")
+      .withArgs(ethers.ZeroAddress, alice.address);
+    await transferRewards(
+      rewards.connect(alice),
+      createInput,
+      alice.address,
+      bob.address,
+      parseRewardAmount("4"),
+    );
+    // More than Alice holds, so nothing moves
+    await transferRewards(
+      rewards.connect(alice),
+      createInput,
+      alice.address,
+      bob.address,
+      parseRewardAmount("7"),
+    );
+
+    expect(await balanceOf(alice)).to.eq(parseRewardAmount("6"));
+    expect(await balanceOf(bob)).to.eq(parseRewardAmount("4"));
+    expect(await balanceOf(patients[2])).to.eq(0n);
+    await expect(
+      decryptAs(bob)([await rewards.confidentialBalanceOf(alice.address)]),
+    ).to.be.rejected;
+    await expect(decryptAs(alice)([await rewards.confidentialTotalSupply()])).to
+      .be.rejected;
+  });
+
+  it("pays each participating patient the trial's reward once", async function () {
+    const [alice, bob, carol] = patients;
+    await mintRewards(
+      rewards,
+      createInput,
+      deployer.address,
+      researcher.address,
+      parseRewardAmount("100"),
+    );
+    await expect(
+      fundRewardPool(
+        rewards.connect(researcher),
+        createInput,
+        researcher.address,
+        trialId,
+        parseRewardAmount("50"),
+      ),
+    )
+      .to.emit(rewards, "PoolFunded")
+      .withArgs(trialId, researcher.address);
+    await setRewardPerPatient(
+      rewards.connect(researcher),
+      createInput,
+      researcher.address,
+      trialId,
+      parseRewardAmount("30"),
+    );
+
+    await participate(alice);
+    await participate(bob);
+    // Checked with eth_call, see simulateEncryptedVote.
+    await expect(
+      rewards.connect(carol).claimReward.staticCall(trialId),
+    ).to.be.revertedWithCustomError(rewards, "NotParticipant");
+
+    expect(await loadPatientRewards(rewards, vault, alice.address)).to.deep.eq([
+      { trialId, enrolled: true, claimed: false, claimable: true },
+    ]);
+    await expect(rewards.connect(alice).claimReward(trialId))
+      .to.emit(rewards, "RewardClaimed")
+      .withArgs(trialId, alice.address);
+    // Alice is owed nothing more, so claiming again pays nothing
+    await rewards.connect(alice).claimReward(trialId);
+    // The 20 left cannot cover Bob's reward
+    await rewards.connect(bob).claimReward(trialId);
+
+    expect(await balanceOf(alice)).to.eq(parseRewardAmount("30"));
+    expect(await balanceOf(bob)).to.eq(0n);
+    expect(
+      await decryptOwedReward(
+        rewards,
+        trialId,
+        alice.address,
+        decryptAs(alice),
+      ),
+    ).to.eq(0n);
+    expect(
+      await decryptOwedReward(rewards, trialId, bob.address, decryptAs(bob)),
+    ).to.eq(parseRewardAmount("30"));
+    expect(await balanceOf(researcher)).to.eq(parseRewardAmount("50"));
+    const pool = await rewards.poolOf(trialId);
+    expect((await decryptAs(researcher)([pool]))[pool]).to.eq(
+      parseRewardAmount("20"),
+    );
+    expect(await loadPatientRewards(rewards, vault, alice.address)).to.deep.eq([
+      { trialId, enrolled: true, claimed: true, claimable: false },
+    ]);
+  });
+
+  it("pays what an underfunded pool owes once it is refilled", async function () {
+    const [alice] = patients;
+    await mintRewards(
+      rewards,
+      createInput,
+      deployer.address,
+      researcher.address,
+      parseRewardAmount("100"),
+    );
+    await fundRewardPool(
+      rewards.connect(researcher),
+      createInput,
+      researcher.address,
+      trialId,
+      parseRewardAmount("10"),
+    );
+    await setRewardPerPatient(
+      rewards.connect(researcher),
+      createInput,
+      researcher.address,
+      trialId,
+      parseRewardAmount("30"),
+    );
+    await participate(alice);
+
+    await rewards.connect(alice).claimReward(trialId);
+    expect(await balanceOf(alice)).to.eq(0n);
+    // A lower reward set later does not change what Alice accrued
+    await setRewardPerPatient(
+      rewards.connect(researcher),
+      createInput,
+      researcher.address,
+      trialId,
+      parseRewardAmount("5"),
+    );
+    await fundRewardPool(
+      rewards.connect(researcher),
+      createInput,
+      researcher.address,
+      trialId,
+      parseRewardAmount("25"),
+    );
+    await rewards.connect(alice).claimReward(trialId);
+
+    expect(await balanceOf(alice)).to.eq(parseRewardAmount("30"));
+    expect(
+      await decryptOwedReward(
+        rewards,
+        trialId,
+        alice.address,
+        decryptAs(alice),
+      ),
+    ).to.eq(0n);
+    const pool = await rewards.poolOf(trialId);
+    expect((await decryptAs(researcher)([pool]))[pool]).to.eq(
+      parseRewardAmount("5"),
+    );
+  });
+
+  it("only pays patients the proposer enrolled", async function () {
+    const [alice, sybil] = patients;
+    await mintRewards(
+      rewards,
+      createInput,
+      deployer.address,
+      researcher.address,
+      parseRewardAmount("10"),
+    );
+    await fundRewardPool(
+      rewards.connect(researcher),
+      createInput,
+      researcher.address,
+      trialId,
+      parseRewardAmount("10"),
+    );
+    await setRewardPerPatient(
+      rewards.connect(researcher),
+      createInput,
+      researcher.address,
+      trialId,
+      parseRewardAmount("10"),
+    );
+
+    // Sharing a record with current consent is not enough
+    await shareRecord(sybil);
+    // Checked with eth_call, see simulateEncryptedVote.
+    await expect(
+      rewards.connect(sybil).claimReward.staticCall(trialId),
+    ).to.be.revertedWithCustomError(rewards, "NotEnrolled");
+    expect(await loadPatientRewards(rewards, vault, sybil.address)).to.deep.eq([
+      { trialId, enrolled: false, claimed: false, claimable: false },
+    ]);
+    await expect(
+      rewards
+        .connect(sybil)
+        .enrollParticipants.staticCall(trialId, [sybil.address]),
+    ).to.be.revertedWithCustomError(rewards, "NotProposer");
+    await expect(
+      rewards
+        .connect(researcher)
+        .enrollParticipants.staticCall(trialId, [alice.address]),
+    ).to.be.revertedWithCustomError(rewards, "NotParticipant");
+
+    await shareRecord(alice);
+    await expect(
+      rewards.connect(researcher).enrollParticipants(trialId, [alice.address]),
+    )
+      .to.emit(rewards, "ParticipantEnrolled")
+      .withArgs(trialId, alice.address);
+    await rewards.connect(alice).claimReward(trialId);
+    expect(await balanceOf(alice)).to.eq(parseRewardAmount("10"));
+  });
+
+  it("requires current consent to claim", async function () {
+    const [alice] = patients;
+    await mintRewards(
+      rewards,
+      createInput,
+      deployer.address,
+      researcher.address,
+      parseRewardAmount("10"),
+    );
+    await fundRewardPool(
+      rewards.connect(researcher),
+      createInput,
+      researcher.address,
+      trialId,
+      parseRewardAmount("10"),
+    );
+    await setRewardPerPatient(
+      rewards.connect(researcher),
+      createInput,
+      researcher.address,
+      trialId,
+      parseRewardAmount("10"),
+    );
+    await participate(alice);
+    await publishConsentDocument(
+      consents.connect(researcher),
+      trialId,
+      "Consent form v2",
+      "ipfs://consent-v2",
+      true,
+    );
+
+    // Checked with eth_call, see simulateEncryptedVote.
+    await expect(
+      rewards.connect(alice).claimReward.staticCall(trialId),
+    ).to.be.revertedWithCustomError(rewards, "ConsentRequired");
+    await giveConsent(consents, alice, trialId);
+    await rewards.connect(alice).claimReward(trialId);
+    expect(await balanceOf(alice)).to.eq(parseRewardAmount("10"));
+  });
+
+  it("only rewards approved trials with a reward set", async function () {
+    const [alice] = patients;
+    await participate(alice);
+    // Checked with eth_call, see simulateEncryptedVote.
+    await expect(
+      rewards.connect(alice).claimReward.staticCall(trialId),
+    ).to.be.revertedWithCustomError(rewards, "NoReward");
+
+    const draft = await fhevm
+      .createEncryptedInput(daoAddress, researcher.address)
+      .add64(1)
+      .encrypt();
+    await dao
+      .connect(researcher)
+      .submitProposal(
+        "Oncology",
+        "ipfs://draft",
+        draft.handles[0],
+        draft.inputProof,
+      );
+    const input = await createInput(rewardsAddress, researcher.address)
+      .add64(1)
+      .encrypt();
+    await expect(
+      rewards
+        .connect(researcher)
+        .fundPool.staticCall(
+          await dao.proposalCount(),
+          input.handles[0],
+          input.inputProof,
+        ),
+    ).to.be.revertedWithCustomError(rewards, "TrialNotApproved");
+    await expect(
+      rewards
+        .connect(alice)
+        .setRewardPerPatient.staticCall(
+          trialId,
+          input.handles[0],
+          input.inputProof,
+        ),
+    ).to.be.revertedWithCustomError(rewards, "NotProposer");
+  });
+});
@@ -0,0 +1,932 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+import { PatientDAOFHE, PatientDAOFHE__factory } from "../types";
+
+// Mirrors PatientDAOFHE.ProposalStatus
+const Status = {
+  Draft: 0,
+  UnderReview: 1,
+  Voting: 2,
+  Approved: 3,
+  Rejected: 4,
+  Withdrawn: 5,
+};
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory(
+    "PatientDAOFHE",
+  )) as PatientDAOFHE__factory;
+  const dao = (await factory.deploy()) as PatientDAOFHE;
+  const daoAddress = await dao.getAddress();
+
+  return { dao, daoAddress };
+}
+
+describe("PatientDAOFHE", function () {
+  let signers: Signers;
+  let dao: PatientDAOFHE;
+  let daoAddress: string;
+
+  async function encryptVote(provider: HardhatEthersSigner, vote: number) {
+    return fhevm
+      .createEncryptedInput(daoAddress, provider.address)
+      .add32(vote)
+      .encrypt();
+  }
+
+  async function submitEncryptedVote(
+    provider: HardhatEthersSigner,
+    batchId: bigint,
+    vote: number,
+  ) {
+    const input = await encryptVote(provider, vote);
+    return dao
+      .connect(provider)
+      .submitVote(batchId, input.handles[0], input.inputProof);
+  }
+
+  // Reverts of submitVote are checked with eth_call: Hardhat does not always
+  // decode custom errors from the viaIR build, and the fhevm provider wrapper
+  // then fails on eth_sendTransaction instead of forwarding the revert.
+  async function simulateEncryptedVote(
+    provider: HardhatEthersSigner,
+    batchId: bigint,
+    vote: number,
+  ) {
+    const input = await encryptVote(provider, vote);
+    return dao
+      .connect(provider)
+      .submitVote.staticCall(batchId, input.handles[0], input.inputProof);
+  }
+
+  async function requestDecryption(batchId: bigint) {
+    const tx = await dao.requestBatchResultDecryption(batchId);
+    const receipt = await tx.wait();
+    const event = receipt!.logs
+      .map((log) => {
+        try {
+          return dao.interface.parseLog(log);
+        } catch {
+          return null;
+        }
+      })
+      .find((parsed) => parsed?.name === "DecryptionRequested");
+    return event!.args.requestId as bigint;
+  }
+
+  async function submitProposal(
+    proposer: HardhatEthersSigner,
+    category: string,
+    budget: number,
+  ) {
+    const input = await fhevm
+      .createEncryptedInput(daoAddress, proposer.address)
+      .add64(budget)
+      .encrypt();
+    return dao
+      .connect(proposer)
+      .submitProposal(
+        category,
+        `ipfs://proposal-${budget}`,
+        input.handles[0],
+        input.inputProof,
+      );
+  }
+
+  async function castEncryptedVote(
+    member: HardhatEthersSigner,
+    proposalId: number,
+    support: boolean,
+  ) {
+    const input = await fhevm
+      .createEncryptedInput(daoAddress, member.address)
+      .addBool(support)
+      .encrypt();
+    return dao
+      .connect(member)
+      .castVote(proposalId, input.handles[0], input.inputProof);
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      deployer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+      carol: ethSigners[3],
+    };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ dao, daoAddress } = await deployFixture());
+  });
+
+  describe("ownership", function () {
+    it("makes the deployer owner and provider", async function () {
+      expect(await dao.owner()).to.eq(signers.deployer.address);
+      expect(await dao.isProvider(signers.deployer.address)).to.eq(true);
+      expect(await dao.cooldownSeconds()).to.eq(60);
+    });
+
+    it("transfers ownership once the new owner accepts", async function () {
+      await expect(dao.transferOwnership(signers.alice.address))
+        .to.emit(dao, "OwnershipTransferStarted")
+        .withArgs(signers.deployer.address, signers.alice.address);
+      expect(await dao.owner()).to.eq(signers.deployer.address);
+      expect(await dao.pendingOwner()).to.eq(signers.alice.address);
+
+      await expect(
+        dao.connect(signers.bob).acceptOwnership.staticCall(),
+      ).to.be.revertedWithCustomError(dao, "NotPendingOwner");
+      await expect(dao.connect(signers.alice).acceptOwnership())
+        .to.emit(dao, "OwnershipTransferred")
+        .withArgs(signers.deployer.address, signers.alice.address);
+      expect(await dao.owner()).to.eq(signers.alice.address);
+      expect(await dao.pendingOwner()).to.eq(ethers.ZeroAddress);
+      await expect(dao.pause()).to.be.revertedWithCustomError(dao, "NotOwner");
+    });
+
+    // Checked with eth_call, see simulateEncryptedVote.
+    it("rejects owner-only calls from other accounts", async function () {
+      const asAlice = dao.connect(signers.alice);
+      await expect(
+        asAlice.transferOwnership.staticCall(signers.alice.address),
+      ).to.be.revertedWithCustomError(dao, "NotOwner");
+      await expect(
+        asAlice.addProvider.staticCall(signers.alice.address),
+      ).to.be.revertedWithCustomError(dao, "NotOwner");
+      await expect(
+        asAlice.setCooldownSeconds.staticCall(0),
+      ).to.be.revertedWithCustomError(dao, "NotOwner");
+      await expect(
+        asAlice.openBatch.staticCall(),
+      ).to.be.revertedWithCustomError(dao, "NotOwner");
+      await expect(
+        asAlice.requestBatchResultDecryption.staticCall(1),
+      ).to.be.revertedWithCustomError(dao, "NotOwner");
+    });
+  });
+
+  describe("provider management", function () {
+    it("adds and removes providers", async function () {
+      await expect(dao.addProvider(signers.alice.address))
+        .to.emit(dao, "ProviderAdded")
+        .withArgs(signers.alice.address);
+      expect(await dao.isProvider(signers.alice.address)).to.eq(true);
+
+      await expect(dao.removeProvider(signers.alice.address))
+        .to.emit(dao, "ProviderRemoved")
+        .withArgs(signers.alice.address);
+      expect(await dao.isProvider(signers.alice.address)).to.eq(false);
+    });
+
+    it("only lets providers submit votes", async function () {
+      await dao.openBatch();
+      await expect(
+        simulateEncryptedVote(signers.alice, 1n, 1),
+      ).to.be.revertedWithCustomError(dao, "NotProvider");
+    });
+  });
+
+  describe("pause", function () {
+    it("blocks batch operations while paused", async function () {
+      await expect(dao.pause())
+        .to.emit(dao, "ContractPaused")
+        .withArgs(signers.deployer.address);
+      expect(await dao.paused()).to.eq(true);
+      await expect(dao.openBatch()).to.be.revertedWithCustomError(
+        dao,
+        "Paused",
+      );
+      await expect(dao.pause()).to.be.revertedWithCustomError(dao, "Paused");
+
+      await expect(dao.unpause())
+        .to.emit(dao, "ContractUnpaused")
+        .withArgs(signers.deployer.address);
+      await expect(dao.openBatch()).to.emit(dao, "BatchOpened");
+    });
+
+    it("blocks vote submission while paused", async function () {
+      await dao.openBatch();
+      await dao.pause();
+      await expect(
+        simulateEncryptedVote(signers.deployer, 1n, 1),
+      ).to.be.revertedWithCustomError(dao, "Paused");
+    });
+  });
+
+  describe("cooldowns", function () {
+    beforeEach(async function () {
+      await dao.addProvider(signers.alice.address);
+      await dao.openBatch();
+    });
+
+    it("enforces the submission cooldown per provider", async function () {
+      await submitEncryptedVote(signers.alice, 1n, 1);
+      await expect(
+        simulateEncryptedVote(signers.alice, 1n, 1),
+      ).to.be.revertedWithCustomError(dao, "CooldownActive");
+      await submitEncryptedVote(signers.deployer, 1n, 0);
+
+      // The cooldown carries over into the next batch
+      await dao.closeBatch(1);
+      await dao.openBatch();
+      await expect(
+        simulateEncryptedVote(signers.alice, 2n, 1),
+      ).to.be.revertedWithCustomError(dao, "CooldownActive");
+      await time.increase(60);
+      await expect(submitEncryptedVote(signers.alice, 2n, 0)).to.emit(
+        dao,
+        "VoteSubmitted",
+      );
+    });
+
+    // Checked with eth_call, see simulateEncryptedVote.
+    it("caps the cooldown so submission times cannot overflow", async function () {
+      const max = await dao.MAX_COOLDOWN_SECONDS();
+      await expect(
+        dao.setCooldownSeconds.staticCall(max + 1n),
+      ).to.be.revertedWithCustomError(dao, "InvalidCooldown");
+      await expect(
+        dao.setCooldownSeconds.staticCall(ethers.MaxUint256),
+      ).to.be.revertedWithCustomError(dao, "InvalidCooldown");
+      await expect(dao.setCooldownSeconds(max))
+        .to.emit(dao, "CooldownSecondsUpdated")
+        .withArgs(60, max);
+    });
+
+    it("updates the cooldown", async function () {
+      await expect(dao.setCooldownSeconds(0))
+        .to.emit(dao, "CooldownSecondsUpdated")
+        .withArgs(60, 0);
+      await submitEncryptedVote(signers.alice, 1n, 1);
+      await dao.closeBatch(1);
+      await dao.openBatch();
+      await expect(submitEncryptedVote(signers.alice, 2n, 1)).to.emit(
+        dao,
+        "VoteSubmitted",
+      );
+    });
+
+    it("enforces the decryption request cooldown", async function () {
+      await dao.closeBatch(1);
+      await requestDecryption(1n);
+      await expect(
+        dao.requestBatchResultDecryption.staticCall(1),
+      ).to.be.revertedWithCustomError(dao, "CooldownActive");
+    });
+  });
+
+  describe("batch lifecycle", function () {
+    it("opens and closes batches", async function () {
+      await expect(dao.openBatch()).to.emit(dao, "BatchOpened");
+      expect(await dao.currentBatchId()).to.eq(1);
+      const batch = await dao.batches(1);
+      expect(batch.isOpen).to.eq(true);
+      expect(batch.closedAt).to.eq(0);
+
+      await expect(dao.closeBatch(1)).to.emit(dao, "BatchClosed");
+      expect((await dao.batches(1)).isOpen).to.eq(false);
+
+      await dao.openBatch();
+      expect(await dao.currentBatchId()).to.eq(2);
+    });
+
+    it("reverts with BatchOpen", async function () {
+      await dao.openBatch();
+      await expect(dao.openBatch()).to.be.revertedWithCustomError(
+        dao,
+        "BatchOpen",
+      );
+      await expect(
+        dao.requestBatchResultDecryption(1),
+      ).to.be.revertedWithCustomError(dao, "BatchOpen");
+    });
+
+    it("reverts with BatchNotOpen", async function () {
+      await dao.openBatch();
+      await dao.closeBatch(1);
+      await expect(dao.closeBatch(1)).to.be.revertedWithCustomError(
+        dao,
+        "BatchNotOpen",
+      );
+      await expect(
+        simulateEncryptedVote(signers.deployer, 1n, 1),
+      ).to.be.revertedWithCustomError(dao, "BatchNotOpen");
+    });
+
+    it("reverts with InvalidBatch", async function () {
+      await dao.openBatch();
+      await expect(dao.closeBatch(2)).to.be.revertedWithCustomError(
+        dao,
+        "InvalidBatch",
+      );
+      await expect(
+        simulateEncryptedVote(signers.deployer, 2n, 1),
+      ).to.be.revertedWithCustomError(dao, "InvalidBatch");
+      await dao.closeBatch(1);
+      await expect(
+        dao.requestBatchResultDecryption(2),
+      ).to.be.revertedWithCustomError(dao, "InvalidBatch");
+    });
+
+    it("rejects votes for a previous batch", async function () {
+      await dao.openBatch();
+      await dao.closeBatch(1);
+      await dao.openBatch();
+      await expect(
+        simulateEncryptedVote(signers.deployer, 1n, 1),
+      ).to.be.revertedWithCustomError(dao, "InvalidBatch");
+    });
+  });
+
+  describe("encrypted votes", function () {
+    beforeEach(async function () {
+      await dao.setCooldownSeconds(0);
+      await dao.addProvider(signers.alice.address);
+      await dao.addProvider(signers.bob.address);
+      await dao.openBatch();
+    });
+
+    it("stores each submission under its index", async function () {
+      await expect(submitEncryptedVote(signers.alice, 1n, 1))
+        .to.emit(dao, "VoteSubmitted")
+        .withArgs(
+          signers.alice.address,
+          1,
+          0,
+          (timestamp: bigint) => timestamp > 0n,
+        );
+      await submitEncryptedVote(signers.bob, 1n, 0);
+
+      expect(await dao.batchSubmissionCount(1)).to.eq(2);
+      const first = await dao.encryptedVoteData(1, 0);
+      const second = await dao.encryptedVoteData(1, 1);
+      expect(first).to.not.eq(ethers.ZeroHash);
+      expect(second).to.not.eq(ethers.ZeroHash);
+      expect(await fhevm.debugger.decryptEuint(FhevmType.euint32, first)).to.eq(
+        1n,
+      );
+      expect(
+        await fhevm.debugger.decryptEuint(FhevmType.euint32, second),
+      ).to.eq(0n);
+    });
+
+    it("accepts one ballot per provider and batch", async function () {
+      await dao.setCooldownSeconds(60);
+      await submitEncryptedVote(signers.alice, 1n, 1);
+      await time.increase(60);
+      await expect(
+        simulateEncryptedVote(signers.alice, 1n, 1),
+      ).to.be.revertedWithCustomError(dao, "AlreadyVoted");
+      expect(await dao.hasSubmitted(1, signers.alice.address)).to.eq(true);
+      expect(await dao.hasSubmitted(1, signers.bob.address)).to.eq(false);
+
+      await dao.closeBatch(1);
+      await dao.openBatch();
+      await expect(submitEncryptedVote(signers.alice, 2n, 0)).to.emit(
+        dao,
+        "VoteSubmitted",
+      );
+    });
+
+    it("rejects an input proof bound to another sender", async function () {
+      const input = await fhevm
+        .createEncryptedInput(daoAddress, signers.bob.address)
+        .add32(1)
+        .encrypt();
+      await expect(
+        dao
+          .connect(signers.alice)
+          .submitVote(1, input.handles[0], input.inputProof),
+      ).to.be.reverted;
+    });
+  });
+
+  describe("proposals", function () {
+    beforeEach(async function () {
+      await dao.setCooldownSeconds(0);
+    });
+
+    it("registers proposals with an encrypted budget", async function () {
+      await expect(submitProposal(signers.alice, "Cancer", 1_500))
+        .to.emit(dao, "ProposalSubmitted")
+        .withArgs(1, signers.alice.address, "Cancer", "ipfs://proposal-1500");
+
+      expect(await dao.proposalCount()).to.eq(1);
+      const proposal = await dao.getProposal(1);
+      expect(proposal.id).to.eq(1);
+      expect(proposal.proposer).to.eq(signers.alice.address);
+      expect(proposal.category).to.eq("Cancer");
+      expect(proposal.metadataURI).to.eq("ipfs://proposal-1500");
+      expect(proposal.status).to.eq(0);
+
+      const budget = await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        proposal.encryptedBudget,
+        daoAddress,
+        signers.alice,
+      );
+      expect(budget).to.eq(1_500n);
+    });
+
+    it("pages through proposals", async function () {
+      await submitProposal(signers.alice, "Cancer", 1);
+      await submitProposal(signers.bob, "Neurology", 2);
+      await submitProposal(signers.carol, "Cardiology", 3);
+
+      const first = await dao.getProposals(0, 2);
+      expect(first.map((p) => p.id)).to.deep.eq([1n, 2n]);
+      const second = await dao.getProposals(2, 2);
+      expect(second.map((p) => p.category)).to.deep.eq(["Cardiology"]);
+      expect(await dao.getProposals(3, 2)).to.deep.eq([]);
+
+      const rest = await dao.getProposals(1, ethers.MaxUint256);
+      expect(rest.map((p) => p.id)).to.deep.eq([2n, 3n]);
+    });
+
+    it("reverts with InvalidProposal", async function () {
+      await expect(dao.getProposal(1)).to.be.revertedWithCustomError(
+        dao,
+        "InvalidProposal",
+      );
+      await expect(dao.startVoting.staticCall(1)).to.be.revertedWithCustomError(
+        dao,
+        "InvalidProposal",
+      );
+    });
+  });
+
+  describe("proposal workflow", function () {
+    beforeEach(async function () {
+      await dao.setCooldownSeconds(0);
+      await dao.addMember(signers.alice.address);
+      await submitProposal(signers.carol, "Cancer", 1);
+    });
+
+    it("moves a proposal from draft through review into voting", async function () {
+      await expect(dao.connect(signers.carol).submitForReview(1))
+        .to.emit(dao, "ProposalStatusChanged")
+        .withArgs(1, Status.Draft, Status.UnderReview, signers.carol.address);
+      await expect(dao.startVoting(1))
+        .to.emit(dao, "ProposalStatusChanged")
+        .withArgs(
+          1,
+          Status.UnderReview,
+          Status.Voting,
+          signers.deployer.address,
+        );
+
+      const proposal = await dao.getProposal(1);
+      expect(proposal.status).to.eq(Status.Voting);
+      expect(proposal.votingEndsAt).to.eq(
+        (await time.latest()) + 3 * 24 * 60 * 60,
+      );
+    });
+
+    it("finalizes on the revealed tally", async function () {
+      await dao.connect(signers.carol).submitForReview(1);
+      await dao.startVoting(1);
+      await castEncryptedVote(signers.alice, 1, true);
+      await expect(
+        dao.finalizeProposal.staticCall(1),
+      ).to.be.revertedWithCustomError(dao, "TallyNotRevealed");
+
+      await time.increase(3 * 24 * 60 * 60);
+      await dao.requestProposalTallyDecryption(1);
+      await fhevm.awaitDecryptionOracle();
+      await expect(dao.finalizeProposal(1))
+        .to.emit(dao, "ProposalStatusChanged")
+        .withArgs(1, Status.Voting, Status.Approved, signers.deployer.address);
+    });
+
+    it("rejects a vote without a yes majority", async function () {
+      await dao.connect(signers.carol).submitForReview(1);
+      await dao.startVoting(1);
+      await time.increase(3 * 24 * 60 * 60);
+      await dao.requestProposalTallyDecryption(1);
+      await fhevm.awaitDecryptionOracle();
+      await dao.finalizeProposal(1);
+      expect((await dao.getProposal(1)).status).to.eq(Status.Rejected);
+    });
+
+    it("lets reviewers reject during review", async function () {
+      await dao.addReviewer(signers.bob.address);
+      await dao.connect(signers.carol).submitForReview(1);
+      await dao.connect(signers.bob).rejectProposal(1);
+      expect((await dao.getProposal(1)).status).to.eq(Status.Rejected);
+    });
+
+    it("lets the proposer withdraw until voting starts", async function () {
+      await expect(
+        dao.connect(signers.alice).withdrawProposal.staticCall(1),
+      ).to.be.revertedWithCustomError(dao, "NotProposer");
+      await dao.connect(signers.carol).withdrawProposal(1);
+      expect((await dao.getProposal(1)).status).to.eq(Status.Withdrawn);
+
+      await submitProposal(signers.carol, "Cancer", 2);
+      await dao.connect(signers.carol).submitForReview(2);
+      await dao.startVoting(2);
+      await expect(
+        dao.connect(signers.carol).withdrawProposal.staticCall(2),
+      ).to.be.revertedWithCustomError(dao, "InvalidStatus");
+    });
+
+    it("restricts transitions to their roles", async function () {
+      await expect(
+        dao.connect(signers.alice).submitForReview.staticCall(1),
+      ).to.be.revertedWithCustomError(dao, "NotProposer");
+      await expect(dao.startVoting.staticCall(1)).to.be.revertedWithCustomError(
+        dao,
+        "InvalidStatus",
+      );
+
+      await dao.connect(signers.carol).submitForReview(1);
+      await expect(
+        dao.connect(signers.carol).startVoting.staticCall(1),
+      ).to.be.revertedWithCustomError(dao, "NotReviewer");
+      await expect(
+        dao.connect(signers.carol).rejectProposal.staticCall(1),
+      ).to.be.revertedWithCustomError(dao, "NotReviewer");
+
+      await expect(dao.addReviewer(signers.bob.address))
+        .to.emit(dao, "ReviewerAdded")
+        .withArgs(signers.bob.address);
+      await expect(dao.removeReviewer(signers.bob.address))
+        .to.emit(dao, "ReviewerRemoved")
+        .withArgs(signers.bob.address);
+      await expect(
+        dao.connect(signers.bob).startVoting.staticCall(1),
+      ).to.be.revertedWithCustomError(dao, "NotReviewer");
+    });
+  });
+
+  describe("proposal voting", function () {
+    beforeEach(async function () {
+      await dao.setCooldownSeconds(0);
+      await dao.addMember(signers.alice.address);
+      await dao.addMember(signers.bob.address);
+      await submitProposal(signers.carol, "Cancer", 1);
+      await dao.connect(signers.carol).submitForReview(1);
+      await dao.startVoting(1);
+    });
+
+    it("tallies encrypted ballots homomorphically", async function () {
+      await expect(castEncryptedVote(signers.alice, 1, true))
+        .to.emit(dao, "ProposalVoteCast")
+        .withArgs(1, signers.alice.address);
+      await castEncryptedVote(signers.bob, 1, false);
+      await castEncryptedVote(signers.deployer, 1, true);
+
+      const tally = await dao.proposalTallies(1);
+      expect(tally.voterCount).to.eq(3);
+      expect(tally.revealed).to.eq(false);
+      expect(
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint32,
+          tally.encryptedYesVotes,
+        ),
+      ).to.eq(2n);
+      expect(
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint32,
+          tally.encryptedNoVotes,
+        ),
+      ).to.eq(1n);
+      expect(await dao.hasVoted(1, signers.alice.address)).to.eq(true);
+      expect(await dao.hasVoted(1, signers.carol.address)).to.eq(false);
+    });
+
+    it("accepts one ballot per member", async function () {
+      await castEncryptedVote(signers.alice, 1, true);
+      const input = await fhevm
+        .createEncryptedInput(daoAddress, signers.alice.address)
+        .addBool(false)
+        .encrypt();
+      await expect(
+        dao
+          .connect(signers.alice)
+          .castVote.staticCall(1, input.handles[0], input.inputProof),
+      ).to.be.revertedWithCustomError(dao, "AlreadyVoted");
+    });
+
+    it("only lets members vote", async function () {
+      const input = await fhevm
+        .createEncryptedInput(daoAddress, signers.carol.address)
+        .addBool(true)
+        .encrypt();
+      await expect(
+        dao
+          .connect(signers.carol)
+          .castVote.staticCall(1, input.handles[0], input.inputProof),
+      ).to.be.revertedWithCustomError(dao, "NotMember");
+    });
+
+    it("closes voting when the window ends", async function () {
+      await time.increase(3 * 24 * 60 * 60);
+      const input = await fhevm
+        .createEncryptedInput(daoAddress, signers.alice.address)
+        .addBool(true)
+        .encrypt();
+      await expect(
+        dao
+          .connect(signers.alice)
+          .castVote.staticCall(1, input.handles[0], input.inputProof),
+      ).to.be.revertedWithCustomError(dao, "VotingClosed");
+    });
+
+    it("only decrypts the tally after the window closes", async function () {
+      await castEncryptedVote(signers.alice, 1, true);
+      await castEncryptedVote(signers.bob, 1, false);
+      await expect(
+        dao.requestProposalTallyDecryption.staticCall(1),
+      ).to.be.revertedWithCustomError(dao, "VotingActive");
+
+      await time.increase(3 * 24 * 60 * 60);
+      await expect(dao.requestProposalTallyDecryption(1)).to.emit(
+        dao,
+        "ProposalTallyRequested",
+      );
+      await fhevm.awaitDecryptionOracle();
+
+      const tally = await dao.proposalTallies(1);
+      expect(tally.revealed).to.eq(true);
+      expect(tally.yesVotes).to.eq(1);
+      expect(tally.noVotes).to.eq(1);
+      await expect(
+        dao.requestProposalTallyDecryption.staticCall(1),
+      ).to.be.revertedWithCustomError(dao, "TallyRevealed");
+    });
+
+    it("reveals an empty tally", async function () {
+      await time.increase(3 * 24 * 60 * 60);
+      await dao.requestProposalTallyDecryption(1);
+      await fhevm.awaitDecryptionOracle();
+
+      const tally = await dao.proposalTallies(1);
+      expect(tally.revealed).to.eq(true);
+      expect(tally.yesVotes).to.eq(0);
+      expect(tally.noVotes).to.eq(0);
+    });
+
+    it("rejects tally callbacks for unknown requests", async function () {
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["uint32", "uint32"],
+        [1, 0],
+      );
+      await expect(
+        dao.proposalTallyCallback(1, cleartexts, "0x"),
+      ).to.be.revertedWithCustomError(dao, "StateMismatch");
+    });
+  });
+
+  describe("batch tallies", function () {
+    beforeEach(async function () {
+      await dao.setCooldownSeconds(0);
+      await dao.addProvider(signers.alice.address);
+      await dao.addProvider(signers.bob.address);
+      await dao.addProvider(signers.carol.address);
+      await dao.openBatch();
+    });
+
+    async function decryptTallies(batchId: bigint) {
+      return [
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint32,
+          await dao.encryptedTotalVotes(batchId),
+        ),
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint32,
+          await dao.encryptedApprovalCount(batchId),
+        ),
+      ];
+    }
+
+    it("tallies encrypted approvals as ballots arrive", async function () {
+      expect(await decryptTallies(1n)).to.deep.eq([0n, 0n]);
+      await submitEncryptedVote(signers.alice, 1n, 1);
+      expect(await decryptTallies(1n)).to.deep.eq([1n, 1n]);
+      await submitEncryptedVote(signers.bob, 1n, 0);
+      expect(await decryptTallies(1n)).to.deep.eq([2n, 1n]);
+      await submitEncryptedVote(signers.carol, 1n, 1);
+      await dao.closeBatch(1);
+      expect(await decryptTallies(1n)).to.deep.eq([3n, 2n]);
+    });
+
+    it("decrypts the tally through the oracle", async function () {
+      await submitEncryptedVote(signers.alice, 1n, 1);
+      await submitEncryptedVote(signers.bob, 1n, 0);
+      await dao.closeBatch(1);
+
+      const requestId = await requestDecryption(1n);
+      await fhevm.awaitDecryptionOracle();
+
+      const events = await dao.queryFilter(
+        dao.filters.DecryptionCompleted(requestId),
+      );
+      expect(events.length).to.eq(1);
+      expect(events[0].args.batchId).to.eq(1);
+      expect(events[0].args.totalVotes).to.eq(2);
+      expect(events[0].args.approvalCount).to.eq(1);
+      expect((await dao.decryptionContexts(requestId)).processed).to.eq(true);
+    });
+
+    it("decrypts a batch without ballots as zero", async function () {
+      await dao.closeBatch(1);
+      const requestId = await requestDecryption(1n);
+      await fhevm.awaitDecryptionOracle();
+
+      const [event] = await dao.queryFilter(
+        dao.filters.DecryptionCompleted(requestId),
+      );
+      expect(event.args.totalVotes).to.eq(0);
+      expect(event.args.approvalCount).to.eq(0);
+      expect(await dao.getBatchOptionResults(1)).to.deep.eq([0n, 0n]);
+    });
+
+    it("matches the plaintext ballots of many voters", async function () {
+      const voters = (await ethers.getSigners()).slice(4, 16);
+      const ballots = voters.map((_, i) => (i % 3 === 0 ? 0 : 1));
+      for (const [i, voter] of voters.entries()) {
+        await dao.addProvider(voter.address);
+        await submitEncryptedVote(voter, 1n, ballots[i]);
+      }
+      const closed = await (await dao.closeBatch(1)).wait();
+
+      const requestId = await requestDecryption(1n);
+      await fhevm.awaitDecryptionOracle();
+      const [event] = await dao.queryFilter(
+        dao.filters.DecryptionCompleted(requestId),
+      );
+      const approvals = ballots.filter((ballot) => ballot === 1).length;
+      expect(event.args.totalVotes).to.eq(voters.length);
+      expect(event.args.approvalCount).to.eq(approvals);
+      expect(await dao.getBatchOptionResults(1)).to.deep.eq([
+        BigInt(voters.length - approvals),
+        BigInt(approvals),
+      ]);
+
+      // Closing does not depend on how many providers voted
+      await dao.openBatch();
+      const closedEmpty = await (await dao.closeBatch(2)).wait();
+      expect(closed!.gasUsed).to.eq(closedEmpty!.gasUsed);
+    });
+  });
+
+  describe("multi-option batches", function () {
+    beforeEach(async function () {
+      await dao.setCooldownSeconds(0);
+      await dao.addProvider(signers.deployer.address);
+      await dao.addProvider(signers.alice.address);
+      await dao.addProvider(signers.bob.address);
+      await dao.addProvider(signers.carol.address);
+    });
+
+    it("rejects option counts outside 2..MAX_BATCH_OPTIONS", async function () {
+      const max = await dao.MAX_BATCH_OPTIONS();
+      // Checked with eth_call, see simulateEncryptedVote.
+      await expect(
+        dao.openMultiOptionBatch.staticCall(1),
+      ).to.be.revertedWithCustomError(dao, "InvalidOptionCount");
+      await expect(
+        dao.openMultiOptionBatch.staticCall(max + 1n),
+      ).to.be.revertedWithCustomError(dao, "InvalidOptionCount");
+
+      await dao.openMultiOptionBatch(max);
+      expect((await dao.batches(1)).optionCount).to.eq(max);
+    });
+
+    it("counts each option and decrypts them together", async function () {
+      await dao.openMultiOptionBatch(3);
+      await submitEncryptedVote(signers.alice, 1n, 2);
+      await submitEncryptedVote(signers.bob, 1n, 2);
+      await submitEncryptedVote(signers.carol, 1n, 0);
+      // Out of range, counts towards the total only
+      await submitEncryptedVote(signers.deployer, 1n, 5);
+      await dao.closeBatch(1);
+
+      const counts = [];
+      for (const option of [0, 1, 2]) {
+        counts.push(
+          await fhevm.debugger.decryptEuint(
+            FhevmType.euint32,
+            await dao.encryptedOptionCounts(1, option),
+          ),
+        );
+      }
+      expect(counts).to.deep.eq([1n, 0n, 2n]);
+      expect(await dao.getBatchOptionResults(1)).to.deep.eq([]);
+
+      const requestId = await requestDecryption(1n);
+      await fhevm.awaitDecryptionOracle();
+
+      const [event] = await dao.queryFilter(
+        dao.filters.DecryptionCompleted(requestId),
+      );
+      expect(event.args.totalVotes).to.eq(4);
+      expect(event.args.approvalCount).to.eq(3);
+      expect(await dao.getBatchOptionResults(1)).to.deep.eq([1n, 0n, 2n]);
+    });
+
+    it("matches the plaintext ballots of many voters", async function () {
+      const voters = (await ethers.getSigners()).slice(4, 16);
+      // Option indexes 0..3, with 4 out of range
+      const ballots = voters.map((_, i) => (i * 7 + 3) % 5);
+      await dao.openMultiOptionBatch(4);
+      for (const [i, voter] of voters.entries()) {
+        await dao.addProvider(voter.address);
+        await submitEncryptedVote(voter, 1n, ballots[i]);
+      }
+      await dao.closeBatch(1);
+
+      const requestId = await requestDecryption(1n);
+      await fhevm.awaitDecryptionOracle();
+      const [event] = await dao.queryFilter(
+        dao.filters.DecryptionCompleted(requestId),
+      );
+      expect(event.args.totalVotes).to.eq(voters.length);
+      expect(event.args.approvalCount).to.eq(
+        ballots.filter((ballot) => ballot >= 1).length,
+      );
+      expect(await dao.getBatchOptionResults(1)).to.deep.eq(
+        [0, 1, 2, 3].map((option) =>
+          BigInt(ballots.filter((ballot) => ballot === option).length),
+        ),
+      );
+    });
+
+    it("keeps approve/reject batches at two options", async function () {
+      await dao.openBatch();
+      await submitEncryptedVote(signers.alice, 1n, 1);
+      await submitEncryptedVote(signers.bob, 1n, 0);
+      await submitEncryptedVote(signers.carol, 1n, 1);
+      await dao.closeBatch(1);
+      expect((await dao.batchResultCiphertexts(1)).length).to.eq(4);
+
+      await requestDecryption(1n);
+      await fhevm.awaitDecryptionOracle();
+      expect(await dao.getBatchOptionResults(1)).to.deep.eq([1n, 2n]);
+    });
+  });
+
+  describe("myCallback guards", function () {
+    let requestId: bigint;
+
+    beforeEach(async function () {
+      await dao.openBatch();
+      await submitEncryptedVote(signers.deployer, 1n, 1);
+      await dao.closeBatch(1);
+      requestId = await requestDecryption(1n);
+    });
+
+    it("rejects replays", async function () {
+      await fhevm.awaitDecryptionOracle();
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["uint256", "uint256"],
+        [1, 1],
+      );
+      await expect(
+        dao.myCallback(requestId, cleartexts, "0x"),
+      ).to.be.revertedWithCustomError(dao, "ReplayDetected");
+    });
+
+    it("rejects requests whose ciphertexts do not match", async function () {
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["uint256", "uint256"],
+        [1, 1],
+      );
+      await expect(
+        dao.myCallback(requestId + 1n, cleartexts, "0x"),
+      ).to.be.revertedWithCustomError(dao, "StateMismatch");
+    });
+
+    it("rejects forged decryption proofs", async function () {
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["uint256", "uint256"],
+        [1, 1],
+      );
+      // One signature from a key that is not a KMS signer, followed by empty extra data
+      const forged = await ethers.Wallet.createRandom().signMessage("forged");
+      const proof = ethers.concat(["0x01", forged, "0x00"]);
+      await expect(dao.myCallback(requestId, cleartexts, proof)).to.be.reverted;
+      expect((await dao.decryptionContexts(requestId)).processed).to.eq(false);
+    });
+  });
+});
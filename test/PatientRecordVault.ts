@@ -0,0 +1,281 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+import { giveConsent, publishConsentDocument } from "../src/consent";
+import {
+  decryptRecord,
+  loadRecordHandles,
+  loadTrialRecords,
+  submitRecord,
+} from "../src/vault";
+import {
+  ConsentRegistry,
+  ConsentRegistry__factory,
+  PatientDAOFHE,
+  PatientDAOFHE__factory,
+  PatientRecordVault,
+  PatientRecordVault__factory,
+} from "../types";
+
+describe("PatientRecordVault", function () {
+  let deployer: HardhatEthersSigner;
+  let patient: HardhatEthersSigner;
+  let researcher: HardhatEthersSigner;
+  let stranger: HardhatEthersSigner;
+  let dao: PatientDAOFHE;
+  let daoAddress: string;
+  let consents: ConsentRegistry;
+  let vault: PatientRecordVault;
+  let vaultAddress: string;
+  let trialId: bigint;
+
+  const record = { ageBracket: 4, diagnosisCode: 1190, biomarkers: [72, 5] };
+
+  async function createTrial(proposer: HardhatEthersSigner) {
+    const input = await fhevm
+      .createEncryptedInput(daoAddress, proposer.address)
+      .add64(1)
+      .encrypt();
+    await dao
+      .connect(proposer)
+      .submitProposal(
+        "Diabetes",
+        "ipfs://trial",
+        input.handles[0],
+        input.inputProof,
+      );
+    return dao.proposalCount();
+  }
+
+  // Voted through by the deployer, who is a member and reviewer of a fresh DAO.
+  async function approveTrial(proposalId: bigint) {
+    await dao.connect(researcher).submitForReview(proposalId);
+    await dao.startVoting(proposalId);
+    const input = await fhevm
+      .createEncryptedInput(daoAddress, deployer.address)
+      .addBool(true)
+      .encrypt();
+    await dao.castVote(proposalId, input.handles[0], input.inputProof);
+    await time.increase(3 * 24 * 60 * 60);
+    await dao.requestProposalTallyDecryption(proposalId);
+    await fhevm.awaitDecryptionOracle();
+    await dao.finalizeProposal(proposalId);
+  }
+
+  async function consent(trialId: bigint) {
+    await publishConsentDocument(
+      consents.connect(researcher),
+      trialId,
+      "Consent form v1",
+      "ipfs://consent",
+    );
+    await giveConsent(consents, patient, trialId);
+  }
+
+  function submit(record: {
+    ageBracket: number;
+    diagnosisCode: number;
+    biomarkers: number[];
+  }) {
+    return submitRecord(
+      vault.connect(patient),
+      (contract, user) => fhevm.createEncryptedInput(contract, user),
+      patient.address,
+      record,
+    );
+  }
+
+  // The FHE type sits in byte 30 of a handle and matches FhevmType.
+  function decryptAs(user: HardhatEthersSigner) {
+    return async (handles: string[]) => {
+      const values: Record<string, bigint> = {};
+      for (const handle of handles) {
+        const type = parseInt(handle.slice(62, 64), 16) as
+          | FhevmType.euint8
+          | FhevmType.euint32;
+        values[handle] = await fhevm.userDecryptEuint(
+          type,
+          handle,
+          vaultAddress,
+          user,
+        );
+      }
+      return values;
+    };
+  }
+
+  before(async function () {
+    [deployer, patient, researcher, stranger] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    const daoFactory = (await ethers.getContractFactory(
+      "PatientDAOFHE",
+    )) as PatientDAOFHE__factory;
+    dao = (await daoFactory.deploy()) as PatientDAOFHE;
+    daoAddress = await dao.getAddress();
+    await dao.setCooldownSeconds(0);
+
+    const consentsFactory = (await ethers.getContractFactory(
+      "ConsentRegistry",
+    )) as ConsentRegistry__factory;
+    consents = (await consentsFactory.deploy(daoAddress)) as ConsentRegistry;
+
+    const vaultFactory = (await ethers.getContractFactory(
+      "PatientRecordVault",
+    )) as PatientRecordVault__factory;
+    vault = (await vaultFactory.deploy(
+      daoAddress,
+      await consents.getAddress(),
+    )) as PatientRecordVault;
+    vaultAddress = await vault.getAddress();
+    await consents.setRecordVault(vaultAddress);
+
+    trialId = await createTrial(researcher);
+  });
+
+  it("stores a record only its patient can read", async function () {
+    await expect(submit(record))
+      .to.emit(vault, "RecordSubmitted")
+      .withArgs(patient.address, 2);
+    expect(await vault.hasRecord(patient.address)).to.eq(true);
+
+    const handles = await loadRecordHandles(vault, patient.address);
+    expect(await decryptRecord(handles, decryptAs(patient))).to.deep.eq(record);
+    await expect(decryptRecord(handles, decryptAs(researcher))).to.be.rejected;
+  });
+
+  it("replaces the record on resubmission", async function () {
+    await submit(record);
+    await submit({ ageBracket: 5, diagnosisCode: 1190, biomarkers: [64] });
+
+    const handles = await loadRecordHandles(vault, patient.address);
+    expect(handles.biomarkers.length).to.eq(1);
+    expect(await decryptRecord(handles, decryptAs(patient))).to.deep.eq({
+      ageBracket: 5,
+      diagnosisCode: 1190,
+      biomarkers: [64],
+    });
+  });
+
+  it("only grants approved trials the patient consented to", async function () {
+    // Checked with eth_call, see simulateEncryptedVote.
+    await expect(
+      vault.connect(patient).grantAccess.staticCall(trialId),
+    ).to.be.revertedWithCustomError(vault, "NoRecord");
+    await submit(record);
+    await expect(
+      vault.connect(patient).grantAccess.staticCall(trialId),
+    ).to.be.revertedWithCustomError(vault, "TrialNotApproved");
+    await expect(
+      vault.connect(patient).revokeAccess.staticCall(trialId),
+    ).to.be.revertedWithCustomError(vault, "NotGranted");
+
+    await approveTrial(trialId);
+    await expect(
+      vault.connect(patient).grantAccess.staticCall(trialId),
+    ).to.be.revertedWithCustomError(vault, "ConsentRequired");
+    await consent(trialId);
+    await vault.connect(patient).grantAccess.staticCall(trialId);
+  });
+
+  it("lets a granted trial's proposer decrypt until access is revoked", async function () {
+    await submit(record);
+    await approveTrial(trialId);
+    await consent(trialId);
+    await expect(vault.connect(patient).grantAccess(trialId))
+      .to.emit(vault, "AccessGranted")
+      .withArgs(patient.address, trialId, researcher.address);
+    await expect(
+      vault.connect(patient).grantAccess.staticCall(trialId),
+    ).to.be.revertedWithCustomError(vault, "AlreadyGranted");
+
+    expect(await vault.getGrantedTrials(patient.address)).to.deep.eq([trialId]);
+    const granted = await loadTrialRecords(vault, trialId);
+    expect([...granted.keys()]).to.deep.eq([patient.address]);
+    const handles = granted.get(patient.address)!;
+    expect(await decryptRecord(handles, decryptAs(researcher))).to.deep.eq(
+      record,
+    );
+    await expect(decryptRecord(handles, decryptAs(stranger))).to.be.rejected;
+
+    await expect(vault.connect(patient).revokeAccess(trialId))
+      .to.emit(vault, "AccessRevoked")
+      .withArgs(patient.address, trialId);
+    expect(await vault.hasAccess(patient.address, trialId)).to.eq(false);
+    expect(await vault.getTrialPatients(trialId)).to.deep.eq([]);
+
+    // Same values under new handles the researcher was never allowed
+    const rotated = await loadRecordHandles(vault, patient.address);
+    expect(rotated.diagnosisCode).to.not.eq(handles.diagnosisCode);
+    expect(await decryptRecord(rotated, decryptAs(patient))).to.deep.eq(record);
+    await expect(decryptRecord(rotated, decryptAs(researcher))).to.be.rejected;
+  });
+
+  it("rotates to handles a revoked proposer cannot derive", async function () {
+    await submit(record);
+    await approveTrial(trialId);
+    await consent(trialId);
+    await vault.connect(patient).grantAccess(trialId);
+    const handles = await loadRecordHandles(vault, patient.address);
+    await vault.connect(patient).revokeAccess(trialId);
+    const rotated = await loadRecordHandles(vault, patient.address);
+
+    // The researcher may still compute on the old handle, but replaying a zero addition does not
+    // reach the new one, which they cannot compute on or allow to themselves
+    const { ACLAddress, CoprocessorAddress } = await fhevm.getRelayerMetadata();
+    const executor = new ethers.Contract(
+      CoprocessorAddress,
+      [
+        "function fheAdd(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) returns (bytes32)",
+      ],
+      researcher,
+    );
+    const acl = new ethers.Contract(
+      ACLAddress,
+      [
+        "function isAllowed(bytes32 handle, address account) view returns (bool)",
+      ],
+      researcher,
+    );
+    const replayed = await executor.fheAdd.staticCall(
+      handles.diagnosisCode,
+      ethers.ZeroHash,
+      "0x01",
+    );
+    expect(replayed).to.not.eq(rotated.diagnosisCode);
+    expect(
+      await acl.isAllowed(rotated.diagnosisCode, researcher.address),
+    ).to.eq(false);
+    await expect(
+      executor.fheAdd.staticCall(
+        rotated.diagnosisCode,
+        ethers.ZeroHash,
+        "0x01",
+      ),
+    ).to.be.reverted;
+  });
+
+  it("shares resubmitted records with trials still granted", async function () {
+    await submit(record);
+    await approveTrial(trialId);
+    await consent(trialId);
+    await vault.connect(patient).grantAccess(trialId);
+    await submit({ ageBracket: 4, diagnosisCode: 1190, biomarkers: [70, 6] });
+
+    const handles = await loadRecordHandles(vault, patient.address);
+    expect(await decryptRecord(handles, decryptAs(researcher))).to.deep.eq({
+      ageBracket: 4,
+      diagnosisCode: 1190,
+      biomarkers: [70, 6],
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+import {
+  ProviderAllowlist,
+  RosterError,
+  buildAllowlist,
+  parseRoster,
+} from "../src/allowlist/allowlist";
+import { PatientDAOFHE, PatientDAOFHE__factory } from "../types";
+
+describe("Provider allowlist", function () {
+  let signers: HardhatEthersSigner[];
+  let dao: PatientDAOFHE;
+  let allowlist: ProviderAllowlist;
+
+  before(async function () {
+    signers = await ethers.getSigners();
+  });
+
+  describe("parseRoster", function () {
+    it("reads the address column of a CSV with a header", function () {
+      const [, alice, bob] = signers;
+      const csv = [
+        "clinic,address",
+        `North Clinic,${alice.address.toLowerCase()}`,
+        "# pending paperwork",
+        "",
+        `South Clinic,${bob.address}`,
+        `North Clinic (duplicate),${alice.address}`,
+      ].join("\n");
+      expect(parseRoster(csv)).to.deep.eq([alice.address, bob.address]);
+    });
+
+    it("reads the first column without a header", function () {
+      const csv = `${signers[1].address}\r\n${signers[2].address}\r\n`;
+      expect(parseRoster(csv)).to.deep.eq([
+        signers[1].address,
+        signers[2].address,
+      ]);
+    });
+
+    it("reports the line of an invalid address", function () {
+      expect(() => parseRoster(`${signers[1].address}\nnot-an-address`))
+        .to.throw(RosterError)
+        .with.property("line", 2);
+    });
+  });
+
+  describe("claimProvider", function () {
+    beforeEach(async function () {
+      if (!fhevm.isMock) {
+        console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+        this.skip();
+      }
+
+      const factory = (await ethers.getContractFactory(
+        "PatientDAOFHE",
+      )) as PatientDAOFHE__factory;
+      dao = (await factory.deploy()) as PatientDAOFHE;
+
+      allowlist = buildAllowlist(signers.slice(1, 4).map((s) => s.address));
+      await dao.setProviderMerkleRoot(allowlist.root);
+    });
+
+    it("activates a provider with a valid proof", async function () {
+      const alice = signers[1];
+      await expect(
+        dao.connect(alice).claimProvider(allowlist.proofs[alice.address]),
+      )
+        .to.emit(dao, "ProviderClaimed")
+        .withArgs(alice.address, allowlist.root)
+        .and.to.emit(dao, "ProviderAdded")
+        .withArgs(alice.address);
+      expect(await dao.isProvider(alice.address)).to.eq(true);
+    });
+
+    it("rejects addresses outside the roster", async function () {
+      const [, alice, , , mallory] = signers;
+      await expect(
+        dao
+          .connect(mallory)
+          .claimProvider.staticCall(allowlist.proofs[alice.address]),
+      ).to.be.revertedWithCustomError(dao, "InvalidMerkleProof");
+    });
+
+    it("only lets a removed provider claim again under a new root", async function () {
+      const bob = signers[2];
+      const proof = allowlist.proofs[bob.address];
+      await dao.connect(bob).claimProvider(proof);
+      await expect(
+        dao.connect(bob).claimProvider.staticCall(proof),
+      ).to.be.revertedWithCustomError(dao, "AlreadyProvider");
+
+      await dao.removeProvider(bob.address);
+      await expect(
+        dao.connect(bob).claimProvider.staticCall(proof),
+      ).to.be.revertedWithCustomError(dao, "AlreadyClaimed");
+
+      const next = buildAllowlist([bob.address, signers[5].address]);
+      await expect(dao.setProviderMerkleRoot(next.root))
+        .to.emit(dao, "ProviderMerkleRootUpdated")
+        .withArgs(allowlist.root, next.root);
+      await dao.connect(bob).claimProvider(next.proofs[bob.address]);
+      expect(await dao.isProvider(bob.address)).to.eq(true);
+    });
+
+    it("lets only the owner publish a root", async function () {
+      await expect(
+        dao
+          .connect(signers[1])
+          .setProviderMerkleRoot.staticCall(ethers.ZeroHash),
+      ).to.be.revertedWithCustomError(dao, "NotOwner");
+    });
+  });
+});
@@ -0,0 +1,249 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+import {
+  EligibilityCriterion,
+  Field,
+  checkEligibility,
+  decryptEligibility,
+  setTrialCriteria,
+} from "../src/eligibility";
+import { ClinicalRecord, submitRecord } from "../src/vault";
+import {
+  ConsentRegistry__factory,
+  PatientDAOFHE,
+  PatientDAOFHE__factory,
+  PatientRecordVault,
+  PatientRecordVault__factory,
+  TrialEligibility,
+  TrialEligibility__factory,
+} from "../types";
+
+describe("TrialEligibility", function () {
+  let researcher: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let carol: HardhatEthersSigner;
+  let dao: PatientDAOFHE;
+  let daoAddress: string;
+  let vault: PatientRecordVault;
+  let eligibility: TrialEligibility;
+  let eligibilityAddress: string;
+  let trialId: bigint;
+
+  // Age 30–69, a diagnosis in 1100–1199, biomarker 0 of at least 70, and not
+  // biomarker 1 within 10–20.
+  const criteria: EligibilityCriterion[] = [
+    { field: Field.AgeBracket, min: 3, max: 6 },
+    { field: Field.DiagnosisCode, min: 1100, max: 1199 },
+    { field: Field.biomarker(0), min: 70, max: 2 ** 32 - 1 },
+    { field: Field.biomarker(1), exclude: true, min: 10, max: 20 },
+  ];
+
+  const createInput = (contract: string, user: string) =>
+    fhevm.createEncryptedInput(contract, user);
+
+  async function submit(patient: HardhatEthersSigner, record: ClinicalRecord) {
+    await submitRecord(
+      vault.connect(patient),
+      createInput,
+      patient.address,
+      record,
+    );
+  }
+
+  async function check(patient: HardhatEthersSigner) {
+    await checkEligibility(
+      eligibility.connect(patient),
+      vault.connect(patient),
+      patient.address,
+      trialId,
+    );
+    return decryptEligibility(
+      eligibility,
+      patient.address,
+      trialId,
+      async ([handle]) => ({
+        [handle]: (await fhevm.userDecryptEbool(
+          handle,
+          eligibilityAddress,
+          patient,
+        ))
+          ? 1n
+          : 0n,
+      }),
+    );
+  }
+
+  before(async function () {
+    [, researcher, alice, bob, carol] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    const daoFactory = (await ethers.getContractFactory(
+      "PatientDAOFHE",
+    )) as PatientDAOFHE__factory;
+    dao = (await daoFactory.deploy()) as PatientDAOFHE;
+    daoAddress = await dao.getAddress();
+    await dao.setCooldownSeconds(0);
+
+    const consentsFactory = (await ethers.getContractFactory(
+      "ConsentRegistry",
+    )) as ConsentRegistry__factory;
+    const consents = await consentsFactory.deploy(daoAddress);
+
+    const vaultFactory = (await ethers.getContractFactory(
+      "PatientRecordVault",
+    )) as PatientRecordVault__factory;
+    vault = (await vaultFactory.deploy(
+      daoAddress,
+      await consents.getAddress(),
+    )) as PatientRecordVault;
+
+    const eligibilityFactory = (await ethers.getContractFactory(
+      "TrialEligibility",
+    )) as TrialEligibility__factory;
+    eligibility = (await eligibilityFactory.deploy(
+      daoAddress,
+      await vault.getAddress(),
+    )) as TrialEligibility;
+    eligibilityAddress = await eligibility.getAddress();
+
+    const input = await fhevm
+      .createEncryptedInput(daoAddress, researcher.address)
+      .add64(1)
+      .encrypt();
+    await dao
+      .connect(researcher)
+      .submitProposal(
+        "Diabetes",
+        "ipfs://trial",
+        input.handles[0],
+        input.inputProof,
+      );
+    trialId = await dao.proposalCount();
+  });
+
+  it("lets only the trial's proposer set criteria", async function () {
+    await expect(
+      setTrialCriteria(
+        eligibility.connect(researcher),
+        createInput,
+        researcher.address,
+        trialId,
+        criteria,
+      ),
+    )
+      .to.emit(eligibility, "CriteriaUpdated")
+      .withArgs(trialId, criteria.length);
+    expect((await eligibility.getCriteria(trialId)).length).to.eq(4);
+
+    // Checked with eth_call, see simulateEncryptedVote.
+    const input = await createInput(eligibilityAddress, alice.address)
+      .add32(0)
+      .add32(1)
+      .encrypt();
+    const criterion = (field: number) => ({
+      field,
+      exclude: false,
+      min: input.handles[0],
+      max: input.handles[1],
+    });
+    await expect(
+      eligibility
+        .connect(alice)
+        .setCriteria.staticCall(trialId, [criterion(0)], input.inputProof),
+    ).to.be.revertedWithCustomError(eligibility, "NotProposer");
+    await expect(
+      eligibility
+        .connect(researcher)
+        .setCriteria.staticCall(trialId, [], input.inputProof),
+    ).to.be.revertedWithCustomError(eligibility, "InvalidCriteria");
+    await expect(
+      eligibility
+        .connect(researcher)
+        .setCriteria.staticCall(
+          trialId,
+          [criterion(Field.biomarker(8))],
+          input.inputProof,
+        ),
+    ).to.be.revertedWithCustomError(eligibility, "InvalidCriteria");
+  });
+
+  it("evaluates encrypted records against encrypted criteria", async function () {
+    await setTrialCriteria(
+      eligibility.connect(researcher),
+      createInput,
+      researcher.address,
+      trialId,
+      criteria,
+    );
+    await submit(alice, {
+      ageBracket: 4,
+      diagnosisCode: 1190,
+      biomarkers: [72, 5],
+    });
+    // Excluded by biomarker 1
+    await submit(bob, {
+      ageBracket: 4,
+      diagnosisCode: 1190,
+      biomarkers: [72, 15],
+    });
+    // Lacks biomarker 0
+    await submit(carol, { ageBracket: 5, diagnosisCode: 1120, biomarkers: [] });
+
+    expect(await check(alice)).to.eq(true);
+    expect(await check(bob)).to.eq(false);
+    expect(await check(carol)).to.eq(false);
+    expect(await eligibility.checkedAt(trialId, alice.address)).to.be.gt(0);
+
+    // Only the patient can read their result
+    await expect(
+      fhevm.userDecryptEbool(
+        await eligibility.getEligibility(trialId, alice.address),
+        eligibilityAddress,
+        researcher,
+      ),
+    ).to.be.rejected;
+  });
+
+  it("needs criteria, a record and the patient's consent", async function () {
+    // Checked with eth_call, see simulateEncryptedVote.
+    await expect(
+      eligibility.connect(alice).checkEligibility.staticCall(trialId),
+    ).to.be.revertedWithCustomError(eligibility, "NoCriteria");
+    await setTrialCriteria(
+      eligibility.connect(researcher),
+      createInput,
+      researcher.address,
+      trialId,
+      criteria,
+    );
+    await expect(
+      eligibility.connect(alice).checkEligibility.staticCall(trialId),
+    ).to.be.revertedWithCustomError(eligibility, "NoRecord");
+
+    await submit(alice, {
+      ageBracket: 4,
+      diagnosisCode: 1190,
+      biomarkers: [72, 5],
+    });
+    await expect(
+      eligibility.connect(alice).checkEligibility.staticCall(trialId),
+    ).to.be.revertedWithCustomError(eligibility, "NotEvaluator");
+
+    expect(await check(alice)).to.eq(true);
+    await expect(vault.connect(alice).removeEvaluator(eligibilityAddress))
+      .to.emit(vault, "EvaluatorRemoved")
+      .withArgs(alice.address, eligibilityAddress);
+    await expect(
+      eligibility.connect(alice).checkEligibility.staticCall(trialId),
+    ).to.be.revertedWithCustomError(eligibility, "NotEvaluator");
+  });
+});
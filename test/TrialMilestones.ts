@@ -0,0 +1,218 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+import { hashConsentDocument } from "../src/consent";
+import {
+  MilestoneKind,
+  MilestoneStatus,
+  attestMilestone,
+  declareMilestone,
+  loadMilestoneProgress,
+  loadMilestones,
+} from "../src/milestones";
+import {
+  PatientDAOFHE,
+  PatientDAOFHE__factory,
+  TrialMilestones,
+  TrialMilestones__factory,
+} from "../types";
+
+describe("TrialMilestones", function () {
+  let deployer: HardhatEthersSigner;
+  let researcher: HardhatEthersSigner;
+  let stranger: HardhatEthersSigner;
+  let dao: PatientDAOFHE;
+  let daoAddress: string;
+  let milestones: TrialMilestones;
+  let trialId: bigint;
+
+  const DAY = 24 * 60 * 60;
+
+  // Voted through by the deployer, who is a member and reviewer of a fresh DAO.
+  async function approveTrial() {
+    await dao.connect(researcher).submitForReview(trialId);
+    await dao.startVoting(trialId);
+    const input = await fhevm
+      .createEncryptedInput(daoAddress, deployer.address)
+      .addBool(true)
+      .encrypt();
+    await dao.castVote(trialId, input.handles[0], input.inputProof);
+    await time.increase(3 * DAY);
+    await dao.requestProposalTallyDecryption(trialId);
+    await fhevm.awaitDecryptionOracle();
+    await dao.finalizeProposal(trialId);
+  }
+
+  async function declare(kind: MilestoneKind, dueInDays: number) {
+    return declareMilestone(
+      milestones.connect(researcher),
+      trialId,
+      kind,
+      `Milestone ${kind}`,
+      (await time.latest()) + dueInDays * DAY,
+    );
+  }
+
+  function attest(milestoneIndex: number, document: string) {
+    return attestMilestone(
+      milestones.connect(researcher),
+      trialId,
+      milestoneIndex,
+      document,
+      `ipfs://${document}`,
+    );
+  }
+
+  before(async function () {
+    [deployer, researcher, stranger] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    const daoFactory = (await ethers.getContractFactory(
+      "PatientDAOFHE",
+    )) as PatientDAOFHE__factory;
+    dao = (await daoFactory.deploy()) as PatientDAOFHE;
+    daoAddress = await dao.getAddress();
+    await dao.setCooldownSeconds(0);
+
+    const milestonesFactory = (await ethers.getContractFactory(
+      "TrialMilestones",
+    )) as TrialMilestones__factory;
+    milestones = (await milestonesFactory.deploy(
+      daoAddress,
+    )) as TrialMilestones;
+
+    const input = await fhevm
+      .createEncryptedInput(daoAddress, researcher.address)
+      .add64(1)
+      .encrypt();
+    await dao
+      .connect(researcher)
+      .submitProposal(
+        "Diabetes",
+        "ipfs://trial",
+        input.handles[0],
+        input.inputProof,
+      );
+    trialId = await dao.proposalCount();
+  });
+
+  it("lets the proposer of an approved trial declare milestones", async function () {
+    const dueDate = (await time.latest()) + 30 * DAY;
+    // Checked with eth_call, see simulateEncryptedVote.
+    await expect(
+      milestones
+        .connect(researcher)
+        .declareMilestone.staticCall(trialId, 0, "", dueDate),
+    ).to.be.revertedWithCustomError(milestones, "TrialNotApproved");
+    await approveTrial();
+    await expect(
+      milestones
+        .connect(stranger)
+        .declareMilestone.staticCall(trialId, 0, "", dueDate),
+    ).to.be.revertedWithCustomError(milestones, "NotProposer");
+    await expect(
+      milestones
+        .connect(researcher)
+        .declareMilestone.staticCall(trialId, 0, "", await time.latest()),
+    ).to.be.revertedWithCustomError(milestones, "InvalidDueDate");
+
+    const enrollmentDue = (await time.latest()) + 30 * DAY;
+    await expect(declare(MilestoneKind.EnrollmentTarget, 30))
+      .to.emit(milestones, "MilestoneDeclared")
+      .withArgs(
+        trialId,
+        0,
+        MilestoneKind.EnrollmentTarget,
+        "Milestone 0",
+        enrollmentDue,
+      );
+    await declare(MilestoneKind.InterimAnalysis, 90);
+    await declare(MilestoneKind.FinalReport, 180);
+
+    const entries = await loadMilestones(milestones, trialId);
+    expect(entries.map((entry) => entry.kind)).to.deep.eq([
+      MilestoneKind.EnrollmentTarget,
+      MilestoneKind.InterimAnalysis,
+      MilestoneKind.FinalReport,
+    ]);
+    expect(entries.map((entry) => entry.status)).to.deep.eq([
+      MilestoneStatus.Pending,
+      MilestoneStatus.Pending,
+      MilestoneStatus.Pending,
+    ]);
+  });
+
+  it("has reviewers accept or dispute attestations", async function () {
+    await approveTrial();
+    await declare(MilestoneKind.EnrollmentTarget, 30);
+    await declare(MilestoneKind.InterimAnalysis, 90);
+
+    // Checked with eth_call, see simulateEncryptedVote.
+    await expect(
+      milestones.acceptMilestone.staticCall(trialId, 0),
+    ).to.be.revertedWithCustomError(milestones, "InvalidStatus");
+    await expect(attest(0, "enrollment"))
+      .to.emit(milestones, "MilestoneAttested")
+      .withArgs(
+        trialId,
+        0,
+        researcher.address,
+        hashConsentDocument("enrollment"),
+        "ipfs://enrollment",
+      );
+    await expect(
+      milestones
+        .connect(researcher)
+        .attestMilestone.staticCall(trialId, 0, ethers.ZeroHash, ""),
+    ).to.be.revertedWithCustomError(milestones, "InvalidStatus");
+    await expect(
+      milestones.connect(stranger).acceptMilestone.staticCall(trialId, 0),
+    ).to.be.revertedWithCustomError(milestones, "NotReviewer");
+    await expect(milestones.acceptMilestone(trialId, 0))
+      .to.emit(milestones, "MilestoneAccepted")
+      .withArgs(trialId, 0, deployer.address);
+
+    // A disputed attestation can be submitted again
+    await attest(1, "interim");
+    await expect(milestones.disputeMilestone(trialId, 1, "Missing data"))
+      .to.emit(milestones, "MilestoneDisputed")
+      .withArgs(trialId, 1, deployer.address, "Missing data");
+    expect((await loadMilestones(milestones, trialId))[1].status).to.eq(
+      MilestoneStatus.Disputed,
+    );
+    await attest(1, "interim-revised");
+    const [, interim] = await loadMilestones(milestones, trialId);
+    expect(interim).to.include({
+      status: MilestoneStatus.Attested,
+      documentHash: hashConsentDocument("interim-revised"),
+      uri: "ipfs://interim-revised",
+    });
+
+    await expect(
+      milestones.acceptMilestone.staticCall(trialId, 2),
+    ).to.be.revertedWithCustomError(milestones, "InvalidMilestone");
+  });
+
+  it("reports progress and overdue milestones", async function () {
+    await approveTrial();
+    await declare(MilestoneKind.EnrollmentTarget, 30);
+    await declare(MilestoneKind.FinalReport, 180);
+    await attest(0, "enrollment");
+    await milestones.acceptMilestone(trialId, 0);
+    await time.increase(200 * DAY);
+
+    const entries = await loadMilestones(milestones, trialId);
+    expect(entries.map((entry) => entry.overdue)).to.deep.eq([false, true]);
+    const progress = await loadMilestoneProgress(milestones, [trialId, 99n]);
+    expect(progress.get(trialId)).to.deep.eq({ accepted: 1, total: 2 });
+    expect(progress.get(99n)).to.deep.eq({ accepted: 0, total: 0 });
+  });
+});
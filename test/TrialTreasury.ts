@@ -0,0 +1,310 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+import {
+  decryptFunding,
+  fundTreasury,
+  loadFundingHandles,
+  parseTreasuryAmount,
+  releaseMilestonePayout,
+  setTrialBudget,
+  syncCommittee,
+} from "../src/treasury";
+import {
+  PatientDAOFHE,
+  PatientDAOFHE__factory,
+  TrialTreasury,
+  TrialTreasury__factory,
+} from "../types";
+
+describe("TrialTreasury", function () {
+  let deployer: HardhatEthersSigner;
+  let researcher: HardhatEthersSigner;
+  let member: HardhatEthersSigner;
+  let stranger: HardhatEthersSigner;
+  let dao: PatientDAOFHE;
+  let daoAddress: string;
+  let treasury: TrialTreasury;
+  let treasuryAddress: string;
+  let trialId: bigint;
+
+  const createInput = (contract: string, user: string) =>
+    fhevm.createEncryptedInput(contract, user);
+
+  // Voted through by the deployer, who is a member and reviewer of a fresh DAO.
+  async function approveTrial() {
+    await dao.connect(researcher).submitForReview(trialId);
+    await dao.startVoting(trialId);
+    const input = await fhevm
+      .createEncryptedInput(daoAddress, deployer.address)
+      .addBool(true)
+      .encrypt();
+    await dao.castVote(trialId, input.handles[0], input.inputProof);
+    await time.increase(3 * 24 * 60 * 60);
+    await dao.requestProposalTallyDecryption(trialId);
+    await fhevm.awaitDecryptionOracle();
+    await dao.finalizeProposal(trialId);
+  }
+
+  function setBudget(eth: string) {
+    return setTrialBudget(
+      treasury.connect(member),
+      createInput,
+      member.address,
+      trialId,
+      parseTreasuryAmount(eth),
+    );
+  }
+
+  function release(milestone: string, eth: string) {
+    return releaseMilestonePayout(
+      treasury.connect(member),
+      createInput,
+      member.address,
+      trialId,
+      milestone,
+      parseTreasuryAmount(eth),
+    );
+  }
+
+  function decryptAs(user: HardhatEthersSigner) {
+    return async (handles: string[]) => {
+      const values: Record<string, bigint> = {};
+      for (const handle of handles) {
+        values[handle] = await fhevm.userDecryptEuint(
+          FhevmType.euint64,
+          handle,
+          treasuryAddress,
+          user,
+        );
+      }
+      return values;
+    };
+  }
+
+  async function fundingAs(user: HardhatEthersSigner) {
+    return decryptFunding(
+      await loadFundingHandles(treasury, trialId),
+      decryptAs(user),
+    );
+  }
+
+  before(async function () {
+    [deployer, researcher, member, stranger] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    const daoFactory = (await ethers.getContractFactory(
+      "PatientDAOFHE",
+    )) as PatientDAOFHE__factory;
+    dao = (await daoFactory.deploy()) as PatientDAOFHE;
+    daoAddress = await dao.getAddress();
+    await dao.setCooldownSeconds(0);
+
+    const treasuryFactory = (await ethers.getContractFactory(
+      "TrialTreasury",
+    )) as TrialTreasury__factory;
+    treasury = (await treasuryFactory.deploy(daoAddress)) as TrialTreasury;
+    treasuryAddress = await treasury.getAddress();
+    await treasury.addCommitteeMember(member.address);
+
+    const input = await fhevm
+      .createEncryptedInput(daoAddress, researcher.address)
+      .add64(1)
+      .encrypt();
+    await dao
+      .connect(researcher)
+      .submitProposal(
+        "Diabetes",
+        "ipfs://trial",
+        input.handles[0],
+        input.inputProof,
+      );
+    trialId = await dao.proposalCount();
+  });
+
+  it("lets the DAO owner manage the committee", async function () {
+    // Checked with eth_call, see simulateEncryptedVote.
+    await expect(
+      treasury
+        .connect(stranger)
+        .addCommitteeMember.staticCall(stranger.address),
+    ).to.be.revertedWithCustomError(treasury, "NotOwner");
+    await expect(
+      treasury.addCommitteeMember.staticCall(member.address),
+    ).to.be.revertedWithCustomError(treasury, "AlreadyCommittee");
+    await expect(treasury.addCommitteeMember(stranger.address))
+      .to.emit(treasury, "CommitteeMemberAdded")
+      .withArgs(stranger.address);
+    expect(await treasury.getCommittee()).to.deep.eq([
+      member.address,
+      stranger.address,
+    ]);
+    await expect(treasury.removeCommitteeMember(stranger.address))
+      .to.emit(treasury, "CommitteeMemberRemoved")
+      .withArgs(stranger.address);
+    expect(await treasury.isCommitteeMember(stranger.address)).to.eq(false);
+  });
+
+  it("only budgets approved trials, as the committee", async function () {
+    await expect(setBudget("10")).to.be.revertedWithCustomError(
+      treasury,
+      "TrialNotApproved",
+    );
+    await approveTrial();
+    await expect(
+      setTrialBudget(
+        treasury.connect(stranger),
+        createInput,
+        stranger.address,
+        trialId,
+        1n,
+      ),
+    ).to.be.revertedWithCustomError(treasury, "NotCommittee");
+
+    await expect(setBudget("10"))
+      .to.emit(treasury, "BudgetSet")
+      .withArgs(trialId);
+    expect(await treasury.getFundedTrials()).to.deep.eq([trialId]);
+    expect(await fundingAs(researcher)).to.deep.eq({
+      budget: parseTreasuryAmount("10"),
+      disbursed: 0n,
+      claimable: 0n,
+    });
+    await expect(fundingAs(stranger)).to.be.rejected;
+  });
+
+  it("releases milestone payouts only within the budget", async function () {
+    await approveTrial();
+    await expect(release("Enrollment", "1")).to.be.revertedWithCustomError(
+      treasury,
+      "NotFunded",
+    );
+    await setBudget("10");
+
+    await expect(release("Enrollment", "4"))
+      .to.emit(treasury, "MilestonePayoutReleased")
+      .withArgs(trialId, 0, "Enrollment");
+    // Would exceed the budget, so nothing is released
+    await release("Interim analysis", "7");
+    await release("Final report", "6");
+
+    const expected = {
+      budget: parseTreasuryAmount("10"),
+      disbursed: parseTreasuryAmount("10"),
+      claimable: parseTreasuryAmount("10"),
+    };
+    expect(await fundingAs(member)).to.deep.eq(expected);
+    expect(await fundingAs(researcher)).to.deep.eq(expected);
+    const { payouts } = await loadFundingHandles(treasury, trialId);
+    expect(payouts.map((payout) => payout.milestone)).to.deep.eq([
+      "Enrollment",
+      "Interim analysis",
+      "Final report",
+    ]);
+
+    // A budget amended below the disbursed total stops payouts
+    await setBudget("5");
+    await release("Extension", "1");
+    expect((await fundingAs(member)).disbursed).to.eq(
+      parseTreasuryAmount("10"),
+    );
+  });
+
+  it("pays out decrypted withdrawals to the proposer", async function () {
+    await approveTrial();
+    await setBudget("10");
+    await release("Enrollment", "2");
+
+    // Checked with eth_call, see simulateEncryptedVote.
+    await expect(
+      treasury.connect(stranger).requestWithdrawal.staticCall(trialId),
+    ).to.be.revertedWithCustomError(treasury, "NotProposer");
+    await treasury.connect(researcher).requestWithdrawal(trialId);
+    await fhevm.awaitDecryptionOracle();
+    const amount = ethers.parseEther("2");
+    expect(await treasury.withdrawable(researcher.address)).to.eq(amount);
+    expect((await fundingAs(researcher)).claimable).to.eq(0n);
+
+    await expect(
+      treasury.connect(researcher).withdraw.staticCall(),
+    ).to.be.revertedWithCustomError(treasury, "InsufficientFunds");
+    await expect(fundTreasury(treasury, deployer, ethers.parseEther("5")))
+      .to.emit(treasury, "Deposited")
+      .withArgs(deployer.address, ethers.parseEther("5"));
+    await expect(
+      treasury.connect(researcher).withdraw(),
+    ).to.changeEtherBalances([treasury, researcher], [-amount, amount]);
+    await expect(
+      treasury.connect(researcher).withdraw.staticCall(),
+    ).to.be.revertedWithCustomError(treasury, "NothingToWithdraw");
+
+    const [log] = await treasury.queryFilter(
+      treasury.filters.WithdrawalRequested(),
+    );
+    await expect(
+      treasury.withdrawalCallback.staticCall(log.args.requestId, "0x", "0x"),
+    ).to.be.revertedWithCustomError(treasury, "ReplayDetected");
+  });
+
+  it("moves funding to new handles when a committee member leaves", async function () {
+    await approveTrial();
+    await treasury.addCommitteeMember(stranger.address);
+    await setBudget("3");
+    expect((await fundingAs(stranger)).budget).to.eq(parseTreasuryAmount("3"));
+    const { budget } = await loadFundingHandles(treasury, trialId);
+
+    await treasury.removeCommitteeMember(stranger.address);
+    expect(await treasury.isCommitteeSynced(trialId)).to.eq(false);
+    expect(await syncCommittee(treasury)).to.deep.eq([trialId]);
+    expect(await treasury.isCommitteeSynced(trialId)).to.eq(true);
+    await expect(fundingAs(stranger)).to.be.rejected;
+    expect((await fundingAs(member)).budget).to.eq(parseTreasuryAmount("3"));
+    expect((await fundingAs(researcher)).budget).to.eq(
+      parseTreasuryAmount("3"),
+    );
+
+    // Replaying a zero addition on the old handle does not reach the new one
+    const rotated = await loadFundingHandles(treasury, trialId);
+    const { CoprocessorAddress } = await fhevm.getRelayerMetadata();
+    const executor = new ethers.Contract(
+      CoprocessorAddress,
+      [
+        "function fheAdd(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) returns (bytes32)",
+      ],
+      stranger,
+    );
+    expect(
+      await executor.fheAdd.staticCall(budget, ethers.ZeroHash, "0x01"),
+    ).to.not.eq(rotated.budget);
+  });
+
+  it("reaches funded trials when they are next synced or changed", async function () {
+    await approveTrial();
+    await setBudget("3");
+    await treasury.addCommitteeMember(stranger.address);
+    await expect(fundingAs(stranger)).to.be.rejected;
+    await expect(treasury.connect(stranger).syncCommittee(trialId))
+      .to.emit(treasury, "CommitteeSynced")
+      .withArgs(trialId, await treasury.committeeVersion());
+    expect((await fundingAs(stranger)).budget).to.eq(parseTreasuryAmount("3"));
+    await expect(
+      treasury.syncCommittee.staticCall(trialId + 1n),
+    ).to.be.revertedWithCustomError(treasury, "NotFunded");
+
+    // A payout released after the removal syncs the trial first
+    await treasury.removeCommitteeMember(stranger.address);
+    await release("Enrollment", "1");
+    expect(await treasury.isCommitteeSynced(trialId)).to.eq(true);
+    await expect(fundingAs(stranger)).to.be.rejected;
+    expect((await fundingAs(member)).disbursed).to.eq(parseTreasuryAmount("1"));
+  });
+});
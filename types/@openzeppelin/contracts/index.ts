@@ -0,0 +1,13 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type * as access from "./access";
+export type { access };
+import type * as governance from "./governance";
+export type { governance };
+import type * as interfaces from "./interfaces";
+export type { interfaces };
+import type * as token from "./token";
+export type { token };
+import type * as utils from "./utils";
+export type { utils };
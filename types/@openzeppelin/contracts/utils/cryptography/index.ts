@@ -0,0 +1,7 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { ECDSA } from "./ECDSA";
+export type { EIP712 } from "./EIP712";
+export type { MerkleProof } from "./MerkleProof";
+export type { MessageHashUtils } from "./MessageHashUtils";
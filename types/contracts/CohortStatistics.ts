@@ -0,0 +1,670 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace RecordCriteria {
+  export type CriterionInputStruct = {
+    field: BigNumberish;
+    exclude: boolean;
+    min: BytesLike;
+    max: BytesLike;
+  };
+
+  export type CriterionInputStructOutput = [
+    field: bigint,
+    exclude: boolean,
+    min: string,
+    max: string
+  ] & { field: bigint; exclude: boolean; min: string; max: string };
+
+  export type CriterionStruct = {
+    field: BigNumberish;
+    exclude: boolean;
+    min: BytesLike;
+    max: BytesLike;
+  };
+
+  export type CriterionStructOutput = [
+    field: bigint,
+    exclude: boolean,
+    min: string,
+    max: string
+  ] & { field: bigint; exclude: boolean; min: string; max: string };
+}
+
+export interface CohortStatisticsInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "createQuery"
+      | "dao"
+      | "decryptionContexts"
+      | "getFilters"
+      | "getQuery"
+      | "minCohortSize"
+      | "processQuery"
+      | "protocolId"
+      | "queryCount"
+      | "queryResultCallback"
+      | "queryResultCiphertexts"
+      | "queryResults"
+      | "requestQueryDecryption"
+      | "setMinCohortSize"
+      | "vault"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "DecryptionFulfilled"
+      | "MinCohortSizeUpdated"
+      | "QueryCreated"
+      | "QueryDecryptionRequested"
+      | "QueryProcessed"
+      | "QueryResultRevealed"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "createQuery",
+    values: [
+      BigNumberish,
+      BigNumberish,
+      RecordCriteria.CriterionInputStruct[],
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(functionFragment: "dao", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "decryptionContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getFilters",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getQuery",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "minCohortSize",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "processQuery",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "queryCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "queryResultCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "queryResultCiphertexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "queryResults",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestQueryDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMinCohortSize",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "vault", values?: undefined): string;
+
+  decodeFunctionResult(
+    functionFragment: "createQuery",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "dao", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getFilters", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getQuery", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "minCohortSize",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "processQuery",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "queryCount", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "queryResultCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "queryResultCiphertexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "queryResults",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestQueryDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMinCohortSize",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "vault", data: BytesLike): Result;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MinCohortSizeUpdatedEvent {
+  export type InputTuple = [previousSize: BigNumberish, newSize: BigNumberish];
+  export type OutputTuple = [previousSize: bigint, newSize: bigint];
+  export interface OutputObject {
+    previousSize: bigint;
+    newSize: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace QueryCreatedEvent {
+  export type InputTuple = [
+    queryId: BigNumberish,
+    researcher: AddressLike,
+    trialId: BigNumberish,
+    field: BigNumberish,
+    patientCount: BigNumberish
+  ];
+  export type OutputTuple = [
+    queryId: bigint,
+    researcher: string,
+    trialId: bigint,
+    field: bigint,
+    patientCount: bigint
+  ];
+  export interface OutputObject {
+    queryId: bigint;
+    researcher: string;
+    trialId: bigint;
+    field: bigint;
+    patientCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace QueryDecryptionRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    queryId: BigNumberish,
+    stateHash: BytesLike
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    queryId: bigint,
+    stateHash: string
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    queryId: bigint;
+    stateHash: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace QueryProcessedEvent {
+  export type InputTuple = [
+    queryId: BigNumberish,
+    processed: BigNumberish,
+    patientCount: BigNumberish
+  ];
+  export type OutputTuple = [
+    queryId: bigint,
+    processed: bigint,
+    patientCount: bigint
+  ];
+  export interface OutputObject {
+    queryId: bigint;
+    processed: bigint;
+    patientCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace QueryResultRevealedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    queryId: BigNumberish,
+    released: boolean,
+    cohortSize: BigNumberish,
+    sum: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    queryId: bigint,
+    released: boolean,
+    cohortSize: bigint,
+    sum: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    queryId: bigint;
+    released: boolean;
+    cohortSize: bigint;
+    sum: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface CohortStatistics extends BaseContract {
+  connect(runner?: ContractRunner | null): CohortStatistics;
+  waitForDeployment(): Promise<this>;
+
+  interface: CohortStatisticsInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  createQuery: TypedContractMethod<
+    [
+      trialId: BigNumberish,
+      field: BigNumberish,
+      inputs: RecordCriteria.CriterionInputStruct[],
+      inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  dao: TypedContractMethod<[], [string], "view">;
+
+  decryptionContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        queryId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getFilters: TypedContractMethod<
+    [queryId: BigNumberish],
+    [RecordCriteria.CriterionStructOutput[]],
+    "view"
+  >;
+
+  getQuery: TypedContractMethod<
+    [queryId: BigNumberish],
+    [
+      [string, bigint, bigint, bigint, bigint, bigint] & {
+        researcher: string;
+        trialId: bigint;
+        field: bigint;
+        createdAt: bigint;
+        processed: bigint;
+        patientCount: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  minCohortSize: TypedContractMethod<[], [bigint], "view">;
+
+  processQuery: TypedContractMethod<
+    [queryId: BigNumberish, maxPatients: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  queryCount: TypedContractMethod<[], [bigint], "view">;
+
+  queryResultCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  queryResultCiphertexts: TypedContractMethod<
+    [queryId: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  queryResults: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [boolean, boolean, bigint, bigint] & {
+        revealed: boolean;
+        released: boolean;
+        cohortSize: bigint;
+        sum: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  requestQueryDecryption: TypedContractMethod<
+    [queryId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setMinCohortSize: TypedContractMethod<
+    [newSize: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  vault: TypedContractMethod<[], [string], "view">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "createQuery"
+  ): TypedContractMethod<
+    [
+      trialId: BigNumberish,
+      field: BigNumberish,
+      inputs: RecordCriteria.CriterionInputStruct[],
+      inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "dao"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "decryptionContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        queryId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getFilters"
+  ): TypedContractMethod<
+    [queryId: BigNumberish],
+    [RecordCriteria.CriterionStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getQuery"
+  ): TypedContractMethod<
+    [queryId: BigNumberish],
+    [
+      [string, bigint, bigint, bigint, bigint, bigint] & {
+        researcher: string;
+        trialId: bigint;
+        field: bigint;
+        createdAt: bigint;
+        processed: bigint;
+        patientCount: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "minCohortSize"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "processQuery"
+  ): TypedContractMethod<
+    [queryId: BigNumberish, maxPatients: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "queryCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "queryResultCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "queryResultCiphertexts"
+  ): TypedContractMethod<[queryId: BigNumberish], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "queryResults"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [boolean, boolean, bigint, bigint] & {
+        revealed: boolean;
+        released: boolean;
+        cohortSize: bigint;
+        sum: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "requestQueryDecryption"
+  ): TypedContractMethod<[queryId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setMinCohortSize"
+  ): TypedContractMethod<[newSize: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "vault"
+  ): TypedContractMethod<[], [string], "view">;
+
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "MinCohortSizeUpdated"
+  ): TypedContractEvent<
+    MinCohortSizeUpdatedEvent.InputTuple,
+    MinCohortSizeUpdatedEvent.OutputTuple,
+    MinCohortSizeUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "QueryCreated"
+  ): TypedContractEvent<
+    QueryCreatedEvent.InputTuple,
+    QueryCreatedEvent.OutputTuple,
+    QueryCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "QueryDecryptionRequested"
+  ): TypedContractEvent<
+    QueryDecryptionRequestedEvent.InputTuple,
+    QueryDecryptionRequestedEvent.OutputTuple,
+    QueryDecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "QueryProcessed"
+  ): TypedContractEvent<
+    QueryProcessedEvent.InputTuple,
+    QueryProcessedEvent.OutputTuple,
+    QueryProcessedEvent.OutputObject
+  >;
+  getEvent(
+    key: "QueryResultRevealed"
+  ): TypedContractEvent<
+    QueryResultRevealedEvent.InputTuple,
+    QueryResultRevealedEvent.OutputTuple,
+    QueryResultRevealedEvent.OutputObject
+  >;
+
+  filters: {
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "MinCohortSizeUpdated(uint32,uint32)": TypedContractEvent<
+      MinCohortSizeUpdatedEvent.InputTuple,
+      MinCohortSizeUpdatedEvent.OutputTuple,
+      MinCohortSizeUpdatedEvent.OutputObject
+    >;
+    MinCohortSizeUpdated: TypedContractEvent<
+      MinCohortSizeUpdatedEvent.InputTuple,
+      MinCohortSizeUpdatedEvent.OutputTuple,
+      MinCohortSizeUpdatedEvent.OutputObject
+    >;
+
+    "QueryCreated(uint256,address,uint256,uint8,uint256)": TypedContractEvent<
+      QueryCreatedEvent.InputTuple,
+      QueryCreatedEvent.OutputTuple,
+      QueryCreatedEvent.OutputObject
+    >;
+    QueryCreated: TypedContractEvent<
+      QueryCreatedEvent.InputTuple,
+      QueryCreatedEvent.OutputTuple,
+      QueryCreatedEvent.OutputObject
+    >;
+
+    "QueryDecryptionRequested(uint256,uint256,bytes32)": TypedContractEvent<
+      QueryDecryptionRequestedEvent.InputTuple,
+      QueryDecryptionRequestedEvent.OutputTuple,
+      QueryDecryptionRequestedEvent.OutputObject
+    >;
+    QueryDecryptionRequested: TypedContractEvent<
+      QueryDecryptionRequestedEvent.InputTuple,
+      QueryDecryptionRequestedEvent.OutputTuple,
+      QueryDecryptionRequestedEvent.OutputObject
+    >;
+
+    "QueryProcessed(uint256,uint256,uint256)": TypedContractEvent<
+      QueryProcessedEvent.InputTuple,
+      QueryProcessedEvent.OutputTuple,
+      QueryProcessedEvent.OutputObject
+    >;
+    QueryProcessed: TypedContractEvent<
+      QueryProcessedEvent.InputTuple,
+      QueryProcessedEvent.OutputTuple,
+      QueryProcessedEvent.OutputObject
+    >;
+
+    "QueryResultRevealed(uint256,uint256,bool,uint32,uint64)": TypedContractEvent<
+      QueryResultRevealedEvent.InputTuple,
+      QueryResultRevealedEvent.OutputTuple,
+      QueryResultRevealedEvent.OutputObject
+    >;
+    QueryResultRevealed: TypedContractEvent<
+      QueryResultRevealedEvent.InputTuple,
+      QueryResultRevealedEvent.OutputTuple,
+      QueryResultRevealedEvent.OutputObject
+    >;
+  };
+}
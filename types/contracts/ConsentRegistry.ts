@@ -0,0 +1,628 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace ConsentRegistry {
+  export type ConsentDocumentStruct = {
+    documentHash: BytesLike;
+    uri: string;
+    reconsentRequired: boolean;
+    publishedAt: BigNumberish;
+  };
+
+  export type ConsentDocumentStructOutput = [
+    documentHash: string,
+    uri: string,
+    reconsentRequired: boolean,
+    publishedAt: bigint
+  ] & {
+    documentHash: string;
+    uri: string;
+    reconsentRequired: boolean;
+    publishedAt: bigint;
+  };
+}
+
+export interface ConsentRegistryInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "CONSENT_TYPEHASH"
+      | "consents"
+      | "dao"
+      | "eip712Domain"
+      | "getConsentedTrials"
+      | "getDocument"
+      | "getDocuments"
+      | "giveConsent"
+      | "hasActiveConsent"
+      | "latestVersion"
+      | "minimumVersion"
+      | "nonces"
+      | "publishDocument"
+      | "recordVault"
+      | "setRecordVault"
+      | "withdrawConsent"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "ConsentDocumentPublished"
+      | "ConsentGiven"
+      | "ConsentWithdrawn"
+      | "EIP712DomainChanged"
+      | "RecordVaultSet"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "CONSENT_TYPEHASH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "consents",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "dao", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "eip712Domain",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getConsentedTrials",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDocument",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDocuments",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "giveConsent",
+    values: [AddressLike, BigNumberish, BigNumberish, BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasActiveConsent",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "latestVersion",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "minimumVersion",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "nonces", values: [AddressLike]): string;
+  encodeFunctionData(
+    functionFragment: "publishDocument",
+    values: [BigNumberish, BytesLike, string, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recordVault",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setRecordVault",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawConsent",
+    values: [BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "CONSENT_TYPEHASH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "consents", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "dao", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "eip712Domain",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getConsentedTrials",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDocument",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDocuments",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "giveConsent",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "hasActiveConsent",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "latestVersion",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "minimumVersion",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "nonces", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "publishDocument",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "recordVault",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setRecordVault",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawConsent",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace ConsentDocumentPublishedEvent {
+  export type InputTuple = [
+    trialId: BigNumberish,
+    version: BigNumberish,
+    documentHash: BytesLike,
+    uri: string,
+    reconsentRequired: boolean
+  ];
+  export type OutputTuple = [
+    trialId: bigint,
+    version: bigint,
+    documentHash: string,
+    uri: string,
+    reconsentRequired: boolean
+  ];
+  export interface OutputObject {
+    trialId: bigint;
+    version: bigint;
+    documentHash: string;
+    uri: string;
+    reconsentRequired: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ConsentGivenEvent {
+  export type InputTuple = [
+    trialId: BigNumberish,
+    patient: AddressLike,
+    version: BigNumberish,
+    documentHash: BytesLike
+  ];
+  export type OutputTuple = [
+    trialId: bigint,
+    patient: string,
+    version: bigint,
+    documentHash: string
+  ];
+  export interface OutputObject {
+    trialId: bigint;
+    patient: string;
+    version: bigint;
+    documentHash: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ConsentWithdrawnEvent {
+  export type InputTuple = [
+    trialId: BigNumberish,
+    patient: AddressLike,
+    version: BigNumberish
+  ];
+  export type OutputTuple = [trialId: bigint, patient: string, version: bigint];
+  export interface OutputObject {
+    trialId: bigint;
+    patient: string;
+    version: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EIP712DomainChangedEvent {
+  export type InputTuple = [];
+  export type OutputTuple = [];
+  export interface OutputObject {}
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RecordVaultSetEvent {
+  export type InputTuple = [vault: AddressLike];
+  export type OutputTuple = [vault: string];
+  export interface OutputObject {
+    vault: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface ConsentRegistry extends BaseContract {
+  connect(runner?: ContractRunner | null): ConsentRegistry;
+  waitForDeployment(): Promise<this>;
+
+  interface: ConsentRegistryInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  CONSENT_TYPEHASH: TypedContractMethod<[], [string], "view">;
+
+  consents: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [
+      [bigint, bigint, bigint] & {
+        version: bigint;
+        givenAt: bigint;
+        withdrawnAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  dao: TypedContractMethod<[], [string], "view">;
+
+  eip712Domain: TypedContractMethod<
+    [],
+    [
+      [string, string, string, bigint, string, string, bigint[]] & {
+        fields: string;
+        name: string;
+        version: string;
+        chainId: bigint;
+        verifyingContract: string;
+        salt: string;
+        extensions: bigint[];
+      }
+    ],
+    "view"
+  >;
+
+  getConsentedTrials: TypedContractMethod<
+    [patient: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+
+  getDocument: TypedContractMethod<
+    [trialId: BigNumberish, version: BigNumberish],
+    [ConsentRegistry.ConsentDocumentStructOutput],
+    "view"
+  >;
+
+  getDocuments: TypedContractMethod<
+    [trialId: BigNumberish],
+    [ConsentRegistry.ConsentDocumentStructOutput[]],
+    "view"
+  >;
+
+  giveConsent: TypedContractMethod<
+    [
+      patient: AddressLike,
+      trialId: BigNumberish,
+      version: BigNumberish,
+      deadline: BigNumberish,
+      signature: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  hasActiveConsent: TypedContractMethod<
+    [patient: AddressLike, trialId: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  latestVersion: TypedContractMethod<[trialId: BigNumberish], [bigint], "view">;
+
+  minimumVersion: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  nonces: TypedContractMethod<[owner: AddressLike], [bigint], "view">;
+
+  publishDocument: TypedContractMethod<
+    [
+      trialId: BigNumberish,
+      documentHash: BytesLike,
+      uri: string,
+      reconsentRequired: boolean
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  recordVault: TypedContractMethod<[], [string], "view">;
+
+  setRecordVault: TypedContractMethod<
+    [vault: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  withdrawConsent: TypedContractMethod<
+    [trialId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "CONSENT_TYPEHASH"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "consents"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [
+      [bigint, bigint, bigint] & {
+        version: bigint;
+        givenAt: bigint;
+        withdrawnAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "dao"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "eip712Domain"
+  ): TypedContractMethod<
+    [],
+    [
+      [string, string, string, bigint, string, string, bigint[]] & {
+        fields: string;
+        name: string;
+        version: string;
+        chainId: bigint;
+        verifyingContract: string;
+        salt: string;
+        extensions: bigint[];
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getConsentedTrials"
+  ): TypedContractMethod<[patient: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getDocument"
+  ): TypedContractMethod<
+    [trialId: BigNumberish, version: BigNumberish],
+    [ConsentRegistry.ConsentDocumentStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getDocuments"
+  ): TypedContractMethod<
+    [trialId: BigNumberish],
+    [ConsentRegistry.ConsentDocumentStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "giveConsent"
+  ): TypedContractMethod<
+    [
+      patient: AddressLike,
+      trialId: BigNumberish,
+      version: BigNumberish,
+      deadline: BigNumberish,
+      signature: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "hasActiveConsent"
+  ): TypedContractMethod<
+    [patient: AddressLike, trialId: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "latestVersion"
+  ): TypedContractMethod<[trialId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "minimumVersion"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "nonces"
+  ): TypedContractMethod<[owner: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "publishDocument"
+  ): TypedContractMethod<
+    [
+      trialId: BigNumberish,
+      documentHash: BytesLike,
+      uri: string,
+      reconsentRequired: boolean
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "recordVault"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "setRecordVault"
+  ): TypedContractMethod<[vault: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "withdrawConsent"
+  ): TypedContractMethod<[trialId: BigNumberish], [void], "nonpayable">;
+
+  getEvent(
+    key: "ConsentDocumentPublished"
+  ): TypedContractEvent<
+    ConsentDocumentPublishedEvent.InputTuple,
+    ConsentDocumentPublishedEvent.OutputTuple,
+    ConsentDocumentPublishedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ConsentGiven"
+  ): TypedContractEvent<
+    ConsentGivenEvent.InputTuple,
+    ConsentGivenEvent.OutputTuple,
+    ConsentGivenEvent.OutputObject
+  >;
+  getEvent(
+    key: "ConsentWithdrawn"
+  ): TypedContractEvent<
+    ConsentWithdrawnEvent.InputTuple,
+    ConsentWithdrawnEvent.OutputTuple,
+    ConsentWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "EIP712DomainChanged"
+  ): TypedContractEvent<
+    EIP712DomainChangedEvent.InputTuple,
+    EIP712DomainChangedEvent.OutputTuple,
+    EIP712DomainChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RecordVaultSet"
+  ): TypedContractEvent<
+    RecordVaultSetEvent.InputTuple,
+    RecordVaultSetEvent.OutputTuple,
+    RecordVaultSetEvent.OutputObject
+  >;
+
+  filters: {
+    "ConsentDocumentPublished(uint256,uint256,bytes32,string,bool)": TypedContractEvent<
+      ConsentDocumentPublishedEvent.InputTuple,
+      ConsentDocumentPublishedEvent.OutputTuple,
+      ConsentDocumentPublishedEvent.OutputObject
+    >;
+    ConsentDocumentPublished: TypedContractEvent<
+      ConsentDocumentPublishedEvent.InputTuple,
+      ConsentDocumentPublishedEvent.OutputTuple,
+      ConsentDocumentPublishedEvent.OutputObject
+    >;
+
+    "ConsentGiven(uint256,address,uint256,bytes32)": TypedContractEvent<
+      ConsentGivenEvent.InputTuple,
+      ConsentGivenEvent.OutputTuple,
+      ConsentGivenEvent.OutputObject
+    >;
+    ConsentGiven: TypedContractEvent<
+      ConsentGivenEvent.InputTuple,
+      ConsentGivenEvent.OutputTuple,
+      ConsentGivenEvent.OutputObject
+    >;
+
+    "ConsentWithdrawn(uint256,address,uint256)": TypedContractEvent<
+      ConsentWithdrawnEvent.InputTuple,
+      ConsentWithdrawnEvent.OutputTuple,
+      ConsentWithdrawnEvent.OutputObject
+    >;
+    ConsentWithdrawn: TypedContractEvent<
+      ConsentWithdrawnEvent.InputTuple,
+      ConsentWithdrawnEvent.OutputTuple,
+      ConsentWithdrawnEvent.OutputObject
+    >;
+
+    "EIP712DomainChanged()": TypedContractEvent<
+      EIP712DomainChangedEvent.InputTuple,
+      EIP712DomainChangedEvent.OutputTuple,
+      EIP712DomainChangedEvent.OutputObject
+    >;
+    EIP712DomainChanged: TypedContractEvent<
+      EIP712DomainChangedEvent.InputTuple,
+      EIP712DomainChangedEvent.OutputTuple,
+      EIP712DomainChangedEvent.OutputObject
+    >;
+
+    "RecordVaultSet(address)": TypedContractEvent<
+      RecordVaultSetEvent.InputTuple,
+      RecordVaultSetEvent.OutputTuple,
+      RecordVaultSetEvent.OutputObject
+    >;
+    RecordVaultSet: TypedContractEvent<
+      RecordVaultSetEvent.InputTuple,
+      RecordVaultSetEvent.OutputTuple,
+      RecordVaultSetEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,538 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface ParticipationRewardsInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "claimReward"
+      | "confidentialBalanceOf"
+      | "confidentialTotalSupply"
+      | "confidentialTransfer"
+      | "dao"
+      | "decimals"
+      | "enrollParticipants"
+      | "fundPool"
+      | "hasClaimed"
+      | "isEnrolled"
+      | "mint"
+      | "name"
+      | "owedOf"
+      | "poolOf"
+      | "protocolId"
+      | "rewardPerPatient"
+      | "setRewardPerPatient"
+      | "symbol"
+      | "vault"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "ParticipantEnrolled"
+      | "PoolFunded"
+      | "RewardClaimed"
+      | "RewardPerPatientSet"
+      | "Transfer"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "claimReward",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "confidentialBalanceOf",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "confidentialTotalSupply",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "confidentialTransfer",
+    values: [AddressLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "dao", values?: undefined): string;
+  encodeFunctionData(functionFragment: "decimals", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "enrollParticipants",
+    values: [BigNumberish, AddressLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "fundPool",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasClaimed",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isEnrolled",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "mint",
+    values: [AddressLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "name", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "owedOf",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "poolOf",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "rewardPerPatient",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setRewardPerPatient",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "symbol", values?: undefined): string;
+  encodeFunctionData(functionFragment: "vault", values?: undefined): string;
+
+  decodeFunctionResult(
+    functionFragment: "claimReward",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "confidentialBalanceOf",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "confidentialTotalSupply",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "confidentialTransfer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "dao", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "decimals", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "enrollParticipants",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "fundPool", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "hasClaimed", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "isEnrolled", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "mint", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "name", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owedOf", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "poolOf", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "rewardPerPatient",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setRewardPerPatient",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "symbol", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "vault", data: BytesLike): Result;
+}
+
+export namespace ParticipantEnrolledEvent {
+  export type InputTuple = [trialId: BigNumberish, patient: AddressLike];
+  export type OutputTuple = [trialId: bigint, patient: string];
+  export interface OutputObject {
+    trialId: bigint;
+    patient: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PoolFundedEvent {
+  export type InputTuple = [trialId: BigNumberish, funder: AddressLike];
+  export type OutputTuple = [trialId: bigint, funder: string];
+  export interface OutputObject {
+    trialId: bigint;
+    funder: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RewardClaimedEvent {
+  export type InputTuple = [trialId: BigNumberish, patient: AddressLike];
+  export type OutputTuple = [trialId: bigint, patient: string];
+  export interface OutputObject {
+    trialId: bigint;
+    patient: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RewardPerPatientSetEvent {
+  export type InputTuple = [trialId: BigNumberish];
+  export type OutputTuple = [trialId: bigint];
+  export interface OutputObject {
+    trialId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TransferEvent {
+  export type InputTuple = [from: AddressLike, to: AddressLike];
+  export type OutputTuple = [from: string, to: string];
+  export interface OutputObject {
+    from: string;
+    to: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface ParticipationRewards extends BaseContract {
+  connect(runner?: ContractRunner | null): ParticipationRewards;
+  waitForDeployment(): Promise<this>;
+
+  interface: ParticipationRewardsInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  claimReward: TypedContractMethod<
+    [trialId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  confidentialBalanceOf: TypedContractMethod<
+    [account: AddressLike],
+    [string],
+    "view"
+  >;
+
+  confidentialTotalSupply: TypedContractMethod<[], [string], "view">;
+
+  confidentialTransfer: TypedContractMethod<
+    [to: AddressLike, encryptedAmount: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  dao: TypedContractMethod<[], [string], "view">;
+
+  decimals: TypedContractMethod<[], [bigint], "view">;
+
+  enrollParticipants: TypedContractMethod<
+    [trialId: BigNumberish, patients: AddressLike[]],
+    [void],
+    "nonpayable"
+  >;
+
+  fundPool: TypedContractMethod<
+    [trialId: BigNumberish, encryptedAmount: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  hasClaimed: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  isEnrolled: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  mint: TypedContractMethod<
+    [to: AddressLike, encryptedAmount: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  name: TypedContractMethod<[], [string], "view">;
+
+  owedOf: TypedContractMethod<
+    [trialId: BigNumberish, patient: AddressLike],
+    [string],
+    "view"
+  >;
+
+  poolOf: TypedContractMethod<[trialId: BigNumberish], [string], "view">;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  rewardPerPatient: TypedContractMethod<
+    [trialId: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  setRewardPerPatient: TypedContractMethod<
+    [trialId: BigNumberish, encryptedReward: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  symbol: TypedContractMethod<[], [string], "view">;
+
+  vault: TypedContractMethod<[], [string], "view">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "claimReward"
+  ): TypedContractMethod<[trialId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "confidentialBalanceOf"
+  ): TypedContractMethod<[account: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "confidentialTotalSupply"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "confidentialTransfer"
+  ): TypedContractMethod<
+    [to: AddressLike, encryptedAmount: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "dao"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "decimals"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "enrollParticipants"
+  ): TypedContractMethod<
+    [trialId: BigNumberish, patients: AddressLike[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "fundPool"
+  ): TypedContractMethod<
+    [trialId: BigNumberish, encryptedAmount: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "hasClaimed"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isEnrolled"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "mint"
+  ): TypedContractMethod<
+    [to: AddressLike, encryptedAmount: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "name"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "owedOf"
+  ): TypedContractMethod<
+    [trialId: BigNumberish, patient: AddressLike],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "poolOf"
+  ): TypedContractMethod<[trialId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "rewardPerPatient"
+  ): TypedContractMethod<[trialId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "setRewardPerPatient"
+  ): TypedContractMethod<
+    [trialId: BigNumberish, encryptedReward: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "symbol"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "vault"
+  ): TypedContractMethod<[], [string], "view">;
+
+  getEvent(
+    key: "ParticipantEnrolled"
+  ): TypedContractEvent<
+    ParticipantEnrolledEvent.InputTuple,
+    ParticipantEnrolledEvent.OutputTuple,
+    ParticipantEnrolledEvent.OutputObject
+  >;
+  getEvent(
+    key: "PoolFunded"
+  ): TypedContractEvent<
+    PoolFundedEvent.InputTuple,
+    PoolFundedEvent.OutputTuple,
+    PoolFundedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RewardClaimed"
+  ): TypedContractEvent<
+    RewardClaimedEvent.InputTuple,
+    RewardClaimedEvent.OutputTuple,
+    RewardClaimedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RewardPerPatientSet"
+  ): TypedContractEvent<
+    RewardPerPatientSetEvent.InputTuple,
+    RewardPerPatientSetEvent.OutputTuple,
+    RewardPerPatientSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "Transfer"
+  ): TypedContractEvent<
+    TransferEvent.InputTuple,
+    TransferEvent.OutputTuple,
+    TransferEvent.OutputObject
+  >;
+
+  filters: {
+    "ParticipantEnrolled(uint256,address)": TypedContractEvent<
+      ParticipantEnrolledEvent.InputTuple,
+      ParticipantEnrolledEvent.OutputTuple,
+      ParticipantEnrolledEvent.OutputObject
+    >;
+    ParticipantEnrolled: TypedContractEvent<
+      ParticipantEnrolledEvent.InputTuple,
+      ParticipantEnrolledEvent.OutputTuple,
+      ParticipantEnrolledEvent.OutputObject
+    >;
+
+    "PoolFunded(uint256,address)": TypedContractEvent<
+      PoolFundedEvent.InputTuple,
+      PoolFundedEvent.OutputTuple,
+      PoolFundedEvent.OutputObject
+    >;
+    PoolFunded: TypedContractEvent<
+      PoolFundedEvent.InputTuple,
+      PoolFundedEvent.OutputTuple,
+      PoolFundedEvent.OutputObject
+    >;
+
+    "RewardClaimed(uint256,address)": TypedContractEvent<
+      RewardClaimedEvent.InputTuple,
+      RewardClaimedEvent.OutputTuple,
+      RewardClaimedEvent.OutputObject
+    >;
+    RewardClaimed: TypedContractEvent<
+      RewardClaimedEvent.InputTuple,
+      RewardClaimedEvent.OutputTuple,
+      RewardClaimedEvent.OutputObject
+    >;
+
+    "RewardPerPatientSet(uint256)": TypedContractEvent<
+      RewardPerPatientSetEvent.InputTuple,
+      RewardPerPatientSetEvent.OutputTuple,
+      RewardPerPatientSetEvent.OutputObject
+    >;
+    RewardPerPatientSet: TypedContractEvent<
+      RewardPerPatientSetEvent.InputTuple,
+      RewardPerPatientSetEvent.OutputTuple,
+      RewardPerPatientSetEvent.OutputObject
+    >;
+
+    "Transfer(address,address)": TypedContractEvent<
+      TransferEvent.InputTuple,
+      TransferEvent.OutputTuple,
+      TransferEvent.OutputObject
+    >;
+    Transfer: TypedContractEvent<
+      TransferEvent.InputTuple,
+      TransferEvent.OutputTuple,
+      TransferEvent.OutputObject
+    >;
+  };
+}
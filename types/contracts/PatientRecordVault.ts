@@ -0,0 +1,714 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface PatientRecordVaultInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "MAX_BIOMARKERS"
+      | "allowEvaluator"
+      | "consentRegistry"
+      | "dao"
+      | "getEvaluatorPatients"
+      | "getGrantedTrials"
+      | "getRecord"
+      | "getTrialPatients"
+      | "grantAccess"
+      | "hasAccess"
+      | "hasRecord"
+      | "isEvaluator"
+      | "protocolId"
+      | "removeEvaluator"
+      | "restoreRenewedConsent"
+      | "revokeAccess"
+      | "revokeWithdrawnConsent"
+      | "rotateSupersededConsents"
+      | "submitRecord"
+      | "trialPatientAt"
+      | "trialPatientCount"
+      | "verifierOf"
+      | "verifyRecord"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AccessGranted"
+      | "AccessRevoked"
+      | "EvaluatorAllowed"
+      | "EvaluatorRemoved"
+      | "RecordSubmitted"
+      | "RecordVerified"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "MAX_BIOMARKERS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "allowEvaluator",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "consentRegistry",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "dao", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "getEvaluatorPatients",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getGrantedTrials",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRecord",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTrialPatients",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantAccess",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasAccess",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasRecord",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isEvaluator",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeEvaluator",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "restoreRenewedConsent",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeAccess",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeWithdrawnConsent",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "rotateSupersededConsents",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitRecord",
+    values: [BytesLike, BytesLike, BytesLike[], BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "trialPatientAt",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "trialPatientCount",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "verifierOf",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "verifyRecord",
+    values: [AddressLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "MAX_BIOMARKERS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "allowEvaluator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "consentRegistry",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "dao", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getEvaluatorPatients",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getGrantedTrials",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getRecord", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getTrialPatients",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "grantAccess",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "hasAccess", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "hasRecord", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isEvaluator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "removeEvaluator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "restoreRenewedConsent",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revokeAccess",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revokeWithdrawnConsent",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "rotateSupersededConsents",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitRecord",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "trialPatientAt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "trialPatientCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "verifierOf", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "verifyRecord",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AccessGrantedEvent {
+  export type InputTuple = [
+    patient: AddressLike,
+    trialId: BigNumberish,
+    researcher: AddressLike
+  ];
+  export type OutputTuple = [
+    patient: string,
+    trialId: bigint,
+    researcher: string
+  ];
+  export interface OutputObject {
+    patient: string;
+    trialId: bigint;
+    researcher: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AccessRevokedEvent {
+  export type InputTuple = [patient: AddressLike, trialId: BigNumberish];
+  export type OutputTuple = [patient: string, trialId: bigint];
+  export interface OutputObject {
+    patient: string;
+    trialId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EvaluatorAllowedEvent {
+  export type InputTuple = [patient: AddressLike, evaluator: AddressLike];
+  export type OutputTuple = [patient: string, evaluator: string];
+  export interface OutputObject {
+    patient: string;
+    evaluator: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EvaluatorRemovedEvent {
+  export type InputTuple = [patient: AddressLike, evaluator: AddressLike];
+  export type OutputTuple = [patient: string, evaluator: string];
+  export interface OutputObject {
+    patient: string;
+    evaluator: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RecordSubmittedEvent {
+  export type InputTuple = [patient: AddressLike, biomarkerCount: BigNumberish];
+  export type OutputTuple = [patient: string, biomarkerCount: bigint];
+  export interface OutputObject {
+    patient: string;
+    biomarkerCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RecordVerifiedEvent {
+  export type InputTuple = [patient: AddressLike, provider: AddressLike];
+  export type OutputTuple = [patient: string, provider: string];
+  export interface OutputObject {
+    patient: string;
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface PatientRecordVault extends BaseContract {
+  connect(runner?: ContractRunner | null): PatientRecordVault;
+  waitForDeployment(): Promise<this>;
+
+  interface: PatientRecordVaultInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  MAX_BIOMARKERS: TypedContractMethod<[], [bigint], "view">;
+
+  allowEvaluator: TypedContractMethod<
+    [evaluator: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  consentRegistry: TypedContractMethod<[], [string], "view">;
+
+  dao: TypedContractMethod<[], [string], "view">;
+
+  getEvaluatorPatients: TypedContractMethod<
+    [evaluator: AddressLike],
+    [string[]],
+    "view"
+  >;
+
+  getGrantedTrials: TypedContractMethod<
+    [patient: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+
+  getRecord: TypedContractMethod<
+    [patient: AddressLike],
+    [
+      [string, string, string[], bigint] & {
+        ageBracket: string;
+        diagnosisCode: string;
+        biomarkers: string[];
+        updatedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getTrialPatients: TypedContractMethod<
+    [trialId: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  grantAccess: TypedContractMethod<
+    [trialId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  hasAccess: TypedContractMethod<
+    [patient: AddressLike, trialId: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  hasRecord: TypedContractMethod<[patient: AddressLike], [boolean], "view">;
+
+  isEvaluator: TypedContractMethod<
+    [patient: AddressLike, evaluator: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  removeEvaluator: TypedContractMethod<
+    [evaluator: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  restoreRenewedConsent: TypedContractMethod<
+    [patient: AddressLike, trialId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  revokeAccess: TypedContractMethod<
+    [trialId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  revokeWithdrawnConsent: TypedContractMethod<
+    [patient: AddressLike, trialId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  rotateSupersededConsents: TypedContractMethod<
+    [trialId: BigNumberish, start: BigNumberish, maxPatients: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  submitRecord: TypedContractMethod<
+    [
+      ageBracket: BytesLike,
+      diagnosisCode: BytesLike,
+      biomarkers: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  trialPatientAt: TypedContractMethod<
+    [trialId: BigNumberish, index: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  trialPatientCount: TypedContractMethod<
+    [trialId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  verifierOf: TypedContractMethod<[patient: AddressLike], [string], "view">;
+
+  verifyRecord: TypedContractMethod<
+    [patient: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "MAX_BIOMARKERS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "allowEvaluator"
+  ): TypedContractMethod<[evaluator: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "consentRegistry"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "dao"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "getEvaluatorPatients"
+  ): TypedContractMethod<[evaluator: AddressLike], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getGrantedTrials"
+  ): TypedContractMethod<[patient: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getRecord"
+  ): TypedContractMethod<
+    [patient: AddressLike],
+    [
+      [string, string, string[], bigint] & {
+        ageBracket: string;
+        diagnosisCode: string;
+        biomarkers: string[];
+        updatedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTrialPatients"
+  ): TypedContractMethod<[trialId: BigNumberish], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "grantAccess"
+  ): TypedContractMethod<[trialId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "hasAccess"
+  ): TypedContractMethod<
+    [patient: AddressLike, trialId: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hasRecord"
+  ): TypedContractMethod<[patient: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isEvaluator"
+  ): TypedContractMethod<
+    [patient: AddressLike, evaluator: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "removeEvaluator"
+  ): TypedContractMethod<[evaluator: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "restoreRenewedConsent"
+  ): TypedContractMethod<
+    [patient: AddressLike, trialId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "revokeAccess"
+  ): TypedContractMethod<[trialId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revokeWithdrawnConsent"
+  ): TypedContractMethod<
+    [patient: AddressLike, trialId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "rotateSupersededConsents"
+  ): TypedContractMethod<
+    [trialId: BigNumberish, start: BigNumberish, maxPatients: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitRecord"
+  ): TypedContractMethod<
+    [
+      ageBracket: BytesLike,
+      diagnosisCode: BytesLike,
+      biomarkers: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "trialPatientAt"
+  ): TypedContractMethod<
+    [trialId: BigNumberish, index: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "trialPatientCount"
+  ): TypedContractMethod<[trialId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "verifierOf"
+  ): TypedContractMethod<[patient: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "verifyRecord"
+  ): TypedContractMethod<[patient: AddressLike], [void], "nonpayable">;
+
+  getEvent(
+    key: "AccessGranted"
+  ): TypedContractEvent<
+    AccessGrantedEvent.InputTuple,
+    AccessGrantedEvent.OutputTuple,
+    AccessGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AccessRevoked"
+  ): TypedContractEvent<
+    AccessRevokedEvent.InputTuple,
+    AccessRevokedEvent.OutputTuple,
+    AccessRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EvaluatorAllowed"
+  ): TypedContractEvent<
+    EvaluatorAllowedEvent.InputTuple,
+    EvaluatorAllowedEvent.OutputTuple,
+    EvaluatorAllowedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EvaluatorRemoved"
+  ): TypedContractEvent<
+    EvaluatorRemovedEvent.InputTuple,
+    EvaluatorRemovedEvent.OutputTuple,
+    EvaluatorRemovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RecordSubmitted"
+  ): TypedContractEvent<
+    RecordSubmittedEvent.InputTuple,
+    RecordSubmittedEvent.OutputTuple,
+    RecordSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RecordVerified"
+  ): TypedContractEvent<
+    RecordVerifiedEvent.InputTuple,
+    RecordVerifiedEvent.OutputTuple,
+    RecordVerifiedEvent.OutputObject
+  >;
+
+  filters: {
+    "AccessGranted(address,uint256,address)": TypedContractEvent<
+      AccessGrantedEvent.InputTuple,
+      AccessGrantedEvent.OutputTuple,
+      AccessGrantedEvent.OutputObject
+    >;
+    AccessGranted: TypedContractEvent<
+      AccessGrantedEvent.InputTuple,
+      AccessGrantedEvent.OutputTuple,
+      AccessGrantedEvent.OutputObject
+    >;
+
+    "AccessRevoked(address,uint256)": TypedContractEvent<
+      AccessRevokedEvent.InputTuple,
+      AccessRevokedEvent.OutputTuple,
+      AccessRevokedEvent.OutputObject
+    >;
+    AccessRevoked: TypedContractEvent<
+      AccessRevokedEvent.InputTuple,
+      AccessRevokedEvent.OutputTuple,
+      AccessRevokedEvent.OutputObject
+    >;
+
+    "EvaluatorAllowed(address,address)": TypedContractEvent<
+      EvaluatorAllowedEvent.InputTuple,
+      EvaluatorAllowedEvent.OutputTuple,
+      EvaluatorAllowedEvent.OutputObject
+    >;
+    EvaluatorAllowed: TypedContractEvent<
+      EvaluatorAllowedEvent.InputTuple,
+      EvaluatorAllowedEvent.OutputTuple,
+      EvaluatorAllowedEvent.OutputObject
+    >;
+
+    "EvaluatorRemoved(address,address)": TypedContractEvent<
+      EvaluatorRemovedEvent.InputTuple,
+      EvaluatorRemovedEvent.OutputTuple,
+      EvaluatorRemovedEvent.OutputObject
+    >;
+    EvaluatorRemoved: TypedContractEvent<
+      EvaluatorRemovedEvent.InputTuple,
+      EvaluatorRemovedEvent.OutputTuple,
+      EvaluatorRemovedEvent.OutputObject
+    >;
+
+    "RecordSubmitted(address,uint256)": TypedContractEvent<
+      RecordSubmittedEvent.InputTuple,
+      RecordSubmittedEvent.OutputTuple,
+      RecordSubmittedEvent.OutputObject
+    >;
+    RecordSubmitted: TypedContractEvent<
+      RecordSubmittedEvent.InputTuple,
+      RecordSubmittedEvent.OutputTuple,
+      RecordSubmittedEvent.OutputObject
+    >;
+
+    "RecordVerified(address,address)": TypedContractEvent<
+      RecordVerifiedEvent.InputTuple,
+      RecordVerifiedEvent.OutputTuple,
+      RecordVerifiedEvent.OutputObject
+    >;
+    RecordVerified: TypedContractEvent<
+      RecordVerifiedEvent.InputTuple,
+      RecordVerifiedEvent.OutputTuple,
+      RecordVerifiedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,2230 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export declare namespace PatientDAOFHE {
+  export type ProposalStruct = {
+    id: BigNumberish;
+    proposer: AddressLike;
+    category: string;
+    metadataURI: string;
+    encryptedBudget: BytesLike;
+    status: BigNumberish;
+    createdAt: BigNumberish;
+    votingEndsAt: BigNumberish;
+  };
+
+  export type ProposalStructOutput = [
+    id: bigint,
+    proposer: string,
+    category: string,
+    metadataURI: string,
+    encryptedBudget: string,
+    status: bigint,
+    createdAt: bigint,
+    votingEndsAt: bigint
+  ] & {
+    id: bigint;
+    proposer: string;
+    category: string;
+    metadataURI: string;
+    encryptedBudget: string;
+    status: bigint;
+    createdAt: bigint;
+    votingEndsAt: bigint;
+  };
+}
+
+export interface PatientDAOFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "MAX_BATCH_OPTIONS"
+      | "MAX_COOLDOWN_SECONDS"
+      | "acceptOwnership"
+      | "addMember"
+      | "addProvider"
+      | "addReviewer"
+      | "batchResultCiphertexts"
+      | "batchSubmissionCount"
+      | "batches"
+      | "castVote"
+      | "claimProvider"
+      | "closeBatch"
+      | "cooldownSeconds"
+      | "currentBatchId"
+      | "decryptionContexts"
+      | "encryptedApprovalCount"
+      | "encryptedOptionCounts"
+      | "encryptedTotalVotes"
+      | "encryptedVoteData"
+      | "finalizeProposal"
+      | "getBatchOptionResults"
+      | "getProposal"
+      | "getProposals"
+      | "hasSubmitted"
+      | "hasVoted"
+      | "isMember"
+      | "isProvider"
+      | "isReviewer"
+      | "lastDecryptionRequestTime"
+      | "lastSubmissionTime"
+      | "membershipToken"
+      | "myCallback"
+      | "openBatch"
+      | "openMultiOptionBatch"
+      | "owner"
+      | "pause"
+      | "paused"
+      | "pendingOwner"
+      | "proposalCount"
+      | "proposalDecryptionContexts"
+      | "proposalSnapshot"
+      | "proposalTallies"
+      | "proposalTallyCallback"
+      | "protocolId"
+      | "providerClaimRoot"
+      | "providerMerkleRoot"
+      | "rejectProposal"
+      | "removeMember"
+      | "removeProvider"
+      | "removeReviewer"
+      | "requestBatchResultDecryption"
+      | "requestProposalTallyDecryption"
+      | "setCooldownSeconds"
+      | "setMembershipToken"
+      | "setProviderMerkleRoot"
+      | "setTimelock"
+      | "setVotingPeriod"
+      | "startVoting"
+      | "submitForReview"
+      | "submitProposal"
+      | "submitVote"
+      | "timelock"
+      | "transferOwnership"
+      | "unpause"
+      | "votingPeriod"
+      | "withdrawProposal"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "BatchClosed"
+      | "BatchOpened"
+      | "ContractPaused"
+      | "ContractUnpaused"
+      | "CooldownSecondsUpdated"
+      | "DecryptionCompleted"
+      | "DecryptionFulfilled"
+      | "DecryptionRequested"
+      | "MemberAdded"
+      | "MemberRemoved"
+      | "MembershipTokenUpdated"
+      | "OwnershipTransferStarted"
+      | "OwnershipTransferred"
+      | "ProposalStatusChanged"
+      | "ProposalSubmitted"
+      | "ProposalTallyRequested"
+      | "ProposalTallyRevealed"
+      | "ProposalVoteCast"
+      | "ProviderAdded"
+      | "ProviderClaimed"
+      | "ProviderMerkleRootUpdated"
+      | "ProviderRemoved"
+      | "ReviewerAdded"
+      | "ReviewerRemoved"
+      | "TimelockUpdated"
+      | "VoteSubmitted"
+      | "VotingPeriodUpdated"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "MAX_BATCH_OPTIONS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_COOLDOWN_SECONDS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "acceptOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addMember",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addReviewer",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchResultCiphertexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchSubmissionCount",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batches",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "castVote",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimProvider",
+    values: [BytesLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cooldownSeconds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentBatchId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedApprovalCount",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedOptionCounts",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedTotalVotes",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedVoteData",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "finalizeProposal",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBatchOptionResults",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getProposal",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getProposals",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasSubmitted",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasVoted",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isMember",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isReviewer",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastDecryptionRequestTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastSubmissionTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "membershipToken",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "myCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "openBatch", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "openMultiOptionBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(functionFragment: "pause", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "pendingOwner",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proposalCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proposalDecryptionContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proposalSnapshot",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proposalTallies",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proposalTallyCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "providerClaimRoot",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "providerMerkleRoot",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "rejectProposal",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeMember",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeReviewer",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestBatchResultDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestProposalTallyDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCooldownSeconds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMembershipToken",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setProviderMerkleRoot",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTimelock",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setVotingPeriod",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "startVoting",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitForReview",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitProposal",
+    values: [string, string, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitVote",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "timelock", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "unpause", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "votingPeriod",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawProposal",
+    values: [BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "MAX_BATCH_OPTIONS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_COOLDOWN_SECONDS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "acceptOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "addMember", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "addProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addReviewer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchResultCiphertexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchSubmissionCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "batches", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "castVote", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "claimProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "closeBatch", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "currentBatchId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedApprovalCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedOptionCounts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedTotalVotes",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedVoteData",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "finalizeProposal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBatchOptionResults",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getProposal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getProposals",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "hasSubmitted",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "hasVoted", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "isMember", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "isProvider", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "isReviewer", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "lastDecryptionRequestTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastSubmissionTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "membershipToken",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "myCallback", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "openBatch", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "openMultiOptionBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "pause", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingOwner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "proposalCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "proposalDecryptionContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "proposalSnapshot",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "proposalTallies",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "proposalTallyCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "providerClaimRoot",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "providerMerkleRoot",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "rejectProposal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "removeMember",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "removeProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "removeReviewer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestBatchResultDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestProposalTallyDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMembershipToken",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setProviderMerkleRoot",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setTimelock",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setVotingPeriod",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "startVoting",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitForReview",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitProposal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "submitVote", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "timelock", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "unpause", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "votingPeriod",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawProposal",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace BatchClosedEvent {
+  export type InputTuple = [batchId: BigNumberish, timestamp: BigNumberish];
+  export type OutputTuple = [batchId: bigint, timestamp: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchOpenedEvent {
+  export type InputTuple = [batchId: BigNumberish, timestamp: BigNumberish];
+  export type OutputTuple = [batchId: bigint, timestamp: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ContractPausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ContractUnpausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CooldownSecondsUpdatedEvent {
+  export type InputTuple = [
+    previousCooldown: BigNumberish,
+    newCooldown: BigNumberish
+  ];
+  export type OutputTuple = [previousCooldown: bigint, newCooldown: bigint];
+  export interface OutputObject {
+    previousCooldown: bigint;
+    newCooldown: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionCompletedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    totalVotes: BigNumberish,
+    approvalCount: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    totalVotes: bigint,
+    approvalCount: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    totalVotes: bigint;
+    approvalCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    stateHash: BytesLike
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    stateHash: string
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    stateHash: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MemberAddedEvent {
+  export type InputTuple = [member: AddressLike];
+  export type OutputTuple = [member: string];
+  export interface OutputObject {
+    member: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MemberRemovedEvent {
+  export type InputTuple = [member: AddressLike];
+  export type OutputTuple = [member: string];
+  export interface OutputObject {
+    member: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MembershipTokenUpdatedEvent {
+  export type InputTuple = [previousToken: AddressLike, newToken: AddressLike];
+  export type OutputTuple = [previousToken: string, newToken: string];
+  export interface OutputObject {
+    previousToken: string;
+    newToken: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferStartedEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProposalStatusChangedEvent {
+  export type InputTuple = [
+    proposalId: BigNumberish,
+    previousStatus: BigNumberish,
+    newStatus: BigNumberish,
+    actor: AddressLike
+  ];
+  export type OutputTuple = [
+    proposalId: bigint,
+    previousStatus: bigint,
+    newStatus: bigint,
+    actor: string
+  ];
+  export interface OutputObject {
+    proposalId: bigint;
+    previousStatus: bigint;
+    newStatus: bigint;
+    actor: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProposalSubmittedEvent {
+  export type InputTuple = [
+    proposalId: BigNumberish,
+    proposer: AddressLike,
+    category: string,
+    metadataURI: string
+  ];
+  export type OutputTuple = [
+    proposalId: bigint,
+    proposer: string,
+    category: string,
+    metadataURI: string
+  ];
+  export interface OutputObject {
+    proposalId: bigint;
+    proposer: string;
+    category: string;
+    metadataURI: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProposalTallyRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    proposalId: BigNumberish,
+    stateHash: BytesLike
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    proposalId: bigint,
+    stateHash: string
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    proposalId: bigint;
+    stateHash: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProposalTallyRevealedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    proposalId: BigNumberish,
+    yesVotes: BigNumberish,
+    noVotes: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    proposalId: bigint,
+    yesVotes: bigint,
+    noVotes: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    proposalId: bigint;
+    yesVotes: bigint;
+    noVotes: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProposalVoteCastEvent {
+  export type InputTuple = [proposalId: BigNumberish, voter: AddressLike];
+  export type OutputTuple = [proposalId: bigint, voter: string];
+  export interface OutputObject {
+    proposalId: bigint;
+    voter: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderAddedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderClaimedEvent {
+  export type InputTuple = [provider: AddressLike, root: BytesLike];
+  export type OutputTuple = [provider: string, root: string];
+  export interface OutputObject {
+    provider: string;
+    root: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderMerkleRootUpdatedEvent {
+  export type InputTuple = [previousRoot: BytesLike, newRoot: BytesLike];
+  export type OutputTuple = [previousRoot: string, newRoot: string];
+  export interface OutputObject {
+    previousRoot: string;
+    newRoot: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderRemovedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReviewerAddedEvent {
+  export type InputTuple = [reviewer: AddressLike];
+  export type OutputTuple = [reviewer: string];
+  export interface OutputObject {
+    reviewer: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReviewerRemovedEvent {
+  export type InputTuple = [reviewer: AddressLike];
+  export type OutputTuple = [reviewer: string];
+  export interface OutputObject {
+    reviewer: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TimelockUpdatedEvent {
+  export type InputTuple = [
+    previousTimelock: AddressLike,
+    newTimelock: AddressLike
+  ];
+  export type OutputTuple = [previousTimelock: string, newTimelock: string];
+  export interface OutputObject {
+    previousTimelock: string;
+    newTimelock: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VoteSubmittedEvent {
+  export type InputTuple = [
+    provider: AddressLike,
+    batchId: BigNumberish,
+    encryptedVoteIndex: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    provider: string,
+    batchId: bigint,
+    encryptedVoteIndex: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    provider: string;
+    batchId: bigint;
+    encryptedVoteIndex: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VotingPeriodUpdatedEvent {
+  export type InputTuple = [
+    previousPeriod: BigNumberish,
+    newPeriod: BigNumberish
+  ];
+  export type OutputTuple = [previousPeriod: bigint, newPeriod: bigint];
+  export interface OutputObject {
+    previousPeriod: bigint;
+    newPeriod: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface PatientDAOFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): PatientDAOFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: PatientDAOFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  MAX_BATCH_OPTIONS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_COOLDOWN_SECONDS: TypedContractMethod<[], [bigint], "view">;
+
+  acceptOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  addMember: TypedContractMethod<[member: AddressLike], [void], "nonpayable">;
+
+  addProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  addReviewer: TypedContractMethod<
+    [reviewer: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  batchResultCiphertexts: TypedContractMethod<
+    [batchId: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  batchSubmissionCount: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  batches: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, boolean, bigint, bigint, bigint] & {
+        id: bigint;
+        isOpen: boolean;
+        createdAt: bigint;
+        closedAt: bigint;
+        optionCount: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  castVote: TypedContractMethod<
+    [
+      proposalId: BigNumberish,
+      encryptedSupport: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  claimProvider: TypedContractMethod<
+    [proof: BytesLike[]],
+    [void],
+    "nonpayable"
+  >;
+
+  closeBatch: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  cooldownSeconds: TypedContractMethod<[], [bigint], "view">;
+
+  currentBatchId: TypedContractMethod<[], [bigint], "view">;
+
+  decryptionContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  encryptedApprovalCount: TypedContractMethod<
+    [arg0: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  encryptedOptionCounts: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  encryptedTotalVotes: TypedContractMethod<
+    [arg0: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  encryptedVoteData: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  finalizeProposal: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getBatchOptionResults: TypedContractMethod<
+    [batchId: BigNumberish],
+    [bigint[]],
+    "view"
+  >;
+
+  getProposal: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [PatientDAOFHE.ProposalStructOutput],
+    "view"
+  >;
+
+  getProposals: TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [PatientDAOFHE.ProposalStructOutput[]],
+    "view"
+  >;
+
+  hasSubmitted: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  hasVoted: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  isMember: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  isProvider: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  isReviewer: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  lastDecryptionRequestTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  lastSubmissionTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  membershipToken: TypedContractMethod<[], [string], "view">;
+
+  myCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  openBatch: TypedContractMethod<[], [void], "nonpayable">;
+
+  openMultiOptionBatch: TypedContractMethod<
+    [optionCount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  pause: TypedContractMethod<[], [void], "nonpayable">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  pendingOwner: TypedContractMethod<[], [string], "view">;
+
+  proposalCount: TypedContractMethod<[], [bigint], "view">;
+
+  proposalDecryptionContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  proposalSnapshot: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  proposalTallies: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, bigint, boolean, bigint, bigint] & {
+        encryptedYesVotes: string;
+        encryptedNoVotes: string;
+        voterCount: bigint;
+        revealed: boolean;
+        yesVotes: bigint;
+        noVotes: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  proposalTallyCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  providerClaimRoot: TypedContractMethod<[arg0: AddressLike], [string], "view">;
+
+  providerMerkleRoot: TypedContractMethod<[], [string], "view">;
+
+  rejectProposal: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  removeMember: TypedContractMethod<
+    [member: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  removeProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  removeReviewer: TypedContractMethod<
+    [reviewer: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  requestBatchResultDecryption: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestProposalTallyDecryption: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setCooldownSeconds: TypedContractMethod<
+    [newCooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setMembershipToken: TypedContractMethod<
+    [newToken: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setProviderMerkleRoot: TypedContractMethod<
+    [newRoot: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setTimelock: TypedContractMethod<
+    [newTimelock: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setVotingPeriod: TypedContractMethod<
+    [newVotingPeriod: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  startVoting: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  submitForReview: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  submitProposal: TypedContractMethod<
+    [
+      category: string,
+      metadataURI: string,
+      encryptedBudget: BytesLike,
+      inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  submitVote: TypedContractMethod<
+    [batchId: BigNumberish, encryptedVote: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  timelock: TypedContractMethod<[], [string], "view">;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  unpause: TypedContractMethod<[], [void], "nonpayable">;
+
+  votingPeriod: TypedContractMethod<[], [bigint], "view">;
+
+  withdrawProposal: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "MAX_BATCH_OPTIONS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_COOLDOWN_SECONDS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "acceptOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "addMember"
+  ): TypedContractMethod<[member: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "addProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "addReviewer"
+  ): TypedContractMethod<[reviewer: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "batchResultCiphertexts"
+  ): TypedContractMethod<[batchId: BigNumberish], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "batchSubmissionCount"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "batches"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, boolean, bigint, bigint, bigint] & {
+        id: bigint;
+        isOpen: boolean;
+        createdAt: bigint;
+        closedAt: bigint;
+        optionCount: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "castVote"
+  ): TypedContractMethod<
+    [
+      proposalId: BigNumberish,
+      encryptedSupport: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "claimProvider"
+  ): TypedContractMethod<[proof: BytesLike[]], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "closeBatch"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cooldownSeconds"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "currentBatchId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "decryptionContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "encryptedApprovalCount"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "encryptedOptionCounts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "encryptedTotalVotes"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "encryptedVoteData"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "finalizeProposal"
+  ): TypedContractMethod<[proposalId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "getBatchOptionResults"
+  ): TypedContractMethod<[batchId: BigNumberish], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getProposal"
+  ): TypedContractMethod<
+    [proposalId: BigNumberish],
+    [PatientDAOFHE.ProposalStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getProposals"
+  ): TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [PatientDAOFHE.ProposalStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hasSubmitted"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hasVoted"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isMember"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isProvider"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isReviewer"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "lastDecryptionRequestTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lastSubmissionTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "membershipToken"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "myCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "openBatch"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "openMultiOptionBatch"
+  ): TypedContractMethod<[optionCount: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "pause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "pendingOwner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "proposalCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "proposalDecryptionContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "proposalSnapshot"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "proposalTallies"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, bigint, boolean, bigint, bigint] & {
+        encryptedYesVotes: string;
+        encryptedNoVotes: string;
+        voterCount: bigint;
+        revealed: boolean;
+        yesVotes: bigint;
+        noVotes: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "proposalTallyCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "providerClaimRoot"
+  ): TypedContractMethod<[arg0: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "providerMerkleRoot"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "rejectProposal"
+  ): TypedContractMethod<[proposalId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "removeMember"
+  ): TypedContractMethod<[member: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "removeProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "removeReviewer"
+  ): TypedContractMethod<[reviewer: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestBatchResultDecryption"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestProposalTallyDecryption"
+  ): TypedContractMethod<[proposalId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setCooldownSeconds"
+  ): TypedContractMethod<
+    [newCooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setMembershipToken"
+  ): TypedContractMethod<[newToken: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setProviderMerkleRoot"
+  ): TypedContractMethod<[newRoot: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setTimelock"
+  ): TypedContractMethod<[newTimelock: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setVotingPeriod"
+  ): TypedContractMethod<[newVotingPeriod: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "startVoting"
+  ): TypedContractMethod<[proposalId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "submitForReview"
+  ): TypedContractMethod<[proposalId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "submitProposal"
+  ): TypedContractMethod<
+    [
+      category: string,
+      metadataURI: string,
+      encryptedBudget: BytesLike,
+      inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitVote"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, encryptedVote: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "timelock"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "unpause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "votingPeriod"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "withdrawProposal"
+  ): TypedContractMethod<[proposalId: BigNumberish], [void], "nonpayable">;
+
+  getEvent(
+    key: "BatchClosed"
+  ): TypedContractEvent<
+    BatchClosedEvent.InputTuple,
+    BatchClosedEvent.OutputTuple,
+    BatchClosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchOpened"
+  ): TypedContractEvent<
+    BatchOpenedEvent.InputTuple,
+    BatchOpenedEvent.OutputTuple,
+    BatchOpenedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ContractPaused"
+  ): TypedContractEvent<
+    ContractPausedEvent.InputTuple,
+    ContractPausedEvent.OutputTuple,
+    ContractPausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ContractUnpaused"
+  ): TypedContractEvent<
+    ContractUnpausedEvent.InputTuple,
+    ContractUnpausedEvent.OutputTuple,
+    ContractUnpausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CooldownSecondsUpdated"
+  ): TypedContractEvent<
+    CooldownSecondsUpdatedEvent.InputTuple,
+    CooldownSecondsUpdatedEvent.OutputTuple,
+    CooldownSecondsUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionCompleted"
+  ): TypedContractEvent<
+    DecryptionCompletedEvent.InputTuple,
+    DecryptionCompletedEvent.OutputTuple,
+    DecryptionCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionRequested"
+  ): TypedContractEvent<
+    DecryptionRequestedEvent.InputTuple,
+    DecryptionRequestedEvent.OutputTuple,
+    DecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MemberAdded"
+  ): TypedContractEvent<
+    MemberAddedEvent.InputTuple,
+    MemberAddedEvent.OutputTuple,
+    MemberAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MemberRemoved"
+  ): TypedContractEvent<
+    MemberRemovedEvent.InputTuple,
+    MemberRemovedEvent.OutputTuple,
+    MemberRemovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MembershipTokenUpdated"
+  ): TypedContractEvent<
+    MembershipTokenUpdatedEvent.InputTuple,
+    MembershipTokenUpdatedEvent.OutputTuple,
+    MembershipTokenUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferStarted"
+  ): TypedContractEvent<
+    OwnershipTransferStartedEvent.InputTuple,
+    OwnershipTransferStartedEvent.OutputTuple,
+    OwnershipTransferStartedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProposalStatusChanged"
+  ): TypedContractEvent<
+    ProposalStatusChangedEvent.InputTuple,
+    ProposalStatusChangedEvent.OutputTuple,
+    ProposalStatusChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProposalSubmitted"
+  ): TypedContractEvent<
+    ProposalSubmittedEvent.InputTuple,
+    ProposalSubmittedEvent.OutputTuple,
+    ProposalSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProposalTallyRequested"
+  ): TypedContractEvent<
+    ProposalTallyRequestedEvent.InputTuple,
+    ProposalTallyRequestedEvent.OutputTuple,
+    ProposalTallyRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProposalTallyRevealed"
+  ): TypedContractEvent<
+    ProposalTallyRevealedEvent.InputTuple,
+    ProposalTallyRevealedEvent.OutputTuple,
+    ProposalTallyRevealedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProposalVoteCast"
+  ): TypedContractEvent<
+    ProposalVoteCastEvent.InputTuple,
+    ProposalVoteCastEvent.OutputTuple,
+    ProposalVoteCastEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderAdded"
+  ): TypedContractEvent<
+    ProviderAddedEvent.InputTuple,
+    ProviderAddedEvent.OutputTuple,
+    ProviderAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderClaimed"
+  ): TypedContractEvent<
+    ProviderClaimedEvent.InputTuple,
+    ProviderClaimedEvent.OutputTuple,
+    ProviderClaimedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderMerkleRootUpdated"
+  ): TypedContractEvent<
+    ProviderMerkleRootUpdatedEvent.InputTuple,
+    ProviderMerkleRootUpdatedEvent.OutputTuple,
+    ProviderMerkleRootUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderRemoved"
+  ): TypedContractEvent<
+    ProviderRemovedEvent.InputTuple,
+    ProviderRemovedEvent.OutputTuple,
+    ProviderRemovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReviewerAdded"
+  ): TypedContractEvent<
+    ReviewerAddedEvent.InputTuple,
+    ReviewerAddedEvent.OutputTuple,
+    ReviewerAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReviewerRemoved"
+  ): TypedContractEvent<
+    ReviewerRemovedEvent.InputTuple,
+    ReviewerRemovedEvent.OutputTuple,
+    ReviewerRemovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TimelockUpdated"
+  ): TypedContractEvent<
+    TimelockUpdatedEvent.InputTuple,
+    TimelockUpdatedEvent.OutputTuple,
+    TimelockUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "VoteSubmitted"
+  ): TypedContractEvent<
+    VoteSubmittedEvent.InputTuple,
+    VoteSubmittedEvent.OutputTuple,
+    VoteSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "VotingPeriodUpdated"
+  ): TypedContractEvent<
+    VotingPeriodUpdatedEvent.InputTuple,
+    VotingPeriodUpdatedEvent.OutputTuple,
+    VotingPeriodUpdatedEvent.OutputObject
+  >;
+
+  filters: {
+    "BatchClosed(uint256,uint256)": TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+    BatchClosed: TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+
+    "BatchOpened(uint256,uint256)": TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+    BatchOpened: TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+
+    "ContractPaused(address)": TypedContractEvent<
+      ContractPausedEvent.InputTuple,
+      ContractPausedEvent.OutputTuple,
+      ContractPausedEvent.OutputObject
+    >;
+    ContractPaused: TypedContractEvent<
+      ContractPausedEvent.InputTuple,
+      ContractPausedEvent.OutputTuple,
+      ContractPausedEvent.OutputObject
+    >;
+
+    "ContractUnpaused(address)": TypedContractEvent<
+      ContractUnpausedEvent.InputTuple,
+      ContractUnpausedEvent.OutputTuple,
+      ContractUnpausedEvent.OutputObject
+    >;
+    ContractUnpaused: TypedContractEvent<
+      ContractUnpausedEvent.InputTuple,
+      ContractUnpausedEvent.OutputTuple,
+      ContractUnpausedEvent.OutputObject
+    >;
+
+    "CooldownSecondsUpdated(uint256,uint256)": TypedContractEvent<
+      CooldownSecondsUpdatedEvent.InputTuple,
+      CooldownSecondsUpdatedEvent.OutputTuple,
+      CooldownSecondsUpdatedEvent.OutputObject
+    >;
+    CooldownSecondsUpdated: TypedContractEvent<
+      CooldownSecondsUpdatedEvent.InputTuple,
+      CooldownSecondsUpdatedEvent.OutputTuple,
+      CooldownSecondsUpdatedEvent.OutputObject
+    >;
+
+    "DecryptionCompleted(uint256,uint256,uint256,uint256)": TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+    DecryptionCompleted: TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DecryptionRequested(uint256,uint256,bytes32)": TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+    DecryptionRequested: TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+
+    "MemberAdded(address)": TypedContractEvent<
+      MemberAddedEvent.InputTuple,
+      MemberAddedEvent.OutputTuple,
+      MemberAddedEvent.OutputObject
+    >;
+    MemberAdded: TypedContractEvent<
+      MemberAddedEvent.InputTuple,
+      MemberAddedEvent.OutputTuple,
+      MemberAddedEvent.OutputObject
+    >;
+
+    "MemberRemoved(address)": TypedContractEvent<
+      MemberRemovedEvent.InputTuple,
+      MemberRemovedEvent.OutputTuple,
+      MemberRemovedEvent.OutputObject
+    >;
+    MemberRemoved: TypedContractEvent<
+      MemberRemovedEvent.InputTuple,
+      MemberRemovedEvent.OutputTuple,
+      MemberRemovedEvent.OutputObject
+    >;
+
+    "MembershipTokenUpdated(address,address)": TypedContractEvent<
+      MembershipTokenUpdatedEvent.InputTuple,
+      MembershipTokenUpdatedEvent.OutputTuple,
+      MembershipTokenUpdatedEvent.OutputObject
+    >;
+    MembershipTokenUpdated: TypedContractEvent<
+      MembershipTokenUpdatedEvent.InputTuple,
+      MembershipTokenUpdatedEvent.OutputTuple,
+      MembershipTokenUpdatedEvent.OutputObject
+    >;
+
+    "OwnershipTransferStarted(address,address)": TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+    OwnershipTransferStarted: TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "ProposalStatusChanged(uint256,uint8,uint8,address)": TypedContractEvent<
+      ProposalStatusChangedEvent.InputTuple,
+      ProposalStatusChangedEvent.OutputTuple,
+      ProposalStatusChangedEvent.OutputObject
+    >;
+    ProposalStatusChanged: TypedContractEvent<
+      ProposalStatusChangedEvent.InputTuple,
+      ProposalStatusChangedEvent.OutputTuple,
+      ProposalStatusChangedEvent.OutputObject
+    >;
+
+    "ProposalSubmitted(uint256,address,string,string)": TypedContractEvent<
+      ProposalSubmittedEvent.InputTuple,
+      ProposalSubmittedEvent.OutputTuple,
+      ProposalSubmittedEvent.OutputObject
+    >;
+    ProposalSubmitted: TypedContractEvent<
+      ProposalSubmittedEvent.InputTuple,
+      ProposalSubmittedEvent.OutputTuple,
+      ProposalSubmittedEvent.OutputObject
+    >;
+
+    "ProposalTallyRequested(uint256,uint256,bytes32)": TypedContractEvent<
+      ProposalTallyRequestedEvent.InputTuple,
+      ProposalTallyRequestedEvent.OutputTuple,
+      ProposalTallyRequestedEvent.OutputObject
+    >;
+    ProposalTallyRequested: TypedContractEvent<
+      ProposalTallyRequestedEvent.InputTuple,
+      ProposalTallyRequestedEvent.OutputTuple,
+      ProposalTallyRequestedEvent.OutputObject
+    >;
+
+    "ProposalTallyRevealed(uint256,uint256,uint32,uint32)": TypedContractEvent<
+      ProposalTallyRevealedEvent.InputTuple,
+      ProposalTallyRevealedEvent.OutputTuple,
+      ProposalTallyRevealedEvent.OutputObject
+    >;
+    ProposalTallyRevealed: TypedContractEvent<
+      ProposalTallyRevealedEvent.InputTuple,
+      ProposalTallyRevealedEvent.OutputTuple,
+      ProposalTallyRevealedEvent.OutputObject
+    >;
+
+    "ProposalVoteCast(uint256,address)": TypedContractEvent<
+      ProposalVoteCastEvent.InputTuple,
+      ProposalVoteCastEvent.OutputTuple,
+      ProposalVoteCastEvent.OutputObject
+    >;
+    ProposalVoteCast: TypedContractEvent<
+      ProposalVoteCastEvent.InputTuple,
+      ProposalVoteCastEvent.OutputTuple,
+      ProposalVoteCastEvent.OutputObject
+    >;
+
+    "ProviderAdded(address)": TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+    ProviderAdded: TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+
+    "ProviderClaimed(address,bytes32)": TypedContractEvent<
+      ProviderClaimedEvent.InputTuple,
+      ProviderClaimedEvent.OutputTuple,
+      ProviderClaimedEvent.OutputObject
+    >;
+    ProviderClaimed: TypedContractEvent<
+      ProviderClaimedEvent.InputTuple,
+      ProviderClaimedEvent.OutputTuple,
+      ProviderClaimedEvent.OutputObject
+    >;
+
+    "ProviderMerkleRootUpdated(bytes32,bytes32)": TypedContractEvent<
+      ProviderMerkleRootUpdatedEvent.InputTuple,
+      ProviderMerkleRootUpdatedEvent.OutputTuple,
+      ProviderMerkleRootUpdatedEvent.OutputObject
+    >;
+    ProviderMerkleRootUpdated: TypedContractEvent<
+      ProviderMerkleRootUpdatedEvent.InputTuple,
+      ProviderMerkleRootUpdatedEvent.OutputTuple,
+      ProviderMerkleRootUpdatedEvent.OutputObject
+    >;
+
+    "ProviderRemoved(address)": TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+    ProviderRemoved: TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+
+    "ReviewerAdded(address)": TypedContractEvent<
+      ReviewerAddedEvent.InputTuple,
+      ReviewerAddedEvent.OutputTuple,
+      ReviewerAddedEvent.OutputObject
+    >;
+    ReviewerAdded: TypedContractEvent<
+      ReviewerAddedEvent.InputTuple,
+      ReviewerAddedEvent.OutputTuple,
+      ReviewerAddedEvent.OutputObject
+    >;
+
+    "ReviewerRemoved(address)": TypedContractEvent<
+      ReviewerRemovedEvent.InputTuple,
+      ReviewerRemovedEvent.OutputTuple,
+      ReviewerRemovedEvent.OutputObject
+    >;
+    ReviewerRemoved: TypedContractEvent<
+      ReviewerRemovedEvent.InputTuple,
+      ReviewerRemovedEvent.OutputTuple,
+      ReviewerRemovedEvent.OutputObject
+    >;
+
+    "TimelockUpdated(address,address)": TypedContractEvent<
+      TimelockUpdatedEvent.InputTuple,
+      TimelockUpdatedEvent.OutputTuple,
+      TimelockUpdatedEvent.OutputObject
+    >;
+    TimelockUpdated: TypedContractEvent<
+      TimelockUpdatedEvent.InputTuple,
+      TimelockUpdatedEvent.OutputTuple,
+      TimelockUpdatedEvent.OutputObject
+    >;
+
+    "VoteSubmitted(address,uint256,uint256,uint256)": TypedContractEvent<
+      VoteSubmittedEvent.InputTuple,
+      VoteSubmittedEvent.OutputTuple,
+      VoteSubmittedEvent.OutputObject
+    >;
+    VoteSubmitted: TypedContractEvent<
+      VoteSubmittedEvent.InputTuple,
+      VoteSubmittedEvent.OutputTuple,
+      VoteSubmittedEvent.OutputObject
+    >;
+
+    "VotingPeriodUpdated(uint256,uint256)": TypedContractEvent<
+      VotingPeriodUpdatedEvent.InputTuple,
+      VotingPeriodUpdatedEvent.OutputTuple,
+      VotingPeriodUpdatedEvent.OutputObject
+    >;
+    VotingPeriodUpdated: TypedContractEvent<
+      VotingPeriodUpdatedEvent.InputTuple,
+      VotingPeriodUpdatedEvent.OutputTuple,
+      VotingPeriodUpdatedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,350 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace RecordCriteria {
+  export type CriterionStruct = {
+    field: BigNumberish;
+    exclude: boolean;
+    min: BytesLike;
+    max: BytesLike;
+  };
+
+  export type CriterionStructOutput = [
+    field: bigint,
+    exclude: boolean,
+    min: string,
+    max: string
+  ] & { field: bigint; exclude: boolean; min: string; max: string };
+
+  export type CriterionInputStruct = {
+    field: BigNumberish;
+    exclude: boolean;
+    min: BytesLike;
+    max: BytesLike;
+  };
+
+  export type CriterionInputStructOutput = [
+    field: bigint,
+    exclude: boolean,
+    min: string,
+    max: string
+  ] & { field: bigint; exclude: boolean; min: string; max: string };
+}
+
+export interface TrialEligibilityInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "MAX_CRITERIA"
+      | "checkEligibility"
+      | "checkedAt"
+      | "criteriaUpdatedAt"
+      | "dao"
+      | "getCriteria"
+      | "getEligibility"
+      | "protocolId"
+      | "setCriteria"
+      | "vault"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic: "CriteriaUpdated" | "EligibilityChecked"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "MAX_CRITERIA",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "checkEligibility",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "checkedAt",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "criteriaUpdatedAt",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "dao", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "getCriteria",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEligibility",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCriteria",
+    values: [BigNumberish, RecordCriteria.CriterionInputStruct[], BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "vault", values?: undefined): string;
+
+  decodeFunctionResult(
+    functionFragment: "MAX_CRITERIA",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "checkEligibility",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "checkedAt", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "criteriaUpdatedAt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "dao", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getCriteria",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEligibility",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setCriteria",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "vault", data: BytesLike): Result;
+}
+
+export namespace CriteriaUpdatedEvent {
+  export type InputTuple = [trialId: BigNumberish, criteriaCount: BigNumberish];
+  export type OutputTuple = [trialId: bigint, criteriaCount: bigint];
+  export interface OutputObject {
+    trialId: bigint;
+    criteriaCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EligibilityCheckedEvent {
+  export type InputTuple = [trialId: BigNumberish, patient: AddressLike];
+  export type OutputTuple = [trialId: bigint, patient: string];
+  export interface OutputObject {
+    trialId: bigint;
+    patient: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface TrialEligibility extends BaseContract {
+  connect(runner?: ContractRunner | null): TrialEligibility;
+  waitForDeployment(): Promise<this>;
+
+  interface: TrialEligibilityInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  MAX_CRITERIA: TypedContractMethod<[], [bigint], "view">;
+
+  checkEligibility: TypedContractMethod<
+    [trialId: BigNumberish],
+    [string],
+    "nonpayable"
+  >;
+
+  checkedAt: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  criteriaUpdatedAt: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  dao: TypedContractMethod<[], [string], "view">;
+
+  getCriteria: TypedContractMethod<
+    [trialId: BigNumberish],
+    [RecordCriteria.CriterionStructOutput[]],
+    "view"
+  >;
+
+  getEligibility: TypedContractMethod<
+    [trialId: BigNumberish, patient: AddressLike],
+    [string],
+    "view"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  setCriteria: TypedContractMethod<
+    [
+      trialId: BigNumberish,
+      inputs: RecordCriteria.CriterionInputStruct[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  vault: TypedContractMethod<[], [string], "view">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "MAX_CRITERIA"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "checkEligibility"
+  ): TypedContractMethod<[trialId: BigNumberish], [string], "nonpayable">;
+  getFunction(
+    nameOrSignature: "checkedAt"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "criteriaUpdatedAt"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "dao"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "getCriteria"
+  ): TypedContractMethod<
+    [trialId: BigNumberish],
+    [RecordCriteria.CriterionStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEligibility"
+  ): TypedContractMethod<
+    [trialId: BigNumberish, patient: AddressLike],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "setCriteria"
+  ): TypedContractMethod<
+    [
+      trialId: BigNumberish,
+      inputs: RecordCriteria.CriterionInputStruct[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "vault"
+  ): TypedContractMethod<[], [string], "view">;
+
+  getEvent(
+    key: "CriteriaUpdated"
+  ): TypedContractEvent<
+    CriteriaUpdatedEvent.InputTuple,
+    CriteriaUpdatedEvent.OutputTuple,
+    CriteriaUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EligibilityChecked"
+  ): TypedContractEvent<
+    EligibilityCheckedEvent.InputTuple,
+    EligibilityCheckedEvent.OutputTuple,
+    EligibilityCheckedEvent.OutputObject
+  >;
+
+  filters: {
+    "CriteriaUpdated(uint256,uint256)": TypedContractEvent<
+      CriteriaUpdatedEvent.InputTuple,
+      CriteriaUpdatedEvent.OutputTuple,
+      CriteriaUpdatedEvent.OutputObject
+    >;
+    CriteriaUpdated: TypedContractEvent<
+      CriteriaUpdatedEvent.InputTuple,
+      CriteriaUpdatedEvent.OutputTuple,
+      CriteriaUpdatedEvent.OutputObject
+    >;
+
+    "EligibilityChecked(uint256,address)": TypedContractEvent<
+      EligibilityCheckedEvent.InputTuple,
+      EligibilityCheckedEvent.OutputTuple,
+      EligibilityCheckedEvent.OutputObject
+    >;
+    EligibilityChecked: TypedContractEvent<
+      EligibilityCheckedEvent.InputTuple,
+      EligibilityCheckedEvent.OutputTuple,
+      EligibilityCheckedEvent.OutputObject
+    >;
+  };
+}
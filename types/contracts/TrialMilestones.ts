@@ -0,0 +1,495 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace TrialMilestones {
+  export type MilestoneStruct = {
+    kind: BigNumberish;
+    description: string;
+    dueDate: BigNumberish;
+    status: BigNumberish;
+    documentHash: BytesLike;
+    uri: string;
+    attestedAt: BigNumberish;
+    reviewer: AddressLike;
+    reviewedAt: BigNumberish;
+  };
+
+  export type MilestoneStructOutput = [
+    kind: bigint,
+    description: string,
+    dueDate: bigint,
+    status: bigint,
+    documentHash: string,
+    uri: string,
+    attestedAt: bigint,
+    reviewer: string,
+    reviewedAt: bigint
+  ] & {
+    kind: bigint;
+    description: string;
+    dueDate: bigint;
+    status: bigint;
+    documentHash: string;
+    uri: string;
+    attestedAt: bigint;
+    reviewer: string;
+    reviewedAt: bigint;
+  };
+}
+
+export interface TrialMilestonesInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "acceptMilestone"
+      | "acceptedCount"
+      | "attestMilestone"
+      | "dao"
+      | "declareMilestone"
+      | "disputeMilestone"
+      | "getMilestones"
+      | "getProgress"
+      | "milestoneCount"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "MilestoneAccepted"
+      | "MilestoneAttested"
+      | "MilestoneDeclared"
+      | "MilestoneDisputed"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "acceptMilestone",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "acceptedCount",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "attestMilestone",
+    values: [BigNumberish, BigNumberish, BytesLike, string]
+  ): string;
+  encodeFunctionData(functionFragment: "dao", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "declareMilestone",
+    values: [BigNumberish, BigNumberish, string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "disputeMilestone",
+    values: [BigNumberish, BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getMilestones",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getProgress",
+    values: [BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "milestoneCount",
+    values: [BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "acceptMilestone",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "acceptedCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "attestMilestone",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "dao", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "declareMilestone",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "disputeMilestone",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getMilestones",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getProgress",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "milestoneCount",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace MilestoneAcceptedEvent {
+  export type InputTuple = [
+    trialId: BigNumberish,
+    milestoneIndex: BigNumberish,
+    reviewer: AddressLike
+  ];
+  export type OutputTuple = [
+    trialId: bigint,
+    milestoneIndex: bigint,
+    reviewer: string
+  ];
+  export interface OutputObject {
+    trialId: bigint;
+    milestoneIndex: bigint;
+    reviewer: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MilestoneAttestedEvent {
+  export type InputTuple = [
+    trialId: BigNumberish,
+    milestoneIndex: BigNumberish,
+    investigator: AddressLike,
+    documentHash: BytesLike,
+    uri: string
+  ];
+  export type OutputTuple = [
+    trialId: bigint,
+    milestoneIndex: bigint,
+    investigator: string,
+    documentHash: string,
+    uri: string
+  ];
+  export interface OutputObject {
+    trialId: bigint;
+    milestoneIndex: bigint;
+    investigator: string;
+    documentHash: string;
+    uri: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MilestoneDeclaredEvent {
+  export type InputTuple = [
+    trialId: BigNumberish,
+    milestoneIndex: BigNumberish,
+    kind: BigNumberish,
+    description: string,
+    dueDate: BigNumberish
+  ];
+  export type OutputTuple = [
+    trialId: bigint,
+    milestoneIndex: bigint,
+    kind: bigint,
+    description: string,
+    dueDate: bigint
+  ];
+  export interface OutputObject {
+    trialId: bigint;
+    milestoneIndex: bigint;
+    kind: bigint;
+    description: string;
+    dueDate: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MilestoneDisputedEvent {
+  export type InputTuple = [
+    trialId: BigNumberish,
+    milestoneIndex: BigNumberish,
+    reviewer: AddressLike,
+    reason: string
+  ];
+  export type OutputTuple = [
+    trialId: bigint,
+    milestoneIndex: bigint,
+    reviewer: string,
+    reason: string
+  ];
+  export interface OutputObject {
+    trialId: bigint;
+    milestoneIndex: bigint;
+    reviewer: string;
+    reason: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface TrialMilestones extends BaseContract {
+  connect(runner?: ContractRunner | null): TrialMilestones;
+  waitForDeployment(): Promise<this>;
+
+  interface: TrialMilestonesInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  acceptMilestone: TypedContractMethod<
+    [trialId: BigNumberish, milestoneIndex: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  acceptedCount: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  attestMilestone: TypedContractMethod<
+    [
+      trialId: BigNumberish,
+      milestoneIndex: BigNumberish,
+      documentHash: BytesLike,
+      uri: string
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  dao: TypedContractMethod<[], [string], "view">;
+
+  declareMilestone: TypedContractMethod<
+    [
+      trialId: BigNumberish,
+      kind: BigNumberish,
+      description: string,
+      dueDate: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  disputeMilestone: TypedContractMethod<
+    [trialId: BigNumberish, milestoneIndex: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+
+  getMilestones: TypedContractMethod<
+    [trialId: BigNumberish],
+    [TrialMilestones.MilestoneStructOutput[]],
+    "view"
+  >;
+
+  getProgress: TypedContractMethod<
+    [trialIds: BigNumberish[]],
+    [[bigint[], bigint[]] & { accepted: bigint[]; total: bigint[] }],
+    "view"
+  >;
+
+  milestoneCount: TypedContractMethod<
+    [trialId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "acceptMilestone"
+  ): TypedContractMethod<
+    [trialId: BigNumberish, milestoneIndex: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "acceptedCount"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "attestMilestone"
+  ): TypedContractMethod<
+    [
+      trialId: BigNumberish,
+      milestoneIndex: BigNumberish,
+      documentHash: BytesLike,
+      uri: string
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "dao"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "declareMilestone"
+  ): TypedContractMethod<
+    [
+      trialId: BigNumberish,
+      kind: BigNumberish,
+      description: string,
+      dueDate: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "disputeMilestone"
+  ): TypedContractMethod<
+    [trialId: BigNumberish, milestoneIndex: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getMilestones"
+  ): TypedContractMethod<
+    [trialId: BigNumberish],
+    [TrialMilestones.MilestoneStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getProgress"
+  ): TypedContractMethod<
+    [trialIds: BigNumberish[]],
+    [[bigint[], bigint[]] & { accepted: bigint[]; total: bigint[] }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "milestoneCount"
+  ): TypedContractMethod<[trialId: BigNumberish], [bigint], "view">;
+
+  getEvent(
+    key: "MilestoneAccepted"
+  ): TypedContractEvent<
+    MilestoneAcceptedEvent.InputTuple,
+    MilestoneAcceptedEvent.OutputTuple,
+    MilestoneAcceptedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MilestoneAttested"
+  ): TypedContractEvent<
+    MilestoneAttestedEvent.InputTuple,
+    MilestoneAttestedEvent.OutputTuple,
+    MilestoneAttestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MilestoneDeclared"
+  ): TypedContractEvent<
+    MilestoneDeclaredEvent.InputTuple,
+    MilestoneDeclaredEvent.OutputTuple,
+    MilestoneDeclaredEvent.OutputObject
+  >;
+  getEvent(
+    key: "MilestoneDisputed"
+  ): TypedContractEvent<
+    MilestoneDisputedEvent.InputTuple,
+    MilestoneDisputedEvent.OutputTuple,
+    MilestoneDisputedEvent.OutputObject
+  >;
+
+  filters: {
+    "MilestoneAccepted(uint256,uint256,address)": TypedContractEvent<
+      MilestoneAcceptedEvent.InputTuple,
+      MilestoneAcceptedEvent.OutputTuple,
+      MilestoneAcceptedEvent.OutputObject
+    >;
+    MilestoneAccepted: TypedContractEvent<
+      MilestoneAcceptedEvent.InputTuple,
+      MilestoneAcceptedEvent.OutputTuple,
+      MilestoneAcceptedEvent.OutputObject
+    >;
+
+    "MilestoneAttested(uint256,uint256,address,bytes32,string)": TypedContractEvent<
+      MilestoneAttestedEvent.InputTuple,
+      MilestoneAttestedEvent.OutputTuple,
+      MilestoneAttestedEvent.OutputObject
+    >;
+    MilestoneAttested: TypedContractEvent<
+      MilestoneAttestedEvent.InputTuple,
+      MilestoneAttestedEvent.OutputTuple,
+      MilestoneAttestedEvent.OutputObject
+    >;
+
+    "MilestoneDeclared(uint256,uint256,uint8,string,uint256)": TypedContractEvent<
+      MilestoneDeclaredEvent.InputTuple,
+      MilestoneDeclaredEvent.OutputTuple,
+      MilestoneDeclaredEvent.OutputObject
+    >;
+    MilestoneDeclared: TypedContractEvent<
+      MilestoneDeclaredEvent.InputTuple,
+      MilestoneDeclaredEvent.OutputTuple,
+      MilestoneDeclaredEvent.OutputObject
+    >;
+
+    "MilestoneDisputed(uint256,uint256,address,string)": TypedContractEvent<
+      MilestoneDisputedEvent.InputTuple,
+      MilestoneDisputedEvent.OutputTuple,
+      MilestoneDisputedEvent.OutputObject
+    >;
+    MilestoneDisputed: TypedContractEvent<
+      MilestoneDisputedEvent.InputTuple,
+      MilestoneDisputedEvent.OutputTuple,
+      MilestoneDisputedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,828 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace TrialTreasury {
+  export type PayoutStruct = { milestone: string; releasedAt: BigNumberish };
+
+  export type PayoutStructOutput = [milestone: string, releasedAt: bigint] & {
+    milestone: string;
+    releasedAt: bigint;
+  };
+}
+
+export interface TrialTreasuryInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "AMOUNT_UNIT"
+      | "addCommitteeMember"
+      | "committeeVersion"
+      | "dao"
+      | "decryptionContexts"
+      | "getCommittee"
+      | "getFundedTrials"
+      | "getFunding"
+      | "getPayouts"
+      | "isCommitteeMember"
+      | "isCommitteeSynced"
+      | "protocolId"
+      | "releaseMilestonePayout"
+      | "removeCommitteeMember"
+      | "requestWithdrawal"
+      | "setBudget"
+      | "syncCommittee"
+      | "withdraw"
+      | "withdrawable"
+      | "withdrawalCallback"
+      | "withdrawalCiphertexts"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "BudgetSet"
+      | "CommitteeMemberAdded"
+      | "CommitteeMemberRemoved"
+      | "CommitteeSynced"
+      | "DecryptionFulfilled"
+      | "Deposited"
+      | "MilestonePayoutReleased"
+      | "WithdrawalDecrypted"
+      | "WithdrawalRequested"
+      | "Withdrawn"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "AMOUNT_UNIT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addCommitteeMember",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "committeeVersion",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "dao", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "decryptionContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCommittee",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getFundedTrials",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getFunding",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPayouts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isCommitteeMember",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isCommitteeSynced",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "releaseMilestonePayout",
+    values: [BigNumberish, string, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeCommitteeMember",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestWithdrawal",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setBudget",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "syncCommittee",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "withdraw", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "withdrawable",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawalCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawalCiphertexts",
+    values: [BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "AMOUNT_UNIT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addCommitteeMember",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "committeeVersion",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "dao", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCommittee",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getFundedTrials",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getFunding", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getPayouts", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isCommitteeMember",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isCommitteeSynced",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "releaseMilestonePayout",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "removeCommitteeMember",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestWithdrawal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setBudget", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "syncCommittee",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "withdraw", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawable",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawalCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawalCiphertexts",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace BudgetSetEvent {
+  export type InputTuple = [trialId: BigNumberish];
+  export type OutputTuple = [trialId: bigint];
+  export interface OutputObject {
+    trialId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CommitteeMemberAddedEvent {
+  export type InputTuple = [member: AddressLike];
+  export type OutputTuple = [member: string];
+  export interface OutputObject {
+    member: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CommitteeMemberRemovedEvent {
+  export type InputTuple = [member: AddressLike];
+  export type OutputTuple = [member: string];
+  export interface OutputObject {
+    member: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CommitteeSyncedEvent {
+  export type InputTuple = [
+    trialId: BigNumberish,
+    committeeVersion: BigNumberish
+  ];
+  export type OutputTuple = [trialId: bigint, committeeVersion: bigint];
+  export interface OutputObject {
+    trialId: bigint;
+    committeeVersion: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DepositedEvent {
+  export type InputTuple = [from: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [from: string, amount: bigint];
+  export interface OutputObject {
+    from: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MilestonePayoutReleasedEvent {
+  export type InputTuple = [
+    trialId: BigNumberish,
+    payoutIndex: BigNumberish,
+    milestone: string
+  ];
+  export type OutputTuple = [
+    trialId: bigint,
+    payoutIndex: bigint,
+    milestone: string
+  ];
+  export interface OutputObject {
+    trialId: bigint;
+    payoutIndex: bigint;
+    milestone: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WithdrawalDecryptedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    trialId: BigNumberish,
+    proposer: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    trialId: bigint,
+    proposer: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    trialId: bigint;
+    proposer: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WithdrawalRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    trialId: BigNumberish,
+    stateHash: BytesLike
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    trialId: bigint,
+    stateHash: string
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    trialId: bigint;
+    stateHash: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WithdrawnEvent {
+  export type InputTuple = [proposer: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [proposer: string, amount: bigint];
+  export interface OutputObject {
+    proposer: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface TrialTreasury extends BaseContract {
+  connect(runner?: ContractRunner | null): TrialTreasury;
+  waitForDeployment(): Promise<this>;
+
+  interface: TrialTreasuryInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  AMOUNT_UNIT: TypedContractMethod<[], [bigint], "view">;
+
+  addCommitteeMember: TypedContractMethod<
+    [member: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  committeeVersion: TypedContractMethod<[], [bigint], "view">;
+
+  dao: TypedContractMethod<[], [string], "view">;
+
+  decryptionContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        trialId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getCommittee: TypedContractMethod<[], [string[]], "view">;
+
+  getFundedTrials: TypedContractMethod<[], [bigint[]], "view">;
+
+  getFunding: TypedContractMethod<
+    [trialId: BigNumberish],
+    [
+      [string, string, string, bigint] & {
+        budget: string;
+        disbursed: string;
+        claimable: string;
+        fundedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getPayouts: TypedContractMethod<
+    [trialId: BigNumberish],
+    [TrialTreasury.PayoutStructOutput[]],
+    "view"
+  >;
+
+  isCommitteeMember: TypedContractMethod<
+    [account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  isCommitteeSynced: TypedContractMethod<
+    [trialId: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  releaseMilestonePayout: TypedContractMethod<
+    [
+      trialId: BigNumberish,
+      milestone: string,
+      amount: BytesLike,
+      inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  removeCommitteeMember: TypedContractMethod<
+    [member: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  requestWithdrawal: TypedContractMethod<
+    [trialId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setBudget: TypedContractMethod<
+    [trialId: BigNumberish, encryptedBudget: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  syncCommittee: TypedContractMethod<
+    [trialId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  withdraw: TypedContractMethod<[], [void], "nonpayable">;
+
+  withdrawable: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  withdrawalCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  withdrawalCiphertexts: TypedContractMethod<
+    [trialId: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "AMOUNT_UNIT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "addCommitteeMember"
+  ): TypedContractMethod<[member: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "committeeVersion"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "dao"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "decryptionContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        trialId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getCommittee"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getFundedTrials"
+  ): TypedContractMethod<[], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getFunding"
+  ): TypedContractMethod<
+    [trialId: BigNumberish],
+    [
+      [string, string, string, bigint] & {
+        budget: string;
+        disbursed: string;
+        claimable: string;
+        fundedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPayouts"
+  ): TypedContractMethod<
+    [trialId: BigNumberish],
+    [TrialTreasury.PayoutStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isCommitteeMember"
+  ): TypedContractMethod<[account: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isCommitteeSynced"
+  ): TypedContractMethod<[trialId: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "releaseMilestonePayout"
+  ): TypedContractMethod<
+    [
+      trialId: BigNumberish,
+      milestone: string,
+      amount: BytesLike,
+      inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "removeCommitteeMember"
+  ): TypedContractMethod<[member: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestWithdrawal"
+  ): TypedContractMethod<[trialId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setBudget"
+  ): TypedContractMethod<
+    [trialId: BigNumberish, encryptedBudget: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "syncCommittee"
+  ): TypedContractMethod<[trialId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "withdraw"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "withdrawable"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "withdrawalCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "withdrawalCiphertexts"
+  ): TypedContractMethod<[trialId: BigNumberish], [string[]], "view">;
+
+  getEvent(
+    key: "BudgetSet"
+  ): TypedContractEvent<
+    BudgetSetEvent.InputTuple,
+    BudgetSetEvent.OutputTuple,
+    BudgetSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "CommitteeMemberAdded"
+  ): TypedContractEvent<
+    CommitteeMemberAddedEvent.InputTuple,
+    CommitteeMemberAddedEvent.OutputTuple,
+    CommitteeMemberAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CommitteeMemberRemoved"
+  ): TypedContractEvent<
+    CommitteeMemberRemovedEvent.InputTuple,
+    CommitteeMemberRemovedEvent.OutputTuple,
+    CommitteeMemberRemovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CommitteeSynced"
+  ): TypedContractEvent<
+    CommitteeSyncedEvent.InputTuple,
+    CommitteeSyncedEvent.OutputTuple,
+    CommitteeSyncedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "Deposited"
+  ): TypedContractEvent<
+    DepositedEvent.InputTuple,
+    DepositedEvent.OutputTuple,
+    DepositedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MilestonePayoutReleased"
+  ): TypedContractEvent<
+    MilestonePayoutReleasedEvent.InputTuple,
+    MilestonePayoutReleasedEvent.OutputTuple,
+    MilestonePayoutReleasedEvent.OutputObject
+  >;
+  getEvent(
+    key: "WithdrawalDecrypted"
+  ): TypedContractEvent<
+    WithdrawalDecryptedEvent.InputTuple,
+    WithdrawalDecryptedEvent.OutputTuple,
+    WithdrawalDecryptedEvent.OutputObject
+  >;
+  getEvent(
+    key: "WithdrawalRequested"
+  ): TypedContractEvent<
+    WithdrawalRequestedEvent.InputTuple,
+    WithdrawalRequestedEvent.OutputTuple,
+    WithdrawalRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Withdrawn"
+  ): TypedContractEvent<
+    WithdrawnEvent.InputTuple,
+    WithdrawnEvent.OutputTuple,
+    WithdrawnEvent.OutputObject
+  >;
+
+  filters: {
+    "BudgetSet(uint256)": TypedContractEvent<
+      BudgetSetEvent.InputTuple,
+      BudgetSetEvent.OutputTuple,
+      BudgetSetEvent.OutputObject
+    >;
+    BudgetSet: TypedContractEvent<
+      BudgetSetEvent.InputTuple,
+      BudgetSetEvent.OutputTuple,
+      BudgetSetEvent.OutputObject
+    >;
+
+    "CommitteeMemberAdded(address)": TypedContractEvent<
+      CommitteeMemberAddedEvent.InputTuple,
+      CommitteeMemberAddedEvent.OutputTuple,
+      CommitteeMemberAddedEvent.OutputObject
+    >;
+    CommitteeMemberAdded: TypedContractEvent<
+      CommitteeMemberAddedEvent.InputTuple,
+      CommitteeMemberAddedEvent.OutputTuple,
+      CommitteeMemberAddedEvent.OutputObject
+    >;
+
+    "CommitteeMemberRemoved(address)": TypedContractEvent<
+      CommitteeMemberRemovedEvent.InputTuple,
+      CommitteeMemberRemovedEvent.OutputTuple,
+      CommitteeMemberRemovedEvent.OutputObject
+    >;
+    CommitteeMemberRemoved: TypedContractEvent<
+      CommitteeMemberRemovedEvent.InputTuple,
+      CommitteeMemberRemovedEvent.OutputTuple,
+      CommitteeMemberRemovedEvent.OutputObject
+    >;
+
+    "CommitteeSynced(uint256,uint256)": TypedContractEvent<
+      CommitteeSyncedEvent.InputTuple,
+      CommitteeSyncedEvent.OutputTuple,
+      CommitteeSyncedEvent.OutputObject
+    >;
+    CommitteeSynced: TypedContractEvent<
+      CommitteeSyncedEvent.InputTuple,
+      CommitteeSyncedEvent.OutputTuple,
+      CommitteeSyncedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "Deposited(address,uint256)": TypedContractEvent<
+      DepositedEvent.InputTuple,
+      DepositedEvent.OutputTuple,
+      DepositedEvent.OutputObject
+    >;
+    Deposited: TypedContractEvent<
+      DepositedEvent.InputTuple,
+      DepositedEvent.OutputTuple,
+      DepositedEvent.OutputObject
+    >;
+
+    "MilestonePayoutReleased(uint256,uint256,string)": TypedContractEvent<
+      MilestonePayoutReleasedEvent.InputTuple,
+      MilestonePayoutReleasedEvent.OutputTuple,
+      MilestonePayoutReleasedEvent.OutputObject
+    >;
+    MilestonePayoutReleased: TypedContractEvent<
+      MilestonePayoutReleasedEvent.InputTuple,
+      MilestonePayoutReleasedEvent.OutputTuple,
+      MilestonePayoutReleasedEvent.OutputObject
+    >;
+
+    "WithdrawalDecrypted(uint256,uint256,address,uint256)": TypedContractEvent<
+      WithdrawalDecryptedEvent.InputTuple,
+      WithdrawalDecryptedEvent.OutputTuple,
+      WithdrawalDecryptedEvent.OutputObject
+    >;
+    WithdrawalDecrypted: TypedContractEvent<
+      WithdrawalDecryptedEvent.InputTuple,
+      WithdrawalDecryptedEvent.OutputTuple,
+      WithdrawalDecryptedEvent.OutputObject
+    >;
+
+    "WithdrawalRequested(uint256,uint256,bytes32)": TypedContractEvent<
+      WithdrawalRequestedEvent.InputTuple,
+      WithdrawalRequestedEvent.OutputTuple,
+      WithdrawalRequestedEvent.OutputObject
+    >;
+    WithdrawalRequested: TypedContractEvent<
+      WithdrawalRequestedEvent.InputTuple,
+      WithdrawalRequestedEvent.OutputTuple,
+      WithdrawalRequestedEvent.OutputObject
+    >;
+
+    "Withdrawn(address,uint256)": TypedContractEvent<
+      WithdrawnEvent.InputTuple,
+      WithdrawnEvent.OutputTuple,
+      WithdrawnEvent.OutputObject
+    >;
+    Withdrawn: TypedContractEvent<
+      WithdrawnEvent.InputTuple,
+      WithdrawnEvent.OutputTuple,
+      WithdrawnEvent.OutputObject
+    >;
+  };
+}
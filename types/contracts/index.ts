@@ -1,4 +1,15 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export type { UniversalAdapter } from "./UniversalAdapter";
+import type * as patientDaoDeSciSol from "./Patient_DAO_DeSci.sol";
+export type { patientDaoDeSciSol };
+export type { CohortStatistics } from "./CohortStatistics";
+export type { ConsentRegistry } from "./ConsentRegistry";
+export type { ParticipationRewards } from "./ParticipationRewards";
+export type { PatientDAOTimelock } from "./PatientDAOTimelock";
+export type { PatientMembershipToken } from "./PatientMembershipToken";
+export type { PatientRecordVault } from "./PatientRecordVault";
+export type { RecordCriteria } from "./RecordCriteria";
+export type { TrialEligibility } from "./TrialEligibility";
+export type { TrialMilestones } from "./TrialMilestones";
+export type { TrialTreasury } from "./TrialTreasury";
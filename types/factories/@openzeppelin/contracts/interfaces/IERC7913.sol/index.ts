@@ -0,0 +1,4 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { IERC7913SignatureVerifier__factory } from "./IERC7913SignatureVerifier__factory";
@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export * as ierc7913Sol from "./IERC7913.sol";
+export { IERC1271__factory } from "./IERC1271__factory";
+export { IERC5267__factory } from "./IERC5267__factory";
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export * as utils from "./utils";
+export { IERC721Receiver__factory } from "./IERC721Receiver__factory";
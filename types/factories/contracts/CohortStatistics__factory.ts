@@ -0,0 +1,683 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  BigNumberish,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  CohortStatistics,
+  CohortStatisticsInterface,
+} from "../../contracts/CohortStatistics";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract PatientDAOFHE",
+        name: "dao_",
+        type: "address",
+      },
+      {
+        internalType: "contract PatientRecordVault",
+        name: "vault_",
+        type: "address",
+      },
+      {
+        internalType: "uint32",
+        name: "minCohortSize_",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidCriteria",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidField",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidQuery",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidThreshold",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotProposer",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "QueryIncomplete",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayDetected",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StateMismatch",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "previousSize",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "newSize",
+        type: "uint32",
+      },
+    ],
+    name: "MinCohortSizeUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "queryId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "researcher",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "field",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "patientCount",
+        type: "uint256",
+      },
+    ],
+    name: "QueryCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "queryId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+    ],
+    name: "QueryDecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "queryId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "processed",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "patientCount",
+        type: "uint256",
+      },
+    ],
+    name: "QueryProcessed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "queryId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "released",
+        type: "bool",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "cohortSize",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "sum",
+        type: "uint64",
+      },
+    ],
+    name: "QueryResultRevealed",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "field",
+        type: "uint8",
+      },
+      {
+        components: [
+          {
+            internalType: "uint8",
+            name: "field",
+            type: "uint8",
+          },
+          {
+            internalType: "bool",
+            name: "exclude",
+            type: "bool",
+          },
+          {
+            internalType: "externalEuint32",
+            name: "min",
+            type: "bytes32",
+          },
+          {
+            internalType: "externalEuint32",
+            name: "max",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct RecordCriteria.CriterionInput[]",
+        name: "inputs",
+        type: "tuple[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "createQuery",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "queryId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "dao",
+    outputs: [
+      {
+        internalType: "contract PatientDAOFHE",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "queryId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "queryId",
+        type: "uint256",
+      },
+    ],
+    name: "getFilters",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint8",
+            name: "field",
+            type: "uint8",
+          },
+          {
+            internalType: "bool",
+            name: "exclude",
+            type: "bool",
+          },
+          {
+            internalType: "euint32",
+            name: "min",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint32",
+            name: "max",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct RecordCriteria.Criterion[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "queryId",
+        type: "uint256",
+      },
+    ],
+    name: "getQuery",
+    outputs: [
+      {
+        internalType: "address",
+        name: "researcher",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "field",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "createdAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "processed",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "patientCount",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "minCohortSize",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "queryId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "maxPatients",
+        type: "uint256",
+      },
+    ],
+    name: "processQuery",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "queryCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "queryResultCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "queryId",
+        type: "uint256",
+      },
+    ],
+    name: "queryResultCiphertexts",
+    outputs: [
+      {
+        internalType: "bytes32[]",
+        name: "cts",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "queryResults",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "revealed",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "released",
+        type: "bool",
+      },
+      {
+        internalType: "uint32",
+        name: "cohortSize",
+        type: "uint32",
+      },
+      {
+        internalType: "uint64",
+        name: "sum",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "queryId",
+        type: "uint256",
+      },
+    ],
+    name: "requestQueryDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint32",
+        name: "newSize",
+        type: "uint32",
+      },
+    ],
+    name: "setMinCohortSize",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "vault",
+    outputs: [
+      {
+        internalType: "contract PatientRecordVault",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60c0604052346102af57604051601f612ab338819003918201601f19168301916001600160401b038311848410176102b3578084926060946040528339810103126102af578051906001600160a01b03821682036102af576020810151906001600160a01b03821682036102af57604001519163ffffffff83168093036102af575f606061008b6102c7565b8281528260208201528260408201520152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac60606100bb6102c7565b7350157cffd6bbfa2dece204a89ec419c23ef5755d815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69602082015273a02cda4ca3a71d7c46997716f4283aa851c28812604082015201527350157cffd6bbfa2dece204a89ec419c23ef5755d60018060a01b03197f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416177f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005573cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6960018060a01b03195f80516020612a738339815191525416175f80516020612a738339815191525573a02cda4ca3a71d7c46997716f4283aa851c2881260018060a01b03195f80516020612a938339815191525416175f80516020612a9383398151915255731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac60018060a01b03195f80516020612a538339815191525416175f80516020612a538339815191525582156102a05760805260a05263ffffffff195f5416175f5560405161276c90816102e782396080518181816101cf015281816111cf01528181611d610152611fc0015260a05181818160d80152818161022a01528181610831015281816108b10152818161096701528181610f9d0152818161100e015261113f0152f35b63aabd5a0960e01b5f5260045ffd5b5f80fd5b634e487b7160e01b5f52604160045260245ffd5b60405190608082016001600160401b038111838210176102b35760405256fe6080806040526004361015610012575f80fd5b5f905f3560e01c9081634162169f14611fae575080636e6e0cf014611eab57806384593baa14611e4d5780639198f06114611d2a5780639b2aded414611d0d578063aeb2ffc114611ca1578063b0745655146118da578063b0f4507e146118b8578063b65e894114611872578063bb3b0e2e1461183b578063cc99aec5146113af578063cfdb7764146107b3578063da1f12ab14610796578063e6675efd1461010a5763fbfa77cf146100c3575f80fd5b346101075780600319360112610107576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b80fd5b50346101075760803660031901126101075760043560243560ff811680910361079257604435916001600160401b03831161078e573660238401121561078e578260040135906001600160401b03821161078a576024840193602436918460071b01011161078a57606435926001600160401b0384116107865736602385011215610786578360040135926001600160401b0384116107825760248501946024853692010111610782576040516318feeb1560e31b81526004810184905287816024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa908115610777578891610669575b50602001516001600160a01b0316330361065a57604051635db7629760e11b81527f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03169190602081600481865afa90811561064f5760ff91610278918b91610630575b5061220d565b168310156106215761028b60015461218d565b94856001558589526003602052604089209760405191635db7629760e11b8352602083600481885afa928315610616578b936105e5575b50831580156105db575b6105cc575b89548015610314575f19016102e6818c612255565b610300576002818e80935582600182015501558a556102d1565b634e487b7160e01b8d5260048d905260248dfd5b509089918b998a5b86811061045257505050505050508385526002602052602460206040872092336bffffffffffffffffffffffff60a01b855416178455856001850155600284018560ff198254161790554260038501556040519283809263039b622760e31b82528860048301525afa958615610446579561040c575b50936103d2856005602097019283556103ca6103ac612377565b6006830190815560076103bd6123c5565b93019283553090546124b3565b3090546124b3565b5460405191825284820152827f8d5b503e4fc999a76cd38fc5275f0f7066ee1e339ee922d920aa680054cc371060403393a4604051908152f35b94506020853d60201161043e575b816104276020938361201e565b8101031261043a579351936103d2610392565b5f80fd5b3d915061041a565b604051903d90823e3d90fd5b610465610460828987612335565b612345565b60ff806104718961220d565b16911610156105bd5761049d604061048a838a88612335565b013561049736868661205a565b90612612565b6104ba60606104ad848b89612335565b013561049736878761205a565b6104c430836124b3565b6104ce30826124b3565b6104d833836124b3565b6104e233826124b3565b6104f0610460848b89612335565b9160206104fe858c8a612335565b01358015158091036105b95760ff6040519461051986611fef565b1684526020840190815260408401918252606084019283528854600160401b8110156105a35780600161054f92018b558a612255565b94909461058d57518454915161ffff1990921660ff919091161790151560081b61ff001617835560019392916002915185840155519101550161031c565b5050634e487b7160e01b8f5260048f905260248ffd5b5050634e487b7160e01b8f52604160045260248ffd5b8f80fd5b631037b7f560e11b8c5260048cfd5b631037b7f560e11b8b5260048bfd5b50600884116102cc565b61060891935060203d60201161060f575b610600818361201e565b8101906121f4565b915f6102c2565b503d6105f6565b6040513d8d823e3d90fd5b637fa0b33760e01b8852600488fd5b610649915060203d60201161060f57610600818361201e565b5f610272565b6040513d8b823e3d90fd5b637d1b73b960e01b8752600487fd5b90503d8089833e61067a818361201e565b810190602081830312610773578051906001600160401b038211610757570161010081830312610773576040519161010083018381106001600160401b0382111761075f57604052815183526106d2602083016120f8565b602084015260408201516001600160401b03811161075b57816106f69184016121ae565b60408401526060820151906001600160401b03821161075b5761071a9183016121ae565b60608301526080810151608083015260a08101519060068210156107575760e09160a084015260c081015160c0840152015160e08201525f610207565b8980fd5b8a80fd5b634e487b7160e01b8b52604160045260248bfd5b8880fd5b6040513d8a823e3d90fd5b8680fd5b8580fd5b8480fd5b8380fd5b8280fd5b503461010757806003193601126101075760206040516127118152f35b503461010757604036600319011261010757602435906004358152600260205260408120906003820154156113a05760043581526003602052604081209260058301549360048401549182860386811161138c578110611365575b50600184015460405163039b622760e31b815260048101919091526020816024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa90811561135a578491611328575b5060068593929301549260078601545b8784108061131f575b156112bc57600187015460405163485ee64960e11b8152600481018290526024810186905294906020866044817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa958615610777578896611281575b50600435885260046020526040882060018060a01b0387165f5260205260ff60405f205416908115610f70575b50610f625760048035885260208181526040808a206001600160a01b039889165f81815291909352819020805460ff191660011790555163185fee8160e21b815291820152948790869060249082907f0000000000000000000000000000000000000000000000000000000000000000165afa958615610f5757879488968998610e95575b5060ff60028b01541660028110159081610e7d575b50610e6c576109bf6001612413565b9089915b8654831015610cab576109d68388612255565b508b60ff82541660028110908115610c94575b5015610c825750610a74610a038c8c8c60ff86541661226e565b8d60206001850154918384159384610c72575b8015610c64575b5f8051602061274083398151915254604051631391547f60e01b8152600481019390935260248301919091526001600160f81b031983166044830152909586926001600160a01b0390921691839182906064820190565b03925af1928315610c5757908f9392918493610c1e575b5060028501546020929091610c10575b8115610bfc575b60649060018060a01b035f805160206127408339815191525416956040519687948593631d44e90160e21b8552600485015260248401528160448401525af1918215610bef57908e9392918492610bb7575b5060ff91610b0191612530565b915b5460081c1615610baa575f8051602061274083398151915254604051630f51ccfb60e41b81526004810192909252909160209183916024918391906001600160a01b03165af1908115610b9f578c91610b6d575b50600191610b659190612530565b9201916109c3565b90506020813d8211610b97575b81610b876020938361201e565b8101031261043a57516001610b57565b3d9150610b7a565b6040513d8e823e3d90fd5b600192610b659250612530565b935090506020833d8211610be7575b81610bd36020938361201e565b8101031261043a5791518d92610b01610af4565b3d9150610bc6565b8e604051903d90823e3d90fd5b90506064610c08612377565b919050610aa2565b50610c19612377565b610a9b565b91935091506020813d8211610c4f575b81610c3b6020938361201e565b8101031261043a57518e9290916020610a8b565b3d9150610c2e565b8f604051903d90823e3d90fd5b50610c6d612377565b610a1d565b9050610c7c612377565b90610a16565b9060ff610c8e83612413565b91610b03565b610c9e915061219b565b60ff8d519116105f6109e9565b939891509596610cc5929b959760ff60028d01541661226e565b5f8051602061274083398151915254604051639cd07acb60e01b815260016004820152919a906001600160a01b0316826044818c602094600460248401525af191821561064f578992610e37575b50610d3e91610d2b90610d24612377565b9085612461565b908015610e29575b8115610e1f576125b6565b5f80516020612740833981519152546040516307227b9160e21b8152600481019b909b529099906001600160a01b0316816044818b602094600560248401525af1908115610777578891610dea575b5091610daa610dbd9284610dc39550610da46123c5565b91612461565b908015610ddc575b8115610dcc576125b6565b9461218d565b92909693610879565b9050610dd66123c5565b906125b6565b50610de56123c5565b610db2565b9290506020833d8211610e17575b81610e056020938361201e565b8101031261043a579151610daa610d8d565b3d9150610df8565b9050610dd6612377565b50610e32612377565b610d33565b91506020823d8211610e64575b81610e516020938361201e565b8101031261043a57905190610d2b610d13565b3d9150610e44565b945098929450610dc391955061218d565b610e87915061219b565b60ff8951911610155f6109b0565b9550965094503d948588863e610eab868661201e565b6080858781010312610f535784516020860151956040810151976001600160401b03891161075b57808201601f8a840101121561075b578882015191610ef0836120e1565b99610efe6040519b8c61201e565b838b5260208b0192820160208560051b838501010111610f4f57602081830101925b60208560051b83850101018410610f3f5750505050509495965f61099b565b8351815260209384019301610f20565b8c80fd5b8780fd5b6040513d89823e3d90fd5b610dc391959892945061218d565b604051636ac1190f60e01b81526001600160a01b03888116600483015291925090602090829060249082907f0000000000000000000000000000000000000000000000000000000000000000165afa90811561064f578991611248575b506001600160a01b03168015159190826111af575b508161110c575b81610ff7575b50155f610916565b60405163db89cf5b60e01b815291506020826004817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa91821561064f5789926110c8575b5060405163e140d5d560e01b81526001600160a01b03888116600483015260248201929092529160209183916044918391165afa90811561077757889161108f575b505f610fef565b90506020813d82116110c0575b816110a96020938361201e565b81010312610f53576110ba9061210c565b5f611088565b3d915061109c565b9091506020813d8211611104575b816110e36020938361201e565b8101031261077357516001600160a01b038116810361077357906020611046565b3d91506110d6565b60405163c019779760e01b81526001600160a01b03888116600483015230602483015291925090602090829060449082907f0000000000000000000000000000000000000000000000000000000000000000165afa90811561064f578991611176575b5090610fe9565b90506020813d82116111a7575b816111906020938361201e565b81010312610773576111a19061210c565b5f61116f565b3d9150611183565b604051636b074a0760e01b815260048101919091529091506020816024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa90811561064f57899161120f575b50905f610fe2565b90506020813d8211611240575b816112296020938361201e565b810103126107735761123a9061210c565b5f611207565b3d915061121c565b90506020813d8211611279575b816112626020938361201e565b8101031261077357611273906120f8565b5f610fcd565b3d9150611255565b9095506020813d82116112b4575b8161129c6020938361201e565b81010312610f53576112ad906120f8565b945f6108e9565b3d915061128f565b876005888893886112cd30826124b3565b6112d730836124b3565b60068301556007820155826004820155015460405191825260208201527fe064e50fff8d59b562f0b9a4c17055d1e14c433aba284c7bc1e9e89ff13d7396604060043592a280f35b50828410610882565b90506020813d602011611352575b816113436020938361201e565b8101031261043a57515f610869565b3d9150611336565b6040513d86823e3d90fd5b909450810180821161137857935f61080e565b634e487b7160e01b83526011600452602483fd5b634e487b7160e01b85526011600452602485fd5b63019e4cb160e41b8152600490fd5b503461043a57602036600319011261043a57600435805f52600260205260405f2060038101541561182c57600481015460058201541161181d57815f52600560205260405f20600682019182549263ffffffff5f54168415611809575b5f8051602061274083398151915254604051631391547f60e01b815260048101969096526024860191909152600160f81b6044860152602090859060649082905f906001600160a01b03165af19384156117c6575f946117d1575b50906103ca61149f611488866103ca956114af985081885554610da4612377565b926001860193845560078654910154610da46123c5565b93600281019485555430906124b3565b6114b881612119565b6114c18161221e565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00547f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700549092906001600160a01b0316803b1561043a575f6040518092637d6e912360e11b82526020600483015281838161153f60248201896120ae565b03925af180156117c6576117b1575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025485906001600160a01b0316803b156117ad57816040518092633263b83b60e01b8252876004830152606060248301528183816115b0606482018a6120ae565b63b074565560e01b604483015203925af180156117a25761178d575b508390525f80516020612720833981519152602052604085205461177e578285525f80516020612720833981519152602052604085208151916001600160401b03831161176a57600160401b831161176a578154838355808410611744575b5060200190865260208620865b838110611730575050505061166d7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf005461218d565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0055604051606081018181106001600160401b0382111761171c57916117126020927fdce4f4a5ac2960af069869502368a7dbc8ff235fcf1c3a12b5d082b61cf7e1e094604052868152600284820184815260408301908a8252888b526007875260408b209351845551600184015551151591019060ff801983541691151516179055565b604051908152a380f35b634e487b7160e01b86526041600452602486fd5b600190602084519401938184015501611638565b828852836020892091820191015b81811061175f575061162b565b888155600101611752565b634e487b7160e01b87526041600452602487fd5b633f06d22b60e01b8552600485fd5b816117979161201e565b61078a57845f6115cc565b6040513d84823e3d90fd5b5080fd5b6117be9195505f9061201e565b5f935f61154e565b6040513d5f823e3d90fd5b9350906020843d602011611801575b816117ed6020938361201e565b8101031261043a57925192906103ca611467565b3d91506117e0565b93506020611815612377565b94905061140c565b63c7e9772160e01b5f5260045ffd5b63019e4cb160e41b5f5260045ffd5b3461043a57602036600319011261043a5761186e61185a600435612119565b6040519182916020835260208301906120ae565b0390f35b3461043a57602036600319011261043a576004355f526007602052606060405f2080549060ff600260018301549201541690604051928352602083015215156040820152f35b3461043a575f36600319011261043a57602063ffffffff5f5416604051908152f35b3461043a57606036600319011261043a576004356024356001600160401b03811161043a5761190d903690600401612090565b906044356001600160401b03811161043a5761192d903690600401612090565b815f52600760205260405f20600281019060ff825416611c92576119596119548254612119565b61221e565b600182015403611c8357835f525f8051602061272083398151915260205260405f205415611c7457835f525f8051602061272083398151915260205260405f2092604051808560208297549384815201905f5260205f20925f5b818110611c5b5750506119c89250038561201e565b855193846020019485602011611c4757604001809511611c47576040518088519660208a01978089602085015e820190602082015203602001808252602001611a11908261201e565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703546040516378542ead60e01b815260606004820152936001600160a01b03909116928492839291611a679060648501906120ae565b838103600319016024850152611a7c91612353565b828103600319016044840152611a9191612353565b03815a6020945f91f19081156117c6575f91611c0d575b5015611bfe5760405192847f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a260608680518101031261043a57611aed9061210c565b9060408601519563ffffffff871680970361043a5760600151906001600160401b03821680920361043a577f2e13b9ffcd29af3bfaf1e24f1fb094b62fed986d116f2a387eecd2304c1e0ebf94606094600160ff19825416179055611b5181611fef565b60018152602081019315159384815260408201898152611bae8784019286845285545f526006602052611b9760405f2095511515869060ff801983541691151516179055565b51845461ff00191690151560081b61ff0016178455565b519065ffffffff00006dffffffffffffffff0000000000008454925160301b169260101b16906dffffffffffffffffffffffff0000191617179055549560405192835260208301526040820152a3005b63cf6c44e960e01b5f5260045ffd5b90506020813d602011611c3f575b81611c286020938361201e565b8101031261043a57611c399061210c565b86611aa8565b3d9150611c1b565b634e487b7160e01b5f52601160045260245ffd5b84548352600194850194899450602090930192016119b3565b63d66ca67560e01b5f5260045ffd5b6313b304fb60e21b5f5260045ffd5b63faf8ed4f60e01b5f5260045ffd5b3461043a57602036600319011261043a576004355f52600260205260c060405f2060018060a01b038154169060018101549060ff6002820154166003820154906005600484015493015493604051958652602086015260408501526060840152608083015260a0820152f35b3461043a575f36600319011261043a576020600154604051908152f35b3461043a57602036600319011261043a5760043563ffffffff811680910361043a57604051638da5cb5b60e01b81526020816004817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa9081156117c6575f91611e13575b506001600160a01b03163303611e04578015611df55760407f5c69c57ea78cd5a7c5ae673307cf80b91e540bb093c44053e5e05a17681efd91915f54908063ffffffff198316175f5563ffffffff8351921682526020820152a1005b63aabd5a0960e01b5f5260045ffd5b6330cd747160e01b5f5260045ffd5b90506020813d602011611e45575b81611e2e6020938361201e565b8101031261043a57611e3f906120f8565b82611d99565b3d9150611e21565b3461043a57602036600319011261043a576004355f526006602052608060405f20546001600160401b036040519160ff81161515835260ff8160081c161515602084015263ffffffff8160101c16604084015260301c166060820152f35b3461043a57602036600319011261043a576004355f52600360205260405f20805490611ed6826120e1565b91611ee4604051938461201e565b8083526020830180925f5260205f205f915b838310611f67578486604051918291602083019060208452518091526040830191905f5b818110611f28575050500390f35b91935091602060806001926060875160ff8151168352848101511515858401526040810151604084015201516060820152019401910191849392611f1a565b60036020600192604051611f7a81611fef565b60ff8654818116835260081c1615158382015284860154604082015260028601546060820152815201920192019190611ef6565b3461043a575f36600319011261043a577f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b608081019081106001600160401b0382111761200a57604052565b634e487b7160e01b5f52604160045260245ffd5b90601f801991011681019081106001600160401b0382111761200a57604052565b6001600160401b03811161200a57601f01601f191660200190565b9291926120668261203f565b91612074604051938461201e565b82948184528183011161043a578281602093845f960137010152565b9080601f8301121561043a578160206120ab9335910161205a565b90565b90602080835192838152019201905f5b8181106120cb5750505090565b82518452602093840193909201916001016120be565b6001600160401b03811161200a5760051b60200190565b51906001600160a01b038216820361043a57565b5190811515820361043a57565b5f52600560205260405f209060405161213360808261201e565b6003815260208101926060368537819381549083511561217957526001810154908251600110156121795760029160408401520154908051600210156121795760600152565b634e487b7160e01b5f52603260045260245ffd5b5f198114611c475760010190565b60ff6001199116019060ff8211611c4757565b81601f8201121561043a578051906121c58261203f565b926121d3604051948561201e565b8284526020838301011161043a57815f9260208093018386015e8301015290565b9081602091031261043a575160ff8116810361043a5790565b60ff166002019060ff8211611c4757565b60405161224f8161223b60208201946040865260608301906120ae565b30604083015203601f19810183528261201e565b51902090565b8054821015612179575f52600360205f20910201905f90565b919060ff83169081156122b057506001146122aa575061228d9061219b565b90805160ff8316101561217957611fe060209260051b1601015190565b91505090565b5f80516020612740833981519152546040516307227b9160e21b815260048101929092529094506001600160a01b031692505050816044815f602094600460248401525af19081156117c6575f91612306575090565b90506020813d60201161232d575b816123216020938361201e565b8101031261043a575190565b3d9150612314565b91908110156121795760071b0190565b3560ff8116810361043a5790565b805180835260209291819084018484015e5f828201840152601f01601f1916010190565b5f8051602061274083398151915254604051639cd07acb60e01b81525f6004820152906001600160a01b0316816044815f602094600460248401525af19081156117c6575f91612306575090565b5f8051602061274083398151915254604051639cd07acb60e01b81525f6004820152906001600160a01b0316816044815f602094600560248401525af19081156117c6575f91612306575090565b5f8051602061274083398151915254604051639cd07acb60e01b815260048101929092526001600160a01b0316816044815f6020948160248401525af19081156117c6575f91612306575090565b9060646020925f60018060a01b035f8051602061274083398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af19081156117c6575f91612306575090565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b1561043a57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af180156117c6576125245750565b5f61252e9161201e565b565b9081156125a5575b8015612592575b602090606460018060a01b035f805160206127408339815191525416935f604051958694859363d99882d560e01b8552600485015260248401528160448401525af19081156117c6575f91612306575090565b50602061259e5f612413565b905061253f565b90506125b05f612413565b90612538565b5f805160206127408339815191525460405163022f65e760e31b8152600481019290925260248201929092525f604482018190529091602091839160649183916001600160a01b03165af19081156117c6575f91612306575090565b6126619160209160018060a01b035f805160206127408339815191525416905f60405180968195829463196d0b9b60e01b84526004840152336024840152608060448401526084830190612353565b6004606483015203925af19081156117c6575f916126ed575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b0316803b1561043a57604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af180156117c6576126e3575090565b5f6120ab9161201e565b90506020813d602011612717575b816127086020938361201e565b8101031261043a57515f61267a565b3d91506126fb56fe878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c634300081a000a9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497039e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702";
+
+type CohortStatisticsConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: CohortStatisticsConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class CohortStatistics__factory extends ContractFactory {
+  constructor(...args: CohortStatisticsConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    dao_: AddressLike,
+    vault_: AddressLike,
+    minCohortSize_: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(
+      dao_,
+      vault_,
+      minCohortSize_,
+      overrides || {}
+    );
+  }
+  override deploy(
+    dao_: AddressLike,
+    vault_: AddressLike,
+    minCohortSize_: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(
+      dao_,
+      vault_,
+      minCohortSize_,
+      overrides || {}
+    ) as Promise<
+      CohortStatistics & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): CohortStatistics__factory {
+    return super.connect(runner) as CohortStatistics__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): CohortStatisticsInterface {
+    return new Interface(_abi) as CohortStatisticsInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): CohortStatistics {
+    return new Contract(address, _abi, runner) as unknown as CohortStatistics;
+  }
+}
@@ -0,0 +1,662 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  ConsentRegistry,
+  ConsentRegistryInterface,
+} from "../../contracts/ConsentRegistry";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract PatientDAOFHE",
+        name: "dao_",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "ExpiredSignature",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "currentNonce",
+        type: "uint256",
+      },
+    ],
+    name: "InvalidAccountNonce",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidShortString",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidSignature",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidVersion",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoActiveConsent",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotProposer",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "str",
+        type: "string",
+      },
+    ],
+    name: "StringTooLong",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "VaultAlreadySet",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "version",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "documentHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "uri",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "reconsentRequired",
+        type: "bool",
+      },
+    ],
+    name: "ConsentDocumentPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "patient",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "version",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "documentHash",
+        type: "bytes32",
+      },
+    ],
+    name: "ConsentGiven",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "patient",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "version",
+        type: "uint256",
+      },
+    ],
+    name: "ConsentWithdrawn",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [],
+    name: "EIP712DomainChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "vault",
+        type: "address",
+      },
+    ],
+    name: "RecordVaultSet",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "CONSENT_TYPEHASH",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "consents",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "version",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "givenAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "withdrawnAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "dao",
+    outputs: [
+      {
+        internalType: "contract PatientDAOFHE",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "eip712Domain",
+    outputs: [
+      {
+        internalType: "bytes1",
+        name: "fields",
+        type: "bytes1",
+      },
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "version",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "chainId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "verifyingContract",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "salt",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256[]",
+        name: "extensions",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "patient",
+        type: "address",
+      },
+    ],
+    name: "getConsentedTrials",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "version",
+        type: "uint256",
+      },
+    ],
+    name: "getDocument",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "bytes32",
+            name: "documentHash",
+            type: "bytes32",
+          },
+          {
+            internalType: "string",
+            name: "uri",
+            type: "string",
+          },
+          {
+            internalType: "bool",
+            name: "reconsentRequired",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "publishedAt",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct ConsentRegistry.ConsentDocument",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+    ],
+    name: "getDocuments",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "bytes32",
+            name: "documentHash",
+            type: "bytes32",
+          },
+          {
+            internalType: "string",
+            name: "uri",
+            type: "string",
+          },
+          {
+            internalType: "bool",
+            name: "reconsentRequired",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "publishedAt",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct ConsentRegistry.ConsentDocument[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "patient",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "version",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "signature",
+        type: "bytes",
+      },
+    ],
+    name: "giveConsent",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "patient",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+    ],
+    name: "hasActiveConsent",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+    ],
+    name: "latestVersion",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "minimumVersion",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "nonces",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "documentHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "string",
+        name: "uri",
+        type: "string",
+      },
+      {
+        internalType: "bool",
+        name: "reconsentRequired",
+        type: "bool",
+      },
+    ],
+    name: "publishDocument",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "version",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "recordVault",
+    outputs: [
+      {
+        internalType: "contract PatientRecordVault",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "contract PatientRecordVault",
+        name: "vault",
+        type: "address",
+      },
+    ],
+    name: "setRecordVault",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+    ],
+    name: "withdrawConsent",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x610180806040523461017f5760208161171680380380916100208285610183565b83398101031261017f57516001600160a01b038116810361017f57604051610049604082610183565b6012815260208101907114185d1a595b9d111053c810dbdb9cd95b9d60721b825260405191610079604084610183565b600183526020830191603160f81b8352610092816101ba565b6101205261009f846101ba565b61014052519020918260e05251902080610100524660a0526040519060208201927f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f8452604083015260608201524660808201523060a082015260a0815261010860c082610183565b5190206080523060c052610160526040516114f090816102268239608051816112af015260a0518161136c015260c05181611279015260e051816112fe01526101005181611324015261012051816102f30152610140518161031d0152610160518181816108200152818161091b0152610a330152f35b5f80fd5b601f909101601f19168101906001600160401b038211908210176101a657604052565b634e487b7160e01b5f52604160045260245ffd5b601f8151116101e55760208151910151602082106101d6571790565b5f198260200360031b1b161790565b604460209160405192839163305a27a960e01b83528160048401528051918291826024860152018484015e5f828201840152601f01601f19168101030190fdfe6080806040526004361015610012575f80fd5b5f905f3560e01c9081630f53ce0114610e4a5750806321874b5c14610de457806324ca4472146109d057806338b8248f1461094a5780634162169f146109065780636270b337146107e55780636a86ac38146107ab5780636b082279146104d75780636eb3b4e9146103e25780637ecebe00146103a957806384b0196e146102d65780638698f614146102ad578063c0037b3c146101a7578063c98018261461017d578063d1c2ae00146101535763e140d5d5146100ce575f80fd5b34610150576040366003190112610150576020906100ea610f3c565b6024359081835260068452604083209060018060a01b03165f52835260405f20918254918215159384610143575b508361012c575b5050506040519015158152f35b6040929350815260058452205411155f808061011f565b600201541593505f610118565b80fd5b50346101505760203660031901126101505760406020916004358152600583522054604051908152f35b50346101505760203660031901126101505760406020916004358152600483522054604051908152f35b5034610150576020366003190112610150576004359081815260066020526040812060018060a01b0333165f5260205260405f20918254801580156102a0575b610291578293600242910155604051908152817fb4f91b300f1987534afcefd280cc359f77e224fc2cb1eab0b047d7e4db95fb8f60203393a36003546001600160a01b031680610235575050f35b803b1561028d576040516331c93f2b60e21b8152336004820152602481019290925282908290604490829084905af18015610282576102715750f35b8161027b91610fcd565b6101505780f35b6040513d84823e3d90fd5b5050fd5b63c92f1a7d60e01b8352600483fd5b50600284015415156101e7565b50346101505780600319360112610150576003546040516001600160a01b039091168152602090f35b5034610150578060031936011261015057610378906103a56103177f0000000000000000000000000000000000000000000000000000000000000000611423565b916103417f0000000000000000000000000000000000000000000000000000000000000000611423565b61038660405191610353602084610fcd565b8383525f368137604051968796600f60f81b885260e0602089015260e0880190610ee2565b908682036040880152610ee2565b9146606086015230608086015260a085015283820360c0850152610f7f565b0390f35b5034610150576020366003190112610150576020906040906001600160a01b036103d1610f3c565b168152600283522054604051908152f35b503461015057602036600319011261015057600435815260046020526040812080546001600160401b0381116104c35760208160051b01906104276040519283610fcd565b80825260208201809385526020852085915b8383106104a557868587604051928392602084019060208552518091526040840160408260051b8601019392905b82821061047657505050500390f35b919360019193955060206104958192603f198a82030186528851610f06565b9601920192018594939192610467565b600460206001926104b585611053565b815201920192019190610439565b634e487b7160e01b83526041600452602483fd5b50346107285760a0366003190112610728576104f1610f3c565b602435906044356064356084356001600160401b0381116107285761051a903690600401610f52565b82421161079c5783158015610787575b8015610772575b61076357855f52600460205260405f20905f19850185811161074f5761055d61060b9161061294610fee565b505493604260018060a01b03891696875f52600260205260405f20908154916001830190556040519060208201927fd3b2948faa664c5f0e84fc72b317e633ffe619da20bb2acccdbafb0af0fcebfb84528a60408401528d60608401528b60808401528960a084015260c083015260e082015260e081526105e061010082610fcd565b5190206105eb611276565b906040519161190160f01b8352600283015260228201522092369161119c565b90866111d2565b1561074057604051606081018181106001600160401b0382111761072c5786927f96cbb4b5e7037ca13383e53e45406d3f2baa58d4909ef5813aeb60ccc6bb87e092602092604052868152600283820142815260408301905f8252875f526006865260405f20895f52865260405f209351845551600184015551910155845f52600782526106a38460405f206113cc565b50604051908152a46003546001600160a01b031691826106c1578380f35b823b1561072857604051631515accd60e31b81526001600160a01b039290921660048301526024820152905f908290604490829084905af1801561071d5761070a575b80808380f35b61071691505f90610fcd565b5f80610704565b6040513d5f823e3d90fd5b5f80fd5b634e487b7160e01b5f52604160045260245ffd5b638baa579f60e01b5f5260045ffd5b634e487b7160e01b5f52601160045260245ffd5b63a9146eeb60e01b5f5260045ffd5b50855f52600560205260405f20548410610531565b50855f52600460205260405f2054841161052a565b63df4cc36d60e01b5f5260045ffd5b34610728575f3660031901126107285760206040517fd3b2948faa664c5f0e84fc72b317e633ffe619da20bb2acccdbafb0af0fcebfb8152f35b34610728576020366003190112610728576004356001600160a01b0381169081900361072857604051638da5cb5b60e01b81526020816004817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa90811561071d575f916108cc575b506001600160a01b031633036108bd576003546001600160a01b0381166108ae576001600160a01b03191681176003557f2ff27c605990fa47042e466eb7707e0400cc039ae1842718c282110fdbcacadb5f80a2005b631bb0ddfb60e01b5f5260045ffd5b6330cd747160e01b5f5260045ffd5b90506020813d6020116108fe575b816108e760209383610fcd565b81010312610728576108f890611127565b82610858565b3d91506108da565b34610728575f366003190112610728576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b34610728576020366003190112610728576001600160a01b0361096b610f3c565b165f52600760205260405f206040519081602082549182815201915f5260205f20905f5b8181106109ba576103a5856109a681870382610fcd565b604051918291602083526020830190610f7f565b825484526020909301926001928301920161098f565b34610728576080366003190112610728576004356024356044356001600160401b03811161072857610a06903690600401610f52565b9260643591821593841595868503610728576040516318feeb1560e31b8152600481018590525f816024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa90811561071d575f91610cf6575b50602001516001600160a01b03163303610ce757835f52600460205260405f2096604051610a9881610fb2565b838152610aa636848761119c565b9860208201998a526040820183815260608301914283528054600160401b81101561072c57610ada91600182018155610fee565b939093610cd457518355600183019a519a8b516001600160401b03811161072c57601f9c610b08835461101b565b9d8e11610c8e575b60209d508d90601f8311600114610bff5792827f84246c08a560c0b6d5fcb7d13ab52563944aa62694e4fc15a76c57a95ab699749b9a98969360809a9896936003965f92610bf4575b50508160011b915f1990871b1c19161790555b600284019051151560ff8019835416911617905551910155865f5260048a5260405f205498899890610bea575b610bd8575b81604051958694855260608c860152816060860152858501375f8383018501526040830152601f01601f19168101030190a3604051908152f35b865f5260058a528760405f2055610b9e565b5060018814610b99565b015190505f80610b59565b90601f19831691845f52815f20925f5b818110610c7657509360809a989693600396936001937f84246c08a560c0b6d5fcb7d13ab52563944aa62694e4fc15a76c57a95ab699749f9e9c9a978411610c5f575b505050811b019055610b6c565b01515f1983891b60f8161c191690555f8080610c52565b92936020600181928786015181550195019301610c0f565b825f5260205f20601f830160051c81019e60208410610cca575b601f0160051c019d8e5b8110610cbe5750610b10565b5f81556001018e610cb2565b909e508e90610ca8565b634e487b7160e01b5f525f60045260245ffd5b637d1b73b960e01b5f5260045ffd5b90503d805f833e610d078183610fcd565b810190602081830312610728578051906001600160401b038211610728570161010081830312610728576040519161010083018381106001600160401b0382111761072c5760405281518352610d5f60208301611127565b602084015260408201516001600160401b0381116107285781610d83918401611156565b60408401526060820151906001600160401b03821161072857610da7918301611156565b60608301526080810151608083015260a08101519060068210156107285760e09160a084015260c081015160c0840152015160e082015288610a6b565b34610728576040366003190112610728576024356001600160a01b0381168103610728576004355f52600660205260405f209060018060a01b03165f52602052606060405f20805490600260018201549101549060405192835260208301526040820152f35b34610728576040366003190112610728576004355f606060243593610e6e81610fb2565b828152816020820152826040820152015281158015610ecd575b610763575f52600460205260405f20905f19810190811161074f57610eb3610eb9916103a593610fee565b50611053565b604051918291602083526020830190610f06565b50805f52600460205260405f20548211610e88565b805180835260209291819084018484015e5f828201840152601f01601f1916010190565b9081518152606080610f276020850151608060208601526080850190610ee2565b93604081015115156040850152015191015290565b600435906001600160a01b038216820361072857565b9181601f84011215610728578235916001600160401b038311610728576020838186019501011161072857565b90602080835192838152019201905f5b818110610f9c5750505090565b8251845260209384019390920191600101610f8f565b608081019081106001600160401b0382111761072c57604052565b90601f801991011681019081106001600160401b0382111761072c57604052565b8054821015611007575f5260205f209060021b01905f90565b634e487b7160e01b5f52603260045260245ffd5b90600182811c92168015611049575b602083101461103557565b634e487b7160e01b5f52602260045260245ffd5b91607f169161102a565b9060405161106081610fb2565b80928054825260018101604051905f9080549061107c8261101b565b808552916001811690811561110057506001146110c3575b505091816110a86003936060950382610fcd565b602085015260ff600282015416151560408501520154910152565b5f908152602081209092505b8183106110e65750508101602001816110a8611094565b6001816020929493945483858801015201910191906110cf565b60ff191660208087019190915292151560051b850190920192508391506110a89050611094565b51906001600160a01b038216820361072857565b6001600160401b03811161072c57601f01601f191660200190565b81601f820112156107285780519061116d8261113b565b9261117b6040519485610fcd565b8284526020838301011161072857815f9260208093018386015e8301015290565b9291926111a88261113b565b916111b66040519384610fcd565b829481845281830111610728578281602093845f960137010152565b9190823b61122157906111e491611392565b50600481101561120d571591826111fa57505090565b6001600160a01b03918216911614919050565b634e487b7160e01b5f52602160045260245ffd5b916020926064835f94519060405193630b135d3f60e11b855260048501526040602485015286820190604485015e8281018201859052601f01601f191601915afa630b135d3f60e11b5f5114601f3d11161690565b307f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03161480611369575b156112d1577f000000000000000000000000000000000000000000000000000000000000000090565b60405160208101907f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f82527f000000000000000000000000000000000000000000000000000000000000000060408201527f000000000000000000000000000000000000000000000000000000000000000060608201524660808201523060a082015260a0815261136360c082610fcd565b51902090565b507f000000000000000000000000000000000000000000000000000000000000000046146112a8565b81519190604183036113c2576113bb9250602082015190606060408401519301515f1a90611461565b9192909190565b50505f9160029190565b6001810190825f528160205260405f2054155f1461141c578054600160401b81101561072c5760018101808355811015611007578390825f5260205f20015554915f5260205260405f2055600190565b5050505f90565b60ff811690601f8211611452576040519161143f604084610fcd565b6020808452838101919036833783525290565b632cd44ac360e21b5f5260045ffd5b91907f7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a084116114d8579160209360809260ff5f9560405194855216868401526040830152606082015282805260015afa1561071d575f516001600160a01b038116156114ce57905f905f90565b505f906001905f90565b5050505f916003919056fea164736f6c634300081a000a";
+
+type ConsentRegistryConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ConsentRegistryConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ConsentRegistry__factory extends ContractFactory {
+  constructor(...args: ConsentRegistryConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    dao_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(dao_, overrides || {});
+  }
+  override deploy(
+    dao_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(dao_, overrides || {}) as Promise<
+      ConsentRegistry & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): ConsentRegistry__factory {
+    return super.connect(runner) as ConsentRegistry__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ConsentRegistryInterface {
+    return new Interface(_abi) as ConsentRegistryInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ConsentRegistry {
+    return new Contract(address, _abi, runner) as unknown as ConsentRegistry;
+  }
+}
@@ -0,0 +1,572 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  ParticipationRewards,
+  ParticipationRewardsInterface,
+} from "../../contracts/ParticipationRewards";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract PatientDAOFHE",
+        name: "dao_",
+        type: "address",
+      },
+      {
+        internalType: "contract PatientRecordVault",
+        name: "vault_",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "ConsentRequired",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidReceiver",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoReward",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotEnrolled",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotParticipant",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotProposer",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TrialNotApproved",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "patient",
+        type: "address",
+      },
+    ],
+    name: "ParticipantEnrolled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "funder",
+        type: "address",
+      },
+    ],
+    name: "PoolFunded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "patient",
+        type: "address",
+      },
+    ],
+    name: "RewardClaimed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+    ],
+    name: "RewardPerPatientSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+    ],
+    name: "Transfer",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+    ],
+    name: "claimReward",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "confidentialBalanceOf",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "confidentialTotalSupply",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "confidentialTransfer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "dao",
+    outputs: [
+      {
+        internalType: "contract PatientDAOFHE",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        internalType: "address[]",
+        name: "patients",
+        type: "address[]",
+      },
+    ],
+    name: "enrollParticipants",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "fundPool",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "hasClaimed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isEnrolled",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "mint",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "patient",
+        type: "address",
+      },
+    ],
+    name: "owedOf",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+    ],
+    name: "poolOf",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+    ],
+    name: "rewardPerPatient",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedReward",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "setRewardPerPatient",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "vault",
+    outputs: [
+      {
+        internalType: "contract PatientRecordVault",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60c06040523461025657604051601f61187338819003918201601f19168301916001600160401b0383118484101761025a578084926040948552833981010312610256578051906001600160a01b03821682036102565760200151906001600160a01b0382168203610256575f606061007661026e565b8281528260208201528260408201520152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac60606100a661026e565b7350157cffd6bbfa2dece204a89ec419c23ef5755d815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69602082015273a02cda4ca3a71d7c46997716f4283aa851c28812604082015201527350157cffd6bbfa2dece204a89ec419c23ef5755d60018060a01b03197f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416177f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005573cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6960018060a01b03195f805160206118338339815191525416175f805160206118338339815191525573a02cda4ca3a71d7c46997716f4283aa851c2881260018060a01b03195f805160206118538339815191525416175f8051602061185383398151915255731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac60018060a01b03195f805160206118138339815191525416175f805160206118138339815191525560805260a052604051611585908161028e823960805181818161033b0152818161065901528181610b180152611247015260a05181818160ff015281816104a601526109480152f35b5f80fd5b634e487b7160e01b5f52604160045260245ffd5b60405190608082016001600160401b0381118382101761025a5760405256fe60806040526004361015610011575f80fd5b5f3560e01c806306fdde0314610c455780632821eba614610c015780632fb74e6214610b9e578063313ce56714610b83578063344ff10114610b475780634162169f14610b035780635409522714610ae75780638396602114610abd578063873f6f9e14610a745780638ebac160146108d057806395d89b4114610887578063ae169a501461046b578063b6483bab14610311578063c9768315146102c8578063ca5dcd5e1461020f578063da1f12ab146101f3578063ddeb007a146101c9578063ed0e4466146101325763fbfa77cf146100ea575f80fd5b3461012e575f36600319011261012e576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b5f80fd5b3461012e5761014036610db7565b916001600160a01b036020610154866111ec565b01511633036101ba5761016f61017592610194943691610dea565b90610f93565b825f5260036020528060405f205561018d30826114dd565b33906114dd565b7f88c553947f20341b1c03a1f2ce1bf4c044210db9693b5049056d83289541d0cd5f80a2005b637d1b73b960e01b5f5260045ffd5b3461012e57602036600319011261012e576004355f526003602052602060405f2054604051908152f35b3461012e575f36600319011261012e5760206040516127118152f35b3461012e5761016f61029a61023e61024461022936610db7565b94929690610236886111ec565b953691610dea565b336110a3565b5f84815260026020526040902054156102c25761026d90845f52600260205260405f2054611459565b905b835f5260026020528160405f205561028730836114dd565b602001516001600160a01b0316906114dd565b33907f32ea49dc25a72e02e9085623b18d62632c27fb4985ff9443bc2dd425b724fafa5f80a3005b9061026f565b3461012e57604036600319011261012e576102e1610d2c565b6004355f52600460205260405f209060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b3461012e5761031f36610d70565b604051638da5cb5b60e01b8152929390929091906020816004817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa908115610460575f91610426575b506001600160a01b03163303610417576001600160a01b0382169384156104085761016f6103a6926103cd953691610dea565b5f54909190156103f4576103c86103be835f54611459565b805f5530906114dd565b6111a1565b5f7f4853ae1b4d437c4255ac16cd3ceda3465975023f27cb141584cd9d44440fed828180a3005b6103c86103be83610403611382565b611459565b631e4ec46b60e01b5f5260045ffd5b6330cd747160e01b5f5260045ffd5b90506020813d602011610458575b8161044160209383610cca565b8101031261012e5761045290610e70565b85610373565b3d9150610434565b6040513d5f823e3d90fd5b3461012e57602036600319011261012e5760405163c6530e4160e01b8152336004808301919091523560248201819052906001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001690602081604481855afa908115610460575f91610868575b5015610859575f82815260046020908152604080832033845290915290205460ff161561084a5760206004916040519283809263db89cf5b60e01b82525afa908115610460575f91610808575b5060405163e140d5d560e01b81523360048201526024810183905290602090829060449082906001600160a01b03165afa908115610460575f916107d9575b50156107ca575f81815260056020908152604080832033845290915290205460ff1615610765575f8181526006602090815260408083203384529091529020545b815f52600260205260405f20546105c281836112cf565b9060206105cd611382565b606460018060a01b035f805160206115598339815191525416945f6040519687948593637702dcff60e01b8552600485015289602485015260448401525af1918215610460575f9261072f575b5081610625916113d5565b835f5260026020528060405f205561063d30826114dd565b6040516318feeb1560e31b815260048101859052905f826024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa8015610460576106e5946106b56106ba9386936106df965f9161070d575b50602001516001600160a01b0316906114dd565b6113d5565b5f858152600660209081526040808320338452909152902081905561018d30826114dd565b336111a1565b33907f5dd59f4285b36241394b73f8f7ae03d0290b030a86803cf2562ecf33eeb617bd5f80a3005b61072991503d805f833e6107218183610cca565b810190610eca565b8a6106a1565b9091506020813d60201161075d575b8161074b60209383610cca565b8101031261012e57519061062561061a565b3d915061073e565b805f52600360205260405f2054801580156107b6575b6107a7575f8281526005602090815260408083203384529091529020805460ff191660011790556105ab565b63374c934360e11b5f5260045ffd5b50815f52600260205260405f20541561077b565b637cbd800360e11b5f5260045ffd5b6107fb915060203d602011610801575b6107f38183610cca565b810190610e58565b8261056a565b503d6107e9565b90506020813d602011610842575b8161082360209383610cca565b8101031261012e57516001600160a01b038116810361012e578261052b565b3d9150610816565b6364a85fc960e11b5f5260045ffd5b63721c7c6760e11b5f5260045ffd5b610881915060203d602011610801576107f38183610cca565b836104de565b3461012e575f36600319011261012e576108cc6040516108a8604082610cca565b600381526228222960e91b6020820152604051918291602083526020830190610d08565b0390f35b3461012e57604036600319011261012e5760043560243567ffffffffffffffff811161012e573660238201121561012e5780600401359167ffffffffffffffff831161012e576024820191602436918560051b01011161012e576001600160a01b03602061093d836111ec565b01511633036101ba577f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316915f5b84811061097c57005b6109c6602084610995610990858a88610e20565b610e44565b60405163c6530e4160e01b81526001600160a01b039091166004820152602481019190915291829081906044820190565b0381885afa908115610460575f91610a56575b501561085957600190835f52600460205260405f206109fc610990838987610e20565b838060a01b03165f5260205260405f208260ff19825416179055818060a01b03610a2a610990838987610e20565b16847f6f812a12f3319e632640377cef54919b5ed524af2fcdf1ceb4db62b14cd2694c5f80a301610973565b610a6e915060203d8111610801576107f38183610cca565b866109d9565b3461012e57604036600319011261012e57610a8d610d2c565b6004355f52600560205260405f209060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b3461012e57602036600319011261012e576004355f526002602052602060405f2054604051908152f35b3461012e575f36600319011261012e5760205f54604051908152f35b3461012e575f36600319011261012e576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b3461012e57602036600319011261012e576004356001600160a01b0381169081900361012e575f526001602052602060405f2054604051908152f35b3461012e575f36600319011261012e57602060405160068152f35b3461012e57610bac36610d70565b6001600160a01b0384169391841561040857610bda9361016f61023e92610bd4943691610dea565b906111a1565b337f4853ae1b4d437c4255ac16cd3ceda3465975023f27cb141584cd9d44440fed825f80a3005b3461012e57604036600319011261012e57610c1a610d2c565b6004355f52600660205260405f209060018060a01b03165f52602052602060405f2054604051908152f35b3461012e575f36600319011261012e576108cc604051610c66604082610cca565b601281527114185d1a595b9d08111053c814995dd85c9960721b6020820152604051918291602083526020830190610d08565b610100810190811067ffffffffffffffff821117610cb657604052565b634e487b7160e01b5f52604160045260245ffd5b90601f8019910116810190811067ffffffffffffffff821117610cb657604052565b67ffffffffffffffff8111610cb657601f01601f191660200190565b805180835260209291819084018484015e5f828201840152601f01601f1916010190565b602435906001600160a01b038216820361012e57565b9181601f8401121561012e5782359167ffffffffffffffff831161012e576020838186019501011161012e57565b606060031982011261012e576004356001600160a01b038116810361012e5791602435916044359067ffffffffffffffff821161012e57610db391600401610d42565b9091565b606060031982011261012e5760043591602435916044359067ffffffffffffffff821161012e57610db391600401610d42565b929192610df682610cec565b91610e046040519384610cca565b82948184528183011161012e578281602093845f960137010152565b9190811015610e305760051b0190565b634e487b7160e01b5f52603260045260245ffd5b356001600160a01b038116810361012e5790565b9081602091031261012e5751801515810361012e5790565b51906001600160a01b038216820361012e57565b81601f8201121561012e57805190610e9b82610cec565b92610ea96040519485610cca565b8284526020838301011161012e57815f9260208093018386015e8301015290565b60208183031261012e5780519067ffffffffffffffff821161012e57016101008183031261012e5760405191610eff83610c99565b81518352610f0f60208301610e70565b6020840152604082015167ffffffffffffffff811161012e5781610f34918401610e84565b604084015260608201519067ffffffffffffffff821161012e57610f59918301610e84565b60608301526080810151608083015260a081015190600682101561012e5760e09160a084015260c081015160c0840152015160e082015290565b610fe29160209160018060a01b035f805160206115598339815191525416905f60405180968195829463196d0b9b60e01b84526004840152336024840152608060448401526084830190610d08565b6005606483015203925af1908115610460575f91611071575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b0316803b1561012e57604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af1801561046057611064575090565b5f61106e91610cca565b90565b90506020813d60201161109b575b8161108c60209383610cca565b8101031261012e57515f610ffb565b3d915061107f565b6001600160a01b0381165f81815260016020526040902054939291908415611191575b60206110d286856112cf565b9360646110dd611382565b5f8051602061155983398151915254604051637702dcff60e01b8152600481019890985260248801939093526044870152859182905f906001600160a01b03165af1928315610460575f9361115b575b5061113c8361115994966113d5565b905f5260016020528060405f205561115430826114dd565b6114dd565b565b92506020833d602011611189575b8161117660209383610cca565b8101031261012e5791519161113c61112d565b3d9150611169565b935061119b611382565b936110c6565b6001600160a01b0381165f81815260016020526040902054611159939080156111e5579061113c91611459565b5f5260016020528060405f205561115430826114dd565b50906111ce565b905f60e06040516111fc81610c99565b828152826020820152606060408201526060808201528260808201528260a08201528260c08201520152604051916318feeb1560e31b835260048301525f8260248160018060a01b037f0000000000000000000000000000000000000000000000000000000000000000165afa918215610460575f926112b3575b5060a0820151600681101561129f576002190161129057565b6325869c2160e01b5f5260045ffd5b634e487b7160e01b5f52602160045260245ffd5b6112c89192503d805f833e6107218183610cca565b905f611277565b908115611372575b8015611360575b602090606460018060a01b035f805160206115598339815191525416935f6040519586948593631d44e90160e21b8552600485015260248401528160448401525af1908115610460575f91611331575090565b90506020813d602011611358575b8161134c60209383610cca565b8101031261012e575190565b3d915061133f565b50602061136b611382565b90506112de565b905061137c611382565b906112d7565b5f8051602061155983398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af1908115610460575f91611331575090565b908115611449575b8015611437575b602090606460018060a01b035f805160206115598339815191525416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af1908115610460575f91611331575090565b506020611442611382565b90506113e4565b9050611453611382565b906113dd565b9081156114cd575b80156114bb575b602090606460018060a01b035f805160206115598339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115610460575f91611331575090565b5060206114c6611382565b9050611468565b90506114d7611382565b90611461565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b1561012e57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af180156104605761154e5750565b5f61115991610cca56fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c634300081a000a9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497039e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702";
+
+type ParticipationRewardsConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ParticipationRewardsConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ParticipationRewards__factory extends ContractFactory {
+  constructor(...args: ParticipationRewardsConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    dao_: AddressLike,
+    vault_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(dao_, vault_, overrides || {});
+  }
+  override deploy(
+    dao_: AddressLike,
+    vault_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(dao_, vault_, overrides || {}) as Promise<
+      ParticipationRewards & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): ParticipationRewards__factory {
+    return super.connect(runner) as ParticipationRewards__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ParticipationRewardsInterface {
+    return new Interface(_abi) as ParticipationRewardsInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ParticipationRewards {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as ParticipationRewards;
+  }
+}
@@ -0,0 +1,554 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  PatientMembershipToken,
+  PatientMembershipTokenInterface,
+} from "../../contracts/PatientMembershipToken";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "dao_",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "timepoint",
+        type: "uint256",
+      },
+      {
+        internalType: "uint48",
+        name: "clock",
+        type: "uint48",
+      },
+    ],
+    name: "FutureLookup",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotHolder",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotPendingOwner",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+    ],
+    name: "Burned",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "delegator",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "fromDelegate",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "toDelegate",
+        type: "address",
+      },
+    ],
+    name: "DelegateChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "delegate",
+        type: "address",
+      },
+    ],
+    name: "DelegateVotesChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+    ],
+    name: "Minted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "CLOCK_MODE",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "acceptOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "burn",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "clock",
+    outputs: [
+      {
+        internalType: "uint48",
+        name: "",
+        type: "uint48",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "confidentialBalanceOf",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "confidentialTotalSupply",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "dao",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "delegatee",
+        type: "address",
+      },
+    ],
+    name: "delegate",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "delegates",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "timepoint",
+        type: "uint256",
+      },
+    ],
+    name: "getPastVotes",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "getVotes",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isHolder",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "mint",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "numCheckpoints",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pendingOwner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a06040523461022857604051601f61158538819003918201601f19168301916001600160401b0383118484101761022c5780849260209460405283398101031261022857516001600160a01b0381168103610228575f6060610060610240565b8281528260208201528260408201520152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac6060610090610240565b7350157cffd6bbfa2dece204a89ec419c23ef5755d815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69602082015273a02cda4ca3a71d7c46997716f4283aa851c28812604082015201527350157cffd6bbfa2dece204a89ec419c23ef5755d60018060a01b03197f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416177f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005573cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6960018060a01b03195f805160206115458339815191525416175f805160206115458339815191525573a02cda4ca3a71d7c46997716f4283aa851c2881260018060a01b03195f805160206115658339815191525416175f8051602061156583398151915255731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac60018060a01b03195f805160206115258339815191525416175f80516020611525833981519152553360018060a01b03195f5416175f556080526040516112c5908161026082396080518181816109b501526110bf0152f35b5f80fd5b634e487b7160e01b5f52604160045260245ffd5b60405190608082016001600160401b0381118382101761022c5760405256fe60806040526004361015610011575f80fd5b5f3560e01c806306fdde0314610b3a578063313ce56714610b20578063344ff10114610ae85780633a46b1a8146109e45780634162169f146109a05780634bf5d7e9146109505780635409522714610933578063587cde1e146108f35780635c19a95c1461082c5780636fcfff45146107f457806379ba5097146107785780638da5cb5b1461075157806391ddadf41461072f57806395d89b41146106e65780639ab24eb0146106bb578063b6483bab14610443578063d4d7b19a14610406578063d747d608146101ca578063da1f12ab146101ae578063e30c3978146101865763f2fde38b14610100575f80fd5b3461018257602036600319011261018257610119610bec565b5f546001600160a01b0316903382900361017357600180546001600160a01b0319166001600160a01b03929092169182179055907f38d16b8cac22d99fc7c124b9cd0de2d3fa1faef420bfe791d8c362d765e227005f80a3005b6330cd747160e01b5f5260045ffd5b5f80fd5b34610182575f366003190112610182576001546040516001600160a01b039091168152602090f35b34610182575f3660031901126101825760206040516127118152f35b34610182576101d836610c02565b5f54909392906001600160a01b03163303610173576001600160a01b0383165f8181526002602052604090205490949060ff16156103f7576102259261021f913691610cd9565b90610dc0565b5f83815260056020526040902054818181156103e7575b80156103d5575b602090606460018060a01b035f805160206112998339815191525416955f6040519788948593631d44e90160e21b8552600485015260248401528160448401525af1928315610395575f936103a0575b5060209060646102a1610f83565b5f8051602061129983398151915254604051637702dcff60e01b8152600481019790975260248701939093526044860152849182905f906001600160a01b03165af1918215610395575f9261035f575b50610339926103178361031d9361031261030d83600454611025565b610fd5565b611025565b90610ff8565b5f838152600360205260409020546001600160a01b0316610d4f565b7f083a2bd76492cfa12383a9b3d6b1b20c7e382a0c0ec4f29da7016fe37203e9c85f80a2005b9091506020813d60201161038d575b8161037b60209383610b92565b810103126101825751906103396102f1565b3d915061036e565b6040513d5f823e3d90fd5b9092506020813d6020116103cd575b816103bc60209383610b92565b810103126101825751916020610293565b3d91506103af565b5060206103e0610f83565b9050610243565b92506103f1610f83565b9261023c565b633b11fda960e11b5f5260045ffd5b34610182576020366003190112610182576001600160a01b03610427610bec565b165f526002602052602060ff60405f2054166040519015158152f35b346101825761045136610c02565b5f549192916001600160a01b03163303610173576104749261021f913691610cd9565b61048081600454610ed0565b9060045482156106ab575b8015610699575b602090606460018060a01b035f805160206112998339815191525416945f6040519687948593631391547f60e01b8552600485015260248401528160448401525af1918215610395575f92610664575b5060209060646104f0610f83565b5f8051602061129983398151915254604051637702dcff60e01b8152600481019690965260248601939093526044850152839182905f906001600160a01b03165af18015610395575f90610630575b6105ac915061055361030d82600454610ed0565b6001600160a01b0383165f8181526002602052604090205490936105909160ff16156105d2575b845f5260056020526103178360405f2054610ed0565b5f838152600360205260409020546001600160a01b0316610d1f565b7f90ddedd5a25821bba11fbb98de02ec1f75c1be90ae147d6450ce873e7b78b5d85f80a2005b5f858152600260209081526040808320805460ff191660011790556003909152812080546001600160a01b031916871790558590817f3134e8a2e6d97e929a7e54011ea5485d7d196dd5f0ba4d4ef95803e8e3fc257f8280a461057a565b506020813d60201161065c575b8161064a60209383610b92565b81010312610182576105ac905161053f565b3d915061063d565b9091506020813d602011610691575b8161068060209383610b92565b8101031261018257519060206104e2565b3d9150610673565b5060206106a4610f83565b9050610492565b91506106b5610f83565b9161048b565b346101825760203660031901126101825760206106de6106d9610bec565b610c98565b604051908152f35b34610182575f3660031901126101825761072b604051610707604082610b92565b600381526250444d60e81b6020820152604051918291602083526020830190610bc8565b0390f35b34610182575f36600319011261018257602060405165ffffffffffff42168152f35b34610182575f366003190112610182575f546040516001600160a01b039091168152602090f35b34610182575f366003190112610182576001546001600160a01b03811633036107e5575f80546001600160a01b031980821633908117845593166001556001600160a01b0316907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09080a3005b630614e5c760e21b5f5260045ffd5b34610182576020366003190112610182576001600160a01b03610815610bec565b165f526006602052602060405f2054604051908152f35b3461018257602036600319011261018257610845610bec565b335f52600260205260ff60405f2054161580156108d1575b6103f757335f81815260036020526040812080546001600160a01b038581166001600160a01b0319831681179093556108cf9591169390928491907f3134e8a2e6d97e929a7e54011ea5485d7d196dd5f0ba4d4ef95803e8e3fc257f9080a4335f52600560205260405f205491610d6e565b005b506001600160a01b0381165f9081526002602052604090205460ff161561085d565b34610182576020366003190112610182576001600160a01b03610914610bec565b165f526003602052602060018060a01b0360405f205416604051908152f35b34610182575f366003190112610182576020600454604051908152f35b34610182575f3660031901126101825761072b604051610971604082610b92565b600e81526d06d6f64653d74696d657374616d760941b6020820152604051918291602083526020830190610bc8565b34610182575f366003190112610182576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b34610182576040366003190112610182576109fd610bec565b6024359065ffffffffffff421680831015610ad2575060018060a01b03165f52600660205260405f20905f8254915b828210610a7c57505080610a4757505060205f604051908152f35b5f198101908111610a6857610a60600191602093610c6b565b5001546106de565b634e487b7160e01b5f52601160045260245ffd5b9091808301808411610a685760011c908265ffffffffffff610a9e8488610c6b565b5054161115610ab05750915b90610a2c565b92506001810180911115610aaa57634e487b7160e01b5f52601160045260245ffd5b8263895c4c5160e01b5f5260045260245260445ffd5b34610182576020366003190112610182576001600160a01b03610b09610bec565b165f526005602052602060405f2054604051908152f35b34610182575f3660031901126101825760206040515f8152f35b34610182575f3660031901126101825761072b604051610b5b604082610b92565b6016815275050617469656e742044414f204d656d626572736869760541b6020820152604051918291602083526020830190610bc8565b90601f8019910116810190811067ffffffffffffffff821117610bb457604052565b634e487b7160e01b5f52604160045260245ffd5b805180835260209291819084018484015e5f828201840152601f01601f1916010190565b600435906001600160a01b038216820361018257565b906060600319830112610182576004356001600160a01b038116810361018257916024359160443567ffffffffffffffff811161018257826023820112156101825780600401359267ffffffffffffffff84116101825760248483010111610182576024019190565b8054821015610c84575f5260205f209060011b01905f90565b634e487b7160e01b5f52603260045260245ffd5b6001600160a01b03165f90815260066020526040902080549081610cbc5750505f90565b5f198201918211610a6857600191610cd391610c6b565b50015490565b92919267ffffffffffffffff8211610bb45760405191610d03601f8201601f191660200184610b92565b829481845281830111610182578281602093845f960137010152565b6001600160a01b03811615610d4b57610d43610d4992610d3e83610c98565b610ed0565b906110a9565b565b5050565b6001600160a01b03811615610d4b57610d43610d499261031283610c98565b6001600160a01b0382811691908116808314610db957610da2575b50610d92575050565b610d43610d4992610d3e83610c98565b80610d4385610312610db394610c98565b5f610d89565b5050505050565b610e0f9160209160018060a01b035f805160206112998339815191525416905f60405180968195829463196d0b9b60e01b84526004840152336024840152608060448401526084830190610bc8565b6004606483015203925af1908115610395575f91610e9e575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b0316803b1561018257604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af1801561039557610e91575090565b5f610e9b91610b92565b90565b90506020813d602011610ec8575b81610eb960209383610b92565b8101031261018257515f610e28565b3d9150610eac565b908115610f73575b8015610f61575b602090606460018060a01b035f805160206112998339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115610395575f91610f32575090565b90506020813d602011610f59575b81610f4d60209383610b92565b81010312610182575190565b3d9150610f40565b506020610f6c610f83565b9050610edf565b9050610f7d610f83565b90610ed8565b5f8051602061129983398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115610395575f91610f32575090565b610d499080600455610fe7308261121d565b5f546001600160a01b03169061121d565b6001600160a01b0381165f908152600560205260409020829055610d4991611020308261121d565b61121d565b908115611099575b8015611087575b602090606460018060a01b035f805160206112998339815191525416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af1908115610395575f91610f32575090565b506020611092610f83565b9050611034565b90506110a3610f83565b9061102d565b6110b3308361121d565b6110bd818361121d565b7f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03811661120d575b5060018060a01b031690815f52600660205260405f2065ffffffffffff4216908054801515806111e6575b15611162575080545f19810192508211610a685760019161113891610c6b565b5001555b7f9197331f6911edbc75b9a4583a4ffbfd73b5e135ad64d98da351e4732653d1f85f80a2565b604051926040840184811067ffffffffffffffff821117610bb45760405283526020830193845268010000000000000000811015610bb4576111a991600182018155610c6b565b9290926111d35765ffffffffffff600192511665ffffffffffff198454161783555191015561113c565b634e487b7160e01b5f525f60045260245ffd5b505f198101818111610a685765ffffffffffff611204859285610c6b565b50541614611118565b611217908361121d565b5f6110ed565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b1561018257604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af180156103955761128e5750565b5f610d4991610b9256fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c634300081a000a9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497039e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702";
+
+type PatientMembershipTokenConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: PatientMembershipTokenConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class PatientMembershipToken__factory extends ContractFactory {
+  constructor(...args: PatientMembershipTokenConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    dao_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(dao_, overrides || {});
+  }
+  override deploy(
+    dao_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(dao_, overrides || {}) as Promise<
+      PatientMembershipToken & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): PatientMembershipToken__factory {
+    return super.connect(runner) as PatientMembershipToken__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): PatientMembershipTokenInterface {
+    return new Interface(_abi) as PatientMembershipTokenInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): PatientMembershipToken {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as PatientMembershipToken;
+  }
+}
@@ -0,0 +1,678 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  PatientRecordVault,
+  PatientRecordVaultInterface,
+} from "../../contracts/PatientRecordVault";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract PatientDAOFHE",
+        name: "dao_",
+        type: "address",
+      },
+      {
+        internalType: "contract ConsentRegistry",
+        name: "consentRegistry_",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "AlreadyGranted",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ConsentRequired",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoRecord",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotConsentRegistry",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotGranted",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotProvider",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TooManyBiomarkers",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TrialNotApproved",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "patient",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "researcher",
+        type: "address",
+      },
+    ],
+    name: "AccessGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "patient",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+    ],
+    name: "AccessRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "patient",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "evaluator",
+        type: "address",
+      },
+    ],
+    name: "EvaluatorAllowed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "patient",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "evaluator",
+        type: "address",
+      },
+    ],
+    name: "EvaluatorRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "patient",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "biomarkerCount",
+        type: "uint256",
+      },
+    ],
+    name: "RecordSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "patient",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "RecordVerified",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_BIOMARKERS",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "evaluator",
+        type: "address",
+      },
+    ],
+    name: "allowEvaluator",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "consentRegistry",
+    outputs: [
+      {
+        internalType: "contract ConsentRegistry",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "dao",
+    outputs: [
+      {
+        internalType: "contract PatientDAOFHE",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "evaluator",
+        type: "address",
+      },
+    ],
+    name: "getEvaluatorPatients",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "patient",
+        type: "address",
+      },
+    ],
+    name: "getGrantedTrials",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "patient",
+        type: "address",
+      },
+    ],
+    name: "getRecord",
+    outputs: [
+      {
+        internalType: "euint8",
+        name: "ageBracket",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "diagnosisCode",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32[]",
+        name: "biomarkers",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "uint256",
+        name: "updatedAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+    ],
+    name: "getTrialPatients",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+    ],
+    name: "grantAccess",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "patient",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+    ],
+    name: "hasAccess",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "patient",
+        type: "address",
+      },
+    ],
+    name: "hasRecord",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "patient",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "evaluator",
+        type: "address",
+      },
+    ],
+    name: "isEvaluator",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "evaluator",
+        type: "address",
+      },
+    ],
+    name: "removeEvaluator",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "patient",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+    ],
+    name: "restoreRenewedConsent",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+    ],
+    name: "revokeAccess",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "patient",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+    ],
+    name: "revokeWithdrawnConsent",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "start",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "maxPatients",
+        type: "uint256",
+      },
+    ],
+    name: "rotateSupersededConsents",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint8",
+        name: "ageBracket",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "diagnosisCode",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "biomarkers",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitRecord",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "trialPatientAt",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+    ],
+    name: "trialPatientCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "patient",
+        type: "address",
+      },
+    ],
+    name: "verifierOf",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "patient",
+        type: "address",
+      },
+    ],
+    name: "verifyRecord",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60c06040523461027357604051601f61203e38819003918201601f19168301916001600160401b03831184841017610277578084926040948552833981010312610273578051906001600160a01b03821682036102735760200151906001600160a01b0382168203610273575f606061007661028b565b8281528260208201528260408201520152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac60606100a661028b565b7350157cffd6bbfa2dece204a89ec419c23ef5755d815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69602082015273a02cda4ca3a71d7c46997716f4283aa851c28812604082015201527350157cffd6bbfa2dece204a89ec419c23ef5755d60018060a01b03197f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416177f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005573cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6960018060a01b03195f80516020611ffe8339815191525416175f80516020611ffe8339815191525573a02cda4ca3a71d7c46997716f4283aa851c2881260018060a01b03195f8051602061201e8339815191525416175f8051602061201e83398151915255731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac60018060a01b03195f80516020611fde8339815191525416175f80516020611fde8339815191525560805260a052604051611d3390816102ab823960805181818161065c0152818161076201528181610ec301528181610f2601526117c5015260a05181818161015f0152818161040c01528181610477015281816105db015281816107db01526117090152f35b5f80fd5b634e487b7160e01b5f52604160045260245ffd5b60405190608082016001600160401b038111838210176102775760405256fe60806040526004361015610011575f80fd5b5f803560e01c8063130e80231461102d5780631cdb11381461100357806337a794cf14610ef25780634162169f14610eae57806351d8005114610e1c5780635360b01a14610d68578063617fba0414610c935780636ac1190f14610c5157806374097ee71461092d5780637ca145631461071e57806390bdcc92146106d8578063a8ad6668146105bb578063bb6ec52e1461059f578063c01977971461053f578063c6530e41146104eb578063c724fcac14610458578063da1f12ab1461043b578063db89cf5b146103f6578063dc70844214610384578063ddedb4a114610310578063e1b97d69146102c5578063fe230675146102875763ff7ae68214610117575f80fd5b34610284576060366003190112610284576004358082526002602052604082208054909160243560443583821161027c575b818403848111610268578110610241575b5091927f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316925b848110610194578580f35b61019e81836111d7565b905460405163e140d5d560e01b815260039290921b1c6001600160a01b0316600482018190526024820185905290919060208380604481010381895afa8015610236576001938991610208575b50156101f9575b5001610189565b61020290611382565b5f6101f2565b610229915060203d811161022f575b6102218183611137565b81019061116d565b5f6101eb565b503d610217565b6040513d8a823e3d90fd5b908093500180831161025457915f61015a565b634e487b7160e01b85526011600452602485fd5b634e487b7160e01b87526011600452602487fd5b839150610149565b80fd5b5034610284576020366003190112610284576020906003906040906001600160a01b036102b26110df565b1681528084522001541515604051908152f35b50346102845760203660031901126102845760043533825260016020526102ef8160408420611936565b15610301576102fe9033611890565b80f35b6333ecac8f60e01b8252600482fd5b5034610284576020366003190112610284576004358152600260205260408120604051918260208354918281520192825260208220915b81811061036e5761036a8561035e81870382611137565b604051918291826110f5565b0390f35b8254845260209093019260019283019201610347565b5034610284576020366003190112610284576001600160a01b036103a66110df565b168152600460205260408120604051918260208354918281520192825260208220915b8181106103e05761036a8561035e81870382611137565b82548452602090930192600192830192016103c9565b50346102845780600319360112610284576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b503461028457806003193601126102845760206040516127118152f35b5034610284576040366003190112610284576104726110df565b6024357f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031633036104dc576001600160a01b03821683526001602052604083206104c5908290611936565b6104cd578280f35b6104d691611890565b5f808280f35b636be734c360e11b8352600483fd5b503461028457604036600319011261028457602090610535906001600160a01b036105146110df565b16815260018352604060243591206001915f520160205260405f2054151590565b6040519015158152f35b5034610284576040366003190112610284576105596110df565b6024356001600160a01b038116919082900361059b576001600160a01b03168252600360209081526040928390205f9283526001018152919020541515610535565b8280fd5b5034610284578060031936011261028457602060405160088152f35b5034610284576040366003190112610284576105d56110df565b602435907f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031633036104dc576001600160a01b03168083526001602081815260408086205f8681529301909152902054610635578280f35b82526020829052604080832090516318feeb1560e31b8152600481019290925282826024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa80156106cd576104d69284916106ab575b50602001516001600160a01b03169061132a565b6106c791503d8086833e6106bf8183611137565b810190611246565b5f610697565b6040513d85823e3d90fd5b503461028457604036600319011261028457610705602091600435815260028352604060243591206111d7565b905460405160039290921b1c6001600160a01b03168152f35b5034610284576020366003190112610284576004353382528160205260036040832001541561091e576040516318feeb1560e31b81526004810182905282816024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa9081156106cd578391610904575b5060a081015160068110156108f057600219016108e15760405163e140d5d560e01b8152336004820152602481018390526020816044816001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000165afa9081156108d65784916108b7575b50156108a857338352600160205261082682604085206118e3565b1561089957818352600260205261084033604085206118e3565b50338352602083815260408420910180519091610866916001600160a01b03169061132a565b516001600160a01b031690337f736e4b7214301327fd1de5d9531697cb665231c21f40cc8e2c34f96f9ff726578480a480f35b6387b38f7760e01b8352600483fd5b637cbd800360e11b8352600483fd5b6108d0915060203d60201161022f576102218183611137565b5f61080b565b6040513d86823e3d90fd5b6325869c2160e01b8352600483fd5b634e487b7160e01b84526021600452602484fd5b61091891503d8085833e6106bf8183611137565b5f61079a565b633a99137560e01b8252600482fd5b5034610c0c576080366003190112610c0c5760443567ffffffffffffffff8111610c0c5736602382011215610c0c57806004013567ffffffffffffffff8111610c0c573660248260051b84010111610c0c576064359167ffffffffffffffff8311610c0c5736602384011215610c0c5782600401359267ffffffffffffffff8411610c0c5760248101906024853692010111610c0c5760088311610c4257335f525f60205260405f20936109e23682846111a1565b60018060a01b035f80516020611d07833981519152541660206040519263196d0b9b60e01b845260043560048501523360248501526080604485015280519182918260848701520160a485015e5f83820160a40152602091835f60a482809560026064830152601f801991011681010301925af1908115610c01575f91610c10575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b0316803b15610c0c57604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af18015610c0157610bec575b508555610ae3610adb3683856111a1565b602435611a47565b60018601556002850193845487865580610bc8575b50865b81811015610b7657610b20610b113685876111a1565b60248360051b88010135611a47565b8654600160401b811015610b625790610b5a610b44836001809695018b558a6111d7565b819391549060031b91821b915f19901b19161790565b905501610afb565b634e487b7160e01b8a52604160045260248afd5b4260038801556004870180546001600160a01b03191690558782610b99336115eb565b6040519081527f86762d21baf891a1318599c922d1dde622a52b50a837dc27ca219f8676958e2060203392a280f35b85885260208820908101905b818110610be15750610af8565b888155600101610bd4565b610bf99197505f90611137565b5f955f610aca565b6040513d5f823e3d90fd5b5f80fd5b90506020813d602011610c3a575b81610c2b60209383611137565b81010312610c0c57515f610a64565b3d9150610c1e565b633201c3d360e21b5f5260045ffd5b34610c0c576020366003190112610c0c576001600160a01b03610c726110df565b165f525f602052602060018060a01b03600460405f20015416604051908152f35b34610c0c576020366003190112610c0c576001600160a01b03610cb46110df565b165f525f60205260405f20805490600181015490600360028201910154604051808160208554928381520180955f5260205f20925f5b818110610d4f575050610cff92500382611137565b60405193608085019585526020850152608060408501525180945260a08301915f945b808610610d3757505082935060608301520390f35b90926020806001928651815201940195019490610d22565b8454835260019485019486945060209093019201610cea565b34610c0c576020366003190112610c0c576001600160a01b03610d896110df565b165f52600160205260405f20604051806020835491828152019081935f5260205f20905f5b818110610e065750505081610dc4910382611137565b604051918291602083019060208452518091526040830191905f5b818110610ded575050500390f35b8251845285945060209384019390920191600101610ddf565b8254845260209093019260019283019201610dae565b34610c0c576020366003190112610c0c57610e356110df565b335f526003602052610e5460405f209160018060a01b03168092611936565b15610e9f57805f526004602052610e6e3360405f20611936565b50610e7833611382565b337f40acce324f67323a783f6a9a2c410f08de3132ea8fde0d41afff88b6351867fb5f80a3005b6333ecac8f60e01b5f5260045ffd5b34610c0c575f366003190112610c0c576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b34610c0c576020366003190112610c0c57610f0b6110df565b604051636b074a0760e01b81523360048201526020816024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa908115610c01575f91610fe4575b5015610fd5576001600160a01b03165f818152602081905260409020600381015415610fc657600401336bffffffffffffffffffffffff60a01b82541617905533907f416f2d541acf17348130b504fd00740b73dc78621768e5d4a96f4c0b6a2022675f80a3005b633a99137560e01b5f5260045ffd5b631a40715960e11b5f5260045ffd5b610ffd915060203d60201161022f576102218183611137565b82610f5e565b34610c0c576020366003190112610c0c576004355f526002602052602060405f2054604051908152f35b34610c0c576020366003190112610c0c576110466110df565b335f525f602052600360405f20015415610fc657335f52600360205260405f209061107a60018060a01b03821680936118e3565b156110d0576110a990825f5260046020526110983360405f206118e3565b50335f525f60205260405f2061132a565b337fb374f17f0fbac107a1debe423d49972ddd5f45e2bfc6357a0b4703b8585258e85f80a3005b6387b38f7760e01b5f5260045ffd5b600435906001600160a01b0382168203610c0c57565b60206040818301928281528451809452019201905f5b8181106111185750505090565b82516001600160a01b031684526020938401939092019160010161110b565b90601f8019910116810190811067ffffffffffffffff82111761115957604052565b634e487b7160e01b5f52604160045260245ffd5b90816020910312610c0c57518015158103610c0c5790565b67ffffffffffffffff811161115957601f01601f191660200190565b9291926111ad82611185565b916111bb6040519384611137565b829481845281830111610c0c578281602093845f960137010152565b80548210156111ec575f5260205f2001905f90565b634e487b7160e01b5f52603260045260245ffd5b81601f82011215610c0c5780519061121782611185565b926112256040519485611137565b82845260208383010111610c0c57815f9260208093018386015e8301015290565b602081830312610c0c5780519067ffffffffffffffff8211610c0c570161010081830312610c0c5760405191610100830183811067ffffffffffffffff821117611159576040528151835260208201516001600160a01b0381168103610c0c576020840152604082015167ffffffffffffffff8111610c0c57816112cb918401611200565b604084015260608201519067ffffffffffffffff8211610c0c576112f0918301611200565b60608301526080810151608083015260a0810151906006821015610c0c5760e09160a084015260c081015160c0840152015160e082015290565b9091611337838354611b78565b611345836001840154611b78565b5f5b60028301805482101561137b5781611373866113676002956001956111d7565b90549060031b1c611b78565b019050611347565b5050915050565b6001600160a01b038082165f908152602081815260408083205f80516020611d07833981519152549151636baeb74560e11b81526004808201529690959490938792602492849291165af1938415610c01575f946115a3575b508315611593575b5f80516020611d0783398151915254604051630afe14ad60e31b815260048101959095525f60248601819052600160f81b604487015260209186916064918391906001600160a01b03165af1938415610c01575f9461155f575b505f8354602060018060a01b035f80516020611d0783398151915254166044604051809581936307227b9160e21b83528b6004840152600260248401525af1908115610c01575f91611529575b6114a59250818115611519575b15611509575b949394611bdf565b8255600182016114b6858254611a0f565b905560025f9201915b82548110156114fa57806114e5866114d9600194876111d7565b90549060031b1c611a0f565b6114f2610b4483876111d7565b9055016114bf565b50925050611507906115eb565b565b9050611513611cb8565b9061149d565b9050611523611cb8565b90611497565b90506020823d602011611557575b8161154460209383611137565b81010312610c0c576114a591519061148a565b3d9150611537565b9093506020813d60201161158b575b8161157b60209383611137565b81010312610c0c5751925f61143d565b3d915061156e565b925061159d611c6a565b926113e3565b9093506020813d6020116115cf575b816115bf60209383611137565b81010312610c0c5751925f6113db565b3d91506115b2565b80518210156111ec5760209160051b010190565b9060018060a01b038216805f525f60205260405f209061160d82543090611b78565b61161b306001840154611b78565b60028201935f5b855481101561164e578061164861163b600193896111d7565b3091549060031b1c611b78565b01611622565b509193509161165d828561132a565b825f52600360205260405f2091604051808460208296549384815201905f5260205f20925f5b81811061187757505061169892500384611137565b5f5b83518110156116c9576001906116c36001600160a01b036116bb83886115d7565b51168861132a565b0161169a565b509150915f52600160205260405f2090604051808360208295549384815201905f5260205f20925f5b81811061185e57505061170792500383611137565b7f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165f5b83518110156118565761177c602061174b83876115d7565b5160405163e140d5d560e01b81526001600160a01b0387166004820152602481019190915291829081906044820190565b0381865afa908115610c01575f91611838575b5061179d575b600101611733565b6117a781856115d7565b516040516318feeb1560e31b81526004810191909152905f826024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa918215610c0157600192611817915f9161181e575b506020848060a01b03910151168861132a565b9050611795565b61183291503d805f833e6106bf8183611137565b5f611804565b611850915060203d811161022f576102218183611137565b5f61178f565b505050509050565b84548352600194850194879450602090930192016116f2565b8454835260019485019488945060209093019201611683565b5f8281526002602052604090206001600160a01b038216916118bd916118b7908490611936565b50611382565b7fb11340c2209a7f3d45f1892c58bf80c7f85676ff4f232e0546efecdf65c64b965f80a3565b5f82815260018201602052604090205461193057805490600160401b821015611159578261191b610b448460018096018555846111d7565b90558054925f520160205260405f2055600190565b50505f90565b906001820191815f528260205260405f20548015155f14611a07575f1981018181116119f35782545f198101919082116119f3578181036119be575b505050805480156119aa575f19019061198b82826111d7565b8154905f199060031b1b19169055555f526020525f6040812055600190565b634e487b7160e01b5f52603160045260245ffd5b6119de6119ce610b4493866111d7565b90549060031b1c928392866111d7565b90555f528360205260405f20555f8080611972565b634e487b7160e01b5f52601160045260245ffd5b505050505f90565b90611a26918015611a39575b8115611a2957611bdf565b90565b9050611a33611c6a565b90611bdf565b50611a42611c6a565b611a1b565b919060205f80516020611d0783398151915254916040519463196d0b9b60e01b865260048601523360248601526080604486015280519182918260848801520160a486015e5f84820160a40152600460648501526020918491601f01601f1916820182900360a4019082905f906001600160a01b03165af1918215610c01575f92611b44575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005482906001600160a01b0316803b15610c0c57604051630f8e573b60e21b815260048101929092523360248301525f908290818381604481015b03925af18015610c0157611b3a5750565b5f61150791611137565b9091506020813d602011611b70575b81611b6060209383611137565b81010312610c0c5751905f611acd565b3d9150611b53565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b15610c0c57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f90829081838160448101611b29565b5f80516020611d078339815191525460405163022f65e760e31b8152600481019290925260248201929092525f604482018190529091602091839160649183916001600160a01b03165af1908115610c01575f91611c3b575090565b90506020813d602011611c62575b81611c5660209383611137565b81010312610c0c575190565b3d9150611c49565b5f80516020611d0783398151915254604051639cd07acb60e01b81525f6004820152906001600160a01b0316816044815f602094600460248401525af1908115610c01575f91611c3b575090565b5f80516020611d0783398151915254604051639cd07acb60e01b81525f6004820152906001600160a01b0316816044815f602094600260248401525af1908115610c01575f91611c3b57509056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c634300081a000a9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497039e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702";
+
+type PatientRecordVaultConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: PatientRecordVaultConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class PatientRecordVault__factory extends ContractFactory {
+  constructor(...args: PatientRecordVaultConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    dao_: AddressLike,
+    consentRegistry_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(dao_, consentRegistry_, overrides || {});
+  }
+  override deploy(
+    dao_: AddressLike,
+    consentRegistry_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(dao_, consentRegistry_, overrides || {}) as Promise<
+      PatientRecordVault & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): PatientRecordVault__factory {
+    return super.connect(runner) as PatientRecordVault__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): PatientRecordVaultInterface {
+    return new Interface(_abi) as PatientRecordVaultInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): PatientRecordVault {
+    return new Contract(address, _abi, runner) as unknown as PatientRecordVault;
+  }
+}
@@ -0,0 +1,1949 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  PatientDAOFHE,
+  PatientDAOFHEInterface,
+} from "../../../contracts/Patient_DAO_DeSci.sol/PatientDAOFHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "AlreadyClaimed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "AlreadyProvider",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "AlreadyVoted",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchNotOpen",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchOpen",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CooldownActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidBatch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidCooldown",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidMerkleProof",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidOptionCount",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidProposal",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidStatus",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotMember",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotPendingOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotProposer",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotProvider",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotReviewer",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotTimelock",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "Paused",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayDetected",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StateMismatch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TallyNotRevealed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TallyRevealed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "VotingActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "VotingClosed",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "BatchClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "BatchOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "ContractPaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "ContractUnpaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "previousCooldown",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "newCooldown",
+        type: "uint256",
+      },
+    ],
+    name: "CooldownSecondsUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "totalVotes",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "approvalCount",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "member",
+        type: "address",
+      },
+    ],
+    name: "MemberAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "member",
+        type: "address",
+      },
+    ],
+    name: "MemberRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousToken",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newToken",
+        type: "address",
+      },
+    ],
+    name: "MembershipTokenUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum PatientDAOFHE.ProposalStatus",
+        name: "previousStatus",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "enum PatientDAOFHE.ProposalStatus",
+        name: "newStatus",
+        type: "uint8",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "actor",
+        type: "address",
+      },
+    ],
+    name: "ProposalStatusChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "proposer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "category",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "metadataURI",
+        type: "string",
+      },
+    ],
+    name: "ProposalSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+    ],
+    name: "ProposalTallyRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "yesVotes",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "noVotes",
+        type: "uint32",
+      },
+    ],
+    name: "ProposalTallyRevealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "voter",
+        type: "address",
+      },
+    ],
+    name: "ProposalVoteCast",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "root",
+        type: "bytes32",
+      },
+    ],
+    name: "ProviderClaimed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "previousRoot",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "newRoot",
+        type: "bytes32",
+      },
+    ],
+    name: "ProviderMerkleRootUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "reviewer",
+        type: "address",
+      },
+    ],
+    name: "ReviewerAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "reviewer",
+        type: "address",
+      },
+    ],
+    name: "ReviewerRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousTimelock",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newTimelock",
+        type: "address",
+      },
+    ],
+    name: "TimelockUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "encryptedVoteIndex",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "VoteSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "previousPeriod",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newPeriod",
+        type: "uint256",
+      },
+    ],
+    name: "VotingPeriodUpdated",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_BATCH_OPTIONS",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_COOLDOWN_SECONDS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "acceptOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "member",
+        type: "address",
+      },
+    ],
+    name: "addMember",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "addProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "reviewer",
+        type: "address",
+      },
+    ],
+    name: "addReviewer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "batchResultCiphertexts",
+    outputs: [
+      {
+        internalType: "bytes32[]",
+        name: "cts",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchSubmissionCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batches",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isOpen",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "createdAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "closedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "optionCount",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEbool",
+        name: "encryptedSupport",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "castVote",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32[]",
+        name: "proof",
+        type: "bytes32[]",
+      },
+    ],
+    name: "claimProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "closeBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cooldownSeconds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "currentBatchId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedApprovalCount",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedOptionCounts",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedTotalVotes",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedVoteData",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "finalizeProposal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "getBatchOptionResults",
+    outputs: [
+      {
+        internalType: "uint32[]",
+        name: "",
+        type: "uint32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "getProposal",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "proposer",
+            type: "address",
+          },
+          {
+            internalType: "string",
+            name: "category",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "metadataURI",
+            type: "string",
+          },
+          {
+            internalType: "euint64",
+            name: "encryptedBudget",
+            type: "bytes32",
+          },
+          {
+            internalType: "enum PatientDAOFHE.ProposalStatus",
+            name: "status",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "createdAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "votingEndsAt",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct PatientDAOFHE.Proposal",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getProposals",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "proposer",
+            type: "address",
+          },
+          {
+            internalType: "string",
+            name: "category",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "metadataURI",
+            type: "string",
+          },
+          {
+            internalType: "euint64",
+            name: "encryptedBudget",
+            type: "bytes32",
+          },
+          {
+            internalType: "enum PatientDAOFHE.ProposalStatus",
+            name: "status",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "createdAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "votingEndsAt",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct PatientDAOFHE.Proposal[]",
+        name: "page",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "hasSubmitted",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "hasVoted",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isMember",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isProvider",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isReviewer",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastDecryptionRequestTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastSubmissionTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "membershipToken",
+    outputs: [
+      {
+        internalType: "contract PatientMembershipToken",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "myCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "openBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint8",
+        name: "optionCount",
+        type: "uint8",
+      },
+    ],
+    name: "openMultiOptionBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pendingOwner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "proposalCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "proposalDecryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "proposalSnapshot",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "proposalTallies",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "encryptedYesVotes",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedNoVotes",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "voterCount",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "revealed",
+        type: "bool",
+      },
+      {
+        internalType: "uint32",
+        name: "yesVotes",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "noVotes",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "proposalTallyCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "providerClaimRoot",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "providerMerkleRoot",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "rejectProposal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "member",
+        type: "address",
+      },
+    ],
+    name: "removeMember",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "removeProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "reviewer",
+        type: "address",
+      },
+    ],
+    name: "removeReviewer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "requestBatchResultDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "requestProposalTallyDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newCooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "setCooldownSeconds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newToken",
+        type: "address",
+      },
+    ],
+    name: "setMembershipToken",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "newRoot",
+        type: "bytes32",
+      },
+    ],
+    name: "setProviderMerkleRoot",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newTimelock",
+        type: "address",
+      },
+    ],
+    name: "setTimelock",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newVotingPeriod",
+        type: "uint256",
+      },
+    ],
+    name: "setVotingPeriod",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "startVoting",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "submitForReview",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "category",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "metadataURI",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedBudget",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitProposal",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedVote",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitVote",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "timelock",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "unpause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "votingPeriod",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "withdrawProposal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080604052346101d7575f60606100146101db565b8281528260208201528260408201520152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac60606100446101db565b7350157cffd6bbfa2dece204a89ec419c23ef5755d80825273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69602080840182905273a02cda4ca3a71d7c46997716f4283aa851c28812604080860182905295909401959095527f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970080546001600160a01b031990811690931790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497018054831690911790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702805482169092179091557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970380548216731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac1790555f8054909116339081178255815260038352818120805460ff19908116600190811790925582546001600160a01b0390811684526006865284842080548316841790558354168352600790945290829020805490931617909155603c6009556203f480601355516142a3908161020f8239f35b5f80fd5b60405190608082016001600160401b038111838210176101fa57604052565b634e487b7160e01b5f52604160045260245ffdfe60806040526004361015610011575f80fd5b5f3560e01c806302a251a314610434578063034f64361461042f5780630425c3571461042a57806304c7a7cd1461042557806304f13fe7146104205780630a763da11461041b5780630b1ca49a14610416578063124bd04b1461041157806317cf3e281461040c57806329918e8f146104075780632c3b7dbd146104025780632d63f693146103fd5780632f167c1f146103f85780633288bcc0146103f35780633656a319146103ee5780633d2f5bda146103e95780633e26c36d146103e45780633f4ba83a146103df578063431dd0b5146103da57806343859632146103d557806346e2577a146103d05780635652077c146103cb5780635a94a079146103c65780635c975abb146103c15780635e3b4365146103bc57806362ad351b146103b75780636b05f2ce146103b25780636b074a07146103ad5780636b5ac986146103a85780636cd0dfa4146103a357806373a82b5f1461039e5780637747a2261461039957806379ba5097146103945780637b5b11571461038f5780638456cb591461038a5780638589c7a5146103855780638a355a57146103805780638a3b37e21461037b5780638da5cb5b1461037657806393cda0f2146103715780639e94e5331461036c578063a230c52414610367578063a2e0b0ba14610362578063a43654761461035d578063a57d380614610358578063b32c4d8d14610353578063b65e89411461034e578063b8221bc414610349578063b97c2e9014610344578063bc28d8781461033f578063bdacb3031461033a578063c7f758a814610335578063c9442dac14610330578063ca6d56dc1461032b578063cc58f75014610326578063d2c411d314610321578063d33219b41461031c578063da1f12ab14610317578063da35c66414610312578063e1f02ffa1461030d578063e30c397814610308578063ea0217cf14610303578063f2fde38b146102fe578063f5132674146102f9578063fb5411dc146102f45763fdc6258a146102ef575f80fd5b6123cc565b612394565b61226f565b61221b565b6121b8565b612190565b6120fb565b6120de565b6120c2565b61209a565b612004565b611fcc565b611f5b565b611eed565b611e2b565b611dc6565b611d7f565b611d24565b611d07565b611cb5565b611c57565b611c14565b611bdc565b611b42565b611b05565b6119b9565b611981565b61195a565b6118c8565b61185a565b611742565b6116f1565b6116a2565b611626565b6115b5565b611544565b6114f5565b6112ed565b611271565b611247565b61121f565b61119a565b6110a8565b611070565b610fdc565b610f6b565b610f1c565b610ee9565b610e54565b610de3565b610d64565b610d0e565b610cf1565b610cc7565b610c9d565b610c73565b610c56565b610c3b565b610afd565b610975565b610958565b6108f9565b61077d565b610531565b610490565b610447565b5f91031261044357565b5f80fd5b34610443575f366003190112610443576020601354604051908152f35b600435906001600160a01b038216820361044357565b602435906001600160a01b038216820361044357565b34610443576020366003190112610443576104a9610464565b6002546001600160a01b0316806104e657505f546001600160a01b031633036104d7576104d590612409565b005b6330cd747160e01b5f5260045ffd5b33036104f5576104d590612409565b63656a6d1560e11b5f5260045ffd5b9181601f84011215610443578235916001600160401b038311610443576020838186019501011161044357565b34610443576060366003190112610443576004356024356044356001600160401b03811161044357610567903690600401610504565b919091335f52600360205260ff60405f2054161561076e5760ff60085460a01c1661075f57335f52600a60205260405f2054600954810180911161075a57421061074b57600c54840361073c576105da6105d660016105ce875f52600d60205260405f2090565b015460ff1690565b1590565b61072d5761061361060c336105f7875f52600f60205260405f2090565b9060018060a01b03165f5260205260405f2090565b5460ff1690565b61071e5761062c92610626913691610a4d565b90613b9e565b61063581613243565b5061066761066061065a6002610653865f52600d60205260405f2090565b015461248e565b3361325c565b828461332c565b610679825f52600e60205260405f2090565b90815491610686836124a9565b90556106ab8261069e855f52601860205260405f2090565b905f5260205260405f2090565b556106d26106c5336105f7855f52600f60205260405f2090565b805460ff19166001179055565b335f908152600a602052604090204290556040805191825242602083015233917f65658daa50ece7e5d9b3c4700c400745f04137171d9d6896eed2f10437013ee791819081015b0390a3005b637c9a1cf960e01b5f5260045ffd5b63f84b8daf60e01b5f5260045ffd5b6333b094a160e01b5f5260045ffd5b63aa9a98df60e01b5f5260045ffd5b612451565b6313d0ff5960e31b5f5260045ffd5b631a40715960e11b5f5260045ffd5b34610443575f366003190112610443575f546001600160a01b031633036104d75760ff60085460a01c1661075f57600c546107c560016105ce835f52600d60205260405f2090565b6108ea576107d56107da916124a9565b600c55565b61081d600c546108186107eb610a3e565b82815260016020820152914260408401525f6060840152600260808401525b5f52600d60205260405f2090565b61343e565b5f610832600c545f52600e60205260405f2090565b5561083b61385c565b61084481613243565b508061085a600c545f52601960205260405f2090565b5580610870600c545f52601a60205260405f2090565b555f5b600260ff8216106108b457600c546040514281527f217ff5db260372f7ab32608612dc3d218db8f3644666e2881c29c1e771e253bf9080602081015b0390a2005b600181836108e260ff946108d2600c545f52601b60205260405f2090565b9060ff165f5260205260405f2090565b550116610873565b63948ad06f60e01b5f5260045ffd5b34610443576020366003190112610443575f54600435906001600160a01b031633036104d75760407f1042d11dac893fa7a960a7bd7c962f959facb168f87ad7518ca8052678699f7491600454908060045582519182526020820152a1005b34610443575f366003190112610443576020600c54604051908152f35b346104435760203660031901126104435761098e610464565b5f546001600160a01b031633036104d7576001600160a01b03165f818152600660205260408120805460ff191690557f6e76fb4c77256006d9c38ec7d82b45a8c8f3c27b1d6766fffc42dfb8de6844929080a2005b634e487b7160e01b5f52604160045260245ffd5b90601f801991011681019081106001600160401b03821117610a1857604052565b6109e3565b60405190610a2c6060836109f7565b565b60405190610a2c610100836109f7565b60405190610a2c60a0836109f7565b9291926001600160401b038211610a185760405191610a76601f8201601f1916602001846109f7565b829481845281830111610443578281602093845f960137010152565b9080601f8301121561044357816020610aad93359101610a4d565b90565b606060031982011261044357600435916024356001600160401b0381116104435782610ade91600401610a92565b91604435906001600160401b03821161044357610aad91600401610a92565b3461044357610b0b36610ab0565b90610b1e835f52601060205260405f2090565b6002810193610b2e855460ff1690565b610c2c57610b3c8254612628565b93610b46856135b7565b600184015403610c1d57610b5b9084836135ee565b610b6e60208451850101602085016124b7565b9092610b8b610b8682545f52601c60205260405f2090565b6124e3565b610b9e81545f52601c60205260405f2090565b9660025b8751811015610bd35780610bcd610bc7602060019460051b8b01015163ffffffff1690565b8b61251e565b01610ba2565b50805460ff191660011790557f60a5261a8de6f00d7bf40f51cf2b023425bc668db5e9bc89db8c104706efbc31919054604080519586526020860192909252939081908101610719565b6313b304fb60e21b5f5260045ffd5b63faf8ed4f60e01b5f5260045ffd5b34610443575f36600319011261044357602060405160108152f35b34610443575f36600319011261044357602060405162278d008152f35b34610443576020366003190112610443576004355f52600e602052602060405f2054604051908152f35b34610443576020366003190112610443576004355f526017602052602060405f2054604051908152f35b34610443576020366003190112610443576004355f52601a602052602060405f2054604051908152f35b34610443575f366003190112610443576020600454604051908152f35b34610443576020366003190112610443576004355f52601660205260405f208054610d6060ff600260018501549401541660405193849384919260409194936060840195845260208401521515910152565b0390f35b3461044357602036600319011261044357600435335f52600760205260ff60405f20541615610dd45760ff60085460a01c1661075f57610da3816136c0565b601354420180421161075a5760078201555f19420142811161075a576104d5925f52601760205260405f205561371a565b631bed7fef60e21b5f5260045ffd5b346104435760203660031901126104435760043560ff8116808203610443575f546001600160a01b031633036104d75760ff60085460a01c1661075f5760028110908115610e49575b50610e3a576104d59061348c565b630e264fb360e31b5f5260045ffd5b60109150115f610e2c565b34610443575f366003190112610443576002546001600160a01b031680610e9057505f546001600160a01b031633036104d7575b6104d5612569565b3314610e885763656a6d1560e11b5f5260045ffd5b90602080835192838152019201905f5b818110610ec25750505090565b8251845260209384019390920191600101610eb5565b906020610aad928181520190610ea5565b3461044357602036600319011261044357610d60610f08600435612628565b604051918291602083526020830190610ea5565b3461044357604036600319011261044357602060ff610f5f600435610f3f61047a565b905f526015845260405f209060018060a01b03165f5260205260405f2090565b54166040519015158152f35b3461044357602036600319011261044357610f84610464565b5f546001600160a01b031633036104d7576001600160a01b03165f818152600360205260408120805460ff191660011790557fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a9080a2005b3461044357602036600319011261044357600435335f52600760205260ff60405f20541615610dd45760ff60085460a01c1661075f5761101b816136ed565b905f526014602052600360405f2001549060ff821615611061576104d59163ffffffff602882901c81169160081c16115f1461105957600390613816565b600490613816565b631f48ce0f60e01b5f5260045ffd5b34610443576020366003190112610443576001600160a01b03611091610464565b165f52600b602052602060405f2054604051908152f35b34610443575f36600319011261044357602060ff60085460a01c166040519015158152f35b805180835260209291819084018484015e5f828201840152601f01601f1916010190565b634e487b7160e01b5f52602160045260245ffd5b6006111561110f57565b6110f1565b90600682101561110f5752565b908151815260018060a01b03602083015116602082015260e08061116b611159604086015161010060408701526101008601906110cd565b606086015185820360608701526110cd565b936080810151608085015261118860a082015160a0860190611114565b60c081015160c0850152015191015290565b34610443576040366003190112610443576111b96024356004356128e1565b6040518091602082016020835281518091526040830190602060408260051b8601019301915f905b8282106111f057505050500390f35b9193600191939550602061120f8192603f198a82030186528851611121565b96019201920185949391926111e1565b34610443575f366003190112610443576008546040516001600160a01b039091168152602090f35b34610443576020366003190112610443576004355f526019602052602060405f2054604051908152f35b34610443576020366003190112610443576001600160a01b03611292610464565b165f526003602052602060ff60405f2054166040519015158152f35b60206040818301928281528451809452019201905f5b8181106112d15750505090565b825163ffffffff168452602093840193909201916001016112c4565b34610443576020366003190112610443576004355f52601c60205260405f2060405190819061132f6113258254809560209181520190565b915f5260205f2090565b925f935b8160078601106114625791610d6094849261139094549181811061144b575b818110611431575b818110611416575b8181106113fb575b8181106113e0575b8181106113c5575b8181106113aa575b1061139c575b5003826109f7565b604051918291826112ae565b60e01c81526020015f611388565b60c083901c63ffffffff168452926001906020019301611382565b60a083901c63ffffffff16845292600190602001930161137a565b608083901c63ffffffff168452926001906020019301611372565b606083901c63ffffffff16845292600190602001930161136a565b604083901c63ffffffff168452926001906020019301611362565b602083811c63ffffffff168552909360019101930161135a565b63ffffffff83168452926001906020019301611352565b9160016101006008926114ea86546114858363ffffffff831663ffffffff169052565b602081811c63ffffffff1690840152604081811c63ffffffff1690840152606081811c63ffffffff1690840152608081811c63ffffffff169084015260a081811c63ffffffff169084015260c081811c63ffffffff169084015260e090811c90830152565b019301940193611333565b34610443576020366003190112610443576004356002546001600160a01b03168061153557505f546001600160a01b031633036104d7576104d5906129bb565b33036104f5576104d5906129bb565b346104435760203660031901126104435761155d610464565b5f546001600160a01b031633036104d7576001600160a01b03165f818152600760205260408120805460ff191660011790557fa78fc22d4599bb0c6086d2af06bc1158a45e81f81994d0734c428ab181c1463f9080a2005b34610443576020366003190112610443576004355f908152601460209081526040918290208054600182015460028301546003909301548551928352938201529283015260ff81161515606083015263ffffffff600882901c8116608084015260289190911c1660a082015260c090f35b34610443575f366003190112610443576001546001600160a01b0381163303611693575f80546001600160a01b031980821633908117845593166001556001600160a01b0316907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09080a3005b630614e5c760e21b5f5260045ffd5b34610443576020366003190112610443576004356002546001600160a01b0316806116e257505f546001600160a01b031633036104d7576104d590612ab8565b33036104f5576104d590612ab8565b34610443575f366003190112610443576002546001600160a01b03168061172d57505f546001600160a01b031633036104d7575b6104d5612afe565b33146117255763656a6d1560e11b5f5260045ffd5b34610443576060366003190112610443576004356024356044356001600160401b03811161044357611778903690600401610504565b335f908152600660205260409020909290611796906105d69061060c565b806117b8575b6117a9576104d593612b66565b63148fe22160e11b5f5260045ffd5b506008546117d6906001600160a01b03165b6001600160a01b031690565b6001600160a01b038116151590816117f0575b501561179c565b604051636a6bd8cd60e11b81523360048201529150602090829060249082905afa908115611855575f91611826575b505f6117e9565b611848915060203d60201161184e575b61184081836109f7565b810190612b43565b5f61181f565b503d611836565b612b5b565b3461044357602036600319011261044357611873610464565b5f546001600160a01b031633036104d7576001600160a01b03165f818152600360205260408120805460ff191690557f1589f8555933761a3cff8aa925061be3b46e2dd43f621322ab611d300f62b1d99080a2005b346104435760203660031901126104435760043560ff60085460a01c1661075f575f52601260205260405f2080541561194b5760ff600582015416600681101561110f5761193c5760018101546001600160a01b0316330361192d576104d590613759565b637d1b73b960e01b5f5260045ffd5b6307a92f1960e51b5f5260045ffd5b631dc0650160e31b5f5260045ffd5b34610443575f366003190112610443575f546040516001600160a01b039091168152602090f35b34610443576020366003190112610443576001600160a01b036119a2610464565b165f526005602052602060405f2054604051908152f35b346104435760203660031901126104435760043560ff60085460a01c1661075f57335f52600b60205260405f2054600954810180911161075a57421061074b57611a0b815f52601260205260405f2090565b80541561194b576002611a22600583015460ff1690565b611a2b81611105565b0361193c57600701544210611af657611a5160036105ce835f52601460205260405f2090565b611ae757611a5e816139b5565b7f6241725968292e4ca0b0d5c309df5f15af38d90beb1393c70e542164d52a2109610719611a94611a8e846135b7565b93613eaf565b92611ac6611aa0610a1d565b8681528260208201525f6040820152611ac1865f52601660205260405f2090565b612a8b565b335f908152600b602052604090204290556040519081529081906020820190565b632d1913e560e01b5f5260045ffd5b632a751f8160e21b5f5260045ffd5b34610443576020366003190112610443576001600160a01b03611b26610464565b165f526006602052602060ff60405f2054166040519015158152f35b34610443576080366003190112610443576004356001600160401b03811161044357611b72903690600401610504565b6024356001600160401b03811161044357611b91903690600401610504565b919092611b9d60443590565b606435936001600160401b03851161044357610d6095611bc4611bcc963690600401610504565b959094612ce3565b6040519081529081906020820190565b34610443576020366003190112610443576001600160a01b03611bfd610464565b165f52600a602052602060405f2054604051908152f35b3461044357604036600319011261044357602060ff610f5f600435611c3761047a565b905f52600f845260405f209060018060a01b03165f5260205260405f2090565b34610443576020366003190112610443576004355f52600d60205260a060405f2080549060ff60018201541690600281015460ff60046003840154930154169260405194855215156020850152604084015260608301526080820152f35b34610443576020366003190112610443576004355f52601060205260405f208054610d6060ff600260018501549401541660405193849384919260409194936060840195845260208401521515910152565b34610443575f366003190112610443576020600954604051908152f35b34610443576020366003190112610443576004356001600160401b03811161044357366023820112156104435780600401356001600160401b038111610443573660248260051b840101116104435760246104d59201613030565b3461044357602036600319011261044357600435335f52600760205260ff60405f20541615610dd45760ff60085460a01c1661075f57611dc16104d5916136c0565b613798565b3461044357602036600319011261044357611ddf610464565b6002546001600160a01b031680611e0b57505f546001600160a01b031633036104d7576104d590613178565b33036104f5576104d590613178565b906020610aad928181520190611121565b3461044357602036600319011261044357600435611e476126e6565b50805f52601260205260405f20541561194b575f526012602052610d6060405f206007611e72610a2e565b8254815260018301546001600160a01b0316602082015291611e96600282016127bb565b6040840152611ea7600382016127bb565b606084015260048101546080840152611ed0611ec7600583015460ff1690565b60a08501612859565b600681015460c0840152015460e082015260405191829182611e1a565b3461044357602036600319011261044357611f06610464565b5f546001600160a01b031633036104d7576001600160a01b03165f818152600760205260408120805460ff191690557f49145f5509d304a1345a43a563c576514a1b93d345ffca3905a2bed1d867442c9080a2005b3461044357602036600319011261044357611f74610464565b5f546001600160a01b031633036104d7576001600160a01b03165f818152600660205260408120805460ff191660011790557fb251eb052afc73ffd02ffe85ad79990a8b3fed60d76dbc2fa2fdd7123dffd9149080a2005b3461044357604036600319011261044357600435602435905f52601860205260405f20905f52602052602060405f2054604051908152f35b34610443576020366003190112610443576004355f546001600160a01b031633036104d75760ff60085460a01c1661075f57600c54810361073c57805f52600d60205260405f2060018101805460ff81161561072d5760ff191690556003429101557fed76190d94e2079764a112387a25d1b74945a43c0b92ce5f4f65b391b66390fe604051806108af42829190602083019252565b34610443575f366003190112610443576002546040516001600160a01b039091168152602090f35b34610443575f3660031901126104435760206040516127118152f35b34610443575f366003190112610443576020601154604051908152f35b346104435760203660031901126104435760043560ff60085460a01c1661075f5761212e905f52601260205260405f2090565b80541561194b57600181015461214c906001600160a01b03166117ca565b330361192d57600581015460ff1661216381611105565b801515908161217b575b5061193c576104d5906137d7565b6001915061218881611105565b14155f61216d565b34610443575f366003190112610443576001546040516001600160a01b039091168152602090f35b34610443576020366003190112610443575f54600435906001600160a01b031633036104d75760138054908290556040805191825260208201929092527fffc708f072ca56e3d45ef0cb288b96cb9378f5f63e1646868bfbc9c38f4263a19190a1005b3461044357602036600319011261044357612234610464565b6002546001600160a01b03168061226057505f546001600160a01b031633036104d7576104d5906131c0565b33036104f5576104d5906131c0565b346104435761227d36610ab0565b6122918392935f52601660205260405f2090565b9260028401936122a2855460ff1690565b610c2c576122b86122b382546139b5565b6135b7565b600182015403610c1d57612304826122f57f600141510981488c6fdf392ba1a2a2efba2d2c0d1cda2eceef9a353ccfc96f539561231495886135ee565b60208082518301019101613222565b865460ff19166001179096559491565b61237282600361232d84545f52601460205260405f2090565b01805468ffffffff00000000001964ffffffff0060088b901b1664ffffffffff19909216919091176001171660289290921b68ffffffff000000000016919091179055565b546040805163ffffffff96871681529290951660208301529381908101610719565b3461044357604036600319011261044357600435602435905f52601b60205260405f20905f52602052602060405f2054604051908152f35b34610443576020366003190112610443576001600160a01b036123ed610464565b165f526007602052602060ff60405f2054166040519015158152f35b600880546001600160a01b039283166001600160a01b0319821681179092559091167f70dea93388e1170f1ebe8b7b9eefabe8766d4b53c65a062f36b30d5c37c63a365f80a3565b634e487b7160e01b5f52601160045260245ffd5b906001820180921161075a57565b906020820180921161075a57565b9190820180921161075a57565b5f1981019190821161075a57565b9190820391821161075a57565b5f19811461075a5760010190565b9190826040910312610443576020825192015190565b8181106124d8575050565b5f81556001016124cd565b80545f8255806124f1575050565b610a2c915f52600760205f20910160031c8101906124cd565b634e487b7160e01b5f52603260045260245ffd5b90815491600160401b831015610a185760018301808255831015612564575f5260205f208260031c019163ffffffff8060e085549360051b169316831b921b1916179055565b61250a565b6008805460ff60a01b19169055337f5b65b0c1363b3003db9bcc5e1fd8805a6d6bf5bf6dc9d3431ee4494cd7d117665f80a2565b60ff166002019060ff821161075a57565b6001600160401b038111610a185760051b60200190565b906125cf826125ae565b6125dc60405191826109f7565b82815280926125ed601f19916125ae565b0190602036910137565b8051156125645760200190565b8051600110156125645760400190565b80518210156125645760209160051b010190565b90815f52600d602052612642600460405f20015460ff1690565b61265c6126576126518361259d565b60ff1690565b6125c5565b9261266f815f52601960205260405f2090565b54612679856125f7565b5261268c815f52601a60205260405f2090565b5461269685612604565b5260ff5f9216915b8260ff8216106126ad57505050565b6001816126c860ff936108d2865f52601b60205260405f2090565b546126de6126d86126518461259d565b89612614565b52011661269e565b6040519061010082018281106001600160401b03821117610a18576040525f60e083828152826020820152606060408201526060808201528260808201528260a08201528260c08201520152565b9061273e826125ae565b61274b60405191826109f7565b828152809261275c601f19916125ae565b01905f5b82811061276c57505050565b6020906127776126e6565b82828501015201612760565b90600182811c921680156127b1575b602083101461279d57565b634e487b7160e01b5f52602260045260245ffd5b91607f1691612792565b9060405191825f8254926127ce84612783565b808452936001811690811561283757506001146127f3575b50610a2c925003836109f7565b90505f9291925260205f20905f915b81831061281b575050906020610a2c928201015f6127e6565b6020919350806001915483858901015201910190918492612802565b905060209250610a2c94915060ff191682840152151560051b8201015f6127e6565b600682101561110f5752565b906007612870610a2e565b8354815260018401546001600160a01b0316602082015292612894600282016127bb565b60408501526128a5600382016127bb565b6060850152600481015460808501526128ce6128c5600583015460ff1690565b60a08601612859565b600681015460c0850152015460e0830152565b9190601154908184101561297f5783820382811161075a576129159261291092869281111561296f575061249c565b612734565b915f5b835181101561296b578061294f61294a61293c61293760019587612481565b612465565b5f52601260205260405f2090565b612865565b6129598287612614565b526129648186612614565b5001612918565b5050565b61297a915082612481565b61249c565b50909150506040516129926020826109f7565b5f81525f805b8181106129a457505090565b6020906129af6126e6565b82828601015201612998565b60ff60085460a01c1661075f57335f52600b60205260405f2054600954810180911161075a57421061074b576129fe60016105ce835f52600d60205260405f2090565b6108ea5780158015612a80575b61073c57612a1881612628565b7fbcf5a976ad5099b80a136d75eb362431099ce72445dd2c1a9305e658986b570b612a7b612a4e612a48846135b7565b93613ff3565b92611ac6612a5a610a1d565b8681528260208201525f6040820152611ac1865f52601060205260405f2090565b0390a3565b50600c548111612a0b565b60026040610a2c9380518455602081015160018501550151151591019060ff801983541691151516179055565b62278d008111612aef57600954816009557ff7936cbb6fd8accff179e9d4552814b6a749fd30430b36c219fbda11bbfb004b5f80a3565b637475d84d60e11b5f5260045ffd5b60085460ff8160a01c1661075f5760ff60a01b1916600160a01b17600855337f81990fd9a5c552b8e3677917d8a03c07678f0d2cb68f88b634aca2022e9bd19f5f80a2565b90816020910312610443575180151581036104435790565b6040513d5f823e3d90fd5b92919060ff60085460a01c1661075f57612b88845f52601260205260405f2090565b80541561194b576002612b9f600583015460ff1690565b612ba881611105565b1490811591612cd4575b50612cc557612be161060c612bcf865f52601560205260405f2090565b335f9081526020919091526040902090565b61071e57612bf6612bfc926002943691610a4d565b90613aa8565b612c76612c1b612c14855f52601760205260405f2090565b543361325c565b91612c63612c2761385c565b91612c4e612c3d885f52601460205260405f2090565b95612c548754612c4e8784876140dd565b90613915565b875560018701948554936140dd565b8155612c6f8354613243565b5054613243565b5001612c8281546124a9565b9055612c9d6106c5336105f7845f52601560205260405f2090565b33907fd5cdfe49f2e55c6a7f740e523a67d20e4d7e49ef9e2d6ff9366fcb2f405a606a5f80a3565b63335b65a560e11b5f5260045ffd5b6007915001544210155f612bb2565b949593929360ff60085460a01c1661075f57335f52600a60205260405f2054600954810180911161075a57421061074b57612d517f7edc618964f595eb3f96e87d2c01643484aa8490797eb47bd46680d0ad4c7f7294612d4b612ddd99612e35943691610a4d565b90613beb565b94612d5b86613243565b50612d663387613c19565b612d716011546124a9565b978896612d7d88601155565b612d85610a2e565b88815233602082015290612d9a36878c610a4d565b6040830152612daa368589610a4d565b606083015260808201525f60a08201524260c08201525f60e0820152612dd8885f52601260205260405f2090565b612f61565b612e15612df2875f52601460205260405f2090565b612dfa61385c565b8155612c6f612e0761385c565b916001810192835554613243565b50335f908152600a60205260409020429055604051938493339885613009565b0390a390565b9190601f8111612e4a57505050565b610a2c925f5260205f20906020601f840160051c83019310612e74575b601f0160051c01906124cd565b9091508190612e67565b91909182516001600160401b038111610a1857612ea581612e9f8454612783565b84612e3b565b6020601f8211600114612ee4578190612ed59394955f92612ed9575b50508160011b915f199060031b1c19161790565b9055565b015190505f80612ec1565b601f19821690612ef7845f5260205f2090565b915f5b818110612f3157509583600195969710612f19575b505050811b019055565b01515f1960f88460031b161c191690555f8080612f0f565b9192602060018192868b015181550194019201612efa565b90600681101561110f5760ff80198354169116179055565b8151815560208201516001820180546001600160a01b0319166001600160a01b039092169190911790559060079060e090612fa3604082015160028601612e7e565b612fb4606082015160038601612e7e565b60808101516004850155612fd860a0820151612fcf81611105565b60058601612f49565b60c081015160068501550151910155565b908060209392818452848401375f828201840152601f01601f1916010190565b929061302290610aad9593604086526040860191612fe9565b926020818503910152612fe9565b60ff60085460a01c1661075f57335f9081526003602052604090206130549061060c565b6131505760045460408051336020820190815292946130a6946105d69490938793613099929161309190829081015b03601f1981018352826109f7565b51902061315f565b6020815191012092613a20565b61314157335f90815260056020526040902054811461313257335f9081526003602052604090206130d6906106c5565b335f8181526005602052604081208390557fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a9080a2337fb7cadb5b5a5cc8e6b0ee092ec071d618c7e052ed9cba4e4190565421a07665a05f80a3565b630c8d9eab60e31b5f5260045ffd5b63582f497d60e11b5f5260045ffd5b6309b339b960e11b5f5260045ffd5b9060405191602083015260208252610a2c6040836109f7565b600280546001600160a01b039283166001600160a01b0319821681179092559091167fae97011a27b5efe7b1d76fe38e75cc498fd64cc24e407a9c6b2185d27f611f7e5f80a3565b60018060a01b0316806bffffffffffffffffffffffff60a01b600154161760015560018060a01b035f54167f38d16b8cac22d99fc7c124b9cd0de2d3fa1faef420bfe791d8c362d765e227005f80a3565b519063ffffffff8216820361044357565b919082604091031261044357610aad602061323c84613211565b9301613211565b610aad3082613c19565b90816020910312610443575190565b6008546001600160a01b03906132739082166117ca565b1615613322576008546132cc93926020929091613298906001600160a01b03166117ca565b604051630748d63560e31b81526001600160a01b039092166004830152602482019290925293849190829081906044820190565b03915afa918215611855575f926132f1575b5081156132e757565b9050610aad61385c565b61331491925060203d60201161331b575b61330c81836109f7565b81019061324d565b905f6132de565b503d613302565b5050610aad6138c7565b9161333561385c565b906133528161334c865f52601960205260405f2090565b54613915565b61335b81613243565b5061336e855f52601960205260405f2090565b55613398613384855f52601a60205260405f2090565b54612c4e848461339388613c81565b6140dd565b6133a181613243565b506133b4855f52601a60205260405f2090565b556133cc60046105ce865f52600d60205260405f2090565b60ff165f5b60ff811682811015613435578161340d600192612c4e888861339361340560ff998f6108d2905f52601b60205260405f2090565b54948d613cf9565b61341681613243565b5061342d826108d28b5f52601b60205260405f2090565b5501166133d1565b50505050505050565b6080600460ff928451815561346860208601511515600183019060ff801983541691151516179055565b6040850151600282015560608501516003820155019201511660ff19825416179055565b600c546134a660016105ce835f52600d60205260405f2090565b6108ea576107d56134b6916124a9565b6134ec600c546108186134c7610a3e565b82815260016020820152914260408401525f606084015260ff8516608084015261080a565b5f613501600c545f52600e60205260405f2090565b5561350a61385c565b61351381613243565b5080613529600c545f52601960205260405f2090565b558061353f600c545f52601a60205260405f2090565b555f5b60ff831660ff82161061358e57505050600c547f217ff5db260372f7ab32608612dc3d218db8f3644666e2881c29c1e771e253bf6040518061358942829190602083019252565b0390a2565b60ff600182846135ad84956108d2600c545f52601b60205260405f2090565b5501169050613542565b6040516135e8816135d46020820194604086526060830190610ea5565b30604083015203601f1981018352826109f7565b51902090565b9190825f525f805160206141f783398151915260205260405f2054156136b157825f525f805160206141f783398151915260205260405f206040519081602082549182815201915f5260205f20905f5b81811061369b57505050918161365d61366295936105d69503826109f7565b613dc8565b61368c577f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b63cf6c44e960e01b5f5260045ffd5b825484526020909301926001928301920161363e565b63d66ca67560e01b5f5260045ffd5b5f52601260205260405f209081541561194b5760ff600583015416600681101561110f5760010361193c57565b5f52601260205260405f209081541561194b5760ff600583015416600681101561110f5760020361193c57565b600581019061372f600260ff84541693612f49565b5461373d6040518093611114565b600260208301525f8051602061423783398151915260403393a3565b600581019061376e600160ff84541693612f49565b5461377c6040518093611114565b600160208301525f8051602061423783398151915260403393a3565b60058101906137ad600460ff84541693612f49565b546137bb6040518093611114565b600460208301525f8051602061423783398151915260403393a3565b60058101906137ec600560ff84541693612f49565b546137fa6040518093611114565b600560208301525f8051602061423783398151915260403393a3565b90613847600583019261382e8360ff86541695612f49565b549161383d6040518095611114565b6020840190611114565b5f8051602061423783398151915260403393a3565b5f8051602061421783398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115611855575f916138ae575090565b610aad915060203d60201161331b5761330c81836109f7565b5f602060018060a01b035f805160206142178339815191525416604460405180948193639cd07acb60e01b835260016004840152600460248401525af1908115611855575f916138ae575090565b5f6020916139829381156139a5575b8015613997575b5f805160206142178339815191525460405163022f65e760e31b8152600481019390935260248301919091526001600160f81b031983166044830152909384926001600160a01b0390921691839182906064820190565b03925af1908115611855575f916138ae575090565b506139a061385c565b61392b565b90506139af61385c565b90613924565b906139c060026125ae565b6139cd60405191826109f7565b600281526139db60026125ae565b602082019390601f19013685378193815f52601460205260405f20549083511561256457525f526014602052600160405f200154908051600110156125645760400152565b9092915f925b84841015613a64578360051b830135908181105f14613a53575f52602052600160405f205b930192613a26565b905f52602052600160405f20613a4b565b149392505050565b9081526001600160a01b03909116602082015260806040820181905290939291613a98918501906110cd565b92605482101561110f5760600152565b5f602091613af5949382613ad56117ca6117ca5f805160206142178339815191525460018060a01b031690565b926040519788958694859363196d0b9b60e01b8552339060048601613a6c565b03925af1918215611855575f92613b7d575b505f80516020614257833981519152548290613b2d906117ca906001600160a01b031681565b803b1561044357604051630f8e573b60e21b815260048101929092523360248301525f908290604490829084905af1801561185557613b695750565b80613b775f610a2c936109f7565b80610439565b613b9791925060203d60201161331b5761330c81836109f7565b905f613b07565b6004602091613af594935f613bcc6117ca6117ca5f805160206142178339815191525460018060a01b031690565b926040519788958694859363196d0b9b60e01b85523390838601613a6c565b6005602091613af594935f613ad56117ca6117ca5f805160206142178339815191525460018060a01b031690565b5f80516020614257833981519152546001600160a01b031691823b1561044357604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af1801561185557613c775750565b5f610a2c916109f7565b8015613ce5575b5f8051602061421783398151915254604051631391547f60e01b8152600481019290925260016024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af1908115611855575f916138ae575090565b505f6020613cf161385c565b915050613c88565b6020905f928115613d6a575b5f805160206142178339815191525460405163f77f3f1d60e01b815260048082019490945263ffffffff90921684830190930192909252600160f81b604482015292839160649183916001600160a01b03165af1908115611855575f916138ae575090565b9050613d7461385c565b90613d05565b60209291908391805192839101825e019081520190565b91613dba90613dac610aad9593606086526060860190610ea5565b9084820360208601526110cd565b9160408184039101526110cd565b90918251602001918260201161075a57613e5293613dfc613dea602095612473565b91613083604051938492888401613d7a565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703545f90613e34906117ca906001600160a01b031681565b92604051968795869485936378542ead60e01b855260048501613d91565b03925af1908115611855575f91613e67575090565b610aad915060203d60201161184e5761184081836109f7565b91613e9e906040929594958452606060208501526060840190610ea5565b6001600160e01b0319909416910152565b5f80516020614277833981519152545f805160206142578339815191525490929190613ee5906117ca906001600160a01b031681565b803b15610443575f6040518092637d6e912360e11b8252818381613f0c8860048301610ed8565b03925af1801561185557613fdf575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970254613f52906117ca906001600160a01b031681565b90813b1561044357604051633263b83b60e01b8152915f908390818381613f85633d44c99d60e21b888c60048501613e80565b03925af191821561185557613fa092613fcb575b508361412f565b610a2c613fba5f80516020614277833981519152546124a9565b5f8051602061427783398151915255565b80613b775f613fd9936109f7565b5f613f99565b80613b775f613fed936109f7565b5f613f1b565b5f80516020614277833981519152545f805160206142578339815191525490929190614029906117ca906001600160a01b031681565b803b15610443575f6040518092637d6e912360e11b82528183816140508860048301610ed8565b03925af18015611855576140c9575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970254614096906117ca906001600160a01b031681565b90813b1561044357604051633263b83b60e01b8152915f908390818381613f8563124bd04b60e01b888c60048501613e80565b80613b775f6140d7936109f7565b5f61405f565b9060646020925f60018060a01b035f8051602061421783398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af1908115611855575f916138ae575090565b805f525f805160206141f783398151915260205260405f20546141e7575f525f805160206141f783398151915260205260405f208151916001600160401b038311610a1857600160401b8311610a185781548383558084106141c1575b50602061419e9101915f5260205f2090565b5f5b8381106141ad5750505050565b6001906020845194019381840155016141a0565b825f528360205f2091820191015b8181106141dc575061418c565b5f81556001016141cf565b633f06d22b60e01b5f5260045ffdfe878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701d0e883b3478d5df95ce33d9e9afa0463a1850dc423b443739d9cb8614c5e7ab89e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00a164736f6c634300081a000a";
+
+type PatientDAOFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: PatientDAOFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class PatientDAOFHE__factory extends ContractFactory {
+  constructor(...args: PatientDAOFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      PatientDAOFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): PatientDAOFHE__factory {
+    return super.connect(runner) as PatientDAOFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): PatientDAOFHEInterface {
+    return new Interface(_abi) as PatientDAOFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): PatientDAOFHE {
+    return new Contract(address, _abi, runner) as unknown as PatientDAOFHE;
+  }
+}
@@ -0,0 +1,381 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  TrialEligibility,
+  TrialEligibilityInterface,
+} from "../../contracts/TrialEligibility";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract PatientDAOFHE",
+        name: "dao_",
+        type: "address",
+      },
+      {
+        internalType: "contract PatientRecordVault",
+        name: "vault_",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "InvalidCriteria",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoCriteria",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoRecord",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotEvaluator",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotProposer",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "criteriaCount",
+        type: "uint256",
+      },
+    ],
+    name: "CriteriaUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "patient",
+        type: "address",
+      },
+    ],
+    name: "EligibilityChecked",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_CRITERIA",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+    ],
+    name: "checkEligibility",
+    outputs: [
+      {
+        internalType: "ebool",
+        name: "eligible",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "checkedAt",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "criteriaUpdatedAt",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "dao",
+    outputs: [
+      {
+        internalType: "contract PatientDAOFHE",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+    ],
+    name: "getCriteria",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint8",
+            name: "field",
+            type: "uint8",
+          },
+          {
+            internalType: "bool",
+            name: "exclude",
+            type: "bool",
+          },
+          {
+            internalType: "euint32",
+            name: "min",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint32",
+            name: "max",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct RecordCriteria.Criterion[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "patient",
+        type: "address",
+      },
+    ],
+    name: "getEligibility",
+    outputs: [
+      {
+        internalType: "ebool",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "uint8",
+            name: "field",
+            type: "uint8",
+          },
+          {
+            internalType: "bool",
+            name: "exclude",
+            type: "bool",
+          },
+          {
+            internalType: "externalEuint32",
+            name: "min",
+            type: "bytes32",
+          },
+          {
+            internalType: "externalEuint32",
+            name: "max",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct RecordCriteria.CriterionInput[]",
+        name: "inputs",
+        type: "tuple[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "setCriteria",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "vault",
+    outputs: [
+      {
+        internalType: "contract PatientRecordVault",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60c06040523461024857604051601f61149d38819003918201601f19168301916001600160401b0383118484101761024c578084926040948552833981010312610248578051906001600160a01b03821682036102485760200151906001600160a01b0382168203610248575f6060610076610260565b8281528260208201528260408201520152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac60606100a6610260565b7350157cffd6bbfa2dece204a89ec419c23ef5755d815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69602082015273a02cda4ca3a71d7c46997716f4283aa851c28812604082015201527350157cffd6bbfa2dece204a89ec419c23ef5755d60018060a01b03197f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416177f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005573cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6960018060a01b03195f8051602061145d8339815191525416175f8051602061145d8339815191525573a02cda4ca3a71d7c46997716f4283aa851c2881260018060a01b03195f8051602061147d8339815191525416175f8051602061147d83398151915255731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac60018060a01b03195f8051602061143d8339815191525416175f8051602061143d8339815191525560805260a0526040516111bd9081610280823960805181818161021c0152610c2f015260a051818181609c0152818161029101526107790152f35b5f80fd5b634e487b7160e01b5f52604160045260245ffd5b60405190608082016001600160401b0381118382101761024c5760405256fe60806040526004361015610011575f80fd5b5f3560e01c8063375a12ce14610c5e5780634162169f14610c1a5780637b39fed61461073d5780638931828f1461063b578063a4ffdb9314610167578063d80bab861461013d578063da1f12ab14610121578063dd5055ba146100ea578063e966f8d3146100cf5763fbfa77cf14610087575f80fd5b346100cb575f3660031901126100cb576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b5f80fd5b346100cb575f3660031901126100cb57602060405160088152f35b346100cb576100f836610c95565b905f52600360205260405f209060018060a01b03165f52602052602060405f2054604051908152f35b346100cb575f3660031901126100cb5760206040516127118152f35b346100cb5760203660031901126100cb576004355f526001602052602060405f2054604051908152f35b346100cb5760603660031901126100cb576004356024356001600160401b0381116100cb57366023820112156100cb578060040135916001600160401b0383116100cb576024820191602436918560071b0101116100cb57604435926001600160401b0384116100cb57366023850112156100cb578360040135926001600160401b0384116100cb57602485019460248536920101116100cb576040516318feeb1560e31b8152600481018490525f816024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa90811561052a575f91610544575b50602001516001600160a01b0316330361053557825f525f60205260405f209460405191635db7629760e11b835260208360048160018060a01b037f0000000000000000000000000000000000000000000000000000000000000000165afa92831561052a575f936104ec575b50831580156104e2575b6104bf575b86548015610312575f19016102e58189610d6f565b6102ff576002815f809355826001820155015587556102d0565b634e487b7160e01b5f525f60045260245ffd5b508693949560ff5f94166002019360ff8086119516905b87811061036b57887f2f4d1814657d140c6d8df30ea0eb3e78cfc8a32ba4c202deb5920147d51be62160208a835f52600182524260405f2055604051908152a2005b8561037f61037a838b88610daf565b610dbf565b906104ce5760ff83911610156104bf576103b2604061039f838b88610daf565b01356103ac368689610dcd565b90610fcc565b906103d060606103c3838c89610daf565b01356103ac36878a610dcd565b916103db3082610f4f565b6103e53084610f4f565b6103ef3382610f4f565b6103f93384610f4f565b61040761037a838c89610daf565b6020610414848d8a610daf565b0135938415158095036100cb5760ff6040519261043084610cbb565b1682526020820194855260408201928352606082019081528a54680100000000000000008110156104ab5780600161046b92018d558c610d6f565b9390936102ff5760019560ff600294511661ff008654928260ff19851617885551151560081b169161ffff19161717845551858401555191015501610329565b634e487b7160e01b5f52604160045260245ffd5b631037b7f560e11b5f5260045ffd5b634e487b7160e01b5f52601160045260245ffd5b50600884116102cb565b9092506020813d602011610522575b8161050860209383610cd6565b810103126100cb575160ff811681036100cb5791876102c1565b3d91506104fb565b6040513d5f823e3d90fd5b637d1b73b960e01b5f5260045ffd5b90503d805f833e6105558183610cd6565b8101906020818303126100cb578051906001600160401b0382116100cb5701610100818303126100cb576040519161010083018381106001600160401b038211176104ab576040528151835260208201516001600160a01b03811681036100cb57602084015260408201516001600160401b0381116100cb57816105da918401610d29565b60408401526060820151906001600160401b0382116100cb576105fe918301610d29565b60608301526080810151608083015260a08101519060068210156100cb5760e09160a084015260c081015160c0840152015160e082015286610254565b346100cb5760203660031901126100cb576004355f525f60205260405f2080549061066582610cf7565b916106736040519384610cd6565b8083526020830180925f5260205f205f915b8383106106f6578486604051918291602083019060208452518091526040830191905f5b8181106106b7575050500390f35b91935091602060806001926060875160ff81511683528481015115158584015260408101516040840152015160608201520194019101918493926106a9565b6003602060019260405161070981610cbb565b60ff8654818116835260081c1615158382015284860154604082015260028601546060820152815201920192019190610685565b346100cb5760203660031901126100cb57600435805f525f60205260405f2090815415610c0b5760405163185fee8160e21b81523360048201527f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165f82602481845afa91821561052a575f915f935f925f91610b63575b5015610b545760206044916040519283809263c019779760e01b82523360048301523060248301525afa90811561052a575f91610b19575b5015610b0a5761080560016110f4565b945f955b8154871015610a965761081c8783610d6f565b5060ff81541660028110908115610a7f575b5015610a6e5761084484878760ff855416610e03565b60018201548180159182610a5e575b8015610a4c575b602090606460018060a01b035f805160206111918339815191525416955f6040519788948593631391547f60e01b8552600485015260248401528160448401525af192831561052a575f93610a19575b5060028401549091610a09575b80156109f7575b602090606460018060a01b035f805160206111918339815191525416935f6040519586948593631d44e90160e21b8552600485015260248401528160448401525af190811561052a575f916109c5575b5061091b9060ff92610ec9565b915b5460081c16156109b8575f8051602061119183398151915254604051630f51ccfb60e41b81526004810192909252602090829060249082905f906001600160a01b03165af190811561052a575f91610986575b5060019161097e9190610ec9565b960195610809565b90506020813d82116109b0575b816109a060209383610cd6565b810103126100cb57516001610970565b3d9150610993565b60019161097e9190610ec9565b90506020813d82116109ef575b816109df60209383610cd6565b810103126100cb575160ff61090e565b3d91506109d2565b506020610a02611142565b90506108be565b9050610a13611142565b906108b7565b9092506020813d8211610a44575b81610a3460209383610cd6565b810103126100cb5751918b6108aa565b3d9150610a27565b506020610a57611142565b905061085a565b9250610a68611142565b92610853565b60ff610a795f6110f4565b9161091d565b610a899150610d9c565b60ff85519116108961082e565b85602091610aa43082610f4f565b610aae3382610f4f565b5f8281526002845260408082203380845290865281832084905584835260038652818320818452865281832042905590519390917f421b34cdd3c3f8f28d0adc4d7d29aa55bc5dd2bc0418b1c2ec3cbaf0681567e19080a38152f35b633246566b60e21b5f5260045ffd5b90506020813d602011610b4c575b81610b3460209383610cd6565b810103126100cb575180151581036100cb57866107f5565b3d9150610b27565b633a99137560e01b5f5260045ffd5b9350509250503d805f833e610b788183610cd6565b8101916080828403126100cb5781519060208301519260408101516001600160401b0381116100cb5781019480601f870112156100cb578551610bba81610cf7565b96610bc86040519889610cd6565b81885260208089019260051b8201019283116100cb57602001905b828210610bfb575050506060015191929391876107bd565b8151815260209182019101610be3565b6334859e9f60e21b5f5260045ffd5b346100cb575f3660031901126100cb576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b346100cb57610c6c36610c95565b905f52600260205260405f209060018060a01b03165f52602052602060405f2054604051908152f35b60409060031901126100cb57600435906024356001600160a01b03811681036100cb5790565b608081019081106001600160401b038211176104ab57604052565b90601f801991011681019081106001600160401b038211176104ab57604052565b6001600160401b0381116104ab5760051b60200190565b6001600160401b0381116104ab57601f01601f191660200190565b81601f820112156100cb57805190610d4082610d0e565b92610d4e6040519485610cd6565b828452602083830101116100cb57815f9260208093018386015e8301015290565b8054821015610d88575f52600360205f20910201905f90565b634e487b7160e01b5f52603260045260245ffd5b60ff6001199116019060ff82116104ce57565b9190811015610d885760071b0190565b3560ff811681036100cb5790565b929192610dd982610d0e565b91610de76040519384610cd6565b8294818452818301116100cb578281602093845f960137010152565b919060ff8316908115610e455750600114610e3f5750610e2290610d9c565b90805160ff83161015610d8857611fe060209260051b1601015190565b91505090565b9150505f925060209150604460018060a01b035f8051602061119183398151915254169160405194859384926307227b9160e21b84526004840152600460248401525af190811561052a575f91610e9a575090565b90506020813d602011610ec1575b81610eb560209383610cd6565b810103126100cb575190565b3d9150610ea8565b908115610f3e575b8015610f2b575b602090606460018060a01b035f805160206111918339815191525416935f604051958694859363d99882d560e01b8552600485015260248401528160448401525af190811561052a575f91610e9a575090565b506020610f375f6110f4565b9050610ed8565b9050610f495f6110f4565b90610ed1565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b156100cb57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af1801561052a57610fc05750565b5f610fca91610cd6565b565b602091829160018060a01b035f805160206111918339815191525416905f60a460405180978196829563196d0b9b60e01b84526004840152336024840152608060448401528051918291826084860152018484015e818101830184905260046064830152601f01601f191681010301925af190811561052a575f916110c2575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b0316803b156100cb57604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af1801561052a576110b5575090565b5f6110bf91610cd6565b90565b90506020813d6020116110ec575b816110dd60209383610cd6565b810103126100cb57515f61104c565b3d91506110d0565b5f8051602061119183398151915254604051639cd07acb60e01b815260048101929092526001600160a01b0316816044815f6020948160248401525af190811561052a575f91610e9a575090565b5f8051602061119183398151915254604051639cd07acb60e01b81525f6004820152906001600160a01b0316816044815f602094600460248401525af190811561052a575f91610e9a57509056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c634300081a000a9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497039e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702";
+
+type TrialEligibilityConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: TrialEligibilityConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class TrialEligibility__factory extends ContractFactory {
+  constructor(...args: TrialEligibilityConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    dao_: AddressLike,
+    vault_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(dao_, vault_, overrides || {});
+  }
+  override deploy(
+    dao_: AddressLike,
+    vault_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(dao_, vault_, overrides || {}) as Promise<
+      TrialEligibility & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): TrialEligibility__factory {
+    return super.connect(runner) as TrialEligibility__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): TrialEligibilityInterface {
+    return new Interface(_abi) as TrialEligibilityInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): TrialEligibility {
+    return new Contract(address, _abi, runner) as unknown as TrialEligibility;
+  }
+}
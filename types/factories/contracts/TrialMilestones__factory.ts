@@ -0,0 +1,491 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  TrialMilestones,
+  TrialMilestonesInterface,
+} from "../../contracts/TrialMilestones";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract PatientDAOFHE",
+        name: "dao_",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "InvalidDueDate",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidMilestone",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidStatus",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotProposer",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotReviewer",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TrialNotApproved",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "milestoneIndex",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "reviewer",
+        type: "address",
+      },
+    ],
+    name: "MilestoneAccepted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "milestoneIndex",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "investigator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "documentHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "uri",
+        type: "string",
+      },
+    ],
+    name: "MilestoneAttested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "milestoneIndex",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum TrialMilestones.MilestoneKind",
+        name: "kind",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "dueDate",
+        type: "uint256",
+      },
+    ],
+    name: "MilestoneDeclared",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "milestoneIndex",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "reviewer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "MilestoneDisputed",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "milestoneIndex",
+        type: "uint256",
+      },
+    ],
+    name: "acceptMilestone",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "acceptedCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "milestoneIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "documentHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "string",
+        name: "uri",
+        type: "string",
+      },
+    ],
+    name: "attestMilestone",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "dao",
+    outputs: [
+      {
+        internalType: "contract PatientDAOFHE",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        internalType: "enum TrialMilestones.MilestoneKind",
+        name: "kind",
+        type: "uint8",
+      },
+      {
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "dueDate",
+        type: "uint256",
+      },
+    ],
+    name: "declareMilestone",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "milestoneIndex",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "milestoneIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "disputeMilestone",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+    ],
+    name: "getMilestones",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "enum TrialMilestones.MilestoneKind",
+            name: "kind",
+            type: "uint8",
+          },
+          {
+            internalType: "string",
+            name: "description",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "dueDate",
+            type: "uint256",
+          },
+          {
+            internalType: "enum TrialMilestones.MilestoneStatus",
+            name: "status",
+            type: "uint8",
+          },
+          {
+            internalType: "bytes32",
+            name: "documentHash",
+            type: "bytes32",
+          },
+          {
+            internalType: "string",
+            name: "uri",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "attestedAt",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "reviewer",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "reviewedAt",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct TrialMilestones.Milestone[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256[]",
+        name: "trialIds",
+        type: "uint256[]",
+      },
+    ],
+    name: "getProgress",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "accepted",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "total",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+    ],
+    name: "milestoneCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a034608257601f6110a838819003918201601f19168301916001600160401b03831184841017608657808492602094604052833981010312608257516001600160a01b038116810360825760805260405161100d908161009b82396080518181816101c8015281816104a4015281816107ae01528181610832015261093e0152f35b5f80fd5b634e487b7160e01b5f52604160045260245ffdfe6080806040526004361015610012575f80fd5b5f3560e01c9081633db9265c146108e25750806340a5833d146107dd5780634162169f1461079957806342c549c0146105b157806372ebb42a1461058857806393eb10261461046b578063a03a17ae14610441578063b2e45f0d146101705763cd95b4a81461007f575f80fd5b3461016c57602036600319011261016c576004356001600160401b03811161016c573660238201121561016c578060040135906001600160401b03821161016c576024810190602436918460051b01011161016c576100dd82610f31565b906100e783610f31565b925f5b81811061011f5761010d8461011b87604051938493604085526040850190610c54565b908382036020850152610c54565b0390f35b8061012d6001928486610f63565b355f528160205260405f20546101438287610f73565b5261014f818486610f63565b355f525f60205260405f20546101658288610f73565b52016100ea565b5f80fd5b3461016c57608036600319011261016c576044356004356024356064356001600160401b03811161016c576101a9903690600401610bf6565b6040516318feeb1560e31b815260048101859052909391905f816024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa908115610436575f91610414575b50602001516001600160a01b031633036104055761021e8383610fc6565b946003860160ff81541660048110156103f15780151590816103e5575b506103d657600160ff1982541617905580600487015560058601956001600160401b0386116103c25761026e8754610e0a565b601f811161037d575b505f96601f87116001146102f957867fb0955f57f76566c925fab8db3407d127d300f428c7b58fc4dd337ed20dbda2db959697985f916102ee575b508860011b905f198a60031b1c19161790555b6006429101556102e960405192839283526040602084015233976040840191610e42565b0390a4005b9050840135896102b2565b601f19871697815f5260205f20905f5b8a81106103655750887fb0955f57f76566c925fab8db3407d127d300f428c7b58fc4dd337ed20dbda2db9798999a1061034c575b5050600188811b0190556102c5565b8501355f1960038b901b60f8161c19169055888061033d565b9091602060018192858a013581550193019101610309565b875f5260205f20601f880160051c810191602089106103b8575b601f0160051c01905b8181106103ad5750610277565b5f81556001016103a0565b9091508190610397565b634e487b7160e01b5f52604160045260245ffd5b6307a92f1960e51b5f5260045ffd5b6003915014158861023b565b634e487b7160e01b5f52602160045260245ffd5b637d1b73b960e01b5f5260045ffd5b61043091503d805f833e6104288183610c87565b810190610cfd565b86610200565b6040513d5f823e3d90fd5b3461016c57602036600319011261016c576004355f526001602052602060405f2054604051908152f35b3461016c57604036600319011261016c57600435602435604051637ee312c560e11b815233600482015260208160248160018060a01b037f0000000000000000000000000000000000000000000000000000000000000000165afa908115610436575f91610559575b501561054a5760036104e68284610f87565b01805460ff191660021790555f82815260016020526040902080545f19811461053657600101905533917ff3790ca98397d1f40de9c9c77e98763e751f64752adc0dec0dda9b24226d220e5f80a4005b634e487b7160e01b5f52601160045260245ffd5b631bed7fef60e21b5f5260045ffd5b61057b915060203d602011610581575b6105738183610c87565b810190610e62565b836104d4565b503d610569565b3461016c57602036600319011261016c576004355f525f602052602060405f2054604051908152f35b3461016c57602036600319011261016c576004355f525f60205260405f2080546105da81610e7a565b906105e86040519283610c87565b808252602082019081935f5260205f20915f905b8282106106e35784866040519060208201926020835251809352604082019260408160051b84010191935f5b8281106106355784840385f35b909192603f19858203018352855161064e828251610c23565b61066960208201516101206020850152610120840190610c30565b6040820151604084015260608201519160048310156103f15783610100806106b3602096958796606060019a01526080860151608086015260a086015185820360a0870152610c30565b9360c081015160c0850152878060a01b0360e08201511660e0850152015191015297019301910194929194610628565b60405161012081018181106001600160401b038211176103c25760405260ff85541660038110156103f157815261071c60018601610e91565b60208201526002850154604082015260ff60038601541660048110156103f15760019282602092606060099501526004880154608082015261076060058901610e91565b60a0820152600688015460c0820152848060a01b0360078901541660e082015260088801546101008201528152019401910190926105fc565b3461016c575f36600319011261016c576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b3461016c57606036600319011261016c576004356024356044356001600160401b03811161016c57610813903690600401610bf6565b604051637ee312c560e11b8152336004820152909391906020816024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa908115610436575f916108c3575b501561054a576102e97f3c232537cd683bdfc76d6a85f963ae848681eb8633dcbc124697efd9961218209160036108a18686610f87565b01600360ff198254161790556040519182916020835233976020840191610e42565b6108dc915060203d602011610581576105738183610c87565b8561086a565b3461016c57608036600319011261016c5760043560243591600383101561016c576044356001600160401b03811161016c57610922903690600401610bf6565b6318feeb1560e31b8352600483018490529092606435929091907f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316905f81602481855afa908115610436575f91610bdc575b50602001516001600160a01b03163303610405575f602491604051928380926318feeb1560e31b82528760048301525afa80156104365760a0915f91610bc2575b50015160068110156103f15760021901610bb35742831115610ba457815f525f60205260405f208054680100000000000000008110156103c257610a0791600182018155610ddd565b5060ff1981541660ff871617815560018101906001600160401b0383116103c2578490610a348354610e0a565b601f8111610b54575b505f9284601f8111600114610aea57600293945f91610adf575b508560011b905f198760031b1c19161790555b0155815f525f60205260405f2054935f198501948511610536576020958594610ace610abe937fbd6693d3d69e13e54277b7e480e228724d43c467c0b038cddf1039daced1f4929560405195868096610c23565b60608b8601526060850191610e42565b9060408301520390a3604051908152f35b90508801358a610a57565b50601f19851693815f5260205f2090865f5b878110610b3657506002959610610b1d575b5050600185811b019055610a6a565b8901355f19600388901b60f8161c191690558980610b0e565b8b83013584558a965060019093019260209283019289925001610afc565b909150825f5260205f20601f850160051c81019160208610610b9a575b90601f889493920160051c01905b818110610b8c5750610a3d565b5f8155879350600101610b7f565b9091508190610b71565b63a1ff8dcd60e01b5f5260045ffd5b6325869c2160e01b5f5260045ffd5b610bd691503d805f833e6104288183610c87565b876109be565b610bf091503d805f833e6104288183610c87565b8761097d565b9181601f8401121561016c578235916001600160401b03831161016c576020838186019501011161016c57565b9060038210156103f15752565b805180835260209291819084018484015e5f828201840152601f01601f1916010190565b90602080835192838152019201905f5b818110610c715750505090565b8251845260209384019390920191600101610c64565b90601f801991011681019081106001600160401b038211176103c257604052565b81601f8201121561016c578051906001600160401b0382116103c25760405192610cdc601f8401601f191660200185610c87565b8284526020838301011161016c57815f9260208093018386015e8301015290565b60208183031261016c578051906001600160401b03821161016c57016101008183031261016c576040519161010083018381106001600160401b038211176103c2576040528151835260208201516001600160a01b038116810361016c57602084015260408201516001600160401b03811161016c5781610d7f918401610ca8565b60408401526060820151906001600160401b03821161016c57610da3918301610ca8565b60608301526080810151608083015260a081015190600682101561016c5760e09160a084015260c081015160c0840152015160e082015290565b8054821015610df6575f52600960205f20910201905f90565b634e487b7160e01b5f52603260045260245ffd5b90600182811c92168015610e38575b6020831014610e2457565b634e487b7160e01b5f52602260045260245ffd5b91607f1691610e19565b908060209392818452848401375f828201840152601f01601f1916010190565b9081602091031261016c5751801515810361016c5790565b6001600160401b0381116103c25760051b60200190565b9060405191825f825492610ea484610e0a565b8084529360018116908115610f0f5750600114610ecb575b50610ec992500383610c87565b565b90505f9291925260205f20905f915b818310610ef3575050906020610ec9928201015f610ebc565b6020919350806001915483858901015201910190918492610eda565b905060209250610ec994915060ff191682840152151560051b8201015f610ebc565b90610f3b82610e7a565b610f486040519182610c87565b8281528092610f59601f1991610e7a565b0190602036910137565b9190811015610df65760051b0190565b8051821015610df65760209160051b010190565b90610f9191610fc6565b9060ff60038301541660048110156103f1576001036103d6576007820180546001600160a01b03191633179055426008830155565b90815f525f60205260405f2054811015610ff157610fed915f525f60205260405f20610ddd565b5090565b6302e845cd60e61b5f5260045ffdfea164736f6c634300081a000a";
+
+type TrialMilestonesConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: TrialMilestonesConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class TrialMilestones__factory extends ContractFactory {
+  constructor(...args: TrialMilestonesConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    dao_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(dao_, overrides || {});
+  }
+  override deploy(
+    dao_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(dao_, overrides || {}) as Promise<
+      TrialMilestones & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): TrialMilestones__factory {
+    return super.connect(runner) as TrialMilestones__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): TrialMilestonesInterface {
+    return new Interface(_abi) as TrialMilestonesInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): TrialMilestones {
+    return new Contract(address, _abi, runner) as unknown as TrialMilestones;
+  }
+}
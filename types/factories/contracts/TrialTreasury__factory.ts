@@ -0,0 +1,738 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  TrialTreasury,
+  TrialTreasuryInterface,
+} from "../../contracts/TrialTreasury";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract PatientDAOFHE",
+        name: "dao_",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "AlreadyCommittee",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InsufficientFunds",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotCommittee",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotFunded",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotProposer",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NothingToWithdraw",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayDetected",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StateMismatch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TransferFailed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TrialNotApproved",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+    ],
+    name: "BudgetSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "member",
+        type: "address",
+      },
+    ],
+    name: "CommitteeMemberAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "member",
+        type: "address",
+      },
+    ],
+    name: "CommitteeMemberRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "committeeVersion",
+        type: "uint256",
+      },
+    ],
+    name: "CommitteeSynced",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "Deposited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "payoutIndex",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "milestone",
+        type: "string",
+      },
+    ],
+    name: "MilestonePayoutReleased",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "proposer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "WithdrawalDecrypted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+    ],
+    name: "WithdrawalRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "proposer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "Withdrawn",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "AMOUNT_UNIT",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "member",
+        type: "address",
+      },
+    ],
+    name: "addCommitteeMember",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "committeeVersion",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "dao",
+    outputs: [
+      {
+        internalType: "contract PatientDAOFHE",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getCommittee",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getFundedTrials",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+    ],
+    name: "getFunding",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "budget",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint64",
+        name: "disbursed",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint64",
+        name: "claimable",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "fundedAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+    ],
+    name: "getPayouts",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "milestone",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "releasedAt",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct TrialTreasury.Payout[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "isCommitteeMember",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+    ],
+    name: "isCommitteeSynced",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "milestone",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "amount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "releaseMilestonePayout",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "payoutIndex",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "member",
+        type: "address",
+      },
+    ],
+    name: "removeCommitteeMember",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+    ],
+    name: "requestWithdrawal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedBudget",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "setBudget",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+    ],
+    name: "syncCommittee",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "withdraw",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "withdrawable",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "withdrawalCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "trialId",
+        type: "uint256",
+      },
+    ],
+    name: "withdrawalCiphertexts",
+    outputs: [
+      {
+        internalType: "bytes32[]",
+        name: "cts",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    stateMutability: "payable",
+    type: "receive",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a06040523461023c57604051601f61275638819003918201601f19168301916001600160401b038311848410176102405780849260209460405283398101031261023c57516001600160a01b038116810361023c575f6060610060610254565b8281528260208201528260408201520152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac6060610090610254565b7350157cffd6bbfa2dece204a89ec419c23ef5755d815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69602082015273a02cda4ca3a71d7c46997716f4283aa851c28812604082015201527350157cffd6bbfa2dece204a89ec419c23ef5755d60018060a01b03197f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416177f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005573cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6960018060a01b03195f805160206127168339815191525416175f805160206127168339815191525573a02cda4ca3a71d7c46997716f4283aa851c2881260018060a01b03195f805160206127368339815191525416175f8051602061273683398151915255731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac60018060a01b03195f805160206126f68339815191525416175f805160206126f683398151915255608052604051612482908161027482396080518181816101c301528181610e7a015281816110610152818161146a015281816116a50152818161180a0152611ff60152f35b5f80fd5b634e487b7160e01b5f52604160045260245ffd5b60405190608082016001600160401b038111838210176102405760405256fe60806040526004361015610046575b3615610018575f80fd5b6040513481527f2da466a7b24304f47e87fa2e1e5a81b9831ce54fec19055ce277ca2f39ba42c460203392a2005b5f803560e01c80631e1afd9c146117a15780633ccfd60b146116d45780634162169f1461169057806344b055d9146115f757806350254301146115c757806366c59131146115905780637302fe771461157257806374c3cc8d1461154a5780637fad0d481461142f5780639ee679e814611028578063a2cac5aa14610c2a578063ab8f6ffe14610bc3578063b108303914610ba6578063b65e894114610b5f578063bdf950fd14610500578063ce513b6f146104c3578063da1f12ab146104a6578063e510916314610300578063e636d84b146102b7578063e7f1f953146101875763ebed4bd414610138575061000e565b3461018457602036600319011261018457604060809160043581526001602052208054906001810154906004600282015491015491604051938452602084015260408301526060820152f35b80fd5b5034610184576020366003190112610184576004356001600160a01b038116908190036102b357604051638da5cb5b60e01b81526020816004817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa9081156102a857839161026a575b506001600160a01b0316330361025b5761021481612229565b1561024c576102238254611bf2565b82557f0cb38e390fbd334396cf04e29d1374459cd2f2edeb56cf4d68004319aa1575c48280a280f35b63482ea39f60e01b8252600482fd5b6330cd747160e01b8252600482fd5b90506020813d6020116102a0575b81610285602093836119c2565b8101031261029c5761029690611a76565b5f6101fb565b8280fd5b3d9150610278565b6040513d85823e3d90fd5b5080fd5b5034610184576020366003190112610184576004356001600160a01b03811691908290036101845760206102f6835f52600660205260405f2054151590565b6040519015158152f35b503461018457602036600319011261018457600435815260026020526040812080546001600160401b0381116104925760208160051b019061034560405192836119c2565b8082526020820190819385526020852085925b8284106103d857868587604051928392602084019060208552518091526040840160408260051b8601019392905b82821061039557505050500390f35b919360019193955060208091603f1989820301855287519082806103c28451604085526040850190611a52565b9301519101529601920192018594939192610386565b6040516103e481611993565b6040518884546103f381611c14565b808452906001811690811561046f5750600114610439575b50926002928261042160209460019703826119c2565b81528486015483820152815201920193019290610358565b858b5260208b208b92505b8183106104595750508101602001600261040b565b6001816020925483868801015201920191610444565b60ff191660208086019190915291151560051b840190910191506002905061040b565b634e487b7160e01b83526041600452602483fd5b503461018457806003193601126101845760206040516127118152f35b5034610184576020366003190112610184576004356001600160a01b038116908190036102b3578160409160209352600383522054604051908152f35b5034610184576080366003190112610184576004356024356001600160401b03811161029c57610534903690600401611933565b6064929192356001600160401b038111610b5b57610556903690600401611933565b9061056c335f52600660205260405f2054151590565b15610b4c5761059261059a91610581866120c7565b9361058b87611c4c565b36916119fe565b604435611e6f565b90805491600182019081548415610b3c575b8015610b2a575b602090606460018060a01b035f805160206124568339815191525416968b6040519889948593631391547f60e01b8552600485015260248401528160448401525af1938415610a35578894610af6575b50825482548115610ae6575b8015610ad4575b602090606460018060a01b035f805160206124568339815191525416938c60405195869485936303056db360e31b8552600485015260248401528160448401525af18015610ac9578990610a96575b602091506064610673611ded565b5f8051602061245683398151915254604051637702dcff60e01b8152600481019990995260248901939093526044880152869182908c906001600160a01b03165af1938415610a35578894610a62575b508381948215610a52575b15610a40575b602090606460018060a01b035f805160206124568339815191525416968b6040519889948593631d44e90160e21b8552600485015260248401528160448401525af1938415610a35578894610a00575b506020906064610732611ded565b5f8051602061245683398151915254604051637702dcff60e01b8152600481019890985260248801939093526044870152859182908b906001600160a01b03165af19283156109f55787936109bb575b506107a0918161079585600294546120ee565b9055019182546120ee565b90556107ab82611f7c565b818452600260205260408420604051906107c482611993565b6107cf3684876119fe565b82526020820190428252805490600160401b82101561099357600182018082558210156109a7578752602087209060011b0191518051906001600160401b0382116109935761081e8454611c14565b601f811161094e575b50602090601f83116001146108e95760019392918991836108de575b50505f19600383901b1c191690831b1783555b51910155818452600260205260408420545f198101939084116108ca578160407ff3a1b1251a033687fc205e3f587731928447a1a867d83853f62086aadd937a3c9286959460209883519485938b8552818c86015285850137828201840152601f01601f19168101030190a3604051908152f35b634e487b7160e01b85526011600452602485fd5b015190505f80610843565b8489528189209190601f1984168a5b818110610936575091600195949291838795931061091e575b505050811b018355610856565b01515f1960f88460031b161c191690555f8080610911565b929360206001819287860151815501950193016108f8565b84895260208920601f840160051c81019160208510610989575b601f0160051c01905b81811061097e5750610827565b898155600101610971565b9091508190610968565b634e487b7160e01b88526041600452602488fd5b634e487b7160e01b88526032600452602488fd5b9092506020813d6020116109ed575b816109d7602093836119c2565b810103126109e95751916107a0610782565b5f80fd5b3d91506109ca565b6040513d89823e3d90fd5b9093506020813d602011610a2d575b81610a1c602093836119c2565b810103126109e95751926020610724565b3d9150610a0f565b6040513d8a823e3d90fd5b506020610a4b611ded565b90506106d4565b9450610a5c611ded565b946106ce565b9093506020813d602011610a8e575b81610a7e602093836119c2565b810103126109e95751925f6106c3565b3d9150610a71565b506020813d602011610ac1575b81610ab0602093836119c2565b810103126109e95760209051610665565b3d9150610aa3565b6040513d8b823e3d90fd5b506020610adf611ded565b9050610616565b9050610af0611ded565b9061060f565b9093506020813d602011610b22575b81610b12602093836119c2565b810103126109e95751925f610603565b3d9150610b05565b506020610b35611ded565b90506105b3565b9350610b46611ded565b936105ac565b6373d664e160e11b8652600486fd5b8480fd5b5034610184576020366003190112610184576040606091600435815260046020522080549060ff600260018301549201541690604051928352602083015215156040820152f35b503461018457806003193601126101845760209054604051908152f35b5034610184578060031936011261018457610bdc6122ad565b90604051918291602083016020845282518091526020604085019301915b818110610c08575050500390f35b82516001600160a01b0316845285945060209384019390920191600101610bfa565b5034610184576060366003190112610184576004356024356001600160401b03811161029c57610c5e903690600401611a34565b906044356001600160401b03811161102457610c7e903690600401611a34565b9080845260046020526040842092600284019260ff84541661101557610cac610ca78654611ba7565b612172565b600186015403611006578286525f80516020612436833981519152602052604086205415610ff7578286525f805160206124368339815191526020526040862090604051918281549182825260208201908a5260208a20928a5b818110610fde575050610d1b925003836119c2565b825191826020019283602011610fca57604001809311610fb657602092610dd192610dbf8a8694610d6c868060405180988d80519d8e91019d8e8585015e82019083820152030180885201866119c2565b610de360018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703541694604051988997889687956378542ead60e01b8752606060048801526064870190611960565b85810360031901602487015290611a52565b83810360031901604485015290611a52565b03925af19081156109f5578791610f77575b5015610f6857602060405192847f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d8980a2805181010312610f645751926001600160401b038416809403610f6457805460ff19166001908117909155845486526020526040852060030185905583546318feeb1560e31b8252600482015284816024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa908115610f59578591610f37575b50602001516001600160a01b031692633b9aca0083810293801590850490911417156108ca57838552600360205260408520805490848201809211610f23575554604051928352917f171e4ae0f1e58d06b5dcfac1b2af24d2029329b8326ee3846d61a29dd6f883a190602090a480f35b634e487b7160e01b87526011600452602487fd5b610f5391503d8087833e610f4b81836119c2565b810190611ad0565b5f610eb2565b6040513d87823e3d90fd5b8580fd5b63cf6c44e960e01b8652600486fd5b90506020813d602011610fae575b81610f92602093836119c2565b81010312610faa57518015158103610faa575f610df5565b8680fd5b3d9150610f85565b634e487b7160e01b88526011600452602488fd5b634e487b7160e01b89526011600452602489fd5b8454835260019485019487945060209093019201610d06565b63d66ca67560e01b8652600486fd5b6313b304fb60e21b8652600486fd5b63faf8ed4f60e01b8652600486fd5b8380fd5b50346109e95760203660031901126109e957600435611046816120c7565b6040516318feeb1560e31b8152600481018390525f816024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa9081156113ea575f91611415575b50602001516001600160a01b03163303611406576110b682611c4c565b60028101906003825491018054806113f5575b50556110d3611ded565b90556110de81611f7c565b6110e781611ba7565b6110f081612172565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00547f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700549092906001600160a01b0316803b156109e9575f6040518092637d6e912360e11b82526020600483015281838161116e6024820189611960565b03925af180156113ea576113d5575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025485906001600160a01b0316803b156102b357816040518092633263b83b60e01b8252876004830152606060248301528183816111df606482018a611960565b63516562d560e11b604483015203925af180156113ca576113b5575b508390525f8051602061243683398151915260205260408520546113a6578285525f80516020612436833981519152602052604085208151916001600160401b03831161139257600160401b831161139257815483835580841061136c575b5060200190865260208620865b838110611358575050505061129c7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0054611bf2565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0055604051606081018181106001600160401b0382111761134457916020917fa07ac9f775e6e5edfb28af61f23de01bda058ebeb624e8fd3c69711b91c24a27936040528581526002838201918383526040810192898452878a526004865260408a2091518255516001820155019051151560ff80198354169116179055604051908152a380f35b634e487b7160e01b86526041600452602486fd5b600190602084519401938184015501611267565b828852836020892091820191015b818110611387575061125a565b88815560010161137a565b634e487b7160e01b87526041600452602487fd5b633f06d22b60e01b8552600485fd5b816113bf916119c2565b610b5b57845f6111fb565b6040513d84823e3d90fd5b6113e29195505f906119c2565b5f935f61117d565b6040513d5f823e3d90fd5b6113ff91926120ee565b905f6110c9565b637d1b73b960e01b5f5260045ffd5b61142991503d805f833e610f4b81836119c2565b5f611099565b346109e95760203660031901126109e9576004356001600160a01b038116908190036109e957604051638da5cb5b60e01b81526020816004817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa9081156113ea575f91611510575b506001600160a01b03163303611501576114bb816122f5565b156114f2576114ca5f54611bf2565b5f557fc0cdacae5a1efb347198155da639c5dbd0a4231a08caed21a124471443a2f5625f80a2005b6373d664e160e11b5f5260045ffd5b6330cd747160e01b5f5260045ffd5b90506020813d602011611542575b8161152b602093836119c2565b810103126109e95761153c90611a76565b826114a2565b3d915061151e565b346109e95760203660031901126109e95761157060043561156a816120c7565b50611c4c565b005b346109e9575f3660031901126109e9576020604051633b9aca008152f35b346109e95760203660031901126109e9576115c36115af600435611ba7565b604051918291602083526020830190611960565b0390f35b346109e95760203660031901126109e9576004355f5260016020526020600560405f2001545f5414604051908152f35b346109e9575f3660031901126109e9576040516007549081815260208101809260075f5260205f20905f5b81811061167a57505050816116389103826119c2565b604051918291602083019060208452518091526040830191905f5b818110611661575050500390f35b8251845285945060209384019390920191600101611653565b8254845260209093019260019283019201611622565b346109e9575f3660031901126109e9576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b346109e9575f3660031901126109e957335f52600360205260405f205480156117925780471061178357335f5260036020525f60408120555f80808084335af13d1561177e573d611724816119e3565b9061173260405192836119c2565b81525f60203d92013e5b1561176f576040519081527f7084f5476618d8e60b11ef0d7d3f06914655adb8793e28ff7f018d4c76d505d560203392a2005b6312171d8360e31b5f5260045ffd5b61173c565b63356680b760e01b5f5260045ffd5b630686827b60e51b5f5260045ffd5b346109e95760603660031901126109e9576004356044356001600160401b0381116109e9576117d4903690600401611933565b906117ea335f52600660205260405f2054151590565b156114f2576040516318feeb1560e31b8152600481018490525f816024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa80156113ea5760a0915f91611919575b500151600681101561190557600219016118f6576118ae6118b691845f52600160205260405f2093600485018054155f146118e757611881611ded565b600187015561188e611ded565b60028701554290555f5460058601556118a6866121be565b5036916119fe565b602435611e6f565b90556118c181611f7c565b7faa2e070b2836a61656bb052c00da7076d0992fd90d7d0da7a8256bc4c6481cd85f80a2005b506118f186611c4c565b61058b565b6325869c2160e01b5f5260045ffd5b634e487b7160e01b5f52602160045260245ffd5b61192d91503d805f833e610f4b81836119c2565b85611844565b9181601f840112156109e9578235916001600160401b0383116109e957602083818601950101116109e957565b90602080835192838152019201905f5b81811061197d5750505090565b8251845260209384019390920191600101611970565b604081019081106001600160401b038211176119ae57604052565b634e487b7160e01b5f52604160045260245ffd5b90601f801991011681019081106001600160401b038211176119ae57604052565b6001600160401b0381116119ae57601f01601f191660200190565b929192611a0a826119e3565b91611a1860405193846119c2565b8294818452818301116109e9578281602093845f960137010152565b9080601f830112156109e957816020611a4f933591016119fe565b90565b805180835260209291819084018484015e5f828201840152601f01601f1916010190565b51906001600160a01b03821682036109e957565b81601f820112156109e957805190611aa1826119e3565b92611aaf60405194856119c2565b828452602083830101116109e957815f9260208093018386015e8301015290565b6020818303126109e9578051906001600160401b0382116109e95701610100818303126109e9576040519161010083018381106001600160401b038211176119ae5760405281518352611b2560208301611a76565b602084015260408201516001600160401b0381116109e95781611b49918401611a8a565b60408401526060820151906001600160401b0382116109e957611b6d918301611a8a565b60608301526080810151608083015260a08101519060068210156109e95760e09160a084015260c081015160c0840152015160e082015290565b90604051611bb66040826119c2565b6001815260208082019036823781935f526001602052600360405f200154915115611bde5752565b634e487b7160e01b5f52603260045260245ffd5b5f198114611c005760010190565b634e487b7160e01b5f52601160045260245ffd5b90600182811c92168015611c42575b6020831014611c2e57565b634e487b7160e01b5f52602260045260245ffd5b91607f1691611c23565b805f52600160205260405f20600581019081545f54809114611de7575f9255602060018060a01b035f805160206124568339815191525416602460405180958193636baeb74560e11b8352600560048401525af180156113ea575f90611db5575b5f92508015611da3575b5f8051602061245683398151915254604051630afe14ad60e31b8152600481019290925260248201849052600160f81b6044830152909260209184916064918391906001600160a01b03165af19182156113ea575f92611d6e575b50600281611d2484611d3594546120ee565b8155600181016107958582546120ee565b9055611d4081611f7c565b7f8a9d6547a87eb9b0899d5ba5d60a5631a439d18b598a36ea010651d6e7aced6360205f54604051908152a2565b9091506020813d602011611d9b575b81611d8a602093836119c2565b810103126109e95751906002611d12565b3d9150611d7d565b506020611dae611ded565b9050611cb7565b506020823d602011611ddf575b81611dcf602093836119c2565b810103126109e9575f9151611cad565b3d9150611dc2565b50505050565b5f8051602061245683398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af19081156113ea575f91611e40575090565b90506020813d602011611e67575b81611e5b602093836119c2565b810103126109e9575190565b3d9150611e4e565b611ebe9160209160018060a01b035f805160206124568339815191525416905f60405180968195829463196d0b9b60e01b84526004840152336024840152608060448401526084830190611a52565b6005606483015203925af19081156113ea575f91611f4a575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b0316803b156109e957604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af180156113ea57611f40575090565b5f611a4f916119c2565b90506020813d602011611f74575b81611f65602093836119c2565b810103126109e957515f611ed7565b3d9150611f58565b90815f526001602052611f9460405f205430906123ba565b815f526001602052611fad30600160405f2001546123ba565b815f526001602052611fc630600260405f2001546123ba565b815f526001602052600360405f2001546120a9575b6040516318feeb1560e31b8152600481018390525f816024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa80156113ea57612045915f9161208f575b50602001516001600160a01b031683612279565b61204d6122ad565b5f5b8151811015612089578151811015611bde57600581901b82016020015160019190612083906001600160a01b031686612279565b0161204f565b50509050565b6120a391503d805f833e610f4b81836119c2565b5f612031565b815f5260016020526120c230600360405f2001546123ba565b611fdb565b5f52600160205260405f20906004820154156120df57565b636af784dd60e11b5f5260045ffd5b908115612162575b8015612150575b602090606460018060a01b035f805160206124568339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af19081156113ea575f91611e40575090565b50602061215b611ded565b90506120fd565b905061216c611ded565b906120f6565b6040516121a38161218f6020820194604086526060830190611960565b30604083015203601f1981018352826119c2565b51902090565b8054821015611bde575f5260205f2001905f90565b805f52600860205260405f2054155f1461222457600754600160401b8110156119ae5761220d6121f782600185940160075560076121a9565b819391549060031b91821b915f19901b19161790565b9055600754905f52600860205260405f2055600190565b505f90565b805f52600660205260405f2054155f1461222457600554600160401b8110156119ae576122626121f782600185940160055560056121a9565b9055600554905f52600660205260405f2055600190565b906122ab915f526001602052600260405f206122968382546123ba565b6122a48360018301546123ba565b01546123ba565b565b60405190600554808352826020810160055f5260205f20925f5b8181106122dc5750506122ab925003836119c2565b84548352600194850194879450602090930192016122c7565b5f8181526006602052604090205480156123b4575f198101818111611c00576005545f19810191908211611c005781810361237c575b5050506005548015612368575f19016123458160056121a9565b8154905f199060031b1b191690556005555f5260066020525f6040812055600190565b634e487b7160e01b5f52603160045260245ffd5b61239e61238d6121f79360056121a9565b90549060031b1c92839260056121a9565b90555f52600660205260405f20555f808061232b565b50505f90565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b156109e957604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af180156113ea5761242b5750565b5f6122ab916119c256fe878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c634300081a000a9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497039e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702";
+
+type TrialTreasuryConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: TrialTreasuryConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class TrialTreasury__factory extends ContractFactory {
+  constructor(...args: TrialTreasuryConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    dao_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(dao_, overrides || {});
+  }
+  override deploy(
+    dao_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(dao_, overrides || {}) as Promise<
+      TrialTreasury & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): TrialTreasury__factory {
+    return super.connect(runner) as TrialTreasury__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): TrialTreasuryInterface {
+    return new Interface(_abi) as TrialTreasuryInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): TrialTreasury {
+    return new Contract(address, _abi, runner) as unknown as TrialTreasury;
+  }
+}
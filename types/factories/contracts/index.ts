@@ -1,4 +1,14 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
+export * as patientDaoDeSciSol from "./Patient_DAO_DeSci.sol";
+export { CohortStatistics__factory } from "./CohortStatistics__factory";
+export { ConsentRegistry__factory } from "./ConsentRegistry__factory";
+export { ParticipationRewards__factory } from "./ParticipationRewards__factory";
+export { PatientDAOTimelock__factory } from "./PatientDAOTimelock__factory";
+export { PatientMembershipToken__factory } from "./PatientMembershipToken__factory";
+export { PatientRecordVault__factory } from "./PatientRecordVault__factory";
+export { RecordCriteria__factory } from "./RecordCriteria__factory";
+export { TrialEligibility__factory } from "./TrialEligibility__factory";
+export { TrialMilestones__factory } from "./TrialMilestones__factory";
+export { TrialTreasury__factory } from "./TrialTreasury__factory";
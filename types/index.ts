@@ -3,6 +3,8 @@
 /* eslint-disable */
 import type * as fhevm from "./@fhevm";
 export type { fhevm };
+import type * as openzeppelin from "./@openzeppelin";
+export type { openzeppelin };
 import type * as contracts from "./contracts";
 export type { contracts };
 export * as factories from "./factories";
@@ -22,5 +24,69 @@ export type { IFHEVMExecutor } from "./@fhevm/solidity/lib/Impl.sol/IFHEVMExecut
 export { IFHEVMExecutor__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor__factory";
 export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifier";
 export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
-export type { UniversalAdapter } from "./contracts/UniversalAdapter";
-export { UniversalAdapter__factory } from "./factories/contracts/UniversalAdapter__factory";
+export type { AccessControl } from "./@openzeppelin/contracts/access/AccessControl";
+export { AccessControl__factory } from "./factories/@openzeppelin/contracts/access/AccessControl__factory";
+export type { IAccessControl } from "./@openzeppelin/contracts/access/IAccessControl";
+export { IAccessControl__factory } from "./factories/@openzeppelin/contracts/access/IAccessControl__factory";
+export type { TimelockController } from "./@openzeppelin/contracts/governance/TimelockController";
+export { TimelockController__factory } from "./factories/@openzeppelin/contracts/governance/TimelockController__factory";
+export type { IERC1271 } from "./@openzeppelin/contracts/interfaces/IERC1271";
+export { IERC1271__factory } from "./factories/@openzeppelin/contracts/interfaces/IERC1271__factory";
+export type { IERC5267 } from "./@openzeppelin/contracts/interfaces/IERC5267";
+export { IERC5267__factory } from "./factories/@openzeppelin/contracts/interfaces/IERC5267__factory";
+export type { IERC7913SignatureVerifier } from "./@openzeppelin/contracts/interfaces/IERC7913.sol/IERC7913SignatureVerifier";
+export { IERC7913SignatureVerifier__factory } from "./factories/@openzeppelin/contracts/interfaces/IERC7913.sol/IERC7913SignatureVerifier__factory";
+export type { IERC1155Receiver } from "./@openzeppelin/contracts/token/ERC1155/IERC1155Receiver";
+export { IERC1155Receiver__factory } from "./factories/@openzeppelin/contracts/token/ERC1155/IERC1155Receiver__factory";
+export type { ERC1155Holder } from "./@openzeppelin/contracts/token/ERC1155/utils/ERC1155Holder";
+export { ERC1155Holder__factory } from "./factories/@openzeppelin/contracts/token/ERC1155/utils/ERC1155Holder__factory";
+export type { IERC721Receiver } from "./@openzeppelin/contracts/token/ERC721/IERC721Receiver";
+export { IERC721Receiver__factory } from "./factories/@openzeppelin/contracts/token/ERC721/IERC721Receiver__factory";
+export type { ERC721Holder } from "./@openzeppelin/contracts/token/ERC721/utils/ERC721Holder";
+export { ERC721Holder__factory } from "./factories/@openzeppelin/contracts/token/ERC721/utils/ERC721Holder__factory";
+export type { Address } from "./@openzeppelin/contracts/utils/Address";
+export { Address__factory } from "./factories/@openzeppelin/contracts/utils/Address__factory";
+export type { ECDSA } from "./@openzeppelin/contracts/utils/cryptography/ECDSA";
+export { ECDSA__factory } from "./factories/@openzeppelin/contracts/utils/cryptography/ECDSA__factory";
+export type { EIP712 } from "./@openzeppelin/contracts/utils/cryptography/EIP712";
+export { EIP712__factory } from "./factories/@openzeppelin/contracts/utils/cryptography/EIP712__factory";
+export type { MerkleProof } from "./@openzeppelin/contracts/utils/cryptography/MerkleProof";
+export { MerkleProof__factory } from "./factories/@openzeppelin/contracts/utils/cryptography/MerkleProof__factory";
+export type { MessageHashUtils } from "./@openzeppelin/contracts/utils/cryptography/MessageHashUtils";
+export { MessageHashUtils__factory } from "./factories/@openzeppelin/contracts/utils/cryptography/MessageHashUtils__factory";
+export type { Errors } from "./@openzeppelin/contracts/utils/Errors";
+export { Errors__factory } from "./factories/@openzeppelin/contracts/utils/Errors__factory";
+export type { ERC165 } from "./@openzeppelin/contracts/utils/introspection/ERC165";
+export { ERC165__factory } from "./factories/@openzeppelin/contracts/utils/introspection/ERC165__factory";
+export type { IERC165 } from "./@openzeppelin/contracts/utils/introspection/IERC165";
+export { IERC165__factory } from "./factories/@openzeppelin/contracts/utils/introspection/IERC165__factory";
+export type { SafeCast } from "./@openzeppelin/contracts/utils/math/SafeCast";
+export { SafeCast__factory } from "./factories/@openzeppelin/contracts/utils/math/SafeCast__factory";
+export type { Nonces } from "./@openzeppelin/contracts/utils/Nonces";
+export { Nonces__factory } from "./factories/@openzeppelin/contracts/utils/Nonces__factory";
+export type { ShortStrings } from "./@openzeppelin/contracts/utils/ShortStrings";
+export { ShortStrings__factory } from "./factories/@openzeppelin/contracts/utils/ShortStrings__factory";
+export type { Strings } from "./@openzeppelin/contracts/utils/Strings";
+export { Strings__factory } from "./factories/@openzeppelin/contracts/utils/Strings__factory";
+export type { CohortStatistics } from "./contracts/CohortStatistics";
+export { CohortStatistics__factory } from "./factories/contracts/CohortStatistics__factory";
+export type { ConsentRegistry } from "./contracts/ConsentRegistry";
+export { ConsentRegistry__factory } from "./factories/contracts/ConsentRegistry__factory";
+export type { ParticipationRewards } from "./contracts/ParticipationRewards";
+export { ParticipationRewards__factory } from "./factories/contracts/ParticipationRewards__factory";
+export type { PatientDAOFHE } from "./contracts/Patient_DAO_DeSci.sol/PatientDAOFHE";
+export { PatientDAOFHE__factory } from "./factories/contracts/Patient_DAO_DeSci.sol/PatientDAOFHE__factory";
+export type { PatientDAOTimelock } from "./contracts/PatientDAOTimelock";
+export { PatientDAOTimelock__factory } from "./factories/contracts/PatientDAOTimelock__factory";
+export type { PatientMembershipToken } from "./contracts/PatientMembershipToken";
+export { PatientMembershipToken__factory } from "./factories/contracts/PatientMembershipToken__factory";
+export type { PatientRecordVault } from "./contracts/PatientRecordVault";
+export { PatientRecordVault__factory } from "./factories/contracts/PatientRecordVault__factory";
+export type { RecordCriteria } from "./contracts/RecordCriteria";
+export { RecordCriteria__factory } from "./factories/contracts/RecordCriteria__factory";
+export type { TrialEligibility } from "./contracts/TrialEligibility";
+export { TrialEligibility__factory } from "./factories/contracts/TrialEligibility__factory";
+export type { TrialMilestones } from "./contracts/TrialMilestones";
+export { TrialMilestones__factory } from "./factories/contracts/TrialMilestones__factory";
+export type { TrialTreasury } from "./contracts/TrialTreasury";
+export { TrialTreasury__factory } from "./factories/contracts/TrialTreasury__factory";